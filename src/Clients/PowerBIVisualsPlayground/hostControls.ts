@@ -68,6 +68,8 @@ module powerbi.visuals {
 
         constructor(parent: JQuery, resetInteractiveVisualDelegate: (IHost) => void) {
             parent.find('#randomize').on('click', () => this.randomize());
+            parent.find('#exportCsv').on('click', () => this.exportData(DataExportFormat.Csv));
+            parent.find('#exportSpreadsheet').on('click', () => this.exportData(DataExportFormat.SpreadsheetML));
 
             this.dataViewsSelect = parent.find('#dataViewsSelect').first();
 
@@ -145,6 +147,18 @@ module powerbi.visuals {
             }
         }
 
+        private exportData(format: DataExportFormat): void {
+            let dataViews = this.sampleDataViews.getDataViews();
+            if (_.isEmpty(dataViews))
+                return;
+
+            defaultVisualHostServices.exportData({
+                dataView: dataViews[0],
+                format: format,
+                fileName: this.dataViewsSelect.val(),
+            });
+        }
+
         private onChangeDuration(): void {
             this.animation_duration = parseInt(this.animationDurationElement.val(), 10);
             this.update();
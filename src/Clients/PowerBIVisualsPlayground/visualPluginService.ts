@@ -125,7 +125,7 @@ module powerbi.visuals {
             isScrollable: true,
             tooltipsEnabled: true,
             animator: new WebColumnChartAnimator(),
-            behavior: new CartesianChartBehavior([new ColumnChartWebBehavior()]),
+            behavior: new CartesianChartBehavior([new ColumnChartWebBehavior(DragSelectionMode.Rectangle)]),
             isLabelInteractivityEnabled: isLabelInteractivityEnabled,
         }));
         // Column Chart
@@ -200,6 +200,8 @@ module powerbi.visuals {
             behavior: new CartesianChartBehavior([new LineChartWebBehavior()]),
             isLabelInteractivityEnabled: isLabelInteractivityEnabled,
             advancedLineLabelsEnabled: advancedLineLabelsEnabled,
+            isZoomable: true,
+            showZoomBrush: true,
         }));
         // Area Chart
         createPlugin(plugins, powerbi.visuals.plugins.areaChart, () => new CartesianChart({
@@ -210,6 +212,8 @@ module powerbi.visuals {
             behavior: new CartesianChartBehavior([new LineChartWebBehavior()]),
             isLabelInteractivityEnabled: isLabelInteractivityEnabled,
             advancedLineLabelsEnabled: advancedLineLabelsEnabled,
+            isZoomable: true,
+            showZoomBrush: true,
         }));
         // Stacked Area Chart
         createPlugin(plugins, powerbi.visuals.plugins.stackedAreaChart, () => new CartesianChart({
@@ -253,8 +257,9 @@ module powerbi.visuals {
             isScrollable: true,
             tooltipsEnabled: true,
             animator: new BaseAnimator(),
-            behavior: new CartesianChartBehavior([new ScatterChartWebBehavior()]),
+            behavior: new CartesianChartBehavior([new ScatterChartWebBehavior(DragSelectionMode.Lasso)]),
             isLabelInteractivityEnabled: isLabelInteractivityEnabled,
+            isZoomable: true,
         }));
         // Treemap
         createPlugin(plugins, powerbi.visuals.plugins.treemap, () => new Treemap({
@@ -271,6 +276,41 @@ module powerbi.visuals {
             behavior: new CartesianChartBehavior([new WaterfallChartWebBehavior()]),
             isLabelInteractivityEnabled: isLabelInteractivityEnabled,
         }));
+        // Box and Whisker Chart
+        createPlugin(plugins, powerbi.visuals.plugins.boxAndWhiskerChart, () => new CartesianChart({
+            chartType: CartesianChartType.BoxAndWhisker,
+            isScrollable: true,
+            tooltipsEnabled: true,
+            behavior: new CartesianChartBehavior([new BoxAndWhiskerChartWebBehavior()]),
+        }));
+        // Candlestick Chart
+        createPlugin(plugins, powerbi.visuals.plugins.candlestickChart, () => new CartesianChart({
+            chartType: CartesianChartType.Candlestick,
+            isScrollable: true,
+            tooltipsEnabled: true,
+            behavior: new CartesianChartBehavior([new CandlestickChartWebBehavior()]),
+        }));
+        // Small Multiples
+        createPlugin(plugins, powerbi.visuals.plugins.smallMultiplesAreaChart, () => new SmallMultiplesChart({
+            chartType: CartesianChartType.Area,
+            tooltipsEnabled: true,
+            createBehavior: () => new CartesianChartBehavior([new LineChartWebBehavior()]),
+        }));
+        createPlugin(plugins, powerbi.visuals.plugins.smallMultiplesColumnChart, () => new SmallMultiplesChart({
+            chartType: CartesianChartType.ClusteredColumn,
+            tooltipsEnabled: true,
+            createBehavior: () => new CartesianChartBehavior([new ColumnChartWebBehavior()]),
+        }));
+        createPlugin(plugins, powerbi.visuals.plugins.smallMultiplesLineChart, () => new SmallMultiplesChart({
+            chartType: CartesianChartType.Line,
+            tooltipsEnabled: true,
+            createBehavior: () => new CartesianChartBehavior([new LineChartWebBehavior()]),
+        }));
+        createPlugin(plugins, powerbi.visuals.plugins.smallMultiplesScatterChart, () => new SmallMultiplesChart({
+            chartType: CartesianChartType.Scatter,
+            tooltipsEnabled: true,
+            createBehavior: () => new CartesianChartBehavior([new ScatterChartWebBehavior()]),
+        }));
         // Map
         createPlugin(plugins, powerbi.visuals.plugins.map, () => new Map({
             behavior: new MapBehavior(),
@@ -285,6 +325,11 @@ module powerbi.visuals {
             filledMapDataLabelsEnabled: fillMapDataLabelsEnabled,
             isLegendScrollable: true,
         }));
+        // Shape Map
+        createPlugin(plugins, powerbi.visuals.plugins.shapeMap, () => new ShapeMap({
+            behavior: new MapBehavior(),
+            tooltipsEnabled: true,
+        }));
         // Slicer
         createPlugin(plugins, powerbi.visuals.plugins.slicer, () => new Slicer({
             behavior: new SlicerWebBehavior(),
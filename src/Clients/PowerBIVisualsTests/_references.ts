@@ -25,6 +25,7 @@
 /// <reference path="./common/arrayExtensionsTests.ts"/>
 /// <reference path="./common/colorTests.ts"/>
 /// <reference path="./common/doubleTests.ts"/>
+/// <reference path="./common/downsamplingHelperTests.ts"/>
 /// <reference path="./common/forecastHelperTests.ts"/>
 /// <reference path="./common/labelDataPointSorterTests.ts"/>
 /// <reference path="./common/prototypeTests.ts"/>
@@ -39,13 +40,20 @@
 /// <reference path="./types/valueTypeTests.ts"/>
 /// <reference path="./converters/slicerConverterTests.ts"/>
 /// <reference path="./data/contracts/queryProjectionTests.ts"/>
+/// <reference path="./data/dataReader/localDataReaderTests.ts"/>
+/// <reference path="./data/services/semanticQuerySerializerTests.ts"/>
 /// <reference path="./data/dataView/dataViewCategoricalReaderTests.ts"/>
+/// <reference path="./data/dataView/dataViewExporterTests.ts"/>
+/// <reference path="./data/dataView/dataViewForecastTests.ts"/>
+/// <reference path="./data/dataView/dataViewRegressionTests.ts"/>
 /// <reference path="./utils/kpiUtilTests.ts"/>
 /// <reference path="./common/dateUtilTests.ts"/>
 /// <reference path="./utils/newDataLabelUtilsTests.ts"/>
 /// <reference path="./visuals/animatedNumberTests.ts"/>
 /// <reference path="./visuals/animatedTextTests.ts"/>
 /// <reference path="./visuals/basicShapeTests.ts"/>
+/// <reference path="./visuals/boxAndWhiskerChartTests.ts"/>
+/// <reference path="./visuals/candlestickChartTests.ts"/>
 /// <reference path="./visuals/cardTests.ts"/>
 /// <reference path="./visuals/cartesianChartTests.ts"/>
 /// <reference path="./visuals/columnChartTests.ts"/>
@@ -58,21 +66,28 @@
 /// <reference path="./visuals/common/converterHelperTests.ts"/>
 /// <reference path="./visuals/common/dataLabelUtilsTests.ts"/>
 /// <reference path="./visuals/common/dataRoleHelperTests.ts"/>
+/// <reference path="./visuals/common/dataPointKeyboardNavigatorTests.ts"/>
+/// <reference path="./visuals/common/dataPointDragSelectorTests.ts"/>
 /// <reference path="./visuals/common/gradientUtilsTests.ts"/>
+/// <reference path="./visuals/common/highContrastHelperTests.ts"/>
 /// <reference path="./visuals/common/invalidDataValuesCheckerTests.ts"/>
 /// <reference path="./visuals/common/listViewTests.ts"/>
 /// <reference path="./visuals/common/objectEnumerationBuilderTests.ts"/>
 /// <reference path="./visuals/common/pluginTests.ts"/>
+/// <reference path="./visuals/common/rightToLeftHelperTests.ts"/>
 /// <reference path="./visuals/common/selectionIdTests.ts"/>
 /// <reference path="./visuals/common/selectionManagerTests.ts"/>
 /// <reference path="./visuals/common/shapesTests.ts"/>
 /// <reference path="./visuals/common/svgUtilTests.ts"/>
+/// <reference path="./visuals/common/svgExportUtilTests.ts"/>
 /// <reference path="./visuals/common/visibilityUtilTests.ts"/>
 /// <reference path="./visuals/common/visualBackgroundHelperTests.ts"/>
 /// <reference path="./visuals/common/visualObjectRepetitionTests.ts"/>
 /// <reference path="./visuals/common/wordBreakerTests.ts"/>
 /// <reference path="./visuals/controls/svgScrollbarTests.ts"/>
 /// <reference path="./visuals/controls/tablixControlTests.ts"/>
+/// <reference path="./visuals/controls/tablixConditionalFormattingTests.ts"/>
+/// <reference path="./visuals/controls/tablixFilterMenuTests.ts"/>
 /// <reference path="./visuals/controls/selectMenuTests.ts"/>
 /// <reference path="./visuals/dataColorPaletteTests.ts"/>
 /// <reference path="./visuals/dataDotChartTests.ts"/>
@@ -95,9 +110,12 @@
 /// <reference path="./visuals/performance/performanceTests.ts"/>
 /// <reference path="./visuals/playChartTests.ts"/>
 /// <reference path="./visuals/scatterChartTests.ts"/>
+/// <reference path="./visuals/shapeMapTests.ts"/>
 /// <reference path="./visuals/scriptVisualTests.ts"/>
+/// <reference path="./visuals/smallMultiplesChartTests.ts"/>
 /// <reference path="./visuals/services/colorAllocatorFactoryTests.ts"/>
 /// <reference path="./visuals/services/geocoderTests.ts"/>
+/// <reference path="./visuals/services/offlineGeocoderTests.ts"/>
 /// <reference path="./visuals/services/geocodingCacheTests.ts"/>
 /// <reference path="./visuals/services/geoTaggingAnalyzerServiceTests.ts"/>
 /// <reference path="./visuals/services/interactivityServiceTests.ts"/>
@@ -105,12 +123,15 @@
 /// <reference path="./visuals/services/textMeasurementServiceTests.ts"/>
 /// <reference path="./visuals/services/tooltipServiceTests.ts"/>
 /// <reference path="./visuals/slicerTests.ts"/>
+/// <reference path="./visuals/rangeSlicerTests.ts"/>
+/// <reference path="./visuals/hierarchySlicerTests.ts"/>
 /// <reference path="./visuals/tableTests.ts"/>
 /// <reference path="./visuals/textboxTests.ts"/>
 /// <reference path="./visuals/tooltipTests.ts"/>
 /// <reference path="./visuals/treemapTests.ts"/>
 /// <reference path="./visuals/verticalSlicerTests.ts"/>
 /// <reference path="./visuals/waterfallChartTests.ts"/>
+/// <reference path="./visuals/zoomableAxesTests.ts"/>
 /// <reference path="./visuals/system/debugVisualTests.ts"/>
 /// <reference path="./extensibility/extensibilityMocks.ts"/>
 /// <reference path="./extensibility/extensibilityHelpers.ts"/>
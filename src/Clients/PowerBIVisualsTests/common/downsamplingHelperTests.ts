@@ -0,0 +1,117 @@
+/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved. 
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *   
+ *  The above copyright notice and this permission notice shall be included in 
+ *  all copies or substantial portions of the Software.
+ *   
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR 
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, 
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE 
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER 
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+/// <reference path="../_references.ts"/>
+
+module powerbitests {
+    import DownsamplingHelper = powerbi.visuals.DownsamplingHelper;
+    import IPoint = powerbi.visuals.IPoint;
+
+    describe('DownsamplingHelper', () => {
+        let getX = (point: IPoint) => point.x;
+        let getY = (point: IPoint) => point.y;
+
+        function createPoints(count: number, getValue: (x: number) => number): IPoint[] {
+            return _.map(_.range(0, count), (x: number) => <IPoint>{ x: x, y: getValue(x) });
+        }
+
+        describe('largestTriangleThreeBuckets', () => {
+            it('keeps lines under the threshold', () => {
+                let points = createPoints(10, (x) => x);
+                expect(DownsamplingHelper.largestTriangleThreeBuckets(points, 10, getX, getY)).toBe(points);
+            });
+
+            it('downsamples to the threshold with the original points', () => {
+                let points = createPoints(1000, (x) => Math.sin(x / 10));
+                let downsampled = DownsamplingHelper.largestTriangleThreeBuckets(points, 100, getX, getY);
+
+                expect(downsampled.length).toBe(100);
+                expect(downsampled[0]).toBe(points[0]);
+                expect(_.last(downsampled)).toBe(_.last(points));
+                for (let point of downsampled)
+                    expect(points[point.x]).toBe(point);
+                expect(_.map(downsampled, getX)).toEqual(_.sortBy(_.map(downsampled, getX)));
+            });
+
+            it('keeps peaks', () => {
+                let points = createPoints(1000, (x) => x === 501 ? 100 : x === 733 ? -100 : 0);
+                let downsampled = DownsamplingHelper.largestTriangleThreeBuckets(points, 20, getX, getY);
+
+                expect(downsampled).toContain(points[501]);
+                expect(downsampled).toContain(points[733]);
+            });
+
+            it('keeps gaps', () => {
+                let points = createPoints(1000, (x) => x === 400 || x === 401 ? null : x % 7);
+                let downsampled = DownsamplingHelper.largestTriangleThreeBuckets(points, 100, getX, getY);
+
+                expect(downsampled).toContain(points[399]);
+                expect(downsampled).toContain(points[400]);
+                expect(downsampled).toContain(points[401]);
+                expect(downsampled).toContain(points[402]);
+                expect(downsampled.length).not.toBeGreaterThan(104);
+            });
+        });
+
+        describe('aggregateByGrid', () => {
+            let bounds: powerbi.visuals.IRect = { left: 0, top: 0, width: 100, height: 100 };
+            let getPosition = (point: IPoint) => point;
+
+            it('keeps the first point of each cell', () => {
+                let points: IPoint[] = [{ x: 1, y: 1 }, { x: 2, y: 2 }, { x: 5, y: 1 }, { x: 1.5, y: 1.5 }, { x: 50, y: 50 }];
+                expect(DownsamplingHelper.aggregateByGrid(points, 4, getPosition, bounds)).toEqual([points[0], points[2], points[4]]);
+            });
+
+            it('does not aggregate points of different groups', () => {
+                let points: IPoint[] = [{ x: 1, y: 1 }, { x: 2, y: 2 }, { x: 3, y: 3 }];
+                let getGroupKey = (point: IPoint) => point.x === 2 ? 'a' : 'b';
+                expect(DownsamplingHelper.aggregateByGrid(points, 4, getPosition, bounds, getGroupKey)).toEqual([points[0], points[1]]);
+            });
+
+            it('leaves out points outside the bounds', () => {
+                let points: IPoint[] = [{ x: -1, y: 1 }, { x: 1, y: 101 }, { x: NaN, y: 1 }, { x: 100, y: 100 }];
+                expect(DownsamplingHelper.aggregateByGrid(points, 4, getPosition, bounds)).toEqual([points[3]]);
+            });
+        });
+
+        describe('filterToDomain', () => {
+            let points = createPoints(10, (x) => x);
+
+            it('keeps the nearest points outside the domain', () => {
+                expect(DownsamplingHelper.filterToDomain(points, [2.5, 5], getX)).toEqual(points.slice(2, 7));
+                expect(DownsamplingHelper.filterToDomain(points, [5, 2.5], getX)).toEqual(points.slice(2, 7));
+            });
+
+            it('keeps all the points of a wider domain', () => {
+                expect(DownsamplingHelper.filterToDomain(points, [-10, 20], getX)).toEqual(points);
+            });
+
+            it('keeps the nearest point of a domain past the points', () => {
+                expect(DownsamplingHelper.filterToDomain(points, [20, 30], getX)).toEqual([points[9]]);
+            });
+        });
+    });
+}
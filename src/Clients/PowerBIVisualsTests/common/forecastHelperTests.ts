@@ -51,7 +51,9 @@ module powerbitests {
                         lineColor: ForecastHelper.defaults.lineColor,
                         confidenceBandStyle: ForecastHelper.defaults.confidenceBandStyle,
                         transparency: ForecastHelper.defaults.transparency,
-                        style: ForecastHelper.defaults.style
+                        style: ForecastHelper.defaults.style,
+                        forecastLength: ForecastHelper.defaults.forecastLength,
+                        confidenceLevel: ForecastHelper.defaults.confidenceLevel,
                     },
                     objectName: 'forecast',
                 });
@@ -96,7 +98,9 @@ module powerbitests {
                         lineColor: { solid: { color: 'red' } },
                         confidenceBandStyle: powerbi.visuals.confidenceBandStyle.fill,
                         transparency: 80,
-                        style: lineStyle.solid
+                        style: lineStyle.solid,
+                        forecastLength: ForecastHelper.defaults.forecastLength,
+                        confidenceLevel: ForecastHelper.defaults.confidenceLevel,
                     },
                     objectName: 'forecast',
                 });
@@ -199,7 +203,10 @@ module powerbitests {
                     lineColor: { solid: { color: '#000' } },
                     confidenceBandStyle: powerbi.visuals.confidenceBandStyle.fill,
                     transparency: 80,
-                    style: lineStyle.solid
+                    style: lineStyle.solid,
+                    forecastLength: ForecastHelper.defaults.forecastLength,
+                    confidenceLevel: ForecastHelper.defaults.confidenceLevel,
+                    seasonality: undefined,
                 }]);
             });
         });
@@ -29,6 +29,9 @@
 module powerbitests {
     import lineStyle = powerbi.visuals.lineStyle;
     import referenceLinePosition = powerbi.visuals.referenceLinePosition;
+    import referenceLineValueType = powerbi.visuals.referenceLineValueType;
+    import referenceBandAxis = powerbi.visuals.referenceBandAxis;
+    import referenceBandBoundType = powerbi.visuals.referenceBandBoundType;
     import labelText = powerbi.visuals.labelText;
     import referenceLineDataLabelHorizontalPosition = powerbi.visuals.referenceLineDataLabelHorizontalPosition;
     import referenceLineDataLabelVerticalPosition = powerbi.visuals.referenceLineDataLabelVerticalPosition;
@@ -53,6 +56,7 @@ module powerbitests {
                     },
                     properties: {
                         show: false,
+                        valueType: referenceLineValueType.constant,
                         value: '',
                         lineColor: { solid: { color: 'red' } },
                         transparency: 50,
@@ -110,6 +114,65 @@ module powerbitests {
                 expect(instances[0].properties[ReferenceLineHelper.ReferenceLineProps.lineColor]).toEqual({ solid: { color: 'red' } });
                 expect(instances[0].properties[ReferenceLineHelper.ReferenceLineProps.dataLabelColor]).toEqual({ solid: { color: 'red' } });
             });
+
+            it('computed reference lines do not enumerate their value', () => {
+                let enumerationBuilder = new ObjectEnumerationBuilder();
+                let objects: DataViewObjectMap = {
+                    '0': { show: true, valueType: referenceLineValueType.percentile, percentile: 90, value: 5 },
+                    '1': { show: true, valueType: referenceLineValueType.average, value: 5 },
+                };
+                let refLines = ReferenceLineHelper.readDataView(objects, 'red', 'y1AxisReferenceLine', AxisLocation.Y1);
+                ReferenceLineHelper.enumerateObjectInstances(enumerationBuilder, refLines, 'red', 'y1AxisReferenceLine');
+                let instances = enumerationBuilder.complete().instances;
+
+                expect(instances[0].properties[ReferenceLineHelper.ReferenceLineProps.valueType]).toBe(referenceLineValueType.percentile);
+                expect(instances[0].properties[ReferenceLineHelper.ReferenceLineProps.percentile]).toBe(90);
+                expect(instances[0].properties[ReferenceLineHelper.ReferenceLineProps.value]).toBeUndefined();
+
+                expect(instances[1].properties[ReferenceLineHelper.ReferenceLineProps.valueType]).toBe(referenceLineValueType.average);
+                expect(instances[1].properties[ReferenceLineHelper.ReferenceLineProps.percentile]).toBeUndefined();
+                expect(instances[1].properties[ReferenceLineHelper.ReferenceLineProps.value]).toBeUndefined();
+            });
+        });
+
+        describe('computeValue', () => {
+            let values = [7, null, 1, 4, NaN, 10, 3];
+
+            function computeValue(referenceLine: DataViewObject, values: powerbi.PrimitiveValue[]): number {
+                let refLines = ReferenceLineHelper.readDataView({ '0': referenceLine }, 'red', 'y1AxisReferenceLine', AxisLocation.Y1);
+                return ReferenceLineHelper.computeValue(refLines[0], values);
+            }
+
+            it('constant', () => {
+                expect(computeValue({ show: true, value: 42 }, values)).toBe(42);
+                expect(computeValue({ show: true, valueType: referenceLineValueType.constant, value: 42 }, values)).toBe(42);
+            });
+
+            it('average', () => {
+                expect(computeValue({ show: true, valueType: referenceLineValueType.average }, values)).toBe(5);
+            });
+
+            it('median', () => {
+                expect(computeValue({ show: true, valueType: referenceLineValueType.median }, values)).toBe(4);
+                expect(computeValue({ show: true, valueType: referenceLineValueType.median }, [1, 2, 3, 10])).toBe(2.5);
+            });
+
+            it('percentile', () => {
+                expect(computeValue({ show: true, valueType: referenceLineValueType.percentile, percentile: 25 }, values)).toBe(3);
+                expect(computeValue({ show: true, valueType: referenceLineValueType.percentile, percentile: 90 }, values)).toBeCloseTo(8.8, 8);
+                expect(computeValue({ show: true, valueType: referenceLineValueType.percentile, percentile: 150 }, values)).toBe(10);
+                expect(computeValue({ show: true, valueType: referenceLineValueType.percentile }, values)).toBe(4);
+            });
+
+            it('min and max', () => {
+                expect(computeValue({ show: true, valueType: referenceLineValueType.min }, values)).toBe(1);
+                expect(computeValue({ show: true, valueType: referenceLineValueType.max }, values)).toBe(10);
+            });
+
+            it('no values', () => {
+                expect(computeValue({ show: true, valueType: referenceLineValueType.average }, [])).toBeNull();
+                expect(computeValue({ show: true, valueType: referenceLineValueType.max }, [null, NaN])).toBeNull();
+            });
         });
 
         describe('readDataView', () => {
@@ -200,12 +263,180 @@ module powerbitests {
                 expect(greenLine.dataLabelProperties.text).toEqual(labelText.nameAndValue);
             });
         });
+
+        describe('reference bands', () => {
+            it('with no reference bands generates a single reference band object', () => {
+                let enumerationBuilder = new ObjectEnumerationBuilder();
+                ReferenceLineHelper.enumerateReferenceBands(enumerationBuilder, [], 'red');
+                let instances = enumerationBuilder.complete().instances;
+
+                expect(instances).toEqual([{
+                    selector: {
+                        id: '0'
+                    },
+                    properties: {
+                        show: false,
+                        axis: referenceBandAxis.y,
+                        boundType: referenceBandBoundType.constant,
+                        startValue: '',
+                        endValue: '',
+                        fill: { solid: { color: 'red' } },
+                        transparency: 80,
+                        position: referenceLinePosition.back,
+                        dataLabelShow: false,
+                    },
+                    objectName: 'referenceBand'
+                }]);
+            });
+
+            it('read bands with defaults', () => {
+                let objects: DataViewObjectMap = {
+                    '0': { show: true, startValue: 10, endValue: 20 },
+                    '1': { show: true, axis: referenceBandAxis.x, boundType: referenceBandBoundType.percentile, displayName: 'Holidays' },
+                };
+
+                let refBands = ReferenceLineHelper.readReferenceBands(objects, 'red');
+                expect(refBands.length).toBe(2);
+
+                let constantBand = refBands[0];
+                expect(constantBand.selector).toEqual({ id: '0' });
+                expect(constantBand.axis).toBe(AxisLocation.Y1);
+                expect(constantBand.boundType).toBe(referenceBandBoundType.constant);
+                expect(constantBand.startValue).toBe(10);
+                expect(constantBand.endValue).toBe(20);
+                expect(constantBand.fill).toEqual({ solid: { color: 'red' } });
+                expect(constantBand.transparency).toBe(80);
+                expect(constantBand.position).toBe(referenceLinePosition.back);
+                expect(constantBand.dataLabelProperties.show).toBe(false);
+                expect(constantBand.dataLabelProperties.text).toBe(labelText.name);
+
+                let percentileBand = refBands[1];
+                expect(percentileBand.axis).toBe(AxisLocation.X);
+                expect(percentileBand.displayName).toBe('Holidays');
+                expect(percentileBand.startPercentile).toBe(25);
+                expect(percentileBand.endPercentile).toBe(75);
+            });
+
+            it('enumerates only the inputs of the bound type', () => {
+                let enumerationBuilder = new ObjectEnumerationBuilder();
+                let objects: DataViewObjectMap = {
+                    '0': { show: true, startValue: 10, endValue: 20 },
+                    '1': { show: true, axis: referenceBandAxis.x, boundType: referenceBandBoundType.standardDeviation, standardDeviations: 2 },
+                    '2': { show: true, boundType: referenceBandBoundType.percentile, startPercentile: 10, endPercentile: 90, dataLabelShow: true },
+                };
+                let refBands = ReferenceLineHelper.readReferenceBands(objects, 'red');
+                ReferenceLineHelper.enumerateReferenceBands(enumerationBuilder, refBands, 'red');
+                let instances = enumerationBuilder.complete().instances;
+
+                expect(instances.length).toBe(3);
+                expect(instances[0].properties['startValue']).toBe(10);
+                expect(instances[0].properties['endValue']).toBe(20);
+                expect(instances[0].properties['standardDeviations']).toBeUndefined();
+                expect(instances[0].properties['dataLabelColor']).toBeUndefined();
+
+                expect(instances[1].properties['axis']).toBe(referenceBandAxis.x);
+                expect(instances[1].properties['standardDeviations']).toBe(2);
+                expect(instances[1].properties['startValue']).toBeUndefined();
+                expect(instances[1].properties['startPercentile']).toBeUndefined();
+
+                expect(instances[2].properties['startPercentile']).toBe(10);
+                expect(instances[2].properties['endPercentile']).toBe(90);
+                expect(instances[2].properties['endValue']).toBeUndefined();
+                expect(instances[2].properties['dataLabelColor']).toEqual({ solid: { color: 'red' } });
+                expect(instances[2].properties['dataLabelText']).toBe(labelText.name);
+            });
+
+            describe('computeBandRange', () => {
+                let values = [2, 4, null, 4, 4, 5, NaN, 5, 7, 9];
+
+                function computeBandRange(referenceBand: DataViewObject, bandValues: powerbi.PrimitiveValue[]): powerbi.NumberRange {
+                    let refBands = ReferenceLineHelper.readReferenceBands({ '0': referenceBand }, 'red');
+                    return ReferenceLineHelper.computeBandRange(refBands[0], bandValues);
+                }
+
+                it('constant', () => {
+                    expect(computeBandRange({ show: true, startValue: 1, endValue: 2 }, values)).toEqual({ min: 1, max: 2 });
+                });
+
+                it('standard deviation', () => {
+                    expect(computeBandRange({ show: true, boundType: referenceBandBoundType.standardDeviation }, values)).toEqual({ min: 3, max: 7 });
+                    expect(computeBandRange({ show: true, boundType: referenceBandBoundType.standardDeviation, standardDeviations: 1.5 }, values)).toEqual({ min: 2, max: 8 });
+                });
+
+                it('percentile', () => {
+                    expect(computeBandRange({ show: true, boundType: referenceBandBoundType.percentile }, values)).toEqual({ min: 4, max: 5.5 });
+                    expect(computeBandRange({ show: true, boundType: referenceBandBoundType.percentile, startPercentile: 0, endPercentile: 100 }, values)).toEqual({ min: 2, max: 9 });
+                });
+
+                it('no values', () => {
+                    expect(computeBandRange({ show: true, boundType: referenceBandBoundType.standardDeviation }, [])).toBeNull();
+                    expect(computeBandRange({ show: true, boundType: referenceBandBoundType.percentile }, [null])).toBeNull();
+                });
+            });
+
+            describe('render', () => {
+                let graphicContext: D3.Selection;
+                let axes: powerbi.visuals.CartesianAxisProperties;
+                let viewport: powerbi.IViewport = { width: 200, height: 100 };
+
+                beforeEach(() => {
+                    graphicContext = d3.select($('<svg>').get(0)).append('g');
+                    axes = <powerbi.visuals.CartesianAxisProperties>{
+                        x: <any>{ scale: d3.scale.linear().domain([0, 20]).range([0, 200]) },
+                        y1: <any>{ scale: d3.scale.linear().domain([0, 10]).range([100, 0]), isCategoryAxis: false },
+                    };
+                });
+
+                function render(objects: DataViewObjectMap): void {
+                    ReferenceLineHelper.render({
+                        graphicContext: graphicContext,
+                        referenceLines: [],
+                        referenceBands: ReferenceLineHelper.readReferenceBands(objects, 'red'),
+                        axes: axes,
+                        viewport: viewport,
+                    });
+                }
+
+                it('renders a horizontal band behind the data', () => {
+                    graphicContext.append('circle');
+                    render({ '0': { show: true, startValue: 8, endValue: 2, transparency: 60 } });
+
+                    let band = graphicContext.select('.reference-band-back');
+                    expect(graphicContext.node().firstChild).toBe(band.node());
+                    expect(+band.attr('x')).toBe(0);
+                    expect(+band.attr('y')).toBeCloseTo(20, 8);
+                    expect(+band.attr('width')).toBe(200);
+                    expect(+band.attr('height')).toBeCloseTo(60, 8);
+                    expect(band.style('fill-opacity')).toBe('0.4');
+                });
+
+                it('renders a vertical band in front of the data', () => {
+                    render({ '0': { show: true, axis: referenceBandAxis.x, startValue: 5, endValue: 10, position: referenceLinePosition.front } });
+
+                    let band = graphicContext.select('.reference-band-front');
+                    expect(+band.attr('x')).toBe(50);
+                    expect(+band.attr('y')).toBe(0);
+                    expect(+band.attr('width')).toBe(50);
+                    expect(+band.attr('height')).toBe(100);
+                });
+
+                it('does not render hidden bands or bands without bounds', () => {
+                    render({
+                        '0': { show: false, startValue: 1, endValue: 2 },
+                        '1': { show: true, startValue: 1 },
+                    });
+
+                    expect(graphicContext.selectAll('rect').size()).toBe(0);
+                });
+            });
+        });
     });
 
     module referenceLineObjects {
         export const redLine: DataViewObject = {
             show: true,
             displayName: 'red',
+            valueType: referenceLineValueType.constant,
             value: '1',
             lineColor: { solid: { color: 'red' } },
             transparency: 10,
@@ -223,6 +454,7 @@ module powerbitests {
         export const blueLine: DataViewObject = {
             show: true,
             displayName: 'blue',
+            valueType: referenceLineValueType.constant,
             value: '2',
             lineColor: { solid: { color: 'blue' } },
             transparency: 20,
@@ -33,6 +33,7 @@ module powerbitests {
     import ObjectEnumerationBuilder = powerbi.visuals.ObjectEnumerationBuilder;
     import TrendLineHelper = powerbi.visuals.TrendLineHelper;
     import TrendLine = powerbi.visuals.TrendLine;
+    import trendLineType = powerbi.visuals.trendLineType;
     import DataViewTransform = powerbi.data.DataViewTransform;
 
     describe('TrendLineHelper', () => {
@@ -59,6 +60,7 @@ module powerbitests {
                         transparency: TrendLineHelper.defaults.transparency,
                         style: TrendLineHelper.defaults.lineStyle,
                         combineSeries: TrendLineHelper.defaults.combineSeries,
+                        regressionType: TrendLineHelper.defaults.regressionType,
                     },
                     objectName: 'trend',
                 });
@@ -77,6 +79,11 @@ module powerbitests {
                     combineSeries: true,
                     y2Axis: false,
                     useHighlightValues: TrendLineHelper.defaults.useHighlightValues,
+                    regressionType: TrendLineHelper.defaults.regressionType,
+                    polynomialOrder: TrendLineHelper.defaults.polynomialOrder,
+                    movingAveragePeriod: TrendLineHelper.defaults.movingAveragePeriod,
+                    showEquation: TrendLineHelper.defaults.showEquation,
+                    showRSquared: TrendLineHelper.defaults.showRSquared,
                 };
 
                 TrendLineHelper.enumerateObjectInstances(enumerationBuilder, [trendLine]);
@@ -92,10 +99,54 @@ module powerbitests {
                         transparency: 20,
                         combineSeries: true,
                         useHighlightValues: TrendLineHelper.defaults.useHighlightValues,
+                        regressionType: TrendLineHelper.defaults.regressionType,
+                        showEquation: TrendLineHelper.defaults.showEquation,
+                        showRSquared: TrendLineHelper.defaults.showRSquared,
                     },
                     objectName: 'trend',
                 });
             });
+
+            it('with non-linear trend line object', () => {
+                let trendLine: TrendLine = {
+                    points: samplePoints,
+                    show: true,
+                    displayName: undefined,
+                    lineColor: TrendLineHelper.defaults.lineColor,
+                    style: TrendLineHelper.defaults.lineStyle,
+                    transparency: TrendLineHelper.defaults.transparency,
+                    combineSeries: true,
+                    y2Axis: false,
+                    useHighlightValues: TrendLineHelper.defaults.useHighlightValues,
+                    regressionType: trendLineType.polynomial,
+                    polynomialOrder: 3,
+                    movingAveragePeriod: TrendLineHelper.defaults.movingAveragePeriod,
+                    showEquation: true,
+                    showRSquared: false,
+                };
+
+                let enumerationBuilder = new ObjectEnumerationBuilder();
+                TrendLineHelper.enumerateObjectInstances(enumerationBuilder, [trendLine]);
+                let properties = enumerationBuilder.complete().instances[0].properties;
+
+                expect(properties['regressionType']).toBe(trendLineType.polynomial);
+                expect(properties['polynomialOrder']).toBe(3);
+                expect(properties['movingAveragePeriod']).toBeUndefined();
+                expect(properties['showEquation']).toBe(true);
+                expect(properties['showRSquared']).toBe(false);
+
+                // A moving average has no equation
+                trendLine.regressionType = trendLineType.movingAverage;
+                enumerationBuilder = new ObjectEnumerationBuilder();
+                TrendLineHelper.enumerateObjectInstances(enumerationBuilder, [trendLine]);
+                properties = enumerationBuilder.complete().instances[0].properties;
+
+                expect(properties['regressionType']).toBe(trendLineType.movingAverage);
+                expect(properties['polynomialOrder']).toBeUndefined();
+                expect(properties['movingAveragePeriod']).toBe(TrendLineHelper.defaults.movingAveragePeriod);
+                expect(properties['showEquation']).toBeUndefined();
+                expect(properties['showRSquared']).toBeUndefined();
+            });
         });
 
         describe('readDataView', () => {
@@ -185,6 +236,11 @@ module powerbitests {
                     combineSeries: true,
                     y2Axis: false,
                     useHighlightValues: TrendLineHelper.defaults.useHighlightValues,
+                    regressionType: TrendLineHelper.defaults.regressionType,
+                    polynomialOrder: TrendLineHelper.defaults.polynomialOrder,
+                    movingAveragePeriod: TrendLineHelper.defaults.movingAveragePeriod,
+                    showEquation: TrendLineHelper.defaults.showEquation,
+                    showRSquared: TrendLineHelper.defaults.showRSquared,
                 }]);
             });
 
@@ -210,6 +266,11 @@ module powerbitests {
                         combineSeries: false,
                         y2Axis: false,
                         useHighlightValues: TrendLineHelper.defaults.useHighlightValues,
+                        regressionType: TrendLineHelper.defaults.regressionType,
+                        polynomialOrder: TrendLineHelper.defaults.polynomialOrder,
+                        movingAveragePeriod: TrendLineHelper.defaults.movingAveragePeriod,
+                        showEquation: TrendLineHelper.defaults.showEquation,
+                        showRSquared: TrendLineHelper.defaults.showRSquared,
                     }, {
                         points: [{ x: 1, y: 15 }, { x: 6, y: 65 }],
                         show: true,
@@ -220,6 +281,11 @@ module powerbitests {
                         combineSeries: false,
                         y2Axis: false,
                         useHighlightValues: TrendLineHelper.defaults.useHighlightValues,
+                        regressionType: TrendLineHelper.defaults.regressionType,
+                        polynomialOrder: TrendLineHelper.defaults.polynomialOrder,
+                        movingAveragePeriod: TrendLineHelper.defaults.movingAveragePeriod,
+                        showEquation: TrendLineHelper.defaults.showEquation,
+                        showRSquared: TrendLineHelper.defaults.showRSquared,
                     }]);
             });
 
@@ -252,6 +318,11 @@ module powerbitests {
                             combineSeries: false,
                             y2Axis: false,
                             useHighlightValues: TrendLineHelper.defaults.useHighlightValues,
+                            regressionType: TrendLineHelper.defaults.regressionType,
+                            polynomialOrder: TrendLineHelper.defaults.polynomialOrder,
+                            movingAveragePeriod: TrendLineHelper.defaults.movingAveragePeriod,
+                            showEquation: TrendLineHelper.defaults.showEquation,
+                            showRSquared: TrendLineHelper.defaults.showRSquared,
                         }, {
                             points: [{ x: 1, y: 15 }, { x: 6, y: 65 }],
                             show: true,
@@ -262,6 +333,11 @@ module powerbitests {
                             combineSeries: false,
                             y2Axis: false,
                             useHighlightValues: TrendLineHelper.defaults.useHighlightValues,
+                            regressionType: TrendLineHelper.defaults.regressionType,
+                            polynomialOrder: TrendLineHelper.defaults.polynomialOrder,
+                            movingAveragePeriod: TrendLineHelper.defaults.movingAveragePeriod,
+                            showEquation: TrendLineHelper.defaults.showEquation,
+                            showRSquared: TrendLineHelper.defaults.showRSquared,
                         }]);
                 });
 
@@ -291,6 +367,11 @@ module powerbitests {
                             combineSeries: false,
                             y2Axis: false,
                             useHighlightValues: TrendLineHelper.defaults.useHighlightValues,
+                            regressionType: TrendLineHelper.defaults.regressionType,
+                            polynomialOrder: TrendLineHelper.defaults.polynomialOrder,
+                            movingAveragePeriod: TrendLineHelper.defaults.movingAveragePeriod,
+                            showEquation: TrendLineHelper.defaults.showEquation,
+                            showRSquared: TrendLineHelper.defaults.showRSquared,
                         }, {
                             points: [{ x: 1, y: 15 }, { x: 6, y: 65 }],
                             show: true,
@@ -301,6 +382,11 @@ module powerbitests {
                             combineSeries: false,
                             y2Axis: false,
                             useHighlightValues: TrendLineHelper.defaults.useHighlightValues,
+                            regressionType: TrendLineHelper.defaults.regressionType,
+                            polynomialOrder: TrendLineHelper.defaults.polynomialOrder,
+                            movingAveragePeriod: TrendLineHelper.defaults.movingAveragePeriod,
+                            showEquation: TrendLineHelper.defaults.showEquation,
+                            showRSquared: TrendLineHelper.defaults.showRSquared,
                         }]);
                 });
             });
@@ -326,6 +412,11 @@ module powerbitests {
                     combineSeries: true,
                     y2Axis: false,
                     useHighlightValues: TrendLineHelper.defaults.useHighlightValues,
+                    regressionType: TrendLineHelper.defaults.regressionType,
+                    polynomialOrder: TrendLineHelper.defaults.polynomialOrder,
+                    movingAveragePeriod: TrendLineHelper.defaults.movingAveragePeriod,
+                    showEquation: TrendLineHelper.defaults.showEquation,
+                    showRSquared: TrendLineHelper.defaults.showRSquared,
                 }]);
 
                 // --- Legacy color overrides line color
@@ -350,6 +441,11 @@ module powerbitests {
                     combineSeries: true,
                     y2Axis: false,
                     useHighlightValues: TrendLineHelper.defaults.useHighlightValues,
+                    regressionType: TrendLineHelper.defaults.regressionType,
+                    polynomialOrder: TrendLineHelper.defaults.polynomialOrder,
+                    movingAveragePeriod: TrendLineHelper.defaults.movingAveragePeriod,
+                    showEquation: TrendLineHelper.defaults.showEquation,
+                    showRSquared: TrendLineHelper.defaults.showRSquared,
                 }]);
             });
 
@@ -371,6 +467,11 @@ module powerbitests {
                     combineSeries: true,
                     y2Axis: false,
                     useHighlightValues: TrendLineHelper.defaults.useHighlightValues,
+                    regressionType: TrendLineHelper.defaults.regressionType,
+                    polynomialOrder: TrendLineHelper.defaults.polynomialOrder,
+                    movingAveragePeriod: TrendLineHelper.defaults.movingAveragePeriod,
+                    showEquation: TrendLineHelper.defaults.showEquation,
+                    showRSquared: TrendLineHelper.defaults.showRSquared,
                 }]);
             });
 
@@ -387,6 +488,11 @@ module powerbitests {
                     combineSeries: true,
                     y2Axis: true,
                     useHighlightValues: TrendLineHelper.defaults.useHighlightValues,
+                    regressionType: TrendLineHelper.defaults.regressionType,
+                    polynomialOrder: TrendLineHelper.defaults.polynomialOrder,
+                    movingAveragePeriod: TrendLineHelper.defaults.movingAveragePeriod,
+                    showEquation: TrendLineHelper.defaults.showEquation,
+                    showRSquared: TrendLineHelper.defaults.showRSquared,
                 }]);
             });
 
@@ -405,10 +511,55 @@ module powerbitests {
                     combineSeries: true,
                     y2Axis: false,
                     useHighlightValues: TrendLineHelper.defaults.useHighlightValues,
+                    regressionType: TrendLineHelper.defaults.regressionType,
+                    polynomialOrder: TrendLineHelper.defaults.polynomialOrder,
+                    movingAveragePeriod: TrendLineHelper.defaults.movingAveragePeriod,
+                    showEquation: TrendLineHelper.defaults.showEquation,
+                    showRSquared: TrendLineHelper.defaults.showRSquared,
                 }]);
             });
         });
 
+        it('readDataView reads the regression model', () => {
+            let dataViews = new helpers.TrendLineBuilder({
+                highlights: true,
+            }).buildDataViews();
+
+            dataViews[1].categorical.values[0].source.regression = {
+                type: trendLineType.linear,
+                coefficients: [1, 2],
+                rSquared: 0.5,
+                highlights: {
+                    type: trendLineType.linear,
+                    coefficients: [0, 0.6],
+                    rSquared: 0.25,
+                },
+            };
+
+            let trendLine = TrendLineHelper.readDataView(dataViews[1], dataViews[0], false, defaultColors)[0];
+            expect(trendLine.equation).toBe('y = 0.6x');
+            expect(trendLine.rSquared).toBe(0.25);
+            expect(trendLine.tooltipInfo).toEqual([
+                { displayName: 'trend', value: 'y = 0.6x' },
+                { displayName: 'R\u00B2', value: '0.25' },
+            ]);
+
+            dataViews[1].metadata.objects['trend']['useHighlightValues'] = false;
+            trendLine = TrendLineHelper.readDataView(dataViews[1], dataViews[0], false, defaultColors)[0];
+            expect(trendLine.equation).toBe('y = 2x + 1');
+            expect(trendLine.rSquared).toBe(0.5);
+        });
+
+        it('getEquation', () => {
+            expect(TrendLineHelper.getEquation({ type: trendLineType.linear, coefficients: [-1.5, 1] })).toBe('y = x - 1.5');
+            expect(TrendLineHelper.getEquation({ type: trendLineType.polynomial, coefficients: [0, -3.14159, 0, 2] })).toBe('y = 2x\u00B3 - 3.142x');
+            expect(TrendLineHelper.getEquation({ type: trendLineType.exponential, coefficients: [3, -0.5] })).toBe('y = 3e^(-0.5x)');
+            expect(TrendLineHelper.getEquation({ type: trendLineType.logarithmic, coefficients: [2, -4] })).toBe('y = -4ln(x) + 2');
+            expect(TrendLineHelper.getEquation({ type: trendLineType.power, coefficients: [1.5, 2.5] })).toBe('y = 1.5x^2.5');
+            expect(TrendLineHelper.getEquation({ type: trendLineType.movingAverage })).toBeUndefined();
+            expect(TrendLineHelper.getEquation({ type: trendLineType.linear, coefficients: [NaN, Infinity] })).toBeUndefined();
+        });
+
         it('isDataViewForRegression', () => {
             let dataView: powerbi.DataView = {
                 single: {
@@ -0,0 +1,268 @@
+/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved. 
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *   
+ *  The above copyright notice and this permission notice shall be included in 
+ *  all copies or substantial portions of the Software.
+ *   
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR 
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, 
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE 
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER 
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+/// <reference path="../../_references.ts"/>
+
+module powerbitests {
+    import ArrayExtensions = jsCommon.ArrayExtensions;
+    import ConceptualEntity = powerbi.data.ConceptualEntity;
+    import ConceptualPropertyKind = powerbi.data.ConceptualPropertyKind;
+    import ConceptualSchema = powerbi.data.ConceptualSchema;
+    import FederatedConceptualSchema = powerbi.data.FederatedConceptualSchema;
+    import LocalDataReaderDataSource = powerbi.data.LocalDataReaderDataSource;
+    import LocalDataReaderPlugin = powerbi.data.LocalDataReaderPlugin;
+    import LocalDataTableParser = powerbi.data.LocalDataTableParser;
+    import LocalQueryEngine = powerbi.data.LocalQueryEngine;
+    import PrimitiveType = powerbi.PrimitiveType;
+    import QueryAggregateFunction = powerbi.data.QueryAggregateFunction;
+    import QueryComparisonKind = powerbi.data.QueryComparisonKind;
+    import SemanticFilter = powerbi.data.SemanticFilter;
+    import SemanticQuery = powerbi.data.SemanticQuery;
+    import SQExprBuilder = powerbi.data.SQExprBuilder;
+    import ValueType = powerbi.ValueType;
+
+    describe('LocalDataReader', () => {
+        let salesEntity: ConceptualEntity = createEntity('Sales', [
+            ['Region', PrimitiveType.Text],
+            ['ProductId', PrimitiveType.Integer],
+            ['Amount', PrimitiveType.Double],
+            ['Quantity', PrimitiveType.Integer],
+            ['OrderDate', PrimitiveType.DateTime],
+        ]);
+        let productEntity: ConceptualEntity = createEntity('Product', [
+            ['Id', PrimitiveType.Integer],
+            ['Category', PrimitiveType.Text],
+        ]);
+        salesEntity.properties.push({
+            name: 'Revenue',
+            displayName: 'Revenue',
+            type: ValueType.fromPrimitiveTypeAndCategory(PrimitiveType.Double),
+            kind: ConceptualPropertyKind.Measure,
+        });
+
+        let sales = SQExprBuilder.entity('s', 'Sales');
+        let product = SQExprBuilder.entity('s', 'Product');
+        let region = SQExprBuilder.columnRef(sales, 'Region');
+        let amount = SQExprBuilder.columnRef(sales, 'Amount');
+        let quantity = SQExprBuilder.columnRef(sales, 'Quantity');
+        let category = SQExprBuilder.columnRef(product, 'Category');
+
+        let salesCsv =
+            'Region,ProductId,Amount,Quantity,OrderDate\r\n' +
+            'West,1,10,1,2016-01-01\r\n' +
+            'East,2,20,2,2016-02-01\r\n' +
+            'West,2,30,3,2016-03-01\r\n' +
+            '"North, Far",1,,4,2016-03-05\r\n';
+
+        let engine: LocalQueryEngine;
+
+        beforeEach(() => {
+            engine = new LocalQueryEngine({
+                schema: createFederatedSchema(),
+                tables: [
+                    LocalDataTableParser.fromCsv(salesEntity, salesCsv),
+                    LocalDataTableParser.fromJson(productEntity, [{ Id: 1, Category: 'Bikes' }, { Id: 2, Category: 'Helmets' }]),
+                ],
+                relationships: [{ fromEntity: 'Sales', fromColumn: 'ProductId', toEntity: 'Product', toColumn: 'Id' }],
+                measures: {
+                    Sales: {
+                        Revenue: SQExprBuilder.arithmetic(SQExprBuilder.aggregate(amount, QueryAggregateFunction.Sum), SQExprBuilder.double(2), powerbi.data.ArithmeticOperatorKind.Multiply),
+                    },
+                },
+            });
+        });
+
+        describe('LocalDataTableParser', () => {
+            it('parses quoted fields, escaped quotes and line breaks', () => {
+                let records = LocalDataTableParser.parseCsv('a,b\n"x, y","say ""hi"""\n"multi\nline",2');
+
+                expect(records).toEqual([
+                    ['a', 'b'],
+                    ['x, y', 'say "hi"'],
+                    ['multi\nline', '2'],
+                ]);
+            });
+
+            it('coerces values to the property types', () => {
+                let table = LocalDataTableParser.fromCsv(salesEntity, salesCsv);
+
+                expect(table.entity).toBe('Sales');
+                expect(table.rows.length).toBe(4);
+                expect(table.rows[0]['Amount']).toBe(10);
+                expect(table.rows[0]['OrderDate'] instanceof Date).toBe(true);
+                expect(table.rows[3]['Region']).toBe('North, Far');
+                expect(table.rows[3]['Amount']).toBeNull();
+            });
+        });
+
+        describe('LocalQueryEngine', () => {
+            it('groups and aggregates', () => {
+                let query = SemanticQuery.create()
+                    .addSelect(region)
+                    .addSelect(SQExprBuilder.aggregate(amount, QueryAggregateFunction.Sum))
+                    .addSelect(SQExprBuilder.aggregate(quantity, QueryAggregateFunction.Avg));
+
+                let dataView = engine.execute(query);
+
+                expect(dataView.metadata.columns.length).toBe(3);
+                expect(dataView.metadata.columns[1].isMeasure).toBe(true);
+                expect(dataView.table.rows).toEqual([
+                    ['East', 20, 2],
+                    ['North, Far', null, 4],
+                    ['West', 40, 2],
+                ]);
+                expect(dataView.table.totals).toEqual([null, 60, 2.5]);
+
+                let categorical = dataView.categorical;
+                expect(categorical.categories[0].values).toEqual(['East', 'North, Far', 'West']);
+                expect(categorical.categories[0].identity[0].expr).toEqualSQExpr(SQExprBuilder.equal(region, SQExprBuilder.text('East')));
+                expect(categorical.values.length).toBe(2);
+                expect(categorical.values[0].values).toEqual([20, null, 40]);
+            });
+
+            it('applies filters and sorts', () => {
+                let sum = SQExprBuilder.aggregate(amount, QueryAggregateFunction.Sum);
+                let query = SemanticQuery.create()
+                    .addSelect(region)
+                    .addSelect(sum)
+                    .where([{ condition: SQExprBuilder.compare(QueryComparisonKind.GreaterThan, quantity, SQExprBuilder.integer(1)) }])
+                    .orderBy([{ expr: sum, direction: powerbi.SortDirection.Descending }]);
+
+                let dataView = engine.execute(query);
+
+                expect(dataView.table.rows).toEqual([
+                    ['West', 30],
+                    ['East', 20],
+                    ['North, Far', null],
+                ]);
+            });
+
+            it('joins related tables and evaluates measures', () => {
+                let query = SemanticQuery.create()
+                    .addSelect(category)
+                    .addSelect(SQExprBuilder.measureRef(sales, 'Revenue'));
+
+                let dataView = engine.execute(query);
+
+                expect(dataView.table.rows).toEqual([
+                    ['Bikes', 20],
+                    ['Helmets', 100],
+                ]);
+            });
+
+            it('computes highlights', () => {
+                let query = SemanticQuery.create()
+                    .addSelect(category)
+                    .addSelect(SQExprBuilder.aggregate(amount, QueryAggregateFunction.Sum));
+                let highlightFilter = SemanticFilter.fromSQExpr(SQExprBuilder.equal(region, SQExprBuilder.text('West')));
+
+                let dataView = engine.execute(query, highlightFilter);
+
+                expect(dataView.categorical.values[0].values).toEqual([10, 50]);
+                expect(dataView.categorical.values[0].highlights).toEqual([10, 30]);
+            });
+
+            it('produces a single value without groupings', () => {
+                let query = SemanticQuery.create()
+                    .addSelect(SQExprBuilder.aggregate(amount, QueryAggregateFunction.Median));
+
+                let dataView = engine.execute(query);
+
+                expect(dataView.single.value).toBe(20);
+            });
+        });
+
+        describe('IDataReaderPlugin', () => {
+            let dataSource: LocalDataReaderDataSource;
+
+            beforeEach(() => {
+                let schema = new ConceptualSchema();
+                schema.entities = ArrayExtensions.extendWithName<ConceptualEntity>([salesEntity]);
+
+                dataSource = {
+                    schemaName: 's',
+                    schema: schema,
+                    tables: [LocalDataTableParser.fromCsv(salesEntity, salesCsv)],
+                };
+            });
+
+            it('executes the generated command', (done) => {
+                let plugin = LocalDataReaderPlugin.create();
+                let reader = plugin.reader({ promiseFactory: powerbi.createJQueryPromiseFactory });
+                let query = SemanticQuery.create()
+                    .addSelect(region)
+                    .addSelect(SQExprBuilder.aggregate(quantity, QueryAggregateFunction.Sum));
+                let command = plugin.queryGenerator().execute({ query: query, mappings: [] }).command;
+
+                reader.execute({ dataSource: dataSource, command: command }).then((data) => {
+                    let result = reader.transform(data);
+                    expect(result.dataView.table.rows).toEqual([
+                        ['East', 2],
+                        ['North, Far', 4],
+                        ['West', 4],
+                    ]);
+                    done();
+                });
+            });
+
+            it('rejects queries it cannot evaluate', (done) => {
+                let plugin = LocalDataReaderPlugin.create();
+                let reader = plugin.reader({ promiseFactory: powerbi.createJQueryPromiseFactory });
+                let query = SemanticQuery.create()
+                    .addSelect(SQExprBuilder.columnRef(SQExprBuilder.entity('s', 'Missing'), 'Column'));
+
+                let promise = reader.execute({ dataSource: dataSource, command: { query: query } });
+                promise.then(null, (error) => {
+                    expect(error.code).toBe('LocalDataReaderError');
+                    expect(promise.rejected()).toBe(true);
+                    done();
+                });
+            });
+        });
+
+        function createEntity(name: string, columns: any[][]): ConceptualEntity {
+            return {
+                name: name,
+                displayName: name,
+                properties: ArrayExtensions.extendWithName<powerbi.data.ConceptualProperty>(_.map(columns, (column) => {
+                    return {
+                        name: column[0],
+                        displayName: column[0],
+                        type: ValueType.fromPrimitiveTypeAndCategory(column[1]),
+                        kind: ConceptualPropertyKind.Column,
+                    };
+                })),
+            };
+        }
+
+        function createFederatedSchema(): FederatedConceptualSchema {
+            let schema = new ConceptualSchema();
+            schema.entities = ArrayExtensions.extendWithName<ConceptualEntity>([salesEntity, productEntity]);
+
+            return new FederatedConceptualSchema({ schemas: { s: schema } });
+        }
+    });
+}
@@ -0,0 +1,287 @@
+/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved. 
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *   
+ *  The above copyright notice and this permission notice shall be included in 
+ *  all copies or substantial portions of the Software.
+ *   
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR 
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, 
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE 
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER 
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+/// <reference path="../../_references.ts"/>
+
+module powerbitests {
+    import DataExportFormat = powerbi.DataExportFormat;
+    import DataView = powerbi.DataView;
+    import DataViewExporter = powerbi.data.DataViewExporter;
+    import DataViewMetadataColumn = powerbi.DataViewMetadataColumn;
+    import DataViewTransform = powerbi.data.DataViewTransform;
+    import PrimitiveType = powerbi.PrimitiveType;
+    import ValueType = powerbi.ValueType;
+
+    describe('DataViewExporter', () => {
+        const textType = ValueType.fromPrimitiveTypeAndCategory(PrimitiveType.Text);
+        const numberType = ValueType.fromPrimitiveTypeAndCategory(PrimitiveType.Double);
+
+        const regionColumn: DataViewMetadataColumn = { displayName: 'Region', queryName: 'region', type: textType, index: 0 };
+        const yearColumn: DataViewMetadataColumn = { displayName: 'Year', queryName: 'year', type: textType, index: 1 };
+        const salesColumn: DataViewMetadataColumn = { displayName: 'Sales', queryName: 'sales', type: numberType, isMeasure: true, format: '#,0.00', index: 2 };
+
+        function createTableDataView(): DataView {
+            return {
+                metadata: { columns: [regionColumn, salesColumn] },
+                table: {
+                    columns: [regionColumn, salesColumn],
+                    rows: [
+                        ['North, East', 1234.5],
+                        ['"South"', null],
+                    ],
+                    totals: [null, 1234.5],
+                },
+            };
+        }
+
+        function createMatrixDataView(): DataView {
+            return {
+                metadata: { columns: [regionColumn, yearColumn, salesColumn] },
+                matrix: {
+                    rows: {
+                        root: {
+                            children: [
+                                {
+                                    level: 0,
+                                    levelValues: [{ value: 'North', levelSourceIndex: 0 }],
+                                    values: { 0: { value: 1 }, 1: { value: 2 }, 2: { value: 3 } },
+                                },
+                                {
+                                    level: 0,
+                                    levelValues: [{ value: 'South', levelSourceIndex: 0 }],
+                                    values: { 0: { value: 10 }, 1: { value: 20 }, 2: { value: 30 } },
+                                },
+                                {
+                                    level: 0,
+                                    isSubtotal: true,
+                                    values: { 0: { value: 11 }, 1: { value: 22 }, 2: { value: 33 } },
+                                },
+                            ],
+                        },
+                        levels: [{ sources: [regionColumn] }],
+                    },
+                    columns: {
+                        root: {
+                            children: [
+                                { level: 0, levelValues: [{ value: '2015', levelSourceIndex: 0 }] },
+                                { level: 0, levelValues: [{ value: '2016', levelSourceIndex: 0 }] },
+                                { level: 0, isSubtotal: true },
+                            ],
+                        },
+                        levels: [{ sources: [yearColumn] }],
+                    },
+                    valueSources: [salesColumn],
+                },
+            };
+        }
+
+        describe('flatten', () => {
+            it('table with totals', () => {
+                let table = DataViewExporter.flatten(createTableDataView());
+
+                expect(table.headerRows).toEqual([['Region', 'Sales']]);
+                expect(table.rows).toEqual([
+                    [{ value: 'North, East', format: undefined }, { value: 1234.5, format: '#,0.00' }],
+                    [{ value: '"South"', format: undefined }, { value: null, format: '#,0.00' }],
+                    [{ value: 'Total' }, { value: 1234.5, format: '#,0.00' }],
+                ]);
+            });
+
+            it('categorical with series', () => {
+                let seriesColumn: DataViewMetadataColumn = { displayName: 'Year', queryName: 'year', type: textType, index: 1 };
+                let dataView: DataView = {
+                    metadata: { columns: [regionColumn, seriesColumn, salesColumn] },
+                    categorical: {
+                        categories: [{ source: regionColumn, values: ['North', 'South'] }],
+                        values: DataViewTransform.createValueColumns([
+                            { source: <DataViewMetadataColumn>_.extend({ groupName: '2015' }, salesColumn), values: [1, 2] },
+                            { source: <DataViewMetadataColumn>_.extend({ groupName: '2016' }, salesColumn), values: [3, 4] },
+                        ], undefined, seriesColumn),
+                    },
+                };
+
+                let table = DataViewExporter.flatten(dataView);
+
+                expect(table.headerRows).toEqual([
+                    ['', '2015', '2016'],
+                    ['Region', 'Sales', 'Sales'],
+                ]);
+                expect(_.map(table.rows, (row) => _.map(row, (cell) => cell.value))).toEqual([
+                    ['North', 1, 3],
+                    ['South', 2, 4],
+                ]);
+            });
+
+            it('categorical without categories', () => {
+                let dataView: DataView = {
+                    metadata: { columns: [salesColumn] },
+                    categorical: {
+                        values: DataViewTransform.createValueColumns([{ source: salesColumn, values: [42] }]),
+                    },
+                };
+
+                let table = DataViewExporter.flatten(dataView);
+
+                expect(table.headerRows).toEqual([['Sales']]);
+                expect(table.rows).toEqual([[{ value: 42, format: '#,0.00' }]]);
+            });
+
+            it('matrix with subtotals', () => {
+                let table = DataViewExporter.flatten(createMatrixDataView(), { totalLabel: 'Grand total' });
+
+                expect(table.headerRows).toEqual([['Region', '2015', '2016', 'Grand total']]);
+                expect(_.map(table.rows, (row) => _.map(row, (cell) => cell.value))).toEqual([
+                    ['North', 1, 2, 3],
+                    ['South', 10, 20, 30],
+                    ['Grand total', 11, 22, 33],
+                ]);
+                expect(table.rows[0][1].format).toBe('#,0.00');
+            });
+
+            it('matrix with nested row groups', () => {
+                let dataView = createMatrixDataView();
+                let matrix = dataView.matrix;
+                matrix.rows.levels.push({ sources: [yearColumn] });
+                matrix.rows.root.children[0].values = undefined;
+                matrix.rows.root.children[0].children = [
+                    { level: 1, levelValues: [{ value: '2015', levelSourceIndex: 0 }], values: { 0: { value: 1 } } },
+                    { level: 1, isSubtotal: true, values: { 0: { value: 1 } } },
+                ];
+                matrix.rows.root.children = [matrix.rows.root.children[0]];
+                matrix.columns = { root: { children: [{ level: 0 }] }, levels: [] };
+
+                let table = DataViewExporter.flatten(dataView);
+
+                expect(table.headerRows).toEqual([['Region', 'Year', 'Sales']]);
+                expect(_.map(table.rows, (row) => _.map(row, (cell) => cell.value))).toEqual([
+                    ['North', '2015', 1],
+                    ['North', 'Total', 1],
+                ]);
+            });
+
+            it('matrix with column subtotals above the measures', () => {
+                let quarterColumn: DataViewMetadataColumn = { displayName: 'Quarter', queryName: 'quarter', type: textType, index: 3 };
+                let profitColumn: DataViewMetadataColumn = { displayName: 'Profit', queryName: 'profit', type: numberType, isMeasure: true, index: 4 };
+                let createMeasureNodes = (): powerbi.DataViewMatrixNode[] => [{ level: 2, levelSourceIndex: 0 }, { level: 2, levelSourceIndex: 1 }];
+                let dataView = createMatrixDataView();
+                let matrix = dataView.matrix;
+                matrix.rows.root.children = [{
+                    level: 0,
+                    levelValues: [{ value: 'North', levelSourceIndex: 0 }],
+                    values: {
+                        0: { value: 1 }, 1: { value: 2, valueSourceIndex: 1 },
+                        2: { value: 3 }, 3: { value: 4, valueSourceIndex: 1 },
+                        4: { value: 5 }, 5: { value: 6, valueSourceIndex: 1 },
+                    },
+                }];
+                matrix.columns = {
+                    root: {
+                        children: [
+                            {
+                                level: 0,
+                                levelValues: [{ value: '2015', levelSourceIndex: 0 }],
+                                children: [
+                                    { level: 1, levelValues: [{ value: 'Q1', levelSourceIndex: 0 }], children: createMeasureNodes() },
+                                    { level: 1, isSubtotal: true, children: createMeasureNodes() },
+                                ],
+                            },
+                            { level: 0, isSubtotal: true, children: createMeasureNodes() },
+                        ],
+                    },
+                    levels: [{ sources: [yearColumn] }, { sources: [quarterColumn] }, { sources: [salesColumn, profitColumn] }],
+                };
+                matrix.valueSources = [salesColumn, profitColumn];
+
+                let table = DataViewExporter.flatten(dataView);
+
+                expect(table.headerRows).toEqual([
+                    ['', '2015', '2015', '2015', '2015', 'Total', 'Total'],
+                    ['', 'Q1', 'Q1', 'Total', 'Total', '', ''],
+                    ['Region', 'Sales', 'Profit', 'Sales', 'Profit', 'Sales', 'Profit'],
+                ]);
+                expect(_.map(table.rows, (row) => _.map(row, (cell) => cell.value))).toEqual([
+                    ['North', 1, 2, 3, 4, 5, 6],
+                ]);
+            });
+        });
+
+        describe('toCsv', () => {
+            it('formats and escapes values', () => {
+                let csv = DataViewExporter.toCsv(createTableDataView());
+
+                expect(csv).toBe([
+                    'Region,Sales',
+                    '"North, East","1,234.50"',
+                    '"""South""",',
+                    'Total,"1,234.50"',
+                ].join('\r\n'));
+            });
+
+            it('matrix', () => {
+                let csv = DataViewExporter.exportData(createMatrixDataView(), DataExportFormat.Csv);
+
+                expect(csv.split('\r\n')).toEqual([
+                    'Region,2015,2016,Total',
+                    'North,1.00,2.00,3.00',
+                    'South,10.00,20.00,30.00',
+                    'Total,11.00,22.00,33.00',
+                ]);
+            });
+        });
+
+        describe('toSpreadsheetML', () => {
+            it('writes numbers with the format of their column', () => {
+                let xml = DataViewExporter.exportData(createTableDataView(), DataExportFormat.SpreadsheetML, { sheetName: 'Sales & Co' });
+                let doc = $.parseXML(xml);
+                let rows = $(doc).find('Row');
+
+                expect($(doc).find('Worksheet').attr('ss:Name')).toBe('Sales & Co');
+                expect($(doc).find('Style[ss\\:ID="s1"] NumberFormat').attr('ss:Format')).toBe('#,0.00');
+                expect(rows.length).toBe(4);
+
+                let headerCells = rows.eq(0).find('Cell');
+                expect(headerCells.attr('ss:StyleID')).toBe('header');
+                expect(headerCells.eq(1).text()).toBe('Sales');
+
+                let cells = rows.eq(1).find('Cell');
+                expect(cells.eq(0).find('Data').attr('ss:Type')).toBe('String');
+                expect(cells.eq(0).text()).toBe('North, East');
+                expect(cells.eq(1).find('Data').attr('ss:Type')).toBe('Number');
+                expect(cells.eq(1).attr('ss:StyleID')).toBe('s1');
+                expect(cells.eq(1).text()).toBe('1234.5');
+
+                expect(rows.eq(2).find('Cell').eq(1).text()).toBe('');
+            });
+        });
+
+        it('getFileExtension and getMimeType', () => {
+            expect(DataViewExporter.getFileExtension(DataExportFormat.Csv)).toBe('.csv');
+            expect(DataViewExporter.getFileExtension(DataExportFormat.SpreadsheetML)).toBe('.xml');
+            expect(DataViewExporter.getMimeType(DataExportFormat.Csv)).toBe('text/csv');
+            expect(DataViewExporter.getMimeType(DataExportFormat.SpreadsheetML)).toBe('application/vnd.ms-excel');
+        });
+    });
+}
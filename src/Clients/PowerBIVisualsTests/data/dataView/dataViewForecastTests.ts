@@ -0,0 +1,295 @@
+/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved. 
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *   
+ *  The above copyright notice and this permission notice shall be included in 
+ *  all copies or substantial portions of the Software.
+ *   
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR 
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, 
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE 
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER 
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+/// <reference path="../../_references.ts"/>
+
+module powerbitests {
+    import CartesianRoleKind = powerbi.CartesianRoleKind;
+    import DataView = powerbi.DataView;
+    import DataViewForecast = powerbi.data.DataViewForecast;
+    import DataViewMapping = powerbi.DataViewMapping;
+    import PrimitiveType = powerbi.PrimitiveType;
+    import SQExprBuilder = powerbi.data.SQExprBuilder;
+    import ValueType = powerbi.ValueType;
+
+    describe('DataViewForecast', () => {
+        describe('forecast', () => {
+            it('continues a linear series exactly', () => {
+                let values = _.map(_.range(10), (i) => 5 + 2 * i);
+
+                let result = DataViewForecast.forecast(values, { forecastLength: 3, confidenceLevel: 0.95 });
+
+                expect(result.seasonality).toBe(1);
+                expectValuesCloseTo(result.values, [25, 27, 29]);
+                expectValuesCloseTo(result.upperBounds, [25, 27, 29]);
+                expectValuesCloseTo(result.lowerBounds, [25, 27, 29]);
+            });
+
+            it('detects and continues a seasonal series', () => {
+                let season = [10, 14, 20, 14, 10, 6, 0, 6];
+                let values = _.map(_.range(32), (i) => 100 + i + season[i % season.length]);
+
+                let result = DataViewForecast.forecast(values, { forecastLength: 8, confidenceLevel: 0.95 });
+
+                expect(result.seasonality).toBe(8);
+                let expected = _.map(_.range(32, 40), (i) => 100 + i + season[i % season.length]);
+                for (let i = 0; i < expected.length; i++)
+                    expect(Math.abs(result.values[i] - expected[i])).toBeLessThan(1);
+            });
+
+            it('widens the confidence interval with the horizon', () => {
+                let noise = [0.8, -1.2, 0.3, 1.5, -0.7, -0.2, 1.1, -1.4, 0.6, -0.5, 0.9, -1.0];
+                let values = _.map(noise, (value, i) => 50 + i * 0.5 + value);
+
+                let result = DataViewForecast.forecast(values, { forecastLength: 4, confidenceLevel: 0.8, seasonality: 1 });
+                let widths = _.map(result.values, (value, i) => result.upperBounds[i] - result.lowerBounds[i]);
+
+                expect(widths[0]).toBeGreaterThan(0);
+                for (let i = 0; i < result.values.length; i++) {
+                    expect(result.upperBounds[i] - result.values[i]).toBeCloseTo(result.values[i] - result.lowerBounds[i], 8);
+                    if (i > 0)
+                        expect(widths[i]).toBeGreaterThan(widths[i - 1]);
+                }
+
+                let wider = DataViewForecast.forecast(values, { forecastLength: 4, confidenceLevel: 0.95, seasonality: 1 });
+                expect(wider.upperBounds[0] - wider.lowerBounds[0]).toBeGreaterThan(widths[0]);
+            });
+
+            it('does not forecast too few points', () => {
+                expect(DataViewForecast.forecast([1, 2], { forecastLength: 3, confidenceLevel: 0.95 })).toBeUndefined();
+            });
+
+            it('does not detect seasonality in a trend', () => {
+                expect(DataViewForecast.detectSeasonality(_.map(_.range(24), (i) => i * i))).toBe(1);
+            });
+        });
+
+        describe('forecastTransform', () => {
+            let dataRoles: powerbi.VisualDataRole[] = [
+                { name: 'Category', kind: powerbi.VisualDataRoleKind.Grouping, cartesianKind: CartesianRoleKind.X },
+                { name: 'Y', kind: powerbi.VisualDataRoleKind.Measure, cartesianKind: CartesianRoleKind.Y },
+            ];
+
+            let forecastDataViewMapping: DataViewMapping = {
+                usage: {
+                    forecast: {
+                        show: { objectName: 'forecast', propertyName: 'show' },
+                        forecastLength: { objectName: 'forecast', propertyName: 'forecastLength' },
+                    },
+                },
+                categorical: {
+                    categories: {
+                        for: { in: 'Category' },
+                    },
+                    values: {
+                        group: {
+                            by: 'Series',
+                            select: [{ for: { in: 'forecast.ForecastValue' } }, { for: { in: 'forecast.ConfidenceHighBound' } }, { for: { in: 'forecast.ConfidenceLowBound' } }],
+                        },
+                    },
+                },
+            };
+
+            function createSourceDataView(categories: powerbi.PrimitiveValue[], values: number[], categoryType: ValueType, highlights?: number[]): DataView {
+                let dataView = powerbi.data.createCategoricalDataViewBuilder()
+                    .withCategory({
+                        source: {
+                            displayName: 'Date',
+                            queryName: 'Date',
+                            type: categoryType,
+                            roles: { Category: true },
+                        },
+                        values: categories,
+                        identityFrom: {
+                            fields: [SQExprBuilder.columnRef(SQExprBuilder.entity('s', 'e'), 'Date')],
+                        },
+                    })
+                    .withValues({
+                        columns: [{
+                            source: {
+                                displayName: 'Sales',
+                                queryName: 'Sales',
+                                isMeasure: true,
+                                type: ValueType.fromPrimitiveTypeAndCategory(PrimitiveType.Double),
+                                roles: { Y: true },
+                            },
+                            values: values,
+                            highlights: highlights,
+                        }],
+                    })
+                    .build();
+
+                dataView.metadata.objects = {
+                    forecast: {
+                        $instances: {
+                            '1': { show: true, forecastLength: 2 },
+                        },
+                    },
+                };
+
+                return dataView;
+            }
+
+            function transform(sourceDataView: DataView): DataView {
+                return DataViewForecast.forecastTransform(
+                    sourceDataView,
+                    dataRoles,
+                    forecastDataViewMapping,
+                    {},
+                    {},
+                    powerbi.visuals.createColorAllocatorFactory());
+            }
+
+            it('forecasts monthly dates', () => {
+                let dates = _.map(_.range(6), (i) => new Date(2016, i, 1));
+                let forecastDataView = transform(createSourceDataView(dates, [10, 20, 30, 40, 50, 60], ValueType.fromPrimitiveTypeAndCategory(PrimitiveType.DateTime)));
+
+                let categories = forecastDataView.categorical.categories[0];
+                expect(categories.source.roles).toEqual({ Category: true });
+                expect(categories.values).toEqual([new Date(2016, 5, 1), new Date(2016, 6, 1), new Date(2016, 7, 1)]);
+
+                let group = forecastDataView.categorical.values.grouped()[0];
+                expect(group.name).toBe('Sales');
+                expect(group.values[0].source.roles).toEqual({ 'forecast.ForecastValue': true });
+                expect(group.values[1].source.roles).toEqual({ 'forecast.ConfidenceHighBound': true });
+                expect(group.values[2].source.roles).toEqual({ 'forecast.ConfidenceLowBound': true });
+                expectValuesCloseTo(<number[]>group.values[0].values, [60, 70, 80]);
+                expect(group.values[1].values[0]).toBe(60);
+                expect(group.values[2].values[0]).toBe(60);
+            });
+
+            it('forecasts numeric categories with highlights', () => {
+                let forecastDataView = transform(createSourceDataView(
+                    [1, 2, 3, 4, 5],
+                    [10, 8, 6, 4, 2],
+                    ValueType.fromPrimitiveTypeAndCategory(PrimitiveType.Double),
+                    [5, 4, 3, 2, 1]));
+
+                expect(forecastDataView.categorical.categories[0].values).toEqual([5, 6, 7]);
+
+                let forecastValues = forecastDataView.categorical.values.grouped()[0].values[0];
+                expectValuesCloseTo(<number[]>forecastValues.values, [2, 0, -2]);
+                expectValuesCloseTo(<number[]>forecastValues.highlights, [1, 0, -1]);
+            });
+
+            it('does not forecast text categories', () => {
+                let sourceDataView = createSourceDataView(['a', 'b', 'c', 'd'], [1, 2, 3, 4], ValueType.fromPrimitiveTypeAndCategory(PrimitiveType.Text));
+
+                expect(transform(sourceDataView)).toBeUndefined();
+            });
+
+            it('does not forecast when the forecast is hidden', () => {
+                let sourceDataView = createSourceDataView([1, 2, 3, 4], [1, 2, 3, 4], ValueType.fromPrimitiveTypeAndCategory(PrimitiveType.Double));
+                sourceDataView.metadata.objects = { forecast: { $instances: { '1': { show: false } } } };
+
+                expect(transform(sourceDataView)).toBeUndefined();
+            });
+
+            it('run preserves forecasts computed by the data source', () => {
+                let sourceDataView = createSourceDataView([1, 2, 3, 4], [1, 2, 3, 4], ValueType.fromPrimitiveTypeAndCategory(PrimitiveType.Double));
+                let serviceForecastDataView = transform(sourceDataView);
+
+                let runOptions: powerbi.data.DataViewForecastRunOptions = {
+                    visualDataViews: [sourceDataView],
+                    dataRoles: dataRoles,
+                    objectDescriptors: {},
+                    objectDefinitions: {},
+                    colorAllocatorFactory: powerbi.visuals.createColorAllocatorFactory(),
+                    applicableDataViewMappings: [forecastDataViewMapping],
+                };
+
+                expect(DataViewForecast.run(runOptions).length).toBe(2);
+
+                runOptions.visualDataViews = [sourceDataView, serviceForecastDataView];
+                expect(DataViewForecast.run(runOptions).length).toBe(2);
+            });
+
+            it('run does not forecast trend lines', () => {
+                let regressionDataViewMapping: DataViewMapping = {
+                    usage: {
+                        regression: {},
+                    },
+                    categorical: {
+                        categories: {
+                            for: { in: 'regression.X' },
+                        },
+                        values: {
+                            group: {
+                                by: 'regression.Series',
+                                select: [{ for: { in: 'regression.Y' } }],
+                            },
+                        },
+                    },
+                };
+                let sourceDataView = createSourceDataView([1, 2, 3, 4], [1, 2, 3, 4], ValueType.fromPrimitiveTypeAndCategory(PrimitiveType.Double));
+                sourceDataView.metadata.objects['trend'] = { show: true };
+                let regressionDataView = powerbi.data.DataViewRegression.linearRegressionTransform(
+                    sourceDataView,
+                    dataRoles,
+                    regressionDataViewMapping,
+                    {},
+                    {},
+                    powerbi.visuals.createColorAllocatorFactory());
+                regressionDataView.metadata.objects = sourceDataView.metadata.objects;
+
+                let forecastDataViews = DataViewForecast.run({
+                    visualDataViews: [sourceDataView, regressionDataView],
+                    dataRoles: dataRoles.concat([
+                        { name: 'regression.X', kind: powerbi.VisualDataRoleKind.Grouping, cartesianKind: CartesianRoleKind.X },
+                        { name: 'regression.Y', kind: powerbi.VisualDataRoleKind.Measure, cartesianKind: CartesianRoleKind.Y },
+                    ]),
+                    objectDescriptors: {},
+                    objectDefinitions: {},
+                    colorAllocatorFactory: powerbi.visuals.createColorAllocatorFactory(),
+                    applicableDataViewMappings: [regressionDataViewMapping, forecastDataViewMapping],
+                });
+
+                expect(forecastDataViews.length).toBe(3);
+                expect(forecastDataViews[2].categorical.categories[0].values).toEqual([4, 5, 6]);
+            });
+
+            it('reads the confidence level between 0 and 1', () => {
+                let sourceDataView = createSourceDataView([1, 2, 3, 4, 5, 6], [1, 3, 2, 4, 3, 5], ValueType.fromPrimitiveTypeAndCategory(PrimitiveType.Double));
+                let mapping = _.cloneDeep(forecastDataViewMapping);
+                mapping.usage['forecast']['confidenceLevel'] = { objectName: 'forecast', propertyName: 'confidenceLevel' };
+                let getBoundWidth = (confidenceLevel: number) => {
+                    sourceDataView.metadata.objects = { forecast: { $instances: { '1': { show: true, forecastLength: 2, confidenceLevel: confidenceLevel } } } };
+                    let values = DataViewForecast.forecastTransform(sourceDataView, dataRoles, mapping, {}, {}, powerbi.visuals.createColorAllocatorFactory()).categorical.values;
+                    return <number>values[1].values[1] - <number>values[2].values[1];
+                };
+
+                expect(getBoundWidth(0.8)).toBeLessThan(getBoundWidth(DataViewForecast.defaults.confidenceLevel));
+                expect(DataViewForecast.defaults.confidenceLevel).toBe(0.95);
+            });
+        });
+
+        function expectValuesCloseTo(actual: number[], expected: number[]): void {
+            expect(actual.length).toBe(expected.length);
+            for (let i = 0; i < expected.length; i++)
+                expect(actual[i]).toBeCloseTo(expected[i], 6);
+        }
+    });
+}
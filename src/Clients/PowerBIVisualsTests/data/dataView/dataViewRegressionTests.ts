@@ -0,0 +1,243 @@
+/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved. 
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *   
+ *  The above copyright notice and this permission notice shall be included in 
+ *  all copies or substantial portions of the Software.
+ *   
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR 
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, 
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE 
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER 
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+/// <reference path="../../_references.ts"/>
+
+module powerbitests {
+    import CartesianRoleKind = powerbi.CartesianRoleKind;
+    import DataView = powerbi.DataView;
+    import DataViewMapping = powerbi.DataViewMapping;
+    import DataViewObjects = powerbi.DataViewObjects;
+    import DataViewRegression = powerbi.data.DataViewRegression;
+    import PrimitiveType = powerbi.PrimitiveType;
+    import RegressionType = powerbi.data.DataViewRegression.RegressionType;
+    import SQExprBuilder = powerbi.data.SQExprBuilder;
+    import ValueType = powerbi.ValueType;
+
+    describe('DataViewRegression', () => {
+        let dataRoles: powerbi.VisualDataRole[] = [
+            { name: 'Category', kind: powerbi.VisualDataRoleKind.Grouping, cartesianKind: CartesianRoleKind.X },
+            { name: 'Y', kind: powerbi.VisualDataRoleKind.Measure, cartesianKind: CartesianRoleKind.Y },
+        ];
+
+        let regressionDataViewMapping: DataViewMapping = {
+            usage: {
+                regression: {
+                    combineSeries: { objectName: 'trend', propertyName: 'combineSeries' },
+                    regressionType: { objectName: 'trend', propertyName: 'regressionType' },
+                    polynomialOrder: { objectName: 'trend', propertyName: 'polynomialOrder' },
+                    movingAveragePeriod: { objectName: 'trend', propertyName: 'movingAveragePeriod' },
+                },
+            },
+            categorical: {
+                categories: {
+                    for: { in: 'regression.X' },
+                },
+                values: {
+                    group: {
+                        by: 'regression.Series',
+                        select: [{ for: { in: 'regression.Y' } }],
+                    },
+                },
+            },
+        };
+
+        function createSourceDataView(categories: number[], values: number[], trend: powerbi.DataViewObject, highlights?: number[]): DataView {
+            let dataView = powerbi.data.createCategoricalDataViewBuilder()
+                .withCategory({
+                    source: {
+                        displayName: 'X',
+                        queryName: 'X',
+                        type: ValueType.fromPrimitiveTypeAndCategory(PrimitiveType.Double),
+                        roles: { Category: true },
+                    },
+                    values: categories,
+                    identityFrom: {
+                        fields: [SQExprBuilder.columnRef(SQExprBuilder.entity('s', 'e'), 'X')],
+                    },
+                })
+                .withValues({
+                    columns: [{
+                        source: {
+                            displayName: 'Sales',
+                            queryName: 'Sales',
+                            isMeasure: true,
+                            type: ValueType.fromPrimitiveTypeAndCategory(PrimitiveType.Double),
+                            roles: { Y: true },
+                        },
+                        values: values,
+                        highlights: highlights,
+                    }],
+                })
+                .build();
+
+            dataView.metadata.objects = <DataViewObjects>{ trend: trend };
+
+            return dataView;
+        }
+
+        function transform(sourceDataView: DataView): DataView {
+            return DataViewRegression.linearRegressionTransform(
+                sourceDataView,
+                dataRoles,
+                regressionDataViewMapping,
+                {},
+                {},
+                powerbi.visuals.createColorAllocatorFactory());
+        }
+
+        function evaluateAt(categories: number[], evaluate: (x: number) => number): number[] {
+            return _.map(categories, evaluate);
+        }
+
+        it('linear regression computes the end points of the line', () => {
+            let regressionDataView = transform(createSourceDataView([1, 2, 3, 4], [3, 5, 7, 9], { show: true }));
+
+            expect(regressionDataView.categorical.categories[0].values).toEqual([1, 4]);
+
+            let valueColumn = regressionDataView.categorical.values[0];
+            expect(valueColumn.values).toEqual([3, 9]);
+            expect(valueColumn.source.regression.type).toBe(RegressionType.linear);
+            expectValuesCloseTo(valueColumn.source.regression.coefficients, [1, 2]);
+            expect(valueColumn.source.regression.rSquared).toBeCloseTo(1, 8);
+        });
+
+        it('polynomial regression samples the fitted curve', () => {
+            let categories = [1, 2, 3, 4, 5, 6];
+            let quadratic = (x: number) => 2 * x * x - 3 * x + 1;
+            let regressionDataView = transform(createSourceDataView(categories, evaluateAt(categories, quadratic), { show: true, regressionType: RegressionType.polynomial, polynomialOrder: 2 }));
+
+            let curveCategories = <number[]>regressionDataView.categorical.categories[0].values;
+            expect(curveCategories.length).toBe(50);
+            expect(_.first(curveCategories)).toBe(1);
+            expect(_.last(curveCategories)).toBe(6);
+
+            let valueColumn = regressionDataView.categorical.values[0];
+            expectValuesCloseTo(<number[]>valueColumn.values, evaluateAt(curveCategories, quadratic));
+            expectValuesCloseTo(valueColumn.source.regression.coefficients, [1, -3, 2]);
+            expect(valueColumn.source.regression.rSquared).toBeCloseTo(1, 8);
+        });
+
+        it('polynomial regression requires more distinct points than its order', () => {
+            let sourceDataView = createSourceDataView([1, 2, 3], [1, 4, 9], { show: true, regressionType: RegressionType.polynomial, polynomialOrder: 3 });
+
+            expect(transform(sourceDataView)).toBeUndefined();
+        });
+
+        it('exponential, logarithmic and power regressions fit their models', () => {
+            let categories = [1, 2, 3, 4, 5];
+            let models = [
+                { type: RegressionType.exponential, evaluate: (x: number) => 3 * Math.exp(0.5 * x), coefficients: [3, 0.5] },
+                { type: RegressionType.logarithmic, evaluate: (x: number) => 2 + 4 * Math.log(x), coefficients: [2, 4] },
+                { type: RegressionType.power, evaluate: (x: number) => 1.5 * Math.pow(x, 2.5), coefficients: [1.5, 2.5] },
+            ];
+
+            for (let model of models) {
+                let regressionDataView = transform(createSourceDataView(categories, evaluateAt(categories, model.evaluate), { show: true, regressionType: model.type }));
+                let curveCategories = <number[]>regressionDataView.categorical.categories[0].values;
+                let valueColumn = regressionDataView.categorical.values[0];
+
+                expectValuesCloseTo(<number[]>valueColumn.values, evaluateAt(curveCategories, model.evaluate));
+                expect(valueColumn.source.regression.type).toBe(model.type);
+                expectValuesCloseTo(valueColumn.source.regression.coefficients, model.coefficients);
+                expect(valueColumn.source.regression.rSquared).toBeCloseTo(1, 8);
+            }
+        });
+
+        it('exponential regression requires positive values', () => {
+            let sourceDataView = createSourceDataView([1, 2, 3], [1, 0, 2], { show: true, regressionType: RegressionType.exponential });
+
+            expect(transform(sourceDataView)).toBeUndefined();
+        });
+
+        it('skips only the series that can not be fit', () => {
+            let createColumn = (name: string, values: number[]): powerbi.data.DataViewBuilderValuesColumnOptions => ({
+                source: {
+                    displayName: name,
+                    queryName: name,
+                    isMeasure: true,
+                    type: ValueType.fromPrimitiveTypeAndCategory(PrimitiveType.Double),
+                    roles: { Y: true },
+                },
+                values: values,
+            });
+            let sourceDataView = powerbi.data.createCategoricalDataViewBuilder()
+                .withCategory({
+                    source: {
+                        displayName: 'X',
+                        queryName: 'X',
+                        type: ValueType.fromPrimitiveTypeAndCategory(PrimitiveType.Double),
+                        roles: { Category: true },
+                    },
+                    values: [1, 2, 3],
+                    identityFrom: {
+                        fields: [SQExprBuilder.columnRef(SQExprBuilder.entity('s', 'e'), 'X')],
+                    },
+                })
+                .withValues({
+                    columns: [createColumn('Sales', [1, 0, 2]), createColumn('Profit', [1, 2, 4])],
+                })
+                .build();
+            sourceDataView.metadata.objects = <DataViewObjects>{ trend: { show: true, combineSeries: false, regressionType: RegressionType.exponential } };
+
+            let regressionDataView = transform(sourceDataView);
+
+            let valueColumns = regressionDataView.categorical.values;
+            expect(valueColumns.length).toBe(2);
+            expect(_.all(valueColumns[0].values, (value) => value == null)).toBe(true);
+            expect(valueColumns[0].source.regression).toBeUndefined();
+            expect(valueColumns[1].values[0]).toBeCloseTo(1, 6);
+            expect(_.last(valueColumns[1].values)).toBeCloseTo(4, 6);
+            expect(valueColumns[1].source.regression.type).toBe(RegressionType.exponential);
+        });
+
+        it('moving average is evaluated at each category', () => {
+            let regressionDataView = transform(createSourceDataView([4, 1, 3, 2, 5], [8, 2, 6, 4, 1], { show: true, regressionType: RegressionType.movingAverage, movingAveragePeriod: 3 }));
+
+            expect(regressionDataView.categorical.categories[0].values).toEqual([1, 2, 3, 4, 5]);
+
+            let valueColumn = regressionDataView.categorical.values[0];
+            expect(valueColumn.values).toEqual([null, null, 4, 6, 5]);
+            expect(valueColumn.source.regression).toEqual({ type: RegressionType.movingAverage });
+        });
+
+        it('fits a separate model to the highlight values', () => {
+            let regressionDataView = transform(createSourceDataView([1, 2, 3, 4], [3, 5, 7, 9], { show: true }, [2, 3, 4, 5]));
+
+            let valueColumn = regressionDataView.categorical.values[0];
+            expect(valueColumn.values).toEqual([3, 9]);
+            expect(valueColumn.highlights).toEqual([2, 5]);
+            expectValuesCloseTo(valueColumn.source.regression.coefficients, [1, 2]);
+            expectValuesCloseTo(valueColumn.source.regression.highlights.coefficients, [1, 1]);
+        });
+
+        function expectValuesCloseTo(actual: number[], expected: number[]): void {
+            expect(actual.length).toBe(expected.length);
+            for (let i = 0; i < expected.length; i++)
+                expect(actual[i]).toBeCloseTo(expected[i], 6);
+        }
+    });
+}
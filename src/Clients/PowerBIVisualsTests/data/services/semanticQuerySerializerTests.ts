@@ -0,0 +1,276 @@
+/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved. 
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *   
+ *  The above copyright notice and this permission notice shall be included in 
+ *  all copies or substantial portions of the Software.
+ *   
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR 
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, 
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE 
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER 
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+/// <reference path="../../_references.ts"/>
+
+module powerbitests {
+    import EntitySourceType = powerbi.data.EntitySourceType;
+    import QueryAggregateFunction = powerbi.data.QueryAggregateFunction;
+    import QueryComparisonKind = powerbi.data.QueryComparisonKind;
+    import QueryDefinition = powerbi.data.QueryDefinition;
+    import SemanticFilter = powerbi.data.SemanticFilter;
+    import SemanticQuery = powerbi.data.SemanticQuery;
+    import SemanticQuerySerializer = powerbi.data.SemanticQuerySerializer;
+    import SQExpr = powerbi.data.SQExpr;
+    import SQExprBuilder = powerbi.data.SQExprBuilder;
+    import SQFromEntitySource = powerbi.data.SQFromEntitySource;
+    import SQFromSubquerySource = powerbi.data.SQFromSubquerySource;
+    import TimeUnit = powerbi.data.TimeUnit;
+
+    describe('SemanticQuerySerializer', () => {
+        let customer = SQExprBuilder.entity('s', 'Customer'),
+            sales = SQExprBuilder.entity('s', 'Sales'),
+            customerName = SQExprBuilder.columnRef(customer, 'Name'),
+            customerCity = SQExprBuilder.columnRef(customer, 'City'),
+            salesAmount = SQExprBuilder.columnRef(sales, 'Amount'),
+            salesTotal = SQExprBuilder.aggregate(salesAmount, QueryAggregateFunction.Sum);
+
+        function roundTripExpr(expr: SQExpr): SQExpr {
+            // Serialize through JSON to ensure the contract does not depend on object identity.
+            let container = JSON.parse(JSON.stringify(SemanticQuerySerializer.serializeExpr(expr)));
+            return SemanticQuerySerializer.deserializeExpr(container);
+        }
+
+        function roundTripQuery(query: SemanticQuery): SemanticQuery {
+            let definition = JSON.parse(JSON.stringify(SemanticQuerySerializer.serializeQuery(query)));
+            return SemanticQuerySerializer.deserializeQuery(definition);
+        }
+
+        it('round-trips every expression kind', () => {
+            let exprs: SQExpr[] = [
+                customer,
+                SQExprBuilder.entity('s', 'Customer', 'c'),
+                customerName,
+                SQExprBuilder.measureRef(sales, 'Profit'),
+                salesTotal,
+                SQExprBuilder.percentile(salesAmount, 0.9, true),
+                SQExprBuilder.percentile(salesAmount, 0.5, false),
+                SQExprBuilder.hierarchyLevel(SQExprBuilder.hierarchy(customer, 'Geography'), 'City'),
+                SQExprBuilder.hierarchy(SQExprBuilder.propertyVariationSource(customer, 'Variation', 'Birthday'), 'Date Hierarchy'),
+                SQExprBuilder.selectRef('Sales.Amount'),
+                SQExprBuilder.and(
+                    SQExprBuilder.equal(customerName, SQExprBuilder.text("O'Brien")),
+                    SQExprBuilder.or(
+                        SQExprBuilder.compare(QueryComparisonKind.GreaterThan, salesAmount, SQExprBuilder.integer(10)),
+                        SQExprBuilder.compare(QueryComparisonKind.LessThanOrEqual, salesAmount, SQExprBuilder.double(-1.5)))),
+                SQExprBuilder.between(salesAmount, SQExprBuilder.decimal(1.25), SQExprBuilder.decimal(1e21)),
+                SQExprBuilder.inExpr(
+                    [customerName, customerCity],
+                    [[SQExprBuilder.text('A'), SQExprBuilder.text('Seattle')], [SQExprBuilder.nullConstant(), SQExprBuilder.boolean(true)]]),
+                SQExprBuilder.contains(customerName, SQExprBuilder.text('a')),
+                SQExprBuilder.startsWith(customerName, SQExprBuilder.text('b')),
+                SQExprBuilder.not(SQExprBuilder.exists(customer)),
+                SQExprBuilder.boolean(false),
+                SQExprBuilder.dateTime(new Date(2015, 5, 10, 8, 30, 15, 250)),
+                SQExprBuilder.dateSpan(TimeUnit.Month, SQExprBuilder.dateAdd(TimeUnit.Day, -7, SQExprBuilder.now())),
+                SQExprBuilder.defaultValue(),
+                SQExprBuilder.anyValue(),
+                SQExprBuilder.arithmetic(salesTotal, SQExprBuilder.integer(2), powerbi.data.ArithmeticOperatorKind.Divide),
+                SQExprBuilder.scopedEval(salesTotal, [customerName]),
+                SQExprBuilder.withRef('Total'),
+                SQExprBuilder.transformTableRef('InputTable'),
+                SQExprBuilder.transformOutputRoleRef('Forecast', 'ForecastTransform'),
+                SQExprBuilder.transformOutputRoleRef('Values'),
+                SQExprBuilder.resourcePackageItem('RegisteredResources', 1, 'logo.png'),
+                SQExprBuilder.fillRule(salesTotal, {
+                    linearGradient2: {
+                        min: { color: SQExprBuilder.text('#FFFFFF') },
+                        max: { color: SQExprBuilder.text('#000000'), value: SQExprBuilder.integer(100) },
+                    }
+                }),
+                SQExprBuilder.fillRule(salesTotal, {
+                    linearGradient3: {
+                        min: { color: SQExprBuilder.text('#FF0000'), value: SQExprBuilder.integer(0) },
+                        mid: { color: SQExprBuilder.text('#FFFF00') },
+                        max: { color: SQExprBuilder.text('#00FF00') },
+                    }
+                }),
+            ];
+
+            for (let expr of exprs)
+                expect(roundTripExpr(expr)).toEqualSQExpr(expr);
+        });
+
+        it('serializes standalone entities as entity references', () => {
+            expect(SemanticQuerySerializer.serializeExpr(SQExprBuilder.entity('s', 'Customer', 'c')))
+                .toEqual({ EntityRef: { Entity: 'Customer', Schema: 's', Source: 'c' } });
+            expect(SemanticQuerySerializer.serializeExpr(SQExprBuilder.entity(undefined, 'Customer')))
+                .toEqual({ EntityRef: { Entity: 'Customer' } });
+        });
+
+        it('serializes constants as encoded literals', () => {
+            expect(SemanticQuerySerializer.serializeExpr(SQExprBuilder.integer(5))).toEqual({ Literal: { Value: '5L' } });
+            expect(SemanticQuerySerializer.serializeExpr(SQExprBuilder.text("it's"))).toEqual({ Literal: { Value: "'it''s'" } });
+        });
+
+        it('deserializes literal values', () => {
+            let date = SemanticQuerySerializer.deserializeExpr({ Literal: { Value: "datetime'2016-02-29T13:45:00.000'" } });
+            expect(date).toEqualSQExpr(SQExprBuilder.dateTime(new Date(2016, 1, 29, 13, 45)));
+            expect((<powerbi.data.SQConstantExpr>date).value).toEqual(new Date(2016, 1, 29, 13, 45));
+
+            let text = <powerbi.data.SQConstantExpr>SemanticQuerySerializer.deserializeExpr({ Literal: { Value: "'it''s'" } });
+            expect(text.value).toBe("it's");
+
+            let decimal = <powerbi.data.SQConstantExpr>SemanticQuerySerializer.deserializeExpr({ Literal: { Value: '2.5M' } });
+            expect(decimal).toEqualSQExpr(SQExprBuilder.decimal(2.5));
+            expect(decimal.value).toBe(2.5);
+
+            expect(() => SemanticQuerySerializer.deserializeExpr({ Literal: { Value: 'bogus' } })).toThrow();
+        });
+
+        it('round-trips a query', () => {
+            let query = SemanticQuery.create()
+                .addSelect(customerName, 'Customer.Name')
+                .addSelect(salesTotal, 'Sum(Sales.Amount)')
+                .addWhere(SemanticFilter.fromSQExpr(SQExprBuilder.equal(customerCity, SQExprBuilder.text('Seattle'))));
+            query = query
+                .orderBy([{ expr: salesTotal, direction: powerbi.SortDirection.Descending }])
+                .groupBy([{ name: 'Customer.City', expr: customerCity }]);
+
+            let definition = SemanticQuerySerializer.serializeQuery(query);
+            expect(definition.Version).toBe(SemanticQuerySerializer.CurrentVersion);
+            expect(definition.From).toEqual([
+                { Name: 'c', Entity: 'Customer', Schema: 's' },
+                { Name: 's', Entity: 'Sales', Schema: 's' },
+            ]);
+            expect(definition.Select[0]).toEqual({
+                Name: 'Customer.Name',
+                Column: { Expression: { SourceRef: { Source: 'c' } }, Property: 'Name' },
+            });
+
+            let result = roundTripQuery(query);
+            expect(SemanticQuery.equals(result, query)).toBe(true);
+            expect(result.select()[1].expr).toEqualSQExpr(query.select()[1].expr);
+        });
+
+        it('round-trips a query with transforms', () => {
+            let query = SemanticQuery.create()
+                .addSelect(customerName, 'Customer.Name')
+                .addSelect(SQExprBuilder.transformOutputRoleRef('Forecast', 'F'), 'Forecast');
+            query = query.transforms([{
+                name: 'F',
+                algorithm: 'Forecast',
+                input: {
+                    parameters: [{ name: 'Confidence', expr: SQExprBuilder.double(0.95) }],
+                    table: {
+                        name: 'InputTable',
+                        columns: [{ role: 'Values', expression: { name: 'Sum(Sales.Amount)', expr: salesTotal } }],
+                    },
+                },
+                output: {
+                    table: {
+                        name: 'OutputTable',
+                        columns: [{ role: 'Forecast', expression: { name: 'Forecast', expr: SQExprBuilder.transformTableRef('InputTable') } }],
+                    },
+                },
+            }]);
+
+            expect(SemanticQuery.equals(roundTripQuery(query), query)).toBe(true);
+        });
+
+        it('round-trips a query over a subquery source', () => {
+            let subquery = SemanticQuery.create().addSelect(customerName, 'Customer.Name');
+            let query = new SemanticQuery(
+                new powerbi.data.SQFrom({
+                    c: new SQFromEntitySource('s', 'Customer'),
+                    sub: new SQFromSubquerySource(subquery),
+                }),
+                null,
+                null,
+                [{ name: 'Customer.City', expr: SQExprBuilder.columnRef(SQExprBuilder.entity('s', 'Customer', 'c'), 'City') }],
+                null,
+                null);
+
+            let definition = SemanticQuerySerializer.serializeQuery(query);
+            expect(definition.From[1].Type).toBe(EntitySourceType.Expression);
+            expect(definition.From[1].Expression.Subquery.Query.Select.length).toBe(1);
+
+            expect(SemanticQuery.equals(roundTripQuery(query), query)).toBe(true);
+        });
+
+        it('round-trips a filter', () => {
+            let filter = SemanticFilter.fromSQExpr(
+                SQExprBuilder.and(
+                    SQExprBuilder.inExpr([customerName], [[SQExprBuilder.text('A')], [SQExprBuilder.text('B')]]),
+                    SQExprBuilder.compare(QueryComparisonKind.GreaterThanOrEqual, salesAmount, SQExprBuilder.integer(3))));
+
+            let definition = SemanticQuerySerializer.serializeFilter(filter);
+            expect(definition.Version).toBe(SemanticQuerySerializer.CurrentVersion);
+            expect(definition.Where.length).toBe(1);
+
+            let result = SemanticQuerySerializer.deserializeFilter(JSON.parse(JSON.stringify(definition)));
+            expect(SemanticFilter.isSameFilter(result, filter)).toBe(true);
+            expect(result.conditions()[0]).toEqualSQExpr(filter.conditions()[0]);
+        });
+
+        it('upgrades legacy definitions', () => {
+            let definition: QueryDefinition = {
+                From: [{ Name: 'c', EntitySet: 'Customer' }],
+                Select: [{ Column: { Expression: { SourceRef: { Source: 'c' } }, Property: 'Name' }, Name: 'Customer.Name' }],
+                Where: [{
+                    Condition: {
+                        And: {
+                            Left: {
+                                Comparison: {
+                                    ComparisonKind: QueryComparisonKind.Equal,
+                                    Left: { Column: { Expression: { SourceRef: { Source: 'c' } }, Property: 'Name' } },
+                                    Right: { String: { Value: 'Contoso' } },
+                                }
+                            },
+                            Right: {
+                                Comparison: {
+                                    ComparisonKind: QueryComparisonKind.GreaterThan,
+                                    Left: { Column: { Expression: { SourceRef: { Source: 'c' } }, Property: 'Birthday' } },
+                                    Right: { DateTime: { Value: '2000-01-01T00:00:00' } },
+                                }
+                            },
+                        }
+                    }
+                }],
+            };
+
+            let query = SemanticQuerySerializer.deserializeQuery(definition);
+            let customerVariable = SQExprBuilder.entity(undefined, 'Customer', 'c');
+            expect(query.select()[0].expr).toEqualSQExpr(SQExprBuilder.columnRef(customerVariable, 'Name'));
+            expect(query.where()[0].condition).toEqualSQExpr(SQExprBuilder.and(
+                SQExprBuilder.equal(SQExprBuilder.columnRef(customerVariable, 'Name'), SQExprBuilder.text('Contoso')),
+                SQExprBuilder.compare(QueryComparisonKind.GreaterThan, SQExprBuilder.columnRef(customerVariable, 'Birthday'), SQExprBuilder.dateTime(new Date(2000, 0, 1)))));
+
+            let upgraded = SemanticQuerySerializer.serializeQuery(query);
+            expect(upgraded.Version).toBe(SemanticQuerySerializer.CurrentVersion);
+            expect(upgraded.From).toEqual([{ Name: 'c', Entity: 'Customer' }]);
+            expect(upgraded.Where[0].Condition.And.Left.Comparison.Right).toEqual({ Literal: { Value: "'Contoso'" } });
+        });
+
+        it('rejects definitions from newer versions', () => {
+            expect(() => SemanticQuerySerializer.deserializeQuery({
+                Version: SemanticQuerySerializer.CurrentVersion + 1,
+                From: [],
+                Select: [],
+            })).toThrow();
+        });
+    });
+}
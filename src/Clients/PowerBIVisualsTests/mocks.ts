@@ -486,6 +486,7 @@ module powerbitests.mocks {
 
     export class MockSelectionHandler implements powerbi.visuals.ISelectionHandler {
         public handleSelection(dataPoint: SelectableDataPoint, multiSelect: boolean): void { }
+        public handleMultiSelection(dataPoints: SelectableDataPoint[], multiSelect: boolean): void { }
         public handleContextMenu(dataPoint: SelectableDataPoint, position: powerbi.visuals.IPoint): void { }
         public handleClearSelection(): void { }
         public toggleSelectionModeInversion(): boolean { return true; }
@@ -0,0 +1,347 @@
+/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved. 
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *   
+ *  The above copyright notice and this permission notice shall be included in 
+ *  all copies or substantial portions of the Software.
+ *   
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR 
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, 
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE 
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER 
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+/// <reference path="../_references.ts"/>
+
+module powerbitests {
+    import BoxAndWhiskerChart = powerbi.visuals.BoxAndWhiskerChart;
+    import BoxAndWhiskerChartData = powerbi.visuals.BoxAndWhiskerChartData;
+    import BoxAndWhiskerChartSettings = powerbi.visuals.BoxAndWhiskerChartSettings;
+    import CartesianChart = powerbi.visuals.CartesianChart;
+    import CartesianChartType = powerbi.visuals.CartesianChartType;
+    import DataViewTransform = powerbi.data.DataViewTransform;
+    import boxWhiskerType = powerbi.visuals.boxWhiskerType;
+    import PrimitiveType = powerbi.PrimitiveType;
+    import SQExpr = powerbi.data.SQExpr;
+    import SQExprBuilder = powerbi.data.SQExprBuilder;
+    import ValueType = powerbi.ValueType;
+
+    powerbitests.mocks.setLocale();
+
+    const regionField = SQExprBuilder.fieldDef({ schema: 's', entity: 'Orders', column: 'Region' });
+    const orderField = SQExprBuilder.fieldDef({ schema: 's', entity: 'Orders', column: 'Order' });
+
+    describe("BoxAndWhiskerChart", () => {
+        let dataViewMetadata: powerbi.DataViewMetadata = {
+            columns: [
+                {
+                    displayName: 'Region',
+                    queryName: 'Region',
+                    type: ValueType.fromPrimitiveTypeAndCategory(PrimitiveType.Text),
+                    roles: { Category: true }
+                },
+                {
+                    displayName: 'Order',
+                    queryName: 'Order',
+                    type: ValueType.fromPrimitiveTypeAndCategory(PrimitiveType.Integer),
+                    roles: { Details: true }
+                },
+                {
+                    displayName: 'Amount',
+                    queryName: 'Amount',
+                    isMeasure: true,
+                    type: ValueType.fromPrimitiveTypeAndCategory(PrimitiveType.Double),
+                    roles: { Y: true }
+                }
+            ],
+        };
+
+        let defaultSettings: BoxAndWhiskerChartSettings = {
+            whiskerType: boxWhiskerType.tukey,
+            showOutliers: true,
+            showMean: false,
+        };
+
+        function createDataView(): powerbi.DataView {
+            let regions = ['North', 'North', 'North', 'North', 'North', 'North', 'South', 'South', 'South', 'South'];
+            let orders = _.range(regions.length);
+
+            // Like the categories of a query, both category columns share one identity per row
+            let identityFields = [regionField, orderField];
+            let identities = _.map(regions, (region: string, index: number) => powerbi.data.createDataViewScopeIdentity(SQExprBuilder.and(
+                SQExprBuilder.equal(regionField, SQExprBuilder.text(region)),
+                SQExprBuilder.equal(orderField, SQExprBuilder.integer(orders[index])))));
+
+            return {
+                metadata: dataViewMetadata,
+                categorical: {
+                    categories: [
+                        {
+                            source: dataViewMetadata.columns[0],
+                            values: regions,
+                            identity: identities,
+                            identityFields: identityFields,
+                        },
+                        {
+                            source: dataViewMetadata.columns[1],
+                            values: orders,
+                            identity: identities,
+                            identityFields: identityFields,
+                        }
+                    ],
+                    values: DataViewTransform.createValueColumns([{
+                        source: dataViewMetadata.columns[2],
+                        values: [1, 2, 3, 4, 5, 50, 10, 20, 30, 40],
+                    }])
+                }
+            };
+        }
+
+        describe("capabilities", () => {
+            it("should register capabilities", () => {
+                let plugin = powerbi.visuals.plugins.boxAndWhiskerChart;
+                expect(plugin).toBeDefined();
+                expect(plugin.capabilities).toBe(powerbi.visuals.boxAndWhiskerChartCapabilities);
+            });
+
+            it("FormatString property should match calculated", () => {
+                expect(powerbi.data.DataViewObjectDescriptors.findFormatString(powerbi.visuals.boxAndWhiskerChartCapabilities.objects))
+                    .toEqual(powerbi.visuals.boxAndWhiskerChartProps.general.formatString);
+            });
+        });
+
+        describe("statistics", () => {
+            it("computes the quartiles, the whiskers and the outliers with Tukey fences", () => {
+                let statistics = BoxAndWhiskerChart.computeStatistics([5, 1, 4, 2, 3, 50], boxWhiskerType.tukey);
+
+                expect(statistics.count).toBe(6);
+                expect(statistics.min).toBe(1);
+                expect(statistics.max).toBe(50);
+                expect(statistics.median).toBe(3.5);
+                expect(statistics.firstQuartile).toBe(2.25);
+                expect(statistics.thirdQuartile).toBe(4.75);
+                expect(statistics.interquartileRange).toBe(2.5);
+                expect(statistics.mean).toBe(65 / 6);
+                expect(statistics.lowerWhisker).toBe(1);
+                expect(statistics.upperWhisker).toBe(5);
+                expect(statistics.outliers).toEqual([50]);
+            });
+
+            it("extends the whiskers to the extremes with min/max whiskers", () => {
+                let statistics = BoxAndWhiskerChart.computeStatistics([5, 1, 4, 2, 3, 50], boxWhiskerType.minMax);
+
+                expect(statistics.lowerWhisker).toBe(1);
+                expect(statistics.upperWhisker).toBe(50);
+                expect(statistics.outliers).toEqual([]);
+            });
+
+            it("ignores null and non-finite values", () => {
+                let statistics = BoxAndWhiskerChart.computeStatistics([null, 2, NaN, 4, Number.POSITIVE_INFINITY]);
+
+                expect(statistics.count).toBe(2);
+                expect(statistics.median).toBe(3);
+            });
+
+            it("returns undefined without values", () => {
+                expect(BoxAndWhiskerChart.computeStatistics([])).toBeUndefined();
+                expect(BoxAndWhiskerChart.computeStatistics([null])).toBeUndefined();
+            });
+        });
+
+        describe("converter", () => {
+            it("groups the values by category", () => {
+                let data: BoxAndWhiskerChartData = BoxAndWhiskerChart.converter(
+                    createDataView(),
+                    powerbi.visuals.visualStyles.create().colorPalette.dataColors,
+                    mocks.createVisualHostServices(),
+                    defaultSettings);
+
+                expect(data.categories).toEqual(['North', 'South']);
+                expect(data.series.length).toBe(1);
+                expect(data.hasDynamicSeries).toBe(false);
+
+                let dataPoints = data.series[0].data;
+                expect(dataPoints.length).toBe(2);
+                expect(dataPoints[0].statistics.count).toBe(6);
+                expect(dataPoints[0].statistics.outliers).toEqual([50]);
+                expect(dataPoints[0].value).toBe(3.5);
+                expect(dataPoints[1].statistics.count).toBe(4);
+                expect(dataPoints[1].statistics.median).toBe(25);
+                expect(dataPoints[1].categoryIndex).toBe(1);
+            });
+
+            it("identifies the boxes by category", () => {
+                let data = BoxAndWhiskerChart.converter(
+                    createDataView(),
+                    powerbi.visuals.visualStyles.create().colorPalette.dataColors,
+                    mocks.createVisualHostServices(),
+                    defaultSettings);
+
+                let dataPoints = data.series[0].data;
+                expect(dataPoints[0].identity.getKey()).not.toEqual(dataPoints[1].identity.getKey());
+                expect(dataPoints[0].key).toBe(dataPoints[0].identity.getKey());
+            });
+
+            it("identifies the boxes by the category value rather than by the row identity", () => {
+                let data = BoxAndWhiskerChart.converter(
+                    createDataView(),
+                    powerbi.visuals.visualStyles.create().colorPalette.dataColors,
+                    mocks.createVisualHostServices(),
+                    defaultSettings);
+
+                let dataPoints = data.series[0].data;
+                let northExpr = <SQExpr>(<powerbi.DataViewScopeIdentity>dataPoints[0].identity.getSelector().data[0]).expr;
+                let southExpr = <SQExpr>(<powerbi.DataViewScopeIdentity>dataPoints[1].identity.getSelector().data[0]).expr;
+                expect(SQExpr.equals(northExpr, SQExprBuilder.equal(regionField, SQExprBuilder.text('North')))).toBe(true);
+                expect(SQExpr.equals(southExpr, SQExprBuilder.equal(regionField, SQExprBuilder.text('South')))).toBe(true);
+            });
+
+            it("creates one series per group of a dynamic series", () => {
+                let seriesColumn: powerbi.DataViewMetadataColumn = {
+                    displayName: 'Channel',
+                    queryName: 'Channel',
+                    type: ValueType.fromPrimitiveTypeAndCategory(PrimitiveType.Text),
+                    roles: { Series: true }
+                };
+                let dataView = createDataView();
+                dataView.categorical.values = DataViewTransform.createValueColumns([
+                    {
+                        source: <powerbi.DataViewMetadataColumn>_.extend({ groupName: 'Web' }, dataViewMetadata.columns[2]),
+                        values: [1, 2, 3, 4, 5, 6, 7, 8, 9, 10],
+                        identity: mocks.dataViewScopeIdentity('Web'),
+                    },
+                    {
+                        source: <powerbi.DataViewMetadataColumn>_.extend({ groupName: 'Store' }, dataViewMetadata.columns[2]),
+                        values: [10, 20, 30, 40, 50, 60, 70, 80, 90, 100],
+                        identity: mocks.dataViewScopeIdentity('Store'),
+                    }], undefined, seriesColumn);
+
+                let data = BoxAndWhiskerChart.converter(
+                    dataView,
+                    powerbi.visuals.visualStyles.create().colorPalette.dataColors,
+                    mocks.createVisualHostServices(),
+                    defaultSettings);
+
+                expect(data.hasDynamicSeries).toBe(true);
+                expect(data.series.length).toBe(2);
+                expect(data.series[1].data[1].seriesIndex).toBe(1);
+                expect(data.series[1].data[1].statistics.median).toBe(85);
+                expect(data.legend.dataPoints.length).toBe(2);
+                expect(data.legend.title).toBe('Channel');
+                expect(data.series[0].color).not.toEqual(data.series[1].color);
+            });
+
+            it("adds the summary to the tooltip", () => {
+                let data = BoxAndWhiskerChart.converter(
+                    createDataView(),
+                    powerbi.visuals.visualStyles.create().colorPalette.dataColors,
+                    mocks.createVisualHostServices(),
+                    defaultSettings);
+
+                let tooltipInfo = data.series[0].data[1].tooltipInfo;
+                expect(tooltipInfo[0]).toEqual({ displayName: 'Region', value: 'South' });
+                expect(tooltipInfo.length).toBe(8);
+            });
+        });
+
+        describe("DOM validation", () => {
+            let v: powerbi.IVisual;
+            let element: JQuery;
+
+            beforeEach(() => {
+                element = powerbitests.helpers.testDom('500', '500');
+                v = new CartesianChart({ chartType: CartesianChartType.BoxAndWhisker });
+                v.init({
+                    element: element,
+                    host: powerbitests.mocks.createVisualHostServices(),
+                    style: powerbi.visuals.visualStyles.create(),
+                    viewport: {
+                        height: element.height(),
+                        width: element.width()
+                    },
+                    animation: { transitionImmediate: true }
+                });
+            });
+
+            it("renders a box per category", (done) => {
+                v.onDataChanged({ dataViews: [createDataView()] });
+                setTimeout(() => {
+                    expect($('.boxAndWhiskerChart .box').length).toBe(2);
+                    expect($('.boxAndWhiskerChart .boxRect').length).toBe(2);
+                    expect($('.boxAndWhiskerChart .median').length).toBe(2);
+                    expect($('.boxAndWhiskerChart .whisker').length).toBe(4);
+                    expect($('.boxAndWhiskerChart .outlier').length).toBe(1);
+                    expect($('.boxAndWhiskerChart .mean').length).toBe(0);
+                    done();
+                }, DefaultWaitForRender);
+            });
+
+            it("hides the outliers and shows the mean from the formatting options", (done) => {
+                let dataView = createDataView();
+                dataView.metadata = {
+                    columns: dataViewMetadata.columns,
+                    objects: { boxWhisker: { showOutliers: false, showMean: true } },
+                };
+
+                v.onDataChanged({ dataViews: [dataView] });
+                setTimeout(() => {
+                    expect($('.boxAndWhiskerChart .outlier').length).toBe(0);
+                    expect($('.boxAndWhiskerChart .mean').length).toBe(2);
+                    done();
+                }, DefaultWaitForRender);
+            });
+
+            it("colors the whiskers of updated boxes", (done) => {
+                v.onDataChanged({ dataViews: [createDataView()] });
+
+                let dataView = createDataView();
+                let amountColumn = <powerbi.DataViewMetadataColumn>_.extend({ objects: { dataPoint: { fill: { solid: { color: '#FF0000' } } } } }, dataViewMetadata.columns[2]);
+                dataView.metadata = { columns: [dataViewMetadata.columns[0], dataViewMetadata.columns[1], amountColumn] };
+                dataView.categorical.values = DataViewTransform.createValueColumns([{
+                    source: amountColumn,
+                    values: [1, 2, 3, 4, 5, 50, 10, 20, 30, 40],
+                }]);
+                v.onDataChanged({ dataViews: [dataView] });
+
+                setTimeout(() => {
+                    let rectStroke = $('.boxAndWhiskerChart .boxRect').get(0).style.stroke;
+                    expect(rectStroke).not.toBe('');
+                    $('.boxAndWhiskerChart .whisker, .boxAndWhiskerChart .whiskerCap').each((index: number, line: HTMLElement) => {
+                        expect(line.style.stroke).toBe(rectStroke);
+                    });
+                    done();
+                }, DefaultWaitForRender);
+            });
+
+            it("places the whiskers around the box", (done) => {
+                v.onDataChanged({ dataViews: [createDataView()] });
+                setTimeout(() => {
+                    let rect = $('.boxAndWhiskerChart .boxRect').first();
+                    let top = +rect.attr('y');
+                    let bottom = top + +rect.attr('height');
+                    let upperWhisker = $('.boxAndWhiskerChart .whisker.upper').first();
+                    let lowerWhisker = $('.boxAndWhiskerChart .whisker.lower').first();
+
+                    expect(+upperWhisker.attr('y1')).toBeCloseTo(top, 3);
+                    expect(+upperWhisker.attr('y2')).toBeLessThan(top);
+                    expect(+lowerWhisker.attr('y1')).toBeCloseTo(bottom, 3);
+                    expect(+lowerWhisker.attr('y2')).toBeGreaterThan(bottom);
+                    done();
+                }, DefaultWaitForRender);
+            });
+        });
+    });
+}
@@ -0,0 +1,283 @@
+/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved. 
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *   
+ *  The above copyright notice and this permission notice shall be included in 
+ *  all copies or substantial portions of the Software.
+ *   
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR 
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, 
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE 
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER 
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+/// <reference path="../_references.ts"/>
+
+module powerbitests {
+    import CandlestickChart = powerbi.visuals.CandlestickChart;
+    import CandlestickChartDataPoint = powerbi.visuals.CandlestickChartDataPoint;
+    import CandlestickChartSentimentColors = powerbi.visuals.CandlestickChartSentimentColors;
+    import CandlestickChartSettings = powerbi.visuals.CandlestickChartSettings;
+    import CartesianChart = powerbi.visuals.CartesianChart;
+    import CartesianChartType = powerbi.visuals.CartesianChartType;
+    import DataViewTransform = powerbi.data.DataViewTransform;
+    import ThemeManager = powerbi.visuals.ThemeManager;
+    import candlestickChartStyle = powerbi.visuals.candlestickChartStyle;
+    import PrimitiveType = powerbi.PrimitiveType;
+    import ValueType = powerbi.ValueType;
+
+    powerbitests.mocks.setLocale();
+
+    describe("CandlestickChart", () => {
+        let dataViewMetadata: powerbi.DataViewMetadata = {
+            columns: [
+                {
+                    displayName: 'Date',
+                    queryName: 'Date',
+                    type: ValueType.fromPrimitiveTypeAndCategory(PrimitiveType.DateTime),
+                    roles: { Category: true }
+                },
+                {
+                    displayName: 'Open',
+                    queryName: 'Open',
+                    isMeasure: true,
+                    type: ValueType.fromPrimitiveTypeAndCategory(PrimitiveType.Double),
+                    roles: { Open: true }
+                },
+                {
+                    displayName: 'High',
+                    queryName: 'High',
+                    isMeasure: true,
+                    type: ValueType.fromPrimitiveTypeAndCategory(PrimitiveType.Double),
+                    roles: { High: true }
+                },
+                {
+                    displayName: 'Low',
+                    queryName: 'Low',
+                    isMeasure: true,
+                    type: ValueType.fromPrimitiveTypeAndCategory(PrimitiveType.Double),
+                    roles: { Low: true }
+                },
+                {
+                    displayName: 'Close',
+                    queryName: 'Close',
+                    isMeasure: true,
+                    type: ValueType.fromPrimitiveTypeAndCategory(PrimitiveType.Double),
+                    roles: { Close: true }
+                },
+                {
+                    displayName: 'Volume',
+                    queryName: 'Volume',
+                    isMeasure: true,
+                    type: ValueType.fromPrimitiveTypeAndCategory(PrimitiveType.Integer),
+                    roles: { Volume: true }
+                }
+            ],
+        };
+
+        let defaultSettings: CandlestickChartSettings = {
+            chartStyle: candlestickChartStyle.candlestick,
+            skipGaps: true,
+            showVolume: true,
+        };
+
+        let sentimentColors: CandlestickChartSentimentColors = {
+            increaseFill: { solid: { color: '#00FF00' } },
+            decreaseFill: { solid: { color: '#FF0000' } },
+        };
+
+        // Thursday, Friday and the next Monday, then a day without a close price.
+        let dates = [new Date(2016, 0, 7), new Date(2016, 0, 8), new Date(2016, 0, 11), new Date(2016, 0, 12)];
+
+        function createDataView(objects?: powerbi.DataViewObjects): powerbi.DataView {
+            return {
+                metadata: {
+                    columns: dataViewMetadata.columns,
+                    objects: objects,
+                },
+                categorical: {
+                    categories: [{
+                        source: dataViewMetadata.columns[0],
+                        values: dates,
+                        identity: _.map(dates, (date: Date) => mocks.dataViewScopeIdentity(date.getTime())),
+                    }],
+                    values: DataViewTransform.createValueColumns([
+                        { source: dataViewMetadata.columns[1], values: [10, 12, 11, 11] },
+                        { source: dataViewMetadata.columns[2], values: [13, 13, 12, 12] },
+                        { source: dataViewMetadata.columns[3], values: [9, 10, 8, 10] },
+                        { source: dataViewMetadata.columns[4], values: [12, 11, 11, null] },
+                        { source: dataViewMetadata.columns[5], values: [1000, 2000, 500, 800] },
+                    ])
+                }
+            };
+        }
+
+        function getDataPoints(settings: CandlestickChartSettings = defaultSettings): CandlestickChartDataPoint[] {
+            return CandlestickChart.converter(createDataView(), settings, sentimentColors).series[0].data;
+        }
+
+        describe("capabilities", () => {
+            it("should register capabilities", () => {
+                let plugin = powerbi.visuals.plugins.candlestickChart;
+                expect(plugin).toBeDefined();
+                expect(plugin.capabilities).toBe(powerbi.visuals.candlestickChartCapabilities);
+            });
+
+            it("FormatString property should match calculated", () => {
+                expect(powerbi.data.DataViewObjectDescriptors.findFormatString(powerbi.visuals.candlestickChartCapabilities.objects))
+                    .toEqual(powerbi.visuals.candlestickChartProps.general.formatString);
+            });
+        });
+
+        describe("converter", () => {
+            it("creates a data point per complete period", () => {
+                let dataPoints = getDataPoints();
+
+                expect(dataPoints.length).toBe(3);
+                expect(_.map(dataPoints, (d: CandlestickChartDataPoint) => d.tradingIndex)).toEqual([0, 1, 2]);
+                expect(_.map(dataPoints, (d: CandlestickChartDataPoint) => d.categoryIndex)).toEqual([0, 1, 2]);
+
+                let last = dataPoints[2];
+                expect(last.open).toBe(11);
+                expect(last.high).toBe(12);
+                expect(last.low).toBe(8);
+                expect(last.close).toBe(11);
+                expect(last.volume).toBe(500);
+                expect(last.value).toBe(11);
+            });
+
+            it("colors the periods from the sentiment colors", () => {
+                let dataPoints = getDataPoints();
+
+                expect(dataPoints[0].isIncrease).toBe(true);
+                expect(dataPoints[0].color).toBe('#00FF00');
+                expect(dataPoints[1].isIncrease).toBe(false);
+                expect(dataPoints[1].color).toBe('#FF0000');
+                // Closing at the open price is not a decrease.
+                expect(dataPoints[2].isIncrease).toBe(true);
+            });
+
+            it("lays the periods out by trading index when skipping the gaps", () => {
+                let data = CandlestickChart.converter(createDataView(), defaultSettings, sentimentColors);
+
+                expect(data.isScalar).toBe(false);
+                expect(_.map(data.series[0].data, (d: CandlestickChartDataPoint) => d.categoryValue)).toEqual([0, 1, 2]);
+                expect(data.categories).toEqual(dates.slice(0, 3));
+            });
+
+            it("lays the periods out on a time axis when not skipping the gaps", () => {
+                let settings: CandlestickChartSettings = { chartStyle: candlestickChartStyle.candlestick, skipGaps: false, showVolume: true };
+                let data = CandlestickChart.converter(createDataView(), settings, sentimentColors);
+
+                expect(data.isScalar).toBe(true);
+                expect(_.map(data.series[0].data, (d: CandlestickChartDataPoint) => d.categoryValue)).toEqual(_.map(dates.slice(0, 3), (date: Date) => date.getTime()));
+            });
+
+            it("adds the prices and the volume to the tooltip", () => {
+                let tooltipInfo = getDataPoints()[0].tooltipInfo;
+
+                expect(_.map(tooltipInfo, (item: powerbi.visuals.TooltipDataItem) => item.displayName)).toEqual(['Date', 'Open', 'High', 'Low', 'Close', 'Volume']);
+                expect(_.map(tooltipInfo, (item: powerbi.visuals.TooltipDataItem) => item.value).slice(1)).toEqual(['10', '13', '9', '12', '1000']);
+            });
+        });
+
+        describe("DOM validation", () => {
+            let v: powerbi.IVisual;
+            let element: JQuery;
+
+            beforeEach(() => {
+                element = powerbitests.helpers.testDom('500', '500');
+                v = new CartesianChart({ chartType: CartesianChartType.Candlestick });
+                v.init({
+                    element: element,
+                    host: powerbitests.mocks.createVisualHostServices(),
+                    style: powerbi.visuals.visualStyles.create(),
+                    viewport: {
+                        height: element.height(),
+                        width: element.width()
+                    },
+                    animation: { transitionImmediate: true }
+                });
+            });
+
+            it("renders a candle and a volume bar per period", (done) => {
+                v.onDataChanged({ dataViews: [createDataView()] });
+                setTimeout(() => {
+                    expect($('.candlestickChart .candle').length).toBe(3);
+                    expect($('.candlestickChart .wick').length).toBe(3);
+                    expect($('.candlestickChart .candleBody').length).toBe(3);
+                    expect($('.candlestickChart .openTick').length).toBe(0);
+                    expect($('.candlestickChart .volumeBar').length).toBe(3);
+                    done();
+                }, DefaultWaitForRender);
+            });
+
+            it("colors the candles from the theme sentiment colors by default", (done) => {
+                v.onDataChanged({ dataViews: [createDataView()] });
+                setTimeout(() => {
+                    let bodies = $('.candlestickChart .candleBody');
+                    helpers.assertColorsMatch(bodies.eq(0).css('fill'), ThemeManager.defaultSentimentColors[2].value);
+                    helpers.assertColorsMatch(bodies.eq(1).css('fill'), ThemeManager.defaultSentimentColors[0].value);
+                    done();
+                }, DefaultWaitForRender);
+            });
+
+            it("renders OHLC bars from the formatting options", (done) => {
+                v.onDataChanged({ dataViews: [createDataView({ candlestick: { chartStyle: candlestickChartStyle.ohlc } })] });
+                setTimeout(() => {
+                    expect($('.candlestickChart .candleBody').length).toBe(0);
+                    expect($('.candlestickChart .openTick').length).toBe(3);
+                    expect($('.candlestickChart .closeTick').length).toBe(3);
+                    done();
+                }, DefaultWaitForRender);
+            });
+
+            it("places the wick around the body", (done) => {
+                v.onDataChanged({ dataViews: [createDataView()] });
+                setTimeout(() => {
+                    let body = $('.candlestickChart .candleBody').first();
+                    let top = +body.attr('y');
+                    let bottom = top + +body.attr('height');
+                    let wick = $('.candlestickChart .wick').first();
+
+                    expect(+wick.attr('y1')).toBeLessThan(top);
+                    expect(+wick.attr('y2')).toBeGreaterThan(bottom);
+                    done();
+                }, DefaultWaitForRender);
+            });
+
+            it("keeps the volume panel below the prices", (done) => {
+                v.onDataChanged({ dataViews: [createDataView()] });
+                setTimeout(() => {
+                    let lowestPrice = _.max(_.map($('.candlestickChart .wick').get(), (wick: Element) => +wick.getAttribute('y2')));
+                    let highestVolume = _.min(_.map($('.candlestickChart .volumeBar').get(), (bar: Element) => +bar.getAttribute('y')));
+
+                    expect(highestVolume).toBeGreaterThan(lowestPrice);
+                    done();
+                }, DefaultWaitForRender);
+            });
+
+            it("hides the volume panel from the formatting options", (done) => {
+                v.onDataChanged({ dataViews: [createDataView({ candlestick: { showVolume: false } })] });
+                setTimeout(() => {
+                    expect($('.candlestickChart .candle').length).toBe(3);
+                    expect($('.candlestickChart .volumeBar').length).toBe(0);
+                    done();
+                }, DefaultWaitForRender);
+            });
+        });
+    });
+}
@@ -9741,6 +9741,175 @@ module powerbitests {
         });
     });
 
+    describe("Column chart high contrast", () => {
+        let v: powerbi.IVisual, element: JQuery;
+        let dataViewMetadata: powerbi.DataViewMetadata = {
+            columns: [
+                {
+                    displayName: 'col1',
+                    queryName: 'col1',
+                    type: ValueType.fromPrimitiveTypeAndCategory(PrimitiveType.Text),
+                    roles: { Category: true }
+                },
+                {
+                    displayName: 'col2',
+                    queryName: 'col2',
+                    isMeasure: true,
+                    type: ValueType.fromPrimitiveTypeAndCategory(PrimitiveType.Double),
+                    roles: { Y: true }
+                },
+                {
+                    displayName: 'col3',
+                    queryName: 'col3',
+                    isMeasure: true,
+                    type: ValueType.fromPrimitiveTypeAndCategory(PrimitiveType.Double),
+                    roles: { Y: true }
+                }
+            ],
+        };
+
+        beforeEach(() => {
+            element = powerbitests.helpers.testDom('500', '500');
+            v = new ColumnChartVisualBuilder(ColumnChartType.clusteredColumn).build();
+            v.init({
+                element: element,
+                host: powerbitests.mocks.createVisualHostServices(),
+                style: powerbi.visuals.visualStyles.createHighContrast('#ffff00', '#000000'),
+                viewport: {
+                    height: element.height(),
+                    width: element.width()
+                },
+                animation: { transitionImmediate: true }
+            });
+        });
+
+        it('series are filled with patterns and outlined with the foreground', (done) => {
+            v.onDataChanged({
+                dataViews: [{
+                    metadata: dataViewMetadata,
+                    categorical: {
+                        categories: [{
+                            source: dataViewMetadata.columns[0],
+                            values: ['abc', 'def'],
+                            identity: [mocks.dataViewScopeIdentity('abc'), mocks.dataViewScopeIdentity('def')],
+                        }],
+                        values: DataViewTransform.createValueColumns([{
+                            source: dataViewMetadata.columns[1],
+                            values: [100, 200]
+                        }, {
+                            source: dataViewMetadata.columns[2],
+                            values: [150, 50]
+                        }])
+                    }
+                }]
+            });
+
+            setTimeout(() => {
+                let series = $('.columnChart .series');
+                expect(series.length).toBe(2);
+                expect(series.eq(0).css('fill')).toMatch(/url\(.*-0"?\)/);
+                expect(series.eq(1).css('fill')).toMatch(/url\(.*-1"?\)/);
+                helpers.assertColorsMatch(series.eq(0).css('stroke'), '#ffff00');
+                expect($('.columnChart defs.highContrastPatterns pattern').length).toBe(2);
+                helpers.assertColorsMatch($('.columnChart .x.axis .tick text').first().css('fill'), '#ffff00');
+                done();
+            }, DefaultWaitForRender);
+        });
+    });
+
+    describe("Column chart right-to-left", () => {
+        let v: powerbi.IVisual, element: JQuery;
+        let dataViewMetadata: powerbi.DataViewMetadata = {
+            columns: [
+                {
+                    displayName: 'col1',
+                    queryName: 'col1',
+                    type: ValueType.fromPrimitiveTypeAndCategory(PrimitiveType.Text),
+                    roles: { Category: true }
+                },
+                {
+                    displayName: 'col2',
+                    queryName: 'col2',
+                    isMeasure: true,
+                    type: ValueType.fromPrimitiveTypeAndCategory(PrimitiveType.Double),
+                    roles: { Y: true }
+                }
+            ],
+        };
+
+        function initChart(locale: string): void {
+            let host = powerbitests.mocks.createVisualHostServices();
+            host.locale = () => locale;
+
+            element = powerbitests.helpers.testDom('500', '500');
+            v = new ColumnChartVisualBuilder(ColumnChartType.clusteredColumn).build();
+            v.init({
+                element: element,
+                host: host,
+                style: powerbi.visuals.visualStyles.create(),
+                viewport: {
+                    height: element.height(),
+                    width: element.width()
+                },
+                animation: { transitionImmediate: true }
+            });
+
+            v.onDataChanged({
+                dataViews: [{
+                    metadata: dataViewMetadata,
+                    categorical: {
+                        categories: [{
+                            source: dataViewMetadata.columns[0],
+                            values: ['abc', 'def', 'ghi'],
+                            identity: [mocks.dataViewScopeIdentity('abc'), mocks.dataViewScopeIdentity('def'), mocks.dataViewScopeIdentity('ghi')],
+                        }],
+                        values: DataViewTransform.createValueColumns([{
+                            source: dataViewMetadata.columns[1],
+                            values: [100, 200, 300]
+                        }])
+                    }
+                }]
+            });
+        }
+
+        it('runs the categories from right to left', (done) => {
+            initChart('ar-SA');
+            setTimeout(() => {
+                let columns = $('.columnChart .column');
+                expect(columns.length).toBe(3);
+                expect(+columns.eq(0).attr('x')).toBeGreaterThan(+columns.eq(1).attr('x'));
+                expect(+columns.eq(1).attr('x')).toBeGreaterThan(+columns.eq(2).attr('x'));
+
+                let ticks = $('.x.axis .tick');
+                let firstTick = SVGUtil.parseTranslateTransform(ticks.eq(0).attr('transform'));
+                let lastTick = SVGUtil.parseTranslateTransform(ticks.eq(2).attr('transform'));
+                expect(ticks.eq(0).find('title').text()).toBe('abc');
+                expect(+firstTick.x).toBeGreaterThan(+lastTick.x);
+                done();
+            }, DefaultWaitForRender);
+        });
+
+        it('places the value axis on the right by default', (done) => {
+            initChart('ar-SA');
+            setTimeout(() => {
+                let yAxis = SVGUtil.parseTranslateTransform($('.y.axis').first().attr('transform'));
+                expect(+yAxis.x).toBeGreaterThan(0);
+                done();
+            }, DefaultWaitForRender);
+        });
+
+        it('keeps the left to right layout for other locales', (done) => {
+            initChart('en-US');
+            setTimeout(() => {
+                let columns = $('.columnChart .column');
+                expect(+columns.eq(0).attr('x')).toBeLessThan(+columns.eq(1).attr('x'));
+                let yAxis = SVGUtil.parseTranslateTransform($('.y.axis').first().attr('transform'));
+                expect(+yAxis.x).toBe(0);
+                done();
+            }, DefaultWaitForRender);
+        });
+    });
+
     describe("BarChart Interactivity", () => {
         let v: powerbi.IVisual, element: JQuery;
         let dataViewMetadataTwoColumn: powerbi.DataViewMetadata = {
@@ -10018,6 +10187,64 @@ module powerbitests {
                 });
         });
 
+        it('Bar chart keyboard selection', () => {
+            let hostServices = mocks.createVisualHostServices();
+            v.init({
+                element: element,
+                host: hostServices,
+                style: powerbi.visuals.visualStyles.create(),
+                viewport: {
+                    height: element.height(),
+                    width: element.width()
+                },
+                animation: { transitionImmediate: true },
+                interactivity: { selection: true },
+            });
+
+            let identities: powerbi.DataViewScopeIdentity[] = [
+                mocks.dataViewScopeIdentity('a'),
+                mocks.dataViewScopeIdentity('b'),
+                mocks.dataViewScopeIdentity('c'),
+            ];
+            v.onDataChanged({
+                dataViews: [{
+                    metadata: dataViewMetadataTwoColumn,
+                    categorical: {
+                        categories: [{
+                            source: dataViewMetadataTwoColumn.columns[0],
+                            values: ['a', 'b', 'c'],
+                            identity: identities,
+                        }],
+                        values: DataViewTransform.createValueColumns([{
+                            source: dataViewMetadataTwoColumn.columns[1],
+                            values: [0.5, 2.0, 1.5]
+                        }])
+                    }
+                }]
+            });
+
+            let bars = element.find('.bar');
+            let container = element.find('svg.mainGraphicsContext[role=listbox]');
+            expect(container.length).toBe(1);
+            expect(container.attr('tabindex')).toBe('0');
+
+            keyboardNavigationHelpers.focus(container[0]);
+            keyboardNavigationHelpers.keyDown(container[0], jsCommon.DOMConstants.rightArrowKeyCode);
+
+            let focusedBar = element.find('.bar.' + powerbi.visuals.DataPointKeyboardNavigator.FocusedClassName);
+            expect(focusedBar[0]).toBe(bars[1]);
+            expect(focusedBar.attr('aria-label')).toBe('col1 b, col2 2');
+            expect(container.attr('aria-activedescendant')).toBe(focusedBar.attr('id'));
+
+            spyOn(hostServices, 'onSelect').and.callThrough();
+            keyboardNavigationHelpers.keyDown(container[0], jsCommon.DOMConstants.enterKeyCode);
+
+            expect(hostServices.onSelect).toHaveBeenCalled();
+            expect(bars[0].style.fillOpacity).toBe(DimmedOpacity);
+            expect(bars[1].style.fillOpacity).toBe(DefaultOpacity);
+            expect(focusedBar.attr('aria-selected')).toBe('true');
+        });
+
         it('Bar chart repeated single selection', () => {
             let hostServices = mocks.createVisualHostServices();
             v.init({
@@ -90,6 +90,15 @@ module powerbitests {
             var invertedValue = AxisHelper.invertOrdinalScale(ordinalScale, 1222);
             expect(invertedValue).toBe(9);
         });
+
+        it("invertOrdinalScale mirrored", () => {
+            var ordinalScale: D3.Scale.OrdinalScale = AxisHelper.createOrdinalScale(pixelSpan, domain, 0.4, true);
+            expect(ordinalScale(0)).toBeGreaterThan(ordinalScale(9));
+            expect(AxisHelper.invertOrdinalScale(ordinalScale, 25)).toBe(7);
+            expect(AxisHelper.invertOrdinalScale(ordinalScale, 75)).toBe(2);
+            expect(AxisHelper.invertOrdinalScale(ordinalScale, -45)).toBe(9);
+            expect(AxisHelper.invertOrdinalScale(ordinalScale, 1222)).toBe(0);
+        });
     });
 
     describe("AxisHelper createDomain tests", () => {
@@ -630,6 +639,29 @@ module powerbitests {
             expect(values[1]).toEqual('100.00');
         });
 
+        it('create mirrored linear scale', () => {
+            var createOptions = {
+                pixelSpan: 100,
+                dataDomain: [0, 100],
+                metaDataColumn: AxisPropertiesBuilder.metaDataColumnNumeric,
+                formatString: valueFormatter.getFormatString(AxisPropertiesBuilder.metaDataColumnNumeric, formatStringProp),
+                outerPadding: 0,
+                isScalar: true,
+                isVertical: false,
+                isMirrored: true,
+            };
+
+            var os = AxisHelper.createAxis(createOptions);
+            expect(os.isMirrored).toBe(true);
+            expect(os.scale(0)).toBe(100);
+            expect(os.scale(100)).toBe(0);
+
+            // Vertical axes are never mirrored
+            createOptions.isVertical = true;
+            os = AxisHelper.createAxis(createOptions);
+            expect(os.isMirrored).toBe(false);
+        });
+
         it('create log scale - near zero min check',() => {
             var domain = [0.000001725, 5, 15];
             expect(domain[0]).toBeGreaterThan(0);
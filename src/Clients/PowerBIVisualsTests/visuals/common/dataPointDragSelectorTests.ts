@@ -0,0 +1,154 @@
+/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved. 
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *   
+ *  The above copyright notice and this permission notice shall be included in 
+ *  all copies or substantial portions of the Software.
+ *   
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR 
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, 
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE 
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER 
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+/// <reference path="../../_references.ts"/>
+
+module powerbitests {
+    import DataPointDragSelector = powerbi.visuals.DataPointDragSelector;
+    import DragSelectionMode = powerbi.visuals.DragSelectionMode;
+    import ISelectionHandler = powerbi.visuals.ISelectionHandler;
+    import SelectableDataPoint = powerbi.visuals.SelectableDataPoint;
+
+    describe("DataPointDragSelector", () => {
+        let container: D3.Selection;
+        let circles: D3.Selection;
+        let dataPoints: SelectableDataPoint[];
+        let selectionHandler: ISelectionHandler;
+
+        // Centers of the circles, in order.
+        let centers = [
+            { x: 10, y: 10 },
+            { x: 50, y: 20 },
+            { x: 90, y: 90 },
+            { x: 30, y: 50 },
+        ];
+
+        // A triangle around the first, second and fourth circles.
+        let lasso = [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 0, y: 100 }];
+
+        beforeEach(() => {
+            let element = powerbitests.helpers.testDom("200", "300");
+            dataPoints = _.map(centers, (center, i) => <SelectableDataPoint>{ selected: false, identity: undefined, index: i });
+
+            container = d3.select(element[0]).append("svg");
+            circles = container.selectAll("circle")
+                .data(dataPoints)
+                .enter()
+                .append("circle")
+                .attr({
+                    cx: (d, i) => centers[i].x,
+                    cy: (d, i) => centers[i].y,
+                    r: 5,
+                });
+
+            selectionHandler = new mocks.MockSelectionHandler();
+            spyOn(selectionHandler, "handleMultiSelection");
+            spyOn(selectionHandler, "handleClearSelection");
+        });
+
+        function createSelector(mode: DragSelectionMode): DataPointDragSelector {
+            let selector = new DataPointDragSelector(mode);
+            selector.bind({ container: container, dataPoints: circles }, selectionHandler);
+            return selector;
+        }
+
+        it("isInsidePolygon", () => {
+            expect(DataPointDragSelector.isInsidePolygon({ x: 20, y: 20 }, lasso)).toBe(true);
+            expect(DataPointDragSelector.isInsidePolygon({ x: 60, y: 60 }, lasso)).toBe(false);
+            expect(DataPointDragSelector.isInsidePolygon({ x: -1, y: 20 }, lasso)).toBe(false);
+            expect(DataPointDragSelector.isInsidePolygon({ x: 20, y: 20 }, [])).toBe(false);
+        });
+
+        it("hitTest uses the center of circles", () => {
+            expect(DataPointDragSelector.hitTest(circles, lasso)).toEqual([dataPoints[0], dataPoints[1], dataPoints[3]]);
+        });
+
+        it("hitTest uses the center of rects", () => {
+            let bars = container.selectAll("rect.bar")
+                .data(dataPoints.slice(0, 2))
+                .enter()
+                .append("rect")
+                .classed("bar", true)
+                .attr({
+                    x: (d, i) => i * 60,
+                    y: 40,
+                    width: 40,
+                    height: 60,
+                });
+
+            // The first bar is centered at (20, 70), the second at (80, 70).
+            expect(DataPointDragSelector.hitTest(bars, lasso)).toEqual([dataPoints[0]]);
+        });
+
+        it("no background without a mode", () => {
+            let selector = createSelector(DragSelectionMode.None);
+            expect(container.select(".dragSelectionBackground").empty()).toBe(true);
+
+            selector.setMode(DragSelectionMode.Rectangle);
+            expect(container.select(".dragSelectionBackground").empty()).toBe(false);
+            expect(container.node().firstChild).toBe(container.select(".dragSelectionBackground").node());
+
+            selector.setMode(DragSelectionMode.None);
+            expect(container.select(".dragSelectionBackground").empty()).toBe(true);
+        });
+
+        it("no background for a selection handler without multi-selection", () => {
+            let handler = new mocks.MockSelectionHandler();
+            handler.handleMultiSelection = undefined;
+
+            let selector = new DataPointDragSelector(DragSelectionMode.Lasso);
+            selector.bind({ container: container, dataPoints: circles }, handler);
+            expect(container.select(".dragSelectionBackground").empty()).toBe(true);
+
+            expect(() => selector.selectInShape(lasso, false)).not.toThrow();
+        });
+
+        it("selectInShape selects the data points at once", () => {
+            let selector = createSelector(DragSelectionMode.Lasso);
+            selector.selectInShape(lasso, true);
+
+            expect(selectionHandler.handleMultiSelection).toHaveBeenCalledWith([dataPoints[0], dataPoints[1], dataPoints[3]], true);
+        });
+
+        it("selectInShape with a rectangle", () => {
+            let selector = createSelector(DragSelectionMode.Rectangle);
+            selector.selectInShape([{ x: 20, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 100 }, { x: 20, y: 100 }], false);
+
+            expect(selectionHandler.handleMultiSelection).toHaveBeenCalledWith([dataPoints[1], dataPoints[2], dataPoints[3]], false);
+        });
+
+        it("background click clears the selection", () => {
+            createSelector(DragSelectionMode.Rectangle);
+            let containerClick = jasmine.createSpy("containerClick");
+            container.on("click", containerClick);
+
+            $(container.select(".dragSelectionBackground").node()).d3Click(0, 0);
+
+            expect(selectionHandler.handleClearSelection).toHaveBeenCalled();
+            expect(containerClick).not.toHaveBeenCalled();
+        });
+    });
+}
@@ -0,0 +1,239 @@
+/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved. 
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *   
+ *  The above copyright notice and this permission notice shall be included in 
+ *  all copies or substantial portions of the Software.
+ *   
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR 
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, 
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE 
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER 
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+/// <reference path="../../_references.ts"/>
+
+module powerbitests {
+    import DataPointKeyboardNavigator = powerbi.visuals.DataPointKeyboardNavigator;
+    import DOMConstants = jsCommon.DOMConstants;
+    import ISelectionHandler = powerbi.visuals.ISelectionHandler;
+    import KeyboardNavigableDataPoint = powerbi.visuals.KeyboardNavigableDataPoint;
+
+    export module keyboardNavigationHelpers {
+        export function focus(element: Element): void {
+            let evt = document.createEvent("Event");
+            evt.initEvent("focus", false, false);
+            element.dispatchEvent(evt);
+        }
+
+        export function blur(element: Element): void {
+            let evt = document.createEvent("Event");
+            evt.initEvent("blur", false, false);
+            element.dispatchEvent(evt);
+        }
+
+        export function mouseDown(element: Element): void {
+            let evt = document.createEvent("MouseEvents");
+            evt.initEvent("mousedown", true, true);
+            element.dispatchEvent(evt);
+        }
+
+        export function keyDown(element: Element, keyCode: number, ctrlKey: boolean = false): Event {
+            let evt = document.createEvent("Event");
+            evt.initEvent("keydown", true, true);
+            evt["keyCode"] = keyCode;
+            evt["ctrlKey"] = ctrlKey;
+            element.dispatchEvent(evt);
+            return evt;
+        }
+    }
+
+    describe("DataPointKeyboardNavigator", () => {
+        let container: D3.Selection;
+        let circles: D3.Selection;
+        let series: KeyboardNavigableDataPoint[][];
+        let selectionHandler: ISelectionHandler;
+        let navigator: DataPointKeyboardNavigator;
+
+        function createDataPoint(seriesName: string, category: number): KeyboardNavigableDataPoint {
+            return <KeyboardNavigableDataPoint>{
+                selected: false,
+                identity: undefined,
+                tooltipInfo: [{ displayName: "Category", value: "C" + category }, { displayName: "Series", value: seriesName }],
+                categoryIndex: category,
+            };
+        }
+
+        function getFocused(): KeyboardNavigableDataPoint {
+            return navigator.getFocusedDataPoint();
+        }
+
+        beforeEach(() => {
+            let element = powerbitests.helpers.testDom("200", "300");
+            series = [
+                [createDataPoint("A", 0), createDataPoint("A", 1), createDataPoint("A", 2)],
+                [createDataPoint("B", 0), createDataPoint("B", 2)],
+            ];
+
+            container = d3.select(element[0]).append("svg");
+            circles = container.selectAll("circle")
+                .data(_.flatten(series))
+                .enter()
+                .append("circle");
+
+            selectionHandler = {
+                handleSelection: jasmine.createSpy("handleSelection").and.callFake((dataPoint: KeyboardNavigableDataPoint) => dataPoint.selected = !dataPoint.selected),
+                handleContextMenu: () => { },
+                handleClearSelection: jasmine.createSpy("handleClearSelection"),
+                toggleSelectionModeInversion: () => false,
+                persistSelectionFilter: () => { },
+                persistSelfFilter: () => { },
+            };
+
+            navigator = new DataPointKeyboardNavigator();
+            navigator.bind({
+                container: container,
+                series: series,
+                label: "Sales by month",
+                showFocus: (dataPoint: KeyboardNavigableDataPoint) => {
+                    circles.classed(DataPointKeyboardNavigator.FocusedClassName, (d) => d === dataPoint);
+                    return dataPoint ? circles.filter((d) => d === dataPoint).node() : undefined;
+                },
+                getCategoryIndex: (dataPoint: KeyboardNavigableDataPoint) => dataPoint["categoryIndex"],
+            }, selectionHandler);
+        });
+
+        it("makes the container a focusable listbox", () => {
+            expect(container.attr("tabindex")).toBe("0");
+            expect(container.attr("role")).toBe("listbox");
+            expect(container.attr("aria-multiselectable")).toBe("true");
+            expect(container.attr("aria-label")).toBe("Sales by month");
+        });
+
+        it("focus shows the first data point with its label", () => {
+            keyboardNavigationHelpers.focus(container.node());
+
+            let focused = container.select("." + DataPointKeyboardNavigator.FocusedClassName);
+            expect(focused.datum()).toBe(series[0][0]);
+            expect(focused.attr("role")).toBe("option");
+            expect(focused.attr("aria-label")).toBe("Category C0, Series A");
+            expect(focused.attr("aria-selected")).toBe("false");
+            expect(container.attr("aria-activedescendant")).toBe(focused.attr("id"));
+        });
+
+        it("blur hides the focus", () => {
+            keyboardNavigationHelpers.focus(container.node());
+            keyboardNavigationHelpers.blur(container.node());
+
+            expect(container.selectAll("." + DataPointKeyboardNavigator.FocusedClassName).size()).toBe(0);
+            expect(container.attr("aria-activedescendant")).toBeNull();
+        });
+
+        it("a click does not show the focus until a key is pressed", () => {
+            let node = container.node();
+            keyboardNavigationHelpers.mouseDown(node);
+            keyboardNavigationHelpers.focus(node);
+
+            expect(container.selectAll("." + DataPointKeyboardNavigator.FocusedClassName).size()).toBe(0);
+            expect(container.attr("aria-activedescendant")).toBeNull();
+
+            keyboardNavigationHelpers.keyDown(node, DOMConstants.rightArrowKeyCode);
+            expect(container.select("." + DataPointKeyboardNavigator.FocusedClassName).datum()).toBe(series[0][1]);
+
+            keyboardNavigationHelpers.mouseDown(node);
+            expect(container.selectAll("." + DataPointKeyboardNavigator.FocusedClassName).size()).toBe(0);
+
+            // Tabbing back in shows the focus again
+            keyboardNavigationHelpers.blur(node);
+            keyboardNavigationHelpers.focus(node);
+            expect(container.select("." + DataPointKeyboardNavigator.FocusedClassName).datum()).toBe(series[0][1]);
+        });
+
+        it("left and right arrows move across categories", () => {
+            let node = container.node();
+            keyboardNavigationHelpers.focus(node);
+
+            keyboardNavigationHelpers.keyDown(node, DOMConstants.rightArrowKeyCode);
+            expect(getFocused()).toBe(series[0][1]);
+
+            keyboardNavigationHelpers.keyDown(node, DOMConstants.endKeyCode);
+            expect(getFocused()).toBe(series[0][2]);
+
+            // Stays on the last data point
+            keyboardNavigationHelpers.keyDown(node, DOMConstants.rightArrowKeyCode);
+            expect(getFocused()).toBe(series[0][2]);
+
+            keyboardNavigationHelpers.keyDown(node, DOMConstants.leftArrowKeyCode);
+            expect(getFocused()).toBe(series[0][1]);
+
+            keyboardNavigationHelpers.keyDown(node, DOMConstants.homeKeyCode);
+            expect(getFocused()).toBe(series[0][0]);
+        });
+
+        it("up and down arrows move across series to the closest category", () => {
+            let node = container.node();
+            keyboardNavigationHelpers.focus(node);
+            keyboardNavigationHelpers.keyDown(node, DOMConstants.endKeyCode);
+
+            let evt = keyboardNavigationHelpers.keyDown(node, DOMConstants.downArrowKeyCode);
+            expect(getFocused()).toBe(series[1][1]);
+            expect(evt.defaultPrevented).toBe(true);
+
+            keyboardNavigationHelpers.keyDown(node, DOMConstants.downArrowKeyCode);
+            expect(getFocused()).toBe(series[1][1]);
+
+            keyboardNavigationHelpers.keyDown(node, DOMConstants.upArrowKeyCode);
+            expect(getFocused()).toBe(series[0][2]);
+        });
+
+        it("enter and space select the focused data point", () => {
+            let node = container.node();
+            keyboardNavigationHelpers.focus(node);
+
+            keyboardNavigationHelpers.keyDown(node, DOMConstants.enterKeyCode);
+            expect(selectionHandler.handleSelection).toHaveBeenCalledWith(series[0][0], false);
+            expect(container.select("." + DataPointKeyboardNavigator.FocusedClassName).attr("aria-selected")).toBe("true");
+
+            keyboardNavigationHelpers.keyDown(node, DOMConstants.rightArrowKeyCode);
+            keyboardNavigationHelpers.keyDown(node, DOMConstants.spaceKeyCode, true);
+            expect(selectionHandler.handleSelection).toHaveBeenCalledWith(series[0][1], true);
+        });
+
+        it("escape clears the selection", () => {
+            let node = container.node();
+            keyboardNavigationHelpers.focus(node);
+
+            keyboardNavigationHelpers.keyDown(node, DOMConstants.escKeyCode);
+
+            expect(selectionHandler.handleClearSelection).toHaveBeenCalled();
+        });
+
+        it("other keys are not handled", () => {
+            let node = container.node();
+            keyboardNavigationHelpers.focus(node);
+
+            let evt = keyboardNavigationHelpers.keyDown(node, DOMConstants.tabKeyCode);
+
+            expect(evt.defaultPrevented).toBe(false);
+            expect(getFocused()).toBe(series[0][0]);
+        });
+
+        it("getLabel", () => {
+            expect(DataPointKeyboardNavigator.getLabel(series[1][0])).toBe("Category C0, Series B");
+            expect(DataPointKeyboardNavigator.getLabel({ selected: false, identity: undefined })).toBeUndefined();
+        });
+    });
+}
@@ -0,0 +1,153 @@
+/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved. 
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *   
+ *  The above copyright notice and this permission notice shall be included in 
+ *  all copies or substantial portions of the Software.
+ *   
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR 
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, 
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE 
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER 
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+/// <reference path="../../_references.ts"/>
+
+module powerbitests {
+    import ColorHelper = powerbi.visuals.ColorHelper;
+    import HighContrastColors = powerbi.visuals.HighContrastColors;
+    import HighContrastHelper = powerbi.visuals.HighContrastHelper;
+    import LegendIcon = powerbi.visuals.LegendIcon;
+    import visualStyles = powerbi.visuals.visualStyles;
+
+    describe("HighContrastHelper", () => {
+        let colors: HighContrastColors = { foreground: "#ffff00", background: "#000000" };
+
+        describe("getColors", () => {
+            it("returns nothing for the default style", () => {
+                expect(HighContrastHelper.getColors(visualStyles.create())).toBeUndefined();
+            });
+
+            it("returns the foreground and background of a high contrast style", () => {
+                let style = visualStyles.createHighContrast("#ffff00", "#000000");
+
+                expect(style.isHighContrast).toBe(true);
+                expect(style.labelText.color.value).toBe("#ffff00");
+                expect(HighContrastHelper.getColors(style)).toEqual(colors);
+            });
+        });
+
+        describe("patterns", () => {
+            let svg: D3.Selection;
+
+            beforeEach(() => {
+                svg = d3.select(helpers.testDom("100", "100")[0]).append("svg");
+            });
+
+            it("defines each pattern once", () => {
+                let fill = HighContrastHelper.getPatternFill(svg, 1, colors);
+
+                expect(fill).toMatch(/^url\(#.+-1\)$/);
+                expect(HighContrastHelper.getPatternFill(svg, 1, colors)).toBe(fill);
+                expect(HighContrastHelper.getPatternFill(svg, 1 + HighContrastHelper.PatternCount, colors)).toBe(fill);
+                expect(svg.selectAll("defs").size()).toBe(1);
+                expect(svg.selectAll("pattern").size()).toBe(1);
+            });
+
+            it("draws the pattern with the foreground over the background", () => {
+                HighContrastHelper.getPatternFill(svg, 1, colors);
+
+                helpers.assertColorsMatch(svg.select("pattern rect").style("fill"), "#000000");
+                helpers.assertColorsMatch(svg.select("pattern path").style("stroke"), "#ffff00");
+            });
+
+            it("fills shapes by their index", () => {
+                let shapes = svg.selectAll("rect.shape").data([2, 0, 2]);
+                shapes.enter().append("rect").classed("shape", true);
+
+                HighContrastHelper.applyPatternFills(shapes, svg, colors, (d: number) => d);
+
+                let fills = $(svg.node()).find("rect.shape").map((i, e) => $(e).css("fill")).get();
+                expect(fills[0]).toBe(fills[2]);
+                expect(fills[0]).not.toBe(fills[1]);
+                expect(svg.selectAll("pattern").size()).toBe(2);
+            });
+
+            it("tells lines apart by their dash array", () => {
+                expect(HighContrastHelper.getStrokeDashArray(0)).toBeNull();
+                expect(HighContrastHelper.getStrokeDashArray(1)).not.toBe(HighContrastHelper.getStrokeDashArray(2));
+            });
+        });
+
+        it("ColorHelper returns the foreground", () => {
+            let fillProp = <powerbi.DataViewObjectPropertyIdentifier>{ objectName: "dataPoint", propertyName: "fill" };
+            let colorHelper = new ColorHelper(new powerbi.visuals.DataColorPalette(), fillProp, undefined, colors);
+            let objects: powerbi.DataViewObjects = {
+                dataPoint: {
+                    fill: { solid: { color: "red" } }
+                }
+            };
+
+            expect(colorHelper.getColorForSeriesValue(objects, undefined, "value")).toBe("#ffff00");
+            expect(colorHelper.getColorForMeasure(undefined, "sales")).toBe("#ffff00");
+        });
+
+        it("legend icons are filled with patterns", (done) => {
+            let element = helpers.testDom("500", "500");
+            let legend = powerbi.visuals.createLegend(element, false, null, true);
+            legend.drawLegend({
+                dataPoints: [
+                    { label: "California", color: "#ff0000", icon: LegendIcon.Box, identity: powerbi.visuals.SelectionId.createWithId(mocks.dataViewScopeIdentity("California")), selected: false },
+                    { label: "Texas", color: "#0000ff", icon: LegendIcon.Box, identity: powerbi.visuals.SelectionId.createWithId(mocks.dataViewScopeIdentity("Texas")), selected: false },
+                ],
+                highContrastColors: colors,
+            }, { height: 500, width: 500 });
+
+            setTimeout(() => {
+                let icons = element.find(".legendIcon");
+                expect(icons.length).toBe(2);
+                expect(icons.eq(0).css("fill")).toMatch(/url\(.*-0"?\)/);
+                expect(icons.eq(1).css("fill")).toMatch(/url\(.*-1"?\)/);
+                helpers.assertColorsMatch(element.find(".legendText").first().css("fill"), "#ffff00");
+                done();
+            }, DefaultWaitForRender);
+        });
+
+        it("legend icons of lines are dashed like their lines", (done) => {
+            let element = helpers.testDom("500", "500");
+            let legend = powerbi.visuals.createLegend(element, false, null, true);
+            legend.drawLegend({
+                dataPoints: [
+                    { label: "Sales", color: "#ff0000", icon: LegendIcon.Box, identity: powerbi.visuals.SelectionId.createWithId(mocks.dataViewScopeIdentity("Sales")), selected: false },
+                    { label: "California", color: "#ff0000", icon: LegendIcon.Line, identity: powerbi.visuals.SelectionId.createWithId(mocks.dataViewScopeIdentity("California")), selected: false, highContrastIndex: 0 },
+                    { label: "Texas", color: "#0000ff", icon: LegendIcon.Line, identity: powerbi.visuals.SelectionId.createWithId(mocks.dataViewScopeIdentity("Texas")), selected: false, highContrastIndex: 1 },
+                ],
+                highContrastColors: colors,
+            }, { height: 500, width: 500 });
+
+            setTimeout(() => {
+                let icons = element.find(".legendIcon");
+                expect(icons.length).toBe(3);
+                expect(icons[0].style.strokeDasharray).toBeFalsy();
+                expect(icons[1].style.strokeDasharray).toBeFalsy();
+                expect(icons.eq(1).css("fill")).toMatch(/url\(.*-0"?\)/);
+                expect(icons[2].style.strokeDasharray.replace(/px|\s/g, "")).toBe(HighContrastHelper.getStrokeDashArray(1));
+                expect(icons.eq(2).css("fill")).toMatch(/url\(.*-1"?\)/);
+                done();
+            }, DefaultWaitForRender);
+        });
+    });
+}
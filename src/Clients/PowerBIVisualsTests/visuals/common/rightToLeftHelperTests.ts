@@ -0,0 +1,67 @@
+/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved. 
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *   
+ *  The above copyright notice and this permission notice shall be included in 
+ *  all copies or substantial portions of the Software.
+ *   
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR 
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, 
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE 
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER 
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+/// <reference path="../../_references.ts"/>
+
+module powerbitests {
+    import RightToLeftHelper = powerbi.visuals.RightToLeftHelper;
+
+    describe("RightToLeftHelper", () => {
+        describe("isRightToLeftLocale", () => {
+            it("detects right-to-left languages", () => {
+                expect(RightToLeftHelper.isRightToLeftLocale("ar-SA")).toBe(true);
+                expect(RightToLeftHelper.isRightToLeftLocale("he-IL")).toBe(true);
+                expect(RightToLeftHelper.isRightToLeftLocale("fa")).toBe(true);
+                expect(RightToLeftHelper.isRightToLeftLocale("UR_pk")).toBe(true);
+            });
+
+            it("ignores left-to-right languages", () => {
+                expect(RightToLeftHelper.isRightToLeftLocale("en-US")).toBe(false);
+                expect(RightToLeftHelper.isRightToLeftLocale("hr-HR")).toBe(false);
+                expect(RightToLeftHelper.isRightToLeftLocale("")).toBe(false);
+                expect(RightToLeftHelper.isRightToLeftLocale(undefined)).toBe(false);
+            });
+        });
+
+        describe("isRightToLeft", () => {
+            it("uses the host locale", () => {
+                let host = mocks.createVisualHostServices();
+                host.locale = () => "he-IL";
+                expect(RightToLeftHelper.isRightToLeft(host)).toBe(true);
+
+                host.locale = () => "en-US";
+                expect(RightToLeftHelper.isRightToLeft(host)).toBe(false);
+            });
+
+            it("defaults to left-to-right without a host locale", () => {
+                let host = mocks.createVisualHostServices();
+                host.locale = undefined;
+                expect(RightToLeftHelper.isRightToLeft(host)).toBe(false);
+                expect(RightToLeftHelper.isRightToLeft(undefined)).toBe(false);
+            });
+        });
+    });
+}
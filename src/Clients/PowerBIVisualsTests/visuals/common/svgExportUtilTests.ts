@@ -0,0 +1,199 @@
+/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved. 
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *   
+ *  The above copyright notice and this permission notice shall be included in 
+ *  all copies or substantial portions of the Software.
+ *   
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR 
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, 
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE 
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER 
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+/// <reference path="../../_references.ts"/>
+
+module powerbitests {
+    import SVGExportUtil = powerbi.visuals.SVGExportUtil;
+
+    describe("SVGExportUtil", () => {
+        let element: JQuery;
+
+        beforeEach(() => {
+            element = powerbitests.helpers.testDom("200", "300");
+        });
+
+        function exportSvg(options?: powerbi.visuals.SVGExportOptions): JQueryPromise<JQuery> {
+            return SVGExportUtil.exportSvg(element[0], options)
+                .then((svg: string) => $($.parseXML(svg).documentElement));
+        }
+
+        function appendSvg(parent: JQuery): D3.Selection {
+            return d3.select(parent[0])
+                .append("svg")
+                .attr({ width: 100, height: 50 })
+                .style({ width: "100px", height: "50px" });
+        }
+
+        it("exports an image of the size of the element", (done) => {
+            exportSvg().then((svg) => {
+                expect(svg[0].nodeName).toBe("svg");
+                expect(svg[0].namespaceURI).toBe("http://www.w3.org/2000/svg");
+                expect(svg.attr("width")).toBe("300");
+                expect(svg.attr("height")).toBe("200");
+                expect(svg.attr("viewBox")).toBe("0 0 300 200");
+                done();
+            });
+        });
+
+        it("exports an image of the given size with a background", (done) => {
+            exportSvg({ viewport: { width: 50, height: 40 }, background: "#ffffff" }).then((svg) => {
+                expect(svg.attr("width")).toBe("50");
+                expect(svg.children("rect").attr("fill")).toBe("#ffffff");
+                done();
+            });
+        });
+
+        it("nests the svg elements with their styles inlined", (done) => {
+            let chart = appendSvg(element);
+            chart.append("rect")
+                .classed("column", true)
+                .attr({ width: 10, height: 20 })
+                .style({ fill: "rgb(1, 184, 170)", "stroke-width": "2px" });
+            chart.append("text")
+                .text("label")
+                .style("font-size", "11px");
+            let rectStyle = element.find("rect.column").attr("style");
+
+            exportSvg().then((svg) => {
+                let nestedSvg = svg.children("svg");
+
+                expect(nestedSvg.length).toBe(1);
+                expect(nestedSvg.attr("width")).toBe("100");
+                expect(nestedSvg.attr("height")).toBe("50");
+
+                let rect = nestedSvg.find("rect.column");
+                expect(rect.attr("style")).toContain("fill:rgb(1, 184, 170)");
+                expect(rect.attr("style")).toContain("stroke-width:2px");
+                expect(nestedSvg.find("text").attr("style")).toContain("font-size:11px");
+
+                // The visual itself is not modified
+                expect(element.find("rect.column").attr("style")).toBe(rectStyle);
+                done();
+            });
+        });
+
+        it("renders HTML content through a foreignObject", (done) => {
+            $("<div class='card'>")
+                .css({ width: "120px", height: "40px", color: "rgb(255, 0, 0)" })
+                .append($("<span>").text("Sales"))
+                .appendTo(element);
+
+            exportSvg().then((svg) => {
+                let foreignObject = svg.children("foreignObject");
+
+                expect(foreignObject.length).toBe(1);
+                expect(foreignObject.attr("width")).toBe("120");
+                expect(foreignObject.attr("height")).toBe("40");
+
+                let card = foreignObject.children("div");
+                expect(card[0].namespaceURI).toBe("http://www.w3.org/1999/xhtml");
+                expect(card.attr("style")).toContain("color: rgb(255, 0, 0)");
+                expect(card.find("span").text()).toBe("Sales");
+                done();
+            });
+        });
+
+        it("inlines only the HTML styles that differ from the defaults", (done) => {
+            $("<div class='card'>")
+                .css({ width: "120px", height: "40px", color: "rgb(255, 0, 0)", "padding-left": "5px" })
+                .append($("<span>").text("Sales"))
+                .appendTo(element);
+
+            exportSvg().then((svg) => {
+                let card = svg.find("foreignObject > div");
+                expect(card.attr("style")).toContain("padding-left: 5px");
+                expect(card.attr("style")).not.toContain("padding-right");
+                expect(card.attr("style")).not.toContain("float");
+
+                // The color is inherited from the card
+                expect(card.find("span").attr("style")).not.toMatch(/(^|;)\s*color:/);
+                done();
+            });
+        });
+
+        it("embeds the font files as data URIs", (done) => {
+            let fontFaceStyle = $("<style>")
+                .text("@font-face { font-family: 'ExportTestFont'; src: url('fonts/exportTest.woff') format('woff'); }")
+                .appendTo("head");
+            $("<div>")
+                .css({ width: "100px", height: "20px", "font-family": "ExportTestFont" })
+                .text("Sales")
+                .appendTo(element);
+
+            let requestedUrls: string[] = [];
+            spyOn(window, "XMLHttpRequest").and.callFake(() => {
+                return {
+                    open: (method: string, url: string) => requestedUrls.push(url),
+                    send: function () {
+                        this.status = 200;
+                        this.response = new Uint8Array([0, 1, 2]).buffer;
+                        this.onload();
+                    },
+                    getResponseHeader: () => "font/woff",
+                };
+            });
+
+            exportSvg().then((svg) => {
+                expect(requestedUrls.length).toBe(1);
+                expect(requestedUrls[0]).toMatch(/fonts\/exportTest\.woff$/);
+
+                let fontFaceRules = svg.find("defs style").text();
+                expect(fontFaceRules).toContain("data:font/woff;base64,AAEC");
+                expect(fontFaceRules).not.toContain("exportTest.woff");
+
+                fontFaceStyle.remove();
+                done();
+            });
+        });
+
+        it("skips the wrappers of svg elements", (done) => {
+            let wrapper = $("<div>").appendTo(element);
+            appendSvg(wrapper);
+            appendSvg(wrapper);
+
+            exportSvg().then((svg) => {
+                expect(svg.children("foreignObject").length).toBe(0);
+                expect(svg.children("svg").length).toBe(2);
+                done();
+            });
+        });
+
+        it("excludes hidden elements and the legend navigation arrows", (done) => {
+            appendSvg(element).style("display", "none");
+            let legend = appendSvg(element).classed("legend", true);
+            legend.append("g").classed("navArrow", true);
+            legend.append("g").classed("legendItem", true);
+
+            exportSvg().then((svg) => {
+                expect(svg.children("svg").length).toBe(1);
+                expect(svg.find(".legendItem").length).toBe(1);
+                expect(svg.find(".navArrow").length).toBe(0);
+                done();
+            });
+        });
+    });
+}
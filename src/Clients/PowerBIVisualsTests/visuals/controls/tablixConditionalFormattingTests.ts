@@ -0,0 +1,341 @@
+/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved. 
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *   
+ *  The above copyright notice and this permission notice shall be included in 
+ *  all copies or substantial portions of the Software.
+ *   
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR 
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, 
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE 
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER 
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+/// <reference path="../../_references.ts"/>
+
+module powerbitests {
+    import DataView = powerbi.DataView;
+    import DataViewMetadataColumn = powerbi.DataViewMetadataColumn;
+    import DataViewObjects = powerbi.DataViewObjects;
+    import PrimitiveType = powerbi.PrimitiveType;
+    import TablixConditionalFormatting = powerbi.visuals.controls.internal.TablixConditionalFormatting;
+    import TablixType = powerbi.visuals.controls.TablixType;
+    import TablixUtils = powerbi.visuals.controls.internal.TablixUtils;
+    import ValueType = powerbi.ValueType;
+
+    const dataTypeNumber = ValueType.fromPrimitiveTypeAndCategory(PrimitiveType.Double);
+    const dataTypeString = ValueType.fromPrimitiveTypeAndCategory(PrimitiveType.Text);
+
+    function createTableDataView(objects?: DataViewObjects): DataView {
+        let groupSource: DataViewMetadataColumn = { displayName: "region", queryName: "region", type: dataTypeString, index: 0 };
+        let measureSource: DataViewMetadataColumn = { displayName: "profit", queryName: "profit", type: dataTypeNumber, isMeasure: true, index: 1, objects: objects };
+
+        return {
+            metadata: { columns: [groupSource, measureSource] },
+            table: {
+                columns: [groupSource, measureSource],
+                rows: [
+                    ["North", -50],
+                    ["South", 0],
+                    ["East", 100],
+                    ["West", 150],
+                ],
+            },
+        };
+    }
+
+    function createMatrixDataView(objects?: DataViewObjects): DataView {
+        let rowGroupSource: DataViewMetadataColumn = { displayName: "region", queryName: "region", type: dataTypeString, index: 0 };
+        let measureSource: DataViewMetadataColumn = { displayName: "profit", queryName: "profit", type: dataTypeNumber, isMeasure: true, index: 1, objects: objects };
+
+        return {
+            metadata: { columns: [rowGroupSource, measureSource] },
+            matrix: {
+                rows: {
+                    root: {
+                        children: [
+                            { level: 0, levelValues: [{ value: "North", levelSourceIndex: 0 }], values: { 0: { value: 10 } } },
+                            { level: 0, levelValues: [{ value: "South", levelSourceIndex: 0 }], values: { 0: { value: 20 } } },
+                            { level: 0, levelValues: [{ value: "East", levelSourceIndex: 0 }], values: { 0: { value: 30 } } },
+                            { level: 0, isSubtotal: true, values: { 0: { value: 60 } } },
+                        ]
+                    },
+                    levels: [{ sources: [rowGroupSource] }],
+                },
+                columns: {
+                    root: {
+                        children: [{ level: 0 }]
+                    },
+                    levels: [{ sources: [measureSource] }],
+                },
+                valueSources: [measureSource],
+            },
+        };
+    }
+
+    describe("TablixConditionalFormatting", () => {
+        describe("Capabilities", () => {
+            it("exposes the conditional formatting objects on Table and Matrix", () => {
+                for (let capabilities of [powerbi.visuals.tableCapabilities, powerbi.visuals.matrixCapabilities]) {
+                    expect(capabilities.objects["backColorScale"]).toBeDefined();
+                    expect(capabilities.objects["fontColorScale"]).toBeDefined();
+                    expect(capabilities.objects["dataBars"]).toBeDefined();
+                    expect(capabilities.objects["iconSet"].properties["style"]).toBeDefined();
+                }
+            });
+        });
+
+        describe("Table", () => {
+            it("no formatting without objects", () => {
+                expect(TablixConditionalFormatting.getTableConditionalFormatting(createTableDataView())).toEqual({});
+            });
+
+            it("background color scale spans the column values", () => {
+                let objects: DataViewObjects = {
+                    backColorScale: {
+                        show: true,
+                        minColor: { solid: { color: "#ff0000" } },
+                        maxColor: { solid: { color: "#00ff00" } },
+                    }
+                };
+                let formatting = TablixConditionalFormatting.getTableConditionalFormatting(createTableDataView(objects));
+                let scale = formatting["profit"].backColorScale;
+
+                expect(scale.color(-50)).toBe("#ff0000");
+                expect(scale.color(150)).toBe("#00ff00");
+                expect(scale.color(50)).toBe("#808000");
+                expect(formatting["profit"].fontColorScale).toBeUndefined();
+            });
+
+            it("diverging font color scale goes through the mid color", () => {
+                let objects: DataViewObjects = {
+                    fontColorScale: {
+                        show: true,
+                        diverging: true,
+                        minColor: { solid: { color: "#ff0000" } },
+                        midColor: { solid: { color: "#ffff00" } },
+                        maxColor: { solid: { color: "#00ff00" } },
+                    }
+                };
+                let formatting = TablixConditionalFormatting.getTableConditionalFormatting(createTableDataView(objects));
+
+                expect(formatting["profit"].fontColorScale.color(50)).toBe("#ffff00");
+            });
+
+            it("data bars and icon sets keep the column range", () => {
+                let objects: DataViewObjects = {
+                    dataBars: { show: true },
+                    iconSet: { show: true, style: powerbi.visuals.iconSetStyle.arrows },
+                };
+                let formatting = TablixConditionalFormatting.getTableConditionalFormatting(createTableDataView(objects))["profit"];
+
+                expect(formatting.dataBars).toEqual({
+                    min: -50,
+                    max: 150,
+                    positiveColor: "#5B9BD5",
+                    negativeColor: "#F8696B",
+                    axisColor: "#666",
+                });
+                expect(formatting.iconSet).toEqual({
+                    min: -50,
+                    max: 150,
+                    style: "arrows",
+                    lowerThreshold: 33,
+                    upperThreshold: 67,
+                });
+            });
+
+            it("enumerates one instance per numeric column", () => {
+                let enumeration = new powerbi.visuals.ObjectEnumerationBuilder();
+                TablixConditionalFormatting.enumerateObjectInstances(enumeration, "dataBars", createTableDataView({ dataBars: { show: true } }), TablixType.Table);
+                let instances = (<powerbi.VisualObjectInstanceEnumerationObject>enumeration.complete()).instances;
+
+                expect(instances.length).toBe(1);
+                expect(instances[0].selector).toEqual({ metadata: "profit" });
+                expect(instances[0].displayName).toBe("profit");
+                expect(instances[0].properties["show"]).toBe(true);
+            });
+        });
+
+        describe("Matrix", () => {
+            it("leaves subtotals out of the range", () => {
+                let formatting = TablixConditionalFormatting.getMatrixConditionalFormatting(createMatrixDataView({ dataBars: { show: true } }));
+
+                expect(formatting["profit"].dataBars.min).toBe(10);
+                expect(formatting["profit"].dataBars.max).toBe(30);
+            });
+
+            it("enumerates the value sources", () => {
+                let enumeration = new powerbi.visuals.ObjectEnumerationBuilder();
+                TablixConditionalFormatting.enumerateObjectInstances(enumeration, "iconSet", createMatrixDataView(), TablixType.Matrix);
+                let instances = (<powerbi.VisualObjectInstanceEnumerationObject>enumeration.complete()).instances;
+
+                expect(instances.length).toBe(1);
+                expect(instances[0].selector).toEqual({ metadata: "profit" });
+                expect(instances[0].properties["style"]).toBe("trafficLights");
+            });
+        });
+
+        describe("Data bars", () => {
+            it("start at the left edge for positive values", () => {
+                expect(TablixConditionalFormatting.getDataBarGeometry(50, 0, 200)).toEqual({ left: 0, width: 25 });
+            });
+
+            it("start at the right edge for negative values", () => {
+                expect(TablixConditionalFormatting.getDataBarGeometry(-50, -200, -100)).toEqual({ left: 75, width: 25 });
+            });
+
+            it("grow from the axis for mixed values", () => {
+                expect(TablixConditionalFormatting.getDataBarGeometry(50, -50, 150)).toEqual({ left: 25, width: 25, axis: 25 });
+                expect(TablixConditionalFormatting.getDataBarGeometry(-50, -50, 150)).toEqual({ left: 0, width: 25, axis: 25 });
+            });
+        });
+
+        describe("Icon sets", () => {
+            let iconSet: powerbi.visuals.controls.TablixIconSetFormatting = {
+                min: 0,
+                max: 100,
+                style: "trafficLights",
+                lowerThreshold: 33,
+                upperThreshold: 67,
+            };
+
+            it("pick the state from the thresholds", () => {
+                expect(TablixConditionalFormatting.getIconState(iconSet, 10)).toBe(-1);
+                expect(TablixConditionalFormatting.getIconState(iconSet, 33)).toBe(0);
+                expect(TablixConditionalFormatting.getIconState(iconSet, 67)).toBe(1);
+            });
+
+            it("reuse the KPI status graphics", () => {
+                let kpi: powerbi.DataViewKpiColumnMetadata = { graphic: TablixConditionalFormatting.getIconGraphic("flags") };
+                expect(powerbi.visuals.KpiUtil.getClassForKpi(kpi, 1)).toBe("powervisuals-glyph flag kpi-green");
+            });
+        });
+
+        describe("Binders", () => {
+            let appliedStyle: TablixUtils.CellStyle;
+
+            function createCell(item: TablixUtils.TablixVisualCell): powerbi.visuals.controls.ITablixCell {
+                return {
+                    type: null, item: null, colSpan: 0, rowSpan: 0, textAlign: "",
+                    extension: new powerbi.visuals.controls.internal.TablixCellPresenter(false, powerbi.visuals.controls.TablixLayoutKind.Canvas),
+                    position: item.position,
+                    contentHeight: 0, contentWidth: 0, applyStyle: (style: TablixUtils.CellStyle) => { appliedStyle = style; }, unfixRowHeight: function () { },
+                    containerHeight: 0, containerWidth: 0
+                };
+            }
+
+            beforeEach(() => {
+                appliedStyle = undefined;
+            });
+
+            it("Table renders data bars, icons and color scales", () => {
+                let objects: DataViewObjects = {
+                    backColorScale: {
+                        show: true,
+                        minColor: { solid: { color: "#ff0000" } },
+                        maxColor: { solid: { color: "#00ff00" } },
+                    },
+                    dataBars: { show: true },
+                    iconSet: { show: true },
+                };
+                let visualTable = powerbi.visuals.Table.converter(createTableDataView(objects));
+                let navigator = new powerbi.visuals.TableHierarchyNavigator(visualTable, true, powerbi.visuals.valueFormatter.formatVariantMeasureValue);
+                let binder = new powerbi.visuals.TableBinder({ layoutKind: powerbi.visuals.controls.TablixLayoutKind.Canvas }, visualTable);
+
+                let item = navigator.getIntersection(visualTable.visualRows[0], visualTable.columns[1]);
+                let cell = createCell(item);
+                binder.bindBodyCell(item, cell);
+
+                let contentHost = $(cell.extension.contentHost);
+                expect(contentHost.hasClass("tablixValueDataBar")).toBe(true);
+                expect(contentHost.find(".tablixDataBar").length).toBe(1);
+                expect(contentHost.find(".tablixDataBarAxis").length).toBe(1);
+                expect(contentHost.find(".tablixConditionalIcon").hasClass("kpi-red")).toBe(true);
+                expect(contentHost.text()).toBe("-50.00");
+                expect(appliedStyle.backColor).toBe("#ff0000");
+            });
+
+            it("Table leaves columns without rules untouched", () => {
+                let visualTable = powerbi.visuals.Table.converter(createTableDataView());
+                let navigator = new powerbi.visuals.TableHierarchyNavigator(visualTable, true, powerbi.visuals.valueFormatter.formatVariantMeasureValue);
+                let binder = new powerbi.visuals.TableBinder({ layoutKind: powerbi.visuals.controls.TablixLayoutKind.Canvas }, visualTable);
+
+                let item = navigator.getIntersection(visualTable.visualRows[3], visualTable.columns[1]);
+                let cell = createCell(item);
+                binder.bindBodyCell(item, cell);
+
+                expect(cell.extension.contentHost.children.length).toBe(0);
+                expect(appliedStyle.backColor).toBeUndefined();
+            });
+
+            it("Matrix formats values but not subtotals", () => {
+                let dataView = createMatrixDataView({
+                    dataBars: { show: true },
+                    fontColorScale: { show: true, minColor: { solid: { color: "#ff0000" } }, maxColor: { solid: { color: "#00ff00" } } },
+                });
+                let navigator = powerbi.visuals.createMatrixHierarchyNavigator(dataView.matrix, true, powerbi.visuals.valueFormatter.formatVariantMeasureValue, ", ");
+                let binder = new powerbi.visuals.MatrixBinder(navigator, {});
+                binder.onDataViewChanged(powerbi.visuals.Matrix.converter(dataView));
+
+                let rows = dataView.matrix.rows.root.children;
+                let measure = dataView.matrix.columns.root.children[0];
+
+                let item = navigator.getIntersection(rows[2], measure);
+                let cell = createCell(item);
+                binder.bindBodyCell(item, cell);
+                expect($(cell.extension.contentHost).find(".tablixDataBar").length).toBe(1);
+                expect(appliedStyle.fontColor).toBe("#00ff00");
+
+                let subtotal = navigator.getIntersection(rows[3], measure);
+                let subtotalCell = createCell(subtotal);
+                binder.bindBodyCell(subtotal, subtotalCell);
+                expect($(subtotalCell.extension.contentHost).find(".tablixDataBar").length).toBe(0);
+                expect(appliedStyle.fontColor).not.toBe("#00ff00");
+            });
+        });
+
+        describe("High contrast", () => {
+            let colors: powerbi.visuals.HighContrastColors = { foreground: "#ffff00", background: "#000000" };
+
+            it("Table drops color scales and uses the theme colors", () => {
+                let objects: DataViewObjects = {
+                    backColorScale: { show: true },
+                    dataBars: { show: true },
+                };
+                let formattingProperties = powerbi.visuals.Table.converter(createTableDataView(objects), colors).formattingProperties;
+                let columnFormatting = formattingProperties.conditionalFormatting["profit"];
+
+                expect(columnFormatting.backColorScale).toBeUndefined();
+                expect(columnFormatting.dataBars.positiveColor).toBe("#ffff00");
+                expect(formattingProperties.grid.outlineColor).toBe("#ffff00");
+                expect(formattingProperties.columnHeaders.fontColor).toBe("#ffff00");
+                expect(formattingProperties.values.fontColorSecondary).toBe("#ffff00");
+                expect(formattingProperties.values.backColorPrimary).toBe("#000000");
+                expect(formattingProperties.total.backColor).toBe("#000000");
+            });
+
+            it("Matrix uses the theme colors for all regions", () => {
+                let formattingProperties = powerbi.visuals.Matrix.converter(createMatrixDataView(), colors);
+
+                expect(formattingProperties.rowHeaders.fontColor).toBe("#ffff00");
+                expect(formattingProperties.subtotals.fontColor).toBe("#ffff00");
+                expect(formattingProperties.grandTotal.backColor).toBe("#000000");
+                expect(formattingProperties.grid.gridHorizontalColor).toBe("#ffff00");
+            });
+        });
+    });
+}
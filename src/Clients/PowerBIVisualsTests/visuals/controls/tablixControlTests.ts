@@ -388,6 +388,69 @@ module powerbitests {
             }
         });
 
+        describe("Frozen columns", () => {
+            let tablixControl: Controls.TablixControl;
+            let columnDimension: Controls.TablixColumnDimension;
+
+            beforeEach(() => {
+                let navigator = createMockNavigator();
+                navigator.getLeafCount = (hierarchy: any[]): number => hierarchy.length;
+                navigator.getLeafAt = (hierarchy: any[], index: number): any => hierarchy[index];
+                navigator.getLevel = (item: any): number => 0;
+                navigator.getParent = (item: any): any => null;
+
+                tablixControl = createTablixControlWithNavigator(navigator);
+                tablixControl.updateModels(true, [], ["a", "b", "c", "d", "e"]);
+                columnDimension = tablixControl.columnDimension;
+            });
+
+            it("excludes frozen leaves from the scrollable items", () => {
+                expect(columnDimension.getFrozenItemsCount()).toBe(0);
+                expect(columnDimension.getItemsCount()).toBe(5);
+
+                tablixControl.frozenColumnCount = 2;
+
+                expect(columnDimension.getFrozenItemsCount()).toBe(2);
+                expect(columnDimension.getItemsCount()).toBe(3);
+            });
+
+            it("keeps at least one column scrollable", () => {
+                tablixControl.frozenColumnCount = 10;
+
+                expect(columnDimension.getFrozenItemsCount()).toBe(4);
+                expect(columnDimension.getItemsCount()).toBe(1);
+            });
+
+            it("ignores frozen columns for nested column hierarchies", () => {
+                tablixControl.frozenColumnCount = 2;
+                columnDimension.modelDepth = 2;
+
+                expect(columnDimension.getFrozenItemsCount()).toBe(0);
+                expect(columnDimension.getItemsCount()).toBe(5);
+            });
+
+            it("realizes scrollable leaves after the frozen ones", () => {
+                tablixControl.frozenColumnCount = 2;
+                columnDimension.scrollOffset = 1.5;
+
+                expect(columnDimension.getRealizedLeafIndex(0)).toBe(0);
+                expect(columnDimension.getRealizedLeafIndex(1)).toBe(1);
+                expect(columnDimension.getRealizedLeafIndex(2)).toBe(3);
+                expect(columnDimension.getRealizedLeafIndex(3)).toBe(4);
+
+                columnDimension._onStartRenderingIteration();
+                expect(columnDimension.getFirstVisibleItem(0)).toBe("d");
+            });
+
+            it("does not affect the row dimension", () => {
+                tablixControl.frozenColumnCount = 2;
+                tablixControl.updateModels(true, ["r1", "r2", "r3"], ["a", "b", "c", "d", "e"]);
+
+                expect(tablixControl.rowDimension.getFrozenItemsCount()).toBe(0);
+                expect(tablixControl.rowDimension.getItemsCount()).toBe(3);
+            });
+        });
+
         describe("Scrollbar", () => {
 
             let scrollbar: Controls.Scrollbar;
@@ -447,6 +510,20 @@ module powerbitests {
             return new Controls.TablixControl(createMockNavigator(), layoutManager, tableBinder, parentElement, tablixOptions);
         }
 
+        function createTablixControlWithNavigator(navigator: Controls.ITablixHierarchyNavigator): Controls.TablixControl {
+            let tableBinder = createMockBinder();
+            let layoutManager = InternalControls.CanvasTablixLayoutManager.createLayoutManager(tableBinder, createMockColumnWidthManager());
+
+            parentElement = document.createElement("div");
+
+            let tablixOptions: Controls.TablixOptions = {
+                interactive: true,
+                enableTouchSupport: false,
+                layoutKind: Controls.TablixLayoutKind.Canvas
+            };
+            return new Controls.TablixControl(navigator, layoutManager, tableBinder, parentElement, tablixOptions);
+        }
+
         function createTablixControlWithOptions(options: Controls.TablixOptions): Controls.TablixControl {
             let tableBinder = createMockBinder();
             let layoutManager = InternalControls.CanvasTablixLayoutManager.createLayoutManager(tableBinder, createMockColumnWidthManager());
@@ -0,0 +1,296 @@
+/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved. 
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *   
+ *  The above copyright notice and this permission notice shall be included in 
+ *  all copies or substantial portions of the Software.
+ *   
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR 
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, 
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE 
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER 
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+/// <reference path="../../_references.ts"/>
+
+module powerbitests {
+    import DataViewMetadataColumn = powerbi.DataViewMetadataColumn;
+    import PrimitiveType = powerbi.PrimitiveType;
+    import PrimitiveValue = powerbi.PrimitiveValue;
+    import QueryComparisonKind = powerbi.data.QueryComparisonKind;
+    import SQCompareExpr = powerbi.data.SQCompareExpr;
+    import SQContainsExpr = powerbi.data.SQContainsExpr;
+    import SQExpr = powerbi.data.SQExpr;
+    import SQExprBuilder = powerbi.data.SQExprBuilder;
+    import SQInExpr = powerbi.data.SQInExpr;
+    import SQNotExpr = powerbi.data.SQNotExpr;
+    import TablixColumnFilter = powerbi.visuals.controls.internal.TablixColumnFilter;
+    import TablixFilterMenu = powerbi.visuals.controls.internal.TablixFilterMenu;
+    import ValueType = powerbi.ValueType;
+
+    const entity = SQExprBuilder.entity("s", "Sales");
+    const regionColumn: DataViewMetadataColumn = {
+        displayName: "region",
+        queryName: "Sales.region",
+        type: ValueType.fromPrimitiveTypeAndCategory(PrimitiveType.Text),
+        expr: SQExprBuilder.columnRef(entity, "region"),
+        index: 0,
+    };
+    const quantityColumn: DataViewMetadataColumn = {
+        displayName: "quantity",
+        queryName: "Sales.quantity",
+        type: ValueType.fromPrimitiveTypeAndCategory(PrimitiveType.Integer),
+        expr: SQExprBuilder.columnRef(entity, "quantity"),
+        index: 1,
+    };
+    const profitColumn: DataViewMetadataColumn = {
+        displayName: "profit",
+        queryName: "Sum(Sales.profit)",
+        type: ValueType.fromPrimitiveTypeAndCategory(PrimitiveType.Double),
+        expr: SQExprBuilder.aggregate(SQExprBuilder.columnRef(entity, "profit"), powerbi.data.QueryAggregateFunction.Sum),
+        isMeasure: true,
+        index: 2,
+    };
+    const regions: PrimitiveValue[] = ["North", "South", "East", "West"];
+    const quantities: PrimitiveValue[] = [5, 20, 10, 15];
+
+    describe("TablixColumnFilter", () => {
+        it("canFilter", () => {
+            expect(TablixColumnFilter.canFilter(regionColumn)).toBe(true);
+            expect(TablixColumnFilter.canFilter(profitColumn)).toBe(false);
+            expect(TablixColumnFilter.canFilter({ displayName: "no expr" })).toBe(false);
+        });
+
+        it("getDistinctValues", () => {
+            let rows = [["North", 1], ["South", 2], ["North", 3], [null, 4], [null, 5]];
+            expect(TablixColumnFilter.getDistinctValues(rows, 0)).toEqual(["North", "South", null]);
+        });
+
+        it("getDistinctValues adds the values excluded by the condition", () => {
+            let rows = [["North", 1], ["South", 2]];
+            let condition = TablixColumnFilter.createExcludedValuesCondition(regionColumn, ["East", "West"]);
+
+            expect(TablixColumnFilter.getDistinctValues(rows, 0, condition)).toEqual(["North", "South", "East", "West"]);
+        });
+
+        it("createCondition all values selected", () => {
+            expect(TablixColumnFilter.createCondition(regionColumn, regions, regions, regions, "", NaN)).toBeUndefined();
+        });
+
+        it("createCondition single unchecked value", () => {
+            let condition = <SQNotExpr>TablixColumnFilter.createCondition(regionColumn, regions, ["North", "South", "West"], regions, "", NaN);
+
+            expect(condition instanceof SQNotExpr).toBe(true);
+            expect((<SQCompareExpr>condition.arg).comparison).toBe(QueryComparisonKind.Equal);
+            expect(TablixColumnFilter.splitCondition(condition).excludedValues).toEqual(["East"]);
+        });
+
+        it("createCondition multiple unchecked values", () => {
+            let condition = <SQNotExpr>TablixColumnFilter.createCondition(regionColumn, regions, ["North", "West"], regions, "", NaN);
+
+            expect(condition.arg instanceof SQInExpr).toBe(true);
+            expect(TablixColumnFilter.splitCondition(condition).excludedValues).toEqual(["South", "East"]);
+        });
+
+        it("createCondition search with all matching values selected", () => {
+            let condition = <SQContainsExpr>TablixColumnFilter.createCondition(regionColumn, regions, ["North", "South"], ["North", "South"], "th", NaN);
+
+            expect(condition instanceof SQContainsExpr).toBe(true);
+            expect(SQExpr.equals(condition.right, SQExprBuilder.text("th"))).toBe(true);
+            expect(TablixColumnFilter.splitCondition(condition)).toEqual({ restriction: condition, excludedValues: [] });
+        });
+
+        it("createCondition search with some matching values selected", () => {
+            let condition = TablixColumnFilter.createCondition(regionColumn, regions, ["North"], ["North", "South"], "th", NaN);
+
+            expect(TablixColumnFilter.splitCondition(condition).excludedValues).toEqual(["South", "East", "West"]);
+        });
+
+        it("createCondition top N", () => {
+            let condition = <SQCompareExpr>TablixColumnFilter.createCondition(quantityColumn, quantities, [5], quantities, "", 2);
+
+            expect(condition.comparison).toBe(QueryComparisonKind.GreaterThanOrEqual);
+            expect(SQExpr.equals(condition.right, SQExprBuilder.integer(15))).toBe(true);
+        });
+
+        it("createCondition top N larger than the values", () => {
+            expect(TablixColumnFilter.createCondition(quantityColumn, quantities, quantities, quantities, "", 4)).toBeUndefined();
+        });
+
+        it("createFilter and getColumnConditions round trip", () => {
+            let regionCondition = TablixColumnFilter.createExcludedValuesCondition(regionColumn, ["North", "East"]);
+            let quantityCondition = TablixColumnFilter.createTopNCondition(quantityColumn, quantities, 3);
+
+            let filter = TablixColumnFilter.createFilter({
+                "Sales.region": regionCondition,
+                "Sales.quantity": quantityCondition,
+            });
+            let conditions = TablixColumnFilter.getColumnConditions(filter, [regionColumn, quantityColumn, profitColumn]);
+
+            expect(_.keys(conditions).sort()).toEqual(["Sales.quantity", "Sales.region"]);
+            expect(TablixColumnFilter.splitCondition(conditions["Sales.region"]).excludedValues).toEqual(["North", "East"]);
+            expect((<SQCompareExpr>conditions["Sales.quantity"]).comparison).toBe(QueryComparisonKind.GreaterThanOrEqual);
+        });
+
+        it("getColumnConditions combines the conditions of a column", () => {
+            let searchCondition = SQExprBuilder.contains(<SQExpr>regionColumn.expr, SQExprBuilder.text("th"));
+            let filter = TablixColumnFilter.createFilter({
+                "Sales.region": SQExprBuilder.and(searchCondition, TablixColumnFilter.createExcludedValuesCondition(regionColumn, ["South"])),
+            });
+            let parts = TablixColumnFilter.splitCondition(TablixColumnFilter.getColumnConditions(filter, [regionColumn])["Sales.region"]);
+
+            expect(SQExpr.equals(parts.restriction, searchCondition)).toBe(true);
+            expect(parts.excludedValues).toEqual(["South"]);
+        });
+
+        it("createFilter without conditions", () => {
+            expect(TablixColumnFilter.createFilter({})).toBeUndefined();
+            expect(TablixColumnFilter.getColumnConditions(undefined, [regionColumn])).toEqual({});
+        });
+    });
+
+    describe("TablixFilterMenu", () => {
+        let element: JQuery;
+        let appliedConditions: SQExpr[];
+
+        beforeEach(() => {
+            element = powerbitests.helpers.testDom("500", "500");
+            appliedConditions = [];
+        });
+
+        function createMenu(column: DataViewMetadataColumn, values: PrimitiveValue[], condition?: SQExpr, isComplete: boolean = true): TablixFilterMenu {
+            return new TablixFilterMenu(element, {
+                column: column,
+                values: values,
+                condition: condition,
+                isComplete: isComplete,
+                format: (value: PrimitiveValue) => String(value),
+                localize: (stringId: string) => stringId,
+                onApply: (condition: SQExpr) => appliedConditions.push(condition),
+            });
+        }
+
+        function getCheckboxes(): JQuery {
+            return element.find("." + TablixFilterMenu.CssClassItem + " input");
+        }
+
+        it("renders the values checked", () => {
+            createMenu(regionColumn, regions);
+
+            expect(element.find("." + TablixFilterMenu.CssClassMenu).length).toBe(1);
+            expect(element.find("." + TablixFilterMenu.CssClassTopN).length).toBe(0);
+            expect(getCheckboxes().length).toBe(4);
+            expect(getCheckboxes().filter(":checked").length).toBe(4);
+        });
+
+        it("unchecks the values excluded by the current condition", () => {
+            createMenu(regionColumn, regions, TablixColumnFilter.createExcludedValuesCondition(regionColumn, ["South"]));
+
+            let unchecked = getCheckboxes().not(":checked");
+            expect(unchecked.length).toBe(1);
+            expect(unchecked.next().text()).toBe("South");
+        });
+
+        it("search filters the checklist", () => {
+            createMenu(regionColumn, regions);
+
+            element.find("." + TablixFilterMenu.CssClassSearch).val("st").trigger("input");
+
+            expect(element.find("." + TablixFilterMenu.CssClassItem).text()).toBe("EastWest");
+        });
+
+        it("apply excludes the unchecked values", () => {
+            createMenu(regionColumn, regions);
+
+            getCheckboxes().eq(1).prop("checked", false).trigger("change");
+            element.find("." + TablixFilterMenu.CssClassApply).click();
+
+            expect(appliedConditions.length).toBe(1);
+            expect(TablixColumnFilter.splitCondition(appliedConditions[0]).excludedValues).toEqual(["South"]);
+        });
+
+        it("apply removes the condition when the excluded values are checked again", () => {
+            let condition = TablixColumnFilter.createExcludedValuesCondition(regionColumn, ["South"]);
+            createMenu(regionColumn, TablixColumnFilter.getDistinctValues([["North"], ["East"], ["West"]], 0, condition), condition);
+
+            getCheckboxes().not(":checked").prop("checked", true).trigger("change");
+            element.find("." + TablixFilterMenu.CssClassApply).click();
+
+            expect(appliedConditions).toEqual([undefined]);
+        });
+
+        it("apply keeps the current search condition", () => {
+            let searchCondition = SQExprBuilder.contains(<SQExpr>regionColumn.expr, SQExprBuilder.text("th"));
+            let menu = createMenu(regionColumn, ["North", "South"], searchCondition);
+
+            menu.apply();
+            expect(appliedConditions[0]).toBe(searchCondition);
+
+            getCheckboxes().eq(1).prop("checked", false).trigger("change");
+            menu.apply();
+            let parts = TablixColumnFilter.splitCondition(appliedConditions[1]);
+            expect(parts.restriction).toBe(searchCondition);
+            expect(parts.excludedValues).toEqual(["South"]);
+        });
+
+        it("apply does nothing without checked values", () => {
+            let menu = createMenu(regionColumn, regions);
+
+            getCheckboxes().prop("checked", false).trigger("change");
+            menu.apply();
+
+            expect(appliedConditions.length).toBe(0);
+        });
+
+        it("apply sends top N of numeric columns", () => {
+            createMenu(quantityColumn, quantities);
+
+            element.find("." + TablixFilterMenu.CssClassTopN + " input").val("1");
+            element.find("." + TablixFilterMenu.CssClassApply).click();
+
+            let condition = <SQCompareExpr>appliedConditions[0];
+            expect(condition.comparison).toBe(QueryComparisonKind.GreaterThanOrEqual);
+            expect(SQExpr.equals(condition.right, SQExprBuilder.integer(20))).toBe(true);
+        });
+
+        it("top N is disabled until all rows are loaded", () => {
+            createMenu(quantityColumn, quantities, undefined, false);
+
+            let topNInput = element.find("." + TablixFilterMenu.CssClassTopN + " input");
+            expect(topNInput.prop("disabled")).toBe(true);
+
+            topNInput.val("1");
+            element.find("." + TablixFilterMenu.CssClassApply).click();
+            expect(appliedConditions).toEqual([undefined]);
+        });
+
+        it("clear sends no condition", () => {
+            createMenu(regionColumn, regions);
+
+            element.find("." + TablixFilterMenu.CssClassClear).click();
+
+            expect(appliedConditions).toEqual([undefined]);
+        });
+
+        it("destroy removes the menu", () => {
+            let menu = createMenu(regionColumn, regions);
+
+            menu.destroy();
+
+            expect(element.find("." + TablixFilterMenu.CssClassMenu).length).toBe(0);
+        });
+    });
+}
@@ -0,0 +1,263 @@
+/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved. 
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *   
+ *  The above copyright notice and this permission notice shall be included in 
+ *  all copies or substantial portions of the Software.
+ *   
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR 
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, 
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE 
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER 
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+/// <reference path="../_references.ts"/>
+
+module powerbitests {
+    import DataViewObjects = powerbi.DataViewObjects;
+    import HierarchySlicerNode = powerbi.visuals.HierarchySlicerNode;
+    import HierarchySlicerRenderer = powerbi.visuals.HierarchySlicerRenderer;
+    import SemanticFilter = powerbi.data.SemanticFilter;
+    import SQAndExpr = powerbi.data.SQAndExpr;
+    import SQContainsExpr = powerbi.data.SQContainsExpr;
+    import SQExprBuilder = powerbi.data.SQExprBuilder;
+    import SQOrExpr = powerbi.data.SQOrExpr;
+    import ValueType = powerbi.ValueType;
+
+    const regionField = SQExprBuilder.fieldDef({ schema: 's', entity: 'Geography', column: 'Region' });
+    const countryField = SQExprBuilder.fieldDef({ schema: 's', entity: 'Geography', column: 'Country' });
+
+    function buildDataView(objects?: DataViewObjects): powerbi.DataView {
+        let regions = ['Europe', 'Europe', 'Europe', 'Asia'];
+        let countries = ['France', 'Germany', 'Spain', 'Japan'];
+        let regionColumn: powerbi.DataViewMetadataColumn = { displayName: 'Region', queryName: 'Geography.Region', roles: { 'Values': true }, type: ValueType.fromDescriptor({ text: true }), expr: regionField, index: 0 };
+        let countryColumn: powerbi.DataViewMetadataColumn = { displayName: 'Country', queryName: 'Geography.Country', roles: { 'Values': true }, type: ValueType.fromDescriptor({ text: true }), expr: countryField, index: 1 };
+
+        // As in a queried data view, every category shares the identity of the row across all the fields.
+        let identities = _.map(regions, (region, index) => powerbi.data.createDataViewScopeIdentity(SQExprBuilder.and(
+            SQExprBuilder.equal(regionField, SQExprBuilder.text(region)),
+            SQExprBuilder.equal(countryField, SQExprBuilder.text(countries[index])))));
+
+        return {
+            metadata: { columns: [regionColumn, countryColumn], objects: objects },
+            categorical: {
+                categories: [{
+                    source: regionColumn,
+                    values: regions,
+                    identity: identities,
+                    identityFields: [regionField],
+                }, {
+                    source: countryColumn,
+                    values: countries,
+                    identity: identities,
+                    identityFields: [countryField],
+                }],
+            },
+        };
+    }
+
+    function findNode(nodes: HierarchySlicerNode[], label: string): HierarchySlicerNode {
+        for (let node of nodes) {
+            if (node.label === label)
+                return node;
+
+            let child = findNode(node.children, label);
+            if (child)
+                return child;
+        }
+    }
+
+    describe("HierarchySlicerRenderer", () => {
+        it("converter builds one level per category", () => {
+            let data = HierarchySlicerRenderer.converter(buildDataView(), {});
+
+            expect(data.categorySourceName).toBe('Region, Country');
+            expect(_.map(data.roots, (root) => root.label)).toEqual(['Europe', 'Asia']);
+            expect(_.map(data.roots[0].children, (child) => child.label)).toEqual(['France', 'Germany', 'Spain']);
+            expect(data.roots[0].children[0].level).toBe(1);
+            expect(data.roots[0].children[0].expr instanceof SQAndExpr).toBe(true);
+        });
+
+        it("converter filters each level on its own field", () => {
+            let roots = HierarchySlicerRenderer.converter(buildDataView(), {}).roots;
+            let europeExpr = SQExprBuilder.equal(regionField, SQExprBuilder.text('Europe'));
+            let franceExpr = SQExprBuilder.and(europeExpr, SQExprBuilder.equal(countryField, SQExprBuilder.text('France')));
+
+            expect(powerbi.data.SQExpr.equals(roots[0].expr, europeExpr)).toBe(true);
+            expect(powerbi.data.SQExpr.equals(findNode(roots, 'France').expr, franceExpr)).toBe(true);
+        });
+
+        it("converter keeps expanded nodes", () => {
+            let roots = HierarchySlicerRenderer.converter(buildDataView(), {}).roots;
+            expect(HierarchySlicerRenderer.getVisibleNodes(roots).length).toBe(2);
+
+            let expandedKeys: _.Dictionary<boolean> = {};
+            expandedKeys[roots[0].key] = true;
+            roots = HierarchySlicerRenderer.converter(buildDataView(), expandedKeys).roots;
+            expect(_.map(HierarchySlicerRenderer.getVisibleNodes(roots), (node) => node.label)).toEqual(['Europe', 'France', 'Germany', 'Spain', 'Asia']);
+        });
+
+        it("selecting a child partially selects its parent", () => {
+            let roots = HierarchySlicerRenderer.converter(buildDataView(), {}).roots;
+            let europe = roots[0];
+
+            HierarchySlicerRenderer.toggleNode(findNode(roots, 'France'), true);
+            expect(europe.selected).toBe(false);
+            expect(europe.partiallySelected).toBe(true);
+
+            HierarchySlicerRenderer.toggleNode(findNode(roots, 'Germany'), true);
+            HierarchySlicerRenderer.toggleNode(findNode(roots, 'Spain'), true);
+            expect(europe.selected).toBe(true);
+            expect(europe.partiallySelected).toBe(false);
+
+            HierarchySlicerRenderer.toggleNode(europe, false);
+            expect(findNode(roots, 'France').selected).toBe(false);
+            expect(europe.partiallySelected).toBe(false);
+        });
+
+        it("createFilter ORs the top most selected nodes", () => {
+            let roots = HierarchySlicerRenderer.converter(buildDataView(), {}).roots;
+            expect(HierarchySlicerRenderer.createFilter(roots)).toBeUndefined();
+
+            HierarchySlicerRenderer.toggleNode(findNode(roots, 'Japan'), true);
+            HierarchySlicerRenderer.toggleNode(findNode(roots, 'France'), true);
+
+            let condition = <SQOrExpr>HierarchySlicerRenderer.createFilter(roots).conditions()[0];
+            expect(condition instanceof SQOrExpr).toBe(true);
+            expect(powerbi.data.SQExpr.equals(condition.left, findNode(roots, 'France').expr)).toBe(true);
+            expect(powerbi.data.SQExpr.equals(condition.right, roots[1].expr)).toBe(true);
+        });
+
+        it("createFilter removes the filter when everything is selected", () => {
+            let roots = HierarchySlicerRenderer.converter(buildDataView(), {}).roots;
+            HierarchySlicerRenderer.toggleNode(roots[0], true);
+            HierarchySlicerRenderer.toggleNode(roots[1], true);
+
+            expect(HierarchySlicerRenderer.createFilter(roots)).toBeUndefined();
+        });
+
+        it("converter restores the selection from the filter", () => {
+            let roots = HierarchySlicerRenderer.converter(buildDataView(), {}).roots;
+            HierarchySlicerRenderer.toggleNode(findNode(roots, 'Germany'), true);
+            HierarchySlicerRenderer.toggleNode(roots[1], true);
+            let filter = HierarchySlicerRenderer.createFilter(roots);
+
+            roots = HierarchySlicerRenderer.converter(buildDataView({ general: { filter: filter } }), {}).roots;
+            expect(findNode(roots, 'Germany').selected).toBe(true);
+            expect(findNode(roots, 'France').selected).toBe(false);
+            expect(roots[0].partiallySelected).toBe(true);
+            expect(roots[1].selected).toBe(true);
+            expect(findNode(roots, 'Japan').selected).toBe(true);
+        });
+
+        it("search matches every level", () => {
+            let dataView = buildDataView();
+            let filter = powerbi.visuals.SlicerUtil.getUpdatedSelfFilter('an', dataView.metadata);
+            let condition = <SQOrExpr>filter.conditions()[0];
+
+            expect(condition instanceof SQOrExpr).toBe(true);
+            expect(condition.left instanceof SQContainsExpr).toBe(true);
+            expect(condition.right instanceof SQContainsExpr).toBe(true);
+            expect(powerbi.visuals.DataConversion.getSearchKey({ columns: [], objects: { general: { selfFilter: filter } } })).toBe('an');
+        });
+
+        it("search results are expanded", () => {
+            let filter = powerbi.visuals.SlicerUtil.getUpdatedSelfFilter('an', buildDataView().metadata);
+            let data = HierarchySlicerRenderer.converter(buildDataView({ general: { selfFilter: filter } }), {});
+
+            expect(data.searchKey).toBe('an');
+            expect(HierarchySlicerRenderer.getVisibleNodes(data.roots).length).toBe(6);
+        });
+    });
+
+    describe("HierarchySlicer DOM tests", () => {
+        let element: JQuery;
+        let hostServices: powerbi.IVisualHostServices;
+        let visual: powerbi.IVisual;
+        let originalRequestAnimationFrame: (callback: Function) => number;
+
+        beforeEach(() => {
+            element = powerbitests.helpers.testDom('200', '300');
+            hostServices = slicerHelper.createHostServices();
+            visual = new powerbi.visuals.Slicer({ behavior: new powerbi.visuals.SlicerWebBehavior() });
+            visual.init({
+                element: element,
+                host: hostServices,
+                style: powerbi.visuals.visualStyles.create(),
+                viewport: { height: element.height(), width: element.width() },
+                interactivity: { selection: true }
+            });
+
+            originalRequestAnimationFrame = window.requestAnimationFrame;
+            window.requestAnimationFrame = (callback: () => void) => {
+                callback();
+                return 0;
+            };
+            jasmine.clock().install();
+        });
+
+        afterEach(() => {
+            window.requestAnimationFrame = originalRequestAnimationFrame;
+            jasmine.clock().uninstall();
+        });
+
+        it("renders a tree for several fields", () => {
+            helpers.fireOnDataChanged(visual, { dataViews: [buildDataView()] });
+
+            expect($('.hierarchySlicerContainer')).toBeInDOM();
+            expect($('.slicer-header-text').text()).toBe('Region, Country');
+            expect($('.slicer-header-selectmenu').css('display')).toBe('none');
+            expect($('.slicerText').first().text()).toBe('Europe');
+            expect($('.hierarchySlicerToggle').first().hasClass('leaf')).toBe(false);
+        });
+
+        it("expands a node from its toggle", () => {
+            helpers.fireOnDataChanged(visual, { dataViews: [buildDataView()] });
+            let spy = spyOn(hostServices, 'persistProperties');
+
+            (<any>$('.hierarchySlicerToggle').first()).d3Click(0, 0);
+            jasmine.clock().tick(0);
+
+            expect($('.hierarchySlicerToggle').first().hasClass('expanded')).toBe(true);
+            expect(spy).not.toHaveBeenCalled();
+        });
+
+        it("persists the filter of a clicked node", () => {
+            helpers.fireOnDataChanged(visual, { dataViews: [buildDataView()] });
+            let spy = spyOn(hostServices, 'persistProperties');
+
+            (<any>$('.slicerItemContainer').first()).d3Click(0, 0);
+            jasmine.clock().tick(0);
+
+            let changes: powerbi.VisualObjectInstancesToPersist = spy.calls.mostRecent().args[0];
+            let filter = <SemanticFilter>changes.merge[0].properties['filter'];
+            let roots = HierarchySlicerRenderer.converter(buildDataView(), {}).roots;
+            expect(powerbi.data.SQExpr.equals(filter.conditions()[0], roots[0].expr)).toBe(true);
+            expect($('.slicerCheckbox').first().hasClass('selected')).toBe(true);
+        });
+
+        it("shows partially selected parents", () => {
+            let roots = HierarchySlicerRenderer.converter(buildDataView(), {}).roots;
+            HierarchySlicerRenderer.toggleNode(findNode(roots, 'Spain'), true);
+            let filter = HierarchySlicerRenderer.createFilter(roots);
+
+            helpers.fireOnDataChanged(visual, { dataViews: [buildDataView({ general: { filter: filter } })] });
+
+            expect($('.slicerCheckbox').first().hasClass('partiallySelected')).toBe(true);
+            expect($('.slicerCheckbox input').first().prop('indeterminate')).toBe(true);
+        });
+    });
+}
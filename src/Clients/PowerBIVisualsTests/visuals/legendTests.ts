@@ -660,6 +660,68 @@ module powerbitests {
         }
     });
 
+    describe("Right-to-left legend DOM validation", () => {
+        let element: JQuery;
+        let viewport: powerbi.IViewport;
+        let legend: ILegend;
+        let legendData: powerbi.visuals.LegendDataPoint[];
+
+        beforeEach(() => {
+            element = powerbitests.helpers.testDom('500', '500');
+            legend = powerbi.visuals.createLegend(element, false, null, true, undefined, true);
+            viewport = {
+                height: element.height(),
+                width: element.width()
+            };
+
+            legendData = [
+                { label: 'California', color: '#ff0000', icon: LegendIcon.Line, identity: createSelectionIdentity(0), selected: false },
+                { label: 'Texas', color: '#0000ff', icon: LegendIcon.Line, identity: createSelectionIdentity(1), selected: false },
+                { label: 'Washington', color: '#00ff00', icon: LegendIcon.Line, identity: createSelectionIdentity(2), selected: false }
+            ];
+        });
+
+        it('horizontal legend items run from right to left', (done) => {
+            legend.drawLegend({ dataPoints: legendData, title: 'States' }, viewport);
+            setTimeout(() => {
+                let texts = $('.legendText');
+                let icons = $('.legendIcon');
+                expect(texts.first().text()).toBe('California');
+                expect(+texts.eq(0).attr('x')).toBeGreaterThan(+texts.eq(1).attr('x'));
+                expect(+texts.eq(1).attr('x')).toBeGreaterThan(+texts.eq(2).attr('x'));
+
+                // The icon sits to the right of its text
+                expect(+icons.eq(0).attr('cx')).toBeGreaterThan(+texts.eq(0).attr('x'));
+
+                // The title starts at the right edge
+                expect(+$('.legendTitle').attr('x')).toBeGreaterThan(+icons.eq(0).attr('cx'));
+                done();
+            }, DefaultWaitForRender);
+        });
+
+        it('legend text is anchored at its end', (done) => {
+            legend.drawLegend({ dataPoints: legendData, title: 'States' }, viewport);
+            setTimeout(() => {
+                expect($('.legendText').first().css('text-anchor')).toBe('end');
+                expect($('.legendTitle').css('text-anchor')).toBe('end');
+                done();
+            }, DefaultWaitForRender);
+        });
+
+        it('vertical legend items are aligned to the right edge', (done) => {
+            legend.changeOrientation(LegendPosition.Right);
+            legend.drawLegend({ dataPoints: legendData }, viewport);
+            setTimeout(() => {
+                let texts = $('.legendText');
+                let icons = $('.legendIcon');
+                expect(texts.eq(0).attr('x')).toBe(texts.eq(2).attr('x'));
+                expect(+icons.eq(0).attr('cx')).toBeGreaterThan(+texts.eq(0).attr('x'));
+                expect(+texts.eq(0).attr('y')).toBeLessThan(+texts.eq(2).attr('y'));
+                done();
+            }, DefaultWaitForRender);
+        });
+    });
+
     describe("Mobile: interactive legend DOM validation", () => {
         let element: JQuery;
         let viewport: powerbi.IViewport;
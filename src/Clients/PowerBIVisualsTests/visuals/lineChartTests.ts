@@ -8100,6 +8100,286 @@ module powerbitests {
                     position: { x: 5, y: 15 }
                 });
         });
+
+        it('keyboard focus marker', () => {
+            v.init({
+                element: element,
+                host: mocks.createVisualHostServices(),
+                style: powerbi.visuals.visualStyles.create(),
+                viewport: {
+                    height: element.height(),
+                    width: element.width()
+                },
+                animation: { transitionImmediate: true },
+                interactivity: { selection: true },
+            });
+
+            v.onDataChanged({
+                dataViews: [{
+                    metadata: dataViewMetadataTwoColumn,
+                    categorical: {
+                        categories: [{
+                            source: dataViewMetadataTwoColumn.columns[0],
+                            values: ['a', 'b', 'c'],
+                            identity: [
+                                mocks.dataViewScopeIdentity('a'),
+                                mocks.dataViewScopeIdentity('b'),
+                                mocks.dataViewScopeIdentity('c'),
+                            ],
+                        }],
+                        values: DataViewTransform.createValueColumns([{
+                            source: dataViewMetadataTwoColumn.columns[1],
+                            values: [0.5, 2.0, 1.5]
+                        }])
+                    }
+                }]
+            });
+
+            let container = element.find('svg.lineChartSVG[role=listbox]');
+            expect(container.length).toBe(1);
+
+            keyboardNavigationHelpers.focus(container[0]);
+            keyboardNavigationHelpers.keyDown(container[0], jsCommon.DOMConstants.endKeyCode);
+
+            let marker = element.find('.keyboardFocusMarker');
+            expect(marker.length).toBe(1);
+            expect(marker.attr('aria-label')).toBe('col1 c, col2 1.5');
+            expect(container.attr('aria-activedescendant')).toBe(marker.attr('id'));
+
+            keyboardNavigationHelpers.blur(container[0]);
+            expect(element.find('.keyboardFocusMarker').length).toBe(0);
+        });
+    });
+
+    describe("Line Chart data-driven reference lines", () => {
+        let v: powerbi.visuals.CartesianChart, element: JQuery;
+        let dataViewMetadata: powerbi.DataViewMetadata = {
+            columns: [
+                {
+                    displayName: 'col1',
+                    queryName: 'col1',
+                    type: ValueType.fromPrimitiveTypeAndCategory(PrimitiveType.Double),
+                    roles: { Category: true }
+                },
+                {
+                    displayName: 'col2',
+                    queryName: 'col2',
+                    isMeasure: true,
+                    type: ValueType.fromPrimitiveTypeAndCategory(PrimitiveType.Double),
+                    roles: { Y: true }
+                }
+            ],
+        };
+
+        beforeEach(() => {
+            element = powerbitests.helpers.testDom('500', '500');
+            v = new powerbi.visuals.CartesianChart({ chartType: CartesianChartType.Line });
+            v.init({
+                element: element,
+                host: mocks.createVisualHostServices(),
+                style: powerbi.visuals.visualStyles.create(),
+                viewport: {
+                    height: element.height(),
+                    width: element.width()
+                },
+                animation: { transitionImmediate: true },
+            });
+
+            v.onDataChanged({
+                dataViews: [{
+                    metadata: {
+                        columns: dataViewMetadata.columns,
+                        objects: {
+                            xAxisReferenceLine: {
+                                $instances: { '0': { show: true, valueType: powerbi.visuals.referenceLineValueType.average } },
+                            },
+                            y1AxisReferenceLine: {
+                                $instances: { '0': { show: true, valueType: powerbi.visuals.referenceLineValueType.max } },
+                            },
+                        },
+                    },
+                    categorical: {
+                        categories: [{
+                            source: dataViewMetadata.columns[0],
+                            values: [1, 2, 3, 10],
+                            identity: _.map([1, 2, 3, 10], (value: number) => mocks.dataViewScopeIdentity(value)),
+                        }],
+                        values: DataViewTransform.createValueColumns([{
+                            source: dataViewMetadata.columns[1],
+                            values: [50, 20, 70, 40],
+                        }])
+                    }
+                }]
+            });
+        });
+
+        function getReferenceLine(axis: powerbi.visuals.AxisLocation): powerbi.visuals.ReferenceLineHelper.ReferenceLine {
+            return _.find(<powerbi.visuals.ReferenceLineHelper.ReferenceLine[]>(<any>v).referenceLines, (referenceLine: powerbi.visuals.ReferenceLineHelper.ReferenceLine) => referenceLine.axis === axis);
+        }
+
+        it('computes the X axis reference line from the category values', () => {
+            expect(getReferenceLine(powerbi.visuals.AxisLocation.X).value).toBe(4);
+        });
+
+        it('computes the Y axis reference line from the measure values', () => {
+            expect(getReferenceLine(powerbi.visuals.AxisLocation.Y1).value).toBe(70);
+        });
+    });
+
+    describe("Line Chart Downsampling", () => {
+        let v: powerbi.visuals.CartesianChart, element: JQuery;
+        let dataViewMetadata: powerbi.DataViewMetadata = {
+            columns: [
+                {
+                    displayName: 'col1',
+                    queryName: 'col1',
+                    type: ValueType.fromPrimitiveTypeAndCategory(PrimitiveType.Double),
+                    roles: { Category: true }
+                },
+                {
+                    displayName: 'col2',
+                    queryName: 'col2',
+                    isMeasure: true,
+                    type: ValueType.fromPrimitiveTypeAndCategory(PrimitiveType.Double),
+                    roles: { Y: true }
+                }
+            ],
+        };
+        let categoryValues = _.range(0, 2000);
+        let values = _.map(categoryValues, (value: number) => value === 1000 ? 5000 : value % 100);
+
+        function getRenderedPointCount(): number {
+            return element.find('.line').attr('d').match(/[ML]/g).length;
+        }
+
+        beforeEach(() => {
+            element = powerbitests.helpers.testDom('500', '500');
+            v = new powerbi.visuals.CartesianChart({ chartType: CartesianChartType.Line, isZoomable: true });
+            v.init({
+                element: element,
+                host: mocks.createVisualHostServices(),
+                style: powerbi.visuals.visualStyles.create(),
+                viewport: {
+                    height: element.height(),
+                    width: element.width()
+                },
+                animation: { transitionImmediate: true },
+            });
+
+            v.onDataChanged({
+                dataViews: [{
+                    metadata: dataViewMetadata,
+                    categorical: {
+                        categories: [{
+                            source: dataViewMetadata.columns[0],
+                            values: categoryValues,
+                            identity: _.map(categoryValues, (value: number) => mocks.dataViewScopeIdentity(value)),
+                        }],
+                        values: DataViewTransform.createValueColumns([{
+                            source: dataViewMetadata.columns[1],
+                            values: values,
+                        }])
+                    }
+                }]
+            });
+        });
+
+        it('renders dense scalar series downsampled to the plot width', () => {
+            let pointCount = getRenderedPointCount();
+            expect(pointCount).toBeLessThan(1000);
+            expect(pointCount).toBeGreaterThan(100);
+        });
+
+        it('keeps the peaks of downsampled series', () => {
+            let line = (<any>v).layers[0];
+            let renderedValues = _.map(line.clippedData.series[0].data, (dataPoint: powerbi.visuals.LineChartDataPoint) => dataPoint.value);
+
+            expect(renderedValues.length).toBeLessThan(1000);
+            expect(renderedValues).toContain(5000);
+        });
+
+        it('shows exact values in tooltips of downsampled series', () => {
+            let line: LineChart = (<any>v).layers[0];
+            let dataPoints = line.selectColumnForTooltip(1001);
+
+            expect(dataPoints.length).toBe(1);
+            expect(dataPoints[0].value).toBe(1);
+        });
+
+        it('shows tooltips of data points left out of downsampled series', () => {
+            let line: LineChart = (<any>v).layers[0];
+            let renderedSeries: powerbi.visuals.LineChartSeries = (<any>line).clippedData.series[0];
+            let renderedIndices = _.map(renderedSeries.data, (dataPoint: powerbi.visuals.LineChartDataPoint) => dataPoint.categoryIndex);
+            let droppedIndex = _.find(_.range(0, 2000), (index: number) => !_.contains(renderedIndices, index));
+            spyOn(line, 'getCategoryIndexFromTooltipEvent').and.returnValue(droppedIndex);
+
+            let tooltipInfo = line.getTooltipInfoForCombo(<any>{ data: renderedSeries }, 0);
+
+            expect(droppedIndex).toBeDefined();
+            expect(tooltipInfo).toBeDefined();
+            expect(tooltipInfo).toEqual((<any>line).data.series[0].data[droppedIndex].tooltipInfo);
+        });
+
+        it('renders zoomed series at full resolution', () => {
+            v.getZoomableAxes().setZoomedDomain({ min: 100, max: 200 });
+            v.onResizing({ height: 500, width: 500 });
+
+            let pointCount = getRenderedPointCount();
+            expect(pointCount).not.toBeLessThan(101);
+            expect(pointCount).toBeLessThan(110);
+        });
+
+        it('keeps the same categories in all the bands of downsampled stacked areas', () => {
+            let stackedElement = powerbitests.helpers.testDom('500', '500');
+            let stackedChart = new powerbi.visuals.CartesianChart({ chartType: CartesianChartType.StackedArea, isZoomable: true });
+            stackedChart.init({
+                element: stackedElement,
+                host: mocks.createVisualHostServices(),
+                style: powerbi.visuals.visualStyles.create(),
+                viewport: {
+                    height: stackedElement.height(),
+                    width: stackedElement.width()
+                },
+                animation: { transitionImmediate: true },
+            });
+            let upperColumn: powerbi.DataViewMetadataColumn = {
+                displayName: 'col3',
+                queryName: 'col3',
+                isMeasure: true,
+                type: ValueType.fromPrimitiveTypeAndCategory(PrimitiveType.Double),
+                roles: { Y: true }
+            };
+
+            stackedChart.onDataChanged({
+                dataViews: [{
+                    metadata: { columns: dataViewMetadata.columns.concat([upperColumn]) },
+                    categorical: {
+                        categories: [{
+                            source: dataViewMetadata.columns[0],
+                            values: categoryValues,
+                            identity: _.map(categoryValues, (value: number) => mocks.dataViewScopeIdentity(value)),
+                        }],
+                        values: DataViewTransform.createValueColumns([
+                            {
+                                source: dataViewMetadata.columns[1],
+                                values: values,
+                            }, {
+                                source: upperColumn,
+                                values: _.map(categoryValues, (value: number) => value === 1500 ? 5000 : value % 70),
+                            }])
+                    }
+                }]
+            });
+
+            let series: powerbi.visuals.LineChartSeries[] = (<any>stackedChart).layers[0].clippedData.series;
+            let getCategoryIndices = (series: powerbi.visuals.LineChartSeries) => _.map(series.data, (dataPoint: powerbi.visuals.LineChartDataPoint) => dataPoint.categoryIndex);
+
+            expect(series.length).toBe(2);
+            expect(series[0].data.length).toBeLessThan(2000);
+            expect(getCategoryIndices(series[0])).toEqual(getCategoryIndices(series[1]));
+            expect(getCategoryIndices(series[0])).toContain(1000);
+            expect(getCategoryIndices(series[0])).toContain(1500);
+        });
     });
     
     function callCreateLabelDataPoints(v: powerbi.IVisual): powerbi.LabelDataPoint[] {
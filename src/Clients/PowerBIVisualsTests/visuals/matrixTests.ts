@@ -3017,6 +3017,26 @@ module powerbitests {
                 expect((<CompiledDataViewRoleForMappingWithReduction>dataViewMapping.matrix.rows).dataReductionAlgorithm.window.count).toEqual(500);
             });
 
+            it("CustomizeQuery picks up subtotals of collapsed groups", () => {
+                let objects: powerbi.DataViewObjects = {
+                    general: {
+                        rowSubtotals: false,
+                        columnSubtotals: false,
+                    },
+                    rowHeaders: {
+                        collapsedGroups: true,
+                    },
+                };
+                let dataViewMapping = createCompiledDataViewMapping(objects);
+
+                Matrix.customizeQuery({
+                    dataViewMappings: [dataViewMapping]
+                });
+
+                expect((<CompiledDataViewRoleForMappingWithReduction>dataViewMapping.matrix.rows).for.in.subtotalType).toEqual(CompiledSubtotalType.After);
+                expect(dataViewMapping.matrix.columns.for.in.subtotalType).toEqual(CompiledSubtotalType.None);
+            });
+
             function createCompiledDataViewMapping(objects?: powerbi.DataViewObjects, includeColumns: boolean = false): CompiledDataViewMapping {
                 let columnItems: powerbi.data.CompiledDataViewRoleItem[] = [];
 
@@ -3648,6 +3668,259 @@ module powerbitests {
             });
         });
 
+        describe("Matrix expand and collapse", () => {
+            let matrix: DataViewMatrix;
+            let rowA: MatrixVisualNode;
+            let rowB: MatrixVisualNode;
+            let column1992: MatrixVisualNode;
+            let column1996: MatrixVisualNode;
+
+            //  Rows: A (A1, A2, Total), B (B1, Total), Total
+            //  Columns: 1992 (Gold, Silver, Total), 1996 (Gold, Total), Total
+            //  The value of each cell is 10 * row + column, in the order of the leaves
+            beforeEach(() => {
+                rowA = createNode(0, "A", [createNode(1, "A1", undefined, 1), createNode(1, "A2", undefined, 2), createSubtotal(1, 3)]);
+                rowB = createNode(0, "B", [createNode(1, "B1", undefined, 4), createSubtotal(1, 5)]);
+                column1992 = createNode(0, 1992, [createNode(1, "Gold"), createNode(1, "Silver"), createSubtotal(1)]);
+                column1996 = createNode(0, 1996, [createNode(1, "Gold"), createSubtotal(1)]);
+
+                matrix = {
+                    rows: {
+                        root: { children: [rowA, rowB, createSubtotal(0, 6)] },
+                        levels: [{ sources: [rowGroupSource1] }, { sources: [rowGroupSource2] }],
+                    },
+                    columns: {
+                        root: { children: [column1992, column1996, createSubtotal(0)] },
+                        levels: [{ sources: [columnGroupSource1] }, { sources: [columnGroupSource2] }],
+                    },
+                    valueSources: [measureSource1],
+                };
+            });
+
+            function createNode(level: number, value: string | number, children?: MatrixVisualNode[], row?: number): MatrixVisualNode {
+                return {
+                    level: level,
+                    levelValues: [{ levelSourceIndex: 0, value: value }],
+                    identity: mocks.dataViewScopeIdentity(value),
+                    children: children,
+                    values: row != null ? createValues(row) : undefined,
+                };
+            }
+
+            function createSubtotal(level: number, row?: number): MatrixVisualNode {
+                return {
+                    level: level,
+                    isSubtotal: true,
+                    values: row != null ? createValues(row) : undefined,
+                };
+            }
+
+            function createValues(row: number): { [id: number]: powerbi.DataViewMatrixNodeValue } {
+                let values: { [id: number]: powerbi.DataViewMatrixNodeValue } = {};
+                for (let column = 0; column < 6; column++)
+                    values[column] = { value: 10 * row + column };
+
+                return values;
+            }
+
+            function collapse(node: MatrixVisualNode, objectName: string): void {
+                node.objects = {};
+                node.objects[objectName] = { collapsed: true };
+            }
+
+            function createDataView(objects?: powerbi.DataViewObjects): powerbi.DataView {
+                return {
+                    metadata: {
+                        columns: [rowGroupSource1, rowGroupSource2, columnGroupSource1, columnGroupSource2, measureSource1],
+                        objects: objects,
+                    },
+                    matrix: matrix,
+                };
+            }
+
+            describe("hierarchy navigator", () => {
+                it("isCollapsible returns true for groups with child groups", () => {
+                    let navigator = createHierarchyNavigator(matrix);
+
+                    expect(navigator.isCollapsible(rowA)).toBe(true);
+                    expect(navigator.isCollapsible(rowA.children[0])).toBe(false);
+                    expect(navigator.isCollapsible(rowA.children[2])).toBe(false);
+                    expect(navigator.isCollapsible(column1992)).toBe(true);
+                    expect(navigator.isCollapsible(column1992.children[0])).toBe(false);
+                });
+
+                it("getCollapsibleNodes returns the groups of a level", () => {
+                    let navigator = createHierarchyNavigator(matrix);
+
+                    expect(navigator.getCollapsibleNodes(matrix.rows.root.children, 0)).toEqual([rowA, rowB]);
+                    expect(navigator.getCollapsibleNodes(matrix.rows.root.children, 1)).toEqual([]);
+                    expect(navigator.getCollapsibleNodes(matrix.columns.root.children)).toEqual([column1992, column1996]);
+                });
+
+                it("collapsed row is a leaf showing the values of its subtotal", () => {
+                    collapse(rowA, "rowHeaders");
+                    let navigator = createHierarchyNavigator(matrix);
+                    let rows = matrix.rows.root.children;
+                    let columns = matrix.columns.root.children;
+
+                    expect(navigator.isLeaf(rowA)).toBe(true);
+                    expect(navigator.getLeafCount(rows)).toBe(4);
+                    expect(navigator.getLeafAt(rows, 1)).toBe(rowB.children[0]);
+                    expect(navigator.getIntersection(rowA, navigator.getLeafAt(columns, 0)).dataPoint).toBe(30);
+                    expect(navigator.getIntersection(rowB.children[0], navigator.getLeafAt(columns, 5)).dataPoint).toBe(45);
+                });
+
+                it("collapsed column is a leaf showing the values of its subtotal", () => {
+                    collapse(column1992, "columnHeaders");
+                    let navigator = createHierarchyNavigator(matrix);
+                    let columns = matrix.columns.root.children;
+
+                    expect(navigator.isLeaf(column1992)).toBe(true);
+                    expect(navigator.getLeafCount(columns)).toBe(4);
+                    expect(navigator.getIntersection(rowA.children[0], column1992).dataPoint).toBe(12);
+                    expect(navigator.getIntersection(rowA.children[0], navigator.getLeafAt(columns, 1)).dataPoint).toBe(13);
+                });
+
+                it("group without subtotal in the data stays expanded", () => {
+                    collapse(rowA, "rowHeaders");
+                    rowA.children.pop();
+                    let navigator = createHierarchyNavigator(matrix);
+
+                    expect(navigator.isLeaf(rowA)).toBe(false);
+                    expect(navigator.getChildren(rowA).length).toBe(2);
+                });
+
+                it("hides the subtotals that are turned off", () => {
+                    collapse(rowA, "rowHeaders");
+                    let navigator = powerbi.visuals.createMatrixHierarchyNavigator(matrix, true, valueFormatter.formatVariantMeasureValue, ", ", false, true);
+                    let rows = navigator.getRowHierarchyNodes();
+
+                    expect(rows).toEqual([rowA, rowB]);
+                    expect(navigator.getLeafCount(rows)).toBe(2);
+                    expect(navigator.getChildren(rowB)).toEqual([rowB.children[0]]);
+                    expect(navigator.getIntersection(rowA, navigator.getLeafAt(matrix.columns.root.children, 2)).dataPoint).toBe(32);
+                });
+            });
+
+            describe("binder", () => {
+                function bindRowHeader(node: MatrixVisualNode): powerbi.visuals.controls.ITablixCell {
+                    let navigator = createHierarchyNavigator(matrix);
+                    let binder = new powerbi.visuals.MatrixBinder(navigator, { showExpandCollapseIcons: true, onHeaderExpandCollapse: onExpandCollapse });
+                    binder.onDataViewChanged(Matrix.converter(createDataView()));
+
+                    let cell: powerbi.visuals.controls.ITablixCell = {
+                        type: null, item: null, colSpan: 0, rowSpan: 0, textAlign: "",
+                        extension: new Controls.internal.TablixCellPresenter(false, Controls.TablixLayoutKind.Canvas),
+                        position: new TablixUtils.CellPosition(),
+                        contentHeight: 0, contentWidth: 0, applyStyle: () => { }, unfixRowHeight: () => { },
+                        containerHeight: 0, containerWidth: 0
+                    };
+                    binder.bindRowHeader(node, cell);
+
+                    return cell;
+                }
+
+                let onExpandCollapse: jasmine.Spy;
+
+                beforeEach(() => {
+                    onExpandCollapse = jasmine.createSpy("onHeaderExpandCollapse");
+                });
+
+                it("adds an expand/collapse icon to collapsible headers", () => {
+                    let cell = bindRowHeader(rowA);
+                    let icon = $(cell.extension.contentHost).find("." + TablixUtils.CssClassMatrixExpandCollapse);
+
+                    expect(icon.length).toBe(1);
+                    expect(icon.hasClass("expanded")).toBe(true);
+
+                    icon[0].dispatchEvent(new Event("click"));
+                    expect(onExpandCollapse).toHaveBeenCalledWith(rowA, true);
+                });
+
+                it("shows collapsed headers as not expanded", () => {
+                    collapse(rowA, "rowHeaders");
+                    let cell = bindRowHeader(rowA);
+
+                    expect($(cell.extension.contentHost).find("." + TablixUtils.CssClassMatrixExpandCollapse).hasClass("expanded")).toBe(false);
+                });
+
+                it("doesn't add an icon to leaf headers", () => {
+                    let cell = bindRowHeader(rowA.children[0]);
+
+                    expect($(cell.extension.contentHost).find("." + TablixUtils.CssClassMatrixExpandCollapse).length).toBe(0);
+                });
+            });
+
+            describe("persistence", () => {
+                let v: Matrix;
+                let hostServices: powerbi.IVisualHostServices;
+
+                beforeEach(() => {
+                    v = <Matrix>powerbi.visuals.plugins.matrix.create();
+                    hostServices = mocks.createVisualHostServices();
+                    v.init({
+                        element: powerbitests.helpers.testDom("500", "500"),
+                        host: hostServices,
+                        style: powerbi.visuals.visualStyles.create(),
+                        viewport: {
+                            height: 500,
+                            width: 500
+                        },
+                        animation: { transitionImmediate: true }
+                    });
+                    spyOn(hostServices, "persistProperties");
+                });
+
+                it("collapsing a group persists its state keyed by its identity", () => {
+                    v.onDataChanged({ dataViews: [createDataView()] });
+                    v.toggleCollapse(rowA, true);
+
+                    expect(hostServices.persistProperties).toHaveBeenCalledWith({
+                        merge: [
+                            { objectName: "rowHeaders", selector: { data: [rowA.identity] }, properties: { collapsed: true } },
+                            { objectName: "rowHeaders", selector: null, properties: { collapsedGroups: true } },
+                        ],
+                        remove: [],
+                    });
+                });
+
+                it("expanding the last collapsed group removes its state", () => {
+                    collapse(rowA, "rowHeaders");
+                    v.onDataChanged({ dataViews: [createDataView({ rowHeaders: { collapsedGroups: true } })] });
+                    v.toggleCollapse(rowA, true);
+
+                    expect(hostServices.persistProperties).toHaveBeenCalledWith({
+                        merge: [
+                            { objectName: "rowHeaders", selector: null, properties: { collapsedGroups: false } },
+                        ],
+                        remove: [
+                            { objectName: "rowHeaders", selector: { data: [rowA.identity] }, properties: { collapsed: undefined } },
+                        ],
+                    });
+                });
+
+                it("expandToLevel collapses all the groups of the level", () => {
+                    collapse(column1996, "columnHeaders");
+                    v.onDataChanged({ dataViews: [createDataView({ columnHeaders: { collapsedGroups: true } })] });
+                    v.expandToLevel(0, false);
+
+                    expect(hostServices.persistProperties).toHaveBeenCalledWith({
+                        merge: [
+                            { objectName: "columnHeaders", selector: { data: [column1992.identity] }, properties: { collapsed: true } },
+                        ],
+                        remove: [],
+                    });
+                });
+
+                it("expandToLevel doesn't persist anything if no group changes", () => {
+                    v.onDataChanged({ dataViews: [createDataView()] });
+                    v.expandToLevel(1, true);
+
+                    expect(hostServices.persistProperties).not.toHaveBeenCalled();
+                });
+            });
+        });
+
         describe("Matrix logic", () => {
             let v: powerbi.IVisual;
 
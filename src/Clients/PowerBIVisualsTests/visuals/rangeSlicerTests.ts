@@ -0,0 +1,353 @@
+/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved. 
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *   
+ *  The above copyright notice and this permission notice shall be included in 
+ *  all copies or substantial portions of the Software.
+ *   
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR 
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, 
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE 
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER 
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+/// <reference path="../_references.ts"/>
+
+module powerbitests {
+    import DataViewObjects = powerbi.DataViewObjects;
+    import QueryComparisonKind = powerbi.data.QueryComparisonKind;
+    import RangeFilter = powerbi.visuals.SlicerUtil.RangeFilter;
+    import RangeSlicerRenderer = powerbi.visuals.RangeSlicerRenderer;
+    import SemanticFilter = powerbi.data.SemanticFilter;
+    import slicerMode = powerbi.visuals.slicerMode;
+    import SQBetweenExpr = powerbi.data.SQBetweenExpr;
+    import SQCompareExpr = powerbi.data.SQCompareExpr;
+    import SQConstantExpr = powerbi.data.SQConstantExpr;
+    import SQDateAddExpr = powerbi.data.SQDateAddExpr;
+    import SQNowExpr = powerbi.data.SQNowExpr;
+    import TimeUnit = powerbi.data.TimeUnit;
+    import ValueType = powerbi.ValueType;
+
+    const field = powerbi.data.SQExprBuilder.fieldDef({ schema: 's', entity: 'Sales', column: 'Quantity' });
+    const dateField = powerbi.data.SQExprBuilder.fieldDef({ schema: 's', entity: 'Sales', column: 'OrderDate' });
+    const integerType = ValueType.fromDescriptor({ integer: true });
+    const dateType = ValueType.fromDescriptor({ dateTime: true });
+
+    function buildDataView(objects: DataViewObjects, isDate?: boolean): powerbi.DataView {
+        let source: powerbi.DataViewMetadataColumn = {
+            displayName: isDate ? 'OrderDate' : 'Quantity',
+            queryName: 'Sales.Value',
+            roles: { 'Values': true },
+            type: isDate ? dateType : integerType,
+            expr: isDate ? dateField : field,
+            index: 0,
+        };
+        let values: any[] = isDate
+            ? [new Date(2015, 0, 1), new Date(2015, 5, 1), new Date(2015, 11, 31)]
+            : [10, 250, 40, null, 110];
+
+        return {
+            metadata: { columns: [source], objects: objects },
+            categorical: {
+                categories: [{
+                    source: source,
+                    values: values,
+                    identityFields: [source.expr],
+                }],
+            },
+        };
+    }
+
+    describe("SlicerUtil.RangeFilter", () => {
+        it("creates a between filter", () => {
+            let filter = RangeFilter.createFilter(field, integerType, slicerMode.between, { lower: 10, upper: 20 });
+            let condition = <SQBetweenExpr>filter.conditions()[0];
+
+            expect(condition instanceof SQBetweenExpr).toBe(true);
+            expect((<SQConstantExpr>condition.lower).value).toBe(10);
+            expect((<SQConstantExpr>condition.upper).value).toBe(20);
+        });
+
+        it("creates compare filters for before and after", () => {
+            let before = <SQCompareExpr>RangeFilter.createFilter(field, integerType, slicerMode.before, { lower: 10, upper: 20 }).conditions()[0];
+            expect(before.comparison).toBe(QueryComparisonKind.LessThanOrEqual);
+            expect((<SQConstantExpr>before.right).value).toBe(20);
+
+            let after = <SQCompareExpr>RangeFilter.createFilter(field, integerType, slicerMode.after, { lower: 10, upper: 20 }).conditions()[0];
+            expect(after.comparison).toBe(QueryComparisonKind.GreaterThanOrEqual);
+            expect((<SQConstantExpr>after.right).value).toBe(10);
+        });
+
+        it("uses a single bound in between mode when the other is open", () => {
+            let condition = <SQCompareExpr>RangeFilter.createFilter(field, integerType, slicerMode.between, { upper: 20 }).conditions()[0];
+            expect(condition.comparison).toBe(QueryComparisonKind.LessThanOrEqual);
+        });
+
+        it("returns no filter for an unbounded range", () => {
+            expect(RangeFilter.createFilter(field, integerType, slicerMode.between, {})).toBeUndefined();
+            expect(RangeFilter.createFilter(field, integerType, slicerMode.before, { lower: 10 })).toBeUndefined();
+        });
+
+        it("creates relative date filters from now", () => {
+            let filter = RangeFilter.createRelativeDateFilter(dateField, RangeFilter.getRelativeDateRange('Last30Days'));
+            let condition = <SQBetweenExpr>filter.conditions()[0];
+            let lower = <SQDateAddExpr>condition.lower;
+
+            expect(lower instanceof SQDateAddExpr).toBe(true);
+            expect(lower.unit).toBe(TimeUnit.Day);
+            expect(lower.amount).toBe(-30);
+            expect(lower.arg instanceof SQNowExpr).toBe(true);
+            expect(condition.upper instanceof SQNowExpr).toBe(true);
+        });
+
+        it("parses the filters it creates", () => {
+            let date = new Date(2015, 2, 1);
+            expect(RangeFilter.parseFilter(RangeFilter.createFilter(field, integerType, slicerMode.between, { lower: 10, upper: 20 }))).toEqual({ lower: 10, upper: 20 });
+            expect(RangeFilter.parseFilter(RangeFilter.createFilter(field, integerType, slicerMode.after, { lower: 10 }))).toEqual({ lower: 10 });
+            expect(RangeFilter.parseFilter(RangeFilter.createFilter(dateField, dateType, slicerMode.before, { upper: date }))).toEqual({ upper: date });
+            expect(RangeFilter.parseFilter(RangeFilter.createRelativeDateFilter(dateField, RangeFilter.getRelativeDateRange('Last12Months')))).toEqual({ relativeDateRange: 'Last12Months' });
+        });
+
+        it("ignores other filters", () => {
+            expect(RangeFilter.parseFilter(undefined)).toBeUndefined();
+            expect(RangeFilter.parseFilter(powerbi.visuals.SlicerUtil.getContainsFilter(field, 'a'))).toBeUndefined();
+        });
+
+        it("resolves relative date ranges", () => {
+            let now = new Date(2016, 5, 15);
+            expect(RangeFilter.getRelativeDateBounds(RangeFilter.getRelativeDateRange('Last7Days'), now)).toEqual({ lower: new Date(2016, 5, 8), upper: now });
+            expect(RangeFilter.getRelativeDateBounds(RangeFilter.getRelativeDateRange('Last12Months'), now)).toEqual({ lower: new Date(2015, 5, 15), upper: now });
+        });
+
+        it("supports numeric and date fields only", () => {
+            expect(RangeFilter.supportsRange(integerType)).toBe(true);
+            expect(RangeFilter.supportsRange(dateType)).toBe(true);
+            expect(RangeFilter.supportsRange(ValueType.fromDescriptor({ text: true }))).toBe(false);
+        });
+    });
+
+    describe("RangeSlicerRenderer", () => {
+        it("mode property matches capabilities", () => {
+            let general = powerbi.visuals.slicerCapabilities.objects['general'];
+            expect(general.properties[powerbi.visuals.slicerProps.general.mode.propertyName]).toBeDefined();
+        });
+
+        it("converter computes the field range", () => {
+            let data = RangeSlicerRenderer.converter(buildDataView({}), slicerMode.between, new Date());
+
+            expect(data.min).toBe(10);
+            expect(data.max).toBe(250);
+            expect(data.lower).toBe(10);
+            expect(data.upper).toBe(250);
+            expect(data.step).toBe(1);
+            expect(data.isDate).toBe(false);
+        });
+
+        it("converter takes the field range from the aggregates", () => {
+            let dataView = buildDataView({});
+            dataView.categorical.categories[0].source.aggregates = { min: 2, max: 900 };
+            let data = RangeSlicerRenderer.converter(dataView, slicerMode.between, new Date());
+
+            expect(data.min).toBe(2);
+            expect(data.max).toBe(900);
+            expect(data.lower).toBe(2);
+            expect(data.upper).toBe(900);
+        });
+
+        it("customizeQuery requests the aggregates in range modes", () => {
+            let createMapping = (mode: string): powerbi.data.CompiledDataViewMapping => {
+                return {
+                    metadata: { columns: [], objects: { general: { mode: mode } } },
+                    categorical: { categories: { for: { in: { role: 'Values', items: [{ queryName: 'Sales.Value' }] } } } },
+                };
+            };
+            let getAggregates = (mapping: powerbi.data.CompiledDataViewMapping) =>
+                (<powerbi.data.CompiledDataViewRoleForMapping>mapping.categorical.categories).for.in.aggregates;
+
+            let rangeMapping = createMapping(slicerMode.between);
+            powerbi.visuals.plugins.slicer.customizeQuery({ dataViewMappings: [rangeMapping] });
+            expect(getAggregates(rangeMapping)).toEqual({ min: true, max: true });
+
+            let listMapping = createMapping(slicerMode.basic);
+            powerbi.visuals.plugins.slicer.customizeQuery({ dataViewMappings: [listMapping] });
+            expect(getAggregates(listMapping)).toBeUndefined();
+        });
+
+        it("converter clamps the filtered range to the field range", () => {
+            let filter = RangeFilter.createFilter(field, integerType, slicerMode.between, { lower: 5, upper: 100 });
+            let data = RangeSlicerRenderer.converter(buildDataView({ general: { filter: filter } }), slicerMode.between, new Date());
+
+            expect(data.lower).toBe(10);
+            expect(data.upper).toBe(100);
+        });
+
+        it("converter resolves relative date filters", () => {
+            let filter = RangeFilter.createRelativeDateFilter(dateField, RangeFilter.getRelativeDateRange('Last90Days'));
+            let data = RangeSlicerRenderer.converter(buildDataView({ general: { filter: filter } }, true), slicerMode.between, new Date(2015, 11, 31));
+
+            expect(data.isDate).toBe(true);
+            expect(data.relativeDateRange).toBe('Last90Days');
+            expect(data.lower).toBe(new Date(2015, 9, 2).getTime());
+            expect(data.upper).toBe(new Date(2015, 11, 31).getTime());
+        });
+
+        it("converter ignores text fields", () => {
+            let dataView = slicerHelper.buildDefaultDataView(field);
+            expect(RangeSlicerRenderer.converter(dataView, slicerMode.between, new Date())).toBeUndefined();
+        });
+
+        it("getStep", () => {
+            expect(RangeSlicerRenderer.getStep(dateType, 0, 1e10)).toBe(24 * 3600 * 1000);
+            expect(RangeSlicerRenderer.getStep(integerType, 0, 50)).toBe(1);
+            expect(RangeSlicerRenderer.getStep(ValueType.fromDescriptor({ numeric: true }), 0, 5)).toBe(0.01);
+        });
+
+        it("getNudgedValue", () => {
+            let data = RangeSlicerRenderer.converter(buildDataView({}), slicerMode.between, new Date());
+            let keys = jsCommon.DOMConstants;
+
+            expect(RangeSlicerRenderer.getNudgedValue(100, keys.rightArrowKeyCode, false, data)).toBe(101);
+            expect(RangeSlicerRenderer.getNudgedValue(100, keys.downArrowKeyCode, true, data)).toBe(90);
+            expect(RangeSlicerRenderer.getNudgedValue(245, keys.upArrowKeyCode, true, data)).toBe(250);
+            expect(RangeSlicerRenderer.getNudgedValue(100, keys.homeKeyCode, false, data)).toBe(10);
+            expect(RangeSlicerRenderer.getNudgedValue(100, keys.endKeyCode, false, data)).toBe(250);
+            expect(RangeSlicerRenderer.getNudgedValue(100, keys.enterKeyCode, false, data)).toBeUndefined();
+        });
+
+        it("parseInput", () => {
+            expect(RangeSlicerRenderer.parseInput('1,250.5', false)).toBe(1250.5);
+            expect(RangeSlicerRenderer.parseInput('abc', false)).toBeUndefined();
+            expect(RangeSlicerRenderer.parseInput('', false)).toBeUndefined();
+            expect(RangeSlicerRenderer.parseInput('2015/03/01', true)).toBe(new Date(2015, 2, 1).getTime());
+        });
+    });
+
+    describe("RangeSlicer DOM tests", () => {
+        let element: JQuery;
+        let hostServices: powerbi.IVisualHostServices;
+        let visual: powerbi.IVisual;
+
+        beforeEach(() => {
+            element = powerbitests.helpers.testDom('200', '300');
+            hostServices = slicerHelper.createHostServices();
+            visual = new powerbi.visuals.Slicer({ behavior: new powerbi.visuals.SlicerWebBehavior() });
+            visual.init({
+                element: element,
+                host: hostServices,
+                style: powerbi.visuals.visualStyles.create(),
+                viewport: { height: element.height(), width: element.width() },
+                interactivity: { selection: true }
+            });
+        });
+
+        function isDisplayed(element: JQuery): boolean {
+            return element.css('display') !== 'none';
+        }
+
+        function getPersistedFilter(spy: jasmine.Spy): SemanticFilter {
+            let changes: powerbi.VisualObjectInstancesToPersist = spy.calls.mostRecent().args[0];
+            return <SemanticFilter>changes.merge[0].properties['filter'];
+        }
+
+        it("renders the range slicer in between mode", () => {
+            visual.onDataChanged({ dataViews: [buildDataView({ general: { mode: slicerMode.between } })] });
+
+            expect($('.date-slicer')).toBeInDOM();
+            expect(isDisplayed($('.date-slicer-input.lower').parent())).toBe(true);
+            expect(isDisplayed($('.date-slicer-input.upper').parent())).toBe(true);
+            expect($('.date-slicer-slider .noUi-handle').length).toBe(2);
+            expect(isDisplayed($('.date-slicer-select'))).toBe(false);
+            expect(isDisplayed($('.slicer-header-selectmenu'))).toBe(true);
+            expect($('.slicerContainer')).not.toBeInDOM();
+        });
+
+        it("renders a single bound in before mode", () => {
+            visual.onDataChanged({ dataViews: [buildDataView({ general: { mode: slicerMode.before } })] });
+
+            expect(isDisplayed($('.date-slicer-input.lower').parent())).toBe(false);
+            expect(isDisplayed($('.date-slicer-input.upper').parent())).toBe(true);
+            expect($('.date-slicer-slider .noUi-handle').length).toBe(1);
+        });
+
+        it("renders the list slicer in basic mode", () => {
+            visual.onDataChanged({ dataViews: [buildDataView({})] });
+
+            expect($('.date-slicer')).not.toBeInDOM();
+            expect($('.slicerContainer')).toBeInDOM();
+            expect(isDisplayed($('.slicer-header-selectmenu'))).toBe(true);
+        });
+
+        it("hides the mode menu for text fields", () => {
+            visual.onDataChanged({ dataViews: [slicerHelper.buildDefaultDataView(field)] });
+
+            expect(isDisplayed($('.slicer-header-selectmenu'))).toBe(false);
+        });
+
+        it("persists a between filter when a bound is edited", () => {
+            visual.onDataChanged({ dataViews: [buildDataView({ general: { mode: slicerMode.between } })] });
+            let spy = spyOn(hostServices, 'persistProperties');
+
+            $('.date-slicer-input.upper').val('100').trigger('change');
+            expect(RangeFilter.parseFilter(getPersistedFilter(spy))).toEqual({ upper: 100 });
+
+            $('.date-slicer-input.lower').val('20').trigger('change');
+            expect(RangeFilter.parseFilter(getPersistedFilter(spy))).toEqual({ lower: 20, upper: 100 });
+        });
+
+        it("nudges the handles with the keyboard", () => {
+            let filter = RangeFilter.createFilter(field, integerType, slicerMode.between, { lower: 20, upper: 100 });
+            visual.onDataChanged({ dataViews: [buildDataView({ general: { mode: slicerMode.between, filter: filter } })] });
+            let spy = spyOn(hostServices, 'persistProperties');
+
+            let handle = $('.date-slicer-slider .noUi-handle').eq(1);
+            expect(handle.attr('tabindex')).toBe('0');
+            handle.trigger($.Event('keydown', { which: jsCommon.DOMConstants.rightArrowKeyCode }));
+
+            expect(RangeFilter.parseFilter(getPersistedFilter(spy))).toEqual({ lower: 20, upper: 101 });
+        });
+
+        it("removes the filter when the range covers the field", () => {
+            let filter = RangeFilter.createFilter(field, integerType, slicerMode.between, { lower: 20, upper: 250 });
+            visual.onDataChanged({ dataViews: [buildDataView({ general: { mode: slicerMode.between, filter: filter } })] });
+            let spy = spyOn(hostServices, 'persistProperties');
+
+            $('.date-slicer-slider .noUi-handle').eq(0).trigger($.Event('keydown', { which: jsCommon.DOMConstants.homeKeyCode }));
+
+            let changes: powerbi.VisualObjectInstancesToPersist = spy.calls.mostRecent().args[0];
+            expect(changes.remove[0].properties['filter']).toBeDefined();
+            expect(changes.merge).toBeUndefined();
+        });
+
+        it("persists relative date filters", () => {
+            visual.onDataChanged({ dataViews: [buildDataView({ general: { mode: slicerMode.between } }, true)] });
+            let spy = spyOn(hostServices, 'persistProperties');
+
+            expect(isDisplayed($('.date-slicer-select'))).toBe(true);
+            $('.date-slicer-select').val('Last30Days').trigger('change');
+
+            expect(RangeFilter.parseFilter(getPersistedFilter(spy))).toEqual({ relativeDateRange: 'Last30Days' });
+        });
+
+        it("disables the bounds for relative date filters", () => {
+            let filter = RangeFilter.createRelativeDateFilter(dateField, RangeFilter.getRelativeDateRange('Last30Days'));
+            visual.onDataChanged({ dataViews: [buildDataView({ general: { mode: slicerMode.between, filter: filter } }, true)] });
+
+            expect($('.date-slicer-select').val()).toBe('Last30Days');
+            expect($('.date-slicer-input.lower').prop('disabled')).toBe(true);
+            expect($('.date-slicer-input.upper').prop('disabled')).toBe(true);
+        });
+    });
+}
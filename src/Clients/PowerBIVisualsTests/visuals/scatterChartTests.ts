@@ -36,6 +36,7 @@ module powerbitests {
     import DataViewObjects = powerbi.DataViewObjects;
     import DataViewPivotCategorical = powerbi.data.DataViewPivotCategorical;
     import DataViewTransform = powerbi.data.DataViewTransform;
+    import DragSelectionMode = powerbi.visuals.DragSelectionMode;
     import LabelsBehavior = powerbi.visuals.LabelsBehavior;
     import lineStyle = powerbi.visuals.lineStyle;
     import PixelConverter = jsCommon.PixelConverter;
@@ -2223,6 +2224,29 @@ module powerbitests {
                     }, DefaultWaitForRender);
                 });
 
+                it('draws the trend lines under the markers', (done) => {
+                    let objects: DataViewObjects = {
+                        trend: {
+                            show: true,
+                            combineSeries: true,
+                        }
+                    };
+
+                    let dataViews = new helpers.TrendLineBuilder({ combineSeries: true, xIsMeasure: true }).withObjects(objects).buildDataViews();
+
+                    v.onDataChanged({
+                        dataViews: dataViews,
+                    });
+                    setTimeout(() => {
+                        let trendLineLayer = $('.trend-line-layer');
+
+                        expect(trendLineLayer.length).toBe(1);
+                        expect(trendLineLayer.nextAll().find('.dot').length).toBeGreaterThan(0);
+
+                        done();
+                    }, DefaultWaitForRender);
+                });
+
                 it('Not support trend line without both X and Y', (done) => {
                     let metadata: powerbi.DataViewMetadata = {
                         columns: dataViewMetadataFourColumn.columns,
@@ -6315,6 +6339,104 @@ module powerbitests {
         });
     });
 
+    describe("ScatterChart aggregation", () => {
+        let v: powerbi.IVisual, element: JQuery;
+        let aggregationThreshold: number;
+        let dataViewMetadata: powerbi.DataViewMetadata = {
+            columns: [
+                { displayName: 'category', queryName: 'select1', roles: { "Category": true }, type: ValueType.fromPrimitiveTypeAndCategory(PrimitiveType.Text) },
+                { displayName: 'x', queryName: 'select2', isMeasure: true, roles: { "X": true }, type: ValueType.fromPrimitiveTypeAndCategory(PrimitiveType.Double) },
+                { displayName: 'y', queryName: 'select3', isMeasure: true, roles: { "Y": true }, type: ValueType.fromPrimitiveTypeAndCategory(PrimitiveType.Double) },
+            ]
+        };
+
+        // 200 data points on top of each other, then 100 data points apart.
+        let indices = _.range(0, 300);
+        let positions = _.map(indices, (i: number) => i < 200 ? 0 : i - 199);
+
+        beforeEach(() => {
+            aggregationThreshold = ScatterChart.AggregationThreshold;
+            ScatterChart.AggregationThreshold = 100;
+
+            element = powerbitests.helpers.testDom('500', '500');
+            v = new ScatterVisualBuilder().build();
+            v.init({
+                element: element,
+                host: powerbitests.mocks.createVisualHostServices(),
+                style: powerbi.visuals.visualStyles.create(),
+                viewport: {
+                    height: element.height(),
+                    width: element.width()
+                },
+                animation: { transitionImmediate: true },
+            });
+        });
+
+        afterEach(() => {
+            ScatterChart.AggregationThreshold = aggregationThreshold;
+        });
+
+        function setData(count: number): void {
+            v.onDataChanged({
+                dataViews: [{
+                    metadata: dataViewMetadata,
+                    categorical: {
+                        categories: [{
+                            source: dataViewMetadata.columns[0],
+                            values: _.map(indices.slice(0, count), (i: number) => 'c' + i),
+                            identity: _.map(indices.slice(0, count), (i: number) => mocks.dataViewScopeIdentity('c' + i)),
+                        }],
+                        values: DataViewTransform.createValueColumns([
+                            {
+                                source: dataViewMetadata.columns[1],
+                                values: positions.slice(0, count),
+                            }, {
+                                source: dataViewMetadata.columns[2],
+                                values: positions.slice(0, count),
+                            }])
+                    }
+                }]
+            });
+        }
+
+        it('aggregates markers drawn on top of each other', () => {
+            setData(300);
+
+            let markers = element.find('.dot');
+            expect(markers.length).toBe(101);
+        });
+
+        it('keeps the exact tooltips of aggregated markers', () => {
+            setData(300);
+
+            let dataPoint = <powerbi.visuals.ScatterChartDataPoint>d3.select(element.find('.dot')[0]).datum();
+            expect(dataPoint.tooltipInfo).toEqual([{ displayName: 'category', value: 'c0' }, { displayName: 'x', value: '0' }, { displayName: 'y', value: '0' }]);
+        });
+
+        it('selects all the data points of aggregated markers with a rectangle', () => {
+            setData(300);
+
+            let behavior = <ScatterChartWebBehavior>(<any>v).behavior.behaviors[0];
+            behavior.setDragSelectionMode(DragSelectionMode.Rectangle);
+            let dragSelector = <powerbi.visuals.DataPointDragSelector>behavior["dragSelector"];
+            let handleMultiSelection = spyOn(dragSelector["selectionHandler"], "handleMultiSelection");
+
+            let scatterChart = (<any>v).layers[0];
+            let x = scatterChart.xAxisProperties.scale(0);
+            let y = scatterChart.yAxisProperties.scale(0);
+            dragSelector.selectInShape([{ x: x - 1, y: y - 1 }, { x: x + 1, y: y - 1 }, { x: x + 1, y: y + 1 }, { x: x - 1, y: y + 1 }], false);
+
+            expect(element.find('.dot').length).toBe(101);
+            expect(handleMultiSelection.calls.argsFor(0)[0].length).toBe(200);
+        });
+
+        it('does not aggregate below the threshold', () => {
+            setData(100);
+
+            expect(element.find('.dot').length).toBe(100);
+        });
+    });
+
     class ScatterVisualBuilder {
 
         private isMobile: boolean;
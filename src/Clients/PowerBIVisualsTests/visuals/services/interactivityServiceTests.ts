@@ -254,6 +254,38 @@ module powerbitests {
                 expect(mixedBehavior.verifySelectionState([false, true, false, false, false, false, false, false])).toBeTruthy();
             });
 
+            it('Multiple selection replaces the selection', () => {
+                interactivityService.bind(selectableDataPoints, behavior, null);
+                behavior.selectIndex(0, false);
+                interactivityService.handleMultiSelection([selectableDataPoints[2], selectableDataPoints[3]], false);
+                expect(behavior.verifySelectionState([false, false, true, true, false, false])).toBeTruthy();
+                expect(interactivityService.hasSelection()).toBeTruthy();
+            });
+
+            it('Multiple selection adds to the selection', () => {
+                interactivityService.bind(selectableDataPoints, behavior, null);
+                behavior.selectIndex(0, false);
+                interactivityService.handleMultiSelection([selectableDataPoints[0], selectableDataPoints[3]], true);
+                expect(behavior.verifySelectionState([true, false, false, true, false, false])).toBeTruthy();
+            });
+
+            it('Multiple selection treated as replace when host says selection is invalid', () => {
+                host.canSelect = () => false;
+                interactivityService.bind(selectableDataPoints, behavior, null);
+                behavior.selectIndex(0, false);
+                interactivityService.handleMultiSelection([selectableDataPoints[4], selectableDataPoints[5]], true);
+                expect(behavior.verifySelectionState([false, false, false, false, true, true])).toBeTruthy();
+            });
+
+            it('Empty multiple selection clears', () => {
+                spyOn(behavior, "renderSelection");
+                interactivityService.bind(selectableDataPoints, behavior, null);
+                behavior.selectIndex(1, false);
+                interactivityService.handleMultiSelection([], false);
+                expect(behavior.verifyCleared()).toBeTruthy();
+                expect(behavior.renderSelection).toHaveBeenCalledWith(false);
+            });
+
             it('Null identity', () => {
                 let nullIdentity: SelectableDataPoint = {
                     selected: false,
@@ -313,6 +345,20 @@ module powerbitests {
                 expect(host.onSelect).toHaveBeenCalledWith({ visualObjects: [{ objectName: 'dataPoint', selectorsByColumn: undefined }], selectors: [identity.getSelector()] });
             });
 
+            it('Multiple selection sent to host once', () => {
+                let onSelectSpy = spyOn(host, "onSelect");
+                interactivityService.bind(selectableDataPoints, behavior, null);
+                interactivityService.handleMultiSelection([selectableDataPoints[1], selectableDataPoints[4]], false);
+                expect(onSelectSpy.calls.count()).toBe(1);
+                expect(host.onSelect).toHaveBeenCalledWith({
+                    visualObjects: [
+                        { objectName: 'dataPoint', selectorsByColumn: identities[1].getSelectorsByColumn() },
+                        { objectName: 'dataPoint', selectorsByColumn: identities[4].getSelectorsByColumn() },
+                    ],
+                    selectors: [identities[1].getSelector(), identities[4].getSelector()],
+                });
+            });
+
             it('ContextMenu request sent to host', () => {
                 let categoryA = mocks.dataViewScopeIdentity('A');
                 let categoryColumn: powerbi.DataViewCategoryColumn = {
@@ -0,0 +1,186 @@
+/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved. 
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *   
+ *  The above copyright notice and this permission notice shall be included in 
+ *  all copies or substantial portions of the Software.
+ *   
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR 
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, 
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE 
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER 
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+/// <reference path="../../_references.ts"/>
+
+module powerbitests {
+    import MapUtil = powerbi.visuals.MapUtil;
+    import services = powerbi.visuals.services;
+    import GeocodeQuery = services.GeocodeQuery;
+
+    describe("OfflineGeocoderTests", () => {
+        let geocoder: powerbi.IGeocoder;
+        let cache: _.Dictionary<powerbi.IGeocodeCoordinate>;
+        let cacheService: services.IGeocodingCache;
+
+        beforeEach(() => {
+            cache = {};
+            cacheService = {
+                getCoordinates: (key: string): powerbi.IGeocodeCoordinate => {
+                    return cache[key];
+                },
+
+                registerCoordinates: (key: string, coordinate: powerbi.IGeocodeCoordinate): void => {
+                    cache[key] = coordinate;
+                },
+            };
+
+            geocoder = services.createOfflineGeocoder(undefined, cacheService);
+        });
+
+        function expectValuesCloseTo(actual: Float64Array, expected: number[]): void {
+            expect(actual.length).toBe(expected.length);
+            for (let i = 0; i < expected.length; i++)
+                expect(actual[i]).toBeCloseTo(expected[i], 5);
+        }
+
+        function geocode(query: string, category?: string): powerbi.IGeocodeCoordinate {
+            let result: powerbi.IGeocodeCoordinate;
+            geocoder.geocode(query, category).then((location) => result = location);
+            return result;
+        }
+
+        describe("geocode", () => {
+            it("countries by name, code and alias", () => {
+                let france = { latitude: 46.6, longitude: 2.2 };
+                expect(geocode("France", MapUtil.CategoryTypes.CountryRegion)).toEqual(france);
+                expect(geocode("  france ", MapUtil.CategoryTypes.CountryRegion)).toEqual(france);
+                expect(geocode("FR", MapUtil.CategoryTypes.CountryRegion)).toEqual(france);
+                expect(geocode("UK", MapUtil.CategoryTypes.CountryRegion)).toEqual({ latitude: 54, longitude: -2 });
+            });
+
+            it("category decides between entries of the same name", () => {
+                let canada = { latitude: 56.1, longitude: -106.3 };
+                let california = { latitude: 37.2, longitude: -119.5 };
+                expect(geocode("CA", MapUtil.CategoryTypes.CountryRegion)).toEqual(canada);
+                expect(geocode("CA", MapUtil.CategoryTypes.StateOrProvince)).toEqual(california);
+                expect(geocode("CA")).toEqual(canada);
+                expect(geocode("Washington", MapUtil.CategoryTypes.City)).toEqual({ latitude: 38.9072, longitude: -77.0369 });
+                expect(geocode("Washington", MapUtil.CategoryTypes.StateOrProvince)).toEqual({ latitude: 47.4, longitude: -120.5 });
+            });
+
+            it("cities qualified by state or country", () => {
+                let portlandOregon = { latitude: 45.5152, longitude: -122.6784 };
+                let portlandMaine = { latitude: 43.6591, longitude: -70.2568 };
+                expect(geocode("Portland", MapUtil.CategoryTypes.City)).toEqual(portlandOregon);
+                expect(geocode("Portland, ME", MapUtil.CategoryTypes.City)).toEqual(portlandMaine);
+                expect(geocode("Portland, Maine, USA", MapUtil.CategoryTypes.City)).toEqual(portlandMaine);
+                expect(geocode("Paris, France", MapUtil.CategoryTypes.City)).toEqual({ latitude: 48.8566, longitude: 2.3522 });
+                expect(geocode("Paris, Texas", MapUtil.CategoryTypes.City)).toBeUndefined();
+            });
+
+            it("postal codes", () => {
+                expect(geocode("98052", MapUtil.CategoryTypes.PostalCode)).toEqual({ latitude: 47.6694, longitude: -122.1239 });
+                expect(geocode("98052")).toEqual({ latitude: 47.6694, longitude: -122.1239 });
+            });
+
+            it("unknown locations and categories are rejected", () => {
+                let rejected = false;
+                geocoder.geocode("Atlantis", MapUtil.CategoryTypes.City).then(null, () => { rejected = true; });
+                expect(rejected).toBe(true);
+
+                expect(geocode("King", MapUtil.CategoryTypes.County)).toBeUndefined();
+                expect(geocode("", MapUtil.CategoryTypes.City)).toBeUndefined();
+            });
+
+            it("results are shared through the geocoding cache", () => {
+                expect(geocoder.tryGeocodeImmediate("Seattle", MapUtil.CategoryTypes.City)).toEqual({ latitude: 47.6062, longitude: -122.3321 });
+                expect(cache[new GeocodeQuery("Seattle", MapUtil.CategoryTypes.City).key]).toEqual({ latitude: 47.6062, longitude: -122.3321 });
+
+                cache[new GeocodeQuery("Gotham", MapUtil.CategoryTypes.City).key] = { latitude: 1, longitude: 2 };
+                expect(geocode("Gotham", MapUtil.CategoryTypes.City)).toEqual({ latitude: 1, longitude: 2 });
+            });
+        });
+
+        describe("geocodeBoundary", () => {
+            function geocodeBoundary(latitude: number, longitude: number, category: string, maxGeoData?: number): powerbi.IGeocodeBoundaryCoordinate {
+                let result: powerbi.IGeocodeBoundaryCoordinate;
+                geocoder.geocodeBoundary(latitude, longitude, category, 2, maxGeoData).then((boundary) => result = boundary);
+                return result;
+            }
+
+            it("bounds of the entry containing the point", () => {
+                let boundary = geocodeBoundary(47.4, -120.5, MapUtil.CategoryTypes.StateOrProvince);
+                expect(boundary.latitude).toBe(47.4);
+                expect(boundary.longitude).toBe(-120.5);
+                expect(boundary.locations.length).toBe(1);
+
+                let ring = MapUtil.parseEncodedSpatialValueArray(boundary.locations[0].nativeBing);
+                expect(_.map(ring, (value: number) => Math.round(value * 10) / 10)).toEqual([45.5, -124.8, 49, -124.8, 49, -116.9, 45.5, -116.9, 45.5, -124.8]);
+            });
+
+            it("boundary polygons of a custom gazetteer", () => {
+                let gazetteer: services.IGazetteer = {
+                    countries: [],
+                    statesOrProvinces: [{
+                        name: "Islands",
+                        latitude: 1,
+                        longitude: 1,
+                        boundary: [[0, 0, 1, 0, 1, 1, 0, 0], [2, 2, 3, 2, 3, 3, 2, 2], [4, 4, 5, 4, 5, 5, 4, 4]],
+                    }],
+                    cities: [],
+                    postalCodes: [],
+                };
+                geocoder = services.createOfflineGeocoder(gazetteer, cacheService);
+
+                let boundary = geocodeBoundary(1, 1, MapUtil.CategoryTypes.StateOrProvince, 2);
+                expect(boundary.locations.length).toBe(2);
+                expectValuesCloseTo(MapUtil.parseEncodedSpatialValueArray(boundary.locations[1].nativeBing), [2, 2, 3, 2, 3, 3, 2, 2]);
+
+                expect(geocodeBoundary(10, 10, MapUtil.CategoryTypes.StateOrProvince)).toBeUndefined();
+            });
+
+            it("requires a category", () => {
+                expect(geocodeBoundary(47.4, -120.5, "")).toBeUndefined();
+            });
+        });
+
+        it("geocodePoint resolves the closest city", () => {
+            let resource: powerbi.IGeocodeResource;
+            geocoder.geocodePoint(47.65, -122.2).then((result) => resource = result);
+
+            expect(resource.locality).toBe("Redmond");
+            expect(resource.adminDistrict).toBe("WA");
+            expect(resource.countryRegion).toBe("United States");
+            expect(resource.countryRegionIso2).toBe("US");
+            expect(resource.formattedAddress).toBe("Redmond, WA, United States");
+        });
+
+        it("setGeocoderProvider replaces the geocoder of createGeocoder", () => {
+            let offlineGeocoder = services.createOfflineGeocoder();
+            services.setGeocoderProvider(() => offlineGeocoder);
+            expect(services.createGeocoder()).toBe(offlineGeocoder);
+
+            services.setGeocoderProvider();
+            expect(services.createGeocoder().geocode).toBe(services.geocode);
+        });
+
+        it("encodeSpatialValueArray is read back by parseEncodedSpatialValueArray", () => {
+            let values = [47.60621, -122.33207, 47.60621, -122.33207, -33.86882, 151.20929, 0, 0];
+            expectValuesCloseTo(MapUtil.parseEncodedSpatialValueArray(MapUtil.encodeSpatialValueArray(values)), values);
+        });
+    });
+}
@@ -0,0 +1,292 @@
+/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved. 
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *   
+ *  The above copyright notice and this permission notice shall be included in 
+ *  all copies or substantial portions of the Software.
+ *   
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR 
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, 
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE 
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER 
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+/// <reference path="../_references.ts"/>
+
+module powerbitests {
+    import DataViewTransform = powerbi.data.DataViewTransform;
+    import GeoJsonUtil = powerbi.visuals.GeoJsonUtil;
+    import PrimitiveType = powerbi.PrimitiveType;
+    import ShapeMap = powerbi.visuals.ShapeMap;
+    import shapeMapProjection = powerbi.visuals.shapeMapProjection;
+    import ValueType = powerbi.ValueType;
+
+    powerbitests.mocks.setLocale();
+
+    function square(x: number, y: number, size: number = 1): number[][][] {
+        return [[[x, y], [x + size, y], [x + size, y + size], [x, y + size], [x, y]]];
+    }
+
+    const geoJson = {
+        type: 'FeatureCollection',
+        features: [
+            { type: 'Feature', id: 'A', properties: { name: 'Alpha' }, geometry: { type: 'Polygon', coordinates: square(0, 0) } },
+            { type: 'Feature', id: 'B', properties: { name: 'Bravo' }, geometry: { type: 'MultiPolygon', coordinates: [square(2, 0), square(4, 0, 0.5)] } },
+            { type: 'Feature', id: 'C', properties: { name: 'Charlie' }, geometry: { type: 'Polygon', coordinates: square(0, 2) } },
+        ],
+    };
+
+    describe("ShapeMap", () => {
+        let categoryColumn: powerbi.DataViewMetadataColumn = { displayName: 'Territory', queryName: 'select0', roles: { Category: true }, type: ValueType.fromPrimitiveTypeAndCategory(PrimitiveType.Text) };
+        let gradientColumn: powerbi.DataViewMetadataColumn = { displayName: 'Sales', queryName: 'select1', isMeasure: true, roles: { Gradient: true }, type: ValueType.fromPrimitiveTypeAndCategory(PrimitiveType.Double) };
+        let categoryColumnRef = powerbi.data.SQExprBuilder.fieldDef({ schema: 's', entity: 'e', column: 'Territory' });
+
+        function createDataView(categoryValues: string[], objects: powerbi.DataViewObjects, categoryObjects?: powerbi.DataViewObjects[]): powerbi.DataView {
+            return {
+                metadata: {
+                    columns: [categoryColumn, gradientColumn],
+                    objects: objects,
+                },
+                categorical: {
+                    categories: [{
+                        source: categoryColumn,
+                        values: categoryValues,
+                        identity: _.map(categoryValues, value => mocks.dataViewScopeIdentity(value)),
+                        identityFields: [categoryColumnRef],
+                        objects: categoryObjects,
+                    }],
+                    values: DataViewTransform.createValueColumns([{
+                        source: gradientColumn,
+                        values: _.map(categoryValues, (value, index) => (index + 1) * 100),
+                    }]),
+                },
+            };
+        }
+
+        function shapeObjects(projection: string = shapeMapProjection.planar, keyProperty?: string): powerbi.DataViewObjects {
+            return {
+                shape: {
+                    map: JSON.stringify(geoJson),
+                    projection: projection,
+                    keyProperty: keyProperty,
+                },
+            };
+        }
+
+        it("registered capabilities", () => {
+            expect(powerbi.visuals.plugins.shapeMap.capabilities).toBe(powerbi.visuals.shapeMapCapabilities);
+        });
+
+        it("FormatString property should match calculated", () => {
+            expect(powerbi.data.DataViewObjectDescriptors.findFormatString(powerbi.visuals.shapeMapCapabilities.objects)).toEqual(powerbi.visuals.shapeMapProps.general.formatString);
+        });
+
+        describe("converter", () => {
+            let colorHelper: powerbi.visuals.ColorHelper;
+            let features: powerbi.visuals.GeoJsonFeature[];
+
+            beforeEach(() => {
+                colorHelper = new powerbi.visuals.ColorHelper(powerbi.visuals.visualStyles.create().colorPalette.dataColors, powerbi.visuals.shapeMapProps.dataPoint.fill, '#123456');
+                features = GeoJsonUtil.getFeatures(geoJson);
+            });
+
+            it("matches the locations to the id and the properties of the features", () => {
+                let data = ShapeMap.converter(createDataView(['a', 'Bravo', 'Delta'], undefined), colorHelper, features);
+
+                expect(_.map(data.dataPoints, d => d.feature.id)).toEqual(['A', 'B']);
+                expect(_.map(data.unmatchedFeatures, d => d.id)).toEqual(['C']);
+                expect(data.dataPoints[1].value).toBe(200);
+                expect(data.dataPoints[1].fill).toBe('#123456');
+                expect(data.dataPoints[1].tooltipInfo).toEqual([{ displayName: 'Territory', value: 'Bravo' }, { displayName: 'Sales', value: '200' }]);
+            });
+
+            it("matches the locations to the key property only when it is set", () => {
+                let data = ShapeMap.converter(createDataView(['A', 'Bravo'], undefined), colorHelper, features, 'name');
+
+                expect(_.map(data.dataPoints, d => d.feature.id)).toEqual(['B']);
+            });
+
+            it("uses the fill of the data point from the fill rule", () => {
+                let categoryObjects: powerbi.DataViewObjects[] = [{ dataPoint: { fill: { solid: { color: '#FF0000' } } } }, undefined];
+                let data = ShapeMap.converter(createDataView(['A', 'B'], undefined, categoryObjects), colorHelper, features);
+
+                expect(data.dataPoints[0].fill).toBe('#FF0000');
+                expect(data.dataPoints[0].stroke).toBe('#C00000');
+                expect(data.dataPoints[1].fill).toBe('#123456');
+            });
+        });
+
+        describe("createProjection", () => {
+            let features: powerbi.visuals.GeoJsonFeature[];
+            let viewport: powerbi.IViewport = { width: 116, height: 116 };
+
+            beforeEach(() => {
+                features = GeoJsonUtil.getFeatures(geoJson);
+            });
+
+            it("planar fits the coordinates into the viewport with the y axis up", () => {
+                // The map is 4.5 wide and 3 high, so the width limits the scale to 100 / 4.5
+                let projection = ShapeMap.createProjection(shapeMapProjection.planar, features, viewport);
+                let scale = 100 / 4.5;
+
+                expect(projection.project([0, 0])[0]).toBeCloseTo(ShapeMap.Padding, 6);
+                expect(projection.project([4.5, 0])[0]).toBeCloseTo(ShapeMap.Padding + 100, 6);
+                expect(projection.project([0, 0])[1]).toBeCloseTo(58 + 1.5 * scale, 6);
+                expect(projection.project([0, 3])[1]).toBeCloseTo(58 - 1.5 * scale, 6);
+            });
+
+            it("geographic projections keep the map in the viewport", () => {
+                for (let projectionType of [shapeMapProjection.mercator, shapeMapProjection.equirectangular, shapeMapProjection.orthographic, shapeMapProjection.transverseMercator]) {
+                    let projection = ShapeMap.createProjection(projectionType, features, viewport);
+                    let bounds = projection.path.bounds({ type: 'FeatureCollection', features: features });
+
+                    expect(bounds[0][0]).toBeGreaterThan(ShapeMap.Padding - 0.5);
+                    expect(bounds[0][1]).toBeGreaterThan(ShapeMap.Padding - 0.5);
+                    expect(bounds[1][0]).toBeLessThan(viewport.width - ShapeMap.Padding + 0.5);
+                    expect(bounds[1][1]).toBeLessThan(viewport.height - ShapeMap.Padding + 0.5);
+                }
+            });
+
+            it("is null without features or room", () => {
+                expect(ShapeMap.createProjection(shapeMapProjection.mercator, [], viewport)).toBeNull();
+                expect(ShapeMap.createProjection(shapeMapProjection.mercator, features, { width: 10, height: 10 })).toBeNull();
+            });
+        });
+
+        describe("DOM", () => {
+            let element: JQuery;
+            let visual: ShapeMap;
+
+            beforeEach(() => {
+                element = powerbitests.helpers.testDom('200', '300');
+                visual = new ShapeMap({ behavior: new powerbi.visuals.MapBehavior(), tooltipsEnabled: true });
+                visual.init({
+                    element: element,
+                    host: powerbitests.mocks.createVisualHostServices(),
+                    style: powerbi.visuals.visualStyles.create(),
+                    viewport: {
+                        height: element.height(),
+                        width: element.width(),
+                    },
+                    animation: { transitionImmediate: true },
+                });
+            });
+
+            it("draws a shape for each polygon with data and the other features in the background", () => {
+                visual.onDataChanged({ dataViews: [createDataView(['A', 'B'], shapeObjects())] });
+
+                expect(element.find('.mapShapes .shape').length).toBe(3);
+                expect(element.find('.backgroundShapes .shape').length).toBe(1);
+                helpers.assertColorsMatch(element.find('.backgroundShapes .shape').css('fill'), ShapeMap.EmptyShapeFill);
+            });
+
+            it("draws nothing without a map", () => {
+                visual.onDataChanged({ dataViews: [createDataView(['A', 'B'], undefined)] });
+
+                expect(element.find('.shape').length).toBe(0);
+            });
+
+            it("labels the largest polygon of each data point", () => {
+                let objects = shapeObjects();
+                objects['categoryLabels'] = { show: true };
+                visual.onDataChanged({ dataViews: [createDataView(['A', 'B'], objects)] });
+
+                let labels = element.find('.label');
+                expect(labels.length).toBe(2);
+                expect(_.map(labels, label => $(label).text()).sort()).toEqual(['A', 'B']);
+            });
+
+            it("dims the shapes that are not selected", () => {
+                visual.onDataChanged({ dataViews: [createDataView(['A', 'B'], shapeObjects())] });
+
+                let shapes = element.find('.mapShapes .shape');
+                (<any>shapes.first()).d3Click(0, 0);
+
+                shapes = element.find('.mapShapes .shape');
+                expect(shapes[0].style.fillOpacity).toBe(powerbi.visuals.ColumnUtil.DefaultOpacity.toString());
+                expect(shapes[1].style.fillOpacity).toBe(powerbi.visuals.ColumnUtil.DimmedOpacity.toString());
+            });
+
+            it("enumerates the shape", () => {
+                visual.onDataChanged({ dataViews: [createDataView(['A', 'B'], shapeObjects(shapeMapProjection.planar, 'name'))] });
+
+                let instances = (<powerbi.VisualObjectInstanceEnumerationObject>visual.enumerateObjectInstances({ objectName: 'shape' })).instances;
+                expect(instances[0].properties['projection']).toBe(shapeMapProjection.planar);
+                expect(instances[0].properties['keyProperty']).toBe('name');
+            });
+        });
+    });
+
+    describe("GeoJsonUtil", () => {
+        it("parses GeoJSON features", () => {
+            let features = GeoJsonUtil.parse(JSON.stringify(geoJson));
+
+            expect(features.length).toBe(3);
+            expect(features[1].properties).toEqual({ name: 'Bravo' });
+            expect(GeoJsonUtil.getPolygons(features[1].geometry).length).toBe(2);
+        });
+
+        it("ignores text that is not a map", () => {
+            expect(GeoJsonUtil.parse('not json')).toBeNull();
+            expect(GeoJsonUtil.parse('')).toBeNull();
+            expect(GeoJsonUtil.parse('{}')).toBeNull();
+        });
+
+        it("converts the objects of a topology, stitching shared arcs", () => {
+            let topology = {
+                type: 'Topology',
+                objects: {
+                    territories: {
+                        type: 'GeometryCollection',
+                        geometries: [
+                            { type: 'Polygon', id: 'L', properties: { name: 'Left' }, arcs: [[-1, -2]] },
+                            { type: 'Polygon', id: 'R', arcs: [[0, 2]] },
+                        ],
+                    },
+                },
+                arcs: [
+                    [[0, 0], [0, 1]],
+                    [[0, 1], [-1, 1], [-1, 0], [0, 0]],
+                    [[0, 1], [1, 1], [1, 0], [0, 0]],
+                ],
+            };
+            let features = GeoJsonUtil.parse(JSON.stringify(topology));
+
+            expect(features.length).toBe(2);
+            expect(features[0].id).toBe('L');
+            expect(features[0].properties).toEqual({ name: 'Left' });
+            expect(features[0].geometry).toEqual({ type: 'Polygon', coordinates: [[[0, 1], [0, 0], [-1, 0], [-1, 1], [0, 1]]] });
+            expect(features[1].properties).toEqual({});
+            expect(features[1].geometry.coordinates).toEqual([[[0, 0], [0, 1], [1, 1], [1, 0], [0, 0]]]);
+        });
+
+        it("decodes quantized topologies", () => {
+            let topology: powerbi.visuals.TopoJsonTopology = {
+                type: 'Topology',
+                transform: { scale: [0.5, 0.25], translate: [10, 20] },
+                objects: {
+                    line: { type: 'LineString', arcs: [0] },
+                    point: { type: 'Point', coordinates: [2, 4] },
+                },
+                arcs: [[[0, 0], [2, 4], [2, 0]]],
+            };
+            let features = GeoJsonUtil.topologyToFeatures(topology);
+
+            expect(features[0].geometry.coordinates).toEqual([[10, 20], [11, 21], [12, 21]]);
+            expect(features[1].geometry.coordinates).toEqual([11, 21]);
+        });
+    });
+}
@@ -49,9 +49,9 @@ module powerbitests {
             expect(visuals.slicerCapabilities.dataViewMappings.length).toBe(1);
         });
 
-        it("Capabilities should have condition", () => {
-            expect(visuals.slicerCapabilities.dataViewMappings[0].conditions.length).toBe(1);
-            expect(visuals.slicerCapabilities.dataViewMappings[0].conditions[0][powerbi.visuals.slicerCapabilities.dataRoles[0].name].max).toBe(1);
+        it("Capabilities should not limit the number of fields", () => {
+            // Multiple fields are rendered as a hierarchy.
+            expect(visuals.slicerCapabilities.dataViewMappings[0].conditions).toBeUndefined();
         });
 
         it("Capabilities should include dataRoles", () => {
@@ -0,0 +1,349 @@
+/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved. 
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *   
+ *  The above copyright notice and this permission notice shall be included in 
+ *  all copies or substantial portions of the Software.
+ *   
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR 
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, 
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE 
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER 
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+/// <reference path="../_references.ts"/>
+
+module powerbitests {
+    import CartesianChartType = powerbi.visuals.CartesianChartType;
+    import ColumnUtil = powerbi.visuals.ColumnUtil;
+    import DataViewTransform = powerbi.data.DataViewTransform;
+    import PrimitiveType = powerbi.PrimitiveType;
+    import SmallMultiplesChart = powerbi.visuals.SmallMultiplesChart;
+    import SQExprBuilder = powerbi.data.SQExprBuilder;
+    import ValueType = powerbi.ValueType;
+
+    powerbitests.mocks.setLocale();
+
+    const monthField = SQExprBuilder.fieldDef({ schema: 's', entity: 'Sales', column: 'Month' });
+    const regionField = SQExprBuilder.fieldDef({ schema: 's', entity: 'Sales', column: 'Region' });
+
+    describe("SmallMultiplesChart", () => {
+        let dataViewMetadata: powerbi.DataViewMetadata = {
+            columns: [
+                {
+                    displayName: 'Month',
+                    queryName: 'Month',
+                    type: ValueType.fromPrimitiveTypeAndCategory(PrimitiveType.Text),
+                    roles: { Category: true }
+                },
+                {
+                    displayName: 'Region',
+                    queryName: 'Region',
+                    type: ValueType.fromPrimitiveTypeAndCategory(PrimitiveType.Text),
+                    roles: { SmallMultiples: true }
+                },
+                {
+                    displayName: 'Sales',
+                    queryName: 'Sales',
+                    isMeasure: true,
+                    type: ValueType.fromPrimitiveTypeAndCategory(PrimitiveType.Double),
+                    roles: { Y: true }
+                }
+            ],
+        };
+
+        // North has all three months, South has no sales in February.
+        function createDataView(
+            metadata: powerbi.DataViewMetadata = dataViewMetadata,
+            regions: string[] = ['North', 'North', 'North', 'South', 'South']): powerbi.DataView {
+            let months = ['Jan', 'Feb', 'Mar', 'Jan', 'Mar'];
+
+            // Like the categories of a query, the category and SmallMultiples columns share one identity per row
+            let identityFields = [monthField, regionField];
+            let identities = _.map(months, (month: string, index: number) => powerbi.data.createDataViewScopeIdentity(SQExprBuilder.and(
+                SQExprBuilder.equal(monthField, SQExprBuilder.text(month)),
+                SQExprBuilder.equal(regionField, SQExprBuilder.text(regions[index])))));
+
+            return {
+                metadata: metadata,
+                categorical: {
+                    categories: [
+                        {
+                            source: dataViewMetadata.columns[0],
+                            values: months,
+                            identity: identities,
+                            identityFields: identityFields,
+                        },
+                        {
+                            source: dataViewMetadata.columns[1],
+                            values: regions,
+                            identity: identities,
+                            identityFields: identityFields,
+                        }
+                    ],
+                    values: DataViewTransform.createValueColumns([{
+                        source: dataViewMetadata.columns[2],
+                        values: [100, 200, 300, 400, 1000],
+                    }])
+                }
+            };
+        }
+
+        describe("capabilities", () => {
+            let capabilities = powerbi.visuals.getSmallMultiplesCapabilities(powerbi.visuals.getColumnChartCapabilities());
+
+            it("should register the small multiples charts", () => {
+                expect(powerbi.visuals.plugins.smallMultiplesAreaChart).toBeDefined();
+                expect(powerbi.visuals.plugins.smallMultiplesColumnChart).toBeDefined();
+                expect(powerbi.visuals.plugins.smallMultiplesLineChart).toBeDefined();
+                expect(powerbi.visuals.plugins.smallMultiplesScatterChart).toBeDefined();
+            });
+
+            it("adds the SmallMultiples role", () => {
+                let role = _.find(capabilities.dataRoles, (role: powerbi.VisualDataRole) => role.name === 'SmallMultiples');
+                expect(role).toBeDefined();
+                expect(role.kind).toBe(powerbi.VisualDataRoleKind.Grouping);
+            });
+
+            it("selects the SmallMultiples role with the categories", () => {
+                let mapping = capabilities.dataViewMappings[0];
+                let categories = <powerbi.DataViewListRoleMappingWithReduction>mapping.categorical.categories;
+
+                expect(capabilities.dataViewMappings.length).toBe(1);
+                expect(categories.select).toEqual([{ for: { in: 'Category' } }, { bind: { to: 'SmallMultiples' } }]);
+                for (let condition of mapping.conditions)
+                    expect(condition['SmallMultiples']).toEqual({ max: 1 });
+            });
+
+            it("keeps the objects of the chart", () => {
+                expect(capabilities.objects['legend']).toBeDefined();
+                expect(capabilities.objects['smallMultiples']).toBeDefined();
+            });
+        });
+
+        describe("splitDataView", () => {
+            it("keeps the data view without a SmallMultiples column", () => {
+                let dataView = createDataView();
+                dataView.categorical.categories.pop();
+
+                let panels = SmallMultiplesChart.splitDataView(dataView, true);
+                expect(panels.length).toBe(1);
+                expect(panels[0].dataView).toBe(dataView);
+            });
+
+            it("creates a panel per value of the SmallMultiples column", () => {
+                let panels = SmallMultiplesChart.splitDataView(createDataView(), false);
+
+                expect(panels.length).toBe(2);
+                expect(panels[0].title).toBe('North');
+                expect(panels[1].title).toBe('South');
+                expect(panels[0].key).not.toEqual(panels[1].key);
+
+                let south = panels[1].dataView;
+                expect(south.categorical.categories.length).toBe(1);
+                expect(south.categorical.categories[0].values).toEqual(['Jan', 'Mar']);
+                expect(south.categorical.values[0].values).toEqual([400, 1000]);
+                expect(_.map(south.metadata.columns, (column: powerbi.DataViewMetadataColumn) => column.displayName)).toEqual(['Month', 'Sales']);
+            });
+
+            it("gives every panel all the categories when aligning the categories", () => {
+                let panels = SmallMultiplesChart.splitDataView(createDataView(), true);
+
+                let south = panels[1].dataView;
+                expect(south.categorical.categories[0].values).toEqual(['Jan', 'Feb', 'Mar']);
+                expect(south.categorical.categories[0].identity[1].key).toBe(panels[0].dataView.categorical.categories[0].identity[1].key);
+                expect(south.categorical.values[0].values).toEqual([400, null, 1000]);
+            });
+
+            it("identifies the categories apart from the panels", () => {
+                let panels = SmallMultiplesChart.splitDataView(createDataView(), false);
+
+                let northMonths = panels[0].dataView.categorical.categories[0];
+                let southMonths = panels[1].dataView.categorical.categories[0];
+                expect(southMonths.identity[0].key).toBe(northMonths.identity[0].key);
+                expect(southMonths.identity[1].key).toBe(northMonths.identity[2].key);
+                expect(southMonths.identity[0].key).not.toBe(southMonths.identity[1].key);
+                expect(southMonths.identityFields).toEqual([monthField]);
+                expect(powerbi.data.SQExpr.equals(<powerbi.data.SQExpr>southMonths.identity[0].expr, SQExprBuilder.equal(monthField, SQExprBuilder.text('Jan')))).toBe(true);
+            });
+
+            it("keeps the series groups", () => {
+                let seriesColumn: powerbi.DataViewMetadataColumn = {
+                    displayName: 'Channel',
+                    queryName: 'Channel',
+                    type: ValueType.fromPrimitiveTypeAndCategory(PrimitiveType.Text),
+                    roles: { Series: true }
+                };
+                let dataView = createDataView();
+                let webObjects: powerbi.DataViewObjects = { dataPoint: { fill: { solid: { color: '#FF0000' } } } };
+                dataView.categorical.values = DataViewTransform.createValueColumns([
+                    {
+                        source: <powerbi.DataViewMetadataColumn>_.extend({ groupName: 'Web' }, dataViewMetadata.columns[2]),
+                        values: [1, 2, 3, 4, 5],
+                        identity: mocks.dataViewScopeIdentity('Web'),
+                    },
+                    {
+                        source: <powerbi.DataViewMetadataColumn>_.extend({ groupName: 'Store' }, dataViewMetadata.columns[2]),
+                        values: [10, 20, 30, 40, 50],
+                        identity: mocks.dataViewScopeIdentity('Store'),
+                    }], undefined, seriesColumn);
+                let groups = dataView.categorical.values.grouped();
+                groups[0].objects = webObjects;
+                DataViewTransform.setGrouped(dataView.categorical.values, groups);
+
+                let panels = SmallMultiplesChart.splitDataView(dataView, false);
+                let southGroups = panels[1].dataView.categorical.values.grouped();
+
+                expect(panels[1].dataView.categorical.values.source).toBe(seriesColumn);
+                expect(southGroups.length).toBe(2);
+                expect(southGroups[0].objects).toBe(webObjects);
+                expect(southGroups[0].values[0].values).toEqual([4, 5]);
+                expect(southGroups[1].values[0].values).toEqual([40, 50]);
+            });
+        });
+
+        describe("DOM validation", () => {
+            let v: SmallMultiplesChart;
+            let element: JQuery;
+
+            beforeEach(() => {
+                element = powerbitests.helpers.testDom('500', '500');
+                v = new SmallMultiplesChart({
+                    chartType: CartesianChartType.ClusteredColumn,
+                    createBehavior: () => new powerbi.visuals.CartesianChartBehavior([new powerbi.visuals.ColumnChartWebBehavior()]),
+                });
+                v.init({
+                    element: element,
+                    host: powerbitests.mocks.createVisualHostServices(),
+                    style: powerbi.visuals.visualStyles.create(),
+                    viewport: {
+                        height: element.height(),
+                        width: element.width()
+                    },
+                    animation: { transitionImmediate: true }
+                });
+            });
+
+            it("renders a titled panel per value", (done) => {
+                v.onDataChanged({ dataViews: [createDataView()] });
+                setTimeout(() => {
+                    let panels = $('.smallMultiplesPanel');
+                    expect(panels.length).toBe(2);
+                    expect(panels.eq(0).find('.smallMultiplesPanelTitle').text()).toBe('North');
+                    expect(panels.eq(1).find('.smallMultiplesPanelTitle').text()).toBe('South');
+                    expect(panels.eq(0).find('.cartesianChart').length).toBe(1);
+                    expect(panels.eq(0).find('.column').length).toBe(3);
+                    expect(panels.eq(1).find('.column').length).toBe(2);
+                    expect(element.children('.legend').length).toBe(1);
+                    done();
+                }, DefaultWaitForRender);
+            });
+
+            it("removes the panels left over", (done) => {
+                v.onDataChanged({ dataViews: [createDataView()] });
+                v.onDataChanged({ dataViews: [createDataView(dataViewMetadata, ['North', 'North', 'North', 'North', 'North'])] });
+                setTimeout(() => {
+                    expect($('.smallMultiplesPanel').length).toBe(1);
+                    done();
+                }, DefaultWaitForRender);
+            });
+
+            it("hides the legend from the formatting options", (done) => {
+                let seriesColumn: powerbi.DataViewMetadataColumn = {
+                    displayName: 'Channel',
+                    queryName: 'Channel',
+                    type: ValueType.fromPrimitiveTypeAndCategory(PrimitiveType.Text),
+                    roles: { Series: true }
+                };
+                let createSeriesDataView = (metadata: powerbi.DataViewMetadata) => {
+                    let dataView = createDataView(metadata);
+                    dataView.categorical.values = DataViewTransform.createValueColumns([
+                        {
+                            source: <powerbi.DataViewMetadataColumn>_.extend({ groupName: 'Web' }, dataViewMetadata.columns[2]),
+                            values: [1, 2, 3, 4, 5],
+                            identity: mocks.dataViewScopeIdentity('Web'),
+                        },
+                        {
+                            source: <powerbi.DataViewMetadataColumn>_.extend({ groupName: 'Store' }, dataViewMetadata.columns[2]),
+                            values: [10, 20, 30, 40, 50],
+                            identity: mocks.dataViewScopeIdentity('Store'),
+                        }], undefined, seriesColumn);
+                    return dataView;
+                };
+
+                v.onDataChanged({ dataViews: [createSeriesDataView(dataViewMetadata)] });
+                setTimeout(() => {
+                    expect(element.find('.legendItem').length).toBe(2);
+
+                    let metadata: powerbi.DataViewMetadata = {
+                        columns: dataViewMetadata.columns,
+                        objects: { legend: { show: false } },
+                    };
+                    v.onDataChanged({ dataViews: [createSeriesDataView(metadata)] });
+                    setTimeout(() => {
+                        expect(element.find('.legendItem').length).toBe(0);
+                        done();
+                    }, DefaultWaitForRender);
+                }, DefaultWaitForRender);
+            });
+
+            it("shares the value axis", (done) => {
+                v.onDataChanged({ dataViews: [createDataView()] });
+                setTimeout(() => {
+                    let getLastTick = (panel: JQuery) => panel.find('.y.axis .tick').last().find('title').text();
+                    let panels = $('.smallMultiplesPanel');
+                    expect(getLastTick(panels.eq(0))).toBe(getLastTick(panels.eq(1)));
+                    done();
+                }, DefaultWaitForRender);
+            });
+
+            it("keeps independent value axes", (done) => {
+                let metadata: powerbi.DataViewMetadata = {
+                    columns: dataViewMetadata.columns,
+                    objects: { smallMultiples: { sharedAxes: false, showTitles: false } },
+                };
+                v.onDataChanged({ dataViews: [createDataView(metadata)] });
+                setTimeout(() => {
+                    let getLastTick = (panel: JQuery) => panel.find('.y.axis .tick').last().find('title').text();
+                    let panels = $('.smallMultiplesPanel');
+                    expect(getLastTick(panels.eq(0))).not.toBe(getLastTick(panels.eq(1)));
+                    expect(panels.eq(1).find('.column').length).toBe(2);
+                    expect(panels.eq(0).find('.smallMultiplesPanelTitle').css('display')).toBe('none');
+                    done();
+                }, DefaultWaitForRender);
+            });
+
+            it("selects the category in all the panels", (done) => {
+                v.onDataChanged({ dataViews: [createDataView()] });
+                setTimeout(() => {
+                    let interactivityService = <powerbi.visuals.InteractivityService>(<any>v).interactivityService;
+                    expect(interactivityService.selectableDataPoints.length).toBe(6);
+
+                    // Select January in the first panel
+                    interactivityService.handleSelection(interactivityService.selectableDataPoints[0], false);
+
+                    let northColumns = $('.smallMultiplesPanel').eq(0).find('.column');
+                    let southColumns = $('.smallMultiplesPanel').eq(1).find('.column');
+                    expect(parseFloat(northColumns.eq(0).css('fill-opacity'))).toBeCloseTo(ColumnUtil.DefaultOpacity, 1);
+                    expect(parseFloat(northColumns.eq(1).css('fill-opacity'))).toBeCloseTo(ColumnUtil.DimmedOpacity, 1);
+                    expect(parseFloat(southColumns.eq(0).css('fill-opacity'))).toBeCloseTo(ColumnUtil.DefaultOpacity, 1);
+                    expect(parseFloat(southColumns.eq(1).css('fill-opacity'))).toBeCloseTo(ColumnUtil.DimmedOpacity, 1);
+                    done();
+                }, DefaultWaitForRender);
+            });
+        });
+    });
+}
@@ -1259,6 +1259,7 @@ module powerbitests {
                         totals: true,
                         autoSizeColumnWidth: true,
                         textSize: 8,
+                        frozenColumns: 0,
                     }
                 }]
             });
@@ -1275,6 +1276,7 @@ module powerbitests {
                         totals: false,
                         autoSizeColumnWidth: true,
                         textSize: 8,
+                        frozenColumns: 0,
                     }
                 }]
             });
@@ -1293,6 +1295,7 @@ module powerbitests {
                     properties: {
                         autoSizeColumnWidth: true,
                         textSize: 8,
+                        frozenColumns: 0,
                     }
                 }]
             });
@@ -1323,6 +1326,7 @@ module powerbitests {
                         totals: true,
                         autoSizeColumnWidth: true,
                         textSize: 8,
+                        frozenColumns: 0,
                     }
                 }]
             });
@@ -1346,6 +1350,7 @@ module powerbitests {
                         totals: true,
                         autoSizeColumnWidth: false,
                         textSize: 8,
+                        frozenColumns: 0,
                     }
                 }]
             });
@@ -1362,11 +1367,128 @@ module powerbitests {
                         totals: true,
                         autoSizeColumnWidth: true,
                         textSize: 8,
+                        frozenColumns: 0,
                     }
                 }]
             });
         });
 
+        it("enumerateObjectInstances general frozen columns", () => {
+            let dataView = _.cloneDeep(tableOneMeasureOneGroupColumnWidthTrue);
+            dataView.metadata.objects["general"]["frozenColumns"] = 1;
+            v.onDataChanged({ dataViews: [dataView] });
+
+            expect(v.enumerateObjectInstances({ objectName: "general" })).toEqual({
+                instances: [{
+                    selector: null,
+                    objectName: "general",
+                    properties: {
+                        totals: true,
+                        autoSizeColumnWidth: true,
+                        textSize: 8,
+                        frozenColumns: 1,
+                    }
+                }]
+            });
+        });
+
+        it("frozen columns are applied to the tablix control", () => {
+            let dataView = _.cloneDeep(tableOneMeasureOneGroupColumnWidthTrue);
+            dataView.metadata.objects["general"]["frozenColumns"] = 1.7;
+            v.onDataChanged({ dataViews: [dataView] });
+
+            let control = <TablixControl>v["tablixControl"];
+            expect(control.frozenColumnCount).toBe(1);
+            expect(control.columnDimension.getFrozenItemsCount()).toBe(1);
+            expect(control.columnDimension.getItemsCount()).toBe(1);
+
+            dataView.metadata.objects["general"]["frozenColumns"] = -3;
+            v.onDataChanged({ dataViews: [dataView] });
+            expect(control.frozenColumnCount).toBe(0);
+            expect(control.columnDimension.getItemsCount()).toBe(2);
+        });
+
+        it("shift-click on column headers extends the sort", () => {
+            v.onDataChanged({ dataViews: [tableTwoGroups] });
+            let sortSpy = spyOn(v["hostServices"], "onCustomSort");
+
+            v["onColumnHeaderClick"]("group1", SortDirection.Ascending, false);
+            v["onColumnHeaderClick"]("group2", SortDirection.Descending, true);
+            v["onColumnHeaderClick"]("group1", SortDirection.Descending, true);
+
+            expect(sortSpy.calls.count()).toBe(3);
+            expect(sortSpy.calls.argsFor(2)[0].sortDescriptors).toEqual([
+                { queryName: "group1", sortDirection: SortDirection.Descending },
+                { queryName: "group2", sortDirection: SortDirection.Descending },
+            ]);
+            expect(v["getSortOrdinal"]("group1")).toBe(1);
+            expect(v["getSortOrdinal"]("group2")).toBe(2);
+
+            v["onColumnHeaderClick"]("group2", SortDirection.Ascending, false);
+            expect(sortSpy.calls.mostRecent().args[0].sortDescriptors).toEqual([
+                { queryName: "group2", sortDirection: SortDirection.Ascending },
+            ]);
+            expect(v["getSortOrdinal"]("group2")).toBeUndefined();
+        });
+
+        it("sort order of the sorted columns is kept across data changes", () => {
+            let dataView = _.cloneDeep(tableTwoGroups);
+            dataView.table.columns[0].sort = SortDirection.Ascending;
+            dataView.table.columns[1].sort = SortDirection.Descending;
+            v["sortDescriptors"] = [{ queryName: "group2", sortDirection: SortDirection.Ascending }];
+
+            v.onDataChanged({ dataViews: [dataView] });
+
+            expect(v["sortDescriptors"]).toEqual([
+                { queryName: "group2", sortDirection: SortDirection.Descending },
+                { queryName: "group1", sortDirection: SortDirection.Ascending },
+            ]);
+        });
+
+        it("column filter is persisted as the self filter", () => {
+            let entity = powerbi.data.SQExprBuilder.entity("s", "e");
+            let column = <DataViewMetadataColumn>_.extend({}, groupSource1, { expr: powerbi.data.SQExprBuilder.columnRef(entity, "group1") });
+            let dataView: DataView = {
+                metadata: { columns: [column] },
+                table: { columns: [column], rows: [["A"], ["B"], ["C"]] },
+            };
+            v.onDataChanged({ dataViews: [dataView] });
+            let persistSpy = spyOn(v["hostServices"], "persistProperties");
+
+            v["onColumnFilterClick"](column, element.get(0));
+            expect(element.find(".tablixFilterMenu").length).toBe(1);
+
+            v["applyColumnFilter"]("group1", Controls.internal.TablixColumnFilter.createExcludedValuesCondition(column, ["B"]));
+            expect(element.find(".tablixFilterMenu").length).toBe(0);
+
+            let changes = <powerbi.VisualObjectInstancesToPersist>persistSpy.calls.mostRecent().args[0];
+            let filter = <powerbi.data.SemanticFilter>changes.merge[0].properties["selfFilter"];
+            expect(changes.merge[0].objectName).toBe("general");
+            expect(_.keys(Controls.internal.TablixColumnFilter.getColumnConditions(filter, [column]))).toEqual(["group1"]);
+
+            v["applyColumnFilter"]("group1", undefined);
+            changes = persistSpy.calls.mostRecent().args[0];
+            expect(changes.remove[0].objectName).toBe("general");
+        });
+
+        it("column filter menu lists the excluded values", () => {
+            let entity = powerbi.data.SQExprBuilder.entity("s", "e");
+            let column = <DataViewMetadataColumn>_.extend({}, groupSource1, { expr: powerbi.data.SQExprBuilder.columnRef(entity, "group1") });
+            let filter = Controls.internal.TablixColumnFilter.createFilter({ "group1": Controls.internal.TablixColumnFilter.createExcludedValuesCondition(column, ["B"]) });
+            let dataView: DataView = {
+                metadata: { columns: [column], objects: { general: { selfFilter: filter } } },
+                table: { columns: [column], rows: [["A"], ["C"]] },
+            };
+            v.onDataChanged({ dataViews: [dataView] });
+
+            v["onColumnFilterClick"](column, element.get(0));
+
+            let items = element.find(".tablixFilterItem");
+            expect(items.text()).toBe("ACB");
+            expect(items.find("input:checked").length).toBe(2);
+            expect(items.last().find("input").prop("checked")).toBe(false);
+        });
+
         it("enumerateObjectRepetition - conditional formatting", () => {
             v = new Table();
             v.init({
@@ -3332,6 +3454,135 @@ module powerbitests {
         });
     });
 
+    describe("Table right-to-left layout", () => {
+        let element: JQuery;
+
+        beforeEach(() => {
+            element = powerbitests.helpers.testDom("500", "500");
+            element["visible"] = () => { return true; };
+        });
+
+        function initTable(locale: string): powerbi.IVisual {
+            let host = powerbitests.mocks.createVisualHostServices();
+            host.locale = () => locale;
+
+            let v = new Table();
+            v.init({
+                element: element,
+                host: host,
+                style: powerbi.visuals.visualStyles.create(),
+                viewport: {
+                    height: element.height(),
+                    width: element.width()
+                },
+                animation: { transitionImmediate: true },
+                interactivity: {
+                    selection: true
+                }
+            });
+            v.onDataChanged({ dataViews: [tableTwoGroupsThreeMeasures] });
+            return v;
+        }
+
+        it("lays the columns out from right to left for a right-to-left locale", (done) => {
+            initTable("he-IL");
+            setTimeout(() => {
+                expect($(".tablixTableArea").attr("dir")).toBe("rtl");
+                expect($(".tableFooterArea").attr("dir")).toBe("rtl");
+                done();
+            }, DefaultWaitForRender);
+        });
+
+        it("keeps the left to right layout for other locales", (done) => {
+            initTable("en-US");
+            setTimeout(() => {
+                expect($(".tablixTableArea").attr("dir")).toBeUndefined();
+                done();
+            }, DefaultWaitForRender);
+        });
+
+        function createColumnHeaderCell(v: powerbi.IVisual): Controls.internal.TablixCell {
+            let control = <TablixControl>v["tablixControl"];
+            let row = new Controls.internal.TablixRow(new Controls.internal.CanvasRowPresenter(false));
+            row.initialize(control.layoutManager.grid);
+
+            let presenter = new Controls.internal.TablixCellPresenter(false, Controls.TablixLayoutKind.Canvas);
+            presenter.registerTableCell(document.createElement("td"));
+
+            let cell = new Controls.internal.TablixCell(presenter, presenter, row);
+            cell._column = <any>{
+                itemType: Controls.TablixCellType.ColumnHeader,
+                getLeafItem: () => null,
+                getContentContextualWidth: () => 100,
+            };
+            return cell;
+        }
+
+        it("scrolls the columns out past their right edge for a right-to-left locale", (done) => {
+            let v = initTable("he-IL");
+            setTimeout(() => {
+                let cell = createColumnHeaderCell(v);
+                cell._presenter.onHorizontalScroll(100, -20);
+
+                let contentHost = cell.extension.contentHost;
+                expect(contentHost.style.right).toBe("-20px");
+                expect(contentHost.style.left).toBe("");
+                done();
+            }, DefaultWaitForRender);
+        });
+
+        it("scrolls the columns out past their left edge for other locales", (done) => {
+            let v = initTable("en-US");
+            setTimeout(() => {
+                let cell = createColumnHeaderCell(v);
+                cell._presenter.onHorizontalScroll(100, -20);
+
+                let contentHost = cell.extension.contentHost;
+                expect(contentHost.style.left).toBe("-20px");
+                expect(contentHost.style.right).toBe("");
+                done();
+            }, DefaultWaitForRender);
+        });
+
+        it("widens a right-to-left column when its left edge is dragged to the left", (done) => {
+            let v = initTable("he-IL");
+            setTimeout(() => {
+                let cell = createColumnHeaderCell(v);
+                let control = <TablixControl>v["tablixControl"];
+                let columnLayoutManager = <Controls.internal.ColumnLayoutManager>control.layoutManager.columnLayoutManager;
+
+                spyOn(window, "requestAnimationFrame");
+                columnLayoutManager.onStartResize(cell, 0, 0);
+                columnLayoutManager.onResize(cell, -30, 0);
+                expect(columnLayoutManager["_resizeState"].resizingDelta).toBe(30);
+                done();
+            }, DefaultWaitForRender);
+        });
+
+        it("places the column resize handle on the left edge for a right-to-left locale", (done) => {
+            let v = initTable("he-IL");
+            setTimeout(() => {
+                let cell = createColumnHeaderCell(v);
+                let tableCell = cell.extension.tableCell;
+                spyOn(tableCell, "getBoundingClientRect").and.returnValue({ left: 100, right: 200, top: 0, bottom: 20, width: 100, height: 20 });
+
+                let resizer = new Controls.internal.TablixDomResizer(cell, tableCell, null);
+                expect(resizer._hotSpot({ x: 102, y: 10 })).toBe(true);
+                expect(resizer._hotSpot({ x: 198, y: 10 })).toBe(false);
+                done();
+            }, DefaultWaitForRender);
+        });
+
+        it("ignores sort clicks on the resize handle at the left edge of a right-to-left column header", () => {
+            let colHeader = <any>{ offsetWidth: 100 };
+
+            expect(TablixUtils.isValidSortClick(<any>{ target: colHeader, offsetX: 2 }, true)).toBe(false);
+            expect(TablixUtils.isValidSortClick(<any>{ target: colHeader, offsetX: 98 }, true)).toBe(true);
+            expect(TablixUtils.isValidSortClick(<any>{ target: colHeader, offsetX: 2 }, false)).toBe(true);
+            expect(TablixUtils.isValidSortClick(<any>{ target: colHeader, offsetX: 98 }, false)).toBe(false);
+        });
+    });
+
     describe("Table sort validation", () => {
         let element: JQuery;
 
@@ -0,0 +1,250 @@
+/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved. 
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *   
+ *  The above copyright notice and this permission notice shall be included in 
+ *  all copies or substantial portions of the Software.
+ *   
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR 
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, 
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE 
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER 
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+/// <reference path="../_references.ts"/>
+
+module powerbitests {
+    import CartesianChart = powerbi.visuals.CartesianChart;
+    import CartesianChartType = powerbi.visuals.CartesianChartType;
+    import DataViewTransform = powerbi.data.DataViewTransform;
+    import PrimitiveType = powerbi.PrimitiveType;
+    import ValueType = powerbi.ValueType;
+    import ZoomableAxes = powerbi.visuals.ZoomableAxes;
+
+    powerbitests.mocks.setLocale();
+
+    describe("ZoomableAxes", () => {
+        let zoomableAxes: ZoomableAxes;
+
+        beforeEach(() => {
+            zoomableAxes = new ZoomableAxes();
+            zoomableAxes.setFullDomain({ min: 0, max: 100 });
+        });
+
+        it("is not zoomed initially", () => {
+            expect(zoomableAxes.isZoomed()).toBe(false);
+            expect(zoomableAxes.getZoomedDomain()).toBeUndefined();
+        });
+
+        it("keeps the zoomed domain inside the full domain", () => {
+            zoomableAxes.setZoomedDomain({ min: 90, max: 120 });
+            expect(zoomableAxes.getZoomedDomain()).toEqual({ min: 70, max: 100 });
+
+            zoomableAxes.setZoomedDomain({ min: 10, max: -20 });
+            expect(zoomableAxes.getZoomedDomain()).toEqual({ min: 0, max: 30 });
+        });
+
+        it("resets when zoomed out to the full domain", () => {
+            zoomableAxes.setZoomedDomain({ min: 20, max: 40 });
+            zoomableAxes.setZoomedDomain({ min: -10, max: 110 });
+            expect(zoomableAxes.isZoomed()).toBe(false);
+
+            zoomableAxes.setZoomedDomain({ min: 20, max: 40 });
+            zoomableAxes.reset();
+            expect(zoomableAxes.isZoomed()).toBe(false);
+        });
+
+        it("zooms around the focus value", () => {
+            zoomableAxes.zoom(4, 20);
+            expect(zoomableAxes.getZoomedDomain()).toEqual({ min: 15, max: 40 });
+
+            zoomableAxes.zoom(0.5);
+            expect(zoomableAxes.getZoomedDomain()).toEqual({ min: 2.5, max: 52.5 });
+
+            zoomableAxes.zoom(0.1);
+            expect(zoomableAxes.isZoomed()).toBe(false);
+        });
+
+        it("does not zoom in beyond the minimum span", () => {
+            zoomableAxes.zoom(1e6, 50);
+            let domain = zoomableAxes.getZoomedDomain();
+            expect(domain.max - domain.min).toBeCloseTo(100 * ZoomableAxes.MinZoomSpanRatio, 6);
+            expect(domain.min + domain.max).toBeCloseTo(100, 6);
+        });
+
+        it("pans within the full domain", () => {
+            zoomableAxes.pan(10);
+            expect(zoomableAxes.isZoomed()).toBe(false);
+
+            zoomableAxes.setZoomedDomain({ min: 20, max: 40 });
+            zoomableAxes.pan(10);
+            expect(zoomableAxes.getZoomedDomain()).toEqual({ min: 30, max: 50 });
+
+            zoomableAxes.pan(100);
+            expect(zoomableAxes.getZoomedDomain()).toEqual({ min: 80, max: 100 });
+
+            zoomableAxes.pan(-100);
+            expect(zoomableAxes.getZoomedDomain()).toEqual({ min: 0, max: 20 });
+        });
+
+        it("clamps the zoomed domain to a new full domain", () => {
+            zoomableAxes.setZoomedDomain({ min: 60, max: 80 });
+            zoomableAxes.setFullDomain({ min: 0, max: 70 });
+            expect(zoomableAxes.getZoomedDomain()).toEqual({ min: 50, max: 70 });
+        });
+
+        describe("getCategoryIndexRange", () => {
+            it("includes the nearest category on either side of the domain", () => {
+                expect(ZoomableAxes.getCategoryIndexRange([0, 10, 20, 30, 40, 50], { min: 15, max: 35 })).toEqual({ startIndex: 1, endIndex: 4 });
+                expect(ZoomableAxes.getCategoryIndexRange([0, 10, 20, 30, 40, 50], { min: 0, max: 50 })).toEqual({ startIndex: 0, endIndex: 5 });
+            });
+
+            it("includes the categories around a domain between two categories", () => {
+                expect(ZoomableAxes.getCategoryIndexRange([0, 10, 20, 30], { min: 12, max: 18 })).toEqual({ startIndex: 1, endIndex: 2 });
+            });
+
+            it("supports dates and null categories", () => {
+                let dates = [new Date(2016, 0, 1), null, new Date(2016, 0, 3), new Date(2016, 0, 4), new Date(2016, 0, 5)];
+                let domain = { min: new Date(2016, 0, 3).getTime(), max: new Date(2016, 0, 3, 12).getTime() };
+                expect(ZoomableAxes.getCategoryIndexRange(dates, domain)).toEqual({ startIndex: 0, endIndex: 3 });
+            });
+
+            it("does not filter categories that are not ascending numbers", () => {
+                expect(ZoomableAxes.getCategoryIndexRange([0, 20, 10], { min: 5, max: 15 })).toBeUndefined();
+                expect(ZoomableAxes.getCategoryIndexRange(['a', 'b'], { min: 5, max: 15 })).toBeUndefined();
+            });
+        });
+    });
+
+    describe("CartesianChart zoom", () => {
+        let dataViewMetadata: powerbi.DataViewMetadata = {
+            columns: [
+                {
+                    displayName: 'Day',
+                    queryName: 'Day',
+                    type: ValueType.fromPrimitiveTypeAndCategory(PrimitiveType.Double),
+                    roles: { Category: true }
+                },
+                {
+                    displayName: 'Sales',
+                    queryName: 'Sales',
+                    isMeasure: true,
+                    type: ValueType.fromPrimitiveTypeAndCategory(PrimitiveType.Double),
+                    roles: { Y: true }
+                }
+            ],
+        };
+
+        function createDataView(): powerbi.DataView {
+            let days = _.range(0, 101);
+            return {
+                metadata: dataViewMetadata,
+                categorical: {
+                    categories: [{
+                        source: dataViewMetadata.columns[0],
+                        values: days,
+                        identity: _.map(days, (day: number) => mocks.dataViewScopeIdentity(day)),
+                    }],
+                    values: DataViewTransform.createValueColumns([{
+                        source: dataViewMetadata.columns[1],
+                        values: _.map(days, (day: number) => day * 10),
+                    }])
+                }
+            };
+        }
+
+        let v: CartesianChart;
+        let element: JQuery;
+
+        function createChart(options: powerbi.visuals.CartesianConstructorOptions): void {
+            v = new CartesianChart(options);
+            v.init({
+                element: element,
+                host: powerbitests.mocks.createVisualHostServices(),
+                style: powerbi.visuals.visualStyles.create(),
+                viewport: {
+                    height: element.height(),
+                    width: element.width()
+                },
+                animation: { transitionImmediate: true }
+            });
+        }
+
+        function getXTickValues(): number[] {
+            return _.map(element.find('.x.axis .tick title'), (title: Element) => parseFloat($(title).text()));
+        }
+
+        beforeEach(() => {
+            element = powerbitests.helpers.testDom('500', '500');
+        });
+
+        it("shows the brush strip of a zoomable scalar axis", () => {
+            createChart({ chartType: CartesianChartType.Line, isZoomable: true, showZoomBrush: true });
+            v.onDataChanged({ dataViews: [createDataView()] });
+
+            expect(element.find('.zoomBrush').length).toBe(1);
+            expect(element.find('.zoomReset').length).toBe(0);
+            expect(v.getZoomableAxes().getFullDomain()).toEqual({ min: 0, max: 100 });
+        });
+
+        it("does not zoom unless the chart is zoomable", () => {
+            createChart({ chartType: CartesianChartType.Line });
+            v.onDataChanged({ dataViews: [createDataView()] });
+
+            expect(element.find('.zoomBrush').length).toBe(0);
+            expect(v.getZoomableAxes().getFullDomain()).toBeUndefined();
+        });
+
+        it("renders the zoomed domain and filters the data to it", () => {
+            createChart({ chartType: CartesianChartType.Line, isZoomable: true });
+            v.onDataChanged({ dataViews: [createDataView()] });
+            expect(element.find('.zoomBrush').length).toBe(0);
+
+            let setFilteredData = spyOn(powerbi.visuals.LineChart.prototype, 'setFilteredData').and.callThrough();
+            v.getZoomableAxes().setZoomedDomain({ min: 20, max: 40 });
+            v.onResizing({ height: 500, width: 500 });
+
+            let ticks = getXTickValues();
+            expect(_.first(ticks)).not.toBeLessThan(20);
+            expect(_.last(ticks)).not.toBeGreaterThan(40);
+            expect(setFilteredData).toHaveBeenCalledWith(19, 42);
+            expect(element.find('.zoomReset').length).toBe(1);
+        });
+
+        it("resets the zoom with the reset button", () => {
+            createChart({ chartType: CartesianChartType.Line, isZoomable: true });
+            v.onDataChanged({ dataViews: [createDataView()] });
+            v.getZoomableAxes().setZoomedDomain({ min: 20, max: 40 });
+            v.onResizing({ height: 500, width: 500 });
+
+            (<any>element.find('.zoomReset')).d3Click(0, 0);
+
+            expect(v.getZoomableAxes().isZoomed()).toBe(false);
+            expect(element.find('.zoomReset').length).toBe(0);
+            expect(_.last(getXTickValues())).toBe(100);
+        });
+
+        it("resets the zoom when the data changes", () => {
+            createChart({ chartType: CartesianChartType.Line, isZoomable: true });
+            v.onDataChanged({ dataViews: [createDataView()] });
+            v.getZoomableAxes().setZoomedDomain({ min: 20, max: 40 });
+
+            v.onDataChanged({ dataViews: [createDataView()] });
+
+            expect(v.getZoomableAxes().isZoomed()).toBe(false);
+        });
+    });
+}
@@ -13,9 +13,12 @@
 /// <reference path="./types/axisStyle.ts"/>
 /// <reference path="./types/axisType.ts"/>
 /// <reference path="./types/basicShapeType.ts"/>
+/// <reference path="./types/boxWhiskerType.ts"/>
+/// <reference path="./types/candlestickChartStyle.ts"/>
 /// <reference path="./types/confidenceBandStyle.ts"/>
 /// <reference path="./types/forecastUnits.ts"/>
 /// <reference path="./types/forecastConfidenceIntervals.ts"/>
+/// <reference path="./types/iconSetStyle.ts"/>
 /// <reference path="./types/imageScalingType.ts"/>
 /// <reference path="./types/labelPosition.ts"/>
 /// <reference path="./types/labelStyle.ts"/>
@@ -24,8 +27,11 @@
 /// <reference path="./types/kpi_direction_type.ts"/>
 /// <reference path="./types/lineStyle.ts"/>
 /// <reference path="./types/outline.ts"/>
+/// <reference path="./types/referenceBandType.ts"/>
 /// <reference path="./types/referenceLinePosition.ts"/>
+/// <reference path="./types/shapeMapProjection.ts"/>
 /// <reference path="./types/slicerOrientation.ts"/>
+/// <reference path="./types/trendLineType.ts"/>
 /// <reference path="./types/yAxisPosition.ts"/>
 /// <reference path="./types/slicerMode.ts"/>
 /// <reference path="./animators/animatorCommon.ts"/>
@@ -36,6 +42,8 @@
 /// <reference path="./capabilities/dataViewObjectProperties.ts"/>
 /// <reference path="./capabilities/animatedNumber.capabilities.ts"/>
 /// <reference path="./capabilities/basicShape.capabilities.ts"/>
+/// <reference path="./capabilities/boxAndWhiskerChart.capabilities.ts"/>
+/// <reference path="./capabilities/candlestickChart.capabilities.ts"/>
 /// <reference path="./capabilities/columnChart.capabilities.ts"/>
 /// <reference path="./capabilities/comboChart.capabilities.ts"/>
 /// <reference path="./capabilities/donutChart.capabilities.ts"/>
@@ -54,6 +62,8 @@
 /// <reference path="./capabilities/textbox.capabilities.ts"/>
 /// <reference path="./capabilities/sampleVisual.capabilities.ts"/>
 /// <reference path="./capabilities/scatterChart.capabilities.ts"/>
+/// <reference path="./capabilities/shapeMap.capabilities.ts"/>
+/// <reference path="./capabilities/smallMultiples.capabilities.ts"/>
 /// <reference path="./capabilities/slicer.capabilities.ts"/>
 /// <reference path="./capabilities/table.capabilities.ts"/>
 /// <reference path="./capabilities/matrix.capabilities.ts"/>
@@ -62,6 +72,8 @@
 /// <reference path="./capabilities/waterfallChart.capabilities.ts"/>
 /// <reference path="./capabilities/kpiStatusWithHistory.capabilities.ts"/>
 /// <reference path="./pluginsCapabilities.ts"/>
+/// <reference path="./behaviours/boxAndWhiskerChartBehavior.ts"/>
+/// <reference path="./behaviours/candlestickChartBehavior.ts"/>
 /// <reference path="./behaviours/columnChartBehaviors.ts"/>
 /// <reference path="./behaviours/dataDotChartBehavior.ts"/>
 /// <reference path="./behaviours/donutChartBehaviors.ts"/>
@@ -73,6 +85,7 @@
 /// <reference path="./behaviours/horizontalSlicerBehaviors.ts"/>
 /// <reference path="./behaviours/verticalSlicerBehaviors.ts"/>
 /// <reference path="./behaviours/slicerBehaviors.ts"/>
+/// <reference path="./behaviours/smallMultiplesBehavior.ts"/>
 /// <reference path="./behaviours/legendBehaviors.ts"/>
 /// <reference path="./behaviours/treemapBehaviors.ts"/>
 /// <reference path="./behaviours/waterfallChartBehavior.ts"/>
@@ -82,6 +95,7 @@
 /// <reference path="./common/axisHelper.ts"/>
 /// <reference path="./common/basicShapeUtils.ts"/>
 /// <reference path="./common/cartesianHelper.ts"/>
+/// <reference path="./common/highContrastHelper.ts"/>
 /// <reference path="./common/colorHelper.ts"/>
 /// <reference path="./common/columnChartUtil.ts"/>
 /// <reference path="./common/converterHelper.ts"/>
@@ -90,9 +104,13 @@
 /// <reference path="./common/newDataLabelUtils.ts"/>
 /// <reference path="./common/kpiUtil.ts"/>
 /// <reference path="./common/dateUtil.ts"/>
+/// <reference path="./common/geoJsonUtil.ts"/>
 /// <reference path="./common/labelDataPointSorter.ts"/>
 /// <reference path="./common/referenceLineHelper.ts"/>
+/// <reference path="./common/rightToLeftHelper.ts"/>
 /// <reference path="./common/interactivityUtils.ts"/>
+/// <reference path="./common/dataPointKeyboardNavigator.ts"/>
+/// <reference path="./common/dataPointDragSelector.ts"/>
 /// <reference path="./common/invalidDataValuesChecker.ts"/>
 /// <reference path="./common/listView.ts"/>
 /// <reference path="./common/mapUtil.ts"/>
@@ -101,6 +119,7 @@
 /// <reference path="./common/slicerUtil.ts"/>
 /// <reference path="./common/tooltipUtils.ts"/>
 /// <reference path="./common/svgUtil.ts"/>
+/// <reference path="./common/svgExportUtil.ts"/>
 /// <reference path="./common/textUtil.ts"/>
 /// <reference path="./common/gradientHelper.ts"/>
 /// <reference path="./common/visualBackgroundHelper.ts"/>
@@ -111,6 +130,7 @@
 /// <reference path="./common/visibilityUtil.ts"/>
 /// <reference path="./common/visualObjectRepetition.ts"/>
 /// <reference path="./common/forecastHelper.ts"/>
+/// <reference path="./common/downsamplingHelper.ts"/>
 /// <reference path="./converter/slicer.converter.ts"/>
 /// <reference path="./formatting/dataLabelManager.ts"/>
 /// <reference path="./formatting/labelLayout.ts"/>
@@ -120,6 +140,8 @@
 /// <reference path="./services/defaultVisualHostService.ts"/>
 /// <reference path="./services/interactivityService.ts"/>
 /// <reference path="./services/geocoder.ts"/>
+/// <reference path="./services/offlineGeocoder.ts"/>
+/// <reference path="./services/gazetteer.ts"/>
 /// <reference path="./services/geocodingCache.ts"/>
 /// <reference path="./services/geolocationService.ts"/>
 /// <reference path="./controls/scrollbar/scrollbar.ts"/>
@@ -130,6 +152,8 @@
 /// <reference path="./controls/tablix/internal/tablixGrid.ts"/>
 /// <reference path="./controls/tablix/internal/tablixLayoutManager.ts"/>
 /// <reference path="./controls/tablix/internal/tablixUtils.ts"/>
+/// <reference path="./controls/tablix/internal/tablixConditionalFormatting.ts"/>
+/// <reference path="./controls/tablix/internal/tablixFilterMenu.ts"/>
 /// <reference path="./controls/tablix/iTablixHierarchyNavigator.ts"/>
 /// <reference path="./controls/tablix/iTablixBinder.ts"/>
 /// <reference path="./controls/tablix/iTablixLayoutManager.ts"/>
@@ -144,6 +168,7 @@
 /// <reference path="./visuals/animatedNumber.ts"/>
 /// <reference path="./visuals/basicShape.ts"/>
 /// <reference path="./controls/scrollbar/svgScrollbar.ts"/>
+/// <reference path="./cartesian/zoomableAxes.ts"/>
 /// <reference path="./cartesian/cartesianChart.ts"/>
 /// <reference path="./cartesian/columnChart.ts"/>
 /// <reference path="./cartesian/columnChartClustered.ts"/>
@@ -158,6 +183,7 @@
 /// <reference path="./visuals/kpiStatusWithHistory.ts"/>
 /// <reference path="./cartesian/lineChart.ts"/>
 /// <reference path="./visuals/map.ts"/>
+/// <reference path="./visuals/shapeMap.ts"/>
 /// <reference path="./visuals/multiRowCard.ts"/>
 /// <reference path="./visuals/textbox.ts"/>
 /// <reference path="./visuals/sampleVisual.ts"/>
@@ -165,6 +191,8 @@
 /// <reference path="./cartesian/playChart.ts"/>
 /// <reference path="./visuals/verticalSlicer.ts"/>
 /// <reference path="./visuals/horizontalSlicer.ts"/>
+/// <reference path="./visuals/rangeSlicer.ts"/>
+/// <reference path="./visuals/hierarchySlicer.ts"/>
 /// <reference path="./visuals/slicer.ts"/>
 /// <reference path="./visuals/table.ts"/>
 /// <reference path="./visuals/matrix.ts"/>
@@ -173,6 +201,9 @@
 /// <reference path="./visuals/owlGauge.ts"/>
 /// <reference path="./warnings/visualWarnings.ts"/>
 /// <reference path="./cartesian/waterfallChart.ts"/>
+/// <reference path="./cartesian/boxAndWhiskerChart.ts"/>
+/// <reference path="./cartesian/candlestickChart.ts"/>
+/// <reference path="./cartesian/smallMultiplesChart.ts"/>
 /// <reference path="./tooltip.ts"/>
 /// <reference path="./styles/visualStyles.ts"/>
 /// <reference path="./visuals/donutChart.ts"/>
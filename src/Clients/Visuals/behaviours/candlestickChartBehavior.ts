@@ -0,0 +1,65 @@
+/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved. 
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *   
+ *  The above copyright notice and this permission notice shall be included in 
+ *  all copies or substantial portions of the Software.
+ *   
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR 
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, 
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE 
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER 
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+/// <reference path="../_references.ts"/>
+
+module powerbi.visuals {
+    export interface CandlestickChartBehaviorOptions {
+        candles: D3.Selection;
+        volumeBars: D3.Selection;
+    }
+
+    export class CandlestickChartWebBehavior {
+        private candles: D3.Selection;
+        private volumeBars: D3.Selection;
+
+        public bindEvents(options: CandlestickChartBehaviorOptions, selectionHandler: ISelectionHandler): void {
+            this.candles = options.candles;
+            this.volumeBars = options.volumeBars;
+
+            for (let shapes of [this.candles, this.volumeBars]) {
+                shapes.on('click', (d: CandlestickChartDataPoint) => {
+                    selectionHandler.handleSelection(d, d3.event.ctrlKey);
+                });
+
+                shapes.on('contextmenu', (d: CandlestickChartDataPoint) => {
+                    if (d3.event.ctrlKey)
+                        return;
+
+                    d3.event.preventDefault();
+
+                    let position = InteractivityUtils.getPositionOfLastInputEvent();
+                    selectionHandler.handleContextMenu(d, position);
+                });
+            }
+        }
+
+        public renderSelection(hasSelection: boolean): void {
+            CandlestickChart.setCandlesOpacity(this.candles, hasSelection);
+            CandlestickChart.setVolumeBarsOpacity(this.volumeBars, hasSelection);
+        }
+    }
+}
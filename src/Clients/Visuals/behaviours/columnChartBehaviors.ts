@@ -40,6 +40,16 @@ module powerbi.visuals {
 
     export class ColumnChartWebBehavior implements IInteractiveBehavior {
         private options: ColumnBehaviorOptions;
+        private keyboardNavigator = new DataPointKeyboardNavigator();
+        private dragSelector: DataPointDragSelector;
+
+        constructor(dragSelectionMode?: DragSelectionMode) {
+            this.dragSelector = new DataPointDragSelector(dragSelectionMode);
+        }
+
+        public setDragSelectionMode(mode: DragSelectionMode): void {
+            this.dragSelector.setMode(mode);
+        }
 
         public bindEvents(options: ColumnBehaviorOptions, selectionHandler: ISelectionHandler) {
             this.options = options;
@@ -62,11 +72,48 @@ module powerbi.visuals {
                 
                 selectionHandler.handleContextMenu(d, position);
             });
+
+            this.keyboardNavigator.bind({
+                container: options.mainGraphicsContext,
+                series: ColumnChartWebBehavior.getKeyboardNavigationSeries(<ColumnChartDataPoint[]>options.datapoints),
+                showFocus: (dataPoint: ColumnChartDataPoint) => this.showFocus(dataPoint),
+                getCategoryIndex: (dataPoint: ColumnChartDataPoint) => dataPoint.categoryIndex,
+            }, selectionHandler);
+
+            this.dragSelector.bind({
+                container: options.mainGraphicsContext,
+                dataPoints: options.bars,
+            }, selectionHandler);
         }
 
         public renderSelection(hasSelection: boolean) {
             let options = this.options;
             options.bars.style("fill-opacity", (d: ColumnChartDataPoint) => ColumnUtil.getFillOpacity(d.selected, d.highlight, !d.highlight && hasSelection, !d.selected && options.hasHighlights));
+            this.keyboardNavigator.renderSelection();
+        }
+
+        /**
+         * Groups the data points by series, in category order; the highlighted portions are not focusable on their own.
+         */
+        private static getKeyboardNavigationSeries(dataPoints: ColumnChartDataPoint[]): ColumnChartDataPoint[][] {
+            let series: ColumnChartDataPoint[][] = [];
+            for (let dataPoint of dataPoints) {
+                if (dataPoint.highlight)
+                    continue;
+
+                let seriesData = series[dataPoint.seriesIndex] || (series[dataPoint.seriesIndex] = []);
+                seriesData.push(dataPoint);
+            }
+
+            return _.map(_.compact(series), (seriesData) => _.sortBy(seriesData, (dataPoint) => dataPoint.categoryIndex));
+        }
+
+        private showFocus(dataPoint: ColumnChartDataPoint): Element {
+            let bars = this.options.bars;
+            bars.classed(DataPointKeyboardNavigator.FocusedClassName, (d: ColumnChartDataPoint) => d === dataPoint);
+
+            if (dataPoint)
+                return bars.filter((d: ColumnChartDataPoint) => d === dataPoint).node();
         }
 
         private static getDatumForLastInputEvent(): any {
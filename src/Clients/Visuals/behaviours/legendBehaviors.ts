@@ -31,15 +31,19 @@ module powerbi.visuals {
         legendItems: D3.Selection;
         legendIcons: D3.Selection;
         clearCatcher: D3.Selection;
+        /** Gets the fill of the icon of a legend item, by default its color or the dimmed color. */
+        getIconFill?: (dataPoint: LegendDataPoint, dimmed: boolean) => string;
     }
 
     export class LegendBehavior implements IInteractiveBehavior {
         public static dimmedLegendColor = '#A6A6A6';
         private legendIcons;
+        private getIconFill: (dataPoint: LegendDataPoint, dimmed: boolean) => string;
 
         public bindEvents(options: LegendBehaviorOptions, selectionHandler: ISelectionHandler): void {
             let legendItems = options.legendItems;
             this.legendIcons = options.legendIcons;
+            this.getIconFill = options.getIconFill || LegendBehavior.getDefaultIconFill;
             let clearCatcher = options.clearCatcher;
 
             InteractivityUtils.registerStandardSelectionHandler(legendItems, selectionHandler);
@@ -50,23 +54,13 @@ module powerbi.visuals {
         }
 
         public renderSelection(hasSelection: boolean): void {
-            if (hasSelection) {
-                this.legendIcons.style({
-                    'fill': (d: LegendDataPoint) => {
-                        if (!d.selected)
-                            return LegendBehavior.dimmedLegendColor;   
-                        else
-                            return d.color;
-                    }
-                });
-            }
-            else {
-                this.legendIcons.style({
-                    'fill': (d: LegendDataPoint) => {
-                        return d.color;
-                    }
-                });
-            }
+            this.legendIcons.style({
+                'fill': (d: LegendDataPoint) => this.getIconFill(d, hasSelection && !d.selected)
+            });
+        }
+
+        public static getDefaultIconFill(dataPoint: LegendDataPoint, dimmed: boolean): string {
+            return dimmed ? LegendBehavior.dimmedLegendColor : dataPoint.color;
         }
     }
 }
\ No newline at end of file
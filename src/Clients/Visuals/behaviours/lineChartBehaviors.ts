@@ -27,8 +27,13 @@
 /// <reference path="../_references.ts"/>
 
 module powerbi.visuals {
+    import ClassAndSelector = jsCommon.CssConstants.ClassAndSelector;
+    import createClassAndSelector = jsCommon.CssConstants.createClassAndSelector;
+
     export interface LineChartBehaviorOptions {
         lines: D3.Selection;
+        /** The series rendered by the lines */
+        series: LineChartSeries[];
         interactivityLines: D3.Selection;
         dots: D3.Selection;
         areas: D3.Selection;
@@ -36,13 +41,22 @@ module powerbi.visuals {
         tooltipOverlay: D3.Selection;
         getCategoryIndex(seriesData: LineChartSeries, pointX: number): number;
         categoryIdentities?: SelectionId[];
+        /** The element that gets the keyboard focus, to traverse the data points with the keyboard */
+        focusContainer?: D3.Selection;
+        /** The element the marker of the data point with the keyboard focus is drawn in */
+        focusMarkerContext?: D3.Selection;
+        getDataPointPosition?(dataPoint: LineChartDataPoint): IPoint;
     }
 
     export class LineChartWebBehavior implements IInteractiveBehavior {
+        private static FocusMarker: ClassAndSelector = createClassAndSelector('keyboardFocusMarker');
+        private static FocusMarkerRadius = 6;
+
         private lines: D3.Selection;
         private dots: D3.Selection;
         private areas: D3.Selection;
         private tooltipOverlay: D3.Selection;
+        private keyboardNavigator = new DataPointKeyboardNavigator();
 
         public bindEvents(options: LineChartBehaviorOptions, selectionHandler: ISelectionHandler): void {
             this.lines = options.lines;
@@ -118,6 +132,15 @@ module powerbi.visuals {
                     tooltipOverlay.on('click', () => selectionHandler.handleClearSelection());
                 }
             }
+
+            if (options.focusContainer) {
+                this.keyboardNavigator.bind({
+                    container: options.focusContainer,
+                    series: _.map(options.series, (series) => _.filter(series.data, (dataPoint) => dataPoint.value != null)),
+                    showFocus: (dataPoint: LineChartDataPoint) => LineChartWebBehavior.showFocus(dataPoint, options),
+                    getCategoryIndex: (dataPoint: LineChartDataPoint) => dataPoint.categoryIndex,
+                }, selectionHandler);
+            }
         }
 
         public renderSelection(hasSelection: boolean) {
@@ -125,6 +148,31 @@ module powerbi.visuals {
             this.dots.style("fill-opacity", (d: SelectableDataPoint) => ColumnUtil.getFillOpacity(d.selected, false, hasSelection, false));
             if (this.areas)
                 this.areas.style("fill-opacity", (d: SelectableDataPoint) => (hasSelection && !d.selected) ? LineChart.DimmedAreaFillOpacity : LineChart.AreaFillOpacity);
+            this.keyboardNavigator.renderSelection();
+        }
+
+        /**
+         * Lines have no element for each data point, so a marker is drawn on the focused data point.
+         */
+        private static showFocus(dataPoint: LineChartDataPoint, options: LineChartBehaviorOptions): Element {
+            let marker = options.focusMarkerContext
+                .selectAll(LineChartWebBehavior.FocusMarker.selector)
+                .data(dataPoint ? [dataPoint] : []);
+
+            marker.enter()
+                .append('circle')
+                .classed(LineChartWebBehavior.FocusMarker.class, true)
+                .classed(DataPointKeyboardNavigator.FocusedClassName, true);
+
+            marker.attr({
+                cx: (d: LineChartDataPoint) => options.getDataPointPosition(d).x,
+                cy: (d: LineChartDataPoint) => options.getDataPointPosition(d).y,
+                r: LineChartWebBehavior.FocusMarkerRadius,
+            });
+
+            marker.exit().remove();
+
+            return marker.node();
         }
 
         private getPointX(rootNode: Element): number {
@@ -34,6 +34,7 @@ module powerbi.visuals {
         xCol: DataViewMetadataColumn;
         yCol: DataViewMetadataColumn;
         dataPoints: ScatterChartDataPoint[];
+        dataPointSeries?: ScatterChartDataPointSeries[];
         legendData: LegendData;
         axesLabels: ChartAxesLabels;
         size?: DataViewMetadataColumn;
@@ -48,6 +49,8 @@ module powerbi.visuals {
         data: ScatterBehaviorChartData;
         plotContext: D3.Selection;
         playOptions?: PlayBehaviorOptions;
+        /** Gets the data points inside a rectangle or lasso selection when the rendered markers are aggregated. */
+        dragSelectionHitTest?(shape: IPoint[]): SelectableDataPoint[];
     }
 
     export interface ScatterMobileBehaviorOptions extends ScatterBehaviorOptions {
@@ -64,6 +67,16 @@ module powerbi.visuals {
         private shouldEnableFill: boolean;
         private colorBorder: boolean;
         private playOptions: PlayBehaviorOptions;
+        private keyboardNavigator = new DataPointKeyboardNavigator();
+        private dragSelector: DataPointDragSelector;
+
+        constructor(dragSelectionMode?: DragSelectionMode) {
+            this.dragSelector = new DataPointDragSelector(dragSelectionMode);
+        }
+
+        public setDragSelectionMode(mode: DragSelectionMode): void {
+            this.dragSelector.setMode(mode);
+        }
 
         public bindEvents(options: ScatterBehaviorOptions, selectionHandler: ISelectionHandler): void {
             let bubbles = this.bubbles = options.dataPointsSelection;
@@ -87,6 +100,18 @@ module powerbi.visuals {
             } else {
                 InteractivityUtils.registerStandardInteractivityHandlers(bubbles, selectionHandler);
             }
+
+            this.keyboardNavigator.bind({
+                container: options.plotContext,
+                series: ScatterChartWebBehavior.getKeyboardNavigationSeries(data),
+                showFocus: (dataPoint: ScatterChartDataPoint) => this.showFocus(dataPoint),
+            }, selectionHandler);
+
+            this.dragSelector.bind({
+                container: options.plotContext,
+                dataPoints: bubbles,
+                hitTest: options.dragSelectionHitTest,
+            }, selectionHandler);
         }
 
         public renderSelection(hasSelection: boolean) {
@@ -105,6 +130,24 @@ module powerbi.visuals {
                     traceLineRenderer.remove();
                 }
             }
+
+            this.keyboardNavigator.renderSelection();
+        }
+
+        /**
+         * Gets the data points of each series ordered along the X axis, which takes the place of the categories.
+         */
+        private static getKeyboardNavigationSeries(data: ScatterBehaviorChartData): ScatterChartDataPoint[][] {
+            let series = data.dataPointSeries ? _.map(data.dataPointSeries, (series) => series.dataPoints || []) : [data.dataPoints];
+            return _.map(series, (dataPoints) => _.sortBy(_.filter(dataPoints, (dataPoint) => dataPoint.x != null && dataPoint.y != null), (dataPoint) => dataPoint.x));
+        }
+
+        private showFocus(dataPoint: ScatterChartDataPoint): Element {
+            let bubbles = this.bubbles;
+            bubbles.classed(DataPointKeyboardNavigator.FocusedClassName, (d: ScatterChartDataPoint) => d === dataPoint);
+
+            if (dataPoint)
+                return bubbles.filter((d: ScatterChartDataPoint) => d === dataPoint).node();
         }
     }
 
@@ -134,7 +134,7 @@ module powerbi.visuals {
             });
         }
         
-        private static bindSlicerSearchEvent(slicerSearch: D3.Selection, selectionHandler: ISelectionHandler, slicerValueHandler: SlicerValueHandler): void {
+        public static bindSlicerSearchEvent(slicerSearch: D3.Selection, selectionHandler: ISelectionHandler, slicerValueHandler: SlicerValueHandler): void {
             if (slicerSearch.empty())
                 return;
 
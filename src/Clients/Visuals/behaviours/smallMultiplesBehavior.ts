@@ -0,0 +1,61 @@
+/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved. 
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *   
+ *  The above copyright notice and this permission notice shall be included in 
+ *  all copies or substantial portions of the Software.
+ *   
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR 
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, 
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE 
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER 
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+/// <reference path="../_references.ts"/>
+
+module powerbi.visuals {
+    /**
+     * The binding of a panel of small multiples, recorded instead of binding the panel to the interactivity service.
+     */
+    export interface SmallMultiplesPanelBinding {
+        dataPoints: SelectableDataPoint[];
+        behavior: IInteractiveBehavior;
+        behaviorOptions: any;
+    }
+
+    export interface SmallMultiplesBehaviorOptions {
+        panels: SmallMultiplesPanelBinding[];
+    }
+
+    /**
+     * Binds the behaviors of all the panels of small multiples to one interactivity service, so selection spans the panels.
+     */
+    export class SmallMultiplesBehavior implements IInteractiveBehavior {
+        private panels: SmallMultiplesPanelBinding[];
+
+        public bindEvents(options: SmallMultiplesBehaviorOptions, selectionHandler: ISelectionHandler): void {
+            this.panels = options.panels;
+
+            for (let panel of this.panels)
+                panel.behavior.bindEvents(panel.behaviorOptions, selectionHandler);
+        }
+
+        public renderSelection(hasSelection: boolean): void {
+            for (let panel of this.panels)
+                panel.behavior.renderSelection(hasSelection);
+        }
+    }
+}
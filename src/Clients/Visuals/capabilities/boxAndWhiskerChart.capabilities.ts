@@ -0,0 +1,181 @@
+/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved. 
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *   
+ *  The above copyright notice and this permission notice shall be included in 
+ *  all copies or substantial portions of the Software.
+ *   
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR 
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, 
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE 
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER 
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+/// <reference path="../_references.ts"/>
+
+module powerbi.visuals {
+    export const boxAndWhiskerChartCapabilities: VisualCapabilities = {
+        dataRoles: [
+            {
+                name: 'Category',
+                kind: VisualDataRoleKind.Grouping,
+                displayName: data.createDisplayNameGetter('Role_DisplayName_Axis'),
+                description: data.createDisplayNameGetter('Role_DisplayName_AxisDescription'),
+                cartesianKind: CartesianRoleKind.X,
+            }, {
+                name: 'Series',
+                kind: VisualDataRoleKind.Grouping,
+                displayName: data.createDisplayNameGetter('Role_DisplayName_Legend'),
+                description: data.createDisplayNameGetter('Role_DisplayName_LegendDescription'),
+            }, {
+                name: 'Details',
+                kind: VisualDataRoleKind.Grouping,
+                displayName: data.createDisplayNameGetter('Role_DisplayName_Details'),
+                description: data.createDisplayNameGetter('Role_DisplayName_DetailsBoxAndWhiskerDescription'),
+            }, {
+                name: 'Y',
+                kind: VisualDataRoleKind.Measure,
+                displayName: data.createDisplayNameGetter('Role_DisplayName_Value'),
+                requiredTypes: [{ numeric: true }, { integer: true }],
+                cartesianKind: CartesianRoleKind.Y,
+            }
+        ],
+        objects: {
+            general: {
+                displayName: data.createDisplayNameGetter('Visual_General'),
+                properties: {
+                    formatString: StandardObjectProperties.formatString,
+                },
+            },
+            legend: {
+                displayName: data.createDisplayNameGetter('Visual_Legend'),
+                description: data.createDisplayNameGetter('Visual_LegendDescription'),
+                properties: {
+                    show: StandardObjectProperties.show,
+                    position: StandardObjectProperties.legendPosition,
+                    showTitle: StandardObjectProperties.showLegendTitle,
+                    titleText: $.extend({}, StandardObjectProperties.legendTitle, {
+                        suppressFormatPainterCopy: true,
+                    }),
+                    labelColor: StandardObjectProperties.labelColor,
+                    fontSize: StandardObjectProperties.fontSize,
+                }
+            },
+            categoryAxis: {
+                displayName: data.createDisplayNameGetter('Visual_XAxis'),
+                properties: {
+                    show: StandardObjectProperties.show,
+                    showAxisTitle: {
+                        displayName: data.createDisplayNameGetter('Visual_Axis_Title'),
+                        description: data.createDisplayNameGetter('Visual_Axis_XTitleDescription'),
+                        type: { bool: true }
+                    },
+                    axisStyle: StandardObjectProperties.axisStyle,
+                    labelColor: StandardObjectProperties.labelColor,
+                }
+            },
+            valueAxis: {
+                displayName: data.createDisplayNameGetter('Visual_YAxis'),
+                properties: {
+                    show: StandardObjectProperties.show,
+                    position: StandardObjectProperties.yAxisPosition,
+                    start: StandardObjectProperties.axisStart,
+                    end: StandardObjectProperties.axisEnd,
+                    showAxisTitle: {
+                        displayName: data.createDisplayNameGetter('Visual_Axis_Title'),
+                        description: data.createDisplayNameGetter('Visual_Axis_YTitleDescription'),
+                        type: { bool: true }
+                    },
+                    axisStyle: StandardObjectProperties.axisStyle,
+                    labelColor: StandardObjectProperties.labelColor,
+                    labelDisplayUnits: StandardObjectProperties.labelDisplayUnits,
+                    labelPrecision: StandardObjectProperties.labelPrecision,
+                }
+            },
+            dataPoint: {
+                displayName: data.createDisplayNameGetter('Visual_DataPoint'),
+                description: data.createDisplayNameGetter('Visual_DataPointDescription'),
+                properties: {
+                    defaultColor: StandardObjectProperties.defaultColor,
+                    fill: StandardObjectProperties.fill,
+                }
+            },
+            boxWhisker: {
+                displayName: data.createDisplayNameGetter('Visual_BoxWhisker'),
+                properties: {
+                    whiskerType: {
+                        displayName: data.createDisplayNameGetter('Visual_BoxWhisker_WhiskerType'),
+                        description: data.createDisplayNameGetter('Visual_BoxWhisker_WhiskerTypeDescription'),
+                        type: { enumeration: boxWhiskerType.type }
+                    },
+                    showOutliers: {
+                        displayName: data.createDisplayNameGetter('Visual_BoxWhisker_ShowOutliers'),
+                        type: { bool: true }
+                    },
+                    showMean: {
+                        displayName: data.createDisplayNameGetter('Visual_BoxWhisker_ShowMean'),
+                        type: { bool: true }
+                    },
+                }
+            },
+            plotArea: {
+                displayName: data.createDisplayNameGetter('Visual_Plot'),
+                properties: {
+                    transparency: StandardObjectProperties.transparency,
+                    image: StandardObjectProperties.image,
+                },
+            },
+        },
+        dataViewMappings: [{
+            conditions: [
+                { 'Category': { max: 1 }, 'Series': { max: 1 }, 'Details': { max: 1 }, 'Y': { max: 1 } },
+            ],
+            categorical: {
+                // Each row is one observation, the category and series group the observations into boxes.
+                categories: {
+                    select: [{ bind: { to: 'Category' } }, { bind: { to: 'Details' } }],
+                    dataReductionAlgorithm: { sample: {} }
+                },
+                values: {
+                    group: {
+                        by: 'Series',
+                        select: [{ bind: { to: 'Y' } }],
+                        dataReductionAlgorithm: { top: { count: 60 } }
+                    }
+                },
+                dataVolume: 4,
+            },
+        }],
+        sorting: {
+            default: {},
+        },
+    };
+
+    export const boxAndWhiskerChartProps = {
+        general: {
+            formatString: <DataViewObjectPropertyIdentifier>{ objectName: 'general', propertyName: 'formatString' },
+        },
+        dataPoint: {
+            defaultColor: <DataViewObjectPropertyIdentifier>{ objectName: 'dataPoint', propertyName: 'defaultColor' },
+            fill: <DataViewObjectPropertyIdentifier>{ objectName: 'dataPoint', propertyName: 'fill' },
+        },
+        boxWhisker: {
+            whiskerType: <DataViewObjectPropertyIdentifier>{ objectName: 'boxWhisker', propertyName: 'whiskerType' },
+            showOutliers: <DataViewObjectPropertyIdentifier>{ objectName: 'boxWhisker', propertyName: 'showOutliers' },
+            showMean: <DataViewObjectPropertyIdentifier>{ objectName: 'boxWhisker', propertyName: 'showMean' },
+        },
+    };
+}
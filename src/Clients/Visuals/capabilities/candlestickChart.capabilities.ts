@@ -0,0 +1,186 @@
+/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved. 
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *   
+ *  The above copyright notice and this permission notice shall be included in 
+ *  all copies or substantial portions of the Software.
+ *   
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR 
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, 
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE 
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER 
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+/// <reference path="../_references.ts"/>
+
+module powerbi.visuals {
+    export const candlestickChartCapabilities: VisualCapabilities = {
+        dataRoles: [
+            {
+                name: 'Category',
+                kind: VisualDataRoleKind.Grouping,
+                displayName: data.createDisplayNameGetter('Role_DisplayName_Axis'),
+                description: data.createDisplayNameGetter('Role_DisplayName_AxisDescription'),
+                cartesianKind: CartesianRoleKind.X,
+            }, {
+                name: 'Open',
+                kind: VisualDataRoleKind.Measure,
+                displayName: data.createDisplayNameGetter('Role_DisplayName_Open'),
+                requiredTypes: [{ numeric: true }, { integer: true }],
+                cartesianKind: CartesianRoleKind.Y,
+            }, {
+                name: 'High',
+                kind: VisualDataRoleKind.Measure,
+                displayName: data.createDisplayNameGetter('Role_DisplayName_High'),
+                requiredTypes: [{ numeric: true }, { integer: true }],
+                cartesianKind: CartesianRoleKind.Y,
+            }, {
+                name: 'Low',
+                kind: VisualDataRoleKind.Measure,
+                displayName: data.createDisplayNameGetter('Role_DisplayName_Low'),
+                requiredTypes: [{ numeric: true }, { integer: true }],
+                cartesianKind: CartesianRoleKind.Y,
+            }, {
+                name: 'Close',
+                kind: VisualDataRoleKind.Measure,
+                displayName: data.createDisplayNameGetter('Role_DisplayName_Close'),
+                requiredTypes: [{ numeric: true }, { integer: true }],
+                cartesianKind: CartesianRoleKind.Y,
+            }, {
+                name: 'Volume',
+                kind: VisualDataRoleKind.Measure,
+                displayName: data.createDisplayNameGetter('Role_DisplayName_Volume'),
+                requiredTypes: [{ numeric: true }, { integer: true }],
+            }
+        ],
+        objects: {
+            general: {
+                displayName: data.createDisplayNameGetter('Visual_General'),
+                properties: {
+                    formatString: StandardObjectProperties.formatString,
+                },
+            },
+            categoryAxis: {
+                displayName: data.createDisplayNameGetter('Visual_XAxis'),
+                properties: {
+                    show: StandardObjectProperties.show,
+                    showAxisTitle: {
+                        displayName: data.createDisplayNameGetter('Visual_Axis_Title'),
+                        description: data.createDisplayNameGetter('Visual_Axis_XTitleDescription'),
+                        type: { bool: true }
+                    },
+                    axisStyle: StandardObjectProperties.axisStyle,
+                    labelColor: StandardObjectProperties.labelColor,
+                }
+            },
+            valueAxis: {
+                displayName: data.createDisplayNameGetter('Visual_YAxis'),
+                properties: {
+                    show: StandardObjectProperties.show,
+                    position: StandardObjectProperties.yAxisPosition,
+                    start: StandardObjectProperties.axisStart,
+                    end: StandardObjectProperties.axisEnd,
+                    showAxisTitle: {
+                        displayName: data.createDisplayNameGetter('Visual_Axis_Title'),
+                        description: data.createDisplayNameGetter('Visual_Axis_YTitleDescription'),
+                        type: { bool: true }
+                    },
+                    axisStyle: StandardObjectProperties.axisStyle,
+                    labelColor: StandardObjectProperties.labelColor,
+                    labelDisplayUnits: StandardObjectProperties.labelDisplayUnits,
+                    labelPrecision: StandardObjectProperties.labelPrecision,
+                }
+            },
+            sentimentColors: {
+                displayName: data.createDisplayNameGetter('Waterfall_SentimentColors'),
+                properties: {
+                    increaseFill: {
+                        displayName: data.createDisplayNameGetter('Waterfall_IncreaseLabel'),
+                        type: { fill: { solid: { color: true } } }
+                    },
+                    decreaseFill: {
+                        displayName: data.createDisplayNameGetter('Waterfall_DecreaseLabel'),
+                        type: { fill: { solid: { color: true } } }
+                    },
+                },
+            },
+            candlestick: {
+                displayName: data.createDisplayNameGetter('Visual_Candlestick'),
+                properties: {
+                    chartStyle: {
+                        displayName: data.createDisplayNameGetter('Visual_Candlestick_ChartStyle'),
+                        type: { enumeration: candlestickChartStyle.type }
+                    },
+                    skipGaps: {
+                        displayName: data.createDisplayNameGetter('Visual_Candlestick_SkipGaps'),
+                        description: data.createDisplayNameGetter('Visual_Candlestick_SkipGapsDescription'),
+                        type: { bool: true }
+                    },
+                    showVolume: {
+                        displayName: data.createDisplayNameGetter('Visual_Candlestick_ShowVolume'),
+                        type: { bool: true }
+                    },
+                }
+            },
+            plotArea: {
+                displayName: data.createDisplayNameGetter('Visual_Plot'),
+                properties: {
+                    transparency: StandardObjectProperties.transparency,
+                    image: StandardObjectProperties.image,
+                },
+            },
+        },
+        dataViewMappings: [{
+            conditions: [
+                { 'Category': { max: 1 }, 'Open': { max: 1 }, 'High': { max: 1 }, 'Low': { max: 1 }, 'Close': { max: 1 }, 'Volume': { max: 1 } },
+            ],
+            categorical: {
+                // Each row is one trading period, so the rows are reduced to a contiguous window rather than sampled.
+                categories: {
+                    for: { in: 'Category' },
+                    dataReductionAlgorithm: { window: {} }
+                },
+                values: {
+                    select: [
+                        { bind: { to: 'Open' } },
+                        { bind: { to: 'High' } },
+                        { bind: { to: 'Low' } },
+                        { bind: { to: 'Close' } },
+                        { bind: { to: 'Volume' } },
+                    ]
+                },
+            },
+        }],
+        sorting: {
+            default: {},
+        },
+    };
+
+    export const candlestickChartProps = {
+        general: {
+            formatString: <DataViewObjectPropertyIdentifier>{ objectName: 'general', propertyName: 'formatString' },
+        },
+        sentimentColors: {
+            increaseFill: <DataViewObjectPropertyIdentifier>{ objectName: 'sentimentColors', propertyName: 'increaseFill' },
+            decreaseFill: <DataViewObjectPropertyIdentifier>{ objectName: 'sentimentColors', propertyName: 'decreaseFill' },
+        },
+        candlestick: {
+            chartStyle: <DataViewObjectPropertyIdentifier>{ objectName: 'candlestick', propertyName: 'chartStyle' },
+            skipGaps: <DataViewObjectPropertyIdentifier>{ objectName: 'candlestick', propertyName: 'skipGaps' },
+            showVolume: <DataViewObjectPropertyIdentifier>{ objectName: 'candlestick', propertyName: 'showVolume' },
+        },
+    };
+}
@@ -136,11 +136,13 @@ module powerbi.visuals {
                             description: data.createDisplayNameGetter('Visual_Reference_Line_DisplayName_Description'),
                             type: { text: true } 
                         },
+                        valueType: StandardObjectProperties.referenceLineValueType,
                         value: {
                             displayName: data.createDisplayNameGetter('Visual_Reference_Line_Value'),
                             description: data.createDisplayNameGetter('Visual_Reference_Line_Value_Description'),
                             type: { numeric: true }
                         },
+                        percentile: StandardObjectProperties.referenceLinePercentile,
                         lineColor: StandardObjectProperties.lineColor,
                         transparency: {
                             displayName: data.createDisplayNameGetter('Visual_Reference_Line_Transparency'),
@@ -158,6 +160,37 @@ module powerbi.visuals {
                         dataLabelDisplayUnits: StandardObjectProperties.dataLabelDisplayUnits,
                     },
                 },
+                referenceBand: {
+                    displayName: data.createDisplayNameGetter('Visual_Reference_Band'),
+                    description: data.createDisplayNameGetter('Visual_Reference_Band_Description'),
+                    properties: {
+                        show: StandardObjectProperties.show,
+                        displayName: {
+                            displayName: data.createDisplayNameGetter('Visual_Reference_Band_DisplayName'),
+                            description: data.createDisplayNameGetter('Visual_Reference_Band_DisplayName_Description'),
+                            type: { text: true }
+                        },
+                        axis: StandardObjectProperties.referenceBandAxis,
+                        boundType: StandardObjectProperties.referenceBandBoundType,
+                        startValue: StandardObjectProperties.referenceBandStartValue,
+                        endValue: StandardObjectProperties.referenceBandEndValue,
+                        standardDeviations: StandardObjectProperties.referenceBandStandardDeviations,
+                        startPercentile: StandardObjectProperties.referenceBandStartPercentile,
+                        endPercentile: StandardObjectProperties.referenceBandEndPercentile,
+                        fill: StandardObjectProperties.fill,
+                        transparency: {
+                            displayName: data.createDisplayNameGetter('Visual_Reference_Band_Transparency'),
+                            description: data.createDisplayNameGetter('Visual_Reference_Band_Transparency_Description'),
+                            type: { numeric: true }
+                        },
+                        position: StandardObjectProperties.referenceLinePosition,
+                        dataLabelShow: StandardObjectProperties.dataLabelShow,
+                        dataLabelText: StandardObjectProperties.dataLabelText,
+                        dataLabelColor: StandardObjectProperties.dataLabelColor,
+                        dataLabelDecimalPoints: StandardObjectProperties.dataLabelDecimalPoints,
+                        dataLabelDisplayUnits: StandardObjectProperties.dataLabelDisplayUnits,
+                    },
+                },
                 dataPoint: {
                     displayName: data.createDisplayNameGetter('Visual_DataPoint'),
                     description: data.createDisplayNameGetter('Visual_DataPointDescription'),
@@ -209,6 +242,31 @@ module powerbi.visuals {
                             description: data.createDisplayNameGetter('Visual_Trend_Line_Combine_Series_Description'),
                             type: { bool: true }
                         },
+                        regressionType: {
+                            displayName: data.createDisplayNameGetter('Visual_Trend_Line_Type'),
+                            description: data.createDisplayNameGetter('Visual_Trend_Line_Type_Description'),
+                            type: { enumeration: trendLineType.type }
+                        },
+                        polynomialOrder: {
+                            displayName: data.createDisplayNameGetter('Visual_Trend_Line_Polynomial_Order'),
+                            description: data.createDisplayNameGetter('Visual_Trend_Line_Polynomial_Order_Description'),
+                            type: { numeric: true }
+                        },
+                        movingAveragePeriod: {
+                            displayName: data.createDisplayNameGetter('Visual_Trend_Line_Moving_Average_Period'),
+                            description: data.createDisplayNameGetter('Visual_Trend_Line_Moving_Average_Period_Description'),
+                            type: { numeric: true }
+                        },
+                        showEquation: {
+                            displayName: data.createDisplayNameGetter('Visual_Trend_Line_Show_Equation'),
+                            description: data.createDisplayNameGetter('Visual_Trend_Line_Show_Equation_Description'),
+                            type: { bool: true }
+                        },
+                        showRSquared: {
+                            displayName: data.createDisplayNameGetter('Visual_Trend_Line_Show_R_Squared'),
+                            description: data.createDisplayNameGetter('Visual_Trend_Line_Show_R_Squared_Description'),
+                            type: { bool: true }
+                        },
                         useHighlightValues: {
                             displayName: data.createDisplayNameGetter('Visual_Trend_Line_UseHighlightValues'),
                             description: data.createDisplayNameGetter('Visual_Trend_Line_UseHighlightValues_Description'),
@@ -275,7 +333,10 @@ module powerbi.visuals {
                 requiredProperties: [{ objectName: 'trend', propertyName: 'show' }],
                 usage: {
                     regression: {
-                        combineSeries: { objectName: 'trend', propertyName: 'combineSeries' }
+                        combineSeries: { objectName: 'trend', propertyName: 'combineSeries' },
+                        regressionType: { objectName: 'trend', propertyName: 'regressionType' },
+                        polynomialOrder: { objectName: 'trend', propertyName: 'polynomialOrder' },
+                        movingAveragePeriod: { objectName: 'trend', propertyName: 'movingAveragePeriod' },
                     },
                 },
                 categorical: {
@@ -310,11 +371,13 @@ module powerbi.visuals {
                         description: data.createDisplayNameGetter('Visual_Reference_Line_DisplayName_Description'),
                         type: { text: true } 
                     },
+                    valueType: StandardObjectProperties.referenceLineValueType,
                     value: {
                         displayName: data.createDisplayNameGetter('Visual_Reference_Line_Value'),
                         description: data.createDisplayNameGetter('Visual_Reference_Line_Value_Description'),
                         type: { numeric: true }
                     },
+                    percentile: StandardObjectProperties.referenceLinePercentile,
                     lineColor: StandardObjectProperties.lineColor,
                     transparency: {
                         displayName: data.createDisplayNameGetter('Visual_Reference_Line_Transparency'),
@@ -232,6 +232,31 @@ module powerbi.visuals {
                         description: data.createDisplayNameGetter('Visual_Trend_Line_Combine_Series_Description'),
                         type: { bool: true }
                     },
+                    regressionType: {
+                        displayName: data.createDisplayNameGetter('Visual_Trend_Line_Type'),
+                        description: data.createDisplayNameGetter('Visual_Trend_Line_Type_Description'),
+                        type: { enumeration: trendLineType.type }
+                    },
+                    polynomialOrder: {
+                        displayName: data.createDisplayNameGetter('Visual_Trend_Line_Polynomial_Order'),
+                        description: data.createDisplayNameGetter('Visual_Trend_Line_Polynomial_Order_Description'),
+                        type: { numeric: true }
+                    },
+                    movingAveragePeriod: {
+                        displayName: data.createDisplayNameGetter('Visual_Trend_Line_Moving_Average_Period'),
+                        description: data.createDisplayNameGetter('Visual_Trend_Line_Moving_Average_Period_Description'),
+                        type: { numeric: true }
+                    },
+                    showEquation: {
+                        displayName: data.createDisplayNameGetter('Visual_Trend_Line_Show_Equation'),
+                        description: data.createDisplayNameGetter('Visual_Trend_Line_Show_Equation_Description'),
+                        type: { bool: true }
+                    },
+                    showRSquared: {
+                        displayName: data.createDisplayNameGetter('Visual_Trend_Line_Show_R_Squared'),
+                        description: data.createDisplayNameGetter('Visual_Trend_Line_Show_R_Squared_Description'),
+                        type: { bool: true }
+                    },
                     useHighlightValues: {
                         displayName: data.createDisplayNameGetter('Visual_Trend_Line_UseHighlightValues'),
                         description: data.createDisplayNameGetter('Visual_Trend_Line_UseHighlightValues_Description'),
@@ -288,7 +313,10 @@ module powerbi.visuals {
                 requiredProperties: [{ objectName: 'trend', propertyName: 'show' }],
                 usage: {
                     regression: {
-                        combineSeries: { objectName: 'trend', propertyName: 'combineSeries' }
+                        combineSeries: { objectName: 'trend', propertyName: 'combineSeries' },
+                        regressionType: { objectName: 'trend', propertyName: 'regressionType' },
+                        polynomialOrder: { objectName: 'trend', propertyName: 'polynomialOrder' },
+                        movingAveragePeriod: { objectName: 'trend', propertyName: 'movingAveragePeriod' },
                     },
                 },
                 categorical: {
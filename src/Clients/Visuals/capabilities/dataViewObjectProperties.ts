@@ -184,6 +184,46 @@ module powerbi.visuals {
             description: data.createDisplayNameGetter('Visual_LegendShowTitleDescription'),
             type: { bool: true }
         },
+        referenceBandAxis: {
+            displayName: data.createDisplayNameGetter('Visual_Reference_Band_Axis'),
+            description: data.createDisplayNameGetter('Visual_Reference_Band_Axis_Description'),
+            type: { enumeration: referenceBandAxis.type }
+        },
+        referenceBandBoundType: {
+            displayName: data.createDisplayNameGetter('Visual_Reference_Band_Type'),
+            description: data.createDisplayNameGetter('Visual_Reference_Band_Type_Description'),
+            type: { enumeration: referenceBandBoundType.type }
+        },
+        referenceBandEndPercentile: {
+            displayName: data.createDisplayNameGetter('Visual_Reference_Band_End_Percentile'),
+            description: data.createDisplayNameGetter('Visual_Reference_Band_End_Percentile_Description'),
+            type: { numeric: true }
+        },
+        referenceBandEndValue: {
+            displayName: data.createDisplayNameGetter('Visual_Reference_Band_End_Value'),
+            description: data.createDisplayNameGetter('Visual_Reference_Band_End_Value_Description'),
+            type: { numeric: true }
+        },
+        referenceBandStandardDeviations: {
+            displayName: data.createDisplayNameGetter('Visual_Reference_Band_Standard_Deviations'),
+            description: data.createDisplayNameGetter('Visual_Reference_Band_Standard_Deviations_Description'),
+            type: { numeric: true }
+        },
+        referenceBandStartPercentile: {
+            displayName: data.createDisplayNameGetter('Visual_Reference_Band_Start_Percentile'),
+            description: data.createDisplayNameGetter('Visual_Reference_Band_Start_Percentile_Description'),
+            type: { numeric: true }
+        },
+        referenceBandStartValue: {
+            displayName: data.createDisplayNameGetter('Visual_Reference_Band_Start_Value'),
+            description: data.createDisplayNameGetter('Visual_Reference_Band_Start_Value_Description'),
+            type: { numeric: true }
+        },
+        referenceLinePercentile: {
+            displayName: data.createDisplayNameGetter('Visual_Reference_Line_Percentile_Value'),
+            description: data.createDisplayNameGetter('Visual_Reference_Line_Percentile_Value_Description'),
+            type: { numeric: true }
+        },
         referenceLinePosition: {
             displayName: data.createDisplayNameGetter('Visual_Reference_Line_Arrange'),
             description: data.createDisplayNameGetter('Visual_Reference_Line_Arrange_Description'),
@@ -194,6 +234,11 @@ module powerbi.visuals {
             description: data.createDisplayNameGetter('Visual_Reference_Line_Style_Description'),
             type: { enumeration: lineStyle.type }
         },
+        referenceLineValueType: {
+            displayName: data.createDisplayNameGetter('Visual_Reference_Line_Type'),
+            description: data.createDisplayNameGetter('Visual_Reference_Line_Type_Description'),
+            type: { enumeration: referenceLineValueType.type }
+        },
         transparency: {
             displayName: data.createDisplayNameGetter('Visual_Background_Transparency'),
             description: data.createDisplayNameGetter('Visual_Background_TransparencyDescription'),
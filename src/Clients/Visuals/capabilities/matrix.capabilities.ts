@@ -135,6 +135,12 @@ module powerbi.visuals {
                     outline: StandardObjectProperties.outline,
                     fontColor: StandardObjectProperties.fontColor,
                     backColor: StandardObjectProperties.backColor,
+                    collapsed: {
+                        type: { bool: true }
+                    },
+                    collapsedGroups: {
+                        type: { bool: true }
+                    },
                 }
             },
 
@@ -145,6 +151,12 @@ module powerbi.visuals {
                     outline: StandardObjectProperties.outline,
                     fontColor: StandardObjectProperties.fontColor,
                     backColor: StandardObjectProperties.backColor,
+                    collapsed: {
+                        type: { bool: true }
+                    },
+                    collapsedGroups: {
+                        type: { bool: true }
+                    },
                 }
             },
             values:
@@ -196,6 +208,106 @@ module powerbi.visuals {
                     }
                 }
             },
+            backColorScale:
+            {
+                displayName: data.createDisplayNameGetter('Visual_Tablix_BackColorScale'),
+                properties: {
+                    show: {
+                        displayName: data.createDisplayNameGetter('Visual_Show'),
+                        type: { bool: true }
+                    },
+                    minColor: {
+                        displayName: data.createDisplayNameGetter('Visual_Tablix_ColorScale_MinColor'),
+                        type: { fill: { solid: { color: true } } }
+                    },
+                    maxColor: {
+                        displayName: data.createDisplayNameGetter('Visual_Tablix_ColorScale_MaxColor'),
+                        type: { fill: { solid: { color: true } } }
+                    },
+                    diverging: {
+                        displayName: data.createDisplayNameGetter('Visual_Tablix_ColorScale_Diverging'),
+                        description: data.createDisplayNameGetter('Visual_Tablix_ColorScale_Diverging_Desc'),
+                        type: { bool: true }
+                    },
+                    midColor: {
+                        displayName: data.createDisplayNameGetter('Visual_Tablix_ColorScale_MidColor'),
+                        type: { fill: { solid: { color: true } } }
+                    },
+                }
+            },
+            fontColorScale:
+            {
+                displayName: data.createDisplayNameGetter('Visual_Tablix_FontColorScale'),
+                properties: {
+                    show: {
+                        displayName: data.createDisplayNameGetter('Visual_Show'),
+                        type: { bool: true }
+                    },
+                    minColor: {
+                        displayName: data.createDisplayNameGetter('Visual_Tablix_ColorScale_MinColor'),
+                        type: { fill: { solid: { color: true } } }
+                    },
+                    maxColor: {
+                        displayName: data.createDisplayNameGetter('Visual_Tablix_ColorScale_MaxColor'),
+                        type: { fill: { solid: { color: true } } }
+                    },
+                    diverging: {
+                        displayName: data.createDisplayNameGetter('Visual_Tablix_ColorScale_Diverging'),
+                        description: data.createDisplayNameGetter('Visual_Tablix_ColorScale_Diverging_Desc'),
+                        type: { bool: true }
+                    },
+                    midColor: {
+                        displayName: data.createDisplayNameGetter('Visual_Tablix_ColorScale_MidColor'),
+                        type: { fill: { solid: { color: true } } }
+                    },
+                }
+            },
+            dataBars:
+            {
+                displayName: data.createDisplayNameGetter('Visual_Tablix_DataBars'),
+                properties: {
+                    show: {
+                        displayName: data.createDisplayNameGetter('Visual_Show'),
+                        type: { bool: true }
+                    },
+                    positiveColor: {
+                        displayName: data.createDisplayNameGetter('Visual_Tablix_DataBars_PositiveColor'),
+                        type: { fill: { solid: { color: true } } }
+                    },
+                    negativeColor: {
+                        displayName: data.createDisplayNameGetter('Visual_Tablix_DataBars_NegativeColor'),
+                        type: { fill: { solid: { color: true } } }
+                    },
+                    axisColor: {
+                        displayName: data.createDisplayNameGetter('Visual_Tablix_DataBars_AxisColor'),
+                        type: { fill: { solid: { color: true } } }
+                    },
+                }
+            },
+            iconSet:
+            {
+                displayName: data.createDisplayNameGetter('Visual_Tablix_IconSet'),
+                properties: {
+                    show: {
+                        displayName: data.createDisplayNameGetter('Visual_Show'),
+                        type: { bool: true }
+                    },
+                    style: {
+                        displayName: data.createDisplayNameGetter('Visual_Tablix_IconSet_Style'),
+                        type: { enumeration: iconSetStyle.type }
+                    },
+                    lowerThreshold: {
+                        displayName: data.createDisplayNameGetter('Visual_Tablix_IconSet_LowerThreshold'),
+                        description: data.createDisplayNameGetter('Visual_Tablix_IconSet_LowerThreshold_Desc'),
+                        type: { numeric: true }
+                    },
+                    upperThreshold: {
+                        displayName: data.createDisplayNameGetter('Visual_Tablix_IconSet_UpperThreshold'),
+                        description: data.createDisplayNameGetter('Visual_Tablix_IconSet_UpperThreshold_Desc'),
+                        type: { numeric: true }
+                    },
+                }
+            },
         },
         dataViewMappings: [{
             conditions: [
@@ -133,6 +133,31 @@ module powerbi.visuals {
                         description: data.createDisplayNameGetter('Visual_Trend_Line_Combine_Series_Description'),
                         type: { bool: true }
                     },
+                    regressionType: {
+                        displayName: data.createDisplayNameGetter('Visual_Trend_Line_Type'),
+                        description: data.createDisplayNameGetter('Visual_Trend_Line_Type_Description'),
+                        type: { enumeration: trendLineType.type }
+                    },
+                    polynomialOrder: {
+                        displayName: data.createDisplayNameGetter('Visual_Trend_Line_Polynomial_Order'),
+                        description: data.createDisplayNameGetter('Visual_Trend_Line_Polynomial_Order_Description'),
+                        type: { numeric: true }
+                    },
+                    movingAveragePeriod: {
+                        displayName: data.createDisplayNameGetter('Visual_Trend_Line_Moving_Average_Period'),
+                        description: data.createDisplayNameGetter('Visual_Trend_Line_Moving_Average_Period_Description'),
+                        type: { numeric: true }
+                    },
+                    showEquation: {
+                        displayName: data.createDisplayNameGetter('Visual_Trend_Line_Show_Equation'),
+                        description: data.createDisplayNameGetter('Visual_Trend_Line_Show_Equation_Description'),
+                        type: { bool: true }
+                    },
+                    showRSquared: {
+                        displayName: data.createDisplayNameGetter('Visual_Trend_Line_Show_R_Squared'),
+                        description: data.createDisplayNameGetter('Visual_Trend_Line_Show_R_Squared_Description'),
+                        type: { bool: true }
+                    },
                 }
             },
             categoryAxis: {
@@ -182,11 +207,13 @@ module powerbi.visuals {
                         description: data.createDisplayNameGetter('Visual_Reference_Line_DisplayName_Description'),
                         type: { text: true } 
                     },
+                    valueType: StandardObjectProperties.referenceLineValueType,
                     value: {
                         displayName: data.createDisplayNameGetter('Visual_Reference_Line_Value'),
                         description: data.createDisplayNameGetter('Visual_Reference_Line_Value_Description'),
                         type: { numeric: true }
                     },
+                    percentile: StandardObjectProperties.referenceLinePercentile,
                     lineColor: StandardObjectProperties.lineColor,
                     transparency: {
                         displayName: data.createDisplayNameGetter('Visual_Reference_Line_Transparency'),
@@ -214,11 +241,13 @@ module powerbi.visuals {
                         description: data.createDisplayNameGetter('Visual_Reference_Line_DisplayName_Description'),
                         type: { text: true } 
                     },
+                    valueType: StandardObjectProperties.referenceLineValueType,
                     value: {
                         displayName: data.createDisplayNameGetter('Visual_Reference_Line_Value'),
                         description: data.createDisplayNameGetter('Visual_Reference_Line_Value_Description'),
                         type: { numeric: true }
                     },
+                    percentile: StandardObjectProperties.referenceLinePercentile,
                     lineColor: StandardObjectProperties.lineColor,
                     transparency: {
                         displayName: data.createDisplayNameGetter('Visual_Reference_Line_Transparency'),
@@ -236,6 +265,37 @@ module powerbi.visuals {
                     dataLabelDisplayUnits: StandardObjectProperties.dataLabelDisplayUnits,
                 },
             },
+            referenceBand: {
+                displayName: data.createDisplayNameGetter('Visual_Reference_Band'),
+                description: data.createDisplayNameGetter('Visual_Reference_Band_Description'),
+                properties: {
+                    show: StandardObjectProperties.show,
+                    displayName: {
+                        displayName: data.createDisplayNameGetter('Visual_Reference_Band_DisplayName'),
+                        description: data.createDisplayNameGetter('Visual_Reference_Band_DisplayName_Description'),
+                        type: { text: true }
+                    },
+                    axis: StandardObjectProperties.referenceBandAxis,
+                    boundType: StandardObjectProperties.referenceBandBoundType,
+                    startValue: StandardObjectProperties.referenceBandStartValue,
+                    endValue: StandardObjectProperties.referenceBandEndValue,
+                    standardDeviations: StandardObjectProperties.referenceBandStandardDeviations,
+                    startPercentile: StandardObjectProperties.referenceBandStartPercentile,
+                    endPercentile: StandardObjectProperties.referenceBandEndPercentile,
+                    fill: StandardObjectProperties.fill,
+                    transparency: {
+                        displayName: data.createDisplayNameGetter('Visual_Reference_Band_Transparency'),
+                        description: data.createDisplayNameGetter('Visual_Reference_Band_Transparency_Description'),
+                        type: { numeric: true }
+                    },
+                    position: StandardObjectProperties.referenceLinePosition,
+                    dataLabelShow: StandardObjectProperties.dataLabelShow,
+                    dataLabelText: StandardObjectProperties.dataLabelText,
+                    dataLabelColor: StandardObjectProperties.dataLabelColor,
+                    dataLabelDecimalPoints: StandardObjectProperties.dataLabelDecimalPoints,
+                    dataLabelDisplayUnits: StandardObjectProperties.dataLabelDisplayUnits,
+                },
+            },
             referenceLine: {
                 displayName: data.createDisplayNameGetter('Visual_Reference_Line'),
                 description: data.createDisplayNameGetter('Visual_Reference_Line_Description'),
@@ -246,11 +306,13 @@ module powerbi.visuals {
                         description: data.createDisplayNameGetter('Visual_Reference_Line_DisplayName_Description'),
                         type: { text: true } 
                     },
+                    valueType: StandardObjectProperties.referenceLineValueType,
                     value: {
                         displayName: data.createDisplayNameGetter('Visual_Reference_Line_Value'),
                         description: data.createDisplayNameGetter('Visual_Reference_Line_Value_Description'),
                         type: { numeric: true }
                     },
+                    percentile: StandardObjectProperties.referenceLinePercentile,
                     lineColor: StandardObjectProperties.lineColor,
                     transparency: {
                         displayName: data.createDisplayNameGetter('Visual_Reference_Line_Transparency'),
@@ -387,7 +449,10 @@ module powerbi.visuals {
             requiredProperties: [{ objectName: 'trend', propertyName: 'show' }],
             usage: {
                regression: {
-                    combineSeries: { objectName: 'trend', propertyName: 'combineSeries' }
+                    combineSeries: { objectName: 'trend', propertyName: 'combineSeries' },
+                    regressionType: { objectName: 'trend', propertyName: 'regressionType' },
+                    polynomialOrder: { objectName: 'trend', propertyName: 'polynomialOrder' },
+                    movingAveragePeriod: { objectName: 'trend', propertyName: 'movingAveragePeriod' },
                 },
             },
             categorical: {
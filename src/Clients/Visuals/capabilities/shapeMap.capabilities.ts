@@ -0,0 +1,169 @@
+/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved. 
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *   
+ *  The above copyright notice and this permission notice shall be included in 
+ *  all copies or substantial portions of the Software.
+ *   
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR 
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, 
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE 
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER 
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+/// <reference path="../_references.ts"/>
+
+module powerbi.visuals {
+    export const shapeMapCapabilities: VisualCapabilities = {
+        dataRoles: [
+            {
+                name: 'Category',
+                kind: VisualDataRoleKind.Grouping,
+                displayName: data.createDisplayNameGetter('Role_DisplayName_Location'),
+                description: data.createDisplayNameGetter('Role_DisplayName_LocationShapeMapDescription'),
+            }, {
+                name: 'Gradient',
+                kind: VisualDataRoleKind.Measure,
+                displayName: data.createDisplayNameGetter('Role_DisplayName_Gradient'),
+                description: data.createDisplayNameGetter('Role_DisplayName_GradientDescription'),
+                requiredTypes: [{ numeric: true }, { integer: true }],
+            }, {
+                name: 'Tooltips',
+                kind: VisualDataRoleKind.Measure,
+                displayName: data.createDisplayNameGetter('Role_DisplayName_Tooltips'),
+                joinPredicate: JoinPredicateBehavior.None,
+            }
+        ],
+        objects: {
+            general: {
+                displayName: data.createDisplayNameGetter('Visual_General'),
+                properties: {
+                    formatString: StandardObjectProperties.formatString,
+                },
+            },
+            shape: {
+                displayName: data.createDisplayNameGetter('Visual_ShapeMap_Shape'),
+                properties: {
+                    map: {
+                        displayName: data.createDisplayNameGetter('Visual_ShapeMap_Map'),
+                        description: data.createDisplayNameGetter('Visual_ShapeMap_MapDescription'),
+                        type: { text: true },
+                        suppressFormatPainterCopy: true,
+                    },
+                    projection: {
+                        displayName: data.createDisplayNameGetter('Visual_ShapeMap_Projection'),
+                        description: data.createDisplayNameGetter('Visual_ShapeMap_ProjectionDescription'),
+                        type: { enumeration: shapeMapProjection.type },
+                    },
+                    keyProperty: {
+                        displayName: data.createDisplayNameGetter('Visual_ShapeMap_KeyProperty'),
+                        description: data.createDisplayNameGetter('Visual_ShapeMap_KeyPropertyDescription'),
+                        type: { text: true },
+                    },
+                },
+            },
+            dataPoint: {
+                displayName: data.createDisplayNameGetter('Visual_DataPoint'),
+                description: data.createDisplayNameGetter('Visual_DataPointDescription'),
+                properties: {
+                    defaultColor: StandardObjectProperties.defaultColor,
+                    showAllDataPoints: StandardObjectProperties.showAllDataPoints,
+                    fill: StandardObjectProperties.fill,
+                    fillRule: {
+                        displayName: data.createDisplayNameGetter('Role_DisplayName_Values'),
+                        description: data.createDisplayNameGetter('Role_DisplayName_ValuesDescription'),
+                        type: { fillRule: {} },
+                        rule: {
+                            inputRole: 'Gradient',
+                            output: {
+                                property: 'fill',
+                                selector: ['Category'],
+                            },
+                        },
+                    }
+                }
+            },
+            labels: {
+                displayName: data.createDisplayNameGetter('Visual_DataPointsLabels'),
+                properties: {
+                    show: StandardObjectProperties.show,
+                    color: StandardObjectProperties.dataColor,
+                    labelDisplayUnits: StandardObjectProperties.labelDisplayUnits,
+                    labelPrecision: StandardObjectProperties.labelPrecision,
+                },
+            },
+            categoryLabels: {
+                displayName: data.createDisplayNameGetter('Visual_CategoryLabels'),
+                properties: {
+                    show: StandardObjectProperties.show,
+                },
+            }
+        },
+        dataViewMappings: [{
+            conditions: [
+                { 'Category': { max: 1 }, 'Gradient': { max: 1 } },
+            ],
+            categorical: {
+                categories: {
+                    for: { in: 'Category' },
+                    dataReductionAlgorithm: { top: {} }
+                },
+                values: {
+                    select: [
+                        { bind: { to: 'Gradient' } },
+                        { for: { in: 'Tooltips' } }
+                    ],
+                },
+                rowCount: { preferred: { min: 1 } },
+                dataVolume: 4,
+            },
+        }],
+        sorting: {
+            custom: {},
+            implicit: {
+                clauses: [{ role: 'Gradient', direction: SortDirection.Descending }]
+            },
+        },
+        drilldown: {
+            roles: ['Category']
+        },
+    };
+
+    export const shapeMapProps = {
+        general: {
+            formatString: <DataViewObjectPropertyIdentifier>{ objectName: 'general', propertyName: 'formatString' },
+        },
+        shape: {
+            map: <DataViewObjectPropertyIdentifier>{ objectName: 'shape', propertyName: 'map' },
+            projection: <DataViewObjectPropertyIdentifier>{ objectName: 'shape', propertyName: 'projection' },
+            keyProperty: <DataViewObjectPropertyIdentifier>{ objectName: 'shape', propertyName: 'keyProperty' },
+        },
+        dataPoint: {
+            defaultColor: <DataViewObjectPropertyIdentifier>{ objectName: 'dataPoint', propertyName: 'defaultColor' },
+            fill: <DataViewObjectPropertyIdentifier>{ objectName: 'dataPoint', propertyName: 'fill' },
+            showAllDataPoints: <DataViewObjectPropertyIdentifier>{ objectName: 'dataPoint', propertyName: 'showAllDataPoints' },
+        },
+        labels: {
+            show: <DataViewObjectPropertyIdentifier>{ objectName: 'labels', propertyName: 'show' },
+            color: <DataViewObjectPropertyIdentifier>{ objectName: 'labels', propertyName: 'color' },
+            labelDisplayUnits: <DataViewObjectPropertyIdentifier>{ objectName: 'labels', propertyName: 'labelDisplayUnits' },
+            labelPrecision: <DataViewObjectPropertyIdentifier>{ objectName: 'labels', propertyName: 'labelPrecision' },
+        },
+        categoryLabels: {
+            show: <DataViewObjectPropertyIdentifier>{ objectName: 'categoryLabels', propertyName: 'show' },
+        }
+    };
+}
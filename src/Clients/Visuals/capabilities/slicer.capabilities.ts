@@ -62,6 +62,9 @@ module powerbi.visuals {
                     selfFilterEnabled: {
                         type: { operations: { searchEnabled: true } }
                     },
+                    mode: {
+                        type: { enumeration: slicerMode.type }
+                    },
                 },
             },
             selection: {
@@ -109,8 +112,8 @@ module powerbi.visuals {
                 }
             }
         },
+        // More than one field renders the slicer as a hierarchy, one level per field.
         dataViewMappings: [{
-            conditions: [{ 'Values': { max: 1 } }],
             categorical: {
                 categories: {
                     for: { in: 'Values' },
@@ -135,6 +138,7 @@ module powerbi.visuals {
             orientation: <DataViewObjectPropertyIdentifier>{ objectName: 'general', propertyName: 'orientation' },
             count: <DataViewObjectPropertyIdentifier>{ objectName: 'general', propertyName: 'count' },
             selfFilterEnabled: <DataViewObjectPropertyIdentifier>{ objectName: 'general', propertyName: 'selfFilterEnabled' },
+            mode: <DataViewObjectPropertyIdentifier>{ objectName: 'general', propertyName: 'mode' },
         },
         selection: {
             selectAllCheckboxEnabled: <DataViewObjectPropertyIdentifier>{ objectName: 'selection', propertyName: 'selectAllCheckboxEnabled' },
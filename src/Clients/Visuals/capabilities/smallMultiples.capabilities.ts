@@ -0,0 +1,100 @@
+/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved. 
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *   
+ *  The above copyright notice and this permission notice shall be included in 
+ *  all copies or substantial portions of the Software.
+ *   
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR 
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, 
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE 
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER 
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+/// <reference path="../_references.ts"/>
+
+module powerbi.visuals {
+    /**
+     * Extends the capabilities of a cartesian chart with the SmallMultiples role, which splits the data into a grid of panels.
+     * Only the first data view mapping of the chart is kept.
+     */
+    export function getSmallMultiplesCapabilities(baseCapabilities: VisualCapabilities): VisualCapabilities {
+        debug.assertValue(baseCapabilities, 'baseCapabilities');
+
+        let baseMapping = baseCapabilities.dataViewMappings[0];
+        let baseCategories: any = baseMapping.categorical.categories;
+        let categoryMappings: DataViewRoleMapping[] = baseCategories.select
+            ? baseCategories.select.slice()
+            : [baseCategories.for ? { for: baseCategories.for } : { bind: baseCategories.bind }];
+        categoryMappings.push({ bind: { to: 'SmallMultiples' } });
+
+        let categorical: DataViewCategoricalMapping = _.extend({}, baseMapping.categorical, {
+            categories: {
+                select: categoryMappings,
+                // Each panel repeats the categories, so the window of the chart would cut off all but the first panels.
+                dataReductionAlgorithm: baseCategories.dataReductionAlgorithm ? { top: { count: 1000 } } : undefined,
+            },
+        });
+
+        let conditions = _.map(baseMapping.conditions || [{}], (condition: DataViewMappingCondition) =>
+            _.extend({}, condition, { 'SmallMultiples': { max: 1 } }));
+
+        return _.extend({}, baseCapabilities, {
+            dataRoles: baseCapabilities.dataRoles.concat([{
+                name: 'SmallMultiples',
+                kind: VisualDataRoleKind.Grouping,
+                displayName: data.createDisplayNameGetter('Role_DisplayName_SmallMultiples'),
+                description: data.createDisplayNameGetter('Role_DisplayName_SmallMultiplesDescription'),
+            }]),
+            objects: _.extend({}, baseCapabilities.objects, {
+                smallMultiples: {
+                    displayName: data.createDisplayNameGetter('Visual_SmallMultiples'),
+                    properties: {
+                        columns: {
+                            displayName: data.createDisplayNameGetter('Visual_SmallMultiples_Columns'),
+                            description: data.createDisplayNameGetter('Visual_SmallMultiples_ColumnsDescription'),
+                            type: { numeric: true },
+                        },
+                        sharedAxes: {
+                            displayName: data.createDisplayNameGetter('Visual_SmallMultiples_SharedAxes'),
+                            description: data.createDisplayNameGetter('Visual_SmallMultiples_SharedAxesDescription'),
+                            type: { bool: true },
+                        },
+                        showTitles: {
+                            displayName: data.createDisplayNameGetter('Visual_SmallMultiples_ShowTitles'),
+                            type: { bool: true },
+                        },
+                    },
+                },
+            }),
+            dataViewMappings: [_.extend({}, baseMapping, {
+                conditions: conditions,
+                categorical: categorical,
+            })],
+        });
+    }
+
+    export const smallMultiplesProps = {
+        general: {
+            formatString: <DataViewObjectPropertyIdentifier>{ objectName: 'general', propertyName: 'formatString' },
+        },
+        smallMultiples: {
+            columns: <DataViewObjectPropertyIdentifier>{ objectName: 'smallMultiples', propertyName: 'columns' },
+            sharedAxes: <DataViewObjectPropertyIdentifier>{ objectName: 'smallMultiples', propertyName: 'sharedAxes' },
+            showTitles: <DataViewObjectPropertyIdentifier>{ objectName: 'smallMultiples', propertyName: 'showTitles' },
+        },
+    };
+}
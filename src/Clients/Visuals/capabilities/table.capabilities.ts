@@ -55,6 +55,13 @@ module powerbi.visuals {
                         displayName: data.createDisplayNameGetter('Visual_TextSize'),
                         type: { numeric: true }
                     },
+                    selfFilter: {
+                        type: { filter: { selfFilter: true } },
+                    },
+                    frozenColumns: {
+                        displayName: data.createDisplayNameGetter('Visual_FrozenColumns'),
+                        type: { numeric: true }
+                    },
                 },
             },
 
@@ -159,6 +166,106 @@ module powerbi.visuals {
                     backColor: StandardObjectProperties.backColor,
                 }
             },
+
+            backColorScale: {
+                displayName: data.createDisplayNameGetter('Visual_Tablix_BackColorScale'),
+                properties: {
+                    show: {
+                        displayName: data.createDisplayNameGetter('Visual_Show'),
+                        type: { bool: true }
+                    },
+                    minColor: {
+                        displayName: data.createDisplayNameGetter('Visual_Tablix_ColorScale_MinColor'),
+                        type: { fill: { solid: { color: true } } }
+                    },
+                    maxColor: {
+                        displayName: data.createDisplayNameGetter('Visual_Tablix_ColorScale_MaxColor'),
+                        type: { fill: { solid: { color: true } } }
+                    },
+                    diverging: {
+                        displayName: data.createDisplayNameGetter('Visual_Tablix_ColorScale_Diverging'),
+                        description: data.createDisplayNameGetter('Visual_Tablix_ColorScale_Diverging_Desc'),
+                        type: { bool: true }
+                    },
+                    midColor: {
+                        displayName: data.createDisplayNameGetter('Visual_Tablix_ColorScale_MidColor'),
+                        type: { fill: { solid: { color: true } } }
+                    },
+                }
+            },
+
+            fontColorScale: {
+                displayName: data.createDisplayNameGetter('Visual_Tablix_FontColorScale'),
+                properties: {
+                    show: {
+                        displayName: data.createDisplayNameGetter('Visual_Show'),
+                        type: { bool: true }
+                    },
+                    minColor: {
+                        displayName: data.createDisplayNameGetter('Visual_Tablix_ColorScale_MinColor'),
+                        type: { fill: { solid: { color: true } } }
+                    },
+                    maxColor: {
+                        displayName: data.createDisplayNameGetter('Visual_Tablix_ColorScale_MaxColor'),
+                        type: { fill: { solid: { color: true } } }
+                    },
+                    diverging: {
+                        displayName: data.createDisplayNameGetter('Visual_Tablix_ColorScale_Diverging'),
+                        description: data.createDisplayNameGetter('Visual_Tablix_ColorScale_Diverging_Desc'),
+                        type: { bool: true }
+                    },
+                    midColor: {
+                        displayName: data.createDisplayNameGetter('Visual_Tablix_ColorScale_MidColor'),
+                        type: { fill: { solid: { color: true } } }
+                    },
+                }
+            },
+
+            dataBars: {
+                displayName: data.createDisplayNameGetter('Visual_Tablix_DataBars'),
+                properties: {
+                    show: {
+                        displayName: data.createDisplayNameGetter('Visual_Show'),
+                        type: { bool: true }
+                    },
+                    positiveColor: {
+                        displayName: data.createDisplayNameGetter('Visual_Tablix_DataBars_PositiveColor'),
+                        type: { fill: { solid: { color: true } } }
+                    },
+                    negativeColor: {
+                        displayName: data.createDisplayNameGetter('Visual_Tablix_DataBars_NegativeColor'),
+                        type: { fill: { solid: { color: true } } }
+                    },
+                    axisColor: {
+                        displayName: data.createDisplayNameGetter('Visual_Tablix_DataBars_AxisColor'),
+                        type: { fill: { solid: { color: true } } }
+                    },
+                }
+            },
+
+            iconSet: {
+                displayName: data.createDisplayNameGetter('Visual_Tablix_IconSet'),
+                properties: {
+                    show: {
+                        displayName: data.createDisplayNameGetter('Visual_Show'),
+                        type: { bool: true }
+                    },
+                    style: {
+                        displayName: data.createDisplayNameGetter('Visual_Tablix_IconSet_Style'),
+                        type: { enumeration: iconSetStyle.type }
+                    },
+                    lowerThreshold: {
+                        displayName: data.createDisplayNameGetter('Visual_Tablix_IconSet_LowerThreshold'),
+                        description: data.createDisplayNameGetter('Visual_Tablix_IconSet_LowerThreshold_Desc'),
+                        type: { numeric: true }
+                    },
+                    upperThreshold: {
+                        displayName: data.createDisplayNameGetter('Visual_Tablix_IconSet_UpperThreshold'),
+                        description: data.createDisplayNameGetter('Visual_Tablix_IconSet_UpperThreshold_Desc'),
+                        type: { numeric: true }
+                    },
+                }
+            },
         },
         dataViewMappings: [{
             table: {
@@ -0,0 +1,829 @@
+/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved. 
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *   
+ *  The above copyright notice and this permission notice shall be included in 
+ *  all copies or substantial portions of the Software.
+ *   
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR 
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, 
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE 
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER 
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+/// <reference path="../_references.ts"/>
+
+module powerbi.visuals {
+    import ClassAndSelector = jsCommon.CssConstants.ClassAndSelector;
+    import createClassAndSelector = jsCommon.CssConstants.createClassAndSelector;
+    import createDataViewScopeIdentity = powerbi.data.createDataViewScopeIdentity;
+    import DataRoleHelper = powerbi.data.DataRoleHelper;
+    import SQExpr = powerbi.data.SQExpr;
+    import SQExprBuilder = powerbi.data.SQExprBuilder;
+
+    export interface BoxAndWhiskerChartConstructorOptions extends CartesianVisualConstructorOptions {
+    }
+
+    export interface BoxAndWhiskerStatistics {
+        count: number;
+        min: number;
+        max: number;
+        mean: number;
+        median: number;
+        firstQuartile: number;
+        thirdQuartile: number;
+        interquartileRange: number;
+        lowerWhisker: number;
+        upperWhisker: number;
+        /** The values beyond the whiskers, in ascending order. */
+        outliers: number[];
+    }
+
+    export interface BoxAndWhiskerChartSettings {
+        whiskerType: string;
+        showOutliers: boolean;
+        showMean: boolean;
+    }
+
+    export interface BoxAndWhiskerChartData extends CartesianData {
+        series: BoxAndWhiskerChartSeries[];
+        categories: any[];
+        categoryMetadata: DataViewMetadataColumn;
+        valuesMetadata: DataViewMetadataColumn;
+        legend: LegendData;
+        hasDynamicSeries: boolean;
+        defaultDataPointColor?: string;
+        settings: BoxAndWhiskerChartSettings;
+        axesLabels: ChartAxesLabels;
+    }
+
+    export interface BoxAndWhiskerChartSeries extends CartesianSeries {
+        index: number;
+        displayName: string;
+        color: string;
+        identity: SelectionId;
+        data: BoxAndWhiskerChartDataPoint[];
+    }
+
+    /**
+     * A box summarizes the values of a category and series, its value is the median.
+     */
+    export interface BoxAndWhiskerChartDataPoint extends CartesianDataPoint, SelectableDataPoint, TooltipEnabledDataPoint {
+        statistics: BoxAndWhiskerStatistics;
+        color: string;
+        key: string;
+    }
+
+    export interface BoxAndWhiskerOutlier {
+        value: number;
+        box: BoxAndWhiskerChartDataPoint;
+    }
+
+    /**
+     * The box-and-whisker chart shows the distribution of the values of each category (and series) as a box from
+     * the first to the third quartile with a line at the median, whiskers and outliers.
+     * The boxes of the series of a category are laid out side by side like the columns of a clustered column chart.
+     */
+    export class BoxAndWhiskerChart implements ICartesianVisual {
+        private static ClassName = 'boxAndWhiskerChart';
+        private static MainGraphicsContextClassName = 'mainGraphicsContext';
+        private static Box: ClassAndSelector = createClassAndSelector('box');
+        private static BoxRect: ClassAndSelector = createClassAndSelector('boxRect');
+        private static Median: ClassAndSelector = createClassAndSelector('median');
+        private static Mean: ClassAndSelector = createClassAndSelector('mean');
+        private static Whisker: ClassAndSelector = createClassAndSelector('whisker');
+        private static WhiskerCap: ClassAndSelector = createClassAndSelector('whiskerCap');
+        private static Outlier: ClassAndSelector = createClassAndSelector('outlier');
+
+        /** The distance of the Tukey fences from the box, in interquartile ranges. */
+        private static TukeyFenceFactor = 1.5;
+        private static WhiskerCapRatio = 0.5;
+        private static OutlierRadius = 3;
+        private static MeanRadius = 3;
+
+        private static CountLabel = 'BoxAndWhisker_Count';
+        private static MaximumLabel = 'BoxAndWhisker_Maximum';
+        private static ThirdQuartileLabel = 'BoxAndWhisker_ThirdQuartile';
+        private static MedianLabel = 'BoxAndWhisker_Median';
+        private static FirstQuartileLabel = 'BoxAndWhisker_FirstQuartile';
+        private static MinimumLabel = 'BoxAndWhisker_Minimum';
+        private static MeanLabel = 'BoxAndWhisker_Mean';
+        private static OutlierLabel = 'BoxAndWhisker_Outlier';
+
+        private svg: D3.Selection;
+        private mainGraphicsSVG: D3.Selection;
+        private mainGraphicsContext: D3.Selection;
+        private xAxisProperties: IAxisProperties;
+        private yAxisProperties: IAxisProperties;
+        private currentViewport: IViewport;
+        private margin: IMargin;
+        private data: BoxAndWhiskerChartData;
+
+        /**
+         * Note: If we overflowed horizontally then this holds the subset of data we should render.
+         */
+        private clippedData: BoxAndWhiskerChartData;
+
+        private style: IVisualStyle;
+        private colors: IDataColorPalette;
+        private highContrastColors: HighContrastColors;
+        private hostServices: IVisualHostServices;
+        private options: CartesianVisualInitOptions;
+        private isScrollable: boolean;
+        private isRightToLeft: boolean;
+        private tooltipsEnabled: boolean;
+        private tooltipService: ITooltipService;
+        private interactivityService: IInteractivityService;
+        private seriesOffsetScale: D3.Scale.OrdinalScale;
+
+        constructor(options: BoxAndWhiskerChartConstructorOptions) {
+            this.isScrollable = options.isScrollable;
+            this.tooltipsEnabled = options.tooltipsEnabled;
+            this.interactivityService = options.interactivityService;
+        }
+
+        public init(options: CartesianVisualInitOptions): void {
+            debug.assertValue(options, 'options');
+
+            this.svg = options.svg;
+            this.svg.classed(BoxAndWhiskerChart.ClassName, true);
+            this.style = options.style;
+            this.currentViewport = options.viewport;
+            this.hostServices = options.host;
+            this.options = options;
+            this.tooltipService = options.services.tooltips;
+            this.colors = this.style.colorPalette.dataColors;
+            this.highContrastColors = HighContrastHelper.getColors(this.style);
+            this.mainGraphicsSVG = this.svg.append('svg');
+            this.mainGraphicsContext = this.mainGraphicsSVG.append('g')
+                .classed(BoxAndWhiskerChart.MainGraphicsContextClassName, true);
+        }
+
+        /**
+         * Computes the quartiles (linearly interpolated between the closest ranks), the whiskers and the outliers of the values.
+         * Returns undefined when there is no numeric value.
+         */
+        public static computeStatistics(values: number[], whiskerType: string = boxWhiskerType.tukey): BoxAndWhiskerStatistics {
+            let sorted = _.filter(values, (value: number) => value != null && isFinite(value)).sort((a, b) => a - b);
+            let count = sorted.length;
+            if (count === 0)
+                return;
+
+            let min = sorted[0];
+            let max = sorted[count - 1];
+            let firstQuartile = d3.quantile(sorted, 0.25);
+            let thirdQuartile = d3.quantile(sorted, 0.75);
+            let interquartileRange = thirdQuartile - firstQuartile;
+
+            let lowerWhisker = min;
+            let upperWhisker = max;
+            let outliers: number[] = [];
+            if (whiskerType !== boxWhiskerType.minMax) {
+                let lowerFence = firstQuartile - BoxAndWhiskerChart.TukeyFenceFactor * interquartileRange;
+                let upperFence = thirdQuartile + BoxAndWhiskerChart.TukeyFenceFactor * interquartileRange;
+                let inside = _.filter(sorted, (value: number) => value >= lowerFence && value <= upperFence);
+                lowerWhisker = _.first(inside);
+                upperWhisker = _.last(inside);
+                outliers = _.filter(sorted, (value: number) => value < lowerFence || value > upperFence);
+            }
+
+            return {
+                count: count,
+                min: min,
+                max: max,
+                mean: d3.mean(sorted),
+                median: d3.quantile(sorted, 0.5),
+                firstQuartile: firstQuartile,
+                thirdQuartile: thirdQuartile,
+                interquartileRange: interquartileRange,
+                lowerWhisker: lowerWhisker,
+                upperWhisker: upperWhisker,
+                outliers: outliers,
+            };
+        }
+
+        /**
+         * Identifies a box by the value of the category column alone, rather than by the row identity it shares with the other category columns.
+         */
+        private static createCategoryIdentity(categoryColumns: DataViewCategoryColumn[], categoryColumn: DataViewCategoryColumn, rowIndex: number): DataViewScopeIdentity {
+            let identityFields = categoryColumn.identityFields || [];
+            let field = <SQExpr>(identityFields.length === categoryColumns.length
+                ? identityFields[categoryColumns.indexOf(categoryColumn)]
+                : identityFields[0]);
+            if (!field)
+                return categoryColumn.identity ? categoryColumn.identity[rowIndex] : undefined;
+
+            return createDataViewScopeIdentity(SQExprBuilder.equal(field, SQExprBuilder.typedConstant(categoryColumn.values[rowIndex], categoryColumn.source.type)));
+        }
+
+        public static converter(
+            dataView: DataView,
+            colors: IDataColorPalette,
+            hostServices: IVisualHostServices,
+            settings: BoxAndWhiskerChartSettings,
+            defaultDataPointColor?: string,
+            interactivityService?: IInteractivityService,
+            tooltipsEnabled: boolean = true,
+            highContrastColors?: HighContrastColors): BoxAndWhiskerChartData {
+            debug.assertValue(dataView, 'dataView');
+            debug.assertValue(colors, 'colors');
+            debug.assertValue(settings, 'settings');
+
+            let categorical = dataView.categorical;
+            let formatStringProp = boxAndWhiskerChartProps.general.formatString;
+
+            // The observations are the rows, the category column groups them (the other category columns only keep the rows apart).
+            // All the category columns share one composite identity per row, so the rows are grouped by the value of the category column.
+            let categoryColumns = categorical.categories || [];
+            let categoryColumn = _.find(categoryColumns, (column: DataViewCategoryColumn) => DataRoleHelper.hasRole(column.source, 'Category'));
+            let categoryMetadata = categoryColumn ? categoryColumn.source : undefined;
+
+            let allValues = categorical.values;
+            let valueGroups = allValues ? allValues.grouped() : [];
+            let hasDynamicSeries = !!(allValues && allValues.source);
+            let rowCount = 0;
+            for (let valueGroup of valueGroups) {
+                for (let column of valueGroup.values)
+                    rowCount = Math.max(rowCount, column.values.length);
+            }
+
+            // Group the rows by category, in the order in which the categories first appear
+            let categories: any[] = [];
+            let categoryRows: number[][] = [];
+            let categoryIndexByKey: _.Dictionary<number> = {};
+            for (let rowIndex = 0; rowIndex < rowCount; rowIndex++) {
+                let key = '';
+                let categoryValue: any;
+                if (categoryColumn) {
+                    categoryValue = categoryColumn.values[rowIndex];
+                    key = String(categoryValue instanceof Date ? categoryValue.getTime() : categoryValue);
+                }
+
+                let categoryIndex = categoryIndexByKey[key];
+                if (categoryIndex === undefined) {
+                    categoryIndex = categoryIndexByKey[key] = categories.length;
+                    categories.push(categoryValue);
+                    categoryRows.push([]);
+                }
+                categoryRows[categoryIndex].push(rowIndex);
+            }
+
+            let colorHelper = new ColorHelper(colors, boxAndWhiskerChartProps.dataPoint.fill, defaultDataPointColor, highContrastColors);
+            let series: BoxAndWhiskerChartSeries[] = [];
+            let legendDataPoints: LegendDataPoint[] = [];
+            let valuesMetadata: DataViewMetadataColumn;
+
+            for (let groupIndex = 0, groupCount = valueGroups.length; groupIndex < groupCount; groupIndex++) {
+                let valueGroup = valueGroups[groupIndex];
+                let valueColumn = _.find(valueGroup.values, (column: DataViewValueColumn) => DataRoleHelper.hasRole(column.source, 'Y'));
+                if (!valueColumn)
+                    continue;
+
+                let source = valueColumn.source;
+                valuesMetadata = valuesMetadata || source;
+
+                let seriesIdBuilder = SelectionIdBuilder.builder();
+                if (hasDynamicSeries)
+                    seriesIdBuilder = seriesIdBuilder.withSeries(allValues, valueGroup);
+                let seriesIdentity = seriesIdBuilder.withMeasure(source.queryName).createSelectionId();
+
+                let color = hasDynamicSeries
+                    ? colorHelper.getColorForSeriesValue(valueGroup.objects, allValues.identityFields, source.groupName)
+                    : colorHelper.getColorForMeasure(source.objects, source.queryName);
+                let displayName = converterHelper.getFormattedLegendLabel(source, allValues, formatStringProp);
+                let seriesIndex = series.length;
+
+                let dataPoints: BoxAndWhiskerChartDataPoint[] = [];
+                for (let categoryIndex = 0, categoryCount = categories.length; categoryIndex < categoryCount; categoryIndex++) {
+                    let rows = categoryRows[categoryIndex];
+                    let statistics = BoxAndWhiskerChart.computeStatistics(_.map(rows, (rowIndex: number) => <number>valueColumn.values[rowIndex]), settings.whiskerType);
+                    if (!statistics)
+                        continue;
+
+                    let idBuilder = SelectionIdBuilder.builder();
+                    if (categoryColumn && categoryColumns.length > 1)
+                        idBuilder = idBuilder.withCategoryIdentity(categoryColumn, BoxAndWhiskerChart.createCategoryIdentity(categoryColumns, categoryColumn, rows[0]));
+                    else if (categoryColumn)
+                        idBuilder = idBuilder.withCategory(categoryColumn, rows[0]);
+                    if (hasDynamicSeries)
+                        idBuilder = idBuilder.withSeries(allValues, valueGroup);
+                    let identity = idBuilder.withMeasure(source.queryName).createSelectionId();
+
+                    let tooltipInfo: TooltipDataItem[];
+                    if (tooltipsEnabled) {
+                        tooltipInfo = BoxAndWhiskerChart.createTooltipInfo(
+                            hostServices,
+                            statistics,
+                            categoryMetadata,
+                            categories[categoryIndex],
+                            source,
+                            hasDynamicSeries ? displayName : undefined);
+                    }
+
+                    dataPoints.push({
+                        categoryValue: categories[categoryIndex],
+                        value: statistics.median,
+                        categoryIndex: categoryIndex,
+                        seriesIndex: seriesIndex,
+                        statistics: statistics,
+                        color: color,
+                        identity: identity,
+                        key: identity.getKey(),
+                        selected: false,
+                        tooltipInfo: tooltipInfo,
+                    });
+                }
+
+                series.push({
+                    index: seriesIndex,
+                    displayName: displayName,
+                    color: color,
+                    identity: seriesIdentity,
+                    data: dataPoints,
+                });
+
+                legendDataPoints.push({
+                    label: displayName,
+                    color: color,
+                    icon: LegendIcon.Box,
+                    identity: seriesIdentity,
+                    selected: false,
+                });
+            }
+
+            if (interactivityService) {
+                for (let currentSeries of series)
+                    interactivityService.applySelectionStateToData(currentSeries.data);
+            }
+
+            let xAxisProperties = CartesianHelper.getCategoryAxisProperties(dataView.metadata);
+            let yAxisProperties = CartesianHelper.getValueAxisProperties(dataView.metadata);
+            let axesLabels = converterHelper.createAxesLabels(xAxisProperties, yAxisProperties, categoryMetadata, valuesMetadata ? [valuesMetadata] : []);
+
+            return {
+                series: series,
+                categories: categories,
+                categoryMetadata: categoryMetadata,
+                valuesMetadata: valuesMetadata,
+                legend: {
+                    title: hasDynamicSeries && allValues.source ? allValues.source.displayName : undefined,
+                    dataPoints: legendDataPoints,
+                },
+                hasDynamicSeries: hasDynamicSeries,
+                defaultDataPointColor: defaultDataPointColor,
+                settings: settings,
+                axesLabels: { x: axesLabels.xAxisLabel, y: axesLabels.yAxisLabel },
+            };
+        }
+
+        private static createTooltipInfo(
+            hostServices: IVisualHostServices,
+            statistics: BoxAndWhiskerStatistics,
+            categoryMetadata: DataViewMetadataColumn,
+            categoryValue: any,
+            valueMetadata: DataViewMetadataColumn,
+            seriesDisplayName: string): TooltipDataItem[] {
+            let formatStringProp = boxAndWhiskerChartProps.general.formatString;
+            let formatValue = (value: number) => converterHelper.formatFromMetadataColumn(value, valueMetadata, formatStringProp);
+
+            let tooltipInfo: TooltipDataItem[] = [];
+            if (categoryMetadata) {
+                tooltipInfo.push({
+                    displayName: categoryMetadata.displayName,
+                    value: converterHelper.formatFromMetadataColumn(categoryValue, categoryMetadata, formatStringProp),
+                });
+            }
+
+            if (seriesDisplayName != null) {
+                tooltipInfo.push({
+                    displayName: valueMetadata.displayName,
+                    value: seriesDisplayName,
+                });
+            }
+
+            tooltipInfo.push(
+                { displayName: hostServices.getLocalizedString(BoxAndWhiskerChart.CountLabel), value: valueFormatter.format(statistics.count) },
+                { displayName: hostServices.getLocalizedString(BoxAndWhiskerChart.MaximumLabel), value: formatValue(statistics.max) },
+                { displayName: hostServices.getLocalizedString(BoxAndWhiskerChart.ThirdQuartileLabel), value: formatValue(statistics.thirdQuartile) },
+                { displayName: hostServices.getLocalizedString(BoxAndWhiskerChart.MedianLabel), value: formatValue(statistics.median) },
+                { displayName: hostServices.getLocalizedString(BoxAndWhiskerChart.FirstQuartileLabel), value: formatValue(statistics.firstQuartile) },
+                { displayName: hostServices.getLocalizedString(BoxAndWhiskerChart.MinimumLabel), value: formatValue(statistics.min) },
+                { displayName: hostServices.getLocalizedString(BoxAndWhiskerChart.MeanLabel), value: formatValue(statistics.mean) });
+
+            return tooltipInfo;
+        }
+
+        public setData(dataViews: DataView[]): void {
+            debug.assertValue(dataViews, 'dataViews');
+
+            let dataView = dataViews.length > 0 ? dataViews[0] : undefined;
+            let objects = dataView && dataView.metadata ? dataView.metadata.objects : undefined;
+            let settings: BoxAndWhiskerChartSettings = {
+                whiskerType: DataViewObjects.getValue(objects, boxAndWhiskerChartProps.boxWhisker.whiskerType, boxWhiskerType.tukey),
+                showOutliers: DataViewObjects.getValue(objects, boxAndWhiskerChartProps.boxWhisker.showOutliers, true),
+                showMean: DataViewObjects.getValue(objects, boxAndWhiskerChartProps.boxWhisker.showMean, false),
+            };
+
+            if (dataView && dataView.categorical) {
+                let defaultDataPointColor = DataViewObjects.getFillColor(objects, boxAndWhiskerChartProps.dataPoint.defaultColor);
+                this.data = BoxAndWhiskerChart.converter(
+                    dataView,
+                    this.colors,
+                    this.hostServices,
+                    settings,
+                    defaultDataPointColor,
+                    this.interactivityService,
+                    this.tooltipsEnabled,
+                    this.highContrastColors);
+            }
+            else {
+                this.data = {
+                    series: [],
+                    categories: [],
+                    categoryMetadata: undefined,
+                    valuesMetadata: undefined,
+                    legend: { dataPoints: [] },
+                    hasDynamicSeries: false,
+                    settings: settings,
+                    axesLabels: { x: null, y: null },
+                };
+            }
+        }
+
+        public enumerateObjectInstances(enumeration: ObjectEnumerationBuilder, options: EnumerateVisualObjectInstancesOptions): void {
+            let data = this.data;
+            if (!data)
+                return;
+
+            switch (options.objectName) {
+                case 'boxWhisker':
+                    enumeration.pushInstance({
+                        objectName: 'boxWhisker',
+                        selector: null,
+                        properties: {
+                            whiskerType: data.settings.whiskerType,
+                            showOutliers: data.settings.showOutliers,
+                            showMean: data.settings.showMean,
+                        },
+                    });
+                    break;
+                case 'dataPoint':
+                    this.enumerateDataPoints(enumeration);
+                    break;
+            }
+        }
+
+        private enumerateDataPoints(enumeration: ObjectEnumerationBuilder): void {
+            let data = this.data;
+            if (data.hasDynamicSeries) {
+                for (let series of data.series) {
+                    enumeration.pushInstance({
+                        objectName: 'dataPoint',
+                        displayName: series.displayName,
+                        selector: ColorHelper.normalizeSelector(series.identity.getSelector()),
+                        properties: {
+                            fill: { solid: { color: series.color } }
+                        },
+                    });
+                }
+            }
+            else {
+                enumeration.pushInstance({
+                    objectName: 'dataPoint',
+                    selector: null,
+                    properties: {
+                        defaultColor: { solid: { color: data.defaultDataPointColor || this.colors.getColorByIndex(0).value } }
+                    },
+                });
+            }
+        }
+
+        public calculateLegend(): LegendData {
+            return this.data.legend;
+        }
+
+        public hasLegend(): boolean {
+            return this.data && this.data.hasDynamicSeries;
+        }
+
+        public calculateAxesProperties(options: CalculateScaleAndDomainOptions): IAxisProperties[] {
+            debug.assertValue(options, 'options');
+
+            this.currentViewport = options.viewport;
+            this.margin = options.margin;
+            this.isRightToLeft = !!options.isRightToLeft;
+
+            let data = this.clippedData = this.data;
+            let categoryCount = data.categories.length;
+            let preferredPlotArea = this.getPreferredPlotArea(false, categoryCount, CartesianChart.MinOrdinalRectThickness);
+
+            let layout = CartesianChart.getLayout(
+                null,
+                {
+                    availableWidth: preferredPlotArea.width,
+                    categoryCount: categoryCount,
+                    domain: null,
+                    isScalar: false,
+                    isScrollable: this.isScrollable,
+                    trimOrdinalDataOnOverflow: options.trimOrdinalDataOnOverflow
+                });
+
+            // In the case that we have overflowed horizontally we want to clip the data and use that to calculate the axes on the dashboard.
+            if (!this.isScrollable && layout.categoryCount < categoryCount) {
+                data = this.clippedData = this.setFilteredData(0, layout.categoryCount);
+            }
+
+            this.xAxisProperties = AxisHelper.createAxis({
+                pixelSpan: preferredPlotArea.width,
+                dataDomain: _.range(data.categories.length),
+                metaDataColumn: data.categoryMetadata,
+                formatString: valueFormatter.getFormatString(data.categoryMetadata, boxAndWhiskerChartProps.general.formatString),
+                isScalar: false,
+                outerPadding: layout.categoryThickness * layout.outerPaddingRatio,
+                categoryThickness: layout.categoryThickness,
+                getValueFn: (index, type) => this.lookupXValue(index, type),
+                forcedTickCount: options.forcedTickCount,
+                isCategoryAxis: true,
+                axisDisplayUnits: options.categoryAxisDisplayUnits,
+                axisPrecision: options.categoryAxisPrecision,
+                isMirrored: options.isRightToLeft,
+            });
+
+            let valueDomain = BoxAndWhiskerChart.createValueDomain(data);
+            this.yAxisProperties = AxisHelper.createAxis({
+                pixelSpan: preferredPlotArea.height,
+                dataDomain: AxisHelper.combineDomain(options.forcedYDomain, valueDomain, options.ensureYDomain),
+                metaDataColumn: data.valuesMetadata,
+                formatString: valueFormatter.getFormatString(data.valuesMetadata, boxAndWhiskerChartProps.general.formatString),
+                isScalar: true,
+                isVertical: true,
+                outerPadding: 0,
+                forcedTickCount: options.forcedTickCount,
+                useTickIntervalForDisplayUnits: true,
+                isCategoryAxis: false,
+                scaleType: options.valueAxisScaleType,
+                axisDisplayUnits: options.valueAxisDisplayUnits,
+                axisPrecision: options.valueAxisPrecision,
+            });
+
+            this.xAxisProperties.axisLabel = options.showCategoryAxisLabel ? data.axesLabels.x : null;
+            this.yAxisProperties.axisLabel = options.showValueAxisLabel ? data.axesLabels.y : null;
+
+            return [this.xAxisProperties, this.yAxisProperties];
+        }
+
+        /**
+         * The value domain spans the whiskers, and the outliers when they are shown.
+         */
+        private static createValueDomain(data: BoxAndWhiskerChartData): number[] {
+            let min: number;
+            let max: number;
+            for (let series of data.series) {
+                for (let dataPoint of series.data) {
+                    let statistics = dataPoint.statistics;
+                    let low = data.settings.showOutliers ? statistics.min : statistics.lowerWhisker;
+                    let high = data.settings.showOutliers ? statistics.max : statistics.upperWhisker;
+                    min = min === undefined ? low : Math.min(min, low);
+                    max = max === undefined ? high : Math.max(max, high);
+                }
+            }
+
+            return min === undefined ? emptyDomain : [min, max];
+        }
+
+        private lookupXValue(index: number, type: ValueType): any {
+            let categories = this.data.categories;
+            return index < categories.length ? categories[index] : index;
+        }
+
+        public getPreferredPlotArea(isScalar: boolean, categoryCount: number, categoryThickness: number): IViewport {
+            return CartesianChart.getPreferredPlotArea(
+                categoryCount,
+                categoryThickness,
+                this.currentViewport,
+                this.isScrollable,
+                isScalar,
+                this.margin);
+        }
+
+        public getVisualCategoryAxisIsScalar(): boolean {
+            return false;
+        }
+
+        public getSupportedCategoryAxisType(): string {
+            return axisType.categorical;
+        }
+
+        public overrideXScale(xProperties: IAxisProperties): void {
+            this.xAxisProperties = xProperties;
+        }
+
+        public setFilteredData(startIndex: number, endIndex: number): BoxAndWhiskerChartData {
+            let data = this.clippedData = Prototype.inherit(this.data);
+
+            data.series = _.map(this.data.series, (series: BoxAndWhiskerChartSeries) => {
+                let filteredSeries: BoxAndWhiskerChartSeries = Prototype.inherit(series);
+                filteredSeries.data = _.filter(series.data, (d: BoxAndWhiskerChartDataPoint) => d.categoryIndex >= startIndex && d.categoryIndex < endIndex);
+                return filteredSeries;
+            });
+            data.categories = this.data.categories.slice(startIndex, endIndex);
+
+            return data;
+        }
+
+        public render(suppressAnimations: boolean): CartesianVisualRenderResult {
+            let data = this.clippedData;
+            let dataPoints: BoxAndWhiskerChartDataPoint[] = _.flatten<BoxAndWhiskerChartDataPoint>(_.map(data.series, (series: BoxAndWhiskerChartSeries) => series.data));
+            let settings = data.settings;
+
+            this.mainGraphicsSVG
+                .attr('width', this.getAvailableWidth())
+                .attr('height', this.getAvailableHeight());
+
+            // Same layout as the clustered columns: the series of a category share its thickness, mirrored along with the categories
+            let xScale = this.xAxisProperties.scale;
+            let yScale = this.yAxisProperties.scale;
+            let seriesCount = Math.max(data.series.length, 1);
+            let boxWidth = (this.xAxisProperties.categoryThickness * (1 - CartesianChart.InnerPaddingRatio)) / seriesCount;
+            let seriesOffsetScale = this.seriesOffsetScale = d3.scale.ordinal()
+                .domain(_.range(seriesCount))
+                .rangeBands(this.isRightToLeft ? [seriesCount * boxWidth, 0] : [0, seriesCount * boxWidth]);
+            let getX = (d: BoxAndWhiskerChartDataPoint) => xScale(d.categoryIndex) + seriesOffsetScale(d.seriesIndex);
+            let getCenter = (d: BoxAndWhiskerChartDataPoint) => getX(d) + boxWidth / 2;
+            let capWidth = boxWidth * BoxAndWhiskerChart.WhiskerCapRatio;
+
+            let highContrastColors = this.highContrastColors;
+            let hasSelection = this.interactivityService && this.interactivityService.hasSelection();
+            let medianColor = this.style.colorPalette.background ? this.style.colorPalette.background.value : '#FFFFFF';
+
+            let boxes = this.mainGraphicsContext.selectAll(BoxAndWhiskerChart.Box.selector)
+                .data(dataPoints, (d: BoxAndWhiskerChartDataPoint) => d.key);
+
+            let boxesEnter = boxes.enter()
+                .append('g')
+                .classed(BoxAndWhiskerChart.Box.class, true);
+            boxesEnter.append('line').classed(BoxAndWhiskerChart.Whisker.class, true).classed('lower', true);
+            boxesEnter.append('line').classed(BoxAndWhiskerChart.Whisker.class, true).classed('upper', true);
+            boxesEnter.append('line').classed(BoxAndWhiskerChart.WhiskerCap.class, true).classed('lower', true);
+            boxesEnter.append('line').classed(BoxAndWhiskerChart.WhiskerCap.class, true).classed('upper', true);
+            boxesEnter.append('rect').classed(BoxAndWhiskerChart.BoxRect.class, true);
+            boxesEnter.append('line').classed(BoxAndWhiskerChart.Median.class, true);
+
+            boxes.exit().remove();
+
+            boxes.select(BoxAndWhiskerChart.Whisker.selector + '.lower').attr({
+                x1: getCenter,
+                x2: getCenter,
+                y1: (d: BoxAndWhiskerChartDataPoint) => yScale(d.statistics.firstQuartile),
+                y2: (d: BoxAndWhiskerChartDataPoint) => yScale(d.statistics.lowerWhisker),
+            });
+
+            boxes.select(BoxAndWhiskerChart.Whisker.selector + '.upper').attr({
+                x1: getCenter,
+                x2: getCenter,
+                y1: (d: BoxAndWhiskerChartDataPoint) => yScale(d.statistics.thirdQuartile),
+                y2: (d: BoxAndWhiskerChartDataPoint) => yScale(d.statistics.upperWhisker),
+            });
+
+            boxes.select(BoxAndWhiskerChart.WhiskerCap.selector + '.lower').attr({
+                x1: (d: BoxAndWhiskerChartDataPoint) => getCenter(d) - capWidth / 2,
+                x2: (d: BoxAndWhiskerChartDataPoint) => getCenter(d) + capWidth / 2,
+                y1: (d: BoxAndWhiskerChartDataPoint) => yScale(d.statistics.lowerWhisker),
+                y2: (d: BoxAndWhiskerChartDataPoint) => yScale(d.statistics.lowerWhisker),
+            });
+
+            boxes.select(BoxAndWhiskerChart.WhiskerCap.selector + '.upper').attr({
+                x1: (d: BoxAndWhiskerChartDataPoint) => getCenter(d) - capWidth / 2,
+                x2: (d: BoxAndWhiskerChartDataPoint) => getCenter(d) + capWidth / 2,
+                y1: (d: BoxAndWhiskerChartDataPoint) => yScale(d.statistics.upperWhisker),
+                y2: (d: BoxAndWhiskerChartDataPoint) => yScale(d.statistics.upperWhisker),
+            });
+
+            // Styled after select() has passed the data of the boxes down to their lines, so updated boxes get their new color
+            boxes.selectAll(BoxAndWhiskerChart.Whisker.selector + ', ' + BoxAndWhiskerChart.WhiskerCap.selector)
+                .style('stroke', (d: BoxAndWhiskerChartDataPoint) => d.color);
+
+            let boxRects = boxes.select(BoxAndWhiskerChart.BoxRect.selector)
+                .attr({
+                    x: getX,
+                    y: (d: BoxAndWhiskerChartDataPoint) => yScale(d.statistics.thirdQuartile),
+                    width: boxWidth,
+                    height: (d: BoxAndWhiskerChartDataPoint) => Math.abs(yScale(d.statistics.firstQuartile) - yScale(d.statistics.thirdQuartile)),
+                })
+                .style({
+                    'fill': (d: BoxAndWhiskerChartDataPoint) => d.color,
+                    'stroke': (d: BoxAndWhiskerChartDataPoint) => d.color,
+                    'fill-opacity': (d: BoxAndWhiskerChartDataPoint) => ColumnUtil.getFillOpacity(d.selected, false, hasSelection, false),
+                });
+
+            if (highContrastColors)
+                HighContrastHelper.applyPatternFills(boxRects, this.svg, highContrastColors, (d: BoxAndWhiskerChartDataPoint) => d.seriesIndex);
+
+            boxes.select(BoxAndWhiskerChart.Median.selector)
+                .attr({
+                    x1: getX,
+                    x2: (d: BoxAndWhiskerChartDataPoint) => getX(d) + boxWidth,
+                    y1: (d: BoxAndWhiskerChartDataPoint) => yScale(d.statistics.median),
+                    y2: (d: BoxAndWhiskerChartDataPoint) => yScale(d.statistics.median),
+                })
+                .style('stroke', highContrastColors ? highContrastColors.foreground : medianColor);
+
+            let means = boxes.selectAll(BoxAndWhiskerChart.Mean.selector)
+                .data((d: BoxAndWhiskerChartDataPoint) => settings.showMean ? [d] : []);
+            means.enter()
+                .append('circle')
+                .classed(BoxAndWhiskerChart.Mean.class, true);
+            means
+                .attr({
+                    cx: getCenter,
+                    cy: (d: BoxAndWhiskerChartDataPoint) => yScale(d.statistics.mean),
+                    r: BoxAndWhiskerChart.MeanRadius,
+                })
+                .style({
+                    'fill': highContrastColors ? highContrastColors.background : medianColor,
+                    'stroke': (d: BoxAndWhiskerChartDataPoint) => d.color,
+                });
+            means.exit().remove();
+
+            let outliers = boxes.selectAll(BoxAndWhiskerChart.Outlier.selector)
+                .data((d: BoxAndWhiskerChartDataPoint) => settings.showOutliers
+                    ? _.map(d.statistics.outliers, (value: number) => <BoxAndWhiskerOutlier>{ value: value, box: d })
+                    : []);
+            outliers.enter()
+                .append('circle')
+                .classed(BoxAndWhiskerChart.Outlier.class, true);
+            outliers
+                .attr({
+                    cx: (d: BoxAndWhiskerOutlier) => getCenter(d.box),
+                    cy: (d: BoxAndWhiskerOutlier) => yScale(d.value),
+                    r: BoxAndWhiskerChart.OutlierRadius,
+                })
+                .style({
+                    'fill': 'none',
+                    'stroke': (d: BoxAndWhiskerOutlier) => d.box.color,
+                });
+            outliers.exit().remove();
+
+            if (this.tooltipsEnabled) {
+                this.tooltipService.addTooltip(
+                    boxRects,
+                    (args: TooltipEventArgs<BoxAndWhiskerChartDataPoint>) => args.data.tooltipInfo,
+                    (args: TooltipEventArgs<BoxAndWhiskerChartDataPoint>) => args.data.identity);
+
+                this.tooltipService.addTooltip(
+                    outliers,
+                    (args: TooltipEventArgs<BoxAndWhiskerOutlier>) => this.getOutlierTooltipInfo(args.data),
+                    (args: TooltipEventArgs<BoxAndWhiskerOutlier>) => args.data.box.identity);
+            }
+
+            let behaviorOptions: BoxAndWhiskerChartBehaviorOptions = undefined;
+            if (this.interactivityService) {
+                behaviorOptions = {
+                    boxes: boxes,
+                    boxRects: boxRects,
+                };
+            }
+
+            // This should always be the last line in the render code.
+            SVGUtil.flushAllD3TransitionsIfNeeded(this.options);
+
+            return { dataPoints: dataPoints, behaviorOptions: behaviorOptions, labelDataPoints: [], labelsAreNumeric: true };
+        }
+
+        private getOutlierTooltipInfo(outlier: BoxAndWhiskerOutlier): TooltipDataItem[] {
+            let tooltipInfo = _.filter(outlier.box.tooltipInfo, (item: TooltipDataItem, index: number) => index < (this.data.categoryMetadata ? 1 : 0) + (this.data.hasDynamicSeries ? 1 : 0));
+            tooltipInfo.push({
+                displayName: this.hostServices.getLocalizedString(BoxAndWhiskerChart.OutlierLabel),
+                value: converterHelper.formatFromMetadataColumn(outlier.value, this.data.valuesMetadata, boxAndWhiskerChartProps.general.formatString),
+            });
+
+            return tooltipInfo;
+        }
+
+        public onClearSelection(): void {
+            if (this.interactivityService)
+                this.interactivityService.clearSelection();
+        }
+
+        private getAvailableWidth(): number {
+            return this.currentViewport.width - (this.margin.left + this.margin.right);
+        }
+
+        private getAvailableHeight(): number {
+            return this.currentViewport.height - (this.margin.top + this.margin.bottom);
+        }
+    }
+}
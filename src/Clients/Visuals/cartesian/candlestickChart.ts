@@ -0,0 +1,704 @@
+/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved. 
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *   
+ *  The above copyright notice and this permission notice shall be included in 
+ *  all copies or substantial portions of the Software.
+ *   
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR 
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, 
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE 
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER 
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+/// <reference path="../_references.ts"/>
+
+module powerbi.visuals {
+    import ClassAndSelector = jsCommon.CssConstants.ClassAndSelector;
+    import createClassAndSelector = jsCommon.CssConstants.createClassAndSelector;
+    import DataRoleHelper = powerbi.data.DataRoleHelper;
+
+    export interface CandlestickChartConstructorOptions extends CartesianVisualConstructorOptions {
+    }
+
+    export interface CandlestickChartSettings {
+        chartStyle: string;
+        /** When set the periods are laid out next to each other, otherwise on a time axis which shows the non-trading days. */
+        skipGaps: boolean;
+        showVolume: boolean;
+    }
+
+    export interface CandlestickChartSentimentColors {
+        increaseFill: Fill;
+        decreaseFill: Fill;
+    }
+
+    export interface CandlestickChartData extends CartesianData {
+        series: CandlestickChartSeries[];
+        /** The category of each period, by trading index. */
+        categories: any[];
+        categoryMetadata: DataViewMetadataColumn;
+        valuesMetadata: DataViewMetadataColumn;
+        volumeMetadata: DataViewMetadataColumn;
+        isScalar: boolean;
+        settings: CandlestickChartSettings;
+        sentimentColors: CandlestickChartSentimentColors;
+        axesLabels: ChartAxesLabels;
+    }
+
+    export interface CandlestickChartSeries extends CartesianSeries {
+        data: CandlestickChartDataPoint[];
+    }
+
+    /**
+     * A trading period, its value is the close price.
+     * The categoryIndex is the row of the period, the tradingIndex its position among the periods with prices.
+     */
+    export interface CandlestickChartDataPoint extends CartesianDataPoint, SelectableDataPoint, TooltipEnabledDataPoint {
+        open: number;
+        high: number;
+        low: number;
+        close: number;
+        volume: number;
+        tradingIndex: number;
+        isIncrease: boolean;
+        color: string;
+        key: string;
+    }
+
+    /**
+     * The candlestick chart shows the open, high, low and close prices of each trading period, either as a candle
+     * (a body from the open to the close price with wicks to the high and low prices) or as an OHLC bar.
+     * Periods which close at or above their open price take the increase sentiment color, the others the decrease one.
+     * The volume, when bound, is drawn as columns in a panel below the prices.
+     */
+    export class CandlestickChart implements ICartesianVisual {
+        private static ClassName = 'candlestickChart';
+        private static MainGraphicsContextClassName = 'mainGraphicsContext';
+        private static Candle: ClassAndSelector = createClassAndSelector('candle');
+        private static Wick: ClassAndSelector = createClassAndSelector('wick');
+        private static Body: ClassAndSelector = createClassAndSelector('candleBody');
+        private static OpenTick: ClassAndSelector = createClassAndSelector('openTick');
+        private static CloseTick: ClassAndSelector = createClassAndSelector('closeTick');
+        private static VolumeBar: ClassAndSelector = createClassAndSelector('volumeBar');
+
+        /** The share of the plot height taken by the volume panel. */
+        private static VolumePanelRatio = 0.2;
+        private static VolumePanelGap = 8;
+        private static VolumeBarOpacity = 0.5;
+        private static MinBodyHeight = 1;
+
+        private svg: D3.Selection;
+        private mainGraphicsSVG: D3.Selection;
+        private mainGraphicsContext: D3.Selection;
+        private xAxisProperties: IAxisProperties;
+        private yAxisProperties: IAxisProperties;
+        private currentViewport: IViewport;
+        private margin: IMargin;
+        private data: CandlestickChartData;
+
+        /**
+         * Note: If we overflowed horizontally or zoomed then this holds the subset of data we should render.
+         */
+        private clippedData: CandlestickChartData;
+
+        private style: IVisualStyle;
+        private colors: IDataColorPalette;
+        private highContrastColors: HighContrastColors;
+        private options: CartesianVisualInitOptions;
+        private isScrollable: boolean;
+        private isRightToLeft: boolean;
+        private tooltipsEnabled: boolean;
+        private tooltipService: ITooltipService;
+        private interactivityService: IInteractivityService;
+
+        constructor(options: CandlestickChartConstructorOptions) {
+            this.isScrollable = options.isScrollable;
+            this.tooltipsEnabled = options.tooltipsEnabled;
+            this.interactivityService = options.interactivityService;
+        }
+
+        public init(options: CartesianVisualInitOptions): void {
+            debug.assertValue(options, 'options');
+
+            this.svg = options.svg;
+            this.svg.classed(CandlestickChart.ClassName, true);
+            this.style = options.style;
+            this.currentViewport = options.viewport;
+            this.options = options;
+            this.tooltipService = options.services.tooltips;
+            this.colors = this.style.colorPalette.dataColors;
+            this.highContrastColors = HighContrastHelper.getColors(this.style);
+            this.mainGraphicsSVG = this.svg.append('svg');
+            this.mainGraphicsContext = this.mainGraphicsSVG.append('g')
+                .classed(CandlestickChart.MainGraphicsContextClassName, true);
+        }
+
+        public static converter(
+            dataView: DataView,
+            settings: CandlestickChartSettings,
+            sentimentColors: CandlestickChartSentimentColors,
+            interactivityService?: IInteractivityService,
+            tooltipsEnabled: boolean = true): CandlestickChartData {
+            debug.assertValue(dataView, 'dataView');
+            debug.assertValue(settings, 'settings');
+            debug.assertValue(sentimentColors, 'sentimentColors');
+
+            let categorical = dataView.categorical;
+            let categoryColumn = _.find(categorical.categories || [], (column: DataViewCategoryColumn) => DataRoleHelper.hasRole(column.source, 'Category'));
+            let categoryMetadata = categoryColumn ? categoryColumn.source : undefined;
+
+            let open = CandlestickChart.getValueColumn(categorical, 'Open');
+            let high = CandlestickChart.getValueColumn(categorical, 'High');
+            let low = CandlestickChart.getValueColumn(categorical, 'Low');
+            let close = CandlestickChart.getValueColumn(categorical, 'Close');
+            let volume = CandlestickChart.getValueColumn(categorical, 'Volume');
+
+            // Skipping the gaps lays the periods out on an ordinal axis, text categories are always laid out that way.
+            let isScalar = !settings.skipGaps && !!categoryMetadata && !AxisHelper.isOrdinal(categoryMetadata.type);
+            let increaseColor = sentimentColors.increaseFill.solid.color;
+            let decreaseColor = sentimentColors.decreaseFill.solid.color;
+
+            let categories: any[] = [];
+            let dataPoints: CandlestickChartDataPoint[] = [];
+            if (categoryColumn && open && high && low && close) {
+                for (let rowIndex = 0, rowCount = categoryColumn.values.length; rowIndex < rowCount; rowIndex++) {
+                    let prices = _.map([open, high, low, close], (column: DataViewValueColumn) => <number>column.values[rowIndex]);
+                    // Only the complete periods are drawn, a missing price leaves a gap rather than a misleading candle.
+                    if (_.some(prices, (price: number) => price == null || !isFinite(price)))
+                        continue;
+
+                    let categoryValue = categoryColumn.values[rowIndex];
+                    let volumeValue = volume ? <number>volume.values[rowIndex] : null;
+                    let tradingIndex = dataPoints.length;
+                    let isIncrease = prices[3] >= prices[0];
+                    let identity = SelectionIdBuilder.builder()
+                        .withCategory(categoryColumn, rowIndex)
+                        .createSelectionId();
+
+                    let tooltipInfo: TooltipDataItem[];
+                    if (tooltipsEnabled) {
+                        tooltipInfo = CandlestickChart.createTooltipInfo(
+                            categoryMetadata,
+                            categoryValue,
+                            [open, high, low, close, volume],
+                            prices.concat([volumeValue]));
+                    }
+
+                    categories.push(categoryValue);
+                    dataPoints.push({
+                        categoryValue: isScalar ? (categoryValue instanceof Date ? categoryValue.getTime() : categoryValue) : tradingIndex,
+                        value: prices[3],
+                        categoryIndex: rowIndex,
+                        seriesIndex: 0,
+                        open: prices[0],
+                        high: prices[1],
+                        low: prices[2],
+                        close: prices[3],
+                        volume: volumeValue,
+                        tradingIndex: tradingIndex,
+                        isIncrease: isIncrease,
+                        color: isIncrease ? increaseColor : decreaseColor,
+                        identity: identity,
+                        key: identity.getKey(),
+                        selected: false,
+                        tooltipInfo: tooltipInfo,
+                    });
+                }
+            }
+
+            if (interactivityService)
+                interactivityService.applySelectionStateToData(dataPoints);
+
+            let priceMetadata = _.map(_.filter([open, high, low, close], (column: DataViewValueColumn) => !!column), (column: DataViewValueColumn) => column.source);
+            let xAxisProperties = CartesianHelper.getCategoryAxisProperties(dataView.metadata);
+            let yAxisProperties = CartesianHelper.getValueAxisProperties(dataView.metadata);
+            let axesLabels = converterHelper.createAxesLabels(xAxisProperties, yAxisProperties, categoryMetadata, priceMetadata);
+
+            return {
+                series: [{ data: dataPoints }],
+                categories: categories,
+                categoryMetadata: categoryMetadata,
+                valuesMetadata: close ? close.source : undefined,
+                volumeMetadata: volume ? volume.source : undefined,
+                isScalar: isScalar,
+                settings: settings,
+                sentimentColors: sentimentColors,
+                axesLabels: { x: axesLabels.xAxisLabel, y: axesLabels.yAxisLabel },
+            };
+        }
+
+        private static getValueColumn(categorical: DataViewCategorical, role: string): DataViewValueColumn {
+            return _.find(categorical.values || [], (column: DataViewValueColumn) => DataRoleHelper.hasRole(column.source, role));
+        }
+
+        private static createTooltipInfo(
+            categoryMetadata: DataViewMetadataColumn,
+            categoryValue: any,
+            columns: DataViewValueColumn[],
+            values: number[]): TooltipDataItem[] {
+            let formatStringProp = candlestickChartProps.general.formatString;
+
+            let tooltipInfo: TooltipDataItem[] = [{
+                displayName: categoryMetadata.displayName,
+                value: converterHelper.formatFromMetadataColumn(categoryValue, categoryMetadata, formatStringProp),
+            }];
+
+            for (let i = 0, len = columns.length; i < len; i++) {
+                let column = columns[i];
+                if (!column || values[i] == null)
+                    continue;
+
+                tooltipInfo.push({
+                    displayName: column.source.displayName,
+                    value: converterHelper.formatFromMetadataColumn(values[i], column.source, formatStringProp),
+                });
+            }
+
+            return tooltipInfo;
+        }
+
+        public setData(dataViews: DataView[]): void {
+            debug.assertValue(dataViews, 'dataViews');
+
+            let dataView = dataViews.length > 0 ? dataViews[0] : undefined;
+            let objects = dataView && dataView.metadata ? dataView.metadata.objects : undefined;
+            let settings: CandlestickChartSettings = {
+                chartStyle: DataViewObjects.getValue(objects, candlestickChartProps.candlestick.chartStyle, candlestickChartStyle.candlestick),
+                skipGaps: DataViewObjects.getValue(objects, candlestickChartProps.candlestick.skipGaps, true),
+                showVolume: DataViewObjects.getValue(objects, candlestickChartProps.candlestick.showVolume, true),
+            };
+
+            // The sentiment colors of the palette default to the ones of the theme.
+            let defaultSentimentColors = this.colors.getSentimentColors();
+            let sentimentColors: CandlestickChartSentimentColors = {
+                increaseFill: { solid: { color: DataViewObjects.getFillColor(objects, candlestickChartProps.sentimentColors.increaseFill, defaultSentimentColors[2].value) } },
+                decreaseFill: { solid: { color: DataViewObjects.getFillColor(objects, candlestickChartProps.sentimentColors.decreaseFill, defaultSentimentColors[0].value) } },
+            };
+
+            if (dataView && dataView.categorical) {
+                this.data = CandlestickChart.converter(
+                    dataView,
+                    settings,
+                    sentimentColors,
+                    this.interactivityService,
+                    this.tooltipsEnabled);
+            }
+            else {
+                this.data = {
+                    series: [{ data: [] }],
+                    categories: [],
+                    categoryMetadata: undefined,
+                    valuesMetadata: undefined,
+                    volumeMetadata: undefined,
+                    isScalar: false,
+                    settings: settings,
+                    sentimentColors: sentimentColors,
+                    axesLabels: { x: null, y: null },
+                };
+            }
+        }
+
+        public enumerateObjectInstances(enumeration: ObjectEnumerationBuilder, options: EnumerateVisualObjectInstancesOptions): void {
+            let data = this.data;
+            if (!data)
+                return;
+
+            switch (options.objectName) {
+                case 'candlestick':
+                    let properties: any = {
+                        chartStyle: data.settings.chartStyle,
+                        skipGaps: data.settings.skipGaps,
+                    };
+                    if (data.volumeMetadata)
+                        properties.showVolume = data.settings.showVolume;
+
+                    enumeration.pushInstance({
+                        objectName: 'candlestick',
+                        selector: null,
+                        properties: properties,
+                    });
+                    break;
+                case 'sentimentColors':
+                    enumeration.pushInstance({
+                        objectName: 'sentimentColors',
+                        selector: null,
+                        properties: {
+                            increaseFill: data.sentimentColors.increaseFill,
+                            decreaseFill: data.sentimentColors.decreaseFill,
+                        },
+                    });
+                    break;
+            }
+        }
+
+        public calculateLegend(): LegendData {
+            return { dataPoints: [] };
+        }
+
+        public hasLegend(): boolean {
+            return false;
+        }
+
+        public calculateAxesProperties(options: CalculateScaleAndDomainOptions): IAxisProperties[] {
+            debug.assertValue(options, 'options');
+
+            this.currentViewport = options.viewport;
+            this.margin = options.margin;
+            this.isRightToLeft = !!options.isRightToLeft;
+
+            let data = this.clippedData = this.data;
+            let isScalar = data.isScalar;
+            let categoryCount = data.categories.length;
+            let preferredPlotArea = this.getPreferredPlotArea(isScalar, categoryCount, CartesianChart.MinOrdinalRectThickness);
+
+            let xDomain: number[];
+            let categoryThickness: number;
+            let outerPadding: number;
+            if (isScalar) {
+                let categoryType = AxisHelper.getCategoryValueType(data.categoryMetadata, true);
+                xDomain = AxisHelper.createDomain(data.series, categoryType, true, options.forcedXDomain, options.ensureXDomain);
+                categoryThickness = CartesianChart.getCategoryThickness(data.series, categoryCount, preferredPlotArea.width, xDomain, true, options.trimOrdinalDataOnOverflow);
+                outerPadding = categoryThickness * CartesianChart.OuterPaddingRatio;
+            }
+            else {
+                let layout = CartesianChart.getLayout(
+                    null,
+                    {
+                        availableWidth: preferredPlotArea.width,
+                        categoryCount: categoryCount,
+                        domain: null,
+                        isScalar: false,
+                        isScrollable: this.isScrollable,
+                        trimOrdinalDataOnOverflow: options.trimOrdinalDataOnOverflow
+                    });
+
+                // In the case that we have overflowed horizontally we want to clip the data and use that to calculate the axes on the dashboard.
+                if (!this.isScrollable && layout.categoryCount < categoryCount) {
+                    data = this.clippedData = this.setFilteredData(0, layout.categoryCount);
+                }
+
+                xDomain = _.range(data.categories.length);
+                categoryThickness = layout.categoryThickness;
+                outerPadding = layout.categoryThickness * layout.outerPaddingRatio;
+            }
+
+            this.xAxisProperties = AxisHelper.createAxis({
+                pixelSpan: preferredPlotArea.width,
+                dataDomain: xDomain,
+                metaDataColumn: data.categoryMetadata,
+                formatString: valueFormatter.getFormatString(data.categoryMetadata, candlestickChartProps.general.formatString),
+                isScalar: isScalar,
+                outerPadding: outerPadding,
+                categoryThickness: categoryThickness,
+                getValueFn: (index, type) => this.lookupXValue(index, type),
+                forcedTickCount: options.forcedTickCount,
+                isCategoryAxis: true,
+                axisDisplayUnits: options.categoryAxisDisplayUnits,
+                axisPrecision: options.categoryAxisPrecision,
+                isMirrored: options.isRightToLeft,
+            });
+
+            // The prices leave the bottom of the plot area to the volume panel.
+            let valueDomain = CandlestickChart.createValueDomain(data);
+            this.yAxisProperties = AxisHelper.createAxis({
+                pixelSpan: this.getPricePanelHeight(preferredPlotArea.height),
+                dataDomain: AxisHelper.combineDomain(options.forcedYDomain, valueDomain, options.ensureYDomain),
+                metaDataColumn: data.valuesMetadata,
+                formatString: valueFormatter.getFormatString(data.valuesMetadata, candlestickChartProps.general.formatString),
+                isScalar: true,
+                isVertical: true,
+                outerPadding: 0,
+                forcedTickCount: options.forcedTickCount,
+                useTickIntervalForDisplayUnits: true,
+                isCategoryAxis: false,
+                scaleType: options.valueAxisScaleType,
+                axisDisplayUnits: options.valueAxisDisplayUnits,
+                axisPrecision: options.valueAxisPrecision,
+            });
+
+            this.xAxisProperties.axisLabel = options.showCategoryAxisLabel ? data.axesLabels.x : null;
+            this.yAxisProperties.axisLabel = options.showValueAxisLabel ? data.axesLabels.y : null;
+
+            return [this.xAxisProperties, this.yAxisProperties];
+        }
+
+        /**
+         * The value domain spans the lows and highs of the periods.
+         */
+        private static createValueDomain(data: CandlestickChartData): number[] {
+            let dataPoints = data.series[0].data;
+            if (_.isEmpty(dataPoints))
+                return emptyDomain;
+
+            return [
+                d3.min(dataPoints, (d: CandlestickChartDataPoint) => d.low),
+                d3.max(dataPoints, (d: CandlestickChartDataPoint) => d.high),
+            ];
+        }
+
+        private hasVolumePanel(): boolean {
+            let data = this.data;
+            return data.settings.showVolume && !!data.volumeMetadata;
+        }
+
+        private getVolumePanelHeight(plotHeight: number): number {
+            return this.hasVolumePanel() ? plotHeight * CandlestickChart.VolumePanelRatio : 0;
+        }
+
+        private getPricePanelHeight(plotHeight: number): number {
+            return this.hasVolumePanel()
+                ? Math.max(plotHeight - this.getVolumePanelHeight(plotHeight) - CandlestickChart.VolumePanelGap, 0)
+                : plotHeight;
+        }
+
+        private lookupXValue(index: number, type: ValueType): any {
+            let data = this.data;
+            if (data.isScalar)
+                return CartesianHelper.lookupXValue(data, index, type, true);
+
+            let categories = data.categories;
+            return index < categories.length ? categories[index] : index;
+        }
+
+        public getPreferredPlotArea(isScalar: boolean, categoryCount: number, categoryThickness: number): IViewport {
+            return CartesianChart.getPreferredPlotArea(
+                categoryCount,
+                categoryThickness,
+                this.currentViewport,
+                this.isScrollable,
+                isScalar,
+                this.margin);
+        }
+
+        public getVisualCategoryAxisIsScalar(): boolean {
+            return this.data ? this.data.isScalar : false;
+        }
+
+        public getSupportedCategoryAxisType(): string {
+            return this.getVisualCategoryAxisIsScalar() ? axisType.scalar : axisType.categorical;
+        }
+
+        public overrideXScale(xProperties: IAxisProperties): void {
+            this.xAxisProperties = xProperties;
+        }
+
+        /**
+         * Filters the periods by trading index on the ordinal axis, and by row (the indices of the zoomed domain) on the time axis.
+         */
+        public setFilteredData(startIndex: number, endIndex: number): CandlestickChartData {
+            let data = this.clippedData = Prototype.inherit(this.data);
+            let getIndex = this.data.isScalar
+                ? (d: CandlestickChartDataPoint) => d.categoryIndex
+                : (d: CandlestickChartDataPoint) => d.tradingIndex;
+
+            let filteredSeries: CandlestickChartSeries = Prototype.inherit(this.data.series[0]);
+            filteredSeries.data = _.filter(this.data.series[0].data, (d: CandlestickChartDataPoint) => getIndex(d) >= startIndex && getIndex(d) < endIndex);
+            data.series = [filteredSeries];
+            data.categories = _.map(filteredSeries.data, (d: CandlestickChartDataPoint) => this.data.categories[d.tradingIndex]);
+
+            return data;
+        }
+
+        public render(suppressAnimations: boolean): CartesianVisualRenderResult {
+            let data = this.clippedData;
+            let dataPoints = data.series[0].data;
+            let isCandlestick = data.settings.chartStyle !== candlestickChartStyle.ohlc;
+            let plotHeight = this.getAvailableHeight();
+
+            this.mainGraphicsSVG
+                .attr('width', this.getAvailableWidth())
+                .attr('height', plotHeight);
+
+            // Same layout as the columns: a period takes its category thickness less the inner padding, centered on the scalar value
+            let xScale = this.xAxisProperties.scale;
+            let yScale = this.yAxisProperties.scale;
+            let candleWidth = this.xAxisProperties.categoryThickness * (1 - CartesianChart.InnerPaddingRatio);
+            let getCenter = data.isScalar
+                ? (d: CandlestickChartDataPoint) => xScale(d.categoryValue)
+                : (d: CandlestickChartDataPoint) => xScale(d.tradingIndex) + candleWidth / 2;
+            // The open tick points to the start of the time axis, which is mirrored for right to left.
+            let tickLength = this.isRightToLeft ? -candleWidth / 2 : candleWidth / 2;
+
+            let highContrastColors = this.highContrastColors;
+            let hasSelection = this.interactivityService && this.interactivityService.hasSelection();
+
+            let candles = this.mainGraphicsContext.selectAll(CandlestickChart.Candle.selector)
+                .data(dataPoints, (d: CandlestickChartDataPoint) => d.key);
+
+            candles.enter()
+                .append('g')
+                .classed(CandlestickChart.Candle.class, true)
+                .append('line')
+                .classed(CandlestickChart.Wick.class, true);
+
+            candles.exit().remove();
+
+            candles.select(CandlestickChart.Wick.selector)
+                .attr({
+                    x1: getCenter,
+                    x2: getCenter,
+                    y1: (d: CandlestickChartDataPoint) => yScale(d.high),
+                    y2: (d: CandlestickChartDataPoint) => yScale(d.low),
+                })
+                .style('stroke', (d: CandlestickChartDataPoint) => d.color);
+
+            let bodies = candles.selectAll(CandlestickChart.Body.selector)
+                .data((d: CandlestickChartDataPoint) => isCandlestick ? [d] : []);
+            bodies.enter()
+                .append('rect')
+                .classed(CandlestickChart.Body.class, true);
+            bodies
+                .attr({
+                    x: (d: CandlestickChartDataPoint) => getCenter(d) - candleWidth / 2,
+                    y: (d: CandlestickChartDataPoint) => yScale(Math.max(d.open, d.close)),
+                    width: candleWidth,
+                    height: (d: CandlestickChartDataPoint) => Math.max(Math.abs(yScale(d.open) - yScale(d.close)), CandlestickChart.MinBodyHeight),
+                })
+                .style({
+                    'fill': (d: CandlestickChartDataPoint) => d.color,
+                    'stroke': (d: CandlestickChartDataPoint) => d.color,
+                });
+            bodies.exit().remove();
+
+            if (highContrastColors)
+                HighContrastHelper.applyPatternFills(bodies, this.svg, highContrastColors, (d: CandlestickChartDataPoint) => d.isIncrease ? 0 : 1);
+
+            let openTicks = candles.selectAll(CandlestickChart.OpenTick.selector)
+                .data((d: CandlestickChartDataPoint) => isCandlestick ? [] : [d]);
+            openTicks.enter()
+                .append('line')
+                .classed(CandlestickChart.OpenTick.class, true);
+            openTicks
+                .attr({
+                    x1: (d: CandlestickChartDataPoint) => getCenter(d) - tickLength,
+                    x2: getCenter,
+                    y1: (d: CandlestickChartDataPoint) => yScale(d.open),
+                    y2: (d: CandlestickChartDataPoint) => yScale(d.open),
+                })
+                .style('stroke', (d: CandlestickChartDataPoint) => d.color);
+            openTicks.exit().remove();
+
+            let closeTicks = candles.selectAll(CandlestickChart.CloseTick.selector)
+                .data((d: CandlestickChartDataPoint) => isCandlestick ? [] : [d]);
+            closeTicks.enter()
+                .append('line')
+                .classed(CandlestickChart.CloseTick.class, true);
+            closeTicks
+                .attr({
+                    x1: getCenter,
+                    x2: (d: CandlestickChartDataPoint) => getCenter(d) + tickLength,
+                    y1: (d: CandlestickChartDataPoint) => yScale(d.close),
+                    y2: (d: CandlestickChartDataPoint) => yScale(d.close),
+                })
+                .style('stroke', (d: CandlestickChartDataPoint) => d.color);
+            closeTicks.exit().remove();
+
+            CandlestickChart.setCandlesOpacity(candles, hasSelection);
+
+            let volumeBars = this.renderVolume(dataPoints, plotHeight, getCenter, candleWidth, hasSelection);
+
+            if (this.tooltipsEnabled) {
+                for (let shapes of [candles, volumeBars]) {
+                    this.tooltipService.addTooltip(
+                        shapes,
+                        (args: TooltipEventArgs<CandlestickChartDataPoint>) => args.data.tooltipInfo,
+                        (args: TooltipEventArgs<CandlestickChartDataPoint>) => args.data.identity);
+                }
+            }
+
+            let behaviorOptions: CandlestickChartBehaviorOptions = undefined;
+            if (this.interactivityService) {
+                behaviorOptions = {
+                    candles: candles,
+                    volumeBars: volumeBars,
+                };
+            }
+
+            // This should always be the last line in the render code.
+            SVGUtil.flushAllD3TransitionsIfNeeded(this.options);
+
+            return { dataPoints: dataPoints, behaviorOptions: behaviorOptions, labelDataPoints: [], labelsAreNumeric: true };
+        }
+
+        /**
+         * Draws the volume columns from the bottom of the plot area, on a scale of their own.
+         */
+        private renderVolume(
+            dataPoints: CandlestickChartDataPoint[],
+            plotHeight: number,
+            getCenter: (d: CandlestickChartDataPoint) => number,
+            candleWidth: number,
+            hasSelection: boolean): D3.UpdateSelection {
+            let volumeDataPoints = this.hasVolumePanel()
+                ? _.filter(dataPoints, (d: CandlestickChartDataPoint) => d.volume != null && isFinite(d.volume))
+                : [];
+            let volumeScale = d3.scale.linear()
+                .domain([0, d3.max(volumeDataPoints, (d: CandlestickChartDataPoint) => d.volume) || 1])
+                .range([0, this.getVolumePanelHeight(plotHeight)]);
+
+            let volumeBars = this.mainGraphicsContext.selectAll(CandlestickChart.VolumeBar.selector)
+                .data(volumeDataPoints, (d: CandlestickChartDataPoint) => d.key);
+
+            volumeBars.enter()
+                .append('rect')
+                .classed(CandlestickChart.VolumeBar.class, true);
+
+            volumeBars
+                .attr({
+                    x: (d: CandlestickChartDataPoint) => getCenter(d) - candleWidth / 2,
+                    y: (d: CandlestickChartDataPoint) => plotHeight - volumeScale(Math.max(d.volume, 0)),
+                    width: candleWidth,
+                    height: (d: CandlestickChartDataPoint) => volumeScale(Math.max(d.volume, 0)),
+                })
+                .style('fill', (d: CandlestickChartDataPoint) => d.color);
+
+            if (this.highContrastColors)
+                HighContrastHelper.applyPatternFills(volumeBars, this.svg, this.highContrastColors, (d: CandlestickChartDataPoint) => d.isIncrease ? 0 : 1);
+
+            CandlestickChart.setVolumeBarsOpacity(volumeBars, hasSelection);
+
+            volumeBars.exit().remove();
+
+            return volumeBars;
+        }
+
+        public static setCandlesOpacity(candles: D3.Selection, hasSelection: boolean): void {
+            let getOpacity = (d: CandlestickChartDataPoint) => ColumnUtil.getFillOpacity(d.selected, false, hasSelection, false);
+            candles.style({
+                'fill-opacity': getOpacity,
+                'stroke-opacity': getOpacity,
+            });
+        }
+
+        public static setVolumeBarsOpacity(volumeBars: D3.Selection, hasSelection: boolean): void {
+            volumeBars.style('fill-opacity', (d: CandlestickChartDataPoint) => CandlestickChart.VolumeBarOpacity * ColumnUtil.getFillOpacity(d.selected, false, hasSelection, false));
+        }
+
+        public onClearSelection(): void {
+            if (this.interactivityService)
+                this.interactivityService.clearSelection();
+        }
+
+        private getAvailableWidth(): number {
+            return this.currentViewport.width - (this.margin.left + this.margin.right);
+        }
+
+        private getAvailableHeight(): number {
+            return this.currentViewport.height - (this.margin.top + this.margin.bottom);
+        }
+    }
+}
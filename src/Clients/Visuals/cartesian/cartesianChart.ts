@@ -30,6 +30,7 @@ module powerbi.visuals {
     import EnumExtensions = jsCommon.EnumExtensions;
     import createClassAndSelector = jsCommon.CssConstants.createClassAndSelector;
     import ReferenceLine = ReferenceLineHelper.ReferenceLine;
+    import ReferenceBand = ReferenceLineHelper.ReferenceBand;
     import ReferenceLineOptions = ReferenceLineHelper.ReferenceLineOptions;
     import ReferenceLineDataLabelOptions = ReferenceLineHelper.ReferenceLineDataLabelOptions;
     import SvgScrollbar = powerbi.visuals.controls.SvgScrollbar;
@@ -59,6 +60,8 @@ module powerbi.visuals {
         LineStackedColumnCombo,
         DataDotClusteredColumnCombo,
         DataDotStackedColumnCombo,
+        BoxAndWhisker,
+        Candlestick,
     }
 
     export interface CalculateScaleAndDomainOptions {
@@ -81,6 +84,8 @@ module powerbi.visuals {
         categoryAxisPrecision?: number;
         valueAxisDisplayUnits?: number;
         valueAxisPrecision?: number;
+        /** Whether the horizontal axis runs from right to left. */
+        isRightToLeft?: boolean;
     }
 
     export interface MergedValueAxisResult {
@@ -120,6 +125,14 @@ module powerbi.visuals {
         trimOrdinalDataOnOverflow?: boolean;
         advancedLineLabelsEnabled?: boolean;
         forecastEnabled?: boolean;
+        /** The interactivity service shared with other charts, used instead of creating one when the chart has a behavior. */
+        interactivityService?: IInteractivityService;
+        /** Whether the chart never draws its legend, e.g. when its host draws a legend shared by several charts. */
+        hideLegend?: boolean;
+        /** Whether a scalar X axis can be zoomed with the mouse wheel or pinch, and panned by dragging. */
+        isZoomable?: boolean;
+        /** Whether a zoomable chart shows an overview strip below the plot area to select the zoomed range with a brush. */
+        showZoomBrush?: boolean;
     }
 
     export interface ICartesianVisual {
@@ -280,19 +293,26 @@ module powerbi.visuals {
         private categoryAxisProperties: DataViewObject;
         private valueAxisProperties: DataViewObject;
         private referenceLines: ReferenceLine[];
+        private referenceBands: ReferenceBand[];
         private isScalar: boolean;
 
         private cartesianSmallViewPortProperties: CartesianSmallViewPortProperties;
         private interactivityService: IInteractivityService;
         private behavior: IInteractiveBehavior;
         private sharedColorPalette: SharedColorPalette;
+        private highContrastColors: HighContrastColors;
         private isLabelInteractivityEnabled: boolean;
         private tooltipsEnabled: boolean;
         private tooltipService: ITooltipService;
         private trimOrdinalDataOnOverflow: boolean;
         private isMobileChart: boolean;
         private advancedLineLabelsEnabled: boolean;
+        private isLegendHidden: boolean;
+        private sharedDomainExtents: NumberRange[];
+        private renderedAxes: CartesianAxisProperties;
         private forecastEnabled: boolean;
+        private isZoomable: boolean;
+        private showZoomBrush: boolean;
 
         private trendLines: TrendLine[];
         private forecastLines: Forecast[];
@@ -303,6 +323,8 @@ module powerbi.visuals {
         private scrollableAxes: ScrollableAxes;
         private svgAxes: SvgCartesianAxes;
         private svgScrollbar: SvgScrollbar;
+        private zoomableAxes: ZoomableAxes;
+        private svgZoomControls: SvgZoomControls;
         private renderedPlotArea: IViewport; // to help disable animation when property changes result in layout changes (e.g. 'legend off' should not animate)
 
         // TODO: Remove onDataChanged & onResizing once all visuals have implemented update.
@@ -346,18 +368,29 @@ module powerbi.visuals {
                 if (options.behavior) {
                     this.behavior = options.behavior;
                 }
+
+                if (options.interactivityService) {
+                    this.interactivityService = options.interactivityService;
+                }
+
+                this.isLegendHidden = !!options.hideLegend;
+                this.isZoomable = !!options.isZoomable;
+                this.showZoomBrush = !!options.showZoomBrush;
             }
 
             this.axes = new CartesianAxes(isScrollable, ScrollableAxes.ScrollbarWidth, this.trimOrdinalDataOnOverflow);
             this.svgAxes = new SvgCartesianAxes(this.axes);
             this.svgScrollbar = new SvgScrollbar(ScrollableAxes.ScrollbarWidth);
             this.scrollableAxes = new ScrollableAxes(this.axes, this.svgScrollbar);
+            this.zoomableAxes = new ZoomableAxes();
+            this.svgZoomControls = new SvgZoomControls(this.zoomableAxes);
         }
 
         public init(options: VisualInitOptions) {
             this.visualInitOptions = options;
             this.layers = [];
             this.referenceLines = [];
+            this.referenceBands = [];
 
             let element = this.element = options.element;
 
@@ -370,7 +403,8 @@ module powerbi.visuals {
 
             if (this.behavior) {
                 this.clearCatcher = appendClearCatcher(chartAreaSvg);
-                this.interactivityService = createInteractivityService(this.hostServices);
+                if (!this.interactivityService)
+                    this.interactivityService = createInteractivityService(this.hostServices);
             }
 
             if (options.style.maxMarginFactor != null)
@@ -379,20 +413,57 @@ module powerbi.visuals {
             let axisLinesVisibility = CartesianChart.getAxisVisibility(this.type);
             this.axes.setAxisLinesVisibility(axisLinesVisibility);
 
+            let isRightToLeft = RightToLeftHelper.isRightToLeft(this.hostServices);
+            this.axes.setRightToLeft(isRightToLeft);
+
             this.svgAxes.init(chartAreaSvg);
             this.svgScrollbar.init(chartAreaSvg);
 
             this.sharedColorPalette = new SharedColorPalette(options.style.colorPalette.dataColors);
 
+            this.highContrastColors = HighContrastHelper.getColors(options.style);
+            this.svgAxes.setHighContrastColors(this.highContrastColors);
+
             this.legend = createLegend(
                 element,
                 options.interactivity && options.interactivity.isInteractiveLegend,
-                this.type !== CartesianChartType.Waterfall ? this.interactivityService : undefined,
-                this.axes.isScrollable);
+                this.type !== CartesianChartType.Waterfall && !this.isLegendHidden ? this.interactivityService : undefined,
+                this.axes.isScrollable,
+                undefined,
+                isRightToLeft);
 
             this.isMobileChart = options.interactivity && options.interactivity.isInteractiveLegend;
 
             this.tooltipService = createTooltipService(options.host);
+
+            this.svgZoomControls.init(chartAreaSvg, this.hostServices, () => {
+                this.tooltipService.hide();
+                this.render(/*suppressAnimations*/ true);
+            });
+        }
+
+        /**
+         * Gets the zoom state of the X axis; the axis is zoomed only when the chart is zoomable and the axis is scalar.
+         */
+        public getZoomableAxes(): ZoomableAxes {
+            return this.zoomableAxes;
+        }
+
+        private isZoomAvailable(): boolean {
+            if (!this.isZoomable || _.isEmpty(this.layers) || this.isPlayAxis())
+                return false;
+
+            switch (this.type) {
+                case CartesianChartType.ClusteredBar:
+                case CartesianChartType.StackedBar:
+                case CartesianChartType.HundredPercentStackedBar:
+                    return false;
+                case CartesianChartType.Scatter:
+                    return true;
+            }
+
+            let layer = this.layers[0];
+            return layer.getVisualCategoryAxisIsScalar != null && layer.getVisualCategoryAxisIsScalar();
         }
 
         private isPlayAxis(): boolean {
@@ -502,6 +573,7 @@ module powerbi.visuals {
                         hasScalarKeys = !!CartesianChart.getScalarKeys(dataView.categorical.categories[0]);
                     this.legendObjectProperties = DataViewObjects.getObject(dataViewMetadata.objects, 'legend', {});
                     this.referenceLines = this.getStaticReferenceLines(dataViewMetadata);
+                    this.referenceBands = this.getReferenceBands(dataViewMetadata);
                 }
                 else {
                     this.legendObjectProperties = {};
@@ -525,6 +597,13 @@ module powerbi.visuals {
             return referenceLines;
         }
 
+        private getReferenceBands(dataViewMetadata: DataViewMetadata): ReferenceBand[] {
+            let defaultColor = this.sharedColorPalette.getColorByIndex(0).value;
+            let referenceBands = DataViewObjects.getUserDefinedObjects(dataViewMetadata.objects, ReferenceLineHelper.referenceBandObjectName);
+
+            return ReferenceLineHelper.readReferenceBands(referenceBands, defaultColor);
+        }
+
         private getDataBoundReferenceLines(layerDataView: DataView, layer: ICartesianVisual): ReferenceLine[] {
             let referenceLines: ReferenceLine[] = [];
             if (layerDataView && layerDataView.categorical && layerDataView.categorical.values) {
@@ -544,15 +623,97 @@ module powerbi.visuals {
         }
 
         private getCartesianRoleKind(column: DataViewMetadataColumn, layer: ICartesianVisual): AxisLocation {
+            let axisLocation = CartesianChart.getPlottedAxisLocation(column, layer);
+            return axisLocation != null ? axisLocation : AxisLocation.Y1;
+        }
+
+        /**
+         * Gets the axis the values of the column are plotted against, or undefined if the column is not plotted (e.g. tooltips).
+         * Layers that do not map roles to axes plot their categories against the category axis, and their 'Y' (or, in combo charts,
+         * 'Y2') measures against the value axis of the layer (the secondary one for the layers after the first).
+         */
+        private static getPlottedAxisLocation(column: DataViewMetadataColumn, layer: ICartesianVisual, layerIndex: number = 0): AxisLocation {
             let dataRoles = column.roles;
-            if (layer.getAxisLocationForRole && dataRoles) {
-                for (let roleName in dataRoles) {
-                    if (dataRoles[roleName])
-                        return layer.getAxisLocationForRole(roleName);
+            if (!dataRoles)
+                return;
+
+            if (!layer.getAxisLocationForRole) {
+                if (dataRoles['Category'])
+                    return AxisLocation.X;
+                if (dataRoles['Y'] || dataRoles['Y2'])
+                    return layerIndex > 0 ? AxisLocation.Y2 : AxisLocation.Y1;
+                return;
+            }
+
+            for (let roleName in dataRoles) {
+                if (dataRoles[roleName]) {
+                    let axisLocation = layer.getAxisLocationForRole(roleName);
+                    if (axisLocation != null)
+                        return axisLocation;
+                }
+            }
+        }
+
+        /**
+         * Computes the value of the data-driven reference lines (average, median, percentile, min and max) and the bounds of the data-driven reference bands.
+         * Axis reference lines and bands are computed from all the values plotted against their axis, data-bound reference lines from the values of their own series.
+         * Highlight values are used when present, so the lines and bands follow the current highlight.
+         */
+        private computeReferenceValues(layerDataViews: DataView[], layers: ICartesianVisual[]): void {
+            let computedReferenceLines = _.filter(this.referenceLines, ReferenceLineHelper.isComputed);
+            let computedReferenceBands = _.filter(this.referenceBands, ReferenceLineHelper.isBandComputed);
+            if (_.isEmpty(computedReferenceLines) && _.isEmpty(computedReferenceBands))
+                return;
+
+            let valuesByAxis: PrimitiveValue[][] = [];
+            valuesByAxis[AxisLocation.X] = [];
+            valuesByAxis[AxisLocation.Y1] = [];
+            valuesByAxis[AxisLocation.Y2] = [];
+            let valuesByQueryName: _.Dictionary<PrimitiveValue[]> = {};
+            let addValues = (metadataColumn: DataViewMetadataColumn, values: PrimitiveValue[], axisLocation: AxisLocation) => {
+                // Dates are plotted by their time value.
+                values = _.map(values, (value: PrimitiveValue) => value instanceof Date ? value.getTime() : value);
+                valuesByAxis[axisLocation].push(...values);
+
+                let queryName = metadataColumn.queryName;
+                if (!valuesByQueryName[queryName])
+                    valuesByQueryName[queryName] = [];
+                valuesByQueryName[queryName].push(...values);
+            };
+
+            for (let layerIndex = 0, layerCount = layers.length; layerIndex < layerCount; layerIndex++) {
+                let layerDataView = layerDataViews[layerIndex];
+                let categorical = layerDataView && layerDataView.categorical;
+                if (!categorical)
+                    continue;
+
+                // The layers share the category axis, so a category column is only counted once.
+                for (let categoryColumn of categorical.categories || []) {
+                    let metadataColumn = categoryColumn.source;
+                    let axisLocation = CartesianChart.getPlottedAxisLocation(metadataColumn, layers[layerIndex], layerIndex);
+                    if (axisLocation != null && !valuesByQueryName[metadataColumn.queryName])
+                        addValues(metadataColumn, categoryColumn.values, axisLocation);
+                }
+
+                for (let valueColumn of categorical.values || []) {
+                    let metadataColumn = valueColumn.source;
+                    let axisLocation = CartesianChart.getPlottedAxisLocation(metadataColumn, layers[layerIndex], layerIndex);
+                    if (axisLocation != null)
+                        addValues(metadataColumn, valueColumn.highlights || valueColumn.values, axisLocation);
                 }
             }
 
-            return AxisLocation.Y1;
+            for (let referenceLine of computedReferenceLines) {
+                let dataBoundQueryName = referenceLine.selector.metadata;
+                let values = dataBoundQueryName ? valuesByQueryName[dataBoundQueryName] : valuesByAxis[referenceLine.axis];
+                referenceLine.value = ReferenceLineHelper.computeValue(referenceLine, values);
+            }
+
+            for (let referenceBand of computedReferenceBands) {
+                let range = ReferenceLineHelper.computeBandRange(referenceBand, valuesByAxis[referenceBand.axis]);
+                referenceBand.startValue = range ? range.min : null;
+                referenceBand.endValue = range ? range.max : null;
+            }
         }
 
         private updateInternal(options: VisualUpdateOptions, operationKind?: VisualDataChangeOperationKind): void {
@@ -571,6 +732,9 @@ module powerbi.visuals {
             let layers = this.layers;
 
             if (operationKind != null) {
+                // New data has a new full domain, so it is shown unzoomed.
+                this.zoomableAxes.reset();
+
                 if (!_.isEmpty(dataViews)) {
                     this.populateObjectProperties(dataViews);
                     this.axes.update(this.categoryAxisProperties, this.valueAxisProperties);
@@ -635,6 +799,8 @@ module powerbi.visuals {
                     if (layerCount > 1)
                         this.sharedColorPalette.rotateScale();
                 }
+
+                this.computeReferenceValues(layerDataViews, layers);
             }
             
             // If the data changed (there's an operationKind), say we're done loading data so logic 
@@ -721,6 +887,9 @@ module powerbi.visuals {
             else if (options.objectName === 'y1AxisReferenceLine' || options.objectName === 'xAxisReferenceLine') {
                 this.enumerateReferenceLines(enumeration, options.objectName);
             }
+            else if (options.objectName === ReferenceLineHelper.referenceBandObjectName) {
+                ReferenceLineHelper.enumerateReferenceBands(enumeration, this.referenceBands, this.sharedColorPalette.getColorByIndex(0).value);
+            }
             else if (options.objectName === 'referenceLine') {
                 if (this.supportsDataBoundReferenceLines()) {
                     this.enumerateReferenceLines(enumeration, options.objectName);
@@ -863,7 +1032,7 @@ module powerbi.visuals {
 
             instance.properties['show'] = this.categoryAxisProperties['show'] != null ? this.categoryAxisProperties['show'] : true;
             if (this.axes.isYAxisCategorical())//in case of e.g. barChart
-                instance.properties['position'] = this.valueAxisProperties && this.valueAxisProperties['position'] != null ? this.valueAxisProperties['position'] : yAxisPosition.left;
+                instance.properties['position'] = this.valueAxisProperties && this.valueAxisProperties['position'] != null ? this.valueAxisProperties['position'] : this.axes.getDefaultYAxisOrientation();
             if (supportedType === axisType.both) {
                 instance.properties['axisType'] = isScalar ? axisType.scalar : axisType.categorical;
             }
@@ -910,7 +1079,7 @@ module powerbi.visuals {
             instance.properties['show'] = this.valueAxisProperties['show'] != null ? this.valueAxisProperties['show'] : true;
             instance.properties['axisLabel'] = this.valueAxisProperties['axisLabel'];
             if (!this.axes.isYAxisCategorical()) {
-                instance.properties['position'] = this.valueAxisProperties['position'] != null ? this.valueAxisProperties['position'] : yAxisPosition.left;
+                instance.properties['position'] = this.valueAxisProperties['position'] != null ? this.valueAxisProperties['position'] : this.axes.getDefaultYAxisOrientation();
             }
             instance.properties['axisScale'] = this.valueAxisProperties['axisScale'] || DEFAULT_AXIS_SCALE_TYPE;
             instance.properties['start'] = this.valueAxisProperties['start'];
@@ -999,8 +1168,32 @@ module powerbi.visuals {
         }
 
         private renderLegend(): void {
+            let legendData = this.calculateLegend();
+            let legendProperties = this.legendObjectProperties;
+
+            if (legendProperties) {
+                let position = <string>legendProperties[legendProps.position];
+
+                if (position)
+                    this.legend.changeOrientation(LegendPosition[position]);
+            }
+            else {
+                this.legend.changeOrientation(LegendPosition.Top);
+            }
+
+            if ((legendData.dataPoints.length === 1 && !legendData.grouped) || this.hideLegends()) {
+                legendData.dataPoints = [];
+            }
+
+            this.legend.drawLegend(legendData, this.currentViewport);
+        }
+
+        /**
+         * Gets the legend data of all the layers, with the legend formatting options applied.
+         */
+        public calculateLegend(): LegendData {
             let layers = this.layers;
-            let legendData: LegendData = { title: "", dataPoints: [] };
+            let legendData: LegendData = { title: "", dataPoints: [], highContrastColors: this.highContrastColors };
 
             for (let i = 0, len = layers.length; i < len; i++) {
                 this.layerLegendData = layers[i].calculateLegend();
@@ -1024,26 +1217,16 @@ module powerbi.visuals {
             }
 
             let legendProperties = this.legendObjectProperties;
-
-            if (legendProperties) {
+            if (legendProperties)
                 LegendData.update(legendData, legendProperties);
-                let position = <string>legendProperties[legendProps.position];
-
-                if (position)
-                    this.legend.changeOrientation(LegendPosition[position]);
-            }
-            else {
-                this.legend.changeOrientation(LegendPosition.Top);
-            }
-
-            if ((legendData.dataPoints.length === 1 && !legendData.grouped) || this.hideLegends()) {
-                legendData.dataPoints = [];
-            }
 
-            this.legend.drawLegend(legendData, this.currentViewport);
+            return legendData;
         }
 
         private hideLegends(): boolean {
+            if (this.isLegendHidden)
+                return true;
+
             if (this.cartesianSmallViewPortProperties) {
                 if (this.cartesianSmallViewPortProperties.hideLegendOnSmallViewPort && (this.currentViewport.height < this.cartesianSmallViewPortProperties.MinHeightLegendVisible)) {
                     return true;
@@ -1090,6 +1273,18 @@ module powerbi.visuals {
 
             let [ensureXDomain, ensureYDomain] = this.getMinimumDomainExtents();
 
+            // The overview strip of a zoomable axis is drawn below the axes.
+            let isZoomAvailable = this.isZoomAvailable();
+            let showZoomBrush = isZoomAvailable && this.showZoomBrush;
+            let axesViewport = plotAreaViewport;
+            if (showZoomBrush) {
+                axesViewport = {
+                    height: Math.max(0, plotAreaViewport.height - (SvgZoomControls.BrushHeight + SvgZoomControls.BrushTopPadding)),
+                    width: plotAreaViewport.width,
+                };
+            }
+            this.axes.setZoomedXDomain(isZoomAvailable ? this.zoomableAxes.getZoomedDomain() : undefined);
+
             // Even if the caller thinks animations are ok, now that we've laid out the axes and legend we should disable animations
             // if the plot area changed. Animations for property changes like legend on/off are not desired.
             let plotAreaHasChanged: boolean =
@@ -1100,7 +1295,7 @@ module powerbi.visuals {
 
             let axesLayout = this.axes.negotiateAxes(
                 this.layers,
-                plotAreaViewport,
+                axesViewport,
                 padding,
                 playAxisControlLayout,
                 hideAxisLabels,
@@ -1108,6 +1303,10 @@ module powerbi.visuals {
                 interactivityRightMargin,
                 ensureXDomain,
                 ensureYDomain);
+            this.renderedAxes = axesLayout.axes;
+
+            if (isZoomAvailable)
+                this.filterDataToZoomedDomain();
                 
             let categoryAxis = axesLayout.axes.x.isCategoryAxis ? axesLayout.axes.x : axesLayout.axes.y1;
             
@@ -1133,12 +1332,79 @@ module powerbi.visuals {
                 (<MouseWheelEvent>wheelEvent).preventDefault();
             });
 
+            if (isZoomAvailable) {
+                let margin = axesLayout.margin;
+                let plotArea = axesLayout.plotArea;
+                this.svgZoomControls.render({
+                    plotArea: { left: margin.left, top: margin.top, width: plotArea.width, height: plotArea.height },
+                    brushArea: showZoomBrush
+                        ? { left: margin.left, top: axesViewport.height + SvgZoomControls.BrushTopPadding, width: plotArea.width, height: SvgZoomControls.BrushHeight }
+                        : undefined,
+                    xScale: axesLayout.axes.x.scale,
+                });
+            }
+            else {
+                this.svgZoomControls.remove();
+            }
+
             this.renderedPlotArea = plotAreaViewport;
         }
 
+        /**
+         * Limits the data of the layers to the zoomed domain of the X axis.
+         * While the axis is not zoomed, its rendered domain is kept as the full domain to zoom into.
+         */
+        private filterDataToZoomedDomain(): void {
+            let zoomableAxes = this.zoomableAxes;
+            if (!zoomableAxes.isZoomed()) {
+                zoomableAxes.setFullDomain(this.getAxisDomains()[0]);
+                return;
+            }
+
+            let dataView = this.dataViews && this.dataViews[0];
+            let categoryColumn = dataView && dataView.categorical && _.first(dataView.categorical.categories);
+            if (!categoryColumn)
+                return;
+
+            let dataRange = ZoomableAxes.getCategoryIndexRange(categoryColumn.values, zoomableAxes.getZoomedDomain());
+            if (!dataRange)
+                return;
+
+            for (let layer of this.layers) {
+                if (layer.setFilteredData)
+                    layer.setFilteredData(dataRange.startIndex, dataRange.endIndex + 1);
+            }
+        }
+
+        /**
+         * Sets the extents that the X and Y axis domains must include, so that several charts (e.g. the panels of small multiples) share their axes.
+         */
+        public setSharedDomainExtents(ensureXDomain: NumberRange, ensureYDomain: NumberRange): void {
+            this.sharedDomainExtents = [ensureXDomain, ensureYDomain];
+        }
+
+        /**
+         * Gets the domains of the rendered X and Y axes; the domain of an ordinal axis is undefined.
+         */
+        public getAxisDomains(): NumberRange[] {
+            let axes = this.renderedAxes;
+            if (!axes)
+                return [undefined, undefined];
+
+            let getDomain = (axis: IAxisProperties): NumberRange => {
+                if (!axis || !axis.scale || AxisHelper.isOrdinalScale(axis.scale))
+                    return;
+
+                let domain: number[] = axis.scale.domain();
+                return { min: _.first(domain), max: _.last(domain) };
+            };
+
+            return [getDomain(axes.x), getDomain(axes.y1)];
+        }
+
         /**
          * Gets any minimum domain extents.
-         * Reference lines and forecast lines may enforce minimum extents on X and/or Y domains.
+         * Reference lines, reference bands, forecast lines and shared axes may enforce minimum extents on X and/or Y domains.
          */
         private getMinimumDomainExtents(): NumberRange[] {
             let xs: number[] = [];
@@ -1154,6 +1420,16 @@ module powerbi.visuals {
                 }
             }
 
+            if (this.referenceBands) {
+                for (let referenceBand of this.referenceBands) {
+                    if (!referenceBand.show)
+                        continue;
+
+                    let values = referenceBand.axis === AxisLocation.X ? xs : ys;
+                    values.push(referenceBand.startValue, referenceBand.endValue);
+                }
+            }
+
             if (!_.isEmpty(this.forecastLines)) {
                 for (let forecastLine of this.forecastLines) {
                     if (!_.isEmpty(forecastLine.points)) {
@@ -1167,6 +1443,14 @@ module powerbi.visuals {
                 }
             }
 
+            if (this.sharedDomainExtents) {
+                let [sharedXDomain, sharedYDomain] = this.sharedDomainExtents;
+                if (sharedXDomain)
+                    xs.push(sharedXDomain.min, sharedXDomain.max);
+                if (sharedYDomain)
+                    ys.push(sharedYDomain.min, sharedYDomain.max);
+            }
+
             let ensureXDomain: NumberRange = {
                 min: d3.min(xs),
                 max: d3.max(xs)
@@ -1263,7 +1547,7 @@ module powerbi.visuals {
 
         private renderTrendLines(axesLayout: CartesianAxesLayout): void {
             let scrollableRegion = this.svgAxes.getScrollableRegion();
-            TrendLineHelper.render(this.trendLines, scrollableRegion, axesLayout.axes, axesLayout.plotArea);
+            TrendLineHelper.render(this.trendLines, scrollableRegion, axesLayout.axes, axesLayout.plotArea, this.tooltipsEnabled ? this.tooltipService : undefined);
         }
 
         private renderForecast(axesLayout: CartesianAxesLayout, suppressAnimations: boolean): void {
@@ -1277,6 +1561,7 @@ module powerbi.visuals {
                 axes: axesLayout.axes,
                 viewport: axesLayout.plotArea,
                 referenceLines: this.referenceLines,
+                referenceBands: this.referenceBands,
             };
             ReferenceLineHelper.render(refLineOptions);
         }
@@ -1286,6 +1571,7 @@ module powerbi.visuals {
                 axes: axes,
                 viewport: plotArea,
                 referenceLines: this.referenceLines,
+                referenceBands: this.referenceBands,
                 hostServices: this.hostServices,
             };
 
@@ -1979,6 +2265,7 @@ module powerbi.visuals {
 
         private categoryAxisProperties: DataViewObject;
         private valueAxisProperties: DataViewObject;
+        private highContrastColors: HighContrastColors;
 
         private static AxisGraphicsContext = createClassAndSelector('axisGraphicsContext');
         private static TickPaddingRotatedX = 5;
@@ -2017,6 +2304,13 @@ module powerbi.visuals {
             this.valueAxisProperties = valueAxisProperties;
         }
 
+        /**
+         * In high contrast mode the labels, the axis lines and the gridlines are drawn with the foreground color.
+         */
+        public setHighContrastColors(highContrastColors: HighContrastColors): void {
+            this.highContrastColors = highContrastColors;
+        }
+
         public init(svg: D3.Selection): void {
             /*
                 The layout of the visual will look like:
@@ -2109,6 +2403,7 @@ module powerbi.visuals {
             let xLabelColor: Fill;
             let yLabelColor: Fill;
             let y2LabelColor: Fill;
+            let highContrastFill: Fill = this.highContrastColors ? { solid: { color: this.highContrastColors.foreground } } : null;
 
             if (this.axes.shouldRenderAxis(axes.x)) {
                 if (axes.x.isCategoryAxis) {
@@ -2116,6 +2411,7 @@ module powerbi.visuals {
                 } else {
                     xLabelColor = this.valueAxisProperties && this.valueAxisProperties['labelColor'] ? this.valueAxisProperties['labelColor'] : null;
                 }
+                xLabelColor = highContrastFill || xLabelColor;
                 axes.x.axis.orient("bottom");
                 // we only rotate ordinal tick labels
                 if (!axes.x.willLabelsFit && AxisHelper.isOrdinalScale(axes.x.scale))
@@ -2137,7 +2433,8 @@ module powerbi.visuals {
 
                 xAxisGraphicsElement
                     .call(SvgCartesianAxes.darkenZeroLine)
-                    .call(SvgCartesianAxes.setAxisLabelColor, xLabelColor);
+                    .call(SvgCartesianAxes.setAxisLabelColor, xLabelColor)
+                    .call(SvgCartesianAxes.setAxisLineColor, this.highContrastColors);
 
                 let xAxisTextNodes = xAxisGraphicsElement.selectAll('text');
                 if (axes.x.willLabelsWordBreak) {
@@ -2170,6 +2467,7 @@ module powerbi.visuals {
                 } else {
                     yLabelColor = this.valueAxisProperties && this.valueAxisProperties['labelColor'] ? this.valueAxisProperties['labelColor'] : null;
                 }
+                yLabelColor = highContrastFill || yLabelColor;
                 let showY1OnRight = this.axes.shouldShowY1OnRight();
                 let y1TickPadding = showY1OnRight ? axesLayout.tickPadding.right : axesLayout.tickPadding.left;
                 axes.y1.axis
@@ -2193,7 +2491,8 @@ module powerbi.visuals {
 
                 y1AxisGraphicsElement
                     .call(SvgCartesianAxes.darkenZeroLine)
-                    .call(SvgCartesianAxes.setAxisLabelColor, yLabelColor);
+                    .call(SvgCartesianAxes.setAxisLabelColor, yLabelColor)
+                    .call(SvgCartesianAxes.setAxisLineColor, this.highContrastColors);
 
                 if (tickLabelMargins.yLeft >= leftRightMarginLimit) {
                     y1AxisGraphicsElement.selectAll('text')
@@ -2208,7 +2507,7 @@ module powerbi.visuals {
                 }
 
                 if (axes.y2 && (!this.valueAxisProperties || this.valueAxisProperties['secShow'] == null || this.valueAxisProperties['secShow'])) {
-                    y2LabelColor = this.valueAxisProperties && this.valueAxisProperties['secLabelColor'] ? this.valueAxisProperties['secLabelColor'] : null;
+                    y2LabelColor = highContrastFill || (this.valueAxisProperties && this.valueAxisProperties['secLabelColor'] ? this.valueAxisProperties['secLabelColor'] : null);
 
                     let y2TickPadding = showY1OnRight ? axesLayout.tickPadding.left : axesLayout.tickPadding.right;
                     axes.y2.axis
@@ -2232,7 +2531,8 @@ module powerbi.visuals {
 
                     y2AxisGraphicsElement
                         .call(SvgCartesianAxes.darkenZeroLine)
-                        .call(SvgCartesianAxes.setAxisLabelColor, y2LabelColor);
+                        .call(SvgCartesianAxes.setAxisLabelColor, y2LabelColor)
+                        .call(SvgCartesianAxes.setAxisLineColor, this.highContrastColors);
 
                     if (tickLabelMargins.yRight >= leftRightMarginLimit) {
                         y2AxisGraphicsElement.selectAll('text')
@@ -2444,6 +2744,10 @@ module powerbi.visuals {
         private static setAxisLabelColor(g: D3.Selection, fill: Fill): void {
             g.selectAll('g.tick text').style('fill', fill ? fill.solid.color : null);
         }
+
+        private static setAxisLineColor(g: D3.Selection, highContrastColors: HighContrastColors): void {
+            g.selectAll('g.tick line, path.domain').style('stroke', highContrastColors ? highContrastColors.foreground : null);
+        }
     }
 
     export class CartesianAxes {
@@ -2462,6 +2766,8 @@ module powerbi.visuals {
 
         private maxMarginFactor: number;
         private yAxisOrientation: string;
+        private isRightToLeft: boolean;
+        private zoomedXDomain: NumberRange;
         private scrollbarWidth: number;
         private trimOrdinalDataOnOverflow: boolean;
         public showLinesOnX: boolean;
@@ -2521,12 +2827,31 @@ module powerbi.visuals {
             this.maxMarginFactor = factor;
         }
 
+        /**
+         * Mirrors the horizontal axis and moves the value axis to the right by default, for right-to-left locales.
+         */
+        public setRightToLeft(isRightToLeft: boolean): void {
+            this.isRightToLeft = isRightToLeft;
+            this.yAxisOrientation = this.getDefaultYAxisOrientation();
+        }
+
+        /**
+         * Sets the zoomed domain of the X axis, which overrides its start and end; undefined shows the whole axis.
+         */
+        public setZoomedXDomain(domain: NumberRange): void {
+            this.zoomedXDomain = domain;
+        }
+
+        public getDefaultYAxisOrientation(): string {
+            return this.isRightToLeft ? yAxisPosition.right : yAxisPosition.left;
+        }
+
         public update(categoryAxisProperties: DataViewObject, valueAxisProperties: DataViewObject) {
             this.categoryAxisProperties = categoryAxisProperties;
             this.valueAxisProperties = valueAxisProperties;
 
             let axisPosition = this.valueAxisProperties['position'];
-            this.yAxisOrientation = axisPosition ? axisPosition.toString() : yAxisPosition.left;
+            this.yAxisOrientation = axisPosition ? axisPosition.toString() : this.getDefaultYAxisOrientation();
         }
 
         public addWarnings(warnings: IVisualWarning[]): void {
@@ -2554,10 +2879,13 @@ module powerbi.visuals {
             ensureYDomain?: NumberRange): CartesianAxisProperties {
             debug.assertValue(layers, 'layers');
 
+            let zoomedXDomain = this.zoomedXDomain;
             let visualOptions: CalculateScaleAndDomainOptions = {
                 viewport: viewport,
                 margin: margin,
-                forcedXDomain: [this.categoryAxisProperties ? this.categoryAxisProperties['start'] : null, this.categoryAxisProperties ? this.categoryAxisProperties['end'] : null],
+                forcedXDomain: zoomedXDomain
+                    ? [zoomedXDomain.min, zoomedXDomain.max]
+                    : [this.categoryAxisProperties ? this.categoryAxisProperties['start'] : null, this.categoryAxisProperties ? this.categoryAxisProperties['end'] : null],
                 forceMerge: this.valueAxisProperties && this.valueAxisProperties['secShow'] === false,
                 showCategoryAxisLabel: false,
                 showValueAxisLabel: false,
@@ -2571,6 +2899,7 @@ module powerbi.visuals {
                 playAxisControlLayout: playAxisControlLayout,
                 ensureXDomain: ensureXDomain,
                 ensureYDomain: ensureYDomain,
+                isRightToLeft: this.isRightToLeft,
             };
 
             let skipMerge = this.valueAxisProperties && this.valueAxisProperties['secShow'] === true;
@@ -3093,6 +3422,12 @@ module powerbi.visuals {
                 case CartesianChartType.DataDot:
                     layers.push(createDataDotChartLayer(cartesianOptions));
                     break;
+                case CartesianChartType.BoxAndWhisker:
+                    layers.push(createBoxAndWhiskerChartLayer(cartesianOptions));
+                    break;
+                case CartesianChartType.Candlestick:
+                    layers.push(createCandlestickChartLayer(cartesianOptions));
+                    break;
                 case CartesianChartType.StackedColumn:
                     layers.push(createColumnChartLayer(ColumnChartType.stackedColumn, cartesianOptions));
                     break;
@@ -3163,6 +3498,14 @@ module powerbi.visuals {
             return new WaterfallChart(defaultOptions);
         }
 
+        function createBoxAndWhiskerChartLayer(defaultOptions: CartesianVisualConstructorOptions): BoxAndWhiskerChart {
+            return new BoxAndWhiskerChart(defaultOptions);
+        }
+
+        function createCandlestickChartLayer(defaultOptions: CartesianVisualConstructorOptions): CandlestickChart {
+            return new CandlestickChart(defaultOptions);
+        }
+
         function createDataDotChartLayer(defaultOptions: CartesianVisualConstructorOptions): DataDotChart {
             return new DataDotChart(defaultOptions);
         }
@@ -154,6 +154,8 @@ module powerbi.visuals {
         viewportWidth: number;
         is100Pct: boolean;
         isComboChart: boolean;
+        /** Whether the categories are laid out from right to left. */
+        isRightToLeft?: boolean;
     }
 
     export interface IColumnChartStrategy {
@@ -167,7 +169,7 @@ module powerbi.visuals {
     }
 
     export interface IColumnChartConverterStrategy {
-        getLegend(colors: IDataColorPalette, defaultLegendLabelColor: string, defaultColor?: string): LegendSeriesInfo;
+        getLegend(colors: IDataColorPalette, defaultLegendLabelColor: string, defaultColor?: string, highContrastColors?: HighContrastColors): LegendSeriesInfo;
         getValueBySeriesAndCategory(series: number, category: number): number;
         getHighlightBySeriesAndCategory(series: number, category: number): PrimitiveValue;
     }
@@ -209,6 +211,7 @@ module powerbi.visuals {
         private data: ColumnChartData;
         private style: IVisualStyle;
         private colors: IDataColorPalette;
+        private highContrastColors: HighContrastColors;
         private chartType: ColumnChartType;
         private columnChart: IColumnChartStrategy;
         private hostService: IVisualHostServices;
@@ -304,6 +307,7 @@ module powerbi.visuals {
             this.hostService = options.host;
             this.interactivity = options.interactivity;
             this.colors = this.style.colorPalette.dataColors;
+            this.highContrastColors = HighContrastHelper.getColors(this.style);
             this.cartesianVisualHost = options.cartesianHost;
             this.options = options;
             this.isComboChart = ComboChart.isComboChart(options.chartType);
@@ -344,7 +348,8 @@ module powerbi.visuals {
             dataViewMetadata: DataViewMetadata = null,
             chartType?: ColumnChartType,
             interactivityService?: IInteractivityService,
-            tooltipsEnabled: boolean = true): ColumnChartData {
+            tooltipsEnabled: boolean = true,
+            highContrastColors?: HighContrastColors): ColumnChartData {
             debug.assertValue(dataView, 'dataView');
             debug.assertValue(colors, 'colors');
 
@@ -377,7 +382,7 @@ module powerbi.visuals {
             }
 
             // Allocate colors
-            let legendAndSeriesInfo = converterStrategy.getLegend(colors, defaultLegendLabelColor, defaultDataPointColor);
+            let legendAndSeriesInfo = converterStrategy.getLegend(colors, defaultLegendLabelColor, defaultDataPointColor, highContrastColors);
             let legend: LegendDataPoint[] = legendAndSeriesInfo.legend.dataPoints;
             let seriesSources: DataViewMetadataColumn[] = legendAndSeriesInfo.seriesSources;
 
@@ -400,6 +405,9 @@ module powerbi.visuals {
                 tooltipsEnabled);
             let columnSeries: ColumnChartSeries[] = result.series;
 
+            if (highContrastColors)
+                ColumnChart.applyHighContrastColors(columnSeries, labelSettings, highContrastColors);
+
             let valuesMetadata: DataViewMetadataColumn[] = [];
             for (let j = 0, jlen = legend.length; j < jlen; j++) {
                 valuesMetadata.push(seriesSources[j]);
@@ -440,6 +448,25 @@ module powerbi.visuals {
             };
         }
 
+        /**
+         * Overrides the colors set on the data points and their labels with the foreground color.
+         */
+        private static applyHighContrastColors(columnSeries: ColumnChartSeries[], labelSettings: VisualDataLabelsSettings, highContrastColors: HighContrastColors): void {
+            let foreground = highContrastColors.foreground;
+            labelSettings.labelColor = foreground;
+
+            for (let series of columnSeries) {
+                series.color = foreground;
+                if (series.labelSettings)
+                    series.labelSettings.labelColor = foreground;
+
+                for (let dataPoint of series.data) {
+                    dataPoint.color = foreground;
+                    dataPoint.labelFill = foreground;
+                }
+            }
+        }
+
         private static canSupportOverflow(chartType: ColumnChartType, seriesCount: number): boolean {
             return !ColumnChart.isStacked(chartType) || seriesCount === 1;
         }
@@ -873,7 +900,8 @@ module powerbi.visuals {
                         dataView.metadata,
                         this.chartType,
                         this.interactivityService,
-                        this.tooltipsEnabled);
+                        this.tooltipsEnabled,
+                        this.highContrastColors);
                 }
             }
 
@@ -1083,6 +1111,7 @@ module powerbi.visuals {
                 viewportWidth: this.currentViewport.width - (margin.left + margin.right),
                 is100Pct: is100Pct,
                 isComboChart: this.isComboChart,
+                isRightToLeft: options.isRightToLeft,
             };
             this.ApplyInteractivity(chartContext);
             this.columnChart.setupVisualProps(chartContext);
@@ -1268,6 +1297,14 @@ module powerbi.visuals {
                 .attr('height', height)
                 .attr('width', width);
 
+            if (this.highContrastColors) {
+                HighContrastHelper.applyPatternFills(
+                    this.mainGraphicsContext.selectAll(ColumnChart.SeriesClasses.selector),
+                    this.svg,
+                    this.highContrastColors,
+                    (d: ColumnChartSeries) => d.index);
+            }
+
             if (this.tooltipsEnabled) {
                 this.tooltipService.addTooltip(
                     columnChartDrawInfo.eventGroup,
@@ -1379,14 +1416,14 @@ module powerbi.visuals {
             this.reader = powerbi.data.createIDataViewCategoricalReader(dataView);
         }
 
-        public getLegend(colors: IDataColorPalette, defaultLegendLabelColor: string, defaultColor?: string): LegendSeriesInfo {
+        public getLegend(colors: IDataColorPalette, defaultLegendLabelColor: string, defaultColor?: string, highContrastColors?: HighContrastColors): LegendSeriesInfo {
             let legend: LegendDataPoint[] = [];
             let seriesSources: DataViewMetadataColumn[] = [];
             let seriesObjects: DataViewObjects[][] = [];
             let grouped: boolean = false;
             let reader = this.reader;
 
-            let colorHelper = new ColorHelper(colors, columnChartProps.dataPoint.fill, defaultColor);
+            let colorHelper = new ColorHelper(colors, columnChartProps.dataPoint.fill, defaultColor, highContrastColors);
             let legendTitle = undefined;
             if (this.dataView && this.dataView.values) {
                 let allValues = this.dataView.values;
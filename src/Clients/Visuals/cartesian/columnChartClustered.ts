@@ -92,14 +92,15 @@ module powerbi.visuals {
                 axisScaleType,
                 axisDisplayUnits,
                 axisPrecision,
-                ensureXDomain);
+                ensureXDomain,
+                this.graphicsContext.isRightToLeft);
 
-            // create clustered offset scale
+            // create clustered offset scale, the series of a category are mirrored along with the categories
             let seriesLength = this.data.series.length;
             let columnWidth = (this.categoryLayout.categoryThickness * (1 - CartesianChart.InnerPaddingRatio)) / seriesLength;
             this.seriesOffsetScale = d3.scale.ordinal()
                 .domain(this.data.series.map(s => s.index))
-                .rangeBands([0, seriesLength * columnWidth]);
+                .rangeBands(this.graphicsContext.isRightToLeft ? [seriesLength * columnWidth, 0] : [0, seriesLength * columnWidth]);
 
             return props;
         }
@@ -95,7 +95,8 @@ module powerbi.visuals {
                 axisScaleType,
                 axisDisplayUnits,
                 axisPrecision,
-                xReferenceLineValue);
+                xReferenceLineValue,
+                this.graphicsContext.isRightToLeft);
 
             return props;
         }
@@ -246,7 +246,8 @@ module powerbi.visuals {
                 useTickIntervalForDisplayUnits: true,
                 categoryThickness: layout.categoryThickness,
                 getValueFn: (index, type) => this.lookupXValue(index, type),
-                isCategoryAxis: true
+                isCategoryAxis: true,
+                isMirrored: options.isRightToLeft,
             });
 
             return [this.xAxisProperties, this.yAxisProperties];
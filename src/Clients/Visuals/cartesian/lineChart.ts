@@ -137,6 +137,7 @@ module powerbi.visuals {
         private static ScalarOuterPadding = 10;
         private static interactivityStrokeWidth = 10;
         private static minimumLabelsToRender = 4;
+        private static DownsampledPointsPerPixel = 2;
         public static AreaFillOpacity = 0.4;
         public static DimmedAreaFillOpacity = 0.2;
 
@@ -154,6 +155,7 @@ module powerbi.visuals {
         private dataViewCat: DataViewCategorical;
 
         private colors: IDataColorPalette;
+        private highContrastColors: HighContrastColors;
         private host: IVisualHostServices;
         private data: LineChartData;
         private clippedData: LineChartData;
@@ -279,7 +281,8 @@ module powerbi.visuals {
             interactivityService?: IInteractivityService,
             shouldCalculateStacked?: boolean,
             isComboChart?: boolean,
-            tooltipsEnabled: boolean = true): LineChartData {
+            tooltipsEnabled: boolean = true,
+            highContrastColors?: HighContrastColors): LineChartData {
             let reader = powerbi.data.createIDataViewCategoricalReader(dataView);
             let valueRoleName = isComboChart ? 'Y2' : 'Y';
             let categorical = dataView.categorical;
@@ -331,7 +334,7 @@ module powerbi.visuals {
                 dataLabelUtils.updateLineChartLabelSettingsFromLabelsObject(labelsObj, defaultLabelSettings);
             }
 
-            let colorHelper = new ColorHelper(colors, lineChartProps.dataPoint.fill, defaultSeriesColor);
+            let colorHelper = new ColorHelper(colors, lineChartProps.dataPoint.fill, defaultSeriesColor, highContrastColors);
 
             let grouped: DataViewValueColumnGroup[];
             if (dataView.categorical.values)
@@ -512,6 +515,9 @@ module powerbi.visuals {
                 interactivityService.applySelectionStateToData(series);
             }
 
+            if (highContrastColors)
+                LineChart.applyHighContrastColors(series, defaultLabelSettings, highContrastColors);
+
             return {
                 series: series,
                 isScalar: isScalar,
@@ -529,6 +535,26 @@ module powerbi.visuals {
             };
         }
 
+        /**
+         * Overrides the colors set on the data points and their labels with the foreground color.
+         */
+        private static applyHighContrastColors(series: LineChartSeries[], labelSettings: LineChartDataLabelsSettings, highContrastColors: HighContrastColors): void {
+            let foreground = highContrastColors.foreground;
+            labelSettings.labelColor = foreground;
+
+            for (let lineSeries of series) {
+                lineSeries.color = foreground;
+                if (lineSeries.labelSettings)
+                    lineSeries.labelSettings.labelColor = foreground;
+
+                for (let dataPoint of lineSeries.data) {
+                    dataPoint.labelFill = foreground;
+                    if (dataPoint.pointColor)
+                        dataPoint.pointColor = foreground;
+                }
+            }
+        }
+
         public static getInteractiveLineChartDomElement(element: JQuery): HTMLElement {
             return element.children("svg").get(0);
         }
@@ -583,6 +609,7 @@ module powerbi.visuals {
             this.host = options.host;
             this.currentViewport = options.viewport;
             this.colors = options.style.colorPalette.dataColors;
+            this.highContrastColors = HighContrastHelper.getColors(options.style);
             this.isInteractiveChart = options.interactivity && options.interactivity.isInteractiveLegend;
             this.cartesianVisualHost = options.cartesianHost;
             this.scaleDetector = new SVGScaleDetector(this.cartesainSVG);
@@ -697,7 +724,8 @@ module powerbi.visuals {
                             this.interactivityService,
                             EnumExtensions.hasFlag(this.lineType, LineChartType.stackedArea),
                             this.isComboChart,
-                            this.tooltipsEnabled);
+                            this.tooltipsEnabled,
+                            this.highContrastColors);
                         this.data = convertedData;
                         
                         let previousCategoryIds = this.previousCategoryIds;
@@ -728,9 +756,13 @@ module powerbi.visuals {
         }
 
         public setFilteredData(startIndex: number, endIndex: number): CartesianData {
-            let catgSize = endIndex - startIndex;
             let data = this.clippedData = Prototype.inherit(this.data);
-            data.series = LineChart.sliceSeries(data.series, catgSize, startIndex);
+            // Scalar series skip null values, so their data points are filtered by category index rather than sliced by position.
+            data.series = _.map(data.series, (series: LineChartSeries) => {
+                let filteredSeries = Prototype.inherit(series);
+                filteredSeries.data = _.filter(series.data, (dataPoint: LineChartDataPoint) => dataPoint.categoryIndex >= startIndex && dataPoint.categoryIndex < endIndex);
+                return filteredSeries;
+            });
             data.categories = data.categories.slice(startIndex, endIndex);
             return data;
         }
@@ -807,7 +839,8 @@ module powerbi.visuals {
                 isCategoryAxis: true,
                 scaleType: options.categoryAxisScaleType,
                 axisDisplayUnits: options.categoryAxisDisplayUnits,
-                axisPrecision: options.categoryAxisPrecision
+                axisPrecision: options.categoryAxisPrecision,
+                isMirrored: options.isRightToLeft,
             });
 
             this.xAxisProperties.axisLabel = options.showCategoryAxisLabel ? data.axesLabels.x : null;
@@ -948,6 +981,9 @@ module powerbi.visuals {
             if (!data)
                 return;
 
+            if (data.isScalar)
+                data = this.clippedData = this.downsampleSeries(data);
+
             let dataPointCount = data.categories.length * data.series.length;
             if (dataPointCount > AnimatorCommon.MaxDataPointsToAnimate) {
                 // Too many data points to animate.
@@ -1011,7 +1047,7 @@ module powerbi.visuals {
                     .append(LineChart.PathElementName)
                     .classed(LineChart.CategoryAreaSelector.class, true);
                 areas
-                    .style('fill', (d: LineChartSeries) => d.color)
+                    .style('fill', (d: LineChartSeries) => this.highContrastColors ? HighContrastHelper.getPatternFill(this.mainGraphicsSVG, d.lineIndex, this.highContrastColors) : d.color)
                     .style('fill-opacity', (d: LineChartSeries) => (hasSelection && !d.selected) ? LineChart.DimmedAreaFillOpacity : LineChart.AreaFillOpacity)
                     .transition()
                     .ease('linear')
@@ -1029,6 +1065,7 @@ module powerbi.visuals {
             lines
                 .style('stroke', (d: LineChartSeries) => d.color)
                 .style('stroke-opacity', (d: LineChartSeries) => ColumnUtil.getFillOpacity(d.selected, false, hasSelection, false))
+                .style('stroke-dasharray', (d: LineChartSeries) => this.highContrastColors ? HighContrastHelper.getStrokeDashArray(d.lineIndex) : null)
                 .transition()
                 .ease('linear')
                 .duration(duration)
@@ -1184,6 +1221,7 @@ module powerbi.visuals {
 
                 behaviorOptions = {
                     lines: lines,
+                    series: data.series,
                     interactivityLines: interactivityLines,
                     dots: dots,
                     areas: areas,
@@ -1192,6 +1230,9 @@ module powerbi.visuals {
                         return this.getCategoryIndexFromSeriesAndPointX(seriesData, pointX);
                     },
                     categoryIdentities: data.categoryIdentities,
+                    focusContainer: this.mainGraphicsSVG,
+                    focusMarkerContext: this.mainGraphicsContext,
+                    getDataPointPosition: (dataPoint: LineChartDataPoint) => ({ x: xPosition(dataPoint), y: yPosition(dataPoint) }),
                 };
             }
 
@@ -1497,6 +1538,10 @@ module powerbi.visuals {
             let categoryIndex = this.getCategoryIndexFromTooltipEvent(tooltipEvent, pointX);
             let seriesData = tooltipEvent.data;
 
+            // The rendered series may be downsampled, so the data point is looked up in the full series.
+            if (seriesData && this.data && this.data.series[seriesData.lineIndex])
+                seriesData = this.data.series[seriesData.lineIndex];
+
             let dataPoint: LineChartDataPoint;
             if (seriesData && seriesData.data && seriesData.data.length) {
                 dataPoint = _.find(seriesData.data, (dp: LineChartDataPoint) => dp.categoryIndex === categoryIndex);
@@ -1600,6 +1645,47 @@ module powerbi.visuals {
             return newSeries;
         }
 
+        /**
+         * Downsamples the series with more points than the plot area can show, from the points within the X domain.
+         * Tooltips are looked up in the full data, so they keep showing exact values.
+         */
+        private downsampleSeries(data: LineChartData): LineChartData {
+            let threshold = Math.ceil(this.getAvailableWidth() * LineChart.DownsampledPointsPerPixel);
+            if (!_.some(data.series, (series: LineChartSeries) => series.data.length > threshold))
+                return data;
+
+            let isStackedArea = EnumExtensions.hasFlag(this.lineType, LineChartType.stackedArea);
+            let getX = (dataPoint: LineChartDataPoint) => +dataPoint.categoryValue;
+            let getY = (dataPoint: LineChartDataPoint) => dataPoint.value === null ? null : isStackedArea ? dataPoint.stackedValue : dataPoint.value;
+            let domain = _.map(this.xAxisProperties.scale.domain(), (value) => +value);
+
+            let downsample = (series: LineChartSeries) => DownsamplingHelper.largestTriangleThreeBuckets(DownsamplingHelper.filterToDomain(series.data, domain, getX), threshold, getX, getY);
+
+            // The lower edge of a stacked band is the upper edge of the band below it, so all the bands keep the same categories.
+            let keptCategoryIndices: _.Dictionary<boolean>;
+            if (isStackedArea) {
+                keptCategoryIndices = {};
+                for (let series of data.series) {
+                    for (let dataPoint of downsample(series))
+                        keptCategoryIndices[dataPoint.categoryIndex] = true;
+                }
+            }
+
+            let downsampledData = Prototype.inherit(data);
+            downsampledData.series = _.map(data.series, (series: LineChartSeries) => {
+                if (!isStackedArea && series.data.length <= threshold)
+                    return series;
+
+                let downsampledSeries = Prototype.inherit(series);
+                downsampledSeries.data = isStackedArea
+                    ? _.filter(DownsamplingHelper.filterToDomain(series.data, domain, getX), (dataPoint: LineChartDataPoint) => keptCategoryIndices[dataPoint.categoryIndex])
+                    : downsample(series);
+                return downsampledSeries;
+            });
+
+            return downsampledData;
+        }
+
         private getXOfFirstCategory(): number {
             if (!this.data.isScalar) {
                 // This will place the line points in the middle of the bands
@@ -1932,6 +2018,7 @@ module powerbi.visuals {
                     measure: valueFormatter.format(measure, valueFormatter.getFormatString(series.yCol, formatStringProp)),
                     identity: series.identity,
                     selected: series.selected,
+                    highContrastIndex: series.lineIndex,
                 });
             }
 
@@ -96,6 +96,7 @@ module powerbi.visuals {
         animationOptions: AnimationOptions;
         easeType: string;
         suppressDataPointRendering: boolean;
+        highContrastColors?: HighContrastColors;
     }
 
     interface ScatterChartMeasureMetadata {
@@ -123,6 +124,7 @@ module powerbi.visuals {
         interactivityService?: any;
         categoryAxisProperties?: any;
         valueAxisProperties?: any;
+        highContrastColors?: HighContrastColors;
     }
 
     interface ScatterObjectProperties {
@@ -166,6 +168,8 @@ module powerbi.visuals {
         public static NoAnimationThreshold = 1000;
         // No render resize threshold - if more than this number of data points, rendering is suppressed during resize
         public static NoRenderResizeThreshold = 1000;
+        public static AggregationThreshold = 3000;
+        private static AggregationCellSize = 2;
 
         private svg: D3.Selection;
         private element: JQuery;
@@ -177,6 +181,7 @@ module powerbi.visuals {
         private margin: IMargin;
 
         private colors: IDataColorPalette;
+        private highContrastColors: HighContrastColors;
         private options: CartesianVisualInitOptions;
         private interactivity: InteractivityOptions;
         private cartesianVisualHost: ICartesianVisualHost;
@@ -211,6 +216,7 @@ module powerbi.visuals {
             this.style = options.style;
             this.host = options.host;
             this.colors = this.style.colorPalette.dataColors;
+            this.highContrastColors = HighContrastHelper.getColors(this.style);
             this.interactivity = options.interactivity;
             this.cartesianVisualHost = options.cartesianHost;
             this.isMobileChart = options.interactivity && options.interactivity.isInteractiveLegend;
@@ -342,6 +348,9 @@ module powerbi.visuals {
                 interactivityService.applySelectionStateToData(legendItems);
             }
 
+            if (options.highContrastColors)
+                ScatterChart.applyHighContrastColors(dataPointSeries, legendItems, dataLabelsSettings, options.highContrastColors);
+
             return {
                 xCol: scatterMetadata.cols.x,
                 yCol: scatterMetadata.cols.y,
@@ -361,6 +370,30 @@ module powerbi.visuals {
             };
         }
 
+        /**
+         * Overrides the colors of the markers (including the gradient colors), the legend and the labels with the foreground color.
+         */
+        private static applyHighContrastColors(
+            dataPointSeries: ScatterChartDataPointSeries[],
+            legendItems: LegendDataPoint[],
+            labelSettings: PointDataLabelsSettings,
+            highContrastColors: HighContrastColors): void {
+            let foreground = highContrastColors.foreground;
+            labelSettings.labelColor = foreground;
+
+            for (let series of dataPointSeries) {
+                series.fill = foreground;
+                for (let dataPoint of series.dataPoints) {
+                    dataPoint.fill = foreground;
+                    dataPoint.labelFill = foreground;
+                }
+            }
+
+            for (let legendItem of legendItems) {
+                legendItem.color = foreground;
+            }
+        }
+
         private static getSizeRangeForGroups(
             dataViewValueGroups: DataViewValueColumnGroup[],
             sizeColumnIndex: number): NumberRange {
@@ -714,6 +747,7 @@ module powerbi.visuals {
                         interactivityService: this.interactivityService,
                         categoryAxisProperties: this.categoryAxisProperties,
                         valueAxisProperties: this.valueAxisProperties,
+                        highContrastColors: this.highContrastColors,
                     };
 
                     if (PlayChart.isDataViewPlayable(dataView)) {
@@ -918,8 +952,14 @@ module powerbi.visuals {
 
         public getAxisLocationForRole(roleName: string): AxisLocation {
             let dataRole = _.find(scatterChartCapabilities.dataRoles, (role) => role.name === roleName);
-            if (dataRole)
-                return dataRole.cartesianKind === CartesianRoleKind.X ? AxisLocation.X : AxisLocation.Y1;
+            if (dataRole) {
+                switch (dataRole.cartesianKind) {
+                    case CartesianRoleKind.X:
+                        return AxisLocation.X;
+                    case CartesianRoleKind.Y:
+                        return AxisLocation.Y1;
+                }
+            }
         }
 
         private static getExtents(data: ScatterChartData): CartesianExtents {
@@ -983,7 +1023,8 @@ module powerbi.visuals {
                 isCategoryAxis: true, //scatter doesn't have a categorical axis, but this is needed for the pane to react correctly to the x-axis toggle one/off
                 scaleType: options.categoryAxisScaleType,
                 axisDisplayUnits: options.categoryAxisDisplayUnits,
-                axisPrecision: options.categoryAxisPrecision
+                axisPrecision: options.categoryAxisPrecision,
+                isMirrored: options.isRightToLeft,
             });
             this.xAxisProperties.axis.tickSize(-height, 0);
             this.xAxisProperties.axisLabel = this.data.axesLabels.x;
@@ -1058,8 +1099,13 @@ module powerbi.visuals {
                 fillMarkers: fillMarkers,
                 easeType: easeType,
                 suppressDataPointRendering: suppressDataPointRendering,
+                highContrastColors: this.highContrastColors,
             };
 
+            let isAggregated = !drawBubbles && !this.playAxis && data.dataPoints.length > ScatterChart.AggregationThreshold;
+            if (isAggregated)
+                viewModel.data = ScatterChart.aggregateDataPoints(data, this.xAxisProperties, this.yAxisProperties, plotArea);
+
             if (drawBubbles) {
                 // Bubbles must be drawn from largest to smallest.
                 let sortedData = data.dataPoints.sort(ScatterChart.sortBubbles);
@@ -1074,6 +1120,14 @@ module powerbi.visuals {
 
             let behaviorOptions = this.renderer.render(viewModel, this.interactivityService);
 
+            if (isAggregated) {
+                // Aggregated markers stand for several data points, so selections are hit-tested against all of them.
+                let xScale = this.xAxisProperties.scale;
+                let yScale = this.yAxisProperties.scale;
+                behaviorOptions.dragSelectionHitTest = (shape: IPoint[]) => _.filter(data.dataPoints, (dataPoint: ScatterChartDataPoint) =>
+                    DataPointDragSelector.isInsidePolygon({ x: xScale(dataPoint.x), y: yScale(dataPoint.y) }, shape));
+            }
+
             if (this.isMobileChart) {
                 behaviorOptions = <ScatterMobileBehaviorOptions> {
                     data: behaviorOptions.data,
@@ -1114,6 +1168,34 @@ module powerbi.visuals {
             };
         }
 
+        /**
+         * Aggregates the markers of dense scatter charts that would be drawn on top of each other into one marker for each cell
+         * of a fine grid, series and selection state, and leaves out the markers outside the plot area.
+         */
+        private static aggregateDataPoints(data: ScatterChartData, xAxisProperties: IAxisProperties, yAxisProperties: IAxisProperties, plotArea: IViewport): ScatterChartData {
+            let xScale = xAxisProperties.scale;
+            let yScale = yAxisProperties.scale;
+            let getPosition = (dataPoint: ScatterChartDataPoint) => <IPoint>{ x: xScale(dataPoint.x), y: yScale(dataPoint.y) };
+            let getGroupKey = (dataPoint: ScatterChartDataPoint) => dataPoint.selected ? 'selected' : '';
+            let radius = ScatterChart.BubbleRadius;
+            let bounds: IRect = {
+                left: -radius,
+                top: -radius,
+                width: plotArea.width + 2 * radius,
+                height: plotArea.height + 2 * radius,
+            };
+
+            let aggregatedData = Prototype.inherit(data);
+            aggregatedData.dataPointSeries = _.map(data.dataPointSeries, (series: ScatterChartDataPointSeries) => {
+                let aggregatedSeries = Prototype.inherit(series);
+                aggregatedSeries.dataPoints = DownsamplingHelper.aggregateByGrid(series.dataPoints, ScatterChart.AggregationCellSize, getPosition, bounds, getGroupKey);
+                return aggregatedSeries;
+            });
+            aggregatedData.dataPoints = _.reduce(aggregatedData.dataPointSeries, (a, s) => a.concat(s.dataPoints), []);
+
+            return aggregatedData;
+        }
+
         public static getStrokeFill(d: ScatterChartDataPoint, colorBorder: boolean): string {
             if (d.size != null && colorBorder) {
                 let colorRgb = Color.parseColorString(d.fill);
@@ -1299,6 +1381,9 @@ module powerbi.visuals {
             if (viewModel.drawBubbles)
                 scatterMarkers.order();
 
+            if (viewModel.highContrastColors)
+                SvgRenderer.applyPatternFills(scatterMarkers, this.mainGraphicsContext, viewModel);
+
             if (this.tooltipsEnabled) {
                 this.tooltipService.addTooltip(
                     this.mainGraphicsContext, 
@@ -1319,6 +1404,25 @@ module powerbi.visuals {
             return new ScatterTraceLineRenderer(viewModel, this.mainGraphicsContext, this.tooltipsEnabled, this.tooltipService);
         }
 
+        /**
+         * Fills the markers with the pattern of their series, which is the same pattern as their legend icon.
+         */
+        private static applyPatternFills(scatterMarkers: D3.Selection, svg: D3.Selection, viewModel: ScatterChartViewModel): void {
+            let seriesIndices: _.Dictionary<number> = {};
+            let dataPointSeries = viewModel.data.dataPointSeries || [];
+            for (let seriesIndex = 0, len = dataPointSeries.length; seriesIndex < len; seriesIndex++) {
+                for (let dataPoint of dataPointSeries[seriesIndex].dataPoints) {
+                    seriesIndices[dataPoint.identity.getKey()] = seriesIndex;
+                }
+            }
+
+            HighContrastHelper.applyPatternFills(
+                scatterMarkers,
+                svg,
+                viewModel.highContrastColors,
+                (d: ScatterChartDataPoint) => seriesIndices[d.identity.getKey()]);
+        }
+
         private removeScatterMarkers(): D3.Selection {
             this.mainGraphicsContext.selectAll(SvgRenderer.ScatterMarkerSeriesGroup.selector)
                 .remove();
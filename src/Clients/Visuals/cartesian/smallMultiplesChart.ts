@@ -0,0 +1,685 @@
+/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved. 
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *   
+ *  The above copyright notice and this permission notice shall be included in 
+ *  all copies or substantial portions of the Software.
+ *   
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR 
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, 
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE 
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER 
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+/// <reference path="../_references.ts"/>
+
+module powerbi.visuals {
+    import ClassAndSelector = jsCommon.CssConstants.ClassAndSelector;
+    import createClassAndSelector = jsCommon.CssConstants.createClassAndSelector;
+    import createDataViewScopeIdentity = powerbi.data.createDataViewScopeIdentity;
+    import DataRoleHelper = powerbi.data.DataRoleHelper;
+    import DataViewTransform = powerbi.data.DataViewTransform;
+    import PixelConverter = jsCommon.PixelConverter;
+    import SQExpr = powerbi.data.SQExpr;
+    import SQExprBuilder = powerbi.data.SQExprBuilder;
+
+    export interface SmallMultiplesChartConstructorOptions {
+        chartType: CartesianChartType;
+        /** Creates the behavior of a panel, the panels are interactive only with a behavior. */
+        createBehavior?: () => IInteractiveBehavior;
+        tooltipsEnabled?: boolean;
+    }
+
+    export interface SmallMultiplesPanelData {
+        key: string;
+        title: string;
+        dataView: DataView;
+    }
+
+    /** The identities of the categories of the rows, apart from the panels. */
+    export interface SmallMultiplesCategoryIdentities {
+        identity: DataViewScopeIdentity[];
+        identityFields: SQExpr[];
+    }
+
+    export interface SmallMultiplesSettings {
+        /** The number of panels per row, a square grid when not set. */
+        columns: number;
+        sharedAxes: boolean;
+        showTitles: boolean;
+    }
+
+    interface SmallMultiplesPanel {
+        element: D3.Selection;
+        title: D3.Selection;
+        chartElement: D3.Selection;
+        chart?: CartesianChart;
+        /** The viewport of the panel in the grid. */
+        viewport: IViewport;
+        /** The viewport the chart was last rendered with. */
+        renderedViewport?: IViewport;
+        binding?: SmallMultiplesPanelBinding;
+    }
+
+    /**
+     * Records the binding of a panel instead of binding it, and shares the selection state of the small multiples with the panel.
+     */
+    class SmallMultiplesPanelInteractivityService implements IInteractivityService {
+        constructor(private interactivityService: IInteractivityService, private onBind: (binding: SmallMultiplesPanelBinding) => void) {
+        }
+
+        public bind(dataPoints: SelectableDataPoint[], behavior: IInteractiveBehavior, behaviorOptions: any, options?: InteractivityServiceOptions): void {
+            // The panels have neither a legend nor interactive labels.
+            if (options && (options.isLegend || options.isLabels))
+                return;
+
+            this.onBind({
+                dataPoints: dataPoints,
+                behavior: behavior,
+                behaviorOptions: behaviorOptions,
+            });
+        }
+
+        public clearSelection(): void {
+            this.interactivityService.clearSelection();
+        }
+
+        public applySelectionStateToData(dataPoints: SelectableDataPoint[]): boolean {
+            return this.interactivityService.applySelectionStateToData(dataPoints);
+        }
+
+        public hasSelection(): boolean {
+            return this.interactivityService.hasSelection();
+        }
+
+        public legendHasSelection(): boolean {
+            return this.interactivityService.legendHasSelection();
+        }
+
+        public isSelectionModeInverted(): boolean {
+            return this.interactivityService.isSelectionModeInverted();
+        }
+
+        public setSelectionModeInverted(inverted: boolean): void {
+            this.interactivityService.setSelectionModeInverted(inverted);
+        }
+
+        public setDefaultValueMode(useDefaultValue: boolean): void {
+            this.interactivityService.setDefaultValueMode(useDefaultValue);
+        }
+
+        public isDefaultValueEnabled(): boolean {
+            return this.interactivityService.isDefaultValueEnabled();
+        }
+    }
+
+    /**
+     * Splits the data by the SmallMultiples role and lays out a grid of panels, each panel is a cartesian chart of its part of the data.
+     * The panels share one legend and one selection, and their axes when the sharedAxes option is on.
+     */
+    export class SmallMultiplesChart implements IVisual {
+        public static RoleName = 'SmallMultiples';
+
+        private static ClassName = 'smallMultiplesChart';
+        private static Grid: ClassAndSelector = createClassAndSelector('smallMultiplesGrid');
+        private static Panel: ClassAndSelector = createClassAndSelector('smallMultiplesPanel');
+        private static PanelTitle: ClassAndSelector = createClassAndSelector('smallMultiplesPanelTitle');
+        private static PanelChart: ClassAndSelector = createClassAndSelector('smallMultiplesPanelChart');
+
+        private static TitleHeight = 20;
+        private static PanelPadding = 8;
+
+        private chartType: CartesianChartType;
+        private createBehavior: () => IInteractiveBehavior;
+        private tooltipsEnabled: boolean;
+
+        private element: JQuery;
+        private grid: D3.Selection;
+        private legend: ILegend;
+        private legendObjectProperties: DataViewObject;
+        private hostServices: IVisualHostServices;
+        private visualInitOptions: VisualInitOptions;
+        private currentViewport: IViewport;
+        private isRightToLeft: boolean;
+        private interactivityService: IInteractivityService;
+        private behavior: SmallMultiplesBehavior;
+        private isRendering: boolean;
+
+        private settings: SmallMultiplesSettings;
+        private panelData: SmallMultiplesPanelData[];
+        private panels: SmallMultiplesPanel[];
+
+        constructor(options: SmallMultiplesChartConstructorOptions) {
+            debug.assertValue(options, 'options');
+
+            this.chartType = options.chartType;
+            this.createBehavior = options.createBehavior;
+            this.tooltipsEnabled = options.tooltipsEnabled;
+        }
+
+        public init(options: VisualInitOptions): void {
+            this.visualInitOptions = options;
+            this.element = options.element;
+            this.hostServices = options.host;
+            this.currentViewport = options.viewport;
+            this.isRightToLeft = RightToLeftHelper.isRightToLeft(this.hostServices);
+            this.panels = [];
+            this.panelData = [];
+
+            this.element.addClass(SmallMultiplesChart.ClassName);
+            this.grid = d3.select(this.element.get(0))
+                .append('div')
+                .classed(SmallMultiplesChart.Grid.class, true)
+                .style('position', 'absolute');
+
+            if (this.createBehavior) {
+                this.interactivityService = createInteractivityService(this.hostServices);
+                this.behavior = new SmallMultiplesBehavior();
+            }
+
+            this.legend = createLegend(this.element, false, this.interactivityService, false, undefined, this.isRightToLeft);
+        }
+
+        /**
+         * Splits the data view into one data view per value of the SmallMultiples column, without that column.
+         * When the panels align their categories each panel gets all the categories, without values for the categories missing from the panel.
+         */
+        public static splitDataView(dataView: DataView, alignCategories: boolean): SmallMultiplesPanelData[] {
+            debug.assertValue(dataView, 'dataView');
+
+            let categorical = dataView.categorical;
+            let smallMultiplesColumn = categorical
+                ? _.find(categorical.categories || [], (column: DataViewCategoryColumn) => DataRoleHelper.hasRole(column.source, SmallMultiplesChart.RoleName))
+                : undefined;
+            if (!smallMultiplesColumn)
+                return [{ key: '', title: undefined, dataView: dataView }];
+
+            let categoryColumns = _.filter(categorical.categories, (column: DataViewCategoryColumn) => column !== smallMultiplesColumn);
+            let categoryIdentities = SmallMultiplesChart.createCategoryIdentities(categorical.categories, categoryColumns, smallMultiplesColumn);
+
+            // The rows of each panel, and the categories (the values of the other category columns) in the order of their first row
+            let panelKeys: string[] = [];
+            let panelTitles: any[] = [];
+            let panelRows: _.Dictionary<number[]> = {};
+            let categoryKeys: string[] = [];
+            let categoryFirstRows: _.Dictionary<number> = {};
+            let rowCategoryKeys: string[] = [];
+            for (let rowIndex = 0, rowCount = smallMultiplesColumn.values.length; rowIndex < rowCount; rowIndex++) {
+                let panelKey = SmallMultiplesChart.getRowKey([smallMultiplesColumn], rowIndex);
+                if (!panelRows[panelKey]) {
+                    panelKeys.push(panelKey);
+                    panelTitles.push(smallMultiplesColumn.values[rowIndex]);
+                    panelRows[panelKey] = [];
+                }
+                panelRows[panelKey].push(rowIndex);
+
+                let categoryKey = rowCategoryKeys[rowIndex] = SmallMultiplesChart.getRowKey(categoryColumns, rowIndex);
+                if (categoryFirstRows[categoryKey] === undefined) {
+                    categoryFirstRows[categoryKey] = rowIndex;
+                    categoryKeys.push(categoryKey);
+                }
+            }
+
+            let metadata: DataViewMetadata = Prototype.inherit(dataView.metadata);
+            metadata.columns = _.filter(dataView.metadata.columns, (column: DataViewMetadataColumn) => !DataRoleHelper.hasRole(column, SmallMultiplesChart.RoleName));
+
+            let formatString = valueFormatter.getFormatString(smallMultiplesColumn.source, smallMultiplesProps.general.formatString);
+
+            return _.map(panelKeys, (panelKey: string, panelIndex: number) => {
+                let rows = panelRows[panelKey];
+                let sourceRows = rows;
+                let hasValues = _.map(rows, () => true);
+
+                if (alignCategories) {
+                    let panelRowByCategory: _.Dictionary<number> = {};
+                    for (let rowIndex of rows) {
+                        if (panelRowByCategory[rowCategoryKeys[rowIndex]] === undefined)
+                            panelRowByCategory[rowCategoryKeys[rowIndex]] = rowIndex;
+                    }
+
+                    sourceRows = _.map(categoryKeys, (categoryKey: string) =>
+                        panelRowByCategory[categoryKey] !== undefined ? panelRowByCategory[categoryKey] : categoryFirstRows[categoryKey]);
+                    hasValues = _.map(categoryKeys, (categoryKey: string) => panelRowByCategory[categoryKey] !== undefined);
+                }
+
+                return {
+                    key: panelKey,
+                    title: valueFormatter.format(panelTitles[panelIndex], formatString),
+                    dataView: {
+                        metadata: metadata,
+                        categorical: SmallMultiplesChart.sliceCategorical(categorical, categoryColumns, categoryIdentities, sourceRows, hasValues),
+                    },
+                };
+            });
+        }
+
+        /**
+         * Gets the key of the values of the columns in the row. The identities can't be used, all the category columns share one
+         * composite identity per row, SmallMultiples column included.
+         */
+        private static getRowKey(columns: DataViewCategoryColumn[], rowIndex: number): string {
+            return _.map(columns, (column: DataViewCategoryColumn) => {
+                let value = column.values[rowIndex];
+                return String(value instanceof Date ? value.getTime() : value);
+            }).join('|');
+        }
+
+        /**
+         * The category columns share one composite identity per row with the SmallMultiples column, which would tie each category to its panel.
+         * Creates the identities of the rows without the SmallMultiples field instead, so that a category is the same data point in all the panels.
+         */
+        private static createCategoryIdentities(
+            columns: DataViewCategoryColumn[],
+            categoryColumns: DataViewCategoryColumn[],
+            smallMultiplesColumn: DataViewCategoryColumn): SmallMultiplesCategoryIdentities {
+            let identityFields = <SQExpr[]>smallMultiplesColumn.identityFields;
+            if (_.isEmpty(categoryColumns) || !smallMultiplesColumn.identity || !identityFields || identityFields.length !== columns.length)
+                return;
+
+            let fields = _.map(categoryColumns, (column: DataViewCategoryColumn) => identityFields[columns.indexOf(column)]);
+            let identity = _.map(smallMultiplesColumn.values, (value: any, rowIndex: number) => {
+                let expr: SQExpr;
+                for (let i = 0, len = categoryColumns.length; i < len; i++) {
+                    let column = categoryColumns[i];
+                    let equalExpr = SQExprBuilder.equal(fields[i], SQExprBuilder.typedConstant(column.values[rowIndex], column.source.type));
+                    expr = expr ? SQExprBuilder.and(expr, equalExpr) : equalExpr;
+                }
+
+                return createDataViewScopeIdentity(expr);
+            });
+
+            return {
+                identity: identity,
+                identityFields: fields,
+            };
+        }
+
+        private static sliceCategorical(
+            categorical: DataViewCategorical,
+            categoryColumns: DataViewCategoryColumn[],
+            categoryIdentities: SmallMultiplesCategoryIdentities,
+            rows: number[],
+            hasValues: boolean[]): DataViewCategorical {
+            let pick = (array: any[]) => _.map(rows, (rowIndex: number) => array[rowIndex]);
+            let pickValues = (array: any[]) => _.map(rows, (rowIndex: number, index: number) => hasValues[index] ? array[rowIndex] : null);
+
+            let categories = _.map(categoryColumns, (column: DataViewCategoryColumn) => {
+                let slice: DataViewCategoryColumn = {
+                    source: column.source,
+                    values: pick(column.values),
+                    identityFields: categoryIdentities ? categoryIdentities.identityFields : column.identityFields,
+                };
+                if (categoryIdentities)
+                    slice.identity = pick(categoryIdentities.identity);
+                else if (column.identity)
+                    slice.identity = pick(column.identity);
+                if (column.objects)
+                    slice.objects = pick(column.objects);
+
+                return slice;
+            });
+
+            let result: DataViewCategorical = {
+                categories: _.isEmpty(categories) ? undefined : categories,
+            };
+
+            let values = categorical.values;
+            if (values) {
+                let valueColumns = _.map(values, (column: DataViewValueColumn) => {
+                    let slice: DataViewValueColumn = {
+                        source: column.source,
+                        values: pickValues(column.values),
+                    };
+                    if (column.identity)
+                        slice.identity = column.identity;
+                    if (column.highlights)
+                        slice.highlights = pickValues(column.highlights);
+
+                    return slice;
+                });
+
+                let slicedValues = result.values = DataViewTransform.createValueColumns(valueColumns, <data.SQExpr[]>values.identityFields, values.source);
+
+                // Keep the groups of the series, they carry the formatting objects of the series.
+                let groups = _.map(values.grouped(), (group: DataViewValueColumnGroup) => <DataViewValueColumnGroup>_.extend({}, group, {
+                    values: _.map(group.values, (column: DataViewValueColumn) => valueColumns[values.indexOf(column)]),
+                }));
+                DataViewTransform.setGrouped(slicedValues, groups);
+            }
+
+            return result;
+        }
+
+        public onDataChanged(options: VisualDataChangedOptions): void {
+            let dataView = options.dataViews && options.dataViews[0];
+            if (!dataView || !dataView.metadata)
+                return;
+
+            let objects = dataView.metadata.objects;
+            this.settings = {
+                columns: DataViewObjects.getValue<number>(objects, smallMultiplesProps.smallMultiples.columns),
+                sharedAxes: DataViewObjects.getValue(objects, smallMultiplesProps.smallMultiples.sharedAxes, true),
+                showTitles: DataViewObjects.getValue(objects, smallMultiplesProps.smallMultiples.showTitles, true),
+            };
+            this.legendObjectProperties = DataViewObjects.getObject(objects, 'legend', {});
+
+            this.panelData = dataView.categorical ? SmallMultiplesChart.splitDataView(dataView, this.settings.sharedAxes) : [];
+            this.updatePanels();
+            this.render(options.suppressAnimations, /* isDataChange */ true);
+        }
+
+        public onResizing(viewport: IViewport): void {
+            this.currentViewport = viewport;
+            this.render(/* suppressAnimations */ true, /* isDataChange */ false);
+        }
+
+        public onClearSelection(): void {
+            if (this.interactivityService)
+                this.interactivityService.clearSelection();
+        }
+
+        /**
+         * The formatting options of the panels are the options of the first panel, the legend and the small multiples options are shared.
+         */
+        public enumerateObjectInstances(options: EnumerateVisualObjectInstancesOptions): VisualObjectInstanceEnumeration {
+            let settings = this.settings;
+            if (!settings)
+                return;
+
+            switch (options.objectName) {
+                case 'smallMultiples':
+                    return [{
+                        objectName: 'smallMultiples',
+                        selector: null,
+                        properties: {
+                            columns: settings.columns,
+                            sharedAxes: settings.sharedAxes,
+                            showTitles: settings.showTitles,
+                        },
+                    }];
+                case 'legend':
+                    return this.enumerateLegend();
+            }
+
+            let firstPanel = _.first(this.panels);
+            if (firstPanel)
+                return firstPanel.chart.enumerateObjectInstances(options);
+        }
+
+        private enumerateLegend(): VisualObjectInstance[] {
+            let legendObjectProperties = this.legendObjectProperties;
+            let legendData = this.calculateLegend();
+
+            return [{
+                objectName: 'legend',
+                selector: null,
+                properties: {
+                    show: DataViewObject.getValue(legendObjectProperties, legendProps.show, true),
+                    position: DataViewObject.getValue(legendObjectProperties, legendProps.position, legendPosition.top),
+                    showTitle: DataViewObject.getValue(legendObjectProperties, legendProps.showTitle, true),
+                    titleText: DataViewObject.getValue(legendObjectProperties, legendProps.titleText, legendData.title),
+                    labelColor: DataViewObject.getValue(legendObjectProperties, legendProps.labelColor, LegendData.DefaultLegendLabelFillColor),
+                    fontSize: DataViewObject.getValue(legendObjectProperties, legendProps.fontSize, legendData.fontSize || SVGLegend.DefaultFontSizeInPt),
+                },
+            }];
+        }
+
+        /**
+         * Creates a panel for each part of the data and removes the panels left over, the charts of new panels are created once the panels are laid out.
+         */
+        private updatePanels(): void {
+            let panels = this.panels;
+            while (panels.length > this.panelData.length)
+                panels.pop().element.remove();
+
+            while (panels.length < this.panelData.length)
+                panels.push(this.createPanel());
+
+            for (let i = 0, len = panels.length; i < len; i++) {
+                let title = this.panelData[i].title;
+                panels[i].title
+                    .text(title)
+                    .attr('title', title);
+            }
+        }
+
+        private createPanel(): SmallMultiplesPanel {
+            let element = this.grid
+                .append('div')
+                .classed(SmallMultiplesChart.Panel.class, true);
+            let title = element
+                .append('div')
+                .classed(SmallMultiplesChart.PanelTitle.class, true);
+            let chartElement = element
+                .append('div')
+                .classed(SmallMultiplesChart.PanelChart.class, true);
+
+            return {
+                element: element,
+                title: title,
+                chartElement: chartElement,
+                viewport: { width: 0, height: 0 },
+            };
+        }
+
+        private createChart(panel: SmallMultiplesPanel): void {
+            let interactivityService: IInteractivityService;
+            if (this.interactivityService) {
+                interactivityService = new SmallMultiplesPanelInteractivityService(this.interactivityService, (binding: SmallMultiplesPanelBinding) => {
+                    panel.binding = binding;
+                    if (!this.isRendering)
+                        this.bindPanels();
+                });
+            }
+
+            panel.chart = new CartesianChart({
+                chartType: this.chartType,
+                behavior: this.createBehavior ? this.createBehavior() : undefined,
+                interactivityService: interactivityService,
+                tooltipsEnabled: this.tooltipsEnabled,
+                hideLegend: true,
+            });
+            panel.chart.init({
+                element: $(panel.chartElement.node()),
+                host: this.hostServices,
+                style: this.visualInitOptions.style,
+                viewport: panel.viewport,
+                animation: this.visualInitOptions.animation,
+            });
+            panel.renderedViewport = panel.viewport;
+        }
+
+        private render(suppressAnimations: boolean, isDataChange: boolean): void {
+            let panels = this.panels;
+            if (_.isEmpty(panels)) {
+                this.legend.drawLegend({ dataPoints: [] }, this.currentViewport);
+                return;
+            }
+
+            this.isRendering = true;
+
+            // The size of the shared legend is only known once the panels have their data, the panels are resized below when it changes.
+            this.layoutPanels();
+            for (let i = 0, len = panels.length; i < len; i++) {
+                let panel = panels[i];
+                if (!panel.chart)
+                    this.createChart(panel);
+
+                if (isDataChange) {
+                    panel.chart.setSharedDomainExtents(undefined, undefined);
+                    panel.chart.onDataChanged({ dataViews: [this.panelData[i].dataView], suppressAnimations: suppressAnimations });
+                }
+                else {
+                    this.resizePanel(panel);
+                }
+            }
+
+            this.renderLegend();
+            this.layoutPanels();
+            for (let panel of panels) {
+                if (panel.renderedViewport.width !== panel.viewport.width || panel.renderedViewport.height !== panel.viewport.height)
+                    this.resizePanel(panel);
+            }
+
+            // The domains are shared once the panels have their final size, the nice domain of an axis depends on its length.
+            if (isDataChange && this.settings.sharedAxes && this.shareAxisDomains()) {
+                for (let panel of panels)
+                    this.resizePanel(panel);
+            }
+
+            this.isRendering = false;
+            this.bindPanels();
+        }
+
+        private resizePanel(panel: SmallMultiplesPanel): void {
+            panel.chart.onResizing(panel.viewport);
+            panel.renderedViewport = panel.viewport;
+        }
+
+        /**
+         * Positions the panels in the grid.
+         */
+        private layoutPanels(): void {
+            let panels = this.panels;
+            let settings = this.settings;
+            let legendMargins = this.legend.getMargins();
+            let width = Math.max(this.currentViewport.width - legendMargins.width, 0);
+            let height = Math.max(this.currentViewport.height - legendMargins.height, 0);
+
+            this.grid.style({
+                'width': PixelConverter.toString(width),
+                'height': PixelConverter.toString(height),
+            });
+            Legend.positionChartArea(this.grid, this.legend);
+
+            let columnCount = settings.columns > 0 ? Math.min(Math.floor(settings.columns), panels.length) : Math.ceil(Math.sqrt(panels.length));
+            let rowCount = Math.ceil(panels.length / columnCount);
+            let panelWidth = width / columnCount;
+            let panelHeight = height / rowCount;
+            let titleHeight = settings.showTitles ? SmallMultiplesChart.TitleHeight : 0;
+
+            for (let i = 0, len = panels.length; i < len; i++) {
+                let panel = panels[i];
+                let column = i % columnCount;
+                if (this.isRightToLeft)
+                    column = columnCount - 1 - column;
+
+                panel.element.style({
+                    'left': PixelConverter.toString(column * panelWidth),
+                    'top': PixelConverter.toString(Math.floor(i / columnCount) * panelHeight),
+                    'width': PixelConverter.toString(panelWidth),
+                    'height': PixelConverter.toString(panelHeight),
+                });
+                panel.title.style({
+                    'display': settings.showTitles ? null : 'none',
+                    'height': PixelConverter.toString(titleHeight),
+                });
+                panel.chartElement.style('top', PixelConverter.toString(titleHeight));
+
+                panel.viewport = {
+                    width: Math.max(panelWidth - SmallMultiplesChart.PanelPadding, 0),
+                    height: Math.max(panelHeight - titleHeight - SmallMultiplesChart.PanelPadding, 0),
+                };
+            }
+        }
+
+        /**
+         * Extends the axes of every panel to the union of the axis domains of the panels, returns whether any panel has to change.
+         */
+        private shareAxisDomains(): boolean {
+            let panelDomains = _.map(this.panels, (panel: SmallMultiplesPanel) => panel.chart.getAxisDomains());
+            let union = (ranges: NumberRange[]): NumberRange => {
+                ranges = _.filter(ranges, (range: NumberRange) => range != null);
+                if (_.isEmpty(ranges))
+                    return;
+
+                return {
+                    min: d3.min(ranges, (range: NumberRange) => range.min),
+                    max: d3.max(ranges, (range: NumberRange) => range.max),
+                };
+            };
+            let xDomain = union(_.map(panelDomains, (domains: NumberRange[]) => domains[0]));
+            let yDomain = union(_.map(panelDomains, (domains: NumberRange[]) => domains[1]));
+            let differs = (range: NumberRange, shared: NumberRange) => range != null && (range.min !== shared.min || range.max !== shared.max);
+
+            let isDomainChanged = false;
+            for (let i = 0, len = this.panels.length; i < len; i++) {
+                this.panels[i].chart.setSharedDomainExtents(xDomain, yDomain);
+                if (differs(panelDomains[i][0], xDomain) || differs(panelDomains[i][1], yDomain))
+                    isDomainChanged = true;
+            }
+
+            return isDomainChanged;
+        }
+
+        /**
+         * The legend of the small multiples has the series of all the panels.
+         */
+        private calculateLegend(): LegendData {
+            let legendData: LegendData = { title: '', dataPoints: [] };
+            let labels: _.Dictionary<boolean> = {};
+
+            for (let panel of this.panels) {
+                let panelLegendData = panel.chart.calculateLegend();
+                if (!panelLegendData)
+                    continue;
+
+                legendData.title = legendData.title || panelLegendData.title;
+                legendData.labelColor = panelLegendData.labelColor;
+                legendData.fontSize = panelLegendData.fontSize;
+                legendData.highContrastColors = panelLegendData.highContrastColors;
+                if (panelLegendData.grouped)
+                    legendData.grouped = true;
+
+                for (let dataPoint of panelLegendData.dataPoints) {
+                    if (!labels[dataPoint.label]) {
+                        labels[dataPoint.label] = true;
+                        legendData.dataPoints.push(dataPoint);
+                    }
+                }
+            }
+
+            if (this.legendObjectProperties)
+                LegendData.update(legendData, this.legendObjectProperties);
+
+            return legendData;
+        }
+
+        private renderLegend(): void {
+            let legendData = this.calculateLegend();
+            let position = <string>this.legendObjectProperties[legendProps.position];
+            this.legend.changeOrientation(position ? LegendPosition[position] : LegendPosition.Top);
+
+            if (legendData.dataPoints.length === 1 && !legendData.grouped)
+                legendData.dataPoints = [];
+
+            this.legend.drawLegend(legendData, this.currentViewport);
+        }
+
+        private bindPanels(): void {
+            if (!this.interactivityService)
+                return;
+
+            let bindings = _.filter(_.map(this.panels, (panel: SmallMultiplesPanel) => panel.binding), (binding: SmallMultiplesPanelBinding) => binding != null);
+            let dataPoints = _.flatten<SelectableDataPoint>(_.map(bindings, (binding: SmallMultiplesPanelBinding) => binding.dataPoints));
+            let behaviorOptions: SmallMultiplesBehaviorOptions = {
+                panels: bindings,
+            };
+
+            this.interactivityService.bind(dataPoints, this.behavior, behaviorOptions);
+        }
+    }
+}
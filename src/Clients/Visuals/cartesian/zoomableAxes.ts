@@ -0,0 +1,379 @@
+/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved. 
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *   
+ *  The above copyright notice and this permission notice shall be included in 
+ *  all copies or substantial portions of the Software.
+ *   
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR 
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, 
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE 
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER 
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+/// <reference path="../_references.ts"/>
+
+module powerbi.visuals {
+    import createClassAndSelector = jsCommon.CssConstants.createClassAndSelector;
+
+    /**
+     * Keeps the zoom state of a scalar X axis: the full domain of the data, and the part of it that is shown.
+     */
+    export class ZoomableAxes {
+        /** The smallest domain span that can be zoomed to, as a ratio of the full domain span. */
+        public static MinZoomSpanRatio = 0.001;
+
+        private fullDomain: NumberRange;
+        private zoomedDomain: NumberRange;
+
+        public getFullDomain(): NumberRange {
+            return this.fullDomain;
+        }
+
+        /**
+         * Sets the domain of the unzoomed axis. The zoomed domain is clamped to it.
+         */
+        public setFullDomain(fullDomain: NumberRange): void {
+            this.fullDomain = fullDomain;
+            this.setZoomedDomain(this.zoomedDomain);
+        }
+
+        /**
+         * Gets the zoomed domain, or undefined when the axis is not zoomed.
+         */
+        public getZoomedDomain(): NumberRange {
+            return this.zoomedDomain;
+        }
+
+        /**
+         * Zooms to the given domain. The domain is moved inside the full domain and kept to at least the minimum span;
+         * a domain covering the whole full domain resets the zoom.
+         */
+        public setZoomedDomain(domain: NumberRange): void {
+            let fullDomain = this.fullDomain;
+            if (!domain || !fullDomain || !(fullDomain.max > fullDomain.min)) {
+                this.zoomedDomain = undefined;
+                return;
+            }
+
+            let min = Math.min(domain.min, domain.max);
+            let max = Math.max(domain.min, domain.max);
+            let minSpan = (fullDomain.max - fullDomain.min) * ZoomableAxes.MinZoomSpanRatio;
+            if (max - min < minSpan) {
+                let center = (min + max) / 2;
+                min = center - minSpan / 2;
+                max = center + minSpan / 2;
+            }
+
+            if (min < fullDomain.min) {
+                max += fullDomain.min - min;
+                min = fullDomain.min;
+            }
+            if (max > fullDomain.max) {
+                min = Math.max(fullDomain.min, min - (max - fullDomain.max));
+                max = fullDomain.max;
+            }
+
+            this.zoomedDomain = min <= fullDomain.min && max >= fullDomain.max ? undefined : { min: min, max: max };
+        }
+
+        public isZoomed(): boolean {
+            return this.zoomedDomain != null;
+        }
+
+        /**
+         * Zooms in (factor greater than 1) or out (factor less than 1), keeping the focus value at the same place on the axis.
+         * The focus defaults to the center of the shown domain.
+         */
+        public zoom(factor: number, focus?: number): void {
+            let domain = this.zoomedDomain || this.fullDomain;
+            if (!domain || !(factor > 0))
+                return;
+
+            if (focus == null)
+                focus = (domain.min + domain.max) / 2;
+
+            this.setZoomedDomain({
+                min: focus - (focus - domain.min) / factor,
+                max: focus + (domain.max - focus) / factor,
+            });
+        }
+
+        /**
+         * Moves the zoomed domain by the given distance in domain units.
+         */
+        public pan(distance: number): void {
+            let domain = this.zoomedDomain;
+            if (!domain)
+                return;
+
+            let span = domain.max - domain.min;
+            let fullDomain = this.fullDomain;
+            let min = Math.max(fullDomain.min, Math.min(domain.min + distance, fullDomain.max - span));
+            this.zoomedDomain = { min: min, max: min + span };
+        }
+
+        public reset(): void {
+            this.zoomedDomain = undefined;
+        }
+
+        /**
+         * Gets the range of category indices to render for the zoomed domain: the categories inside the domain,
+         * plus the nearest category on either side so that lines run to the edges of the plot area.
+         * Returns undefined when the category values are not ascending numbers or dates.
+         */
+        public static getCategoryIndexRange(categoryValues: any[], domain: NumberRange): ViewportDataRange {
+            debug.assertValue(domain, 'domain');
+
+            if (_.isEmpty(categoryValues))
+                return;
+
+            let startIndex = 0;
+            let endIndex: number;
+            let previousValue: number;
+            for (let i = 0, len = categoryValues.length; i < len; i++) {
+                let categoryValue = categoryValues[i];
+                if (categoryValue == null)
+                    continue;
+
+                let value: number = categoryValue instanceof Date ? categoryValue.getTime() : categoryValue;
+                if (typeof value !== 'number' || value < previousValue)
+                    return;
+                previousValue = value;
+
+                if (value < domain.min)
+                    startIndex = i;
+                else if (value > domain.max && endIndex == null)
+                    endIndex = i;
+            }
+
+            return {
+                startIndex: startIndex,
+                endIndex: endIndex != null ? endIndex : categoryValues.length - 1,
+            };
+        }
+    }
+
+    export interface ZoomControlsLayout {
+        /** The plot area, relative to the chart svg. */
+        plotArea: IRect;
+        /** The overview strip below the plot area, if it is shown. */
+        brushArea?: IRect;
+        /** The scale of the rendered X axis. */
+        xScale: D3.Scale.GenericScale<any>;
+    }
+
+    /**
+     * Renders the zoom controls of a zoomable X axis: mouse wheel and pinch zoom, drag to pan,
+     * the overview brush strip and the reset button.
+     */
+    export class SvgZoomControls {
+        public static BrushHeight = 24;
+        public static BrushTopPadding = 12;
+
+        private static ZoomBrush = createClassAndSelector('zoomBrush');
+        private static ZoomBrushBackground = createClassAndSelector('zoomBrushBackground');
+        private static ZoomReset = createClassAndSelector('zoomReset');
+        private static ResetButtonPadding = 4;
+        private static ResetButtonLabel = 'Visual_ResetZoom';
+        private static ResetButtonTextProperties: TextProperties = {
+            fontFamily: Font.Family.regular.css,
+            fontSize: jsCommon.PixelConverter.toString(11),
+        };
+
+        private svg: D3.Selection;
+        private zoomableAxes: ZoomableAxes;
+        private hostServices: IVisualHostServices;
+        private zoomBehavior: D3.Behavior.Zoom;
+        private brush: D3.Svg.Brush;
+        private onZoom: () => void;
+
+        constructor(zoomableAxes: ZoomableAxes) {
+            this.zoomableAxes = zoomableAxes;
+            this.zoomBehavior = d3.behavior.zoom().scaleExtent([1, 1 / ZoomableAxes.MinZoomSpanRatio]);
+            this.brush = d3.svg.brush();
+        }
+
+        /**
+         * Initializes the controls; onZoom is called whenever the zoomed domain changes and the chart should render again.
+         */
+        public init(svg: D3.Selection, hostServices: IVisualHostServices, onZoom: () => void): void {
+            this.svg = svg;
+            this.hostServices = hostServices;
+            this.onZoom = onZoom;
+        }
+
+        public render(layout: ZoomControlsLayout): void {
+            debug.assertValue(layout, 'layout');
+
+            let fullDomain = this.zoomableAxes.getFullDomain();
+            let plotArea = layout.plotArea;
+            if (!fullDomain || plotArea.width < 1 || plotArea.height < 1) {
+                this.remove();
+                return;
+            }
+
+            // The scale of the unzoomed axis, with the same range as the rendered axis.
+            let fullScale = <D3.Scale.LinearScale>layout.xScale.copy().domain([fullDomain.min, fullDomain.max]);
+
+            this.bindGestures(plotArea, fullScale);
+            this.renderBrush(layout.brushArea, fullScale);
+            this.renderResetButton(plotArea);
+        }
+
+        public remove(): void {
+            if (!this.svg)
+                return;
+
+            this.svg.on('.zoom', null);
+            this.svg.selectAll(SvgZoomControls.ZoomBrush.selector).remove();
+            this.svg.selectAll(SvgZoomControls.ZoomReset.selector).remove();
+        }
+
+        /**
+         * Binds the zoom behavior to the chart svg. The behavior works in svg coordinates: its scale and translation are synced
+         * with the zoomed domain, and its changes are turned back into a zoomed domain.
+         */
+        private bindGestures(plotArea: IRect, fullScale: D3.Scale.LinearScale): void {
+            let zoomableAxes = this.zoomableAxes;
+            let fullDomain = zoomableAxes.getFullDomain();
+            let zoomedDomain = zoomableAxes.getZoomedDomain() || fullDomain;
+
+            let start = fullScale(zoomedDomain.min);
+            let end = fullScale(zoomedDomain.max);
+            let scale = plotArea.width / Math.max(Math.abs(end - start), 1);
+            let translate = plotArea.left - scale * (plotArea.left + Math.min(start, end));
+
+            let zoomBehavior = this.zoomBehavior
+                .scale(scale)
+                .translate([translate, 0])
+                .on('zoom', () => {
+                    let currentScale = zoomBehavior.scale();
+                    let currentTranslate = zoomBehavior.translate()[0];
+                    let toAxisPosition = (x: number) => (x - currentTranslate) / currentScale - plotArea.left;
+                    let min = +fullScale.invert(toAxisPosition(plotArea.left));
+                    let max = +fullScale.invert(toAxisPosition(plotArea.left + plotArea.width));
+                    zoomableAxes.setZoomedDomain({ min: min, max: max });
+                    this.onZoom();
+                });
+
+            this.svg.call(zoomBehavior);
+
+            // Double click is left to selection.
+            this.svg.on('dblclick.zoom', null);
+        }
+
+        private renderBrush(brushArea: IRect, fullScale: D3.Scale.LinearScale): void {
+            if (!brushArea) {
+                this.svg.selectAll(SvgZoomControls.ZoomBrush.selector).remove();
+                return;
+            }
+
+            let zoomBrush = this.svg.select(SvgZoomControls.ZoomBrush.selector);
+            if (zoomBrush.empty()) {
+                zoomBrush = this.svg.append('g').classed(SvgZoomControls.ZoomBrush.class, true);
+                zoomBrush.append('rect').classed(SvgZoomControls.ZoomBrushBackground.class, true);
+            }
+
+            zoomBrush.attr('transform', SVGUtil.translate(brushArea.left, brushArea.top));
+            zoomBrush.select(SvgZoomControls.ZoomBrushBackground.selector).attr({
+                width: brushArea.width,
+                height: brushArea.height,
+            });
+
+            // Zoom gestures over the strip would fight with the brush.
+            zoomBrush.on('mousedown.zoom', () => d3.event.stopPropagation());
+
+            let zoomableAxes = this.zoomableAxes;
+            let zoomedDomain = zoomableAxes.getZoomedDomain();
+            let brush = this.brush
+                .x(fullScale)
+                .on('brush', () => {
+                    if (brush.empty()) {
+                        zoomableAxes.reset();
+                    }
+                    else {
+                        let extent = brush.extent();
+                        zoomableAxes.setZoomedDomain({ min: +extent[0], max: +extent[1] });
+                    }
+                    this.onZoom();
+                });
+
+            if (zoomedDomain)
+                brush.extent([zoomedDomain.min, zoomedDomain.max]);
+            else
+                brush.clear();
+
+            zoomBrush.call(brush);
+            zoomBrush.selectAll('rect').attr('height', brushArea.height);
+        }
+
+        private renderResetButton(plotArea: IRect): void {
+            let zoomReset = this.svg.select(SvgZoomControls.ZoomReset.selector);
+            if (!this.zoomableAxes.isZoomed()) {
+                zoomReset.remove();
+                return;
+            }
+
+            let label = this.hostServices.getLocalizedString(SvgZoomControls.ResetButtonLabel);
+            let textProperties: TextProperties = {
+                text: label,
+                fontFamily: SvgZoomControls.ResetButtonTextProperties.fontFamily,
+                fontSize: SvgZoomControls.ResetButtonTextProperties.fontSize,
+            };
+            let padding = SvgZoomControls.ResetButtonPadding;
+            let width = TextMeasurementService.measureSvgTextWidth(textProperties) + padding * 2;
+            let height = TextMeasurementService.estimateSvgTextHeight(textProperties) + padding * 2;
+
+            if (zoomReset.empty()) {
+                zoomReset = this.svg.append('g')
+                    .classed(SvgZoomControls.ZoomReset.class, true)
+                    .attr('role', 'button');
+                zoomReset.append('rect');
+                zoomReset.append('text');
+            }
+
+            zoomReset
+                .attr('transform', SVGUtil.translate(plotArea.left + plotArea.width - width - padding, plotArea.top + padding))
+                .on('mousedown.zoom', () => d3.event.stopPropagation())
+                .on('click', () => {
+                    d3.event.stopPropagation();
+                    this.zoomableAxes.reset();
+                    this.onZoom();
+                });
+
+            zoomReset.select('rect').attr({
+                width: width,
+                height: height,
+                rx: padding,
+                ry: padding,
+            });
+
+            zoomReset.select('text')
+                .text(label)
+                .attr({
+                    x: width / 2,
+                    y: height / 2,
+                    dy: '0.35em',
+                    'text-anchor': 'middle',
+                })
+                .style({
+                    'font-family': textProperties.fontFamily,
+                    'font-size': textProperties.fontSize,
+                });
+        }
+    }
+}
@@ -104,6 +104,10 @@ module powerbi.visuals {
          * (optional) The D3 graphics context for this axis
          */
         graphicsContext?: D3.Selection;
+        /**
+         * (optional) Whether the horizontal scale runs from right to left.
+         */
+        isMirrored?: boolean;
     }
 
     export interface IMargin {
@@ -181,6 +185,8 @@ module powerbi.visuals {
         is100Pct?: boolean;
         /** (optional) sets clamping on the D3 scale, useful for drawing column chart rectangles as it simplifies the math during layout */
         shouldClamp?: boolean;
+        /** (optional) for a horizontal axis, runs the scale from right to left (e.g. for right-to-left locales) */
+        isMirrored?: boolean;
     }
 
     export interface CreateScaleResult {
@@ -486,6 +492,11 @@ module powerbi.visuals {
                 let xScale = xAxisProperties.scale;
                 let xDomain = xScale.domain();
                 if (renderXAxis && xLabels.length > 0) {
+                    // the labels are laid out from right to left on a mirrored axis
+                    let isMirrored = !!xAxisProperties.isMirrored;
+                    let leftmostLabelIndex = isMirrored ? xLabels.length - 1 : 0;
+                    let leftDomainValue = xDomain[isMirrored ? 1 : 0];
+                    let rightDomainValue = xDomain[isMirrored ? 0 : 1];
                     for (let i = 0, len = xLabels.length; i < len; i++) {
                         // find the max height of the x-labels, perhaps rotated or wrapped
                         let height: number;
@@ -508,7 +519,7 @@ module powerbi.visuals {
 
                         // calculate left and right overflow due to wide X labels
                         // (Note: no right overflow when rotated)
-                        if (i === 0) {
+                        if (i === leftmostLabelIndex) {
                             if (scaleIsOrdinal) {
                                 if (!xAxisProperties.willLabelsFit /*rotated text*/)
                                     leftOverflow = width - ordinalLabelOffset - xLabelOuterPadding;
@@ -518,12 +529,12 @@ module powerbi.visuals {
                             }
                             else if (xDomain.length > 1) {
                                 // Scalar - do some math
-                                let xPos = xScale(xDomain[0]);
+                                let xPos = xScale(leftDomainValue);
                                 // xPos already incorporates xLabelOuterPadding, don't subtract it twice
                                 leftOverflow = (width / 2) - xPos;
                                 leftOverflow = Math.max(leftOverflow, 0);
                             }
-                        } else if (i === len - 1) {
+                        } else if (i === len - 1 - leftmostLabelIndex) {
                             if (scaleIsOrdinal) {
                                 // if we are rotating text (!willLabelsFit) there won't be any right overflow
                                 if (xAxisProperties.willLabelsFit || xAxisProperties.willLabelsWordBreak) {
@@ -534,7 +545,7 @@ module powerbi.visuals {
                             }
                             else if (xDomain.length > 1) {
                                 // Scalar - do some math
-                                let xPos = xScale(xDomain[1]);
+                                let xPos = xScale(rightDomainValue);
                                 // xPos already incorporates xLabelOuterPadding, don't subtract it twice
                                 rightOverflow = (width / 2) - (viewport.width - xPos);
                                 rightOverflow = Math.max(rightOverflow, 0);
@@ -612,12 +623,18 @@ module powerbi.visuals {
             if (leftEdges.length < 2)
                 return 0;
 
-            let width = scale.rangeBand();
-            let halfInnerPadding = (leftEdges[1] - leftEdges[0] - width) / 2;
-
             let range = scale.range();
             let domain = scale.domain();
 
+            // A mirrored scale has its bands from right to left, search them in ascending order instead.
+            if (leftEdges[0] > leftEdges[1]) {
+                leftEdges = range = range.slice().reverse();
+                domain = domain.slice().reverse();
+            }
+
+            let width = scale.rangeBand();
+            let halfInnerPadding = (leftEdges[1] - leftEdges[0] - width) / 2;
+
             // If x is less than the range, just return the 1st item in the domain
             if (range[0] > x) {
                 return domain[0];
@@ -816,6 +833,7 @@ module powerbi.visuals {
                 usingDefaultDomain: scaleResult.usingDefaultDomain,
                 isLogScaleAllowed: isLogScaleAllowed,
                 dataDomain: dataDomain,
+                isMirrored: !!options.isMirrored && !isVertical,
             };
         }
 
@@ -838,6 +856,7 @@ module powerbi.visuals {
                 outerPadding = options.outerPadding || 0,
                 isScalar = !!options.isScalar,
                 isVertical = !!options.isVertical,
+                isMirrored = !!options.isMirrored && !isVertical,
                 forcedTickCount = options.forcedTickCount,
                 categoryThickness = options.categoryThickness,
                 shouldClamp = !!options.shouldClamp,
@@ -864,7 +883,7 @@ module powerbi.visuals {
                     dataDomain = [];
 
                 if (isOrdinal(dataType)) {
-                    scale = createOrdinalScale(pixelSpan, dataDomain, categoryThickness ? outerPadding / categoryThickness : 0);
+                    scale = createOrdinalScale(pixelSpan, dataDomain, categoryThickness ? outerPadding / categoryThickness : 0, isMirrored);
                 }
                 else {
                     scale = createNumericalScale(options.scaleType, pixelSpan, dataDomain, dataType, outerPadding, bestTickCount);
@@ -891,7 +910,7 @@ module powerbi.visuals {
                     scale = createLinearScale(pixelSpan, scalarDomain, outerPadding, null, shouldClamp); // DO NOT PASS TICKCOUNT
                 }
                 else if (dataType.text || dataType.dateTime || dataType.numeric || dataType.bool) {
-                    scale = createOrdinalScale(pixelSpan, scalarDomain, categoryThickness ? outerPadding / categoryThickness : 0);
+                    scale = createOrdinalScale(pixelSpan, scalarDomain, categoryThickness ? outerPadding / categoryThickness : 0, isMirrored);
                     bestTickCount = maxTicks === 0 ? 0
                         : Math.min(
                             scalarDomain.length,
@@ -907,6 +926,11 @@ module powerbi.visuals {
                 scale.range(scale.range().reverse());
             }
 
+            // the ordinal scale is mirrored through its bands
+            if (isMirrored && !isOrdinalScale(scale)) {
+                scale.range(scale.range().reverse());
+            }
+
             ColumnUtil.normalizeInfinityInScale(scale);
 
             return {
@@ -1265,6 +1289,9 @@ module powerbi.visuals {
                     textProperties.text = labelText;
                     if (needRotate) {
                         let textContentIndex = axisProperties.values.indexOf(this.textContent);
+                        // The allowed length is the space left of the category, where the first category is rightmost on a mirrored axis.
+                        if (axisProperties.isMirrored)
+                            textContentIndex = axisProperties.values.length - 1 - textContentIndex;
                         let allowedLengthProjectedOnXAxis =
                             // Left margin is the width of Y axis.
                             margin.left
@@ -1339,11 +1366,11 @@ module powerbi.visuals {
             }
         }
 
-        export function createOrdinalScale(pixelSpan: number, dataDomain: any[], outerPaddingRatio: number = 0): D3.Scale.OrdinalScale {
+        export function createOrdinalScale(pixelSpan: number, dataDomain: any[], outerPaddingRatio: number = 0, isMirrored: boolean = false): D3.Scale.OrdinalScale {
             debug.assert(outerPaddingRatio >= 0 && outerPaddingRatio < 4, 'outerPaddingRatio should be a value between zero and four');
             let scale = d3.scale.ordinal()
             /* Avoid using rangeRoundBands here as it is adding some extra padding to the axis*/
-                .rangeBands([0, pixelSpan], CartesianChart.InnerPaddingRatio, outerPaddingRatio)
+                .rangeBands(isMirrored ? [pixelSpan, 0] : [0, pixelSpan], CartesianChart.InnerPaddingRatio, outerPaddingRatio)
                 .domain(dataDomain);
             return scale;
         }
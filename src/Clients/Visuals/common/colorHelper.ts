@@ -34,12 +34,18 @@ module powerbi.visuals {
         private defaultDataPointColor: string;
         private colors: IDataColorPalette;
         private defaultColorScale: IColorScale;
+        private highContrastColors: HighContrastColors;
 
-        constructor(colors: IDataColorPalette, fillProp?: DataViewObjectPropertyIdentifier, defaultDataPointColor?: string) {
+        /**
+         * In high contrast mode (highContrastColors specified) every color is the foreground color,
+         * including the colors explicitly set on the data points.
+         */
+        constructor(colors: IDataColorPalette, fillProp?: DataViewObjectPropertyIdentifier, defaultDataPointColor?: string, highContrastColors?: HighContrastColors) {
             this.colors = colors;
             this.fillProp = fillProp;
             this.defaultDataPointColor = defaultDataPointColor;
             this.defaultColorScale = colors.getNewColorScale();
+            this.highContrastColors = highContrastColors;
         }
 
         /**
@@ -48,6 +54,12 @@ module powerbi.visuals {
          * allocated from the color scale for this series.
          */
         public getColorForSeriesValue(objects: DataViewObjects, fieldIds: powerbi.data.ISQExpr[], value: PrimitiveValue): string {
+            if (this.highContrastColors) {
+                // Allocate the color anyway, so that the colors are stable when leaving high contrast mode.
+                this.getColorScaleForSeries(fieldIds).getColor(value);
+                return this.highContrastColors.foreground;
+            }
+
             return (this.fillProp && DataViewObjects.getFillColor(objects, this.fillProp))
                 || this.defaultDataPointColor
                 || this.getColorScaleForSeries(fieldIds).getColor(value).value;
@@ -67,6 +79,9 @@ module powerbi.visuals {
             // Note, this allocates the color from the scale regardless of if we use it or not which helps keep colors stable.
             let scaleColor = this.defaultColorScale.getColor(measureKey).value;
 
+            if (this.highContrastColors)
+                return this.highContrastColors.foreground;
+
             return (this.fillProp && DataViewObjects.getFillColor(objects, this.fillProp))
                 || this.defaultDataPointColor
                 || scaleColor;
@@ -133,7 +133,8 @@ module powerbi.visuals {
             axisScaleType?: string,
             axisDisplayUnits?: number,
             axisPrecision?: number,
-            ensureXDomain?: NumberRange): IAxisProperties {
+            ensureXDomain?: NumberRange,
+            isMirrored?: boolean): IAxisProperties {
 
             let categoryThickness = layout.categoryThickness;
             let isScalar = layout.isScalar;
@@ -154,7 +155,8 @@ module powerbi.visuals {
                 getValueFn: (index, type) => CartesianHelper.lookupXValue(data, index, type, isScalar),
                 scaleType: axisScaleType,
                 axisDisplayUnits: axisDisplayUnits,
-                axisPrecision: axisPrecision
+                axisPrecision: axisPrecision,
+                isMirrored: isMirrored,
             });
 
             // intentionally updating the input layout by ref
@@ -0,0 +1,243 @@
+/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved. 
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *   
+ *  The above copyright notice and this permission notice shall be included in 
+ *  all copies or substantial portions of the Software.
+ *   
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR 
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, 
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE 
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER 
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+/// <reference path="../_references.ts"/>
+
+module powerbi.visuals {
+    import createClassAndSelector = jsCommon.CssConstants.createClassAndSelector;
+
+    export const enum DragSelectionMode {
+        /** Dragging doesn't select data points. */
+        None,
+        /** Dragging selects the data points in the rectangle from the start to the end of the drag. */
+        Rectangle,
+        /** Dragging selects the data points in the freehand shape drawn by the pointer. */
+        Lasso,
+    }
+
+    export interface DataPointDragSelectorOptions {
+        /** The svg element the data points are rendered in; the gestures start on its background. */
+        container: D3.Selection;
+
+        /** The rendered data points, circles or rects bound to their selectable data points. */
+        dataPoints: D3.Selection;
+
+        /**
+         * Gets the data points inside the shape, for charts that don't render an element for each data point.
+         * By default the data points of the rendered elements are hit-tested.
+         */
+        hitTest?(shape: IPoint[]): SelectableDataPoint[];
+    }
+
+    /**
+     * Rectangle and lasso selection of the data points of a chart. Dragging on the background of the container draws
+     * the shape, and the data points whose elements have their center inside it are selected at once; holding ctrl
+     * adds them to the current selection. Clicking the background without dragging clears the selection.
+     */
+    export class DataPointDragSelector {
+        private static Background = createClassAndSelector('dragSelectionBackground');
+        private static Shape = createClassAndSelector('dragSelection');
+
+        /** Shapes narrower or shorter than this many pixels are treated as clicks. */
+        private static MinShapeSize = 3;
+
+        private mode: DragSelectionMode;
+        private options: DataPointDragSelectorOptions;
+        private selectionHandler: ISelectionHandler;
+        private drag: D3.Behavior.Drag;
+        private points: IPoint[];
+        private multiSelect: boolean;
+
+        constructor(mode: DragSelectionMode = DragSelectionMode.None) {
+            this.mode = mode;
+            this.drag = d3.behavior.drag()
+                .on('dragstart', () => this.onDragStart())
+                .on('drag', () => this.onDrag())
+                .on('dragend', () => this.onDragEnd());
+        }
+
+        public getMode(): DragSelectionMode {
+            return this.mode;
+        }
+
+        public setMode(mode: DragSelectionMode): void {
+            this.mode = mode;
+
+            if (this.options)
+                this.bind(this.options, this.selectionHandler);
+        }
+
+        public bind(options: DataPointDragSelectorOptions, selectionHandler: ISelectionHandler): void {
+            debug.assertValue(options, 'options');
+            debug.assertValue(options.container, 'options.container');
+
+            this.options = options;
+            this.selectionHandler = selectionHandler;
+
+            let container = options.container;
+            let background = container.select(DataPointDragSelector.Background.selector);
+            if (this.mode === DragSelectionMode.None || !DataPointDragSelector.canSelect(selectionHandler)) {
+                background.remove();
+                container.selectAll(DataPointDragSelector.Shape.selector).remove();
+                return;
+            }
+
+            if (background.empty()) {
+                background = container.insert('rect', ':first-child')
+                    .classed(DataPointDragSelector.Background.class, true);
+            }
+
+            // The background has no data point, so its events are kept from the handlers of the data points.
+            background
+                .attr({
+                    width: '100%',
+                    height: '100%',
+                })
+                .on('click', () => {
+                    d3.event.stopPropagation();
+                    if (!d3.event.ctrlKey)
+                        this.selectionHandler.handleClearSelection();
+                })
+                .on('mouseover', () => d3.event.stopPropagation())
+                .on('mousemove', () => d3.event.stopPropagation())
+                .call(this.drag);
+        }
+
+        /**
+         * Selects the data points whose elements have their center inside the shape, a polygon in the coordinates of the container.
+         */
+        public selectInShape(shape: IPoint[], multiSelect: boolean): void {
+            if (!DataPointDragSelector.canSelect(this.selectionHandler))
+                return;
+
+            let dataPoints = this.options.hitTest
+                ? this.options.hitTest(shape)
+                : DataPointDragSelector.hitTest(this.options.dataPoints, shape);
+            this.selectionHandler.handleMultiSelection(dataPoints, multiSelect);
+        }
+
+        private static canSelect(selectionHandler: ISelectionHandler): boolean {
+            return !!selectionHandler && !!selectionHandler.handleMultiSelection;
+        }
+
+        /**
+         * Gets the data points of the elements whose center is inside the polygon.
+         */
+        public static hitTest(elements: D3.Selection, polygon: IPoint[]): SelectableDataPoint[] {
+            let dataPoints: SelectableDataPoint[] = [];
+            elements.each(function (dataPoint: SelectableDataPoint) {
+                let center = DataPointDragSelector.getCenter(this);
+                if (dataPoint && center && DataPointDragSelector.isInsidePolygon(center, polygon))
+                    dataPoints.push(dataPoint);
+            });
+
+            return dataPoints;
+        }
+
+        /**
+         * Checks whether the point is inside the polygon, by counting the edges crossed by a ray from the point.
+         */
+        public static isInsidePolygon(point: IPoint, polygon: IPoint[]): boolean {
+            let isInside = false;
+            for (let i = 0, j = polygon.length - 1, len = polygon.length; i < len; j = i++) {
+                let a = polygon[i];
+                let b = polygon[j];
+                if ((a.y > point.y) !== (b.y > point.y)
+                    && point.x < (b.x - a.x) * (point.y - a.y) / (b.y - a.y) + a.x)
+                    isInside = !isInside;
+            }
+
+            return isInside;
+        }
+
+        private static getCenter(element: Element): IPoint {
+            let selection = d3.select(element);
+            let getNumber = (name: string) => parseFloat(selection.attr(name)) || 0;
+
+            switch (element.tagName.toLowerCase()) {
+                case 'circle':
+                    return { x: getNumber('cx'), y: getNumber('cy') };
+                case 'rect':
+                    return { x: getNumber('x') + getNumber('width') / 2, y: getNumber('y') + getNumber('height') / 2 };
+            }
+        }
+
+        private getPointer(): IPoint {
+            let pointer = d3.mouse(this.options.container.node());
+            return { x: pointer[0], y: pointer[1] };
+        }
+
+        private getShape(): IPoint[] {
+            let points = this.points;
+            if (this.mode === DragSelectionMode.Lasso)
+                return points;
+
+            let start = _.first(points);
+            let end = _.last(points);
+            return [start, { x: end.x, y: start.y }, end, { x: start.x, y: end.y }];
+        }
+
+        private onDragStart(): void {
+            let sourceEvent = d3.event.sourceEvent;
+
+            // The drag selects rather than pans a zoomable chart.
+            sourceEvent.stopPropagation();
+
+            this.multiSelect = sourceEvent.ctrlKey;
+            this.points = [this.getPointer()];
+        }
+
+        private onDrag(): void {
+            let points = this.points;
+            let point = { x: d3.event.x, y: d3.event.y };
+            if (this.mode === DragSelectionMode.Lasso)
+                points.push(point);
+            else
+                points[1] = point;
+
+            let shape = this.options.container.select(DataPointDragSelector.Shape.selector);
+            if (shape.empty()) {
+                shape = this.options.container.append('path')
+                    .classed(DataPointDragSelector.Shape.class, true);
+            }
+
+            shape.attr('d', 'M' + _.map(this.getShape(), (p: IPoint) => p.x + ',' + p.y).join('L') + 'Z');
+        }
+
+        private onDragEnd(): void {
+            this.options.container.selectAll(DataPointDragSelector.Shape.selector).remove();
+
+            let shape = this.getShape();
+            let xs = _.map(shape, (p: IPoint) => p.x);
+            let ys = _.map(shape, (p: IPoint) => p.y);
+            let minSize = DataPointDragSelector.MinShapeSize;
+            if (_.max(xs) - _.min(xs) < minSize && _.max(ys) - _.min(ys) < minSize)
+                return;
+
+            this.selectInShape(shape, this.multiSelect);
+        }
+    }
+}
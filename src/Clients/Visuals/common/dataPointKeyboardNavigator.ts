@@ -0,0 +1,253 @@
+/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved. 
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *   
+ *  The above copyright notice and this permission notice shall be included in 
+ *  all copies or substantial portions of the Software.
+ *   
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR 
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, 
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE 
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER 
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+/// <reference path="../_references.ts"/>
+
+module powerbi.visuals {
+    import DOMConstants = jsCommon.DOMConstants;
+
+    export interface KeyboardNavigableDataPoint extends SelectableDataPoint, TooltipEnabledDataPoint {
+    }
+
+    export interface DataPointKeyboardNavigatorOptions {
+        /** The element of the chart that gets the keyboard focus and the key events. */
+        container: D3.Selection;
+
+        /** The data points of each series, in the order of their categories. */
+        series: KeyboardNavigableDataPoint[][];
+
+        /**
+         * Shows which data point has the focus, or hides the indicator when the data point is undefined.
+         * Returns the element rendering the focused data point, which gets its screen-reader label.
+         */
+        showFocus(dataPoint: KeyboardNavigableDataPoint): Element;
+
+        /**
+         * Gets the category of a data point, so moving to another series keeps the same category.
+         * When not specified, the data point at the same position in the other series is used.
+         */
+        getCategoryIndex?(dataPoint: KeyboardNavigableDataPoint): number;
+
+        /** The screen-reader label of the chart. */
+        label?: string;
+    }
+
+    /**
+     * Keyboard traversal of the data points of a chart: the left and right arrows (and home/end) move across
+     * the categories of a series, the up and down arrows move across the series. Enter or space selects the
+     * focused data point, escape clears the selection.
+     * The container is a listbox whose active descendant is the element of the focused data point, labeled
+     * from the tooltip of the data point. The focus is only shown after keyboard input, not when the chart is clicked.
+     */
+    export class DataPointKeyboardNavigator {
+        public static FocusedClassName = 'keyboardFocus';
+
+        private static IdPrefix = 'dataPoint';
+
+        private options: DataPointKeyboardNavigatorOptions;
+        private selectionHandler: ISelectionHandler;
+        private seriesIndex: number;
+        private pointIndex: number;
+        private hasFocus: boolean;
+        private isKeyboardInput: boolean;
+
+        constructor() {
+            this.seriesIndex = 0;
+            this.pointIndex = 0;
+            this.hasFocus = false;
+            this.isKeyboardInput = true;
+        }
+
+        public bind(options: DataPointKeyboardNavigatorOptions, selectionHandler: ISelectionHandler): void {
+            debug.assertValue(options, 'options');
+            debug.assertValue(options.container, 'options.container');
+
+            this.options = options;
+            this.selectionHandler = selectionHandler;
+
+            let series = this.getSeries();
+            this.seriesIndex = Math.max(Math.min(this.seriesIndex, series.length - 1), 0);
+            this.pointIndex = Math.max(Math.min(this.pointIndex, this.getPointCount(this.seriesIndex) - 1), 0);
+
+            options.container
+                .attr({
+                    'tabindex': 0,
+                    'role': 'listbox',
+                    'aria-multiselectable': 'true',
+                    'aria-label': options.label,
+                    'focusable': 'true',
+                })
+                .on('focus.dataPointKeyboardNavigator', () => {
+                    this.hasFocus = true;
+                    this.updateFocus();
+                })
+                .on('blur.dataPointKeyboardNavigator', () => {
+                    this.hasFocus = false;
+                    // The next focus may come from the tab key
+                    this.isKeyboardInput = true;
+                    this.updateFocus();
+                })
+                .on('mousedown.dataPointKeyboardNavigator', () => {
+                    // Happens before the focus
+                    this.isKeyboardInput = false;
+                    this.updateFocus();
+                })
+                .on('keydown.dataPointKeyboardNavigator', () => this.onKeyDown(d3.event));
+
+            // The data points are rendered again, so the indicator is restored on the new elements
+            if (this.hasFocus)
+                this.updateFocus();
+        }
+
+        /**
+         * Updates the selection state of the focused data point, after the selection changed.
+         */
+        public renderSelection(): void {
+            if (this.hasFocus)
+                this.updateFocus();
+        }
+
+        public getFocusedDataPoint(): KeyboardNavigableDataPoint {
+            let series = this.getSeries()[this.seriesIndex];
+            return series ? series[this.pointIndex] : undefined;
+        }
+
+        /**
+         * Builds the screen-reader label of a data point from the items of its tooltip.
+         */
+        public static getLabel(dataPoint: KeyboardNavigableDataPoint): string {
+            if (!dataPoint || _.isEmpty(dataPoint.tooltipInfo))
+                return;
+
+            return _.map(dataPoint.tooltipInfo, (item) => item.displayName + ' ' + item.value).join(', ');
+        }
+
+        private onKeyDown(e: D3.D3Event): void {
+            if (!this.isKeyboardInput) {
+                this.isKeyboardInput = true;
+                this.updateFocus();
+            }
+
+            switch (e.keyCode) {
+                case DOMConstants.leftArrowKeyCode:
+                    this.moveTo(this.seriesIndex, this.pointIndex - 1);
+                    break;
+                case DOMConstants.rightArrowKeyCode:
+                    this.moveTo(this.seriesIndex, this.pointIndex + 1);
+                    break;
+                case DOMConstants.homeKeyCode:
+                    this.moveTo(this.seriesIndex, 0);
+                    break;
+                case DOMConstants.endKeyCode:
+                    this.moveTo(this.seriesIndex, this.getPointCount(this.seriesIndex) - 1);
+                    break;
+                case DOMConstants.upArrowKeyCode:
+                    this.moveToSeries(this.seriesIndex - 1);
+                    break;
+                case DOMConstants.downArrowKeyCode:
+                    this.moveToSeries(this.seriesIndex + 1);
+                    break;
+                case DOMConstants.enterKeyCode:
+                case DOMConstants.spaceKeyCode:
+                    let dataPoint = this.getFocusedDataPoint();
+                    if (dataPoint && this.selectionHandler) {
+                        this.selectionHandler.handleSelection(dataPoint, e.ctrlKey);
+                        this.updateFocus();
+                    }
+                    break;
+                case DOMConstants.escKeyCode:
+                    if (this.selectionHandler) {
+                        this.selectionHandler.handleClearSelection();
+                        this.updateFocus();
+                    }
+                    break;
+                default:
+                    return;
+            }
+
+            // Keeps the arrows and space from scrolling the page
+            e.preventDefault();
+        }
+
+        private moveTo(seriesIndex: number, pointIndex: number): void {
+            if (pointIndex < 0 || pointIndex >= this.getPointCount(seriesIndex))
+                return;
+
+            this.seriesIndex = seriesIndex;
+            this.pointIndex = pointIndex;
+            this.updateFocus();
+        }
+
+        private moveToSeries(seriesIndex: number): void {
+            let series = this.getSeries();
+            if (seriesIndex < 0 || seriesIndex >= series.length || _.isEmpty(series[seriesIndex]))
+                return;
+
+            let pointIndex = Math.min(this.pointIndex, series[seriesIndex].length - 1);
+
+            let getCategoryIndex = this.options.getCategoryIndex;
+            let dataPoint = this.getFocusedDataPoint();
+            if (getCategoryIndex && dataPoint) {
+                // The closest category, as series may not have data points in every category
+                let categoryIndex = getCategoryIndex(dataPoint);
+                let closestPoint = _.min(series[seriesIndex], (point) => Math.abs(getCategoryIndex(point) - categoryIndex));
+                pointIndex = _.indexOf(series[seriesIndex], closestPoint);
+            }
+
+            this.moveTo(seriesIndex, pointIndex);
+        }
+
+        private updateFocus(): void {
+            let container = this.options.container;
+            let dataPoint = this.hasFocus && this.isKeyboardInput ? this.getFocusedDataPoint() : undefined;
+            let element = this.options.showFocus(dataPoint);
+
+            if (!dataPoint || !element) {
+                container.attr('aria-activedescendant', null);
+                return;
+            }
+
+            if (!element.id)
+                element.id = _.uniqueId(DataPointKeyboardNavigator.IdPrefix);
+
+            d3.select(element).attr({
+                'role': 'option',
+                'aria-label': DataPointKeyboardNavigator.getLabel(dataPoint),
+                'aria-selected': dataPoint.selected ? 'true' : 'false',
+            });
+            container.attr('aria-activedescendant', element.id);
+        }
+
+        private getSeries(): KeyboardNavigableDataPoint[][] {
+            return this.options && this.options.series ? this.options.series : [];
+        }
+
+        private getPointCount(seriesIndex: number): number {
+            let series = this.getSeries()[seriesIndex];
+            return series ? series.length : 0;
+        }
+    }
+}
@@ -0,0 +1,160 @@
+/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved. 
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *   
+ *  The above copyright notice and this permission notice shall be included in 
+ *  all copies or substantial portions of the Software.
+ *   
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR 
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, 
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE 
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER 
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+/// <reference path="../_references.ts"/>
+
+module powerbi.visuals {
+    /**
+     * Client-side reduction of dense series to the points that can be told apart once rendered.
+     * The reduced series are made of the original points, so their exact values are kept for tooltips and selection.
+     */
+    export module DownsamplingHelper {
+        /**
+         * Downsamples a line to about the given number of points with Largest-Triangle-Three-Buckets, which keeps the points that
+         * shape the line. Points without a Y value are kept as gaps and split the line into segments, each downsampled on its own.
+         * Points must be ordered by X.
+         */
+        export function largestTriangleThreeBuckets<T>(points: T[], threshold: number, getX: (point: T) => number, getY: (point: T) => number): T[] {
+            debug.assertValue(points, 'points');
+
+            let isDefined = (point: T) => isFinite(getY(point)) && getY(point) !== null;
+            let definedCount = _.filter(points, isDefined).length;
+            if (definedCount <= threshold)
+                return points;
+
+            let downsampled: T[] = [];
+            let segment: T[] = [];
+            let addSegment = () => {
+                let segmentThreshold = Math.round(threshold * segment.length / definedCount);
+                for (let point of downsampleSegment(segment, segmentThreshold, getX, getY))
+                    downsampled.push(point);
+                segment = [];
+            };
+
+            for (let point of points) {
+                if (isDefined(point)) {
+                    segment.push(point);
+                }
+                else {
+                    addSegment();
+                    downsampled.push(point);
+                }
+            }
+            addSegment();
+
+            return downsampled;
+        }
+
+        /**
+         * Aggregates the points that fall in the same cell of a grid into the first of them, for points drawn on top of each other.
+         * Points in different groups are never aggregated together. Points whose position is outside the bounds are left out.
+         */
+        export function aggregateByGrid<T>(points: T[], cellSize: number, getPosition: (point: T) => IPoint, bounds: IRect, getGroupKey?: (point: T) => string): T[] {
+            debug.assertValue(points, 'points');
+            debug.assert(cellSize > 0, 'cellSize must be positive');
+
+            let cells: { [key: string]: boolean } = {};
+            let aggregated: T[] = [];
+            for (let point of points) {
+                let position = getPosition(point);
+                if (!(position.x >= bounds.left && position.x <= bounds.left + bounds.width && position.y >= bounds.top && position.y <= bounds.top + bounds.height))
+                    continue;
+
+                let key = Math.floor((position.x - bounds.left) / cellSize) + ',' + Math.floor((position.y - bounds.top) / cellSize);
+                if (getGroupKey)
+                    key += ',' + getGroupKey(point);
+
+                if (!cells[key]) {
+                    cells[key] = true;
+                    aggregated.push(point);
+                }
+            }
+
+            return aggregated;
+        }
+
+        /**
+         * Gets the points within the domain, with the nearest point on each side of it so that lines run up to its edges.
+         * Points must be ordered by X.
+         */
+        export function filterToDomain<T>(points: T[], domain: number[], getX: (point: T) => number): T[] {
+            debug.assertValue(points, 'points');
+
+            let min = _.min(domain);
+            let max = _.max(domain);
+            let startIndex = _.findIndex(points, (point: T) => getX(point) >= min);
+            if (startIndex < 0)
+                startIndex = points.length;
+            let endIndex = _.findLastIndex(points, (point: T) => getX(point) <= max);
+
+            return points.slice(Math.max(startIndex - 1, 0), endIndex + 2);
+        }
+
+        function downsampleSegment<T>(points: T[], threshold: number, getX: (point: T) => number, getY: (point: T) => number): T[] {
+            let length = points.length;
+            if (length <= threshold || length <= 2)
+                return points;
+            if (threshold < 3)
+                return [_.first(points), _.last(points)];
+
+            // The first and last points are kept, and the points in between are split into buckets. From each bucket, the point kept
+            // is the one making the largest triangle with the point kept from the previous bucket and the average of the next bucket.
+            let downsampled = [points[0]];
+            let bucketSize = (length - 2) / (threshold - 2);
+            let previousIndex = 0;
+            for (let i = 0; i < threshold - 2; i++) {
+                let nextStart = Math.floor((i + 1) * bucketSize) + 1;
+                let nextEnd = Math.min(Math.floor((i + 2) * bucketSize) + 1, length);
+                let averageX = 0;
+                let averageY = 0;
+                for (let j = nextStart; j < nextEnd; j++) {
+                    averageX += getX(points[j]);
+                    averageY += getY(points[j]);
+                }
+                averageX /= nextEnd - nextStart;
+                averageY /= nextEnd - nextStart;
+
+                let previousX = getX(points[previousIndex]);
+                let previousY = getY(points[previousIndex]);
+                let maxArea = -1;
+                let maxAreaIndex = nextStart - 1;
+                for (let j = Math.floor(i * bucketSize) + 1, end = nextStart; j < end; j++) {
+                    let area = Math.abs((previousX - averageX) * (getY(points[j]) - previousY) - (previousX - getX(points[j])) * (averageY - previousY));
+                    if (area > maxArea) {
+                        maxArea = area;
+                        maxAreaIndex = j;
+                    }
+                }
+
+                downsampled.push(points[maxAreaIndex]);
+                previousIndex = maxAreaIndex;
+            }
+            downsampled.push(points[length - 1]);
+
+            return downsampled;
+        }
+    }
+}
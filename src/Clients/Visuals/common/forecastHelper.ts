@@ -28,6 +28,7 @@ module powerbi.visuals {
     import ClassAndSelector = jsCommon.CssConstants.ClassAndSelector;
     import createClassAndSelector = jsCommon.CssConstants.createClassAndSelector;
     import DataRoleHelper = powerbi.data.DataRoleHelper;
+    import DataViewForecast = powerbi.data.DataViewForecast;
 
     export interface PointWithError {
         point: IPoint;
@@ -44,6 +45,9 @@ module powerbi.visuals {
         confidenceBandStyle: string;
         transparency: number;
         style: string;
+        forecastLength?: number;
+        confidenceLevel?: number;
+        seasonality?: number;
     }
 
     export module ForecastHelper {
@@ -54,6 +58,9 @@ module powerbi.visuals {
             export const confidenceBandStyle: string = 'confidenceBandStyle';
             export const transparency: string = 'transparency';
             export const style: string = 'style';
+            export const forecastLength: string = 'forecastLength';
+            export const confidenceLevel: string = 'confidenceLevel';
+            export const seasonality: string = 'seasonality';
         }
 
         const forecastObjectName = 'forecast';
@@ -66,7 +73,9 @@ module powerbi.visuals {
             displayName: '',
             confidenceBandStyle: confidenceBandStyle.fill,
             transparency: 80,
-            style: lineStyle.solid
+            style: lineStyle.solid,
+            forecastLength: DataViewForecast.defaults.forecastLength,
+            confidenceLevel: DataViewForecast.defaults.confidenceLevel,
         };
 
         const ForecastClassSelector: ClassAndSelector = createClassAndSelector('forecast-line');
@@ -90,7 +99,9 @@ module powerbi.visuals {
                         lineColor: defaults.lineColor,
                         confidenceBandStyle: defaults.confidenceBandStyle,
                         transparency: defaults.transparency,
-                        style: defaults.style
+                        style: defaults.style,
+                        forecastLength: defaults.forecastLength,
+                        confidenceLevel: defaults.confidenceLevel,
                     },
                     objectName: forecastObjectName,
                 });
@@ -105,8 +116,14 @@ module powerbi.visuals {
                 [ForecastPropertyNames.confidenceBandStyle]: forecast.confidenceBandStyle,
                 [ForecastPropertyNames.transparency]: forecast.transparency,
                 [ForecastPropertyNames.style]: forecast.style,
+                [ForecastPropertyNames.forecastLength]: forecast.forecastLength != null ? forecast.forecastLength : defaults.forecastLength,
+                [ForecastPropertyNames.confidenceLevel]: forecast.confidenceLevel != null ? forecast.confidenceLevel : defaults.confidenceLevel,
             };
 
+            // Seasonality is detected from the data unless specified.
+            if (forecast.seasonality != null)
+                properties[ForecastPropertyNames.seasonality] = forecast.seasonality;
+
             enumeration.pushInstance({
                 selector: {
                     id: forecast.id
@@ -158,6 +175,9 @@ module powerbi.visuals {
                 let confidenceBandStyle = DataViewObject.getValue<string>(forecastObject, ForecastPropertyNames.confidenceBandStyle, defaults.confidenceBandStyle);
                 let transparency = DataViewObject.getValue<number>(forecastObject, ForecastPropertyNames.transparency, defaults.transparency);
                 let style = DataViewObject.getValue<string>(forecastObject, ForecastPropertyNames.style, defaults.style);
+                let forecastLength = DataViewObject.getValue<number>(forecastObject, ForecastPropertyNames.forecastLength, defaults.forecastLength);
+                let confidenceLevel = DataViewObject.getValue<number>(forecastObject, ForecastPropertyNames.confidenceLevel, defaults.confidenceLevel);
+                let seasonality = DataViewObject.getValue<number>(forecastObject, ForecastPropertyNames.seasonality);
                 let colorHelper = new ColorHelper(colors, { objectName: 'dataPoint', propertyName: 'fill' }, defaults.lineColor.solid.color);
 
                 let group = groups[groupIndex];
@@ -209,7 +229,10 @@ module powerbi.visuals {
                     lineColor: seriesLineColor,
                     confidenceBandStyle: confidenceBandStyle,
                     transparency: transparency,
-                    style: style
+                    style: style,
+                    forecastLength: forecastLength,
+                    confidenceLevel: confidenceLevel,
+                    seasonality: seasonality,
                 });
 
                 groupIndex++;
@@ -0,0 +1,202 @@
+/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved. 
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *   
+ *  The above copyright notice and this permission notice shall be included in 
+ *  all copies or substantial portions of the Software.
+ *   
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR 
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, 
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE 
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER 
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+/// <reference path="../_references.ts"/>
+
+module powerbi.visuals {
+    export interface GeoJsonGeometry {
+        type: string;
+        coordinates?: any;
+        geometries?: GeoJsonGeometry[];
+    }
+
+    export interface GeoJsonFeature {
+        type: string;
+        id?: string | number;
+        properties: _.Dictionary<any>;
+        geometry: GeoJsonGeometry;
+    }
+
+    export interface TopoJsonGeometry {
+        type: string;
+        id?: string | number;
+        properties?: _.Dictionary<any>;
+        arcs?: any;
+        coordinates?: any;
+        geometries?: TopoJsonGeometry[];
+    }
+
+    export interface TopoJsonTopology {
+        type: string;
+        objects: _.Dictionary<TopoJsonGeometry>;
+        arcs: number[][][];
+        transform?: {
+            scale: number[];
+            translate: number[];
+        };
+    }
+
+    export module GeoJsonUtil {
+        export const TopologyType = 'Topology';
+
+        /**
+         * Parses the text of a GeoJSON or TopoJSON file into its features.
+         * All the objects of a topology are converted, and null is returned for text that is not a map.
+         */
+        export function parse(text: string): GeoJsonFeature[] {
+            if (!text)
+                return null;
+
+            let json: any;
+            try {
+                json = JSON.parse(text);
+            }
+            catch (e) {
+                return null;
+            }
+
+            return getFeatures(json);
+        }
+
+        export function getFeatures(json: any): GeoJsonFeature[] {
+            if (!json || !json.type)
+                return null;
+
+            switch (json.type) {
+                case TopologyType:
+                    return topologyToFeatures(<TopoJsonTopology>json);
+                case 'FeatureCollection':
+                    return _.filter(<GeoJsonFeature[]>json.features, feature => !!feature);
+                case 'Feature':
+                    return [<GeoJsonFeature>json];
+                case 'GeometryCollection':
+                    return _.map(<GeoJsonGeometry[]>json.geometries, geometry => createFeature(geometry));
+                default:
+                    return [createFeature(<GeoJsonGeometry>json)];
+            }
+        }
+
+        export function topologyToFeatures(topology: TopoJsonTopology): GeoJsonFeature[] {
+            debug.assertValue(topology, 'topology');
+
+            let arcs = decodeArcs(topology);
+            let features: GeoJsonFeature[] = [];
+            for (let name in topology.objects) {
+                let object = topology.objects[name];
+                let geometries = object.type === 'GeometryCollection' ? object.geometries : [object];
+                for (let geometry of geometries) {
+                    features.push({
+                        type: 'Feature',
+                        id: geometry.id,
+                        properties: geometry.properties || {},
+                        geometry: convertTopoJsonGeometry(geometry, arcs, topology.transform),
+                    });
+                }
+            }
+
+            return features;
+        }
+
+        /** Gets the polygons of a geometry as lists of rings, the first ring of each polygon being its exterior. */
+        export function getPolygons(geometry: GeoJsonGeometry): number[][][][] {
+            if (!geometry)
+                return [];
+
+            switch (geometry.type) {
+                case 'Polygon':
+                    return [geometry.coordinates];
+                case 'MultiPolygon':
+                    return geometry.coordinates;
+                case 'GeometryCollection':
+                    return _.flatten<number[][][]>(_.map(geometry.geometries, getPolygons), true);
+                default:
+                    return [];
+            }
+        }
+
+        function createFeature(geometry: GeoJsonGeometry): GeoJsonFeature {
+            return {
+                type: 'Feature',
+                properties: {},
+                geometry: geometry,
+            };
+        }
+
+        /** Converts the delta-encoded, quantized arcs of a topology into absolute positions. */
+        function decodeArcs(topology: TopoJsonTopology): number[][][] {
+            let transform = topology.transform;
+            if (!transform)
+                return topology.arcs;
+
+            return _.map(topology.arcs, arc => {
+                let x = 0, y = 0;
+                return _.map(arc, position => {
+                    x += position[0];
+                    y += position[1];
+                    return [x * transform.scale[0] + transform.translate[0], y * transform.scale[1] + transform.translate[1]];
+                });
+            });
+        }
+
+        function convertTopoJsonGeometry(geometry: TopoJsonGeometry, arcs: number[][][], transform: { scale: number[]; translate: number[] }): GeoJsonGeometry {
+            let toPosition = (position: number[]) => transform
+                ? [position[0] * transform.scale[0] + transform.translate[0], position[1] * transform.scale[1] + transform.translate[1]]
+                : position;
+            let toRing = (indexes: number[]) => stitchArcs(indexes, arcs);
+
+            switch (geometry.type) {
+                case 'Point':
+                    return { type: geometry.type, coordinates: toPosition(geometry.coordinates) };
+                case 'MultiPoint':
+                    return { type: geometry.type, coordinates: _.map(geometry.coordinates, toPosition) };
+                case 'LineString':
+                    return { type: geometry.type, coordinates: toRing(geometry.arcs) };
+                case 'MultiLineString':
+                case 'Polygon':
+                    return { type: geometry.type, coordinates: _.map(<number[][]>geometry.arcs, toRing) };
+                case 'MultiPolygon':
+                    return { type: geometry.type, coordinates: _.map(<number[][][]>geometry.arcs, polygon => _.map(polygon, toRing)) };
+                case 'GeometryCollection':
+                    return { type: geometry.type, geometries: _.map(geometry.geometries, child => convertTopoJsonGeometry(child, arcs, transform)) };
+                default:
+                    return null;
+            }
+        }
+
+        /** Joins arcs into one line; a negative index (~i) refers to arc i reversed. */
+        function stitchArcs(indexes: number[], arcs: number[][][]): number[][] {
+            let positions: number[][] = [];
+            for (let index of indexes) {
+                let arc = index < 0 ? arcs[~index].slice().reverse() : arcs[index];
+
+                // Consecutive arcs share their end points
+                positions.push(...(_.isEmpty(positions) ? arc : _.rest(arc)));
+            }
+
+            return positions;
+        }
+    }
+}
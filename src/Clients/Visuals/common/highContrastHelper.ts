@@ -0,0 +1,147 @@
+/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved. 
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *   
+ *  The above copyright notice and this permission notice shall be included in 
+ *  all copies or substantial portions of the Software.
+ *   
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR 
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, 
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE 
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER 
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+/// <reference path="../_references.ts"/>
+
+module powerbi.visuals {
+    import ClassAndSelector = jsCommon.CssConstants.ClassAndSelector;
+    import createClassAndSelector = jsCommon.CssConstants.createClassAndSelector;
+
+    /**
+     * The two colors a visual is drawn with in high contrast mode.
+     */
+    export interface HighContrastColors {
+        foreground: string;
+        background: string;
+    }
+
+    /**
+     * Rendering helpers for the high contrast mode of IVisualStyle.
+     * Since every data point is drawn with the same foreground color, shapes are told apart by their pattern fills
+     * (and lines by their dash arrays) rather than by color.
+     */
+    export module HighContrastHelper {
+        const DefaultForeground = '#000';
+        const DefaultBackground = '#FFF';
+        const PatternSize = 8;
+        const PatternDefs: ClassAndSelector = createClassAndSelector('highContrastPatterns');
+
+        /** The pattern tiles, drawn with the foreground color over the background color. */
+        const patterns: { path: string; filled?: boolean }[] = [
+            { path: 'M0,0H8V8H0Z', filled: true },
+            { path: 'M0,8L8,0M-2,2L2,-2M6,10L10,6' },
+            { path: 'M0,0L8,8M-2,6L2,10M6,-2L10,2' },
+            { path: 'M0,4H8' },
+            { path: 'M4,0V8' },
+            { path: 'M0,4H8M4,0V8' },
+            { path: 'M3,4A1,1 0 1,0 5,4A1,1 0 1,0 3,4Z', filled: true },
+            { path: '' },
+        ];
+
+        const strokeDashArrays: string[] = [null, '8,4', '2,3', '8,3,2,3', '14,4', '2,8'];
+
+        export const PatternCount = patterns.length;
+
+        /**
+         * Gets the high contrast colors of the style, or undefined when the style is not in high contrast mode.
+         */
+        export function getColors(style: IVisualStyle): HighContrastColors {
+            if (!style || !style.isHighContrast)
+                return;
+
+            let palette = style.colorPalette;
+            return {
+                foreground: palette && palette.foreground ? palette.foreground.value : DefaultForeground,
+                background: palette && palette.background ? palette.background.value : DefaultBackground,
+            };
+        }
+
+        /**
+         * Gets the fill for the shapes at the given index (e.g. the series index), defining its pattern in the given svg if needed.
+         */
+        export function getPatternFill(svg: D3.Selection, index: number, colors: HighContrastColors): string {
+            debug.assertValue(svg, 'svg');
+            debug.assertValue(colors, 'colors');
+
+            let defs = svg.select(PatternDefs.selector);
+            if (defs.empty()) {
+                defs = svg.insert('defs', ':first-child')
+                    .classed(PatternDefs.class, true)
+                    .attr('id', _.uniqueId(PatternDefs.class));
+            }
+
+            let patternIndex = Math.abs(index || 0) % PatternCount;
+            let id = defs.attr('id') + '-' + patternIndex;
+            let pattern = defs.select('#' + id);
+            if (pattern.empty()) {
+                pattern = defs.append('pattern')
+                    .attr({
+                        'id': id,
+                        'patternUnits': 'userSpaceOnUse',
+                        'width': PatternSize,
+                        'height': PatternSize,
+                    });
+                pattern.append('rect')
+                    .attr({
+                        'width': PatternSize,
+                        'height': PatternSize,
+                    });
+                pattern.append('path')
+                    .attr('d', patterns[patternIndex].path);
+            }
+
+            let filled = patterns[patternIndex].filled;
+            pattern.select('rect').style('fill', colors.background);
+            pattern.select('path').style({
+                'fill': filled ? colors.foreground : 'none',
+                'stroke': filled ? 'none' : colors.foreground,
+                'stroke-width': 1,
+            });
+
+            return 'url(#' + id + ')';
+        }
+
+        /**
+         * Gets the dash array telling apart the lines at the given index, null for a solid line.
+         */
+        export function getStrokeDashArray(index: number): string {
+            return strokeDashArrays[Math.abs(index || 0) % strokeDashArrays.length];
+        }
+
+        /**
+         * Fills the shapes with the patterns of their index and outlines them with the foreground color.
+         */
+        export function applyPatternFills(shapes: D3.Selection, svg: D3.Selection, colors: HighContrastColors, getIndex: (d: any, i: number) => number): void {
+            debug.assertValue(shapes, 'shapes');
+
+            shapes.style({
+                'fill': (d, i: number) => getPatternFill(svg, getIndex(d, i), colors),
+                'stroke': colors.foreground,
+                'stroke-width': 1,
+            });
+        }
+    }
+}
@@ -224,6 +224,40 @@ module powerbi.visuals {
             return new Float64Array(list);
         }
 
+        /**
+         * Encodes lat/long pairs as [lat1, long1, lat2, long2,...] in the format read by parseEncodedSpatialValueArray.
+         *  see Point Compression Algorithm http://msdn.microsoft.com/en-us/library/jj158958.aspx
+         */
+        export function encodeSpatialValueArray(values: number[]): string {
+            let result = "";
+            let latitude = 0;
+            let longitude = 0;
+
+            for (let i = 0; i + 1 < values.length; i += 2) {
+                let newLatitude = Math.round(values[i] * 100000);
+                let newLongitude = Math.round(values[i + 1] * 100000);
+                let dy = newLatitude - latitude;
+                let dx = newLongitude - longitude;
+                latitude = newLatitude;
+                longitude = newLongitude;
+
+                dy = (dy << 1) ^ (dy >> 31);
+                dx = (dx << 1) ^ (dx >> 31);
+
+                // Unlike the original algorithm, a point that does not move still takes one character so that it is not dropped when parsed
+                let index = ((dy + dx) * (dy + dx + 1) / 2) + dy;
+                do {
+                    let remainder = index % 32;
+                    index = (index - remainder) / 32;
+                    if (index > 0)
+                        remainder += 32;
+                    result += safeCharacters[remainder];
+                } while (index > 0);
+            }
+
+            return result;
+        }
+
         export function calcGeoData(data: IGeocodeBoundaryCoordinate) {
             let locations = data.locations;
 
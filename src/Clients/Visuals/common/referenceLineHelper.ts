@@ -38,6 +38,8 @@ module powerbi.visuals {
             show: boolean;
             displayName: string;
             value: number;
+            valueType: string;
+            percentile: number;
             color: Fill;
             transparency: number;
             position: string;
@@ -46,6 +48,24 @@ module powerbi.visuals {
             axis: AxisLocation;
         }
 
+        export interface ReferenceBand {
+            type: string;
+            selector: Selector;
+            show: boolean;
+            displayName: string;
+            boundType: string;
+            startValue: number;
+            endValue: number;
+            standardDeviations: number;
+            startPercentile: number;
+            endPercentile: number;
+            fill: Fill;
+            transparency: number;
+            position: string;
+            dataLabelProperties: ReferenceBandDataLabelProperties;
+            axis: AxisLocation;
+        }
+
         export interface DataLabelProperites {
             show: boolean;
             color: Fill;
@@ -56,12 +76,22 @@ module powerbi.visuals {
             displayUnits: number;
         }
 
+        export interface ReferenceBandDataLabelProperties {
+            show: boolean;
+            color: Fill;
+            text: string;
+            decimalPoints: number;
+            displayUnits: number;
+        }
+
         export module ReferenceLineProps {
             export const show = 'show';
             export const lineColor = 'lineColor';
             export const transparency = 'transparency';
             export const displayName = 'displayName';
             export const value = 'value';
+            export const valueType = 'valueType';
+            export const percentile = 'percentile';
             export const style = 'style';
             export const position = 'position';
             export const dataLabelShow = 'dataLabelShow';
@@ -73,21 +103,50 @@ module powerbi.visuals {
             export const dataLabelDisplayUnits = 'dataLabelDisplayUnits';
         };
 
+        export module ReferenceBandProps {
+            export const show = 'show';
+            export const displayName = 'displayName';
+            export const axis = 'axis';
+            export const boundType = 'boundType';
+            export const startValue = 'startValue';
+            export const endValue = 'endValue';
+            export const standardDeviations = 'standardDeviations';
+            export const startPercentile = 'startPercentile';
+            export const endPercentile = 'endPercentile';
+            export const fill = 'fill';
+            export const transparency = 'transparency';
+            export const position = 'position';
+            export const dataLabelShow = 'dataLabelShow';
+            export const dataLabelColor = 'dataLabelColor';
+            export const dataLabelText = 'dataLabelText';
+            export const dataLabelDecimalPoints = 'dataLabelDecimalPoints';
+            export const dataLabelDisplayUnits = 'dataLabelDisplayUnits';
+        };
+
+        export const defaultPercentile = 50;
+        export const referenceBandObjectName = 'referenceBand';
+        export const defaultBandTransparency = 80;
+        export const defaultStandardDeviations = 1;
+        export const defaultStartPercentile = 25;
+        export const defaultEndPercentile = 75;
+
         export interface ReferenceLineOptions {
             graphicContext: D3.Selection;
             referenceLines: ReferenceLine[];
+            referenceBands?: ReferenceBand[];
             axes: CartesianAxisProperties;
             viewport: IViewport;
         }
 
         export interface ReferenceLineDataLabelOptions {
             referenceLines: ReferenceLine[];
+            referenceBands?: ReferenceBand[];
             axes: CartesianAxisProperties;
             viewport: IViewport;
             hostServices: IVisualHostServices;
         }
 
-        export function isHorizontal(refLine: ReferenceLine, axes: CartesianAxisProperties): boolean {
+        export function isHorizontal(refLine: ReferenceLine | ReferenceBand, axes: CartesianAxisProperties): boolean {
             return (refLine.axis === AxisLocation.Y1) && !axes.y1.isCategoryAxis;
         }
 
@@ -104,6 +163,7 @@ module powerbi.visuals {
                     },
                     properties: {
                         show: false,
+                        valueType: referenceLineValueType.constant,
                         value: '',
                         lineColor: { solid: { color: defaultColor } },
                         transparency: 50,
@@ -126,6 +186,7 @@ module powerbi.visuals {
                     properties: {
                         show: referenceLine.show,
                         displayName: referenceLine.displayName,
+                        valueType: referenceLine.valueType,
                         value: referenceLine.value,
                         lineColor: referenceLine.color,
                         transparency: referenceLine.transparency,
@@ -136,6 +197,14 @@ module powerbi.visuals {
                     objectName: referenceLine.type
                 };
 
+                // The value of a computed reference line comes from the data, so it is only editable for a constant line
+                if (isComputed(referenceLine)) {
+                    delete instance.properties[ReferenceLineProps.value];
+
+                    if (referenceLine.valueType === referenceLineValueType.percentile)
+                        instance.properties[ReferenceLineProps.percentile] = referenceLine.percentile;
+                }
+
                 // Show the data label properties only if the user chose to show the data label
                 if (dataLabelShow) {
                     let dataLabelProperties = referenceLine.dataLabelProperties;
@@ -151,6 +220,80 @@ module powerbi.visuals {
             }
         }
 
+        export function enumerateReferenceBands(enumeration: ObjectEnumerationBuilder, referenceBands: ReferenceBand[], defaultColor: string): void {
+            debug.assertValue(enumeration, 'enumeration');
+
+            if (_.isEmpty(referenceBands)) {
+                // NOTE: As with reference lines, the property pane can only handle a single band object for now.
+                let instance: VisualObjectInstance = {
+                    selector: {
+                        id: '0'
+                    },
+                    properties: {
+                        show: false,
+                        axis: referenceBandAxis.y,
+                        boundType: referenceBandBoundType.constant,
+                        startValue: '',
+                        endValue: '',
+                        fill: { solid: { color: defaultColor } },
+                        transparency: defaultBandTransparency,
+                        position: referenceLinePosition.back,
+                        dataLabelShow: false,
+                    },
+                    objectName: referenceBandObjectName
+                };
+
+                enumeration.pushInstance(instance);
+
+                return;
+            }
+
+            for (let referenceBand of referenceBands) {
+                let dataLabelShow = referenceBand.dataLabelProperties && referenceBand.dataLabelProperties.show;
+                let instance: VisualObjectInstance = {
+                    selector: referenceBand.selector,
+                    properties: {
+                        show: referenceBand.show,
+                        displayName: referenceBand.displayName,
+                        axis: referenceBand.axis === AxisLocation.X ? referenceBandAxis.x : referenceBandAxis.y,
+                        boundType: referenceBand.boundType,
+                    },
+                    objectName: referenceBand.type
+                };
+
+                // Only the inputs of the selected bound type are editable, the bounds of a computed band come from the data
+                switch (referenceBand.boundType) {
+                    case referenceBandBoundType.standardDeviation:
+                        instance.properties[ReferenceBandProps.standardDeviations] = referenceBand.standardDeviations;
+                        break;
+                    case referenceBandBoundType.percentile:
+                        instance.properties[ReferenceBandProps.startPercentile] = referenceBand.startPercentile;
+                        instance.properties[ReferenceBandProps.endPercentile] = referenceBand.endPercentile;
+                        break;
+                    default:
+                        instance.properties[ReferenceBandProps.startValue] = referenceBand.startValue;
+                        instance.properties[ReferenceBandProps.endValue] = referenceBand.endValue;
+                        break;
+                }
+
+                instance.properties[ReferenceBandProps.fill] = referenceBand.fill;
+                instance.properties[ReferenceBandProps.transparency] = referenceBand.transparency;
+                instance.properties[ReferenceBandProps.position] = referenceBand.position;
+                instance.properties[ReferenceBandProps.dataLabelShow] = dataLabelShow;
+
+                // Show the data label properties only if the user chose to show the data label
+                if (dataLabelShow) {
+                    let dataLabelProperties = referenceBand.dataLabelProperties;
+                    instance.properties[ReferenceBandProps.dataLabelColor] = dataLabelProperties.color;
+                    instance.properties[ReferenceBandProps.dataLabelText] = dataLabelProperties.text;
+                    instance.properties[ReferenceBandProps.dataLabelDisplayUnits] = dataLabelProperties.displayUnits;
+                    instance.properties[ReferenceBandProps.dataLabelDecimalPoints] = dataLabelProperties.decimalPoints;
+                }
+
+                enumeration.pushInstance(instance);
+            }
+        }
+
         export function render(options: ReferenceLineOptions): void {
             let xScale = options.axes.x.scale;
             let yScale = options.axes.y1.scale;
@@ -213,6 +356,63 @@ module powerbi.visuals {
             backLines.enter().insert('line', ':first-child').classed(backClassAndSelector.class, true);
             backLines.each(setRefLineProperties);
             backLines.exit().remove();
+
+            renderReferenceBands(options);
+        }
+
+        /** Renders the bands as rectangles, the bands behind the data are inserted before the reference lines behind the data. */
+        function renderReferenceBands(options: ReferenceLineOptions): void {
+            let axes = options.axes;
+            let viewport = options.viewport;
+
+            function setRefBandProperties(refBand: ReferenceBand) {
+                let bandRect = getBandRect(refBand, axes, viewport);
+                d3.select(this)
+                    .attr({
+                        x: bandRect.left,
+                        y: bandRect.top,
+                        width: bandRect.width,
+                        height: bandRect.height,
+                    })
+                    .style({
+                        'fill': refBand.fill.solid.color,
+                        'fill-opacity': (100 - refBand.transparency) / 100,
+                    });
+            }
+
+            let graphicsContext = options.graphicContext;
+            let visibleBands = _.filter(options.referenceBands, band => band.show && !!getBandRect(band, axes, viewport));
+
+            let frontClassAndSelector = createClassAndSelector('reference-band-front');
+            let frontBands = graphicsContext.selectAll(frontClassAndSelector.selector).data(_.filter(visibleBands, band => band.position === referenceLinePosition.front));
+            frontBands.enter().append('rect').classed(frontClassAndSelector.class, true);
+            frontBands.each(setRefBandProperties);
+            frontBands.exit().remove();
+
+            let backClassAndSelector = createClassAndSelector('reference-band-back');
+            let backBands = graphicsContext.selectAll(backClassAndSelector.selector).data(_.filter(visibleBands, band => band.position !== referenceLinePosition.front));
+            backBands.enter().insert('rect', ':first-child').classed(backClassAndSelector.class, true);
+            backBands.each(setRefBandProperties);
+            backBands.exit().remove();
+        }
+
+        /** Gets the area covered by the band in the plot area, or null if the band cannot be placed on its axis. */
+        export function getBandRect(refBand: ReferenceBand, axes: CartesianAxisProperties, viewport: IViewport): IRect {
+            if (!_.isNumber(refBand.startValue) || !_.isNumber(refBand.endValue))
+                return null;
+
+            let isHorizontal = ReferenceLineHelper.isHorizontal(refBand, axes);
+            let scale = isHorizontal ? axes.y1.scale : axes.x.scale;
+            let start: number = scale(refBand.startValue);
+            let end: number = scale(refBand.endValue);
+
+            // Ordinal (categorical) scales cannot place numeric bounds
+            if (!isFinite(start) || !isFinite(end))
+                return null;
+
+            return isHorizontal
+                ? { left: 0, top: Math.min(start, end), width: viewport.width, height: Math.abs(end - start) }
+                : { left: Math.min(start, end), top: 0, width: Math.abs(end - start), height: viewport.height };
         }
 
         export function readDataView(objects: DataViewObjectMap, defaultColor: string, objectName: string, axis: AxisLocation, metaDataColumn?: string): ReferenceLine[] {
@@ -225,6 +425,8 @@ module powerbi.visuals {
                 let show = DataViewObject.getValue(referenceLineObject, ReferenceLineProps.show, false);
                 let displayName = DataViewObject.getValue(referenceLineObject, ReferenceLineProps.displayName, undefined);
                 let value = DataViewObject.getValue(referenceLineObject, ReferenceLineProps.value, 0);
+                let valueType = DataViewObject.getValue(referenceLineObject, ReferenceLineProps.valueType, referenceLineValueType.constant);
+                let percentile = DataViewObject.getValue(referenceLineObject, ReferenceLineProps.percentile, defaultPercentile);
                 let lineColor = DataViewObject.getValue(referenceLineObject, ReferenceLineProps.lineColor, { solid: { color: defaultColor } });
                 let transparency = DataViewObject.getValue(referenceLineObject, ReferenceLineProps.transparency, 50);
                 let style = DataViewObject.getValue(referenceLineObject, ReferenceLineProps.style, lineStyle.dashed);
@@ -245,6 +447,8 @@ module powerbi.visuals {
                     show: show,
                     displayName: displayName,
                     value: value,
+                    valueType: valueType,
+                    percentile: percentile,
                     color: lineColor,
                     transparency: transparency,
                     style: style,
@@ -265,8 +469,62 @@ module powerbi.visuals {
             return referenceLines;
         }
 
+        export function readReferenceBands(objects: DataViewObjectMap, defaultColor: string): ReferenceBand[] {
+            if (!objects)
+                return [];
+
+            let referenceBands: ReferenceBand[] = [];
+            for (let id in objects) {
+                let referenceBandObject = objects[id];
+                let show = DataViewObject.getValue(referenceBandObject, ReferenceBandProps.show, false);
+                let displayName = DataViewObject.getValue(referenceBandObject, ReferenceBandProps.displayName, undefined);
+                let axis = DataViewObject.getValue(referenceBandObject, ReferenceBandProps.axis, referenceBandAxis.y);
+                let boundType = DataViewObject.getValue(referenceBandObject, ReferenceBandProps.boundType, referenceBandBoundType.constant);
+                let startValue = DataViewObject.getValue(referenceBandObject, ReferenceBandProps.startValue, null);
+                let endValue = DataViewObject.getValue(referenceBandObject, ReferenceBandProps.endValue, null);
+                let standardDeviations = DataViewObject.getValue(referenceBandObject, ReferenceBandProps.standardDeviations, defaultStandardDeviations);
+                let startPercentile = DataViewObject.getValue(referenceBandObject, ReferenceBandProps.startPercentile, defaultStartPercentile);
+                let endPercentile = DataViewObject.getValue(referenceBandObject, ReferenceBandProps.endPercentile, defaultEndPercentile);
+                let fill = DataViewObject.getValue(referenceBandObject, ReferenceBandProps.fill, { solid: { color: defaultColor } });
+                let transparency = DataViewObject.getValue(referenceBandObject, ReferenceBandProps.transparency, defaultBandTransparency);
+                let position = DataViewObject.getValue(referenceBandObject, ReferenceBandProps.position, referenceLinePosition.back);
+                let dataLabelShow = DataViewObject.getValue(referenceBandObject, ReferenceBandProps.dataLabelShow, false);
+                let dataLabelColor = DataViewObject.getValue(referenceBandObject, ReferenceBandProps.dataLabelColor, { solid: { color: defaultColor } });
+                let dataLabelText = DataViewObject.getValue(referenceBandObject, ReferenceBandProps.dataLabelText, labelText.name);
+                let decimalPoints = DataViewObject.getValue(referenceBandObject, ReferenceBandProps.dataLabelDecimalPoints, undefined);
+                let dataLabelDecimalPoints = decimalPoints < 0 ? undefined : decimalPoints;
+                let dataLabelDisplayUnits = DataViewObject.getValue(referenceBandObject, ReferenceBandProps.dataLabelDisplayUnits, 0);
+
+                referenceBands.push({
+                    type: referenceBandObjectName,
+                    selector: { id: id },
+                    show: show,
+                    displayName: displayName,
+                    boundType: boundType,
+                    startValue: startValue,
+                    endValue: endValue,
+                    standardDeviations: standardDeviations,
+                    startPercentile: startPercentile,
+                    endPercentile: endPercentile,
+                    fill: fill,
+                    transparency: transparency,
+                    position: position,
+                    dataLabelProperties: {
+                        show: dataLabelShow,
+                        color: dataLabelColor,
+                        text: dataLabelText,
+                        decimalPoints: dataLabelDecimalPoints,
+                        displayUnits: dataLabelDisplayUnits
+                    },
+                    axis: axis === referenceBandAxis.x ? AxisLocation.X : AxisLocation.Y1,
+                });
+            }
+
+            return referenceBands;
+        }
+
         export function createLabelDataPoint(options: ReferenceLineDataLabelOptions): LabelDataPoint[] {
-            if (_.isEmpty(options.referenceLines)) {
+            if (_.isEmpty(options.referenceLines) && _.isEmpty(options.referenceBands)) {
                 return [];
             }
 
@@ -283,20 +541,11 @@ module powerbi.visuals {
                 }
 
                 // Format the reference line data label text according to the matching axis formatter
-                // When options is null default formatter is used either boolean, numeric, or text
                 let isHorizontal = ReferenceLineHelper.isHorizontal(referenceLine, axes);
                 let axisFormatter = isHorizontal ? axes.y1.formatter : axes.x.formatter;
-                let formatterForReferenceLineDataLabel = axisFormatter;
-
                 let refValue = referenceLine.value;
                 let dataLabelProperties = referenceLine.dataLabelProperties;
-
-                if (axisFormatter.options != null) {
-                    let formatterOptions = Prototype.inherit(axisFormatter.options);
-                    formatterOptions.precision = dataLabelProperties.decimalPoints;
-                    formatterOptions.value = dataLabelProperties.displayUnits;
-                    formatterForReferenceLineDataLabel = valueFormatter.create(formatterOptions);
-                }
+                let formatterForReferenceLineDataLabel = getDataLabelFormatter(axisFormatter, dataLabelProperties.decimalPoints, dataLabelProperties.displayUnits);
 
                 let text: string = '';
                 switch (dataLabelProperties.text) {
@@ -389,9 +638,176 @@ module powerbi.visuals {
                 });
             }
 
+            dataLabels.push(...createBandLabelDataPoints(options));
+
+            return dataLabels;
+        }
+
+        /** Creates the labels of the bands, placed inside the band next to the axis the band is drawn across. */
+        function createBandLabelDataPoints(options: ReferenceLineDataLabelOptions): LabelDataPoint[] {
+            let dataLabels: LabelDataPoint[] = [];
+            let axes = options.axes;
+
+            for (let referenceBand of options.referenceBands || []) {
+                let dataLabelProperties = referenceBand.dataLabelProperties;
+                if (!referenceBand.show || !dataLabelProperties.show)
+                    continue;
+
+                let bandRect = getBandRect(referenceBand, axes, options.viewport);
+                if (!bandRect)
+                    continue;
+
+                let isHorizontal = ReferenceLineHelper.isHorizontal(referenceBand, axes);
+                let formatter = getDataLabelFormatter(isHorizontal ? axes.y1.formatter : axes.x.formatter, dataLabelProperties.decimalPoints, dataLabelProperties.displayUnits);
+                let range = jsCommon.StringExtensions.format(
+                    options.hostServices.getLocalizedString('ReferenceBand_Range'),
+                    NewDataLabelUtils.getLabelFormattedText(formatter.format(Math.min(referenceBand.startValue, referenceBand.endValue))),
+                    NewDataLabelUtils.getLabelFormattedText(formatter.format(Math.max(referenceBand.startValue, referenceBand.endValue))));
+
+                let text: string;
+                switch (dataLabelProperties.text) {
+                    case labelText.value:
+                        text = range;
+                        break;
+                    case labelText.nameAndValue:
+                        text = jsCommon.StringExtensions.format(options.hostServices.getLocalizedString('Visual_LabelText_Name_Value_Format'), referenceBand.displayName, range);
+                        break;
+                    case labelText.name:
+                    default:
+                        text = referenceBand.displayName;
+                }
+
+                if (!text)
+                    continue;
+
+                let properties: TextProperties = {
+                    text: text,
+                    fontFamily: dataLabelUtils.LabelTextProperties.fontFamily,
+                    fontSize: dataLabelUtils.LabelTextProperties.fontSize,
+                    fontWeight: dataLabelUtils.LabelTextProperties.fontWeight,
+                };
+
+                let parentShape: LabelParentRect = {
+                    rect: bandRect,
+                    orientation: isHorizontal ? NewRectOrientation.HorizontalLeftBased : NewRectOrientation.VerticalTopBased,
+                    validPositions: [RectLabelPosition.InsideBase],
+                };
+
+                dataLabels.push({
+                    isPreferred: true,
+                    text: text,
+                    textSize: {
+                        width: TextMeasurementService.measureSvgTextWidth(properties),
+                        height: TextMeasurementService.estimateSvgTextHeight(properties),
+                    },
+                    outsideFill: dataLabelProperties.color.solid.color,
+                    insideFill: dataLabelProperties.color.solid.color,
+                    parentShape: parentShape,
+                    parentType: LabelDataPointParentType.Rectangle,
+                    fontSize: 9,
+                    identity: null,
+                    secondRowText: null,
+                    key: JSON.stringify({
+                        type: referenceBand.type,
+                        id: referenceBand.selector.id,
+                    }),
+                });
+            }
+
             return dataLabels;
         }
 
+        /** Gets the formatter of a data label, based on the formatter of the axis with the display units and precision of the label. */
+        function getDataLabelFormatter(axisFormatter: IValueFormatter, decimalPoints: number, displayUnits: number): IValueFormatter {
+            // When options is null default formatter is used either boolean, numeric, or text
+            if (axisFormatter.options == null)
+                return axisFormatter;
+
+            let formatterOptions = Prototype.inherit(axisFormatter.options);
+            formatterOptions.precision = decimalPoints;
+            formatterOptions.value = displayUnits;
+
+            return valueFormatter.create(formatterOptions);
+        }
+
+        /** Returns true if the value of the reference line is computed from the plotted values rather than set by the user. */
+        export function isComputed(referenceLine: ReferenceLine): boolean {
+            return referenceLine.valueType != null && referenceLine.valueType !== referenceLineValueType.constant;
+        }
+
+        /**
+         * Computes the value of a reference line from the values plotted against it. The value of a constant line is returned as is.
+         * Returns null if there are no finite values to compute from.
+         */
+        export function computeValue(referenceLine: ReferenceLine, values: PrimitiveValue[]): number {
+            if (!isComputed(referenceLine))
+                return referenceLine.value;
+
+            let sortedValues = _.sortBy(<number[]>_.filter(values, (value) => _.isNumber(value) && isFinite(<number>value)));
+            if (_.isEmpty(sortedValues))
+                return null;
+
+            switch (referenceLine.valueType) {
+                case referenceLineValueType.average:
+                    return _.sum(sortedValues) / sortedValues.length;
+                case referenceLineValueType.median:
+                    return getPercentile(sortedValues, 50);
+                case referenceLineValueType.percentile:
+                    return getPercentile(sortedValues, referenceLine.percentile);
+                case referenceLineValueType.min:
+                    return _.first(sortedValues);
+                case referenceLineValueType.max:
+                    return _.last(sortedValues);
+            }
+
+            return null;
+        }
+
+        /** Returns true if the bounds of the reference band are computed from the plotted values rather than set by the user. */
+        export function isBandComputed(referenceBand: ReferenceBand): boolean {
+            return referenceBand.boundType != null && referenceBand.boundType !== referenceBandBoundType.constant;
+        }
+
+        /**
+         * Computes the bounds of a reference band from the values plotted against it: the mean plus and minus a number of (population) standard deviations,
+         * or a range of percentiles. The bounds of a constant band are returned as is.
+         * Returns null if there are no finite values to compute from.
+         */
+        export function computeBandRange(referenceBand: ReferenceBand, values: PrimitiveValue[]): NumberRange {
+            if (!isBandComputed(referenceBand))
+                return { min: referenceBand.startValue, max: referenceBand.endValue };
+
+            let sortedValues = _.sortBy(<number[]>_.filter(values, (value) => _.isNumber(value) && isFinite(<number>value)));
+            if (_.isEmpty(sortedValues))
+                return null;
+
+            switch (referenceBand.boundType) {
+                case referenceBandBoundType.standardDeviation:
+                    let mean = _.sum(sortedValues) / sortedValues.length;
+                    let variance = _.sum(sortedValues, value => (value - mean) * (value - mean)) / sortedValues.length;
+                    let deviations = referenceBand.standardDeviations != null ? Math.abs(referenceBand.standardDeviations) : defaultStandardDeviations;
+                    let spread = deviations * Math.sqrt(variance);
+                    return { min: mean - spread, max: mean + spread };
+                case referenceBandBoundType.percentile:
+                    return {
+                        min: getPercentile(sortedValues, referenceBand.startPercentile != null ? referenceBand.startPercentile : defaultStartPercentile),
+                        max: getPercentile(sortedValues, referenceBand.endPercentile != null ? referenceBand.endPercentile : defaultEndPercentile),
+                    };
+            }
+
+            return null;
+        }
+
+        /** Gets the k-th percentile (0 to 100) of sorted values, interpolating between the closest ranks. */
+        function getPercentile(sortedValues: number[], k: number): number {
+            let percent = Math.max(0, Math.min(100, k != null ? k : defaultPercentile)) / 100;
+            let rank = percent * (sortedValues.length - 1);
+            let lowerIndex = Math.floor(rank);
+            let upperIndex = Math.ceil(rank);
+
+            return sortedValues[lowerIndex] + (rank - lowerIndex) * (sortedValues[upperIndex] - sortedValues[lowerIndex]);
+        }
+
         export function extractReferenceLineValue(referenceLineProperties: DataViewObject): number {
             let referenceLineValue: number = null;
 
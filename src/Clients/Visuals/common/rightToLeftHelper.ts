@@ -0,0 +1,56 @@
+/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved. 
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *   
+ *  The above copyright notice and this permission notice shall be included in 
+ *  all copies or substantial portions of the Software.
+ *   
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR 
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, 
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE 
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER 
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+/// <reference path="../_references.ts"/>
+
+module powerbi.visuals {
+    /**
+     * Detects the right-to-left layout of the host locale (e.g. Arabic or Hebrew),
+     * in which visuals mirror their horizontal layout.
+     */
+    export module RightToLeftHelper {
+        /** The languages written from right to left, as ISO 639 codes. */
+        const RightToLeftLanguages = ['ar', 'dv', 'fa', 'he', 'iw', 'ps', 'sd', 'ug', 'ur', 'yi'];
+
+        /**
+         * Whether the locale (e.g. 'he-IL') is of a right-to-left language.
+         */
+        export function isRightToLeftLocale(locale: string): boolean {
+            if (!locale)
+                return false;
+
+            let language = locale.split(/[-_]/)[0].toLowerCase();
+            return RightToLeftLanguages.indexOf(language) >= 0;
+        }
+
+        /**
+         * Whether the visuals of the host should be laid out from right to left.
+         */
+        export function isRightToLeft(host: IVisualHostServices): boolean {
+            return !!host && !!host.locale && isRightToLeftLocale(host.locale());
+        }
+    }
+}
@@ -112,10 +112,195 @@ module powerbi.visuals {
             if (!metaData || _.isEmpty(searchKey))
                 return;
 
-            debug.assert(_.size(metaData.columns) === 1, 'slicer should not have more than one column based on the capability');
-            let column = _.first(metaData.columns);
-            if (column && column.expr)
-                return SlicerUtil.getContainsFilter(<SQExpr>column.expr, searchKey);
+            // Hierarchy slicers have one column per level, and the search matches any of them.
+            let filterExpr: SQExpr;
+            for (let column of metaData.columns) {
+                if (column.expr)
+                    filterExpr = SQExprBuilder.or(filterExpr, SQExprBuilder.contains(<SQExpr>column.expr, SQExprBuilder.text(searchKey)));
+            }
+
+            if (filterExpr)
+                return SemanticFilter.fromSQExpr(filterExpr);
+        }
+
+        /** Persists the filter of the slicer, or removes it when the filter is undefined. */
+        export function persistFilter(hostServices: IVisualHostServices, filter: SemanticFilter): void {
+            let filterPropertyIdentifier = slicerProps.filterPropertyIdentifier;
+            let properties: { [propertyName: string]: DataViewPropertyValue } = {};
+            let instance: VisualObjectInstance = {
+                objectName: filterPropertyIdentifier.objectName,
+                selector: undefined,
+                properties: properties
+            };
+
+            if (filter) {
+                properties[filterPropertyIdentifier.propertyName] = filter;
+                hostServices.persistProperties({ merge: [instance] });
+            }
+            else {
+                properties[filterPropertyIdentifier.propertyName] = {};
+                hostServices.persistProperties({ remove: [instance] });
+            }
+        }
+
+        /** Helper module for the range filters produced by the between, before and after slicer modes. */
+        export module RangeFilter {
+            import QueryComparisonKind = powerbi.data.QueryComparisonKind;
+            import SQBetweenExpr = powerbi.data.SQBetweenExpr;
+            import SQCompareExpr = powerbi.data.SQCompareExpr;
+            import SQConstantExpr = powerbi.data.SQConstantExpr;
+            import SQDateAddExpr = powerbi.data.SQDateAddExpr;
+            import SQNowExpr = powerbi.data.SQNowExpr;
+            import TimeUnit = powerbi.data.TimeUnit;
+
+            export interface SlicerRange {
+                lower?: number | Date;
+                upper?: number | Date;
+                /** Key of the relative date range, when the filter is relative to the current date. */
+                relativeDateRange?: string;
+            }
+
+            export interface RelativeDateRange {
+                key: string;
+                displayNameKey: string;
+                unit: TimeUnit;
+                amount: number;
+            }
+
+            export const relativeDateRanges: RelativeDateRange[] = [
+                { key: 'Last7Days', displayNameKey: 'Slicer_RelativeDate_Last7Days', unit: TimeUnit.Day, amount: 7 },
+                { key: 'Last30Days', displayNameKey: 'Slicer_RelativeDate_Last30Days', unit: TimeUnit.Day, amount: 30 },
+                { key: 'Last90Days', displayNameKey: 'Slicer_RelativeDate_Last90Days', unit: TimeUnit.Day, amount: 90 },
+                { key: 'Last12Months', displayNameKey: 'Slicer_RelativeDate_Last12Months', unit: TimeUnit.Month, amount: 12 },
+                { key: 'Last5Years', displayNameKey: 'Slicer_RelativeDate_Last5Years', unit: TimeUnit.Year, amount: 5 },
+            ];
+
+            export function isRangeMode(mode: string): boolean {
+                return mode === slicerMode.between || mode === slicerMode.before || mode === slicerMode.after;
+            }
+
+            /** Range modes are only offered for numeric and date columns. */
+            export function supportsRange(type: ValueTypeDescriptor): boolean {
+                return type != null && (!!type.numeric || !!type.dateTime);
+            }
+
+            export function getRelativeDateRange(key: string): RelativeDateRange {
+                return _.find(relativeDateRanges, (range) => range.key === key);
+            }
+
+            /** Resolves a relative date range against the given date. */
+            export function getRelativeDateBounds(relativeDateRange: RelativeDateRange, now: Date): SlicerRange {
+                debug.assertValue(relativeDateRange, 'relativeDateRange');
+                debug.assertValue(now, 'now');
+
+                let amount = relativeDateRange.amount;
+                let lower: Date;
+                switch (relativeDateRange.unit) {
+                    case TimeUnit.Second:
+                        lower = d3.time.second.offset(now, -amount);
+                        break;
+                    case TimeUnit.Minute:
+                        lower = d3.time.minute.offset(now, -amount);
+                        break;
+                    case TimeUnit.Hour:
+                        lower = d3.time.hour.offset(now, -amount);
+                        break;
+                    case TimeUnit.Day:
+                        lower = d3.time.day.offset(now, -amount);
+                        break;
+                    case TimeUnit.Week:
+                        lower = d3.time.week.offset(now, -amount);
+                        break;
+                    case TimeUnit.Month:
+                        lower = d3.time.month.offset(now, -amount);
+                        break;
+                    case TimeUnit.Year:
+                        lower = d3.time.year.offset(now, -amount);
+                        break;
+                    case TimeUnit.Decade:
+                        lower = d3.time.year.offset(now, -amount * 10);
+                        break;
+                }
+
+                return { lower: lower, upper: now };
+            }
+
+            /**
+             * Creates the filter for the given mode. The before mode only uses the upper bound and the after mode only the lower bound.
+             * Returns undefined when the range does not restrict the field.
+             */
+            export function createFilter(expr: SQExpr, type: ValueTypeDescriptor, mode: string, range: SlicerRange): SemanticFilter {
+                debug.assertValue(expr, 'expr');
+                debug.assertValue(range, 'range');
+
+                let lower = mode !== slicerMode.before && range.lower != null ? SQExprBuilder.typedConstant(range.lower, type) : undefined;
+                let upper = mode !== slicerMode.after && range.upper != null ? SQExprBuilder.typedConstant(range.upper, type) : undefined;
+
+                let filterExpr: SQExpr;
+                if (lower && upper)
+                    filterExpr = SQExprBuilder.between(expr, lower, upper);
+                else if (lower)
+                    filterExpr = SQExprBuilder.compare(QueryComparisonKind.GreaterThanOrEqual, expr, lower);
+                else if (upper)
+                    filterExpr = SQExprBuilder.compare(QueryComparisonKind.LessThanOrEqual, expr, upper);
+
+                if (filterExpr)
+                    return SemanticFilter.fromSQExpr(filterExpr);
+            }
+
+            /** Creates a filter which keeps the values between now and the given amount of time before now. */
+            export function createRelativeDateFilter(expr: SQExpr, relativeDateRange: RelativeDateRange): SemanticFilter {
+                debug.assertValue(expr, 'expr');
+                debug.assertValue(relativeDateRange, 'relativeDateRange');
+
+                let now = SQExprBuilder.now();
+                let start = SQExprBuilder.dateAdd(relativeDateRange.unit, -relativeDateRange.amount, now);
+                return SemanticFilter.fromSQExpr(SQExprBuilder.between(expr, start, now));
+            }
+
+            /** Reads the range back from a filter created by createFilter or createRelativeDateFilter. */
+            export function parseFilter(filter: SemanticFilter): SlicerRange {
+                if (!filter)
+                    return;
+
+                let conditions = filter.conditions();
+                if (conditions.length !== 1)
+                    return;
+
+                let condition = conditions[0];
+                if (condition instanceof SQBetweenExpr) {
+                    let betweenExpr = <SQBetweenExpr>condition;
+                    if (betweenExpr.lower instanceof SQDateAddExpr && betweenExpr.upper instanceof SQNowExpr) {
+                        let dateAddExpr = <SQDateAddExpr>betweenExpr.lower;
+                        let relativeDateRange = _.find(relativeDateRanges, (range) => range.unit === dateAddExpr.unit && range.amount === -dateAddExpr.amount);
+                        if (relativeDateRange)
+                            return { relativeDateRange: relativeDateRange.key };
+                        return;
+                    }
+
+                    if (betweenExpr.lower instanceof SQConstantExpr && betweenExpr.upper instanceof SQConstantExpr) {
+                        return {
+                            lower: (<SQConstantExpr>betweenExpr.lower).value,
+                            upper: (<SQConstantExpr>betweenExpr.upper).value,
+                        };
+                    }
+                }
+                else if (condition instanceof SQCompareExpr) {
+                    let compareExpr = <SQCompareExpr>condition;
+                    if (!(compareExpr.right instanceof SQConstantExpr))
+                        return;
+
+                    let value = (<SQConstantExpr>compareExpr.right).value;
+                    switch (compareExpr.comparison) {
+                        case QueryComparisonKind.GreaterThan:
+                        case QueryComparisonKind.GreaterThanOrEqual:
+                            return { lower: value };
+                        case QueryComparisonKind.LessThan:
+                        case QueryComparisonKind.LessThanOrEqual:
+                            return { upper: value };
+                    }
+                }
+            }
         }
 
         /** Helper class for creating and measuring slicer DOM elements  */
@@ -0,0 +1,486 @@
+/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved. 
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *   
+ *  The above copyright notice and this permission notice shall be included in 
+ *  all copies or substantial portions of the Software.
+ *   
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR 
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, 
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE 
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER 
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+/// <reference path="../_references.ts"/>
+
+module powerbi.visuals {
+    export interface SVGExportOptions {
+        /** The size of the image. Defaults to the size of the exported element. */
+        viewport?: IViewport;
+
+        /** The color filling the background of the image, transparent if not specified. */
+        background?: string;
+
+        /** The ratio of the PNG pixels to the CSS pixels of the element, for sharper images. Defaults to 1. */
+        scale?: number;
+    }
+
+    /**
+     * Snapshots what a visual rendered as a standalone SVG image or a PNG image.
+     * The computed styles are inlined, so the image does not depend on the style sheets of the page.
+     * The SVG elements (including the SVGLegend) are nested as is, while HTML content such as the tablix and
+     * card visuals is rendered through a foreignObject.
+     */
+    export module SVGExportUtil {
+        const svgNamespace = 'http://www.w3.org/2000/svg';
+        const xlinkNamespace = 'http://www.w3.org/1999/xlink';
+        const xmlnsNamespace = 'http://www.w3.org/2000/xmlns/';
+
+        /** Elements that are only used to interact with the visual, e.g. the navigation arrows of the legend. */
+        const excludedSelector = '.navArrow, script';
+
+        /** The properties inlined on SVG elements. */
+        const svgStyleProperties = [
+            'display', 'visibility', 'opacity',
+            'fill', 'fill-opacity', 'fill-rule',
+            'stroke', 'stroke-width', 'stroke-opacity', 'stroke-dasharray', 'stroke-linecap', 'stroke-linejoin',
+            'font-family', 'font-size', 'font-style', 'font-weight', 'letter-spacing', 'text-anchor', 'text-decoration',
+            'dominant-baseline', 'alignment-baseline', 'shape-rendering', 'white-space',
+        ];
+
+        /**
+         * The properties inlined on HTML elements, with the initial values that are not inlined.
+         * The initial value of the properties mapped to null depends on the element, so they are always inlined.
+         */
+        const htmlStyleProperties: _.Dictionary<string> = {
+            'display': null, 'width': null, 'height': null,
+            'position': 'static', 'top': 'auto', 'right': 'auto', 'bottom': 'auto', 'left': 'auto', 'z-index': 'auto',
+            'float': 'none', 'clear': 'none', 'box-sizing': 'content-box', 'overflow-x': 'visible', 'overflow-y': 'visible',
+            'margin-top': '0px', 'margin-right': '0px', 'margin-bottom': '0px', 'margin-left': '0px',
+            'padding-top': '0px', 'padding-right': '0px', 'padding-bottom': '0px', 'padding-left': '0px',
+            'border-top-width': '0px', 'border-right-width': '0px', 'border-bottom-width': '0px', 'border-left-width': '0px',
+            'border-top-style': 'none', 'border-right-style': 'none', 'border-bottom-style': 'none', 'border-left-style': 'none',
+            'border-top-color': null, 'border-right-color': null, 'border-bottom-color': null, 'border-left-color': null,
+            'border-top-left-radius': '0px', 'border-top-right-radius': '0px', 'border-bottom-right-radius': '0px', 'border-bottom-left-radius': '0px',
+            'background-color': 'rgba(0, 0, 0, 0)', 'background-image': 'none', 'background-position': null, 'background-size': null, 'background-repeat': null,
+            'opacity': '1', 'box-shadow': 'none', 'transform': 'none', 'transform-origin': null,
+            'flex-direction': 'row', 'flex-wrap': 'nowrap', 'flex-grow': '0', 'flex-shrink': '1', 'flex-basis': 'auto',
+            'justify-content': 'normal', 'align-items': 'normal', 'align-self': 'auto',
+            'vertical-align': 'baseline', 'text-decoration-line': 'none', 'text-overflow': 'clip', 'text-indent': '0px', 'text-shadow': 'none',
+            'table-layout': 'auto',
+            // Inherited properties
+            'color': null, 'font-family': null, 'font-size': null, 'font-style': null, 'font-weight': null, 'line-height': null,
+            'letter-spacing': null, 'text-align': null, 'text-transform': null, 'white-space': null, 'word-wrap': null,
+            'visibility': null, 'direction': null, 'border-collapse': null, 'border-spacing': null, 'list-style-type': null,
+        };
+
+        /** The inherited properties among the HTML properties, inlined only where they differ from the parent element. */
+        const inheritedStyleProperties = [
+            'color', 'font-family', 'font-size', 'font-style', 'font-weight', 'line-height',
+            'letter-spacing', 'text-align', 'text-transform', 'white-space', 'word-wrap',
+            'visibility', 'direction', 'border-collapse', 'border-spacing', 'list-style-type',
+        ];
+
+        /** Properties that have no effect while another property has its initial value. */
+        const dependentStyleProperties: _.Dictionary<string> = {
+            'border-top-color': 'border-top-style',
+            'border-right-color': 'border-right-style',
+            'border-bottom-color': 'border-bottom-style',
+            'border-left-color': 'border-left-style',
+            'background-position': 'background-image',
+            'background-size': 'background-image',
+            'background-repeat': 'background-image',
+            'transform-origin': 'transform',
+        };
+
+        const urlPattern = /url\((["']?)([^"')]+)\1\)/g;
+
+        /**
+         * Serializes the element a visual renders into (the element given to the visual on init) as an SVG image.
+         * Resolves once the files of the fonts it uses are embedded.
+         */
+        export function exportSvg(element: HTMLElement, options?: SVGExportOptions): JQueryPromise<string> {
+            debug.assertValue(element, 'element');
+
+            let fontFamilies: _.Dictionary<boolean> = {};
+            let svg = createSvg(element, options, fontFamilies);
+
+            return embedFontFaceRules(getFontFaceRules(fontFamilies)).then((fontFaceRules: string[]) => {
+                if (!_.isEmpty(fontFaceRules)) {
+                    let defs = document.createElementNS(svgNamespace, 'defs');
+                    let style = document.createElementNS(svgNamespace, 'style');
+                    style.setAttribute('type', 'text/css');
+                    style.textContent = fontFaceRules.join('\n');
+                    defs.appendChild(style);
+                    svg.insertBefore(defs, svg.firstChild);
+                }
+
+                return new XMLSerializer().serializeToString(svg);
+            });
+        }
+
+        /**
+         * Rasterizes the element a visual renders into as a PNG image, drawing its SVG image on an offscreen canvas.
+         * Resolves with the data URL of the PNG image.
+         */
+        export function exportPng(element: HTMLElement, options?: SVGExportOptions): JQueryPromise<string> {
+            debug.assertValue(element, 'element');
+
+            let deferred = $.Deferred<string>();
+            let viewport = getViewport(element, options);
+            let scale = options && options.scale > 0 ? options.scale : 1;
+
+            let image = new Image();
+            image.onload = () => {
+                let canvas = document.createElement('canvas');
+                canvas.width = Math.ceil(viewport.width * scale);
+                canvas.height = Math.ceil(viewport.height * scale);
+
+                let context = canvas.getContext('2d');
+                context.scale(scale, scale);
+                context.drawImage(image, 0, 0, viewport.width, viewport.height);
+
+                try {
+                    deferred.resolve(canvas.toDataURL('image/png'));
+                }
+                catch (e) {
+                    // The canvas is tainted when the image references resources of another origin
+                    deferred.reject(e);
+                }
+            };
+            image.onerror = (e) => deferred.reject(e);
+            exportSvg(element, options).then(
+                (svg: string) => image.src = 'data:image/svg+xml;charset=utf-8,' + encodeURIComponent(svg),
+                (e) => deferred.reject(e));
+
+            return deferred.promise();
+        }
+
+        function createSvg(element: HTMLElement, options: SVGExportOptions, fontFamilies: _.Dictionary<boolean>): SVGSVGElement {
+            let viewport = getViewport(element, options);
+
+            let svg = <SVGSVGElement>document.createElementNS(svgNamespace, 'svg');
+            svg.setAttributeNS(xmlnsNamespace, 'xmlns:xlink', xlinkNamespace);
+            setAttributes(svg, { width: viewport.width, height: viewport.height, viewBox: '0 0 ' + viewport.width + ' ' + viewport.height });
+
+            if (options && options.background) {
+                let background = document.createElementNS(svgNamespace, 'rect');
+                setAttributes(background, { width: '100%', height: '100%', fill: options.background });
+                svg.appendChild(background);
+            }
+
+            let origin = element.getBoundingClientRect();
+            for (let child of getChildElements(element))
+                appendElement(svg, child, origin, fontFamilies);
+
+            return svg;
+        }
+
+        /**
+         * Appends an element of the visual, positioned relatively to the origin of the visual: SVG images are
+         * nested, wrappers of SVG images are skipped and any other HTML content goes into a foreignObject.
+         */
+        function appendElement(svg: SVGSVGElement, element: Element, origin: ClientRect, fontFamilies: _.Dictionary<boolean>): void {
+            if (!isVisible(element))
+                return;
+
+            if (!isSvgElement(element) && hasOnlySvgContent(element)) {
+                for (let child of getChildElements(element))
+                    appendElement(svg, child, origin, fontFamilies);
+                return;
+            }
+
+            let bounds = getBounds(element, origin);
+            if (bounds.width <= 0 || bounds.height <= 0)
+                return;
+
+            let clone = <Element>element.cloneNode(true);
+            inlineStyles(element, clone, fontFamilies);
+            removeExcludedElements(clone);
+
+            if (isSvgElement(element)) {
+                setAttributes(clone, bounds);
+                svg.appendChild(clone);
+            }
+            else {
+                // The content keeps its layout, only the position of the element itself is replaced by the foreignObject
+                $(clone).css({ position: 'relative', left: 0, top: 0, margin: 0 });
+                replaceCanvases(element, clone);
+
+                let foreignObject = document.createElementNS(svgNamespace, 'foreignObject');
+                setAttributes(foreignObject, bounds);
+                foreignObject.appendChild(clone);
+                svg.appendChild(foreignObject);
+            }
+        }
+
+        function getViewport(element: HTMLElement, options: SVGExportOptions): IViewport {
+            if (options && options.viewport)
+                return options.viewport;
+
+            let $element = $(element);
+            return {
+                width: $element.width(),
+                height: $element.height(),
+            };
+        }
+
+        function getBounds(element: Element, origin: ClientRect): { x: number; y: number; width: number; height: number } {
+            let rect = element.getBoundingClientRect();
+            let $element = $(element);
+
+            return {
+                x: rect.left - origin.left,
+                y: rect.top - origin.top,
+                width: rect.width || $element.outerWidth(),
+                height: rect.height || $element.outerHeight(),
+            };
+        }
+
+        /**
+         * Copies the computed styles of the element and its descendants to the inline styles of their clones.
+         * HTML elements only get the properties that differ from their initial value, or from the parent element
+         * for inherited properties; the clone of the exported element itself inherits nothing from the page.
+         */
+        function inlineStyles(element: Element, clone: Element, fontFamilies: _.Dictionary<boolean>, parentStyle?: CSSStyleDeclaration): void {
+            let computedStyle = window.getComputedStyle(element);
+            let declarations: string[] = [];
+
+            if (isSvgElement(element)) {
+                for (let property of svgStyleProperties)
+                    addDeclaration(declarations, property, computedStyle.getPropertyValue(property));
+            }
+            else {
+                for (let property in htmlStyleProperties) {
+                    let value = computedStyle.getPropertyValue(property);
+                    if (!isDefaultValue(property, value, computedStyle, parentStyle))
+                        addDeclaration(declarations, property, value);
+                }
+            }
+
+            clone.setAttribute('style', declarations.join(';'));
+
+            let fontFamily = computedStyle.getPropertyValue('font-family');
+            if (fontFamily) {
+                for (let family of fontFamily.split(','))
+                    fontFamilies[trimFontFamily(family)] = true;
+            }
+
+            let children = getChildElements(element);
+            let cloneChildren = getChildElements(clone);
+            debug.assert(children.length === cloneChildren.length, 'the clone should have the same children as the element');
+
+            for (let i = 0, len = children.length; i < len; i++)
+                inlineStyles(children[i], cloneChildren[i], fontFamilies, computedStyle);
+        }
+
+        function isDefaultValue(property: string, value: string, computedStyle: CSSStyleDeclaration, parentStyle: CSSStyleDeclaration): boolean {
+            if (_.contains(inheritedStyleProperties, property))
+                return parentStyle != null && value === parentStyle.getPropertyValue(property);
+
+            let controllingProperty = dependentStyleProperties[property];
+            if (controllingProperty)
+                return computedStyle.getPropertyValue(controllingProperty) === htmlStyleProperties[controllingProperty];
+
+            return value === htmlStyleProperties[property];
+        }
+
+        function addDeclaration(declarations: string[], property: string, value: string): void {
+            if (value != null && value !== '')
+                declarations.push(property + ':' + value);
+        }
+
+        function removeExcludedElements(clone: Element): void {
+            $(clone).find(excludedSelector).remove();
+        }
+
+        /**
+         * Replaces the canvases of HTML content with images of what they drew, which a clone does not keep.
+         */
+        function replaceCanvases(element: Element, clone: Element): void {
+            let canvases = $(element).find('canvas');
+            let cloneCanvases = $(clone).find('canvas');
+
+            for (let i = 0, len = canvases.length; i < len; i++) {
+                let canvas = <HTMLCanvasElement>canvases[i];
+                let image = document.createElement('img');
+
+                try {
+                    image.src = canvas.toDataURL('image/png');
+                }
+                catch (e) {
+                    // A tainted canvas cannot be read, its area is left empty
+                }
+
+                image.setAttribute('style', cloneCanvases[i].getAttribute('style'));
+                cloneCanvases[i].parentNode.replaceChild(image, cloneCanvases[i]);
+            }
+        }
+
+        /**
+         * Gets the @font-face rules of the fonts used by the visual, so the image renders with the same fonts.
+         */
+        function getFontFaceRules(fontFamilies: _.Dictionary<boolean>): CSSFontFaceRule[] {
+            let rules: CSSFontFaceRule[] = [];
+            let styleSheets = document.styleSheets;
+
+            for (let i = 0, len = styleSheets.length; i < len; i++) {
+                let cssRules: CSSRuleList;
+                try {
+                    cssRules = (<CSSStyleSheet>styleSheets[i]).cssRules;
+                }
+                catch (e) {
+                    // The rules of style sheets from another origin cannot be read
+                    continue;
+                }
+
+                if (!cssRules)
+                    continue;
+
+                for (let j = 0, rulesLength = cssRules.length; j < rulesLength; j++) {
+                    let rule = cssRules[j];
+                    if (rule.type === CSSRule.FONT_FACE_RULE && fontFamilies[trimFontFamily((<CSSFontFaceRule>rule).style.getPropertyValue('font-family'))])
+                        rules.push(<CSSFontFaceRule>rule);
+                }
+            }
+
+            return rules;
+        }
+
+        /**
+         * Gets the text of the @font-face rules with their font files inlined as data URIs, since an image
+         * rasterized from a data URI cannot load external resources. A font file that fails to load keeps its URL.
+         */
+        function embedFontFaceRules(rules: CSSFontFaceRule[]): JQueryPromise<string[]> {
+            let embeddedRules = _.map(rules, (rule) => {
+                let cssText = rule.cssText;
+                let baseUrl = rule.parentStyleSheet && rule.parentStyleSheet.href;
+                let urls = _.uniq(_.map(cssText.match(urlPattern), (match) => match.replace(urlPattern, '$2')));
+                let requests = _.map(_.reject(urls, isDataUri), (url) =>
+                    getDataUri(resolveUrl(url, baseUrl)).then((dataUri: string) => {
+                        if (dataUri)
+                            cssText = cssText.split(url).join(dataUri);
+                    }));
+
+                return $.when.apply($, requests).then(() => cssText);
+            });
+
+            return $.when.apply($, embeddedRules).then((...cssTexts: string[]) => cssTexts);
+        }
+
+        /**
+         * Downloads a file as a data URI, resolving with undefined if it fails to load.
+         */
+        function getDataUri(url: string): JQueryPromise<string> {
+            let deferred = $.Deferred<string>();
+            let xhr = new XMLHttpRequest();
+
+            try {
+                xhr.open('GET', url, true);
+                xhr.responseType = 'arraybuffer';
+                xhr.onload = () => {
+                    if (xhr.status !== 200 && xhr.status !== 0) {
+                        deferred.resolve(undefined);
+                        return;
+                    }
+
+                    let bytes = new Uint8Array(xhr.response);
+                    let binary = '';
+                    for (let i = 0, len = bytes.length; i < len; i++)
+                        binary += String.fromCharCode(bytes[i]);
+
+                    let contentType = xhr.getResponseHeader('Content-Type') || 'application/octet-stream';
+                    deferred.resolve('data:' + contentType + ';base64,' + btoa(binary));
+                };
+                xhr.onerror = () => deferred.resolve(undefined);
+                xhr.send(null);
+            }
+            catch (e) {
+                deferred.resolve(undefined);
+            }
+
+            return deferred.promise();
+        }
+
+        /**
+         * Resolves a URL of a style sheet, which is relative to the style sheet rather than the page.
+         */
+        function resolveUrl(url: string, baseUrl: string): string {
+            if (baseUrl && !/^([a-z][a-z0-9+.-]*:|\/)/i.test(url))
+                url = baseUrl.replace(/[^\/]*$/, '') + url;
+
+            let anchor = document.createElement('a');
+            anchor.href = url;
+            return anchor.href;
+        }
+
+        function isDataUri(url: string): boolean {
+            return /^data:/i.test(url);
+        }
+
+        function trimFontFamily(fontFamily: string): string {
+            return $.trim(fontFamily).replace(/^["']|["']$/g, '');
+        }
+
+        function isVisible(element: Element): boolean {
+            if ($(element).is(excludedSelector))
+                return false;
+
+            let computedStyle = window.getComputedStyle(element);
+            return computedStyle.display !== 'none' && computedStyle.visibility !== 'hidden';
+        }
+
+        function isSvgElement(element: Element): boolean {
+            return element.namespaceURI === svgNamespace;
+        }
+
+        /**
+         * Returns true for HTML elements that only wrap SVG images, without any text of their own.
+         */
+        function hasOnlySvgContent(element: Element): boolean {
+            let children = getChildElements(element);
+            if (_.isEmpty(children))
+                return false;
+
+            for (let i = 0, len = element.childNodes.length; i < len; i++) {
+                let node = element.childNodes[i];
+                if (node.nodeType === Node.TEXT_NODE && $.trim(node.textContent) !== '')
+                    return false;
+            }
+
+            return _.all(children, (child) => isSvgElement(child) || !isVisible(child) || hasOnlySvgContent(child));
+        }
+
+        /**
+         * Gets the child elements; the children property is not supported on SVG elements by all browsers.
+         */
+        function getChildElements(element: Element): Element[] {
+            let children: Element[] = [];
+            for (let i = 0, len = element.childNodes.length; i < len; i++) {
+                let node = element.childNodes[i];
+                if (node.nodeType === Node.ELEMENT_NODE)
+                    children.push(<Element>node);
+            }
+
+            return children;
+        }
+
+        function setAttributes(element: Element, attributes: { [name: string]: any }): void {
+            for (let name in attributes)
+                element.setAttribute(name, String(attributes[name]));
+        }
+    }
+}
@@ -29,6 +29,7 @@
 module powerbi.visuals {
     import Color = jsCommon.Color;
     import DataRoleHelper = powerbi.data.DataRoleHelper;
+    import DataViewRegression = powerbi.data.DataViewRegression;
 
     export interface TrendLine {
         points: IPoint[];
@@ -40,6 +41,19 @@ module powerbi.visuals {
         combineSeries: boolean;
         useHighlightValues: boolean;
         y2Axis: boolean;
+        regressionType: string;
+        polynomialOrder: number;
+        movingAveragePeriod: number;
+        showEquation: boolean;
+        showRSquared: boolean;
+
+        /** The fitted equation, when the regression model can be expressed as one. */
+        equation?: string;
+
+        /** The coefficient of determination (R-squared) of the fitted model. */
+        rSquared?: number;
+
+        tooltipInfo?: VisualTooltipDataItem[];
     }
 
     export module TrendLineHelper {
@@ -51,6 +65,11 @@ module powerbi.visuals {
             export const style: string = 'style';
             export const combineSeries: string = 'combineSeries';
             export const useHighlightValues: string = 'useHighlightValues';
+            export const regressionType: string = 'regressionType';
+            export const polynomialOrder: string = 'polynomialOrder';
+            export const movingAveragePeriod: string = 'movingAveragePeriod';
+            export const showEquation: string = 'showEquation';
+            export const showRSquared: string = 'showRSquared';
         }
 
         const trendObjectName = 'trend';
@@ -61,9 +80,22 @@ module powerbi.visuals {
             transparency: 0,
             combineSeries: true,
             useHighlightValues: true,
+            regressionType: trendLineType.linear,
+            polynomialOrder: DataViewRegression.defaults.polynomialOrder,
+            movingAveragePeriod: DataViewRegression.defaults.movingAveragePeriod,
+            showEquation: false,
+            showRSquared: false,
         };
         const TrendLineClassSelector: jsCommon.CssConstants.ClassAndSelector = jsCommon.CssConstants.createClassAndSelector('trend-line');
         const TrendLineLayerClassSelector: jsCommon.CssConstants.ClassAndSelector = jsCommon.CssConstants.createClassAndSelector('trend-line-layer');
+        const TrendLineLabelClassSelector: jsCommon.CssConstants.ClassAndSelector = jsCommon.CssConstants.createClassAndSelector('trend-line-label');
+        const hasTooltipClass = 'has-tooltip';
+
+        /** The number of significant digits shown for the coefficients of an equation. */
+        const equationSignificantDigits = 4;
+        const superscriptDigits = ['\u2070', '\u00B9', '\u00B2', '\u00B3', '\u2074', '\u2075', '\u2076'];
+        const rSquaredName = 'R\u00B2';
+        const labelOffset = 6;
 
         export function enumerateObjectInstances(enumeration: ObjectEnumerationBuilder, trendLines: TrendLine[]): void {
             debug.assertValue(enumeration, 'enumeration');
@@ -77,6 +109,7 @@ module powerbi.visuals {
                         transparency: defaults.transparency,
                         style: defaults.lineStyle,
                         combineSeries: defaults.combineSeries,
+                        regressionType: defaults.regressionType,
                     },
                     objectName: trendObjectName,
                 });
@@ -96,6 +129,19 @@ module powerbi.visuals {
             properties['style'] = trendLine.style;
             properties['combineSeries'] = trendLine.combineSeries;
             properties['useHighlightValues'] = trendLine.useHighlightValues;
+            properties['regressionType'] = trendLine.regressionType;
+
+            if (trendLine.regressionType === trendLineType.polynomial)
+                properties['polynomialOrder'] = trendLine.polynomialOrder;
+
+            if (trendLine.regressionType === trendLineType.movingAverage) {
+                properties['movingAveragePeriod'] = trendLine.movingAveragePeriod;
+            }
+            else {
+                // A moving average has no equation to show
+                properties['showEquation'] = trendLine.showEquation;
+                properties['showRSquared'] = trendLine.showRSquared;
+            }
 
             enumeration.pushInstance({
                 selector: null,
@@ -129,6 +175,11 @@ module powerbi.visuals {
             let style = DataViewObject.getValue<string>(trendProperties, TrendLinePropertyNames.style, defaults.lineStyle);
             let combineSeries = DataViewObject.getValue<boolean>(trendProperties, TrendLinePropertyNames.combineSeries, defaults.combineSeries);
             let useHighlightValues = DataViewObject.getValue<boolean>(trendProperties, TrendLinePropertyNames.useHighlightValues, defaults.useHighlightValues);
+            let regressionType = DataViewObject.getValue<string>(trendProperties, TrendLinePropertyNames.regressionType, defaults.regressionType);
+            let polynomialOrder = DataViewObject.getValue<number>(trendProperties, TrendLinePropertyNames.polynomialOrder, defaults.polynomialOrder);
+            let movingAveragePeriod = DataViewObject.getValue<number>(trendProperties, TrendLinePropertyNames.movingAveragePeriod, defaults.movingAveragePeriod);
+            let showEquation = DataViewObject.getValue<boolean>(trendProperties, TrendLinePropertyNames.showEquation, defaults.showEquation);
+            let showRSquared = DataViewObject.getValue<boolean>(trendProperties, TrendLinePropertyNames.showRSquared, defaults.showRSquared);
 
             // Trend lines generated by Insights will be putting line color here, we should convert the Insights code to create
             // "trend" objects like above and write the upgrade code to handle pinned tiles with trend lines before removing any feature switch.
@@ -144,21 +195,15 @@ module powerbi.visuals {
             for (let groupIndex = 0; groupIndex < groups.length; groupIndex++) {
                 let group = groups[groupIndex];
 
+                // There is a assumption here that the group only has 1 set of values in it. Once we add more things like confidence bands,
+                // this assumption will not be true. This assumption comes from the way dataViewRegresion generates the dataView
+                let valueColumn = group.values[0];
+                let useHighlights = useHighlightValues && !!valueColumn.highlights;
+                let values = useHighlights ? valueColumn.highlights : valueColumn.values;
+
                 let points: IPoint[] = [];
                 for (let i = 0; i < categories.length; i++) {
                     let x = AxisHelper.normalizeNonFiniteNumber(categories[i]);
-
-                    // There is a assumption here that the group only has 1 set of values in it. Once we add more things like confidence bands,
-                    // this assumption will not be true. This assumption comes from the way dataViewRegresion generates the dataView
-                    let valueColumn = group.values[0];
-
-                    let values: any[];
-                    if (useHighlightValues && valueColumn.highlights) {
-                        values = valueColumn.highlights;
-                    }
-                    else {
-                        values = valueColumn.values;
-                    }
                     let y = AxisHelper.normalizeNonFiniteNumber(values[i]);
 
                     if (x != null && y != null) {
@@ -191,7 +236,7 @@ module powerbi.visuals {
                     }
                 }
 
-                trendLines.push({
+                let trendLine: TrendLine = {
                     points: points,
                     show: show,
                     displayName: displayName,
@@ -201,21 +246,135 @@ module powerbi.visuals {
                     combineSeries: combineSeries,
                     useHighlightValues: useHighlightValues,
                     y2Axis: y2,
-                });
+                    regressionType: regressionType,
+                    polynomialOrder: polynomialOrder,
+                    movingAveragePeriod: movingAveragePeriod,
+                    showEquation: showEquation,
+                    showRSquared: showRSquared,
+                };
+
+                let model = valueColumn.source.regression;
+                if (model && useHighlights)
+                    model = model.highlights;
+
+                if (model)
+                    applyRegressionModel(trendLine, model);
+
+                trendLines.push(trendLine);
             }
             return trendLines;
         }
 
+        function applyRegressionModel(trendLine: TrendLine, model: DataViewRegressionModel): void {
+            let tooltipInfo: VisualTooltipDataItem[] = [];
+
+            let equation = getEquation(model);
+            if (equation) {
+                trendLine.equation = equation;
+                tooltipInfo.push({ displayName: trendLine.displayName || 'y', value: equation });
+            }
+
+            if (model.rSquared != null && isFinite(model.rSquared)) {
+                trendLine.rSquared = model.rSquared;
+                tooltipInfo.push({ displayName: rSquaredName, value: formatNumber(model.rSquared) });
+            }
+
+            if (!_.isEmpty(tooltipInfo))
+                trendLine.tooltipInfo = tooltipInfo;
+        }
+
+        /**
+         * Gets the text of the equation of the given regression model, e.g. 'y = 2x + 1', or undefined if
+         * the model has no equation (moving average) or could not be expressed with finite coefficients.
+         */
+        export function getEquation(model: DataViewRegressionModel): string {
+            let coefficients = model.coefficients;
+            if (_.isEmpty(coefficients) || !_.all(coefficients, (coefficient) => isFinite(coefficient)))
+                return;
+
+            let expression: string;
+            switch (model.type) {
+                case trendLineType.linear:
+                case trendLineType.polynomial:
+                    let terms: EquationTerm[] = [];
+                    for (let power = coefficients.length - 1; power >= 0; power--) {
+                        terms.push({
+                            coefficient: coefficients[power],
+                            variable: power === 0 ? '' : 'x' + (power > 1 ? superscriptDigits[power] : ''),
+                        });
+                    }
+                    expression = joinTerms(terms);
+                    break;
+                case trendLineType.exponential:
+                    expression = formatNumber(coefficients[0]) + 'e^(' + formatNumber(coefficients[1]) + 'x)';
+                    break;
+                case trendLineType.logarithmic:
+                    expression = joinTerms([
+                        { coefficient: coefficients[1], variable: 'ln(x)' },
+                        { coefficient: coefficients[0], variable: '' },
+                    ]);
+                    break;
+                case trendLineType.power:
+                    expression = formatNumber(coefficients[0]) + 'x^' + formatNumber(coefficients[1]);
+                    break;
+                default:
+                    return;
+            }
+
+            return 'y = ' + expression;
+        }
+
+        /** Joins terms into a sum, e.g. '2x^2 - 3x + 1', omitting terms whose coefficient rounds to zero. */
+        function joinTerms(terms: EquationTerm[]): string {
+            let text = '';
+            for (let term of terms) {
+                let coefficient = roundToSignificantDigits(term.coefficient);
+                if (coefficient === 0)
+                    continue;
+
+                let isNegative = coefficient < 0;
+                let magnitude = Math.abs(coefficient);
+                let termText = (magnitude === 1 && term.variable) ? term.variable : formatNumber(magnitude) + term.variable;
+
+                if (!text)
+                    text = (isNegative ? '-' : '') + termText;
+                else
+                    text += (isNegative ? ' - ' : ' + ') + termText;
+            }
+
+            return text || '0';
+        }
+
+        function roundToSignificantDigits(value: number): number {
+            return parseFloat(value.toPrecision(equationSignificantDigits));
+        }
+
+        function formatNumber(value: number): string {
+            return valueFormatter.format(roundToSignificantDigits(value));
+        }
+
+        function getLabelText(trendLine: TrendLine): string {
+            let parts: string[] = [];
+            if (trendLine.showEquation && trendLine.equation)
+                parts.push(trendLine.equation);
+
+            if (trendLine.showRSquared && trendLine.rSquared != null)
+                parts.push(rSquaredName + ' = ' + formatNumber(trendLine.rSquared));
+
+            return parts.join('   ');
+        }
+
         export function darkenTrendLineColor(color: string): string {
             let rgb = Color.parseColorString(color);
             rgb = Color.darken(rgb, 20);
             return Color.rgbString(rgb);
         }
 
-        export function render(trendLines: TrendLine[], graphicsContext: D3.Selection, axes: CartesianAxisProperties, viewport: IViewport): void {
+        export function render(trendLines: TrendLine[], graphicsContext: D3.Selection, axes: CartesianAxisProperties, viewport: IViewport, tooltipService?: ITooltipService): void {
             let layer = graphicsContext.select(TrendLineLayerClassSelector.selector);
             if (layer.empty()) {
-                layer = graphicsContext.append('svg').classed(TrendLineLayerClassSelector.class, true);
+                // Under the data layers, so that the trend lines don't take the mouse events of the data points they cross
+                layer = graphicsContext.insert('svg', ':first-child').classed(TrendLineLayerClassSelector.class, true);
             }
 
             layer.attr({
@@ -227,9 +386,10 @@ module powerbi.visuals {
             lines.enter().append('path').classed(TrendLineClassSelector.class, true);
 
             lines
+                .classed(hasTooltipClass, (d: TrendLine) => !!tooltipService && !_.isEmpty(d.tooltipInfo))
                 .attr('d', (d: TrendLine) => {
                     let xScale = axes.x.scale;
-                    let yScale = (d.y2Axis && axes.y2) ? axes.y2.scale : axes.y1.scale;
+                    let yScale = getYScale(d, axes);
 
                     let pathGen = d3.svg.line()
                         .x((point: IPoint) => xScale(point.x))
@@ -264,6 +424,43 @@ module powerbi.visuals {
             });
 
             lines.exit().remove();
+
+            renderLabels(trendLines, layer, axes);
+
+            if (tooltipService) {
+                tooltipService.addTooltip(
+                    layer.selectAll(TrendLineClassSelector.selector + '.' + hasTooltipClass + ', ' + TrendLineLabelClassSelector.selector),
+                    (args: TooltipEventArgs<TrendLine>) => args.data.tooltipInfo,
+                    (args: TooltipEventArgs<TrendLine>) => null);
+            }
+        }
+
+        /** Renders the equation and R-squared of each trend line that asks for them, above the end of the line. */
+        function renderLabels(trendLines: TrendLine[], layer: D3.Selection, axes: CartesianAxisProperties): void {
+            let labeledTrendLines = _.filter(trendLines, (trendLine) => !_.isEmpty(trendLine.points) && !!getLabelText(trendLine));
+
+            let labels = layer.selectAll(TrendLineLabelClassSelector.selector).data(labeledTrendLines);
+            labels.enter().append('text').classed(TrendLineLabelClassSelector.class, true);
+
+            labels
+                .text((d: TrendLine) => getLabelText(d))
+                .attr({
+                    x: (d: TrendLine) => axes.x.scale(_.last(d.points).x),
+                    y: (d: TrendLine) => getYScale(d, axes)(_.last(d.points).y) - labelOffset,
+                    'text-anchor': 'end',
+                })
+                .style('fill', (d: TrendLine) => d.lineColor.solid.color);
+
+            labels.exit().remove();
         }
+
+        function getYScale(trendLine: TrendLine, axes: CartesianAxisProperties): D3.Scale.GenericScale<any> {
+            return (trendLine.y2Axis && axes.y2) ? axes.y2.scale : axes.y1.scale;
+        }
+    }
+
+    interface EquationTerm {
+        coefficient: number;
+        variable: string;
     }
 }
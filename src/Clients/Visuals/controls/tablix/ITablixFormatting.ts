@@ -55,6 +55,11 @@ module powerbi.visuals.controls {
         * Default is True
         */
         totals?: boolean;
+        /**
+        * Number of leading columns that stay in place while the remaining columns scroll horizontally
+        * Default is 0
+        */
+        frozenColumns?: number;
     }
 
     /**
@@ -218,6 +223,68 @@ module powerbi.visuals.controls {
         urlIcon?: boolean;
     }
 
+    /**
+     * Data bars drawn behind the values of a column
+    */
+    export interface TablixDataBarsFormatting {
+        /*
+        * Smallest value of the column, the bars are scaled between min and max
+        */
+        min: number;
+        /*
+        * Largest value of the column
+        */
+        max: number;
+        positiveColor: string;
+        negativeColor: string;
+        axisColor: string;
+    }
+
+    /**
+     * Icons shown next to the values of a column
+    */
+    export interface TablixIconSetFormatting {
+        /*
+        * Smallest value of the column, the thresholds are relative to the min to max range
+        */
+        min: number;
+        /*
+        * Largest value of the column
+        */
+        max: number;
+        /*
+        * One of the iconSetStyle values
+        */
+        style: string;
+        /*
+        * Values below this percentage of the range get the low icon
+        * Default is 33
+        */
+        lowerThreshold: number;
+        /*
+        * Values at or above this percentage of the range get the high icon
+        * Default is 67
+        */
+        upperThreshold: number;
+    }
+
+    /**
+     * Conditional formatting of the values of a single column
+    */
+    export interface TablixColumnConditionalFormatting {
+        backColorScale?: IColorAllocator;
+        fontColorScale?: IColorAllocator;
+        dataBars?: TablixDataBarsFormatting;
+        iconSet?: TablixIconSetFormatting;
+    }
+
+    /**
+     * Conditional formatting of the value columns, indexed by the queryName of the column
+    */
+    export interface TablixFormattingPropertiesConditional {
+        [queryName: string]: TablixColumnConditionalFormatting;
+    }
+
     /**
      * Formatting Properties for Table Visual
     */
@@ -227,6 +294,7 @@ module powerbi.visuals.controls {
         columnHeaders?: TablixFormattingPropertiesRegion;
         values?: TablixFormattingPropertiesValuesTable;
         total?: TablixFormattingPropertiesRegion;
+        conditionalFormatting?: TablixFormattingPropertiesConditional;
     }
 
     /**
@@ -240,5 +308,6 @@ module powerbi.visuals.controls {
         values?: TablixFormattingPropertiesValues;
         grandTotal?: TablixFormattingPropertiesMatrixGrandTotal;
         subtotals?: TablixFormattingPropertiesMatrixTotal;
+        conditionalFormatting?: TablixFormattingPropertiesConditional;
     }
 }
\ No newline at end of file
@@ -0,0 +1,407 @@
+/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved. 
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *   
+ *  The above copyright notice and this permission notice shall be included in 
+ *  all copies or substantial portions of the Software.
+ *   
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR 
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, 
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE 
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER 
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+/// <reference path="../../../_references.ts"/>
+
+module powerbi.visuals.controls.internal {
+    import TablixColumnConditionalFormatting = controls.TablixColumnConditionalFormatting;
+    import TablixDataBarsFormatting = controls.TablixDataBarsFormatting;
+    import TablixIconSetFormatting = controls.TablixIconSetFormatting;
+    import TablixFormattingPropertiesConditional = controls.TablixFormattingPropertiesConditional;
+
+    /**
+     * Conditional formatting (color scales, data bars and icon sets) of the Table and Matrix values.
+     * The settings live in the objects of each value column, persisted with the queryName of the column as selector.
+     */
+    export module TablixConditionalFormatting {
+        export const CssClassValueDataBar = "tablixValueDataBar";                                       // Body cells showing a data bar
+        export const CssClassDataBar = "tablixDataBar";                                                 // The bar behind the value
+        export const CssClassDataBarAxis = "tablixDataBarAxis";                                         // Axis between negative and positive bars
+        export const CssClassIcon = "tablixConditionalIcon";                                            // Icon set glyph
+
+        export interface DataBarGeometry {
+            /** Left edge of the bar, in percent of the cell width */
+            left: number;
+            /** Width of the bar, in percent of the cell width */
+            width: number;
+            /** Position of the axis, in percent of the cell width. Undefined if all values have the same sign */
+            axis?: number;
+        }
+
+        export function enumerateObjectInstances(enumeration: ObjectEnumerationBuilder, objectName: string, dataView: DataView, tablixType: TablixType): void {
+            let columns = getValueColumns(dataView, tablixType);
+            for (let column of columns) {
+                let objects = column.objects;
+                let properties: { [propertyName: string]: DataViewPropertyValue };
+
+                switch (objectName) {
+                    case TablixObjects.ObjectBackColorScale:
+                        properties = {
+                            show: TablixObjects.PropBackColorScaleShow.getValue<boolean>(objects),
+                            minColor: TablixObjects.PropBackColorScaleMinColor.getValue<string>(objects),
+                            maxColor: TablixObjects.PropBackColorScaleMaxColor.getValue<string>(objects),
+                            diverging: TablixObjects.PropBackColorScaleDiverging.getValue<boolean>(objects),
+                        };
+                        if (properties['diverging'])
+                            properties[TablixObjects.PropBackColorScaleMidColor.propertyName] = TablixObjects.PropBackColorScaleMidColor.getValue<string>(objects);
+                        break;
+                    case TablixObjects.ObjectFontColorScale:
+                        properties = {
+                            show: TablixObjects.PropFontColorScaleShow.getValue<boolean>(objects),
+                            minColor: TablixObjects.PropFontColorScaleMinColor.getValue<string>(objects),
+                            maxColor: TablixObjects.PropFontColorScaleMaxColor.getValue<string>(objects),
+                            diverging: TablixObjects.PropFontColorScaleDiverging.getValue<boolean>(objects),
+                        };
+                        if (properties['diverging'])
+                            properties[TablixObjects.PropFontColorScaleMidColor.propertyName] = TablixObjects.PropFontColorScaleMidColor.getValue<string>(objects);
+                        break;
+                    case TablixObjects.ObjectDataBars:
+                        properties = {
+                            show: TablixObjects.PropDataBarsShow.getValue<boolean>(objects),
+                            positiveColor: TablixObjects.PropDataBarsPositiveColor.getValue<string>(objects),
+                            negativeColor: TablixObjects.PropDataBarsNegativeColor.getValue<string>(objects),
+                            axisColor: TablixObjects.PropDataBarsAxisColor.getValue<string>(objects),
+                        };
+                        break;
+                    case TablixObjects.ObjectIconSet:
+                        properties = {
+                            show: TablixObjects.PropIconSetShow.getValue<boolean>(objects),
+                            style: TablixObjects.PropIconSetStyle.getValue<string>(objects),
+                            lowerThreshold: TablixObjects.PropIconSetLowerThreshold.getValue<number>(objects),
+                            upperThreshold: TablixObjects.PropIconSetUpperThreshold.getValue<number>(objects),
+                        };
+                        break;
+                    default:
+                        return;
+                }
+
+                enumeration.pushInstance({
+                    selector: { metadata: column.queryName },
+                    objectName: objectName,
+                    displayName: column.displayName,
+                    properties: properties,
+                });
+            }
+        }
+
+        /**
+         * Gets the conditional formatting of the Table columns, scaled to the values of the loaded rows.
+         */
+        export function getTableConditionalFormatting(dataView: DataView): TablixFormattingPropertiesConditional {
+            let formatting: TablixFormattingPropertiesConditional = {};
+            let table = dataView && dataView.table;
+            if (!table || _.isEmpty(table.columns) || !table.rows)
+                return formatting;
+
+            let columns = table.columns;
+            for (let i = 0, len = columns.length; i < len; i++) {
+                let column = columns[i];
+                if (!column.queryName || !hasConditionalFormatting(column.objects))
+                    continue;
+
+                let values = _.filter(_.map(table.rows, (row) => row[i]), _.isNumber);
+                let columnFormatting = createColumnFormatting(column.objects, values);
+                if (columnFormatting)
+                    formatting[column.queryName] = columnFormatting;
+            }
+
+            return formatting;
+        }
+
+        /**
+         * Gets the conditional formatting of the Matrix measures, scaled to the values of the loaded cells.
+         * Subtotals and grand totals are left out so that they do not flatten the scales.
+         */
+        export function getMatrixConditionalFormatting(dataView: DataView): TablixFormattingPropertiesConditional {
+            let formatting: TablixFormattingPropertiesConditional = {};
+            let matrix = dataView && dataView.matrix;
+            if (!matrix || _.isEmpty(matrix.valueSources) || !matrix.rows || !matrix.columns)
+                return formatting;
+
+            let valueSources = matrix.valueSources;
+            if (!_.some(valueSources, (source) => hasConditionalFormatting(source.objects)))
+                return formatting;
+
+            let values: number[][] = _.map(valueSources, () => []);
+            let columnLeaves = getLeafNodes(matrix.columns.root);
+            for (let rowLeaf of getLeafNodes(matrix.rows.root)) {
+                if (rowLeaf.isTotal || !rowLeaf.node.values)
+                    continue;
+
+                for (let i = 0, len = columnLeaves.length; i < len; i++) {
+                    let cell = rowLeaf.node.values[i];
+                    if (columnLeaves[i].isTotal || !cell || !_.isNumber(cell.value))
+                        continue;
+
+                    let sourceValues = values[cell.valueSourceIndex || 0];
+                    if (sourceValues)
+                        sourceValues.push(<number>cell.value);
+                }
+            }
+
+            for (let i = 0, len = valueSources.length; i < len; i++) {
+                let source = valueSources[i];
+                if (!source.queryName || !hasConditionalFormatting(source.objects))
+                    continue;
+
+                let columnFormatting = createColumnFormatting(source.objects, values[i]);
+                if (columnFormatting)
+                    formatting[source.queryName] = columnFormatting;
+            }
+
+            return formatting;
+        }
+
+        /**
+         * Gets the conditional formatting that applies to a body cell, undefined if none does.
+         * Totals and non numeric values are never formatted.
+         */
+        export function getCellFormatting(formatting: TablixFormattingPropertiesConditional, item: TablixUtils.TablixVisualCell): TablixColumnConditionalFormatting {
+            if (!formatting || !item || item.isTotal || !item.columnMetadata || !_.isNumber(item.dataPoint))
+                return;
+
+            return formatting[item.columnMetadata.queryName];
+        }
+
+        /**
+         * Overrides the font and background colors of the cell with the color scales of its column.
+         */
+        export function applyColorScales(columnFormatting: TablixColumnConditionalFormatting, value: number, style: TablixUtils.CellStyle): void {
+            if (columnFormatting.backColorScale)
+                style.backColor = columnFormatting.backColorScale.color(value);
+
+            if (columnFormatting.fontColorScale)
+                style.fontColor = columnFormatting.fontColorScale.color(value);
+        }
+
+        /**
+         * Adds the icon and the data bar of the column to the content of a cell, after its text has been set.
+         * @returns The extra width taken by the content
+         */
+        export function appendToCellContent(columnFormatting: TablixColumnConditionalFormatting, value: number, element: HTMLElement, iconSize: number): number {
+            let extraWidth = 0;
+
+            if (columnFormatting.iconSet) {
+                let icon = createIcon(columnFormatting.iconSet, value);
+                if (icon) {
+                    element.insertBefore(icon, element.firstChild);
+                    extraWidth += iconSize;
+                }
+            }
+
+            if (columnFormatting.dataBars) {
+                element.className += " " + CssClassValueDataBar;
+                appendDataBar(columnFormatting.dataBars, value, element);
+            }
+
+            return extraWidth;
+        }
+
+        /**
+         * Gets the position of the bar of a value within a cell. The axis sits at zero, or on the cell edge when all values have the same sign.
+         */
+        export function getDataBarGeometry(value: number, min: number, max: number): DataBarGeometry {
+            let lower = Math.min(min, 0);
+            let upper = Math.max(max, 0);
+            let range = upper - lower;
+            if (range === 0)
+                return { left: 0, width: 0 };
+
+            let clamped = Math.max(lower, Math.min(upper, value));
+            let geometry: DataBarGeometry = {
+                left: (Math.min(clamped, 0) - lower) / range * 100,
+                width: Math.abs(clamped) / range * 100,
+            };
+
+            if (lower < 0 && upper > 0)
+                geometry.axis = -lower / range * 100;
+
+            return geometry;
+        }
+
+        /**
+         * Gets the state of a value for an icon set: -1 below the lower threshold, 1 at or above the upper threshold, 0 in between.
+         */
+        export function getIconState(iconSet: TablixIconSetFormatting, value: number): number {
+            let range = iconSet.max - iconSet.min;
+            let percent = range === 0 ? 100 : (value - iconSet.min) / range * 100;
+
+            if (percent < iconSet.lowerThreshold)
+                return -1;
+            if (percent >= iconSet.upperThreshold)
+                return 1;
+            return 0;
+        }
+
+        /**
+         * Icon sets reuse the three state KPI status graphics.
+         */
+        export function getIconGraphic(style: string): string {
+            switch (style) {
+                case iconSetStyle.arrows:
+                    return 'VARIANCE ARROW';
+                case iconSetStyle.flags:
+                    return 'THREE FLAGS COLORED';
+                case iconSetStyle.symbols:
+                    return 'THREE SYMBOLS UNCIRCLED COLORED';
+                default:
+                    return 'THREE CIRCLES COLORED';
+            }
+        }
+
+        function getValueColumns(dataView: DataView, tablixType: TablixType): DataViewMetadataColumn[] {
+            let columns: DataViewMetadataColumn[];
+            if (tablixType === TablixType.Table)
+                columns = dataView.table && dataView.table.columns;
+            else
+                columns = dataView.matrix && dataView.matrix.valueSources;
+
+            return _.filter(columns, (column) => column.queryName && column.type && column.type.numeric && !column.kpi);
+        }
+
+        function hasConditionalFormatting(objects: DataViewObjects): boolean {
+            return TablixObjects.PropBackColorScaleShow.getValue<boolean>(objects)
+                || TablixObjects.PropFontColorScaleShow.getValue<boolean>(objects)
+                || TablixObjects.PropDataBarsShow.getValue<boolean>(objects)
+                || TablixObjects.PropIconSetShow.getValue<boolean>(objects);
+        }
+
+        function createColumnFormatting(objects: DataViewObjects, values: number[]): TablixColumnConditionalFormatting {
+            if (_.isEmpty(values))
+                return;
+
+            let min = _.min(values);
+            let max = _.max(values);
+            let columnFormatting: TablixColumnConditionalFormatting = {};
+
+            if (TablixObjects.PropBackColorScaleShow.getValue<boolean>(objects)) {
+                columnFormatting.backColorScale = createColorScale(min, max,
+                    TablixObjects.PropBackColorScaleMinColor.getValue<string>(objects),
+                    TablixObjects.PropBackColorScaleMaxColor.getValue<string>(objects),
+                    TablixObjects.PropBackColorScaleDiverging.getValue<boolean>(objects) ? TablixObjects.PropBackColorScaleMidColor.getValue<string>(objects) : undefined);
+            }
+
+            if (TablixObjects.PropFontColorScaleShow.getValue<boolean>(objects)) {
+                columnFormatting.fontColorScale = createColorScale(min, max,
+                    TablixObjects.PropFontColorScaleMinColor.getValue<string>(objects),
+                    TablixObjects.PropFontColorScaleMaxColor.getValue<string>(objects),
+                    TablixObjects.PropFontColorScaleDiverging.getValue<boolean>(objects) ? TablixObjects.PropFontColorScaleMidColor.getValue<string>(objects) : undefined);
+            }
+
+            if (TablixObjects.PropDataBarsShow.getValue<boolean>(objects)) {
+                columnFormatting.dataBars = {
+                    min: min,
+                    max: max,
+                    positiveColor: TablixObjects.PropDataBarsPositiveColor.getValue<string>(objects),
+                    negativeColor: TablixObjects.PropDataBarsNegativeColor.getValue<string>(objects),
+                    axisColor: TablixObjects.PropDataBarsAxisColor.getValue<string>(objects),
+                };
+            }
+
+            if (TablixObjects.PropIconSetShow.getValue<boolean>(objects)) {
+                columnFormatting.iconSet = {
+                    min: min,
+                    max: max,
+                    style: TablixObjects.PropIconSetStyle.getValue<string>(objects),
+                    lowerThreshold: TablixObjects.PropIconSetLowerThreshold.getValue<number>(objects),
+                    upperThreshold: TablixObjects.PropIconSetUpperThreshold.getValue<number>(objects),
+                };
+            }
+
+            return columnFormatting;
+        }
+
+        function createColorScale(min: number, max: number, minColor: string, maxColor: string, midColor?: string): IColorAllocator {
+            let colorAllocatorFactory = createColorAllocatorFactory();
+
+            if (midColor) {
+                return colorAllocatorFactory.linearGradient3({
+                    min: { value: min, color: minColor },
+                    mid: { value: (min + max) / 2, color: midColor },
+                    max: { value: max, color: maxColor },
+                }, false);
+            }
+
+            return colorAllocatorFactory.linearGradient2({
+                min: { value: min, color: minColor },
+                max: { value: max, color: maxColor },
+            });
+        }
+
+        function createIcon(iconSet: TablixIconSetFormatting, value: number): HTMLElement {
+            let kpi: DataViewKpiColumnMetadata = { graphic: getIconGraphic(iconSet.style) };
+            let className = KpiUtil.getClassForKpi(kpi, getIconState(iconSet, value));
+            if (!className)
+                return;
+
+            let icon = document.createElement('div');
+            icon.className = CssClassIcon + " " + className;
+            return icon;
+        }
+
+        function appendDataBar(dataBars: TablixDataBarsFormatting, value: number, element: HTMLElement): void {
+            let geometry = getDataBarGeometry(value, dataBars.min, dataBars.max);
+
+            let bar = document.createElement('div');
+            bar.className = CssClassDataBar;
+            bar.style.left = geometry.left + '%';
+            bar.style.width = geometry.width + '%';
+            bar.style.backgroundColor = value < 0 ? dataBars.negativeColor : dataBars.positiveColor;
+            element.appendChild(bar);
+
+            if (geometry.axis != null) {
+                let axis = document.createElement('div');
+                axis.className = CssClassDataBarAxis;
+                axis.style.left = geometry.axis + '%';
+                axis.style.borderLeftColor = dataBars.axisColor;
+                element.appendChild(axis);
+            }
+        }
+
+        interface MatrixLeafNode {
+            node: DataViewMatrixNode;
+            isTotal: boolean;
+        }
+
+        function getLeafNodes(root: DataViewMatrixNode): MatrixLeafNode[] {
+            let leaves: MatrixLeafNode[] = [];
+            let collect = (node: DataViewMatrixNode, isTotal: boolean) => {
+                if (_.isEmpty(node.children)) {
+                    leaves.push({ node: node, isTotal: isTotal });
+                    return;
+                }
+
+                for (let child of node.children)
+                    collect(child, isTotal || !!child.isSubtotal);
+            };
+
+            if (root)
+                collect(root, false);
+
+            return leaves;
+        }
+    }
+}
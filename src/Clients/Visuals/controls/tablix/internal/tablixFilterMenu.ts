@@ -0,0 +1,429 @@
+/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved. 
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *   
+ *  The above copyright notice and this permission notice shall be included in 
+ *  all copies or substantial portions of the Software.
+ *   
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR 
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, 
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE 
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER 
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+/// <reference path="../../../_references.ts"/>
+
+module powerbi.visuals.controls.internal {
+    import SQExpr = powerbi.data.SQExpr;
+    import SQExprBuilder = powerbi.data.SQExprBuilder;
+    import SQAndExpr = powerbi.data.SQAndExpr;
+    import SQCompareExpr = powerbi.data.SQCompareExpr;
+    import SQConstantExpr = powerbi.data.SQConstantExpr;
+    import SQContainsExpr = powerbi.data.SQContainsExpr;
+    import SQInExpr = powerbi.data.SQInExpr;
+    import SQNotExpr = powerbi.data.SQNotExpr;
+    import SemanticFilter = powerbi.data.SemanticFilter;
+    import QueryComparisonKind = powerbi.data.QueryComparisonKind;
+
+    /**
+     * Filter conditions of the Table columns, indexed by the queryName of the filtered column.
+     */
+    export interface TablixColumnFilterConditions {
+        [queryName: string]: SQExpr;
+    }
+
+    /**
+     * The parts of the condition of a column: the values unchecked in its header menu, and the search or top N
+     * condition they narrow, if any.
+     */
+    export interface TablixColumnConditionParts {
+        restriction?: SQExpr;
+        excludedValues: PrimitiveValue[];
+    }
+
+    /**
+     * Column filters of the Table header menus.
+     * The conditions of all the columns are AND'ed together and persisted as the self filter of the visual.
+     */
+    export module TablixColumnFilter {
+        export const selfFilterPropertyIdentifier: DataViewObjectPropertyIdentifier = { objectName: 'general', propertyName: 'selfFilter' };
+
+        /**
+         * Returns true if the column can be filtered from its header: grouping columns bound to a field.
+         */
+        export function canFilter(column: DataViewMetadataColumn): boolean {
+            return column != null && column.expr != null && !column.isMeasure;
+        }
+
+        export function getColumnKey(column: DataViewMetadataColumn): string {
+            return column.queryName ? column.queryName : column.displayName;
+        }
+
+        /**
+         * Gets the distinct values of a column in the loaded rows, in their order of appearance, followed by the values
+         * excluded by the condition of the column. The rows are filtered by that condition, so they lack those values.
+         */
+        export function getDistinctValues(rows: PrimitiveValue[][], columnIndex: number, condition?: SQExpr): PrimitiveValue[] {
+            let values: PrimitiveValue[] = [];
+            let keys: _.Dictionary<boolean> = {};
+            let addValue = (value: PrimitiveValue) => {
+                let key = getValueKey(value);
+                if (!keys[key]) {
+                    keys[key] = true;
+                    values.push(value);
+                }
+            };
+
+            for (let row of rows)
+                addValue(row[columnIndex]);
+
+            for (let value of splitCondition(condition).excludedValues)
+                addValue(value);
+
+            return values;
+        }
+
+        /**
+         * Creates the condition for the choices of a header menu, or undefined if they do not filter anything out.
+         * Top N takes precedence, then a search matching only checked values of a text column becomes a 'contains'
+         * condition (so it also applies to the rows not loaded yet), otherwise the unchecked values are excluded.
+         * @param values Distinct values of the column, see getDistinctValues
+         * @param selectedValues The values that are checked and match the search text
+         * @param matchingValues The values that match the search text
+         */
+        export function createCondition(
+            column: DataViewMetadataColumn,
+            values: PrimitiveValue[],
+            selectedValues: PrimitiveValue[],
+            matchingValues: PrimitiveValue[],
+            searchText: string,
+            topN: number): SQExpr {
+            debug.assertValue(column, 'column');
+
+            if (topN > 0 && column.type && column.type.numeric)
+                return createTopNCondition(column, values, topN);
+
+            if (!_.isEmpty(searchText) && column.type && column.type.text && selectedValues.length === matchingValues.length)
+                return SQExprBuilder.contains(<SQExpr>column.expr, SQExprBuilder.text(searchText));
+
+            if (selectedValues.length === values.length)
+                return;
+
+            let selectedKeys = _.map(selectedValues, getValueKey);
+            return createExcludedValuesCondition(column, _.filter(values, (value) => !_.contains(selectedKeys, getValueKey(value))));
+        }
+
+        /**
+         * Creates the condition removing the rows with one of the given values of the column.
+         * Excluding values rather than keeping the checked ones also keeps the rows that are not loaded yet.
+         */
+        export function createExcludedValuesCondition(column: DataViewMetadataColumn, values: PrimitiveValue[]): SQExpr {
+            debug.assertValue(column, 'column');
+            debug.assert(!_.isEmpty(values), 'values should not be empty');
+
+            let expr = <SQExpr>column.expr;
+            if (values.length === 1)
+                return SQExprBuilder.not(SQExprBuilder.equal(expr, SQExprBuilder.typedConstant(values[0], column.type)));
+
+            return SQExprBuilder.not(SQExprBuilder.inExpr([expr], _.map(values, (value) => [SQExprBuilder.typedConstant(value, column.type)])));
+        }
+
+        /**
+         * Creates the condition keeping the rows with one of the N highest values of a numeric column, or undefined
+         * if there are no more than N values. The values must include every value of the column.
+         */
+        export function createTopNCondition(column: DataViewMetadataColumn, values: PrimitiveValue[], topN: number): SQExpr {
+            let sortedValues = _.sortBy(_.filter(values, (value) => value != null), (value) => -value);
+            if (sortedValues.length <= topN)
+                return;
+
+            return SQExprBuilder.compare(
+                QueryComparisonKind.GreaterThanOrEqual,
+                <SQExpr>column.expr,
+                SQExprBuilder.typedConstant(sortedValues[topN - 1], column.type));
+        }
+
+        /**
+         * Splits the condition of a column into the values excluded by createExcludedValuesCondition and the rest.
+         */
+        export function splitCondition(condition: SQExpr): TablixColumnConditionParts {
+            let parts: TablixColumnConditionParts = { excludedValues: [] };
+            if (!condition)
+                return parts;
+
+            let exprs: SQExpr[] = [];
+            flattenAnd(condition, exprs);
+
+            for (let expr of exprs) {
+                let excludedValues = getExcludedValues(expr);
+                if (excludedValues)
+                    parts.excludedValues = parts.excludedValues.concat(excludedValues);
+                else
+                    parts.restriction = SQExprBuilder.and(parts.restriction, expr);
+            }
+
+            return parts;
+        }
+
+        /**
+         * Splits the self filter into the conditions of each column.
+         */
+        export function getColumnConditions(filter: SemanticFilter, columns: DataViewMetadataColumn[]): TablixColumnFilterConditions {
+            let conditions: TablixColumnFilterConditions = {};
+            if (!filter)
+                return conditions;
+
+            let exprs: SQExpr[] = [];
+            for (let condition of filter.conditions())
+                flattenAnd(condition, exprs);
+
+            for (let expr of exprs) {
+                let field = getConditionField(expr);
+                let column = field && _.find(columns, (column) => canFilter(column) && SQExpr.equals(<SQExpr>column.expr, field));
+                if (column) {
+                    let key = getColumnKey(column);
+                    conditions[key] = SQExprBuilder.and(conditions[key], expr);
+                }
+            }
+
+            return conditions;
+        }
+
+        /**
+         * Creates the self filter from the conditions of the columns, or undefined if there are none.
+         */
+        export function createFilter(conditions: TablixColumnFilterConditions): SemanticFilter {
+            let filterExpr: SQExpr;
+            for (let key in conditions) {
+                if (conditions[key])
+                    filterExpr = SQExprBuilder.and(filterExpr, conditions[key]);
+            }
+
+            if (filterExpr)
+                return SemanticFilter.fromSQExpr(filterExpr);
+        }
+
+        function getExcludedValues(condition: SQExpr): PrimitiveValue[] {
+            if (!(condition instanceof SQNotExpr))
+                return;
+
+            let arg = (<SQNotExpr>condition).arg;
+            if (arg instanceof SQCompareExpr && arg.comparison === QueryComparisonKind.Equal && arg.right instanceof SQConstantExpr)
+                return [(<SQConstantExpr>arg.right).value];
+
+            if (arg instanceof SQInExpr && arg.args.length === 1)
+                return _.map(arg.values, (tuple) => (<SQConstantExpr>tuple[0]).value);
+        }
+
+        function getConditionField(condition: SQExpr): SQExpr {
+            if (condition instanceof SQNotExpr)
+                return getConditionField(condition.arg);
+
+            if (condition instanceof SQCompareExpr)
+                return condition.left;
+
+            if (condition instanceof SQContainsExpr)
+                return condition.left;
+
+            if (condition instanceof SQInExpr && condition.args.length === 1)
+                return condition.args[0];
+        }
+
+        function flattenAnd(expr: SQExpr, result: SQExpr[]): void {
+            if (expr instanceof SQAndExpr) {
+                flattenAnd(expr.left, result);
+                flattenAnd(expr.right, result);
+            }
+            else {
+                result.push(expr);
+            }
+        }
+
+        export function getValueKey(value: PrimitiveValue): string {
+            if (value instanceof Date)
+                return 'd' + value.getTime();
+
+            return typeof value + ':' + value;
+        }
+    }
+
+    export interface TablixFilterMenuOptions {
+        column: DataViewMetadataColumn;
+        /** Distinct values of the column, see TablixColumnFilter.getDistinctValues */
+        values: PrimitiveValue[];
+        /** The current condition of the column, if any */
+        condition?: SQExpr;
+        /** Whether all the rows are loaded, which top N requires */
+        isComplete?: boolean;
+        format: (value: PrimitiveValue) => string;
+        localize: (stringId: string) => string;
+        /** Called with the new condition of the column, undefined to clear it */
+        onApply: (condition: SQExpr) => void;
+    }
+
+    /**
+     * Drop-down menu of a Table column header, offering value search, top N and a checklist of the column values.
+     */
+    export class TablixFilterMenu {
+        public static CssClassMenu = "tablixFilterMenu";
+        public static CssClassSearch = "tablixFilterSearch";
+        public static CssClassTopN = "tablixFilterTopN";
+        public static CssClassChecklist = "tablixFilterChecklist";
+        public static CssClassItem = "tablixFilterItem";
+        public static CssClassApply = "tablixFilterApply";
+        public static CssClassClear = "tablixFilterClear";
+
+        private options: TablixFilterMenuOptions;
+        private conditionParts: TablixColumnConditionParts;
+        private menu: JQuery;
+        private searchInput: JQuery;
+        private topNInput: JQuery;
+        private checklist: JQuery;
+        private checked: boolean[];
+
+        constructor(container: JQuery, options: TablixFilterMenuOptions) {
+            debug.assertValue(container, 'container');
+            debug.assertValue(options, 'options');
+
+            this.options = options;
+            this.conditionParts = TablixColumnFilter.splitCondition(options.condition);
+
+            let excludedKeys = _.map(this.conditionParts.excludedValues, TablixColumnFilter.getValueKey);
+            this.checked = _.map(options.values, (value) => !_.contains(excludedKeys, TablixColumnFilter.getValueKey(value)));
+
+            this.render(container);
+        }
+
+        public get element(): JQuery {
+            return this.menu;
+        }
+
+        public get column(): DataViewMetadataColumn {
+            return this.options.column;
+        }
+
+        public setPosition(left: number, top: number): void {
+            this.menu.css({ left: left, top: top });
+        }
+
+        public destroy(): void {
+            this.menu.remove();
+        }
+
+        /**
+         * Sends the condition for the current choices, unless nothing is selected.
+         * Unless it is replaced by a new search or top N condition, the current search or top N condition is kept:
+         * it may filter out values that are not listed, so only Clear removes it.
+         */
+        public apply(): void {
+            let column = this.options.column;
+            let searchText = this.getSearchText();
+            let matchingValues = _.filter(this.options.values, (value, index) => this.isMatch(value, searchText));
+            let selectedValues = _.filter(this.options.values, (value, index) => this.checked[index] && this.isMatch(value, searchText));
+            let topN = this.topNInput && !this.topNInput.prop('disabled') ? parseInt(this.topNInput.val(), 10) : NaN;
+
+            if (!(topN > 0) && _.isEmpty(selectedValues))
+                return;
+
+            let condition = TablixColumnFilter.createCondition(column, this.options.values, selectedValues, matchingValues, searchText, topN);
+            if (!(topN > 0) && !(condition instanceof SQContainsExpr))
+                condition = SQExprBuilder.and(this.conditionParts.restriction, condition);
+
+            this.options.onApply(condition);
+        }
+
+        private render(container: JQuery): void {
+            let localize = this.options.localize;
+
+            // Mouse events must not reach the header below, which would sort the column
+            this.menu = $('<div>')
+                .addClass(TablixFilterMenu.CssClassMenu)
+                .attr('drag-resize-disabled', 'true')
+                .on('click mousedown', (e: JQueryEventObject) => e.stopPropagation())
+                .appendTo(container);
+
+            this.searchInput = $('<input type="text">')
+                .addClass(TablixFilterMenu.CssClassSearch)
+                .attr('placeholder', localize(SlicerUtil.DisplayNameKeys.Search))
+                .on('input', () => this.renderChecklist())
+                .appendTo(this.menu);
+
+            let column = this.options.column;
+            if (column.type && column.type.numeric) {
+                let topN = $('<label>')
+                    .addClass(TablixFilterMenu.CssClassTopN)
+                    .text(localize('Table_Filter_TopN'))
+                    .appendTo(this.menu);
+                // The values are complete only when all the rows are loaded and the condition of the column
+                // doesn't hide any of them, other than the excluded values that are listed.
+                this.topNInput = $('<input type="number" min="1">')
+                    .prop('disabled', !this.options.isComplete || this.conditionParts.restriction != null)
+                    .appendTo(topN);
+            }
+
+            this.checklist = $('<div>')
+                .addClass(TablixFilterMenu.CssClassChecklist)
+                .appendTo(this.menu);
+            this.renderChecklist();
+
+            $('<button>')
+                .addClass(TablixFilterMenu.CssClassApply)
+                .text(localize('Table_Filter_Apply'))
+                .on('click', () => this.apply())
+                .appendTo(this.menu);
+
+            $('<button>')
+                .addClass(TablixFilterMenu.CssClassClear)
+                .text(localize(SlicerUtil.DisplayNameKeys.Clear))
+                .on('click', () => this.options.onApply(undefined))
+                .appendTo(this.menu);
+        }
+
+        private renderChecklist(): void {
+            let searchText = this.getSearchText();
+            this.checklist.empty();
+
+            this.options.values.forEach((value, index) => {
+                if (!this.isMatch(value, searchText))
+                    return;
+
+                let item = $('<label>')
+                    .addClass(TablixFilterMenu.CssClassItem)
+                    .appendTo(this.checklist);
+
+                $('<input type="checkbox">')
+                    .prop('checked', this.checked[index])
+                    .on('change', (e: JQueryEventObject) => this.checked[index] = (<HTMLInputElement>e.target).checked)
+                    .appendTo(item);
+
+                $('<span>')
+                    .text(this.options.format(value))
+                    .appendTo(item);
+            });
+        }
+
+        private getSearchText(): string {
+            return $.trim(this.searchInput.val());
+        }
+
+        private isMatch(value: PrimitiveValue, searchText: string): boolean {
+            if (_.isEmpty(searchText))
+                return true;
+
+            return this.options.format(value).toLowerCase().indexOf(searchText.toLowerCase()) >= 0;
+        }
+    }
+}
@@ -207,6 +207,10 @@ module powerbi.visuals.controls.internal {
             }
         }
 
+        public get isRightToLeft(): boolean {
+            return this._row.owner.owner.isRightToLeft;
+        }
+
         public scrollHorizontally(width: number, offset: number) {
             if (!this.isScrollable()) {
                 return;
@@ -223,7 +223,11 @@ module powerbi.visuals.controls.internal {
 
         // Protected
         public _hotSpot(position: { x: number; y: number; }) {
-            return position.x >= this.element.getBoundingClientRect().right - TablixResizer.resizeHandleSize;
+            let rect = this.element.getBoundingClientRect();
+            if (this._cell.isRightToLeft)
+                return position.x <= rect.left + TablixResizer.resizeHandleSize;
+
+            return position.x >= rect.right - TablixResizer.resizeHandleSize;
         }
     }
 
@@ -326,7 +330,11 @@ module powerbi.visuals.controls.internal {
         }
 
         public onHorizontalScroll(width: number, offset: number): void {
-            HTMLElementUtils.setElementLeft(this._contentHost, offset);
+            // Right-to-left content scrolls out of view past its right edge
+            if (this._owner.isRightToLeft)
+                HTMLElementUtils.setElementRight(this._contentHost, offset);
+            else
+                HTMLElementUtils.setElementLeft(this._contentHost, offset);
             HTMLElementUtils.setElementWidth(this._contentHost, width);
         }
 
@@ -337,6 +345,7 @@ module powerbi.visuals.controls.internal {
 
         public onInitializeScrolling(): void {
             HTMLElementUtils.setElementLeft(this._contentHost, 0);
+            HTMLElementUtils.setElementRight(this._contentHost, 0);
             HTMLElementUtils.setElementTop(this._contentHost, 0);
             HTMLElementUtils.setElementWidth(this._contentHost, -1);
             HTMLElementUtils.setElementHeight(this._contentHost, -1);
@@ -253,6 +253,28 @@ module powerbi.visuals.controls.internal {
             return contextualHeight;
         }
 
+        /**
+         * Gets the index of the first realized item that scrolls, past the other hierarchy and any frozen items.
+         */
+        public getScrollableItemsOffset(): number {
+            return this._gridOffset + this.dimension.getFrozenItemsCount();
+        }
+
+        /**
+         * Gets the contextual width of the realized frozen items.
+         */
+        public getFrozenItemsContextualWidth(): number {
+            let items = this._getRealizedItems();
+            let count = Math.min(this.getScrollableItemsOffset(), items.length);
+
+            let contextualWidth = 0;
+            for (let i = this._gridOffset; i < count; i++) {
+                contextualWidth += items[i].getContextualWidth();
+            }
+
+            return contextualWidth;
+        }
+
         public _isAutoSized(): boolean {
             debug.assertFail("PureVirtualMethod: DimensionLayoutManager._isAutoSized");
             return false;
@@ -302,7 +324,7 @@ module powerbi.visuals.controls.internal {
         }
 
         public get allItemsRealized(): boolean {
-            return this.getRealizedItemsCount() - this._gridOffset === this.dimension.getItemsCount() || this.dimension.getItemsCount() === 0;
+            return this.getRealizedItemsCount() - this.getScrollableItemsOffset() === this.dimension.getItemsCount() || this.dimension.getItemsCount() === 0;
         }
 
         public onEndRenderingIteration(): void {
@@ -347,7 +369,7 @@ module powerbi.visuals.controls.internal {
         private getScrollDeltaWithinPage(): number {
             if (this._lastScrollOffset !== null) {
                 let delta = this.dimension.getIntegerScrollOffset() - Math.floor(this._lastScrollOffset);
-                if (Math.abs(delta) < this.getRealizedItemsCount() - this.dimension.otherDimension.getDepth()) {
+                if (Math.abs(delta) < this.getRealizedItemsCount() - this.getScrollableItemsOffset()) {
                     return delta;
                 }
             }
@@ -357,14 +379,14 @@ module powerbi.visuals.controls.internal {
         private swapElements() {
             let delta = this.getScrollDeltaWithinPage();
             if (delta !== null) {
-                let otherHierarchyDepth = this.dimension.otherDimension.getDepth();
+                let scrollableItemsOffset = this.getScrollableItemsOffset();
 
-                if (Math.abs(delta) < this.getRealizedItemsCount() - otherHierarchyDepth) {
+                if (Math.abs(delta) < this.getRealizedItemsCount() - scrollableItemsOffset) {
                     if (delta > 0) {
-                        this._moveElementsToBottom(otherHierarchyDepth, delta);
+                        this._moveElementsToBottom(scrollableItemsOffset, delta);
                     }
                     else if (delta < 0) {
-                        this._moveElementsToTop(otherHierarchyDepth, -delta);
+                        this._moveElementsToTop(scrollableItemsOffset, -delta);
                     }
                 }
             }
@@ -412,12 +434,12 @@ module powerbi.visuals.controls.internal {
             if (count === 0)
                 return 0;
 
-            let startIndex = this._gridOffset;
+            let startIndex = this.getScrollableItemsOffset();
             let sizeInItems = 0;
             let sizeInPixels = 0;
 
             let widthToFill: number = this._contextualWidthToFill;
-            let scrollableArea = widthToFill - this.getOtherHierarchyContextualHeight();
+            let scrollableArea = widthToFill - this.getOtherHierarchyContextualHeight() - this.getFrozenItemsContextualWidth();
 
             let error = this.getMeaurementError(gridContextualWidth);
 
@@ -444,7 +466,7 @@ module powerbi.visuals.controls.internal {
         }
 
         public isScrollableHeader(item: any, items: any, index: number): boolean {
-            if (index !== 0 || this.dimension.getFractionScrollOffset() === 0) {
+            if (index !== this.dimension.getFrozenItemsCount() || this.dimension.getFractionScrollOffset() === 0) {
                 return false;
             }
 
@@ -475,7 +497,7 @@ module powerbi.visuals.controls.internal {
         }
 
         public reachedEnd(): boolean {
-            return this.dimension.getIntegerScrollOffset() + (this.getRealizedItemsCount() - this._gridOffset) >= this.dimension.getItemsCount();
+            return this.dimension.getIntegerScrollOffset() + (this.getRealizedItemsCount() - this.getScrollableItemsOffset()) >= this.dimension.getItemsCount();
         }
 
         public scrollBackwardToFill(gridContextualWidth: number): number {
@@ -506,7 +528,7 @@ module powerbi.visuals.controls.internal {
         public getSizeWithScrolling(size: number, index: number): number {
             let ratio;
 
-            if (this._gridOffset === index) {
+            if (this.getScrollableItemsOffset() === index) {
                 ratio = this.getVisibleSizeRatio();
             }
             else {
@@ -535,7 +557,7 @@ module powerbi.visuals.controls.internal {
                 let withinThreshold = Double.equalWithPrecision(gridContextualWidth, this._contextualWidthToFill, DimensionLayoutManager._pixelPrecision);
                 if (!withinThreshold) { // if it is within the threshold we consider it aligned, skip aliging algorithm
                     let count: number = this.getRealizedItemsCount();
-                    let startIndex = this._gridOffset;
+                    let startIndex = this.getScrollableItemsOffset();
                     let widthToScroll = gridContextualWidth - this._contextualWidthToFill;
 
                     let error = this.getMeaurementError(gridContextualWidth);
@@ -782,7 +804,7 @@ module powerbi.visuals.controls.internal {
         }
 
         private getFirstVisibleColumn(): TablixColumn {
-            return this._grid.realizedColumns[this._gridOffset];
+            return this._grid.realizedColumns[this.getScrollableItemsOffset()];
         }
 
         public _isAutoSized(): boolean {
@@ -824,12 +846,13 @@ module powerbi.visuals.controls.internal {
 
         private scrollBodyCells(rows: TablixRow[], width: number, offset: number): void {
             let length: number = rows.length;
+            let frozenCount: number = this.dimension.getFrozenItemsCount();
             let cells: TablixCell[];
             let cell: TablixCell;
             for (let i = 0; i < length; i++) {
                 cells = rows[i]._realizedBodyCells;
                 if (cells !== undefined) {
-                    cell = cells[0];
+                    cell = cells[frozenCount];
                     if (cell !== undefined) {
                         cell.scrollHorizontally(width, offset);
                     }
@@ -843,6 +866,9 @@ module powerbi.visuals.controls.internal {
 
         public onResize(cell: TablixCell, deltaX: number, deltaY: number): void {
             if (this.isResizing()) {
+                // Right-to-left columns grow as their left edge is dragged to the left
+                if (this.owner.owner.isRightToLeft)
+                    deltaX = -deltaX;
                 this._resizeState.resizingDelta = Math.round(Math.max(deltaX / this._resizeState.scale, ColumnLayoutManager.minColumnWidth - this._resizeState.startColumnWidth));
                 if (this._resizeState.animationFrame === null)
                     this._resizeState.animationFrame = requestAnimationFrame(() => this.performResizing());
@@ -915,7 +941,8 @@ module powerbi.visuals.controls.internal {
         public _sendDimensionsToControl(): void {
             let gridContextualWidth: number = this.getGridContextualWidth();
             let widthToFill: number = this.getActualContextualWidth(gridContextualWidth);
-            let otherContextualHeight = this.getOtherHierarchyContextualHeight();
+            // Frozen columns are reported along with the row hierarchy as they do not scroll
+            let otherContextualHeight = this.getOtherHierarchyContextualHeight() + this.getFrozenItemsContextualWidth();
             let scale = this.getGridScale(); // in case of canvas we have to convert the size from device pixel to css pixel
             this.owner.owner.updateColumnDimensions(otherContextualHeight / scale,
                 (widthToFill - otherContextualHeight) / scale,
@@ -1008,7 +1035,7 @@ module powerbi.visuals.controls.internal {
 
         protected canScroll(gridContextualWidth: number): boolean {
             return !Double.equalWithPrecision(this.dimension.scrollOffset, 0, DimensionLayoutManager._scrollOffsetPrecision) ||
-                (((this.getRealizedItemsCount() - this._gridOffset) < this.dimension.getItemsCount()) && this._contextualWidthToFill > 0) ||
+                (((this.getRealizedItemsCount() - this.getScrollableItemsOffset()) < this.dimension.getItemsCount()) && this._contextualWidthToFill > 0) ||
                 Double.greaterWithPrecision(gridContextualWidth, this._contextualWidthToFill, DimensionLayoutManager._pixelPrecision);
         }
 
@@ -1224,6 +1251,8 @@ module powerbi.visuals.controls.internal {
             this._container = owner.container;
             this._gridHost = owner.contentHost;
             this._footersHost = owner.footerHost;
+            if (owner.isRightToLeft)
+                this._gridHost.dir = this._footersHost.dir = 'rtl';
             this._grid.initialize(owner, this._gridHost, this._footersHost);
         }
 
@@ -1329,7 +1358,7 @@ module powerbi.visuals.controls.internal {
             let row: TablixRow = this._grid.getOrCreateRow(rowIndex + this._rowLayoutManager._gridOffset);
             let column: TablixColumn = this._grid.getOrCreateColumn(columnIndex + this._columnLayoutManager._gridOffset);
 
-            if (row._realizedBodyCells.length === 0 && this._owner.columnDimension.getFractionScrollOffset() !== 0) {
+            if (row._realizedBodyCells.length === this._owner.columnDimension.getFrozenItemsCount() && this._owner.columnDimension.getFractionScrollOffset() !== 0) {
                 scrollable = true;
             }
             else {
@@ -1347,7 +1376,7 @@ module powerbi.visuals.controls.internal {
             let row: TablixRow = this._grid.getOrCreateFootersRow();
             let column: TablixColumn = this._grid.getOrCreateColumn(columnIndex + this._columnLayoutManager._gridOffset);
 
-            scrollable = (row._realizedBodyCells.length === 0 && this._owner.columnDimension.getFractionScrollOffset() !== 0);
+            scrollable = (row._realizedBodyCells.length === this._owner.columnDimension.getFrozenItemsCount() && this._owner.columnDimension.getFractionScrollOffset() !== 0);
 
             let cell: TablixCell = row.getOrCreateFooterBodyCell(column, scrollable);
             cell.position = cellItem.position;
@@ -1667,7 +1696,7 @@ module powerbi.visuals.controls.internal {
         public updateColumnCount(rowDimension: TablixRowDimension, columnDimension: TablixColumnDimension): void {
             // The total number of columns is the number (depth) of row groups + the number of (leaf) column group instances
             let rowDimensionDepth = rowDimension ? rowDimension.getDepth() : 0;
-            let columnInstances = columnDimension ? columnDimension.getItemsCount() : 0;
+            let columnInstances = columnDimension ? columnDimension.getItemsCount() + columnDimension.getFrozenItemsCount() : 0;
             let totalColumnCount = rowDimensionDepth + columnInstances;
 
             // Adjust the column count by the static row header (if any)
@@ -244,30 +244,29 @@ module powerbi.visuals.controls.internal {
                 return;
             }
 
-            let binder: ITablixBinder = this.binder;
-            let hierarchyNavigator: ITablixHierarchyNavigator = this._owner.owner.owner.hierarchyNavigator;
-
+            let frozenCount: number = this._owner.dimension.getFrozenItemsCount();
             let startColumnIndex: number = this._owner.dimension.getIntegerScrollOffset();
             let endColumnIndex: number = this._owner.dimension.getItemsCount();
             let columnCount = endColumnIndex - startColumnIndex;
 
-            let startRowIndex: number = this._owner.otherLayoutManager.dimension.getIntegerScrollOffset();
-            let endRowIndex = this._owner.otherLayoutManager.dimension.getItemsCount();
-
             this.itemsEstimatedContextualWidth = 0;
 
             if (this._owner.alignToEnd) {
-                this.itemsToRealizeCount = columnCount;
+                this.itemsToRealizeCount = frozenCount + columnCount;
                 return;
             }
 
+            // Frozen columns are always realized, ahead of the scrollable ones
+            for (let i = 0; i < frozenCount; i++) {
+                this.itemsEstimatedContextualWidth += this.getEstimatedColumnWidth(i) * this.adjustmentFactor;
+            }
+
             for (let i = startColumnIndex; i < endColumnIndex; i++) {
                 if (Double.greaterOrEqualWithPrecision(this.itemsEstimatedContextualWidth, widthToFill, DimensionLayoutManager._pixelPrecision)) {
-                    this.itemsToRealizeCount = i - startColumnIndex;
+                    this.itemsToRealizeCount = frozenCount + i - startColumnIndex;
                     return;
                 }
 
-                let maxWidth = 0;
                 let visibleSizeRatio;
 
                 if (i === startColumnIndex) {
@@ -277,20 +276,38 @@ module powerbi.visuals.controls.internal {
                     visibleSizeRatio = 1;
                 }
 
-                let columnMember: any = hierarchyNavigator.getLeafAt(this._owner.dimension.model, i);
-                let label = binder.getHeaderLabel(columnMember);
-                maxWidth = Math.max(maxWidth, this._owner.getEstimatedHeaderWidth(label, i));
+                this.itemsEstimatedContextualWidth += this.getEstimatedColumnWidth(frozenCount + i) * visibleSizeRatio * this.adjustmentFactor;
+            }
 
-                for (let j = startRowIndex; j < endRowIndex; j++) {
-                    let intersection = hierarchyNavigator.getIntersection(hierarchyNavigator.getLeafAt(this._owner.otherLayoutManager.dimension.model, j), columnMember);
-                    label = binder.getCellContent(intersection);
-                    maxWidth = Math.max(maxWidth, this._owner.getEstimatedBodyCellWidth(label));
-                }
+            this.itemsToRealizeCount = frozenCount + columnCount;
+        }
 
-                this.itemsEstimatedContextualWidth += maxWidth * visibleSizeRatio * this.adjustmentFactor;
+        /**
+         * Estimates the width of a column leaf from its header and the body cells of the rows about to be realized,
+         * so the content of rows that are scrolled out of view is never measured.
+         */
+        private getEstimatedColumnWidth(leafIndex: number): number {
+            let binder: ITablixBinder = this.binder;
+            let hierarchyNavigator: ITablixHierarchyNavigator = this._owner.owner.owner.hierarchyNavigator;
+            let rowDimension: TablixDimension = this._owner.otherLayoutManager.dimension;
+
+            let startRowIndex: number = rowDimension.getIntegerScrollOffset();
+            let endRowIndex: number = rowDimension.getItemsCount();
+            let rowsToRealizeCount: number = this.rowRealizationManager.itemsToRealizeCount;
+            if (rowsToRealizeCount != null)
+                endRowIndex = Math.min(endRowIndex, startRowIndex + rowsToRealizeCount);
+
+            let columnMember: any = hierarchyNavigator.getLeafAt(this._owner.dimension.model, leafIndex);
+            let label = binder.getHeaderLabel(columnMember);
+            let maxWidth = this._owner.getEstimatedHeaderWidth(label, leafIndex);
+
+            for (let j = startRowIndex; j < endRowIndex; j++) {
+                let intersection = hierarchyNavigator.getIntersection(hierarchyNavigator.getLeafAt(rowDimension.model, j), columnMember);
+                label = binder.getCellContent(intersection);
+                maxWidth = Math.max(maxWidth, this._owner.getEstimatedBodyCellWidth(label));
             }
 
-            this.itemsToRealizeCount = columnCount;
+            return maxWidth;
         }
 
         public _getSizeAdjustment(gridContextualWidth: number): number {
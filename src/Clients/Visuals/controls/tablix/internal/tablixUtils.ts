@@ -46,6 +46,10 @@ module powerbi.visuals.controls {
             element.style.left = left + "px";
         }
 
+        export function setElementRight(element: HTMLElement, right: number): void {
+            element.style.right = right + "px";
+        }
+
         export function setElementHeight(element: HTMLElement, height: number): void {
             if (HTMLElementUtils.isAutoSize(height))
                 element.style.height = "";
@@ -115,6 +119,10 @@ module powerbi.visuals.controls.internal {
         export const ObjectValues: string = "values";
         export const ObjectTotal: string = "total";
         export const ObjectSubTotals: string = "subTotals";
+        export const ObjectBackColorScale: string = "backColorScale";
+        export const ObjectFontColorScale: string = "fontColorScale";
+        export const ObjectDataBars: string = "dataBars";
+        export const ObjectIconSet: string = "iconSet";
 
         export interface ObjectValueGetterFunction {
             <T>(objects: DataViewObjects, propertyId: DataViewObjectPropertyIdentifier, defaultValue?: T): T;
@@ -170,6 +178,7 @@ module powerbi.visuals.controls.internal {
         export const PropGeneralAutoSizeColumns = new TablixProperty(ObjectGeneral, 'autoSizeColumnWidth', true, DataViewObjects.getValue);
         export const PropGeneralTextSize = new TablixProperty(ObjectGeneral, 'textSize', 8, DataViewObjects.getValue);
         export const PropGeneralTableTotals = new TablixProperty(ObjectGeneral, 'totals', true, DataViewObjects.getValue);
+        export const PropGeneralTableFrozenColumns = new TablixProperty(ObjectGeneral, 'frozenColumns', 0, DataViewObjects.getValue);
         export const PropGeneralMatrixRowSubtotals = new TablixProperty(ObjectGeneral, 'rowSubtotals', true, DataViewObjects.getValue);
         export const PropGeneralMatrixColumnSubtotals = new TablixProperty(ObjectGeneral, 'columnSubtotals', true, DataViewObjects.getValue);
 
@@ -190,11 +199,15 @@ module powerbi.visuals.controls.internal {
         export const PropColumnsFontColor = new TablixProperty(ObjectColumnHeaders, 'fontColor', "#666", DataViewObjects.getFillColor);
         export const PropColumnsBackColor = new TablixProperty(ObjectColumnHeaders, 'backColor', undefined, DataViewObjects.getFillColor);
         export const PropColumnsOutline = new TablixProperty(ObjectColumnHeaders, 'outline', "BottomOnly", DataViewObjects.getValue);
+        export const PropColumnsCollapsed = new TablixProperty(ObjectColumnHeaders, 'collapsed', false, DataViewObjects.getValue);
+        export const PropColumnsCollapsedGroups = new TablixProperty(ObjectColumnHeaders, 'collapsedGroups', false, DataViewObjects.getValue);
 
         // Row Headers
         export const PropRowsFontColor = new TablixProperty(ObjectRowHeaders, 'fontColor', "#666", DataViewObjects.getFillColor);
         export const PropRowsBackColor = new TablixProperty(ObjectRowHeaders, 'backColor', undefined, DataViewObjects.getFillColor);
         export const PropRowsOutline = new TablixProperty(ObjectRowHeaders, 'outline', "RightOnly", DataViewObjects.getValue);
+        export const PropRowsCollapsed = new TablixProperty(ObjectRowHeaders, 'collapsed', false, DataViewObjects.getValue);
+        export const PropRowsCollapsedGroups = new TablixProperty(ObjectRowHeaders, 'collapsedGroups', false, DataViewObjects.getValue);
 
         // Values
         export const PropValuesBackColor = new TablixProperty(ObjectValues, 'backColor', undefined, DataViewObjects.getFillColor);
@@ -220,6 +233,26 @@ module powerbi.visuals.controls.internal {
         export const PropGrandTotalBackColor = new TablixProperty(ObjectTotal, 'backColor', undefined, DataViewObjects.getFillColor);
         export const PropGrandTotalApplyToHeaders = new TablixProperty(ObjectTotal, "applyToHeaders", false, DataViewObjects.getValue);
 
+        // Per Column Conditional Formatting
+        export const PropBackColorScaleShow = new TablixProperty(ObjectBackColorScale, 'show', false, DataViewObjects.getValue);
+        export const PropBackColorScaleMinColor = new TablixProperty(ObjectBackColorScale, 'minColor', "#F8696B", DataViewObjects.getFillColor);
+        export const PropBackColorScaleMidColor = new TablixProperty(ObjectBackColorScale, 'midColor', "#FFEB84", DataViewObjects.getFillColor);
+        export const PropBackColorScaleMaxColor = new TablixProperty(ObjectBackColorScale, 'maxColor', "#63BE7B", DataViewObjects.getFillColor);
+        export const PropBackColorScaleDiverging = new TablixProperty(ObjectBackColorScale, 'diverging', false, DataViewObjects.getValue);
+        export const PropFontColorScaleShow = new TablixProperty(ObjectFontColorScale, 'show', false, DataViewObjects.getValue);
+        export const PropFontColorScaleMinColor = new TablixProperty(ObjectFontColorScale, 'minColor', "#C00000", DataViewObjects.getFillColor);
+        export const PropFontColorScaleMidColor = new TablixProperty(ObjectFontColorScale, 'midColor', "#BF8F00", DataViewObjects.getFillColor);
+        export const PropFontColorScaleMaxColor = new TablixProperty(ObjectFontColorScale, 'maxColor', "#00803C", DataViewObjects.getFillColor);
+        export const PropFontColorScaleDiverging = new TablixProperty(ObjectFontColorScale, 'diverging', false, DataViewObjects.getValue);
+        export const PropDataBarsShow = new TablixProperty(ObjectDataBars, 'show', false, DataViewObjects.getValue);
+        export const PropDataBarsPositiveColor = new TablixProperty(ObjectDataBars, 'positiveColor', "#5B9BD5", DataViewObjects.getFillColor);
+        export const PropDataBarsNegativeColor = new TablixProperty(ObjectDataBars, 'negativeColor', "#F8696B", DataViewObjects.getFillColor);
+        export const PropDataBarsAxisColor = new TablixProperty(ObjectDataBars, 'axisColor', "#666", DataViewObjects.getFillColor);
+        export const PropIconSetShow = new TablixProperty(ObjectIconSet, 'show', false, DataViewObjects.getValue);
+        export const PropIconSetStyle = new TablixProperty(ObjectIconSet, 'style', iconSetStyle.trafficLights, DataViewObjects.getValue);
+        export const PropIconSetLowerThreshold = new TablixProperty(ObjectIconSet, 'lowerThreshold', 33, DataViewObjects.getValue);
+        export const PropIconSetUpperThreshold = new TablixProperty(ObjectIconSet, 'upperThreshold', 67, DataViewObjects.getValue);
+
         /**
          * Get the DataViewObject from the DataView
          * @param {DataView} dataview The DataView
@@ -301,6 +334,12 @@ module powerbi.visuals.controls.internal {
                     if (totalsShown)
                         enumerateSubTotalsOptions(enumeration, objects);
                     break;
+                case TablixObjects.ObjectBackColorScale:
+                case TablixObjects.ObjectFontColorScale:
+                case TablixObjects.ObjectDataBars:
+                case TablixObjects.ObjectIconSet:
+                    TablixConditionalFormatting.enumerateObjectInstances(enumeration, options.objectName, dataView, tablixType);
+                    break;
                 default:
                     break;
             }
@@ -323,6 +362,7 @@ module powerbi.visuals.controls.internal {
                 case TablixType.Table:
                     if (shouldShowTableTotalsOption(dataView))
                         properties[TablixObjects.PropGeneralTableTotals.propertyName] = shouldShowTableTotals(objects);
+                    properties[TablixObjects.PropGeneralTableFrozenColumns.propertyName] = getTableFrozenColumns(objects);
                     break;
 
                 case TablixType.Matrix:
@@ -460,6 +500,7 @@ module powerbi.visuals.controls.internal {
                     autoSizeColumnWidth: TablixObjects.PropGeneralAutoSizeColumns.getValue<boolean>(objects),
                     textSize: TablixObjects.PropGeneralTextSize.getValue<number>(objects),
                     totals: shouldShowTableTotals(objects),
+                    frozenColumns: getTableFrozenColumns(objects),
                 },
             };
 
@@ -497,6 +538,8 @@ module powerbi.visuals.controls.internal {
                 outline: TablixObjects.PropTotalOutline.getValue<string>(objects),
             };
 
+            formattingProperties.conditionalFormatting = TablixConditionalFormatting.getTableConditionalFormatting(dataView);
+
             return formattingProperties;
         }
 
@@ -556,9 +599,67 @@ module powerbi.visuals.controls.internal {
                 backColor: TablixObjects.PropSubTotalsBackColor.getValue<string>(objects),
             };
 
+            formattingProperties.conditionalFormatting = TablixConditionalFormatting.getMatrixConditionalFormatting(dataView);
+
             return formattingProperties;
         }
 
+        /**
+         * Overrides the formatting of the Table/Matrix with the high contrast colors of the theme:
+         * text, gridlines and data bars use the foreground, cells use the background and color scales are dropped
+         */
+        export function applyHighContrastColors(formattingProperties: TablixFormattingPropertiesTable | TablixFormattingPropertiesMatrix, colors: HighContrastColors): void {
+            debug.assertValue(formattingProperties, 'formattingProperties');
+            debug.assertValue(colors, 'colors');
+
+            let foreground = colors.foreground;
+            let background = colors.background;
+
+            let grid = formattingProperties.grid;
+            if (grid) {
+                grid.gridVerticalColor = foreground;
+                grid.gridHorizontalColor = foreground;
+                grid.outlineColor = foreground;
+            }
+
+            let matrixProperties = <TablixFormattingPropertiesMatrix>formattingProperties;
+            let regions: TablixFormattingPropertiesMatrixTotal[] = [
+                formattingProperties.columnHeaders,
+                matrixProperties.rowHeaders,
+                (<TablixFormattingPropertiesTable>formattingProperties).total,
+                matrixProperties.grandTotal,
+                matrixProperties.subtotals,
+            ];
+            for (let region of regions) {
+                if (region) {
+                    region.fontColor = foreground;
+                    region.backColor = background;
+                }
+            }
+
+            let values = formattingProperties.values;
+            if (values) {
+                values.fontColorPrimary = foreground;
+                values.fontColorSecondary = foreground;
+                values.backColorPrimary = background;
+                values.backColorSecondary = background;
+            }
+
+            let conditionalFormatting = formattingProperties.conditionalFormatting;
+            if (conditionalFormatting) {
+                for (let queryName in conditionalFormatting) {
+                    let columnFormatting = conditionalFormatting[queryName];
+                    columnFormatting.backColorScale = undefined;
+                    columnFormatting.fontColorScale = undefined;
+                    if (columnFormatting.dataBars) {
+                        columnFormatting.dataBars.positiveColor = foreground;
+                        columnFormatting.dataBars.negativeColor = foreground;
+                        columnFormatting.dataBars.axisColor = foreground;
+                    }
+                }
+            }
+        }
+
         /**
          * Generate default objects for the Table/Matrix to set default styling
          * @param {TablixType} tablixType Tablix Type: table | matrix
@@ -584,6 +685,14 @@ module powerbi.visuals.controls.internal {
             return TablixObjects.PropGeneralTableTotals.getValue<boolean>(objects);
         }
 
+        /**
+         * Gets the number of frozen leading columns of a Table, ignoring negative and fractional values.
+         */
+        export function getTableFrozenColumns(objects: DataViewObjects): number {
+            let frozenColumns = TablixObjects.PropGeneralTableFrozenColumns.getValue<number>(objects);
+            return frozenColumns > 0 ? Math.floor(frozenColumns) : 0;
+        }
+
         function shouldShowTableTotalsOption(dataView: DataView): boolean {
             if (dataView && dataView.table && !_.isEmpty(dataView.table.columns)) {
                 let columns = dataView.table.columns;
@@ -616,6 +725,20 @@ module powerbi.visuals.controls.internal {
             return TablixObjects.PropGeneralMatrixColumnSubtotals.getValue<boolean>(objects);
         }
 
+        /**
+         * Returns true if any row group of the Matrix is collapsed, in which case the row subtotals are needed to show its values.
+         */
+        export function hasCollapsedRowGroups(objects: DataViewObjects): boolean {
+            return TablixObjects.PropRowsCollapsedGroups.getValue<boolean>(objects);
+        }
+
+        /**
+         * Returns true if any column group of the Matrix is collapsed, in which case the column subtotals are needed to show its values.
+         */
+        export function hasCollapsedColumnGroups(objects: DataViewObjects): boolean {
+            return TablixObjects.PropColumnsCollapsedGroups.getValue<boolean>(objects);
+        }
+
         export function shouldShowColumnSubtotalsOption(dataView: DataView): boolean {
             return !(dataView &&
                 dataView.matrix &&
@@ -647,6 +770,11 @@ module powerbi.visuals.controls.internal {
 
         export const CssClassMatrixRowHeaderLeaf = "matrixRowHeaderLeaf";                               // Matrix Leaf Row Headers
         export const CssClassMatrixRowHeaderSubTotal = "matrixRowHeaderSubTotal";                       // Matrix SubTotal Row Headers
+        export const CssClassMatrixExpandCollapse = "matrixExpandCollapse";                             // Expand/Collapse toggle of Matrix group Headers
+
+        export const CssClassTableSortOrdinal = 'tableSortOrdinal';                                     // Position of a column in a multi-column sort
+        export const CssClassTableFilterIcon = 'tableFilterIcon';                                       // Drop-down toggle of the Table column filter menu
+        export const CssClassTableFilterIconActive = 'filtered';                                        // Filter toggle of a filtered column
 
         export const CssClassTableFooter = 'tableFooterCell';                                           // Any cell in the Footer area
         export const CssClassTableBodyCell = 'tableBodyCell';                                           // Any cell in the Table Body
@@ -660,6 +788,7 @@ module powerbi.visuals.controls.internal {
         export const CellPaddingRight: number = 5;
         export const CellPaddingLeftMatrixTotal: number = 5;
         export const SortIconPadding: number = 5;
+        export const ExpandCollapsePadding: number = 4;
         export const ImageDefaultAspectRatio: number = 1;
         export const FontFamilyCell: string = Font.Family.regular.css;
         export const FontFamilyHeader: string = Font.Family.regular.css;
@@ -1032,9 +1161,13 @@ module powerbi.visuals.controls.internal {
             (elementTooltip || elementText).title = text;
         }
 
-        export function isValidSortClick(e: MouseEvent) {
+        export function isValidSortClick(e: MouseEvent, isRightToLeft?: boolean) {
             let colHeader = <HTMLElement>e.target;
             let x = e.offsetX;
+            // The resize handle sits on the left edge of a right-to-left column header
+            if (isRightToLeft)
+                return x >= TablixResizer.resizeHandleSize && x < colHeader.offsetWidth;
+
             return x >= 0 && x < colHeader.offsetWidth - TablixResizer.resizeHandleSize;
         }
 
@@ -1097,6 +1230,50 @@ module powerbi.visuals.controls.internal {
             return !!KpiUtil.getClassForKpi(kpi, kpiValue);
         }
 
+        /**
+         * Updates the sort descriptors for a click on a column header: a plain click sorts by the column alone,
+         * while extending the sort (shift-click) appends the column or changes its direction in place.
+         */
+        export function updateSortDescriptors(sortDescriptors: SortableFieldDescriptor[], queryName: string, sortDirection: SortDirection, extendSort: boolean): SortableFieldDescriptor[] {
+            let sortDescriptor: SortableFieldDescriptor = {
+                queryName: queryName,
+                sortDirection: sortDirection
+            };
+
+            if (!extendSort)
+                return [sortDescriptor];
+
+            let updatedDescriptors = _.map(sortDescriptors, (descriptor) => descriptor.queryName === queryName ? sortDescriptor : descriptor);
+            if (!_.any(sortDescriptors, (descriptor) => descriptor.queryName === queryName))
+                updatedDescriptors.push(sortDescriptor);
+
+            return updatedDescriptors;
+        }
+
+        /**
+         * Gets the sort descriptors of the sorted columns, keeping the order of the previous descriptors
+         * for the columns that are still sorted and appending the other sorted columns.
+         */
+        export function getSortDescriptors(columns: DataViewMetadataColumn[], previousDescriptors: SortableFieldDescriptor[]): SortableFieldDescriptor[] {
+            let sortedColumns = _.filter(columns, (column) => column.sort != null);
+            let getQueryName = (column: DataViewMetadataColumn) => column.queryName ? column.queryName : column.displayName;
+            let sortDescriptors: SortableFieldDescriptor[] = [];
+
+            for (let descriptor of previousDescriptors || []) {
+                let column = _.find(sortedColumns, (column) => getQueryName(column) === descriptor.queryName);
+                if (column)
+                    sortDescriptors.push({ queryName: descriptor.queryName, sortDirection: column.sort });
+            }
+
+            for (let column of sortedColumns) {
+                let queryName = getQueryName(column);
+                if (!_.any(sortDescriptors, (descriptor) => descriptor.queryName === queryName))
+                    sortDescriptors.push({ queryName: queryName, sortDirection: column.sort });
+            }
+
+            return sortDescriptors;
+        }
+
         export function getCustomSortEventArgs(queryName: string, sortDirection: SortDirection): CustomSortEventArgs {
             let sortDescriptors: SortableFieldDescriptor[] = [{
                 queryName: queryName,
@@ -1113,11 +1290,18 @@ module powerbi.visuals.controls.internal {
          * Add sort icon to a table cell and return the element that should contain the contents
          * @param {SortDirection} itemSort SortDirection
          * @param {HTMLElement} cellDiv The inner DIV of the cell
+         * @param {number} sortOrdinal Position of the column in a multi-column sort, shown next to the sort icon
          */
-        export function addSortIconToColumnHeader(itemSort: SortDirection, cellDiv: HTMLElement): HTMLElement {
+        export function addSortIconToColumnHeader(itemSort: SortDirection, cellDiv: HTMLElement, sortOrdinal?: number): HTMLElement {
             let colHeaderContainer: HTMLDivElement = TablixUtils.createDiv();
 
             if (itemSort) {
+                if (sortOrdinal != null) {
+                    let ordinal: HTMLElement = document.createElement('sup');
+                    ordinal.className = SortIconContainerClassName + " " + CssClassTableSortOrdinal;
+                    ordinal.textContent = sortOrdinal.toString();
+                    colHeaderContainer.appendChild(ordinal);
+                }
                 colHeaderContainer.appendChild(createSortIcon(itemSort, true));
                 colHeaderContainer.appendChild(createSortIcon(reverseSort(itemSort), false));
             }
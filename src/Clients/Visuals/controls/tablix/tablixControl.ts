@@ -65,6 +65,8 @@ module powerbi.visuals.controls {
         enableTouchSupport?: boolean;
         layoutKind?: TablixLayoutKind;
         fontSize?: string;
+        /** Lays the columns out from right to left. */
+        isRightToLeft?: boolean;
     }
 
     export class TablixControl {
@@ -117,6 +119,7 @@ module powerbi.visuals.controls {
         private textFontSize: string;
         private textFontFamily: string;
         private textFontColor: string;
+        private frozenColumns: number;
 
         private options: TablixOptions;
         private isTouchEnabled: boolean;
@@ -153,6 +156,7 @@ module powerbi.visuals.controls {
             this.fontFamily = internal.TablixUtils.FontFamilyCell;
             this.fontColor = internal.TablixUtils.FontColorCells;
             this.fontSize = options.fontSize;
+            this.frozenColumns = 0;
 
             parentDomElement.className = TablixControl.TablixContainerClassName;
             parentDomElement.appendChild(this.containerElement);
@@ -388,6 +392,22 @@ module powerbi.visuals.controls {
             this.containerElement.style.color = value;
         }
 
+        public get isRightToLeft(): boolean {
+            return !!this.options.isRightToLeft;
+        }
+
+        /**
+         * Number of leading leaf columns that stay in place while the remaining columns scroll horizontally.
+         * Only honored for flat column hierarchies.
+         */
+        public get frozenColumnCount(): number {
+            return this.frozenColumns;
+        }
+
+        public set frozenColumnCount(value: number) {
+            this.frozenColumns = value > 0 ? value : 0;
+        }
+
         public set scrollbarWidth(value: number) {
             this.scrollBarElementWidth = value;
             this.rowDim.scrollbar.width = this.scrollBarElementWidth + TablixControl.UnitOfMeasurement;
@@ -728,6 +748,8 @@ module powerbi.visuals.controls {
                 if (("columnDim" in args[0]) && ("rowDim" in args[0])) {
                     that = <TablixControl>args[0];
                     colShift = that.columnDim.scrollbar.visible ? <number>args[1] : 0;
+                    if (that.isRightToLeft)
+                        colShift = -colShift;
                     rowShift = that.rowDim.scrollbar.visible ? <number>args[2] : 0;
 
                     that.columnDim.scrollbar.viewMin = Math.max(0, that.columnDim.scrollbar.viewMin + colShift);
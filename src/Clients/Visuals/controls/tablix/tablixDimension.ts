@@ -112,8 +112,29 @@ module powerbi.visuals.controls {
             }
         }
 
+        /**
+         * Gets the number of scrollable leaves, i.e. all leaves but the frozen ones.
+         */
         public getItemsCount(): number {
-            return this.model ? this._hierarchyNavigator.getLeafCount(this.model) : 0;
+            return this.model ? this._hierarchyNavigator.getLeafCount(this.model) - this.getFrozenItemsCount() : 0;
+        }
+
+        /**
+         * Gets the number of leading leaves that are always realized and never scrolled.
+         */
+        public getFrozenItemsCount(): number {
+            return 0;
+        }
+
+        /**
+         * Gets the leaf index of the item realized at the given position: frozen leaves come first,
+         * followed by the leaves starting at the current scroll offset.
+         */
+        public getRealizedLeafIndex(realizedIndex: number): number {
+            if (realizedIndex < this.getFrozenItemsCount())
+                return realizedIndex;
+
+            return this.getIntegerScrollOffset() + realizedIndex;
         }
 
         public getDepth(): number {
@@ -147,7 +168,7 @@ module powerbi.visuals.controls {
             }
 
             let firstVisibleScrollIndex: number = this.getIntegerScrollOffset();
-            let firstVisible: any = this._hierarchyNavigator.getLeafAt(this.model, firstVisibleScrollIndex);
+            let firstVisible: any = this._hierarchyNavigator.getLeafAt(this.model, firstVisibleScrollIndex + this.getFrozenItemsCount());
             if (!firstVisible) {
                 return;
             }
@@ -279,7 +300,7 @@ module powerbi.visuals.controls {
         }
 
         private addBodyCells(item: any, items: any, rowIndex: number) {
-            let firstVisibleColumnIndex: number = this._otherDimension.getIntegerScrollOffset();
+            let otherDimension: TablixDimension = this._otherDimension;
             let columnCount: number = this._otherDimension._layoutManager.getRealizedItemsCount() - this.getDepth();
             let hierarchyNavigator = this._hierarchyNavigator;
             let otherModel = this._otherDimension.model;
@@ -287,7 +308,7 @@ module powerbi.visuals.controls {
 
             for (let i = 0; i < columnCount; i++) {
                 //get column header "item" by index to pair up with row header to find corelating body cell
-                let cellItem: any = hierarchyNavigator.getIntersection(item, hierarchyNavigator.getLeafAt(otherModel, firstVisibleColumnIndex + i));
+                let cellItem: any = hierarchyNavigator.getIntersection(item, hierarchyNavigator.getLeafAt(otherModel, otherDimension.getRealizedLeafIndex(i)));
                 let cell: ITablixCell = layoutManager.getOrCreateBodyCell(cellItem, item, items, rowIndex, i);
                 this.bindBodyCell(cellItem, cell);
                 layoutManager.onBodyCellRealized(cellItem, cell);
@@ -320,13 +341,13 @@ module powerbi.visuals.controls {
         }
 
         private addFooterBodyCells(rowItem: any) {
-            let firstVisibleColumnIndex: number = this._otherDimension.getIntegerScrollOffset();
+            let otherDimension: TablixDimension = this._otherDimension;
             let columnCount: number = this._otherDimension.layoutManager.getRealizedItemsCount() - this.getDepth();
             let layoutManager = this._tablixLayoutManager;
 
             for (let i = 0; i < columnCount; i++) {
                 //get column header "item" by index to pair up with row header to find corelating body cell
-                let columnItem: any = this._hierarchyNavigator.getLeafAt(this._otherDimension.model, firstVisibleColumnIndex + i);
+                let columnItem: any = this._hierarchyNavigator.getLeafAt(otherDimension.model, otherDimension.getRealizedLeafIndex(i));
                 //get corelating body cell and bind it
                 let item: any = this._hierarchyNavigator.getIntersection(rowItem, columnItem);
                 let cell: ITablixCell = layoutManager.getOrCreateFooterBodyCell(item, i);
@@ -347,11 +368,30 @@ module powerbi.visuals.controls {
             this._layoutManager = this._tablixLayoutManager.columnLayoutManager;
         }
 
+        /**
+         * Frozen columns are only supported for flat column hierarchies (e.g. Table), and at least one column is kept scrollable.
+         */
+        public getFrozenItemsCount(): number {
+            if (!this.model || this.getDepth() !== 1)
+                return 0;
+
+            let leafCount: number = this._hierarchyNavigator.getLeafCount(this.model);
+            return Math.max(Math.min(this._owner.frozenColumnCount, leafCount - 1), 0);
+        }
+
+        /**
+         * This method populates the frozen column headers first, followed by the scrollable ones from the first visible column.
+         */
         public _render(): void { // The intent to be internal
             let firstVisibleColumnItem: any = this.getFirstVisibleItem(0);
+            let frozenCount: number = this.getFrozenItemsCount();
+
+            if (frozenCount > 0) {
+                this.addNodes(this.model, 0, this.getDepth(), 0, frozenCount);
+            }
 
             if (firstVisibleColumnItem !== undefined) {
-                this.addNodes(this.model, 0, this.getDepth(), this._hierarchyNavigator.getIndex(firstVisibleColumnItem));
+                this.addNodes(this.model, frozenCount, this.getDepth(), this._hierarchyNavigator.getIndex(firstVisibleColumnItem));
             }
         }
 
@@ -364,8 +404,8 @@ module powerbi.visuals.controls {
             return scrollbar;
         }
 
-        private addNodes(items: any, columnIndex: number, depth: number, firstVisibleIndex: number): void {
-            let count = this._hierarchyNavigator.getCount(items);
+        private addNodes(items: any, columnIndex: number, depth: number, firstVisibleIndex: number, endIndex?: number): void {
+            let count = endIndex !== undefined ? endIndex : this._hierarchyNavigator.getCount(items);
             for (let i = firstVisibleIndex; i < count; i++) {
                 if (!this._layoutManager.needsToRealize) {
                     return;
@@ -33,6 +33,7 @@ module powerbi.visuals {
     import SQConstantExpr = powerbi.data.SQConstantExpr;
     import SQContainsExpr = powerbi.data.SQContainsExpr;
     import SQExpr = powerbi.data.SQExpr;
+    import SQOrExpr = powerbi.data.SQOrExpr;
     import UrlUtils = jsCommon.UrlUtils;    
 
     export interface SlicerSettings {
@@ -255,7 +256,7 @@ module powerbi.visuals {
             return slicerData;
         }
 
-        function getSearchKey(dataViewMetadata: DataViewMetadata): string {
+        export function getSearchKey(dataViewMetadata: DataViewMetadata): string {
             let selfFilter = DataViewObjects.getValue<SemanticFilter>(dataViewMetadata.objects, slicerProps.selfFilterPropertyIdentifier, undefined);
             // The searchKey need to be empty string so that the inputbox dom content gets updated after search is removed.
             // When the search key is undefined, the previous content will not updated while binding data.
@@ -272,7 +273,7 @@ module powerbi.visuals {
             }
         }
 
-        function createDefaultSettings(dataViewMetadata: DataViewMetadata): SlicerSettings {
+        export function createDefaultSettings(dataViewMetadata: DataViewMetadata): SlicerSettings {
             let defaultSettings = DataConversion.DefaultSlicerProperties();
             let objects = dataViewMetadata.objects;
             let forceSingleSelect = dataViewMetadata.columns && _.some(dataViewMetadata.columns, (column) => column.discourageAggregationAcrossGroups);
@@ -305,6 +306,11 @@ module powerbi.visuals {
                     this.value = expr.value;
             }
 
+            public visitOr(expr: SQOrExpr): void {
+                // Searches over several levels use the same key for every level, so the first one is enough.
+                expr.left.accept(this);
+            }
+
             public visitContains(expr: SQContainsExpr): void {
                 expr.left.accept(this);
                 expr.right.accept(this);
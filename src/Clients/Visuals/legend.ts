@@ -63,6 +63,8 @@ module powerbi.visuals {
         iconOnlyOnLabel?: boolean;
         tooltip?: string;
         layerNumber?: number;
+        /** The index of the pattern, and of the dash array of Line icons, in high contrast mode.  Defaults to the index of the data point in the legend. */
+        highContrastIndex?: number;
     }
 
     export interface LegendData {
@@ -71,6 +73,8 @@ module powerbi.visuals {
         grouped?: boolean;
         labelColor?: string;
         fontSize?: number;
+        /** When specified, the legend is drawn in high contrast mode, with the icons filled by the patterns of their series. */
+        highContrastColors?: HighContrastColors;
     }
 
     export const legendProps = {
@@ -86,9 +90,10 @@ module powerbi.visuals {
         interactive: boolean,
         interactivityService: IInteractivityService,
         isScrollable: boolean = false,
-        legendPosition: LegendPosition = LegendPosition.Top): ILegend {
+        legendPosition: LegendPosition = LegendPosition.Top,
+        isRightToLeft: boolean = false): ILegend {
         if (interactive) return new CartesianChartInteractiveLegend(legendParentElement);
-        else return new SVGLegend(legendParentElement, legendPosition, interactivityService, isScrollable);
+        else return new SVGLegend(legendParentElement, legendPosition, interactivityService, isScrollable, isRightToLeft);
     }
 
     export interface ILegend {
@@ -236,6 +241,7 @@ module powerbi.visuals {
         private arrowPosWindow = 1;
         private data: LegendData;
         private isScrollable: boolean;
+        private isRightToLeft: boolean;
 
         private lastCalculatedWidth = 0;
         private visibleLegendWidth = 0;
@@ -275,7 +281,8 @@ module powerbi.visuals {
             element: JQuery,
             legendPosition: LegendPosition,
             interactivityService: IInteractivityService,
-            isScrollable: boolean) {
+            isScrollable: boolean,
+            isRightToLeft: boolean = false) {
 
             this.svg = d3.select(element.get(0)).append('svg').style('position', 'absolute');
             this.svg.style('display', 'inherit');
@@ -285,6 +292,7 @@ module powerbi.visuals {
             this.group = this.svg.append('g').attr('id', 'legendGroup');
             this.interactivityService = interactivityService;
             this.isScrollable = isScrollable;
+            this.isRightToLeft = isRightToLeft;
             this.element = element;
             this.changeOrientation(legendPosition);
             this.parentViewport = { height: 0, width: 0 };
@@ -386,6 +394,9 @@ module powerbi.visuals {
             let titleLayout = layout.title;
             let titleData = titleLayout ? [titleLayout] : [];
             let hasSelection = this.interactivityService && powerbi.visuals.dataHasSelection(data.dataPoints);
+            let highContrastColors = data.highContrastColors;
+            let labelColor = highContrastColors ? highContrastColors.foreground : data.labelColor;
+            let textAnchor = this.isRightToLeft ? 'end' : null;
 
             let group = this.group;
 
@@ -415,9 +426,10 @@ module powerbi.visuals {
 
             legendTitle
                 .style({
-                    'fill': data.labelColor,
+                    'fill': labelColor,
                     'font-size': PixelConverter.fromPoint(data.fontSize),
-                    'font-family': SVGLegend.DefaultTitleFontFamily
+                    'font-family': SVGLegend.DefaultTitleFontFamily,
+                    'text-anchor': textAnchor,
                 })
                 .text((d: TitleLayout) => d.text)
                 .attr({
@@ -463,12 +475,9 @@ module powerbi.visuals {
                     'r': iconRadius,
                 })
                 .style({
-                    'fill': (d: LegendDataPoint) => {
-                        if (hasSelection && !d.selected)
-                            return LegendBehavior.dimmedLegendColor;
-                        else
-                            return d.color;
-                    }
+                    'fill': (d: LegendDataPoint) => this.getIconFill(d, hasSelection && !d.selected),
+                    'stroke': highContrastColors ? highContrastColors.foreground : null,
+                    'stroke-dasharray': (d: LegendDataPoint) => highContrastColors && d.icon === LegendIcon.Line ? HighContrastHelper.getStrokeDashArray(this.getHighContrastIndex(d)) : null,
                 });
 
             legendItems
@@ -483,8 +492,9 @@ module powerbi.visuals {
                 })
                 .text((d: LegendDataPoint) => d.label)
                 .style({
-                    'fill': data.labelColor,
-                    'font-size': PixelConverter.fromPoint(data.fontSize)
+                    'fill': labelColor,
+                    'font-size': PixelConverter.fromPoint(data.fontSize),
+                    'text-anchor': textAnchor,
                 });
 
             if (this.interactivityService) {
@@ -493,6 +503,7 @@ module powerbi.visuals {
                     legendItems: legendItems,
                     legendIcons: iconsSelection,
                     clearCatcher: this.clearCatcher,
+                    getIconFill: (dataPoint: LegendDataPoint, dimmed: boolean) => this.getIconFill(dataPoint, dimmed),
                 };
 
                 this.interactivityService.bind(data.dataPoints, new LegendBehavior(), behaviorOptions, { isLegend: true });
@@ -594,6 +605,9 @@ module powerbi.visuals {
                 navArrows = this.isScrollable ? this.calculateVerticalNavigationArrowsLayout(title) : [];
                 numberOfItems = this.calculateVerticalLayout(dataPoints, title, navArrows, autoWidth);
             }
+
+            if (this.isRightToLeft)
+                this.mirrorLayout(dataPoints.slice(0, numberOfItems), title, navArrows);
             return {
                 numberOfItems: numberOfItems,
                 title: title,
@@ -942,6 +956,34 @@ module powerbi.visuals {
             return numberOfItems;
         }
 
+        /**
+         * Mirrors the horizontal positions of the items, so that the legend reads from right to left.
+         * The texts are anchored at their end, and the horizontal navigation arrows swap sides.
+         */
+        private mirrorLayout(dataPoints: LegendDataPoint[], title: TitleLayout, navigationArrows: NavigationArrow[]): void {
+            let isHorizontal = this.isTopOrBottom(this.orientation);
+            let width = !isHorizontal
+                ? this.viewport.width
+                : this.isCentered(this.orientation) ? this.visibleLegendWidth : this.parentViewport.width;
+
+            if (title)
+                title.x = width - title.x;
+
+            for (let dataPoint of dataPoints) {
+                dataPoint.glyphPosition.x = width - dataPoint.glyphPosition.x;
+                dataPoint.textPosition.x = width - dataPoint.textPosition.x;
+            }
+
+            if (isHorizontal) {
+                for (let arrow of navigationArrows) {
+                    let mirroredArrow = SVGUtil.createArrow(SVGLegend.LegendArrowWidth, SVGLegend.LegendArrowHeight, arrow.type === NavigationArrowType.Increase ? 180 /*angle*/ : 0 /*angle*/);
+                    arrow.x = width - arrow.x - SVGLegend.LegendArrowWidth;
+                    arrow.path = mirroredArrow.path;
+                    arrow.rotateTransform = mirroredArrow.transform;
+                }
+            }
+        }
+
         private drawNavigationArrows(layout: NavigationArrow[]) {
             let arrows = this.group.selectAll(SVGLegend.NavigationArrow.selector)
                 .data(layout);
@@ -993,6 +1035,24 @@ module powerbi.visuals {
             }
         }
 
+        /**
+         * In high contrast mode the icons are filled with the pattern of their series, or with the background color when dimmed.
+         */
+        private getIconFill(dataPoint: LegendDataPoint, dimmed: boolean): string {
+            let highContrastColors = this.data.highContrastColors;
+            if (!highContrastColors)
+                return LegendBehavior.getDefaultIconFill(dataPoint, dimmed);
+
+            if (dimmed)
+                return highContrastColors.background;
+
+            return HighContrastHelper.getPatternFill(this.svg, this.getHighContrastIndex(dataPoint), highContrastColors);
+        }
+
+        private getHighContrastIndex(dataPoint: LegendDataPoint): number {
+            return dataPoint.highContrastIndex != null ? dataPoint.highContrastIndex : this.data.dataPoints.indexOf(dataPoint);
+        }
+
         public reset(): void {
             // Intentionally left blank. 
         }
@@ -61,6 +61,20 @@ module powerbi.visuals.plugins {
         create: () => new BasicShapeVisual()
     };
 
+    export let boxAndWhiskerChart: IVisualPlugin = {
+        name: 'boxAndWhiskerChart',
+        capabilities: capabilities.boxAndWhiskerChart,
+        create: () => new CartesianChart({ chartType: CartesianChartType.BoxAndWhisker }),
+        getAdditionalTelemetry: (dataView) => CartesianChart.getAdditionalTelemetry(dataView),
+    };
+
+    export let candlestickChart: IVisualPlugin = {
+        name: 'candlestickChart',
+        capabilities: capabilities.candlestickChart,
+        create: () => new CartesianChart({ chartType: CartesianChartType.Candlestick }),
+        getAdditionalTelemetry: (dataView) => CartesianChart.getAdditionalTelemetry(dataView),
+    };
+
     export let card: IVisualPlugin = {
         name: 'card',
         watermarkKey: 'card',
@@ -254,6 +268,37 @@ module powerbi.visuals.plugins {
         getAdditionalTelemetry: (dataView: DataView) => ScatterChart.getAdditionalTelemetry(dataView),
     };
 
+    export let shapeMap: IVisualPlugin = {
+        name: 'shapeMap',
+        watermarkKey: 'filledMap',
+        capabilities: capabilities.shapeMap,
+        create: () => new ShapeMap()
+    };
+
+    export let smallMultiplesAreaChart: IVisualPlugin = {
+        name: 'smallMultiplesAreaChart',
+        capabilities: capabilities.smallMultiplesAreaChart,
+        create: () => new SmallMultiplesChart({ chartType: CartesianChartType.Area }),
+    };
+
+    export let smallMultiplesColumnChart: IVisualPlugin = {
+        name: 'smallMultiplesColumnChart',
+        capabilities: capabilities.smallMultiplesColumnChart,
+        create: () => new SmallMultiplesChart({ chartType: CartesianChartType.ClusteredColumn }),
+    };
+
+    export let smallMultiplesLineChart: IVisualPlugin = {
+        name: 'smallMultiplesLineChart',
+        capabilities: capabilities.smallMultiplesLineChart,
+        create: () => new SmallMultiplesChart({ chartType: CartesianChartType.Line }),
+    };
+
+    export let smallMultiplesScatterChart: IVisualPlugin = {
+        name: 'smallMultiplesScatterChart',
+        capabilities: capabilities.smallMultiplesScatterChart,
+        create: () => new SmallMultiplesChart({ chartType: CartesianChartType.Scatter }),
+    };
+
     export let stackedAreaChart: IVisualPlugin = {
         name: 'stackedAreaChart',
         watermarkKey: 'stackedarea',
@@ -286,7 +331,8 @@ module powerbi.visuals.plugins {
         name: 'slicer',
         watermarkKey: 'slicer',
         capabilities: capabilities.slicer,
-        create: () => new Slicer()
+        create: () => new Slicer(),
+        customizeQuery: Slicer.customizeQuery,
     };
 
     export let textbox: IVisualPlugin = {
@@ -36,6 +36,10 @@ module powerbi.visuals.capabilities {
 
     export let barChart = powerbi.visuals.getColumnChartCapabilities(true, true /*isStacked*/);
 
+    export let boxAndWhiskerChart = powerbi.visuals.boxAndWhiskerChartCapabilities;
+
+    export let candlestickChart = powerbi.visuals.candlestickChartCapabilities;
+
     export let card = powerbi.visuals.cardCapabilities;
 
     export let multiRowCard = powerbi.visuals.multiRowCardCapabilities;
@@ -84,6 +88,16 @@ module powerbi.visuals.capabilities {
 
     export let scatterChart = powerbi.visuals.scatterChartCapabilities;
 
+    export let shapeMap = powerbi.visuals.shapeMapCapabilities;
+
+    export let smallMultiplesAreaChart = powerbi.visuals.getSmallMultiplesCapabilities(powerbi.visuals.getLineChartCapabilities(false /*isStacked*/));
+
+    export let smallMultiplesColumnChart = powerbi.visuals.getSmallMultiplesCapabilities(powerbi.visuals.getColumnChartCapabilities());
+
+    export let smallMultiplesLineChart = powerbi.visuals.getSmallMultiplesCapabilities(powerbi.visuals.getLineChartCapabilities(false /*isStacked*/));
+
+    export let smallMultiplesScatterChart = powerbi.visuals.getSmallMultiplesCapabilities(powerbi.visuals.scatterChartCapabilities);
+
     export let table = powerbi.visuals.tableCapabilities;
 
     export let matrix = powerbi.visuals.matrixCapabilities;
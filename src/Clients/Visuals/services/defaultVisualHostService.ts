@@ -27,6 +27,7 @@
 /// <reference path="../_references.ts"/>
 
 module powerbi.visuals {
+    import DataViewExporter = powerbi.data.DataViewExporter;
 
     const BeautifiedFormat: { [x: string]: string } = {
         '0.00 %;-0.00 %;0.00 %': 'Percentage',
@@ -103,9 +104,28 @@ module powerbi.visuals {
         'Waterfall_DecreaseLabel': 'Decrease',
         'Waterfall_TotalLabel': 'Total',
         'Slicer_SelectAll': 'Select All',
+        'Slicer_RelativeDate_Custom': 'Custom',
+        'Slicer_RelativeDate_Last7Days': 'Last 7 days',
+        'Slicer_RelativeDate_Last30Days': 'Last 30 days',
+        'Slicer_RelativeDate_Last90Days': 'Last 90 days',
+        'Slicer_RelativeDate_Last12Months': 'Last 12 months',
+        'Slicer_RelativeDate_Last5Years': 'Last 5 years',
+        'ReferenceBand_Range': '{0} - {1}',
+        'BoxAndWhisker_Count': 'Count',
+        'BoxAndWhisker_Maximum': 'Maximum',
+        'BoxAndWhisker_ThirdQuartile': 'Third quartile',
+        'BoxAndWhisker_Median': 'Median',
+        'BoxAndWhisker_FirstQuartile': 'First quartile',
+        'BoxAndWhisker_Minimum': 'Minimum',
+        'BoxAndWhisker_Mean': 'Mean',
+        'BoxAndWhisker_Outlier': 'Outlier',
+        'Visual_ResetZoom': 'Reset zoom',
     };
 
     export class DefaultVisualHostServices implements IVisualHostServices {
+        /** The time, in milliseconds, to keep the URL of exported data alive while the browser starts the download. */
+        private static ExportedDataUrlRevokeDelay = 10000;
+
         // TODO: Add locale-awareness to this host service. Currently default/english functionality only.
         public static initialize(): void {
             visuals.valueFormatter.setLocaleOptions(DefaultVisualHostServices.createLocaleOptions());
@@ -172,6 +192,23 @@ module powerbi.visuals {
         public setIdentityDisplayNames(displayNamesIdentityPairs: DisplayNameIdentityPair[]): void { }
         public tooltips(): IVisualHostTooltipService { return; }
 
+        /**
+         * Downloads the data as a file, through a temporary link to the exported content.
+         */
+        public exportData(args: ExportDataEventArgs): void {
+            let content = DataViewExporter.exportData(args.dataView, args.format, { totalLabel: defaultLocalizedStrings['TableTotalLabel'] });
+            let blob = new Blob([content], { type: DataViewExporter.getMimeType(args.format) });
+            let url = URL.createObjectURL(blob);
+
+            let link = document.createElement('a');
+            link.href = url;
+            link.setAttribute('download', (args.fileName || 'data') + DataViewExporter.getFileExtension(args.format));
+            document.body.appendChild(link);
+            link.click();
+            document.body.removeChild(link);
+            setTimeout(() => URL.revokeObjectURL(url), DefaultVisualHostServices.ExportedDataUrlRevokeDelay);
+        }
+
         private static beautify(format: string): string {
             let key = BeautifiedFormat[format];
             if (key)
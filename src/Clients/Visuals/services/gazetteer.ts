@@ -0,0 +1,201 @@
+/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved. 
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *   
+ *  The above copyright notice and this permission notice shall be included in 
+ *  all copies or substantial portions of the Software.
+ *   
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR 
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, 
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE 
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER 
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+/// <reference path="../_references.ts"/>
+
+module powerbi.visuals.services {
+    /**
+     * The gazetteer bundled with the offline geocoder: countries, US states, Canadian provinces, major cities and a few US postal codes.
+     * Bounds are [south, west, north, east] and serve as the simplified boundary of the entry.
+     */
+    export const defaultGazetteer: IGazetteer = {
+        countries: [
+            { name: 'United States', code: 'US', aliases: ['USA', 'United States of America', 'America'], latitude: 39.8, longitude: -98.6, bounds: [24.5, -124.8, 49.4, -66.9] },
+            { name: 'Canada', code: 'CA', latitude: 56.1, longitude: -106.3, bounds: [41.7, -141, 83.1, -52.6] },
+            { name: 'Mexico', code: 'MX', latitude: 23.6, longitude: -102.6, bounds: [14.5, -118.4, 32.7, -86.7] },
+            { name: 'Brazil', code: 'BR', latitude: -14.2, longitude: -51.9, bounds: [-33.8, -74, 5.3, -34.8] },
+            { name: 'Argentina', code: 'AR', latitude: -38.4, longitude: -63.6, bounds: [-55.1, -73.6, -21.8, -53.6] },
+            { name: 'Chile', code: 'CL', latitude: -35.7, longitude: -71.5, bounds: [-55.9, -75.7, -17.5, -66.4] },
+            { name: 'Colombia', code: 'CO', latitude: 4.6, longitude: -74.3, bounds: [-4.2, -79, 12.5, -66.9] },
+            { name: 'Peru', code: 'PE', latitude: -9.2, longitude: -75, bounds: [-18.4, -81.3, 0, -68.7] },
+            { name: 'United Kingdom', code: 'GB', aliases: ['UK', 'Great Britain'], latitude: 54, longitude: -2, bounds: [49.9, -8.6, 60.9, 1.8] },
+            { name: 'Ireland', code: 'IE', latitude: 53.4, longitude: -8.2, bounds: [51.4, -10.5, 55.4, -6] },
+            { name: 'France', code: 'FR', latitude: 46.6, longitude: 2.2, bounds: [41.3, -5.1, 51.1, 9.6] },
+            { name: 'Germany', code: 'DE', aliases: ['Deutschland'], latitude: 51.2, longitude: 10.4, bounds: [47.3, 5.9, 55.1, 15] },
+            { name: 'Spain', code: 'ES', aliases: ['Espa\u00f1a'], latitude: 40.5, longitude: -3.7, bounds: [36, -9.3, 43.8, 3.3] },
+            { name: 'Portugal', code: 'PT', latitude: 39.4, longitude: -8.2, bounds: [37, -9.5, 42.2, -6.2] },
+            { name: 'Italy', code: 'IT', aliases: ['Italia'], latitude: 41.9, longitude: 12.6, bounds: [36.6, 6.6, 47.1, 18.5] },
+            { name: 'Netherlands', code: 'NL', aliases: ['The Netherlands', 'Holland'], latitude: 52.1, longitude: 5.3, bounds: [50.8, 3.4, 53.6, 7.2] },
+            { name: 'Belgium', code: 'BE', latitude: 50.5, longitude: 4.5, bounds: [49.5, 2.5, 51.5, 6.4] },
+            { name: 'Switzerland', code: 'CH', latitude: 46.8, longitude: 8.2, bounds: [45.8, 6, 47.8, 10.5] },
+            { name: 'Austria', code: 'AT', latitude: 47.5, longitude: 14.6, bounds: [46.4, 9.5, 49, 17.2] },
+            { name: 'Poland', code: 'PL', latitude: 51.9, longitude: 19.1, bounds: [49, 14.1, 54.8, 24.1] },
+            { name: 'Sweden', code: 'SE', latitude: 60.1, longitude: 18.6, bounds: [55.3, 11.1, 69.1, 24.2] },
+            { name: 'Norway', code: 'NO', latitude: 60.5, longitude: 8.5, bounds: [58, 4.6, 71.2, 31.1] },
+            { name: 'Finland', code: 'FI', latitude: 61.9, longitude: 25.7, bounds: [59.8, 20.5, 70.1, 31.6] },
+            { name: 'Denmark', code: 'DK', latitude: 56.3, longitude: 9.5, bounds: [54.6, 8.1, 57.8, 12.7] },
+            { name: 'Russia', code: 'RU', aliases: ['Russian Federation'], latitude: 61.5, longitude: 105.3, bounds: [41.2, 19.6, 81.9, 180] },
+            { name: 'Turkey', code: 'TR', latitude: 39, longitude: 35.2, bounds: [35.8, 26, 42.1, 44.8] },
+            { name: 'Egypt', code: 'EG', latitude: 26.8, longitude: 30.8, bounds: [22, 24.7, 31.7, 36.9] },
+            { name: 'Nigeria', code: 'NG', latitude: 9.1, longitude: 8.7, bounds: [4.3, 2.7, 13.9, 14.7] },
+            { name: 'Kenya', code: 'KE', latitude: 0, longitude: 37.9, bounds: [-4.7, 33.9, 5, 41.9] },
+            { name: 'South Africa', code: 'ZA', latitude: -30.6, longitude: 22.9, bounds: [-34.8, 16.5, -22.1, 32.9] },
+            { name: 'Saudi Arabia', code: 'SA', latitude: 23.9, longitude: 45.1, bounds: [16.4, 34.5, 32.2, 55.7] },
+            { name: 'United Arab Emirates', code: 'AE', aliases: ['UAE'], latitude: 23.4, longitude: 53.8, bounds: [22.6, 51.6, 26.1, 56.4] },
+            { name: 'Israel', code: 'IL', latitude: 31, longitude: 34.9, bounds: [29.5, 34.3, 33.3, 35.9] },
+            { name: 'India', code: 'IN', latitude: 20.6, longitude: 79, bounds: [6.7, 68.1, 35.5, 97.4] },
+            { name: 'China', code: 'CN', aliases: ['People\'s Republic of China'], latitude: 35.9, longitude: 104.2, bounds: [18.2, 73.5, 53.6, 134.8] },
+            { name: 'Japan', code: 'JP', latitude: 36.2, longitude: 138.3, bounds: [24.4, 122.9, 45.5, 145.8] },
+            { name: 'South Korea', code: 'KR', aliases: ['Korea', 'Republic of Korea'], latitude: 35.9, longitude: 127.8, bounds: [33.1, 124.6, 38.6, 131.9] },
+            { name: 'Indonesia', code: 'ID', latitude: -0.8, longitude: 113.9, bounds: [-11, 95, 6.1, 141] },
+            { name: 'Singapore', code: 'SG', latitude: 1.35, longitude: 103.8, bounds: [1.16, 103.6, 1.47, 104.1] },
+            { name: 'Australia', code: 'AU', latitude: -25.3, longitude: 133.8, bounds: [-43.6, 113.3, -10.7, 153.6] },
+            { name: 'New Zealand', code: 'NZ', latitude: -40.9, longitude: 174.9, bounds: [-47.3, 166.4, -34.4, 178.6] },
+        ],
+        statesOrProvinces: [
+            { name: 'Alabama', code: 'AL', country: 'US', latitude: 32.8, longitude: -86.8, bounds: [30.2, -88.5, 35, -84.9] },
+            { name: 'Alaska', code: 'AK', country: 'US', latitude: 64.2, longitude: -152.5, bounds: [51.2, -179.1, 71.4, -130] },
+            { name: 'Arizona', code: 'AZ', country: 'US', latitude: 34.3, longitude: -111.7, bounds: [31.3, -114.8, 37, -109] },
+            { name: 'Arkansas', code: 'AR', country: 'US', latitude: 34.9, longitude: -92.4, bounds: [33, -94.6, 36.5, -89.6] },
+            { name: 'California', code: 'CA', country: 'US', latitude: 37.2, longitude: -119.5, bounds: [32.5, -124.4, 42, -114.1] },
+            { name: 'Colorado', code: 'CO', country: 'US', latitude: 39, longitude: -105.5, bounds: [37, -109.1, 41, -102] },
+            { name: 'Connecticut', code: 'CT', country: 'US', latitude: 41.6, longitude: -72.7, bounds: [41, -73.7, 42.1, -71.8] },
+            { name: 'Delaware', code: 'DE', country: 'US', latitude: 39, longitude: -75.5, bounds: [38.5, -75.8, 39.8, -75] },
+            { name: 'District of Columbia', code: 'DC', country: 'US', aliases: ['Washington DC', 'Washington D.C.'], latitude: 38.9, longitude: -77, bounds: [38.8, -77.1, 39, -76.9] },
+            { name: 'Florida', code: 'FL', country: 'US', latitude: 28.6, longitude: -82.4, bounds: [24.5, -87.6, 31, -80] },
+            { name: 'Georgia', code: 'GA', country: 'US', latitude: 32.7, longitude: -83.4, bounds: [30.4, -85.6, 35, -80.8] },
+            { name: 'Hawaii', code: 'HI', country: 'US', latitude: 20.8, longitude: -156.3, bounds: [18.9, -160.3, 22.2, -154.8] },
+            { name: 'Idaho', code: 'ID', country: 'US', latitude: 44.4, longitude: -114.6, bounds: [42, -117.2, 49, -111] },
+            { name: 'Illinois', code: 'IL', country: 'US', latitude: 40, longitude: -89.2, bounds: [37, -91.5, 42.5, -87.5] },
+            { name: 'Indiana', code: 'IN', country: 'US', latitude: 39.9, longitude: -86.3, bounds: [37.8, -88.1, 41.8, -84.8] },
+            { name: 'Iowa', code: 'IA', country: 'US', latitude: 42.1, longitude: -93.5, bounds: [40.4, -96.6, 43.5, -90.1] },
+            { name: 'Kansas', code: 'KS', country: 'US', latitude: 38.5, longitude: -98.4, bounds: [37, -102.1, 40, -94.6] },
+            { name: 'Kentucky', code: 'KY', country: 'US', latitude: 37.5, longitude: -85.3, bounds: [36.5, -89.6, 39.2, -82] },
+            { name: 'Louisiana', code: 'LA', country: 'US', latitude: 31.1, longitude: -92, bounds: [28.9, -94, 33, -88.8] },
+            { name: 'Maine', code: 'ME', country: 'US', latitude: 45.4, longitude: -69.2, bounds: [43.1, -71.1, 47.5, -66.9] },
+            { name: 'Maryland', code: 'MD', country: 'US', latitude: 39, longitude: -76.8, bounds: [37.9, -79.5, 39.7, -75.1] },
+            { name: 'Massachusetts', code: 'MA', country: 'US', latitude: 42.3, longitude: -71.8, bounds: [41.2, -73.5, 42.9, -69.9] },
+            { name: 'Michigan', code: 'MI', country: 'US', latitude: 44.3, longitude: -85.4, bounds: [41.7, -90.4, 48.3, -82.4] },
+            { name: 'Minnesota', code: 'MN', country: 'US', latitude: 46.3, longitude: -94.3, bounds: [43.5, -97.2, 49.4, -89.5] },
+            { name: 'Mississippi', code: 'MS', country: 'US', latitude: 32.7, longitude: -89.7, bounds: [30.2, -91.7, 35, -88.1] },
+            { name: 'Missouri', code: 'MO', country: 'US', latitude: 38.4, longitude: -92.5, bounds: [36, -95.8, 40.6, -89.1] },
+            { name: 'Montana', code: 'MT', country: 'US', latitude: 47, longitude: -109.6, bounds: [44.4, -116.1, 49, -104] },
+            { name: 'Nebraska', code: 'NE', country: 'US', latitude: 41.5, longitude: -99.8, bounds: [40, -104.1, 43, -95.3] },
+            { name: 'Nevada', code: 'NV', country: 'US', latitude: 39.3, longitude: -116.6, bounds: [35, -120, 42, -114] },
+            { name: 'New Hampshire', code: 'NH', country: 'US', latitude: 43.7, longitude: -71.6, bounds: [42.7, -72.6, 45.3, -70.6] },
+            { name: 'New Jersey', code: 'NJ', country: 'US', latitude: 40.2, longitude: -74.7, bounds: [38.9, -75.6, 41.4, -73.9] },
+            { name: 'New Mexico', code: 'NM', country: 'US', latitude: 34.4, longitude: -106.1, bounds: [31.3, -109.1, 37, -103] },
+            { name: 'New York', code: 'NY', country: 'US', latitude: 42.9, longitude: -75.5, bounds: [40.5, -79.8, 45, -71.9] },
+            { name: 'North Carolina', code: 'NC', country: 'US', latitude: 35.6, longitude: -79.4, bounds: [33.8, -84.3, 36.6, -75.4] },
+            { name: 'North Dakota', code: 'ND', country: 'US', latitude: 47.5, longitude: -100.5, bounds: [45.9, -104.1, 49, -96.6] },
+            { name: 'Ohio', code: 'OH', country: 'US', latitude: 40.3, longitude: -82.8, bounds: [38.4, -84.8, 42, -80.5] },
+            { name: 'Oklahoma', code: 'OK', country: 'US', latitude: 35.6, longitude: -97.5, bounds: [33.6, -103, 37, -94.4] },
+            { name: 'Oregon', code: 'OR', country: 'US', latitude: 43.9, longitude: -120.6, bounds: [42, -124.6, 46.3, -116.5] },
+            { name: 'Pennsylvania', code: 'PA', country: 'US', latitude: 40.9, longitude: -77.8, bounds: [39.7, -80.5, 42.3, -74.7] },
+            { name: 'Rhode Island', code: 'RI', country: 'US', latitude: 41.7, longitude: -71.5, bounds: [41.1, -71.9, 42, -71.1] },
+            { name: 'South Carolina', code: 'SC', country: 'US', latitude: 33.9, longitude: -80.9, bounds: [32, -83.4, 35.2, -78.5] },
+            { name: 'South Dakota', code: 'SD', country: 'US', latitude: 44.4, longitude: -100.2, bounds: [42.5, -104.1, 46, -96.4] },
+            { name: 'Tennessee', code: 'TN', country: 'US', latitude: 35.9, longitude: -86.4, bounds: [35, -90.3, 36.7, -81.6] },
+            { name: 'Texas', code: 'TX', country: 'US', latitude: 31.5, longitude: -99.3, bounds: [25.8, -106.7, 36.5, -93.5] },
+            { name: 'Utah', code: 'UT', country: 'US', latitude: 39.3, longitude: -111.7, bounds: [37, -114.1, 42, -109] },
+            { name: 'Vermont', code: 'VT', country: 'US', latitude: 44.1, longitude: -72.7, bounds: [42.7, -73.4, 45, -71.5] },
+            { name: 'Virginia', code: 'VA', country: 'US', latitude: 37.5, longitude: -78.8, bounds: [36.5, -83.7, 39.5, -75.2] },
+            { name: 'Washington', code: 'WA', country: 'US', latitude: 47.4, longitude: -120.5, bounds: [45.5, -124.8, 49, -116.9] },
+            { name: 'West Virginia', code: 'WV', country: 'US', latitude: 38.6, longitude: -80.6, bounds: [37.2, -82.7, 40.6, -77.7] },
+            { name: 'Wisconsin', code: 'WI', country: 'US', latitude: 44.6, longitude: -89.9, bounds: [42.5, -92.9, 47.1, -86.8] },
+            { name: 'Wyoming', code: 'WY', country: 'US', latitude: 43, longitude: -107.5, bounds: [41, -111.1, 45, -104.1] },
+            { name: 'Alberta', code: 'AB', country: 'CA', latitude: 55, longitude: -115, bounds: [49, -120, 60, -110] },
+            { name: 'British Columbia', code: 'BC', country: 'CA', latitude: 53.7, longitude: -127.6, bounds: [48.3, -139.1, 60, -114.1] },
+            { name: 'Ontario', code: 'ON', country: 'CA', latitude: 50, longitude: -85, bounds: [41.7, -95.2, 56.9, -74.3] },
+            { name: 'Quebec', code: 'QC', country: 'CA', aliases: ['Qu\u00e9bec'], latitude: 52.9, longitude: -71.7, bounds: [45, -79.8, 62.6, -57.1] },
+        ],
+        cities: [
+            { name: 'New York', country: 'US', state: 'NY', aliases: ['New York City', 'NYC'], latitude: 40.7128, longitude: -74.006 },
+            { name: 'Los Angeles', country: 'US', state: 'CA', latitude: 34.0522, longitude: -118.2437 },
+            { name: 'Chicago', country: 'US', state: 'IL', latitude: 41.8781, longitude: -87.6298 },
+            { name: 'Houston', country: 'US', state: 'TX', latitude: 29.7604, longitude: -95.3698 },
+            { name: 'Phoenix', country: 'US', state: 'AZ', latitude: 33.4484, longitude: -112.074 },
+            { name: 'Dallas', country: 'US', state: 'TX', latitude: 32.7767, longitude: -96.797 },
+            { name: 'Austin', country: 'US', state: 'TX', latitude: 30.2672, longitude: -97.7431 },
+            { name: 'San Francisco', country: 'US', state: 'CA', latitude: 37.7749, longitude: -122.4194 },
+            { name: 'Seattle', country: 'US', state: 'WA', latitude: 47.6062, longitude: -122.3321 },
+            { name: 'Redmond', country: 'US', state: 'WA', latitude: 47.674, longitude: -122.1215 },
+            { name: 'Denver', country: 'US', state: 'CO', latitude: 39.7392, longitude: -104.9903 },
+            { name: 'Washington', country: 'US', state: 'DC', latitude: 38.9072, longitude: -77.0369 },
+            { name: 'Boston', country: 'US', state: 'MA', latitude: 42.3601, longitude: -71.0589 },
+            { name: 'Atlanta', country: 'US', state: 'GA', latitude: 33.749, longitude: -84.388 },
+            { name: 'Miami', country: 'US', state: 'FL', latitude: 25.7617, longitude: -80.1918 },
+            { name: 'Portland', country: 'US', state: 'OR', latitude: 45.5152, longitude: -122.6784 },
+            { name: 'Portland', country: 'US', state: 'ME', latitude: 43.6591, longitude: -70.2568 },
+            { name: 'Toronto', country: 'CA', state: 'ON', latitude: 43.6532, longitude: -79.3832 },
+            { name: 'Montreal', country: 'CA', state: 'QC', aliases: ['Montr\u00e9al'], latitude: 45.5017, longitude: -73.5673 },
+            { name: 'Vancouver', country: 'CA', state: 'BC', latitude: 49.2827, longitude: -123.1207 },
+            { name: 'Mexico City', country: 'MX', aliases: ['Ciudad de M\u00e9xico'], latitude: 19.4326, longitude: -99.1332 },
+            { name: 'S\u00e3o Paulo', country: 'BR', aliases: ['Sao Paulo'], latitude: -23.5505, longitude: -46.6333 },
+            { name: 'Rio de Janeiro', country: 'BR', latitude: -22.9068, longitude: -43.1729 },
+            { name: 'Buenos Aires', country: 'AR', latitude: -34.6037, longitude: -58.3816 },
+            { name: 'London', country: 'GB', latitude: 51.5074, longitude: -0.1278 },
+            { name: 'Dublin', country: 'IE', latitude: 53.3498, longitude: -6.2603 },
+            { name: 'Paris', country: 'FR', latitude: 48.8566, longitude: 2.3522 },
+            { name: 'Berlin', country: 'DE', latitude: 52.52, longitude: 13.405 },
+            { name: 'Munich', country: 'DE', aliases: ['M\u00fcnchen'], latitude: 48.1351, longitude: 11.582 },
+            { name: 'Madrid', country: 'ES', latitude: 40.4168, longitude: -3.7038 },
+            { name: 'Rome', country: 'IT', aliases: ['Roma'], latitude: 41.9028, longitude: 12.4964 },
+            { name: 'Amsterdam', country: 'NL', latitude: 52.3676, longitude: 4.9041 },
+            { name: 'Stockholm', country: 'SE', latitude: 59.3293, longitude: 18.0686 },
+            { name: 'Moscow', country: 'RU', latitude: 55.7558, longitude: 37.6173 },
+            { name: 'Istanbul', country: 'TR', latitude: 41.0082, longitude: 28.9784 },
+            { name: 'Cairo', country: 'EG', latitude: 30.0444, longitude: 31.2357 },
+            { name: 'Lagos', country: 'NG', latitude: 6.5244, longitude: 3.3792 },
+            { name: 'Nairobi', country: 'KE', latitude: -1.2921, longitude: 36.8219 },
+            { name: 'Johannesburg', country: 'ZA', latitude: -26.2041, longitude: 28.0473 },
+            { name: 'Dubai', country: 'AE', latitude: 25.2048, longitude: 55.2708 },
+            { name: 'Mumbai', country: 'IN', aliases: ['Bombay'], latitude: 19.076, longitude: 72.8777 },
+            { name: 'New Delhi', country: 'IN', aliases: ['Delhi'], latitude: 28.6139, longitude: 77.209 },
+            { name: 'Beijing', country: 'CN', latitude: 39.9042, longitude: 116.4074 },
+            { name: 'Shanghai', country: 'CN', latitude: 31.2304, longitude: 121.4737 },
+            { name: 'Tokyo', country: 'JP', latitude: 35.6762, longitude: 139.6503 },
+            { name: 'Seoul', country: 'KR', latitude: 37.5665, longitude: 126.978 },
+            { name: 'Singapore', country: 'SG', latitude: 1.3521, longitude: 103.8198 },
+            { name: 'Jakarta', country: 'ID', latitude: -6.2088, longitude: 106.8456 },
+            { name: 'Sydney', country: 'AU', latitude: -33.8688, longitude: 151.2093 },
+            { name: 'Melbourne', country: 'AU', latitude: -37.8136, longitude: 144.9631 },
+            { name: 'Auckland', country: 'NZ', latitude: -36.8485, longitude: 174.7633 },
+        ],
+        postalCodes: [
+            { name: '98052', country: 'US', state: 'WA', latitude: 47.6694, longitude: -122.1239 },
+            { name: '98101', country: 'US', state: 'WA', latitude: 47.6114, longitude: -122.3305 },
+            { name: '10001', country: 'US', state: 'NY', latitude: 40.7506, longitude: -73.9972 },
+            { name: '94103', country: 'US', state: 'CA', latitude: 37.7725, longitude: -122.4147 },
+            { name: '90012', country: 'US', state: 'CA', latitude: 34.0614, longitude: -118.2385 },
+            { name: '60601', country: 'US', state: 'IL', latitude: 41.8858, longitude: -87.6181 },
+            { name: '02108', country: 'US', state: 'MA', latitude: 42.3576, longitude: -71.0684 },
+            { name: '20001', country: 'US', state: 'DC', latitude: 38.9101, longitude: -77.0147 },
+            { name: '33131', country: 'US', state: 'FL', latitude: 25.7664, longitude: -80.1893 },
+            { name: '78701', country: 'US', state: 'TX', latitude: 30.2711, longitude: -97.7437 },
+        ],
+    };
+}
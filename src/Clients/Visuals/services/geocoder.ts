@@ -30,7 +30,26 @@ module powerbi.visuals.services {
     import CategoryTypes = MapUtil.CategoryTypes;
     import Settings = MapUtil.Settings;
 
+    /** Creates the geocoder backend returned by createGeocoder. */
+    export interface IGeocoderProvider {
+        (): IGeocoder;
+    }
+
+    let geocoderProvider: IGeocoderProvider;
+
     export function createGeocoder(): IGeocoder {
+        return geocoderProvider();
+    }
+
+    /**
+     * Sets the geocoder backend returned by createGeocoder, e.g. createOfflineGeocoder in environments that cannot reach Bing.
+     * Resets to the Bing geocoder when no provider is given.
+     */
+    export function setGeocoderProvider(provider?: IGeocoderProvider): void {
+        geocoderProvider = provider || createBingGeocoder;
+    }
+
+    export function createBingGeocoder(): IGeocoder {
         return {
             geocode: geocode,
             geocodeBoundary: geocodeBoundary,
@@ -258,6 +277,16 @@ module powerbi.visuals.services {
         }
     }
 
+    /**
+     * Gets the cache shared by the geocoder backends, creating it on first use.
+     */
+    export function getGeocodingCache(): IGeocodingCache {
+        if (!geocodingCache) {
+            geocodingCache = createGeocodingCache(Settings.MaxCacheSize, Settings.MaxCacheSizeOverflow);
+        }
+        return geocodingCache;
+    }
+
     /**
      * Map locales that cause failures to similar locales that work
      */
@@ -506,4 +535,5 @@ module powerbi.visuals.services {
     }
 
     resetStaticGeocoderState();
+    setGeocoderProvider();
 }
\ No newline at end of file
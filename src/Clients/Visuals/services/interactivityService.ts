@@ -127,6 +127,14 @@ module powerbi.visuals {
          */
         handleSelection(dataPoint: SelectableDataPoint, multiSelect: boolean): void;
 
+        /**
+         * Handles a selection event by selecting all the given data points at once (e.g. the data points inside a
+         * rectangle or lasso), sending a single selection to the host. When multiSelect is true the data points are
+         * added to the current selection, otherwise they replace it; selecting no data point clears the selection.
+         * Handlers that don't implement it don't support rectangle and lasso selection.
+         */
+        handleMultiSelection?(dataPoints: SelectableDataPoint[], multiSelect: boolean): void;
+
         /** Handles a request for a context menu. */
         handleContextMenu(dataPoint: SelectableDataPoint, position: IPoint): void;
 
@@ -307,6 +315,34 @@ module powerbi.visuals {
             }
         }
 
+        public handleMultiSelection(dataPoints: SelectableDataPoint[], multiSelect: boolean): void {
+            debug.assertValue(dataPoints, 'dataPoints');
+
+            let selectingDataPoints = _.filter(dataPoints, (dataPoint: SelectableDataPoint) => dataPoint && dataPoint.identity != null);
+            if (_.isEmpty(selectingDataPoints)) {
+                if (!multiSelect)
+                    this.handleClearSelection();
+                return;
+            }
+
+            let selectingArgs: SelectingEventArgs = {
+                visualObjects: _.map(selectingDataPoints, (dataPoint: SelectableDataPoint) => {
+                    return {
+                        objectName: this.dataPointObjectName,
+                        selectorsByColumn: (dataPoint.specificIdentity || dataPoint.identity).getSelectorsByColumn(),
+                    };
+                }),
+            };
+            this.hostService.onSelecting(selectingArgs);
+
+            if (selectingArgs.action === VisualInteractivityAction.Selection || selectingArgs.action == null) {
+                this.useDefaultValue = false;
+                this.selectAll(selectingDataPoints, multiSelect);
+                this.sendSelectionToHost();
+                this.renderAll();
+            }
+        }
+
         public handleContextMenu(dataPoint: SelectableDataPoint, point: IPoint): void {
             this.sendContextMenuToHost(dataPoint, point);
         }
@@ -401,6 +437,45 @@ module powerbi.visuals {
             this.syncSelectionState();
         }
 
+        /** Marks the data points as selected, in addition to the current selection when multiSelect is true. */
+        private selectAll(dataPoints: SelectableDataPoint[], multiSelect: boolean): void {
+            if (this.isInvertedSelectionMode) {
+                for (let dataPoint of dataPoints) {
+                    if (!dataPoint.selected)
+                        this.selectInverted(dataPoint, /*multiSelect*/ true);
+                }
+                return;
+            }
+
+            let selectingIds: SelectionId[] = [];
+            for (let d of dataPoints) {
+                // For highlight data points we actually want to select the non-highlight data point
+                if (d.identity.highlight) {
+                    d = _.find(this.selectableDataPoints, (dp: SelectableDataPoint) => !dp.identity.highlight && d.identity.includes(dp.identity, /* ignoreHighlight */ true));
+                    if (!d)
+                        continue;
+                }
+
+                let id = d.identity;
+                if (!_.any(selectingIds, (selectingId: SelectionId) => selectingId.equals(id)))
+                    selectingIds.push(id);
+            }
+
+            if (multiSelect) {
+                let combinedIds = this.selectedIds.concat(_.filter(selectingIds, (id: SelectionId) => !_.any(this.selectedIds, (selectedId: SelectionId) => selectedId.equals(id))));
+
+                // If the host can't combine the selections, the data points replace the current selection.
+                if (this.hostService.canSelect(this.createSelectEventArgs(combinedIds)))
+                    selectingIds = combinedIds;
+            }
+
+            // Data points with identities and data points with only measures are not selected together.
+            let hasIdentity = _.any(selectingIds, (id: SelectionId) => id.hasIdentity());
+            this.selectedIds = _.filter(selectingIds, (id: SelectionId) => id.hasIdentity() === hasIdentity);
+
+            this.syncSelectionState();
+        }
+
         private selectInverted(d: SelectableDataPoint, multiSelect: boolean): void {
             let wasSelected = d.selected;
             let id = d.identity;
@@ -0,0 +1,303 @@
+/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved. 
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *   
+ *  The above copyright notice and this permission notice shall be included in 
+ *  all copies or substantial portions of the Software.
+ *   
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR 
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, 
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE 
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER 
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+/// <reference path="../_references.ts"/>
+
+module powerbi.visuals.services {
+    import CategoryTypes = MapUtil.CategoryTypes;
+
+    export interface IGazetteerEntry {
+        name: string;
+
+        /** The ISO 3166-1 alpha-2 code of a country, or the abbreviation of a state or province. */
+        code?: string;
+        aliases?: string[];
+
+        /** The code of the country the entry is in. */
+        country?: string;
+
+        /** The code of the state or province the entry is in. */
+        state?: string;
+
+        latitude: number;
+        longitude: number;
+
+        /** The bounding box of the entry as [south, west, north, east], used as its boundary when no boundary is given. */
+        bounds?: number[];
+
+        /** The simplified boundary polygons of the entry, each one as [lat1, long1, lat2, long2,...]. */
+        boundary?: number[][];
+    }
+
+    export interface IGazetteer {
+        countries: IGazetteerEntry[];
+        statesOrProvinces: IGazetteerEntry[];
+        cities: IGazetteerEntry[];
+        postalCodes: IGazetteerEntry[];
+    }
+
+    /**
+     * Creates a geocoder that resolves locations from a local gazetteer instead of Bing, for environments without internet access.
+     * Results are registered in the geocoding cache shared with the Bing geocoder, unless a cache is given.
+     */
+    export function createOfflineGeocoder(gazetteer?: IGazetteer, cache?: IGeocodingCache): IGeocoder {
+        return new OfflineGeocoder(gazetteer || defaultGazetteer, cache);
+    }
+
+    interface GazetteerIndex {
+        [name: string]: IGazetteerEntry[];
+    }
+
+    class OfflineGeocoder implements IGeocoder {
+        private gazetteer: IGazetteer;
+        private cache: IGeocodingCache;
+        private indexes: _.Dictionary<GazetteerIndex>;
+
+        constructor(gazetteer: IGazetteer, cache: IGeocodingCache) {
+            this.gazetteer = gazetteer;
+            this.cache = cache;
+            this.indexes = {};
+        }
+
+        public geocode(query: string, category: string = "", options?: GeocodeOptions): any {
+            return OfflineGeocoder.resolve(this.tryGeocodeImmediate(query, category));
+        }
+
+        public geocodeBoundary(latitude: number, longitude: number, category: string = "", levelOfDetail: number = 2, maxGeoData: number = 3, options?: GeocodeOptions): any {
+            return OfflineGeocoder.resolve(this.tryGeocodeBoundaryImmediate(latitude, longitude, category, levelOfDetail, maxGeoData));
+        }
+
+        public geocodePoint(latitude: number, longitude: number, entities?: string[], options?: GeocodeOptions): any {
+            // Like the Bing geocoder, reverse geocoding results are not cached and an unknown point resolves to null
+            return $.Deferred().resolve(this.reverseGeocode(latitude, longitude));
+        }
+
+        /** Returns the coordinate immediately since the gazetteer is always locally available. */
+        public tryGeocodeImmediate(query: string, category?: string): IGeocodeCoordinate {
+            let geocodeQuery = new GeocodeQuery(query, category);
+            return <IGeocodeCoordinate>this.getCoordinates(geocodeQuery.key, () => {
+                let entry = this.findEntry(geocodeQuery.query, geocodeQuery.category);
+                return entry ? { latitude: entry.latitude, longitude: entry.longitude } : null;
+            });
+        }
+
+        /** Returns the boundary immediately since the gazetteer is always locally available. */
+        public tryGeocodeBoundaryImmediate(latitude: number, longitude: number, category: string, levelOfDetail: number = 2, maxGeoData: number = 3): IGeocodeBoundaryCoordinate {
+            let boundaryQuery = new GeocodeBoundaryQuery(latitude, longitude, category, levelOfDetail, maxGeoData);
+            return <IGeocodeBoundaryCoordinate>this.getCoordinates(boundaryQuery.key, () => this.findBoundary(boundaryQuery));
+        }
+
+        private static resolve(coordinate: IGeocodeCoordinate | IGeocodeBoundaryCoordinate): any {
+            let deferred = $.Deferred();
+
+            if (coordinate)
+                deferred.resolve(coordinate);
+            else
+                deferred.reject(new Error("Geocode result is empty."));
+
+            return deferred;
+        }
+
+        private getCoordinates(key: string, lookup: () => IGeocodeCoordinate | IGeocodeBoundaryCoordinate): IGeocodeCoordinate | IGeocodeBoundaryCoordinate {
+            let cache = this.cache || getGeocodingCache();
+            let coordinate: IGeocodeCoordinate | IGeocodeBoundaryCoordinate = cache.getCoordinates(key);
+            if (!coordinate) {
+                coordinate = lookup();
+                if (coordinate)
+                    cache.registerCoordinates(key, <IGeocodeCoordinate>coordinate);
+            }
+
+            return coordinate;
+        }
+
+        /**
+         * Finds the entry matching the query. A query like "Portland, ME" is matched on its first part,
+         * the other parts pick between entries of the same name by their state or country.
+         */
+        private findEntry(query: string, category: string): IGazetteerEntry {
+            let parts = _.filter(_.map(query.split(","), normalizeName), part => !!part);
+            if (_.isEmpty(parts))
+                return;
+
+            for (let entries of this.getEntries(category)) {
+                let index = this.getIndex(entries);
+
+                let exactMatches = index[parts.join(", ")];
+                if (!_.isEmpty(exactMatches))
+                    return exactMatches[0];
+
+                let qualifiers = _.rest(parts);
+                let match = _.find(index[parts[0]], entry => _.all(qualifiers, qualifier => this.isQualifiedBy(entry, qualifier)));
+                if (match)
+                    return match;
+            }
+        }
+
+        private findBoundary(query: GeocodeBoundaryQuery): IGeocodeBoundaryCoordinate {
+            // Like the Bing geodata service, a boundary needs a specific category
+            if (!query.category)
+                return null;
+
+            let containing = _.filter(_.flatten<IGazetteerEntry>(this.getEntries(query.category)), entry => isInBounds(getBounds(entry), query.latitude, query.longitude));
+            let entry = _.min(containing, entry => getDistance(entry, query.latitude, query.longitude));
+            if (!entry || !_.isObject(entry))
+                return null;
+
+            let rings = entry.boundary || [getBoundsRing(entry.bounds)];
+
+            return {
+                latitude: query.latitude,
+                longitude: query.longitude,
+                locations: _.map(_.take(rings, query.maxGeoData), (ring) => <IGeocodeBoundaryPolygon>{ nativeBing: MapUtil.encodeSpatialValueArray(ring) }),
+            };
+        }
+
+        private reverseGeocode(latitude: number, longitude: number): IGeocodeResource {
+            let gazetteer = this.gazetteer;
+            let countries = _.filter(gazetteer.countries, country => isInBounds(getBounds(country), latitude, longitude));
+            if (_.isEmpty(countries))
+                return null;
+
+            // Country bounds overlap near borders, so the closest city decides the country
+            let countryCodes = _.map(countries, country => country.code);
+            let cities = _.filter(gazetteer.cities, city => _.contains(countryCodes, city.country));
+            let city = _.min(cities, entry => getDistance(entry, latitude, longitude));
+            if (!_.isObject(city))
+                city = null;
+
+            let country = city
+                ? _.find(countries, entry => entry.code === city.country)
+                : _.min(countries, entry => getDistance(entry, latitude, longitude));
+
+            let state = city && city.state ? this.findByCode(gazetteer.statesOrProvinces, city.state, country.code) : null;
+            let formattedAddress = _.compact([city && city.name, state && state.code, country.name]).join(", ");
+
+            return {
+                latitude: city ? city.latitude : country.latitude,
+                longitude: city ? city.longitude : country.longitude,
+                addressLine: null,
+                locality: city ? city.name : null,
+                neighborhood: null,
+                adminDistrict: state ? state.code : null,
+                adminDistrict2: null,
+                formattedAddress: formattedAddress,
+                postalCode: null,
+                countryRegionIso2: country.code,
+                countryRegion: country.name,
+                landmark: null,
+                name: formattedAddress,
+            };
+        }
+
+        /** Gets the lists of entries to search for the category, in order. */
+        private getEntries(category: string): IGazetteerEntry[][] {
+            let gazetteer = this.gazetteer;
+            switch (category.toLowerCase()) {
+                case CategoryTypes.CountryRegion.toLowerCase():
+                    return [gazetteer.countries];
+                case CategoryTypes.StateOrProvince.toLowerCase():
+                    return [gazetteer.statesOrProvinces];
+                case CategoryTypes.City.toLowerCase():
+                    return [gazetteer.cities];
+                case CategoryTypes.PostalCode.toLowerCase():
+                    return [gazetteer.postalCodes];
+                case "":
+                case CategoryTypes.Address.toLowerCase():
+                case CategoryTypes.Place.toLowerCase():
+                    return [gazetteer.countries, gazetteer.statesOrProvinces, gazetteer.cities, gazetteer.postalCodes];
+            }
+
+            // Continents, counties and coordinates are not in the gazetteer
+            return [];
+        }
+
+        private getIndex(entries: IGazetteerEntry[]): GazetteerIndex {
+            let key = _.findKey(this.gazetteer, list => list === entries);
+            let index = this.indexes[key];
+            if (!index) {
+                index = this.indexes[key] = {};
+                for (let entry of entries || []) {
+                    for (let name of getNames(entry)) {
+                        if (!index[name])
+                            index[name] = [];
+                        index[name].push(entry);
+                    }
+                }
+            }
+
+            return index;
+        }
+
+        private isQualifiedBy(entry: IGazetteerEntry, qualifier: string): boolean {
+            let gazetteer = this.gazetteer;
+            let state = entry.state ? this.findByCode(gazetteer.statesOrProvinces, entry.state, entry.country) : null;
+            let country = entry.country ? this.findByCode(gazetteer.countries, entry.country) : null;
+
+            return _.any([state, country], parent => parent && _.contains(getNames(parent), qualifier));
+        }
+
+        private findByCode(entries: IGazetteerEntry[], code: string, country?: string): IGazetteerEntry {
+            return _.find(entries, entry => entry.code === code && (!country || entry.country === country));
+        }
+    }
+
+    function normalizeName(name: string): string {
+        return name.trim().replace(/\s+/g, " ").toLowerCase();
+    }
+
+    function getNames(entry: IGazetteerEntry): string[] {
+        return _.map(_.compact([entry.name, entry.code, ...(entry.aliases || [])]), normalizeName);
+    }
+
+    /** Gets the [south, west, north, east] bounds of the entry, from its boundary if it has no bounds. */
+    function getBounds(entry: IGazetteerEntry): number[] {
+        if (entry.bounds)
+            return entry.bounds;
+
+        if (_.isEmpty(entry.boundary))
+            return null;
+
+        let latitudes = _.flatten<number>(_.map(entry.boundary, ring => _.filter(ring, (value, i) => i % 2 === 0)));
+        let longitudes = _.flatten<number>(_.map(entry.boundary, ring => _.filter(ring, (value, i) => i % 2 === 1)));
+
+        return [_.min(latitudes), _.min(longitudes), _.max(latitudes), _.max(longitudes)];
+    }
+
+    function isInBounds(bounds: number[], latitude: number, longitude: number): boolean {
+        return !!bounds && latitude >= bounds[0] && latitude <= bounds[2] && longitude >= bounds[1] && longitude <= bounds[3];
+    }
+
+    function getBoundsRing(bounds: number[]): number[] {
+        let [south, west, north, east] = bounds;
+        return [south, west, north, west, north, east, south, east, south, west];
+    }
+
+    function getDistance(entry: IGazetteerEntry, latitude: number, longitude: number): number {
+        let dy = entry.latitude - latitude;
+        let dx = (entry.longitude - longitude) * Math.cos(latitude * Math.PI / 180);
+        return dx * dx + dy * dy;
+    }
+}
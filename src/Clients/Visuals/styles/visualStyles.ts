@@ -54,5 +54,23 @@ module powerbi.visuals {
                 isHighContrast: false,
             };
         }
+
+        /**
+         * Creates the style of the high contrast mode, in which the visuals are only drawn with the given foreground and background colors.
+         */
+        export function createHighContrast(foreground: string, background: string, dataColors?: IDataColorPalette): IVisualStyle {
+            let style = create(dataColors);
+            let foregroundColor: IColorInfo = { value: foreground };
+
+            style.titleText.color = foregroundColor;
+            style.subTitleText.color = foregroundColor;
+            style.labelText.color = foregroundColor;
+            style.colorPalette.foreground = foregroundColor;
+            style.colorPalette.background = { value: background };
+            style.colorPalette.tableAccent = foregroundColor;
+            style.isHighContrast = true;
+
+            return style;
+        }
     }
 }
\ No newline at end of file
@@ -56,4 +56,22 @@ module powerbi.visuals {
             { value: under, displayName: resources => resources.get('Visual_Reference_Line_Data_Label_Under') },
         ]);
     }
-}
\ No newline at end of file
+
+    export module referenceLineValueType {
+        export const constant: string = 'constant';
+        export const average: string = 'average';
+        export const median: string = 'median';
+        export const percentile: string = 'percentile';
+        export const min: string = 'min';
+        export const max: string = 'max';
+
+        export const type: IEnumType = createEnumType([
+            { value: constant, displayName: resources => resources.get('Visual_Reference_Line_Constant') },
+            { value: average, displayName: resources => resources.get('Visual_Reference_Line_Average') },
+            { value: median, displayName: resources => resources.get('Visual_Reference_Line_Median') },
+            { value: percentile, displayName: resources => resources.get('Visual_Reference_Line_Percentile') },
+            { value: min, displayName: resources => resources.get('Visual_Reference_Line_Min') },
+            { value: max, displayName: resources => resources.get('Visual_Reference_Line_Max') },
+        ]);
+    }
+}
@@ -0,0 +1,48 @@
+/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved. 
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *   
+ *  The above copyright notice and this permission notice shall be included in 
+ *  all copies or substantial portions of the Software.
+ *   
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR 
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, 
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE 
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER 
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+/// <reference path="../_references.ts"/>
+
+module powerbi.visuals {
+    export module shapeMapProjection {
+        export const mercator: string = 'mercator';
+        export const albersUsa: string = 'albersUsa';
+        export const equirectangular: string = 'equirectangular';
+        export const orthographic: string = 'orthographic';
+        export const transverseMercator: string = 'transverseMercator';
+        /** Draws the coordinates as they are, for maps that are not geographic like floor plans. */
+        export const planar: string = 'planar';
+
+        export const type: IEnumType = createEnumType([
+            { value: mercator, displayName: resources => resources.get('Visual_ShapeMap_Projection_Mercator') },
+            { value: albersUsa, displayName: resources => resources.get('Visual_ShapeMap_Projection_AlbersUsa') },
+            { value: equirectangular, displayName: resources => resources.get('Visual_ShapeMap_Projection_Equirectangular') },
+            { value: orthographic, displayName: resources => resources.get('Visual_ShapeMap_Projection_Orthographic') },
+            { value: transverseMercator, displayName: resources => resources.get('Visual_ShapeMap_Projection_TransverseMercator') },
+            { value: planar, displayName: resources => resources.get('Visual_ShapeMap_Projection_Planar') },
+        ]);
+    }
+}
@@ -169,6 +169,7 @@ module powerbi.visuals {
         private previousRadius: number;
         private key: any;
         private colors: IDataColorPalette;
+        private highContrastColors: HighContrastColors;
         private style: IVisualStyle;
         private drilled: boolean;
         private allowDrilldown: boolean;
@@ -211,9 +212,12 @@ module powerbi.visuals {
             }
         }
 
-        public static converter(dataView: DataView, colors: IDataColorPalette, defaultDataPointColor?: string, viewport?: IViewport, disableGeometricCulling?: boolean, interactivityService?: IInteractivityService, tooltipsEnabled: boolean = true): DonutData {
-            let converter = new DonutChartConversion.DonutChartConverter(dataView, colors, defaultDataPointColor, tooltipsEnabled);
+        public static converter(dataView: DataView, colors: IDataColorPalette, defaultDataPointColor?: string, viewport?: IViewport, disableGeometricCulling?: boolean, interactivityService?: IInteractivityService, tooltipsEnabled: boolean = true, highContrastColors?: HighContrastColors): DonutData {
+            let converter = new DonutChartConversion.DonutChartConverter(dataView, colors, defaultDataPointColor, tooltipsEnabled, highContrastColors);
             converter.convert();
+            if (highContrastColors && converter.dataLabelsSettings)
+                converter.dataLabelsSettings.labelColor = highContrastColors.foreground;
+
             let d3PieLayout = d3.layout.pie()
                 .sort(null)
                 .value((d: DonutDataPoint) => {
@@ -273,6 +277,7 @@ module powerbi.visuals {
             this.allowDrilldown = false;
             this.style = options.style;
             this.colors = this.style.colorPalette.dataColors;
+            this.highContrastColors = HighContrastHelper.getColors(this.style);
             this.radius = 0;
             this.isInteractive = options.interactivity && options.interactivity.isInteractiveLegend;
             let donutChartSettings = this.settings;
@@ -280,7 +285,7 @@ module powerbi.visuals {
             if (this.behavior) {
                 this.interactivityService = createInteractivityService(options.host);
             }
-            this.legend = createLegend(element, options.interactivity && options.interactivity.isInteractiveLegend, this.interactivityService, this.isScrollable);
+            this.legend = createLegend(element, options.interactivity && options.interactivity.isInteractiveLegend, this.interactivityService, this.isScrollable, undefined, RightToLeftHelper.isRightToLeft(options.host));
 
             this.hostService = options.host;
             this.tooltipService = createTooltipService(options.host);
@@ -349,7 +354,7 @@ module powerbi.visuals {
                     }
                 }
 
-                this.data = DonutChart.converter(dataViews[0], this.colors, defaultDataPointColor, this.currentViewport, this.disableGeometricCulling, this.interactivityService, this.tooltipsEnabled);
+                this.data = DonutChart.converter(dataViews[0], this.colors, defaultDataPointColor, this.currentViewport, this.disableGeometricCulling, this.interactivityService, this.tooltipsEnabled, this.highContrastColors);
                 this.data.defaultDataPointColor = defaultDataPointColor;
                 if (!(this.options.interactivity && this.options.interactivity.isInteractiveLegend))
                     this.renderLegend();
@@ -659,6 +664,13 @@ module powerbi.visuals {
                     NewDataLabelUtils.drawLabelLeaderLines(this.labelGraphicsContext, labels);
                 }
 
+                if (this.highContrastColors) {
+                    let getPatternIndex = (d: DonutArcDescriptor) => d.data.index;
+                    HighContrastHelper.applyPatternFills(shapes, this.svg, this.highContrastColors, getPatternIndex);
+                    if (highlightShapes)
+                        HighContrastHelper.applyPatternFills(highlightShapes, this.svg, this.highContrastColors, getPatternIndex);
+                }
+
                 this.assignInteractions(shapes, highlightShapes, data);
 
                 if (this.tooltipsEnabled) {
@@ -784,6 +796,7 @@ module powerbi.visuals {
                 if (legendObjectProperties) {
                     let legendData = this.data.legendData;
                     LegendData.update(legendData, legendObjectProperties);
+                    legendData.highContrastColors = this.highContrastColors;
                     let position = <string>legendObjectProperties[legendProps.position];
                     if (position)
                         this.legend.changeOrientation(LegendPosition[position]);
@@ -1659,13 +1672,13 @@ module powerbi.visuals {
             public hasNegativeValues: boolean;
             public allValuesAreNegative: boolean;
 
-            public constructor(dataView: DataView, colors: IDataColorPalette, defaultDataPointColor?: string, tooltipsEnabled: boolean = true) {
+            public constructor(dataView: DataView, colors: IDataColorPalette, defaultDataPointColor?: string, tooltipsEnabled: boolean = true, highContrastColors?: HighContrastColors) {
                 let reader = this.reader = data.createIDataViewCategoricalReader(dataView);
                 let dataViewCategorical = dataView.categorical;
                 this.dataViewCategorical = dataViewCategorical;
                 this.dataViewMetadata = dataView.metadata;
                 this.tooltipsEnabled = tooltipsEnabled;
-                this.colorHelper = new ColorHelper(colors, donutChartProps.dataPoint.fill, defaultDataPointColor);
+                this.colorHelper = new ColorHelper(colors, donutChartProps.dataPoint.fill, defaultDataPointColor, highContrastColors);
                 this.maxValue = 0;
                 this.hasNegativeValues = false;
                 this.allValuesAreNegative = false;
@@ -193,6 +193,7 @@ module powerbi.visuals {
         private labelGraphicsContext: D3.Selection;
         private currentViewport: IViewport;
         private colors: IDataColorPalette;
+        private highContrastColors: HighContrastColors;
         private data: FunnelData;
         private hostServices: IVisualHostServices;
         private margin: IMargin;
@@ -227,7 +228,7 @@ module powerbi.visuals {
             }
         }
 
-        public static converter(dataView: DataView, colors: IDataColorPalette, hostServices: IVisualHostServices, defaultDataPointColor?: string, tooltipsEnabled: boolean = true): FunnelData {
+        public static converter(dataView: DataView, colors: IDataColorPalette, hostServices: IVisualHostServices, defaultDataPointColor?: string, tooltipsEnabled: boolean = true, highContrastColors?: HighContrastColors): FunnelData {
             let reader = data.createIDataViewCategoricalReader(dataView);
             let dataPoints: FunnelDataPoint[] = [];
             let formatStringProp = funnelChartProps.general.formatString;
@@ -243,7 +244,7 @@ module powerbi.visuals {
             let categoryLabels = [];
             let dataLabelsSettings: VisualDataLabelsSettings = this.getDefaultLabelSettings();
             let percentBarLabelSettings: VisualDataLabelsSettings = this.getDefaultPercentLabelSettings();
-            let colorHelper = new ColorHelper(colors, funnelChartProps.dataPoint.fill, defaultDataPointColor);
+            let colorHelper = new ColorHelper(colors, funnelChartProps.dataPoint.fill, defaultDataPointColor, highContrastColors);
             let firstValue: number;
             let firstHighlight: number;
             let previousValue: number;
@@ -260,6 +261,11 @@ module powerbi.visuals {
                     dataLabelUtils.updateLabelSettingsFromLabelsObject(percentLabelsObj, percentBarLabelSettings);
             }
 
+            if (highContrastColors) {
+                dataLabelsSettings.labelColor = highContrastColors.foreground;
+                percentBarLabelSettings.labelColor = highContrastColors.foreground;
+            }
+
             // If we don't have a valid value column, just return
             if (!reader.hasValues("Y"))
                 return {
@@ -596,6 +602,7 @@ module powerbi.visuals {
             };
             let style = options.style;
             this.colors = style.colorPalette.dataColors;
+            this.highContrastColors = HighContrastHelper.getColors(style);
             this.hostServices = options.host;
             if (this.behavior) {
                 this.interactivityService = createInteractivityService(this.hostServices);
@@ -644,7 +651,7 @@ module powerbi.visuals {
                 }
 
                 if (dataView.categorical) {
-                    this.data = FunnelChart.converter(dataView, this.colors, this.hostServices, this.defaultDataPointColor, this.tooltipsEnabled);
+                    this.data = FunnelChart.converter(dataView, this.colors, this.hostServices, this.defaultDataPointColor, this.tooltipsEnabled, this.highContrastColors);
 
                     if (this.interactivityService) {
                         this.interactivityService.applySelectionStateToData(this.data.dataPoints);
@@ -755,6 +762,9 @@ module powerbi.visuals {
                 LabelUtils.drawDefaultLabels(labelContext, labels, false);
             }
 
+            if (this.highContrastColors)
+                HighContrastHelper.applyPatternFills(shapes, this.svg, this.highContrastColors, (d: FunnelDataPoint) => d.categoryOrMeasureIndex);
+
             if (this.interactivityService) {
                 let interactors: D3.UpdateSelection = FunnelChart.drawInteractorShapes(dataPoints, funnelContext, layout);
                 let behaviorOptions: FunnelBehaviorOptions = {
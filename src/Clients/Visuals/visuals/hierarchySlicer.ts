@@ -0,0 +1,442 @@
+/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved. 
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *   
+ *  The above copyright notice and this permission notice shall be included in 
+ *  all copies or substantial portions of the Software.
+ *   
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR 
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, 
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE 
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER 
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+/// <reference path="../_references.ts"/>
+
+module powerbi.visuals {
+    import PixelConverter = jsCommon.PixelConverter;
+    import SemanticFilter = powerbi.data.SemanticFilter;
+    import SQExpr = powerbi.data.SQExpr;
+    import SQExprBuilder = powerbi.data.SQExprBuilder;
+    import SQOrExpr = powerbi.data.SQOrExpr;
+
+    const LevelIndentInPx = 16;
+
+    export interface HierarchySlicerNode {
+        /** Identifies the node by the values of its path from the root. */
+        key: string;
+        label: string;
+        level: number;
+        /** Equality conditions of the node and of all its ancestors, AND'd together. */
+        expr: SQExpr;
+        parent: HierarchySlicerNode;
+        children: HierarchySlicerNode[];
+        selected: boolean;
+        partiallySelected: boolean;
+        isExpanded: boolean;
+    }
+
+    export interface HierarchySlicerData {
+        categorySourceName: string;
+        roots: HierarchySlicerNode[];
+        settings: SlicerSettings;
+        searchKey: string;
+    }
+
+    /**
+     * Renders the slicer as an expandable tree when more than one field is bound, one level per field.
+     * Parent nodes are partially selected when only some of their children are selected.
+     */
+    export class HierarchySlicerRenderer implements ISlicerRenderer, SlicerValueHandler {
+        private element: JQuery;
+        private currentViewport: IViewport;
+        private dataView: DataView;
+        private hostServices: IVisualHostServices;
+        private interactivityService: IInteractivityService;
+        private container: D3.Selection;
+        private body: D3.Selection;
+        private searchContainer: D3.Selection;
+        private listView: IListView;
+        private domHelper: SlicerUtil.DOMHelper;
+        private data: HierarchySlicerData;
+        private expandedKeys: _.Dictionary<boolean> = {};
+        private textProperties: TextProperties = {
+            'fontFamily': Font.Family.regular.css,
+            'fontSize': '14px',
+        };
+
+        constructor(options?: SlicerConstructorOptions) {
+            if (options)
+                this.hostServices = options.hostServices;
+            this.domHelper = new SlicerUtil.DOMHelper();
+        }
+
+        // SlicerValueHandler
+        public getDefaultValue(): data.SQConstantExpr {
+            return;
+        }
+
+        public getIdentityFields(): SQExpr[] {
+            return SlicerUtil.DefaultValueHandler.getIdentityFields(this.dataView);
+        }
+
+        public getUpdatedSelfFilter(searchKey: string): SemanticFilter {
+            if (this.data && this.data.searchKey === searchKey)
+                return;
+
+            return SlicerUtil.getUpdatedSelfFilter(searchKey, this.dataView && this.dataView.metadata);
+        }
+
+        public enumerateObjectInstances(options: EnumerateVisualObjectInstancesOptions): VisualObjectInstance[] {
+            let data = this.data;
+            if (!data)
+                return;
+
+            let slicerData: SlicerData = {
+                categorySourceName: data.categorySourceName,
+                slicerDataPoints: [],
+                slicerSettings: data.settings,
+            };
+            return SlicerUtil.ObjectEnumerator.enumerateObjectInstances(options, slicerData, data.settings, this.dataView);
+        }
+
+        public onModeChange(mode: string): void {
+            // Doesn't require any changes, the slicer persists the mode which fires update on visual.
+        }
+
+        public init(slicerInitOptions: SlicerInitOptions, element: JQuery): IInteractivityService {
+            this.element = element;
+            this.currentViewport = slicerInitOptions.visualInitOptions.viewport;
+            let hostServices = this.hostServices = slicerInitOptions.visualInitOptions.host;
+
+            // The header clear button and the search go through the interactivity service.
+            this.interactivityService = createInteractivityService(hostServices);
+
+            let containerDiv = document.createElement('div');
+            // The items are styled like the vertical slicer ones.
+            containerDiv.className = Selectors.ListContainer.class + ' ' + Selectors.Container.class;
+            let container = this.container = d3.select(containerDiv);
+            this.searchContainer = this.domHelper.addSearch(hostServices, container);
+            this.body = container.append('div').classed(SlicerUtil.Selectors.Body.class, true);
+
+            let listViewOptions: ListViewOptions = {
+                rowHeight: this.domHelper.getRowHeight(DataConversion.DefaultSlicerProperties(), this.textProperties),
+                enter: (rowSelection: D3.Selection) => this.onEnterSelection(rowSelection),
+                exit: (rowSelection: D3.Selection) => rowSelection.remove(),
+                update: (rowSelection: D3.Selection) => this.onUpdateSelection(rowSelection),
+                loadMoreData: () => slicerInitOptions.loadMoreData(),
+                scrollEnabled: true,
+                viewport: this.currentViewport,
+                baseContainer: this.body,
+                isReadMode: () => {
+                    return (this.hostServices.getViewMode() !== ViewMode.Edit);
+                }
+            };
+            this.listView = ListViewFactory.createListView(listViewOptions);
+
+            let selectionHandler: ISelectionHandler | IInteractivityService = this.interactivityService;
+            SlicerWebBehavior.bindSlicerSearchEvent(this.searchContainer.select('input'), <ISelectionHandler>selectionHandler, this);
+
+            this.element.get(0).appendChild(containerDiv);
+
+            return this.interactivityService;
+        }
+
+        public render(options: SlicerRenderOptions): void {
+            this.currentViewport = options.viewport;
+            let dataView = this.dataView = options.dataView;
+            let data = this.data = HierarchySlicerRenderer.converter(dataView, this.expandedKeys);
+            if (!data) {
+                this.listView.empty();
+                return;
+            }
+
+            let settings = data.settings;
+            this.searchContainer
+                .classed(SlicerUtil.Selectors.SearchHeaderShow.class, settings.search.enabled)
+                .classed(SlicerUtil.Selectors.SearchHeaderCollapsed.class, !settings.search.enabled);
+
+            let searchInput = this.searchContainer.select('input');
+            let searchElement = <HTMLInputElement>searchInput.node();
+            if (_.isEmpty(searchElement.value) || _.isEmpty(data.searchKey))
+                searchInput.property('value', data.searchKey);
+
+            this.listView
+                .viewport(this.currentViewport)
+                .rowHeight(this.domHelper.getRowHeight(settings, this.textProperties));
+            this.renderNodes(options.resetScrollbarPosition);
+        }
+
+        public static converter(dataView: DataView, expandedKeys: _.Dictionary<boolean>): HierarchySlicerData {
+            if (!dataView || !dataView.categorical || _.isEmpty(dataView.categorical.categories) || !dataView.metadata)
+                return;
+
+            let categories = dataView.categorical.categories;
+            let formatters = _.map(categories, (category) => valueFormatter.create({
+                format: valueFormatter.getFormatString(category.source, slicerProps.formatString),
+            }));
+            let searchKey = DataConversion.getSearchKey(dataView.metadata);
+
+            let roots: HierarchySlicerNode[] = [];
+            let nodesByKey: _.Dictionary<HierarchySlicerNode> = {};
+            let rowCount = categories[0].values.length;
+            for (let row = 0; row < rowCount; row++) {
+                let parent: HierarchySlicerNode;
+                let path: PrimitiveValue[] = [];
+                for (let level = 0, levelCount = categories.length; level < levelCount; level++) {
+                    let category = categories[level];
+                    let value = category.values[row];
+                    path.push(value);
+
+                    let key = JSON.stringify(path);
+                    let node = nodesByKey[key];
+                    if (!node) {
+                        let conditionExpr = HierarchySlicerRenderer.getConditionExpr(category, row);
+                        if (!conditionExpr)
+                            return;
+
+                        node = nodesByKey[key] = {
+                            key: key,
+                            label: formatters[level].format(value),
+                            level: level,
+                            expr: parent ? SQExprBuilder.and(parent.expr, conditionExpr) : conditionExpr,
+                            parent: parent,
+                            children: [],
+                            selected: false,
+                            partiallySelected: false,
+                            // Expanding every level lets search results show the matches of the lower levels.
+                            isExpanded: !_.isEmpty(searchKey) || !!expandedKeys[key],
+                        };
+                        (parent ? parent.children : roots).push(node);
+                    }
+                    parent = node;
+                }
+            }
+
+            let filter = DataViewObjects.getValue<SemanticFilter>(dataView.metadata.objects, slicerProps.filterPropertyIdentifier);
+            HierarchySlicerRenderer.applyFilter(roots, filter);
+
+            return {
+                categorySourceName: _.map(categories, (category) => category.source.displayName).join(', '),
+                roots: roots,
+                settings: DataConversion.createDefaultSettings(dataView.metadata),
+                searchKey: searchKey,
+            };
+        }
+
+        /**
+         * Creates the filter for the selected nodes: the conditions of every selected node whose parent is not selected, OR'd together.
+         * Returns undefined when nothing or everything is selected.
+         */
+        public static createFilter(roots: HierarchySlicerNode[]): SemanticFilter {
+            if (_.every(roots, (root) => root.selected))
+                return;
+
+            let filterExpr: SQExpr;
+            HierarchySlicerRenderer.visitNodes(roots, (node) => {
+                if (node.selected) {
+                    filterExpr = SQExprBuilder.or(filterExpr, node.expr);
+                    return false;
+                }
+                return node.partiallySelected;
+            });
+
+            if (filterExpr)
+                return SemanticFilter.fromSQExpr(filterExpr);
+        }
+
+        /** Selects or deselects the node with all its descendants, and updates the state of its ancestors. */
+        public static toggleNode(node: HierarchySlicerNode, selected: boolean): void {
+            HierarchySlicerRenderer.setSubtreeSelected(node, selected);
+            for (let parent = node.parent; parent; parent = parent.parent)
+                HierarchySlicerRenderer.updateSelectionState(parent);
+        }
+
+        /** Returns the nodes shown in the list: the roots and the children of expanded nodes, depth first. */
+        public static getVisibleNodes(roots: HierarchySlicerNode[]): HierarchySlicerNode[] {
+            let visibleNodes: HierarchySlicerNode[] = [];
+            HierarchySlicerRenderer.visitNodes(roots, (node) => {
+                visibleNodes.push(node);
+                return node.isExpanded;
+            });
+
+            return visibleNodes;
+        }
+
+        /** The row identities span every level, so each level is filtered on its own field instead. */
+        private static getConditionExpr(category: DataViewCategoryColumn, row: number): SQExpr {
+            let field = <SQExpr>_.first(category.identityFields);
+            if (field)
+                return SQExprBuilder.equal(field, SQExprBuilder.typedConstant(category.values[row], category.source.type));
+        }
+
+        private static applyFilter(roots: HierarchySlicerNode[], filter: SemanticFilter): void {
+            if (!filter)
+                return;
+
+            let conditions = filter.conditions();
+            if (conditions.length !== 1)
+                return;
+
+            let selectedExprs: SQExpr[] = [];
+            HierarchySlicerRenderer.flattenOr(conditions[0], selectedExprs);
+
+            HierarchySlicerRenderer.visitNodes(roots, (node) => {
+                if (_.some(selectedExprs, (expr) => SQExpr.equals(expr, node.expr))) {
+                    HierarchySlicerRenderer.setSubtreeSelected(node, true);
+                    return false;
+                }
+                return true;
+            });
+
+            for (let root of roots)
+                HierarchySlicerRenderer.updateSubtreeSelectionState(root);
+        }
+
+        private static flattenOr(expr: SQExpr, result: SQExpr[]): void {
+            if (expr instanceof SQOrExpr) {
+                HierarchySlicerRenderer.flattenOr((<SQOrExpr>expr).left, result);
+                HierarchySlicerRenderer.flattenOr((<SQOrExpr>expr).right, result);
+            }
+            else {
+                result.push(expr);
+            }
+        }
+
+        /** Visits the nodes depth first; the children of a node are only visited when the callback returns true. */
+        private static visitNodes(nodes: HierarchySlicerNode[], callback: (node: HierarchySlicerNode) => boolean): void {
+            for (let node of nodes) {
+                if (callback(node))
+                    HierarchySlicerRenderer.visitNodes(node.children, callback);
+            }
+        }
+
+        private static setSubtreeSelected(node: HierarchySlicerNode, selected: boolean): void {
+            node.selected = selected;
+            node.partiallySelected = false;
+            for (let child of node.children)
+                HierarchySlicerRenderer.setSubtreeSelected(child, selected);
+        }
+
+        private static updateSubtreeSelectionState(node: HierarchySlicerNode): void {
+            for (let child of node.children)
+                HierarchySlicerRenderer.updateSubtreeSelectionState(child);
+            HierarchySlicerRenderer.updateSelectionState(node);
+        }
+
+        private static updateSelectionState(node: HierarchySlicerNode): void {
+            if (_.isEmpty(node.children))
+                return;
+
+            node.selected = _.every(node.children, (child) => child.selected);
+            node.partiallySelected = !node.selected && _.some(node.children, (child) => child.selected || child.partiallySelected);
+        }
+
+        private renderNodes(resetScrollbarPosition?: boolean): void {
+            let visibleNodes = HierarchySlicerRenderer.getVisibleNodes(this.data.roots);
+            this.listView.data(visibleNodes, (d: HierarchySlicerNode) => d.key, resetScrollbarPosition);
+        }
+
+        private onEnterSelection(rowSelection: D3.Selection): void {
+            let itemContainer = rowSelection.append('ul')
+                .append('li')
+                .classed(Selectors.ItemContainer.class, true);
+
+            itemContainer.append('span')
+                .classed(Selectors.Toggle.class, true)
+                .on('click', (d: HierarchySlicerNode) => {
+                    d3.event.stopPropagation();
+                    this.onToggleExpanded(d);
+                });
+
+            let checkbox = itemContainer.append('div')
+                .classed(Selectors.Input.class, true);
+            checkbox.append('input')
+                .attr('type', 'checkbox');
+            checkbox.append('span')
+                .classed(Selectors.Checkbox.class, true);
+
+            itemContainer.append('span')
+                .classed(SlicerUtil.Selectors.LabelText.class, true);
+
+            itemContainer.on('click', (d: HierarchySlicerNode) => {
+                d3.event.preventDefault();
+                this.onNodeClicked(d, d3.event.ctrlKey);
+            });
+        }
+
+        private onUpdateSelection(rowSelection: D3.Selection): void {
+            let settings = this.data && this.data.settings;
+            if (!settings)
+                return;
+
+            rowSelection.select(Selectors.ItemContainer.selector)
+                .style('padding-left', (d: HierarchySlicerNode) => PixelConverter.toString(d.level * LevelIndentInPx));
+
+            rowSelection.select(Selectors.Toggle.selector)
+                .classed(Selectors.Expanded.class, (d: HierarchySlicerNode) => d.isExpanded)
+                .classed(Selectors.Leaf.class, (d: HierarchySlicerNode) => _.isEmpty(d.children));
+
+            let labelText = rowSelection.select(SlicerUtil.Selectors.LabelText.selector)
+                .text((d: HierarchySlicerNode) => d.label)
+                .attr('title', (d: HierarchySlicerNode) => d.label);
+            this.domHelper.setSlicerTextStyle(labelText, settings);
+
+            rowSelection.select(Selectors.Input.selector)
+                .classed('selected', (d: HierarchySlicerNode) => d.selected)
+                .classed('partiallySelected', (d: HierarchySlicerNode) => d.partiallySelected)
+                .select('input')
+                .property('checked', (d: HierarchySlicerNode) => d.selected)
+                .property('indeterminate', (d: HierarchySlicerNode) => d.partiallySelected);
+
+            this.container.classed(SlicerUtil.Selectors.MultiSelectEnabled.class, !settings.selection.singleSelect);
+        }
+
+        private onToggleExpanded(node: HierarchySlicerNode): void {
+            node.isExpanded = !node.isExpanded;
+            this.expandedKeys[node.key] = node.isExpanded;
+            this.renderNodes();
+        }
+
+        private onNodeClicked(node: HierarchySlicerNode, ctrlKey: boolean): void {
+            let data = this.data;
+            let selected = !node.selected;
+
+            // Ctrl can be used to multi-select even in single-select mode.
+            if (data.settings.selection.singleSelect && !ctrlKey) {
+                for (let root of data.roots)
+                    HierarchySlicerRenderer.setSubtreeSelected(root, false);
+            }
+            HierarchySlicerRenderer.toggleNode(node, selected);
+
+            SlicerUtil.persistFilter(this.hostServices, HierarchySlicerRenderer.createFilter(data.roots));
+            this.renderNodes();
+        }
+    }
+
+    module Selectors {
+        import createClassAndSelector = jsCommon.CssConstants.createClassAndSelector;
+
+        export const ListContainer = createClassAndSelector('slicerContainer');
+        export const Container = createClassAndSelector('hierarchySlicerContainer');
+        export const ItemContainer = createClassAndSelector('slicerItemContainer');
+        export const Toggle = createClassAndSelector('hierarchySlicerToggle');
+        export const Expanded = createClassAndSelector('expanded');
+        export const Leaf = createClassAndSelector('leaf');
+        export const Input = createClassAndSelector('slicerCheckbox');
+        export const Checkbox = createClassAndSelector('checkbox');
+    }
+}
@@ -102,8 +102,7 @@ module powerbi.visuals {
         }
 
         public onModeChange(mode: string): void {
-            // Doesn't require any changes except handle update on visual.
-            this.hostServices.persistProperties({});
+            // Doesn't require any changes, the slicer persists the mode which fires update on visual.
         }
 
         public init(slicerInitOptions: SlicerInitOptions, element: JQuery): IInteractivityService {
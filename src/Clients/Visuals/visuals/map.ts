@@ -872,82 +872,85 @@ module powerbi.visuals {
         }
 
         private createLabelDataPoints(): LabelDataPoint[] {
-            let data = this.mapRendererData;
+            if (!this.filledMapDataLabelsEnabled)
+                return [];
+
+            return MapShapeDataPointRenderer.createShapeLabelDataPoints(this.mapRendererData.shapeData, this.dataLabelsSettings);
+        }
+
+        /** Creates the data labels of the shapes, placed by FilledMapLabelLayout inside their polygons. */
+        public static createShapeLabelDataPoints(dataShapes: MapShape[], labelSettings: PointDataLabelsSettings): LabelDataPoint[] {
             let labelDataPoints: LabelDataPoint[] = [];
-            if (this.filledMapDataLabelsEnabled) {
-                let dataShapes = data.shapeData;
-                let labelSettings = this.dataLabelsSettings;
+            for (let dataShape of dataShapes) {
 
-                for (let dataShape of dataShapes) {
+                if (!dataShape.displayLabel) {
+                    continue;
+                }
+                let text, secondRowText: string;
+                let secondRowTextWidth: number = 0;
+                let hasSecondRow: boolean = false;
 
-                    if (!dataShape.displayLabel) {
+                if (labelSettings.show && !labelSettings.showCategory) {
+                    text = dataShape.catagoryLabeltext;
+                    if (text === undefined)
                         continue;
-                    }
-                    let text, secondRowText: string;
-                    let secondRowTextWidth: number = 0;
-                    let hasSecondRow: boolean = false;
-
-                    if (this.dataLabelsSettings.show && !this.dataLabelsSettings.showCategory) {
-                        text = dataShape.catagoryLabeltext;
-                        if (text === undefined)
-                            continue;
-                    } else if (this.dataLabelsSettings.showCategory && !this.dataLabelsSettings.show) {
-                        text = dataShape.labeltext;
-                        if (text === undefined)
-                            continue;
-                    } else if (this.dataLabelsSettings.showCategory && this.dataLabelsSettings.show) {
-                        text = dataShape.catagoryLabeltext;
-                        secondRowText = dataShape.labeltext;
-                        if (text === undefined && secondRowText === undefined)
-                            continue;
-                        hasSecondRow = true;
-                    }
-
-                    if (hasSecondRow) {
-                        let secondRowProperties: TextProperties = {
-                            text: secondRowText,
-                            fontFamily: NewDataLabelUtils.LabelTextProperties.fontFamily,
-                            fontSize: NewDataLabelUtils.LabelTextProperties.fontSize,
-                            fontWeight: NewDataLabelUtils.LabelTextProperties.fontWeight,
-                        };
-                        secondRowTextWidth = TextMeasurementService.measureSvgTextWidth(secondRowProperties);
-                    }
+                } else if (labelSettings.showCategory && !labelSettings.show) {
+                    text = dataShape.labeltext;
+                    if (text === undefined)
+                        continue;
+                } else if (labelSettings.showCategory && labelSettings.show) {
+                    text = dataShape.catagoryLabeltext;
+                    secondRowText = dataShape.labeltext;
+                    if (text === undefined && secondRowText === undefined)
+                        continue;
+                    hasSecondRow = true;
+                }
 
-                    let firstRowProperties: TextProperties = {
-                        text: text,
+                if (hasSecondRow) {
+                    let secondRowProperties: TextProperties = {
+                        text: secondRowText,
                         fontFamily: NewDataLabelUtils.LabelTextProperties.fontFamily,
                         fontSize: NewDataLabelUtils.LabelTextProperties.fontSize,
                         fontWeight: NewDataLabelUtils.LabelTextProperties.fontWeight,
                     };
-                    let textWidth = TextMeasurementService.measureSvgTextWidth(firstRowProperties);
-                    let textHeight = TextMeasurementService.estimateSvgTextHeight(firstRowProperties);
+                    secondRowTextWidth = TextMeasurementService.measureSvgTextWidth(secondRowProperties);
+                }
 
-                    if (secondRowText && dataShape.labeltext !== undefined && dataShape.catagoryLabeltext !== undefined) {
-                        textHeight = textHeight * 2;
-                    }
+                let firstRowProperties: TextProperties = {
+                    text: text,
+                    fontFamily: NewDataLabelUtils.LabelTextProperties.fontFamily,
+                    fontSize: NewDataLabelUtils.LabelTextProperties.fontSize,
+                    fontWeight: NewDataLabelUtils.LabelTextProperties.fontWeight,
+                };
+                let textWidth = TextMeasurementService.measureSvgTextWidth(firstRowProperties);
+                let textHeight = TextMeasurementService.estimateSvgTextHeight(firstRowProperties);
 
-                    let labelDataPoint: LabelDataPoint = {
-                        parentType: LabelDataPointParentType.Polygon,
-                        parentShape:
-                        {
-                            polygon: new Polygon(dataShape.absolutePointArray),
-                            validPositions: MapShapeDataPointRenderer.validLabelPolygonPositions,
-                        },
-                        text: text,
-                        secondRowText: secondRowText,
-                        textSize: {
-                            width: Math.max(textWidth, secondRowTextWidth),
-                            height: textHeight,
-                        },
-                        insideFill: labelSettings.labelColor,
-                        outsideFill: labelSettings.labelColor ? labelSettings.labelColor : NewDataLabelUtils.defaultInsideLabelColor, // Use inside for outside colors because we draw backgrounds for map labels
-                        isPreferred: false,
-                        identity: undefined,
-                        hasBackground: true,
-                    };
-                    labelDataPoints.push(labelDataPoint);
+                if (secondRowText && dataShape.labeltext !== undefined && dataShape.catagoryLabeltext !== undefined) {
+                    textHeight = textHeight * 2;
                 }
+
+                let labelDataPoint: LabelDataPoint = {
+                    parentType: LabelDataPointParentType.Polygon,
+                    parentShape:
+                    {
+                        polygon: new Polygon(dataShape.absolutePointArray),
+                        validPositions: MapShapeDataPointRenderer.validLabelPolygonPositions,
+                    },
+                    text: text,
+                    secondRowText: secondRowText,
+                    textSize: {
+                        width: Math.max(textWidth, secondRowTextWidth),
+                        height: textHeight,
+                    },
+                    insideFill: labelSettings.labelColor,
+                    outsideFill: labelSettings.labelColor ? labelSettings.labelColor : NewDataLabelUtils.defaultInsideLabelColor, // Use inside for outside colors because we draw backgrounds for map labels
+                    isPreferred: false,
+                    identity: undefined,
+                    hasBackground: true,
+                };
+                labelDataPoints.push(labelDataPoint);
             }
+
             return labelDataPoints;
         }
 
@@ -31,6 +31,7 @@ module powerbi.visuals {
     import TablixFormattingPropertiesMatrix = powerbi.visuals.controls.TablixFormattingPropertiesMatrix;
     import TablixUtils = controls.internal.TablixUtils;
     import TablixObjects = controls.internal.TablixObjects;
+    import TablixConditionalFormatting = controls.internal.TablixConditionalFormatting;
     import UrlUtils = jsCommon.UrlUtils;
     import EdgeSettings = TablixUtils.EdgeSettings;
     import EdgeType = TablixUtils.EdgeType;
@@ -75,6 +76,28 @@ module powerbi.visuals {
          * Formatted text to show for the Node
          */
         valueFormatted?: string;
+
+        /**
+         * Children of the node that are shown in the Matrix.
+         * Differs from children when the node is collapsed or when subtotals are hidden.
+         */
+        visibleChildren?: MatrixVisualNode[];
+
+        /**
+         * Subtotal child of the node, which provides its values when the node is collapsed.
+         */
+        subtotal?: MatrixVisualNode;
+
+        /**
+         * True if the node is collapsed, showing its subtotal in place of its children.
+         */
+        isCollapsed?: boolean;
+
+        /**
+         * Index of the values of a column leaf within the values of the rows.
+         * If the node is not a column leaf, the value is undefined.
+         */
+        valueIndex?: number;
     }
 
     function isNodeGrandTotal(node: MatrixVisualNode): boolean {
@@ -95,6 +118,12 @@ module powerbi.visuals {
         displayName: string;
         isColumnHeaderLeaf: boolean;
         isRowHeaderLeaf: boolean;
+
+        /**
+         * Level of the hierarchy the corner cell is the header of, if any.
+         * Row levels are headed by the column header leaves, column levels by the row header leaves.
+         */
+        level?: number;
     }
 
     export class MatrixVisualBodyItem extends TablixUtils.TablixVisualCell {
@@ -166,10 +195,20 @@ module powerbi.visuals {
         getIntersection(rowItem: MatrixVisualNode, columnItem: MatrixVisualNode): MatrixVisualBodyItem;
         getCorner(rowLevel: number, columnLevel: number): MatrixCornerItem;
         headerItemEquals(item1: MatrixVisualNode, item2: MatrixVisualNode): boolean;
+        getRowHierarchyNodes(): MatrixVisualNode[];
+        getColumnHierarchyNodes(): MatrixVisualNode[];
+        isCollapsible(item: MatrixVisualNode): boolean;
+        getCollapsibleNodes(hierarchy: MatrixVisualNode[], level?: number): MatrixVisualNode[];
+        setSubtotalsVisibility(showRowSubtotals: boolean, showColumnSubtotals: boolean): void;
     }
 
     interface MatrixHierarchy extends DataViewHierarchy {
         leafNodes?: MatrixVisualNode[];
+
+        /**
+         * Outermost nodes shown in the Matrix.
+         */
+        visibleRootNodes?: MatrixVisualNode[];
     }
     
     /**
@@ -178,9 +217,11 @@ module powerbi.visuals {
     export function createMatrixHierarchyNavigator(matrix: DataViewMatrix,
         isDataComplete: boolean,
         formatter: ICustomValueColumnFormatter,
-        compositeGroupSeparator: string): IMatrixHierarchyNavigator {
+        compositeGroupSeparator: string,
+        showRowSubtotals: boolean = true,
+        showColumnSubtotals: boolean = true): IMatrixHierarchyNavigator {
 
-        return new MatrixHierarchyNavigator(matrix, isDataComplete, formatter, compositeGroupSeparator);
+        return new MatrixHierarchyNavigator(matrix, isDataComplete, formatter, compositeGroupSeparator, showRowSubtotals, showColumnSubtotals);
     }
 
     class MatrixHierarchyNavigator implements IMatrixHierarchyNavigator {
@@ -195,10 +236,18 @@ module powerbi.visuals {
         */
         private isDataComplete: boolean;
 
+        /**
+         * Subtotals may be part of the data only to show the values of collapsed groups, in which case they are hidden
+         */
+        private showRowSubtotals: boolean;
+        private showColumnSubtotals: boolean;
+
         constructor(matrix: DataViewMatrix,
             isDataComplete: boolean,
             formatter: ICustomValueColumnFormatter,
-            compositeGroupSeparator: string) {
+            compositeGroupSeparator: string,
+            showRowSubtotals: boolean,
+            showColumnSubtotals: boolean) {
 
             this.matrix = matrix;
             this.rowHierarchy = MatrixHierarchyNavigator.wrapMatrixHierarchy(matrix.rows);
@@ -206,6 +255,8 @@ module powerbi.visuals {
             this.formatter = formatter;
             this.compositeGroupSeparator = compositeGroupSeparator;
             this.isDataComplete = isDataComplete;
+            this.showRowSubtotals = showRowSubtotals;
+            this.showColumnSubtotals = showColumnSubtotals;
 
             this.update();
         }
@@ -288,7 +339,7 @@ module powerbi.visuals {
         public isLeaf(item: MatrixVisualNode): boolean {
             debug.assertValue(item, 'item');
 
-            return !item.children || item.children.length === 0;
+            return !item.visibleChildren || item.visibleChildren.length === 0;
         }
 
         public isRowHierarchyLeaf(item: MatrixCornerItem): boolean {
@@ -337,7 +388,7 @@ module powerbi.visuals {
             while (firstLevelParent.parent)
                 firstLevelParent = firstLevelParent.parent;
 
-            return firstLevelParent.siblings === this.rowHierarchy.root.children;
+            return firstLevelParent.siblings === this.rowHierarchy.visibleRootNodes;
         }
 
         public areAllParentsLast(item: MatrixVisualNode, items: MatrixVisualNode[]): boolean {
@@ -359,7 +410,7 @@ module powerbi.visuals {
         public getChildren(item: MatrixVisualNode): MatrixVisualNode[] {
             debug.assertValue(item, 'item');
 
-            return item.children;
+            return item.visibleChildren;
         }
         
         /**
@@ -417,11 +468,13 @@ module powerbi.visuals {
             let colIndex: number = columnItem.leafIndex;
             let bodyCell: MatrixVisualBodyItem;
 
-            if (!rowItem.values) {
+            // A collapsed row shows the values of its subtotal
+            let rowValues = rowItem.isCollapsed ? rowItem.subtotal.values : rowItem.values;
+            if (!rowValues) {
                 node = undefined;
             }
             else {
-                node = rowItem.values[columnItem.leafIndex];
+                node = rowValues[columnItem.valueIndex];
             }
 
             if (node) {
@@ -462,6 +515,7 @@ module powerbi.visuals {
                         displayName: _.map(levelSource.sources, (source) => { return source.displayName; }).join(this.compositeGroupSeparator),
                         isColumnHeaderLeaf: true,
                         isRowHeaderLeaf: rowLevel === rowLevels.length - 1,
+                        level: rowLevel,
                     };
             }
 
@@ -473,6 +527,7 @@ module powerbi.visuals {
                         displayName: _.map(levelSource.sources, (source) => { return source.displayName; }).join(this.compositeGroupSeparator),
                         isColumnHeaderLeaf: false,
                         isRowHeaderLeaf: true,
+                        level: columnLevel,
                     };
             }
 
@@ -505,7 +560,8 @@ module powerbi.visuals {
             return corner1.displayName === corner2.displayName &&
                 corner1.isColumnHeaderLeaf === corner2.isColumnHeaderLeaf &&
                 corner1.isRowHeaderLeaf === corner2.isRowHeaderLeaf &&
-                corner1.metadata === corner2.metadata;
+                corner1.metadata === corner2.metadata &&
+                corner1.level === corner2.level;
         }
 
         public getMatrixColumnHierarchy(): MatrixHierarchy {
@@ -515,6 +571,64 @@ module powerbi.visuals {
         public getMatrixRowHierarchy(): MatrixHierarchy {
             return this.rowHierarchy;
         }
+
+        /**
+         * Returns the outermost row nodes shown in the Matrix.
+         */
+        public getRowHierarchyNodes(): MatrixVisualNode[] {
+            return this.rowHierarchy.visibleRootNodes;
+        }
+
+        /**
+         * Returns the outermost column nodes shown in the Matrix.
+         */
+        public getColumnHierarchyNodes(): MatrixVisualNode[] {
+            return this.columnHierarchy.visibleRootNodes;
+        }
+
+        /**
+         * Checks whether a hierarchy member is a group instance with child groups, which can be collapsed.
+         */
+        public isCollapsible(item: MatrixVisualNode): boolean {
+            debug.assertValue(item, 'item');
+
+            return !!item.identity && _.some(item.children, (child: MatrixVisualNode) => !child.isSubtotal && !!child.identity);
+        }
+
+        /**
+         * Returns the collapsible members of a hierarchy, including the ones under collapsed members.
+         * If a level is specified, only the members of that level are returned.
+         */
+        public getCollapsibleNodes(hierarchy: MatrixVisualNode[], level?: number): MatrixVisualNode[] {
+            let matrixHierarchy = this.getMatrixHierarchy(hierarchy);
+            let nodes: MatrixVisualNode[] = [];
+            if (matrixHierarchy && matrixHierarchy.root.children)
+                this.getCollapsibleNodesRecursive(matrixHierarchy.root.children, level, nodes);
+
+            return nodes;
+        }
+
+        private getCollapsibleNodesRecursive(nodes: MatrixVisualNode[], level: number, result: MatrixVisualNode[]): void {
+            for (let i = 0, ilen = nodes.length; i < ilen; i++) {
+                let node = nodes[i];
+                if (!this.isCollapsible(node))
+                    continue;
+
+                if (level == null || node.level === level)
+                    result.push(node);
+
+                if (level == null || node.level < level)
+                    this.getCollapsibleNodesRecursive(node.children, level, result);
+            }
+        }
+
+        /**
+         * Sets whether the subtotals in the data are shown. Takes effect on the next update.
+         */
+        public setSubtotalsVisibility(showRowSubtotals: boolean, showColumnSubtotals: boolean): void {
+            this.showRowSubtotals = showRowSubtotals;
+            this.showColumnSubtotals = showColumnSubtotals;
+        }
         
         /**
          * Implementation for MatrixDataAdapter interface.
@@ -528,9 +642,11 @@ module powerbi.visuals {
                 if (updateColumns)
                     this.columnHierarchy = MatrixHierarchyNavigator.wrapMatrixHierarchy(dataViewMatrix.columns);
             }
-            this.updateHierarchy(this.rowHierarchy);
+            this.updateHierarchy(this.rowHierarchy, this.showRowSubtotals, TablixObjects.PropRowsCollapsed);
             if (updateColumns) {
-                this.updateHierarchy(this.columnHierarchy);
+                if (this.columnHierarchy.root.children)
+                    MatrixHierarchyNavigator.updateValueIndices(this.columnHierarchy.root.children, 0);
+                this.updateHierarchy(this.columnHierarchy, this.showColumnSubtotals, TablixObjects.PropColumnsCollapsed);
                 MatrixHierarchyNavigator.updateStaticColumnHeaders(this.columnHierarchy);
             }
         }
@@ -542,20 +658,56 @@ module powerbi.visuals {
             return matrixHierarchy;
         }
 
-        private updateHierarchy(hierarchy: MatrixHierarchy): void {
+        private updateHierarchy(hierarchy: MatrixHierarchy, showSubtotals: boolean, collapsedProperty: TablixObjects.TablixProperty): void {
             if (hierarchy.leafNodes.length > 0)
                 hierarchy.leafNodes.length = 0;
 
             if (hierarchy.root.children)
-                this.updateRecursive(hierarchy, hierarchy.root.children, null, hierarchy.leafNodes);
+                hierarchy.visibleRootNodes = this.updateRecursive(hierarchy, hierarchy.root.children, null, hierarchy.leafNodes, showSubtotals, collapsedProperty);
+            else
+                hierarchy.visibleRootNodes = hierarchy.root.children;
         }
 
-        private updateRecursive(hierarchy: MatrixHierarchy, nodes: MatrixVisualNode[], parent: MatrixVisualNode, cache: MatrixVisualNode[]): void {
+        /**
+         * Assigns the index of the values of each column leaf, counting all leaves whether they are shown or not.
+         * Returns the index to assign to the next leaf.
+         */
+        private static updateValueIndices(nodes: MatrixVisualNode[], valueIndex: number): number {
+            for (let i = 0, ilen = nodes.length; i < ilen; i++) {
+                let node = nodes[i];
+                if (node.children && node.children.length > 0) {
+                    node.valueIndex = undefined;
+                    valueIndex = MatrixHierarchyNavigator.updateValueIndices(node.children, valueIndex);
+                }
+                else {
+                    node.valueIndex = valueIndex++;
+                }
+            }
+
+            return valueIndex;
+        }
+
+        /**
+         * Updates the nodes and adds the visible leaves to the cache, if any.
+         * Returns the nodes to show.
+         */
+        private updateRecursive(hierarchy: MatrixHierarchy,
+            nodes: MatrixVisualNode[],
+            parent: MatrixVisualNode,
+            cache: MatrixVisualNode[],
+            showSubtotals: boolean,
+            collapsedProperty: TablixObjects.TablixProperty): MatrixVisualNode[] {
             let level: DataViewHierarchyLevel;
             let formatStringPropID = TablixObjects.PropColumnFormatString.getPropertyID();
+
+            let visibleNodes = nodes;
+            if (!showSubtotals && _.some(nodes, (node: MatrixVisualNode) => node.isSubtotal))
+                visibleNodes = _.filter(nodes, (node: MatrixVisualNode) => !node.isSubtotal);
+
+            let visibleIndex = 0;
             for (let i = 0, ilen = nodes.length; i < ilen; i++) {
                 let node = nodes[i];
-                node.siblings = nodes;
+                node.siblings = visibleNodes;
 
                 if (parent)
                     node.parent = parent;
@@ -586,11 +738,56 @@ module powerbi.visuals {
                     }
                 }
 
-                node.index = i;
+                // Hidden nodes are still updated, as collapsed nodes take their values from them
+                let isHidden = visibleNodes !== nodes && node.isSubtotal;
+                node.index = isHidden ? -1 : visibleIndex++;
+                let nodeCache = isHidden ? null : cache;
                 if (node.children && node.children.length > 0) {
-                    this.updateRecursive(hierarchy, node.children, node, cache);
+                    node.subtotal = <MatrixVisualNode>_.find(node.children, (child: MatrixVisualNode) => child.isSubtotal);
+                    // A group can be collapsed only once its subtotal is part of the data
+                    node.isCollapsed = !!node.subtotal && this.isCollapsible(node) && collapsedProperty.getValue<boolean>(node.objects);
+                    node.visibleChildren = this.updateRecursive(hierarchy, node.children, node, node.isCollapsed ? null : nodeCache, showSubtotals, collapsedProperty);
+
+                    if (node.isCollapsed)
+                        MatrixHierarchyNavigator.collapseNode(node, nodeCache);
                 }
                 else {
+                    node.subtotal = undefined;
+                    node.isCollapsed = false;
+                    node.visibleChildren = node.children;
+                    if (nodeCache) {
+                        node.leafIndex = nodeCache.length;
+                        nodeCache.push(node);
+                    }
+                }
+            }
+
+            return visibleNodes;
+        }
+
+        /**
+         * Replaces the children of a collapsed node by the ones of its subtotal, which are the measures when there are several of them.
+         * Otherwise the node becomes a leaf showing the values of its subtotal.
+         */
+        private static collapseNode(node: MatrixVisualNode, cache: MatrixVisualNode[]): void {
+            let subtotalChildren: MatrixVisualNode[] = node.subtotal.children;
+            if (subtotalChildren && subtotalChildren.length > 0) {
+                node.visibleChildren = subtotalChildren;
+                for (let i = 0, ilen = subtotalChildren.length; i < ilen; i++) {
+                    let child = subtotalChildren[i];
+                    child.parent = node;
+                    child.siblings = subtotalChildren;
+                    child.index = i;
+                    if (cache) {
+                        child.leafIndex = cache.length;
+                        cache.push(child);
+                    }
+                }
+            }
+            else {
+                node.visibleChildren = undefined;
+                node.valueIndex = node.subtotal.valueIndex;
+                if (cache) {
                     node.leafIndex = cache.length;
                     cache.push(node);
                 }
@@ -618,11 +815,11 @@ module powerbi.visuals {
 
         private getMatrixHierarchy(rootNodes: MatrixVisualNode[]): MatrixHierarchy {
             let rowHierarchyRootNodes = this.rowHierarchy.root.children;
-            if (rowHierarchyRootNodes && rootNodes === rowHierarchyRootNodes)
+            if (rowHierarchyRootNodes && (rootNodes === rowHierarchyRootNodes || rootNodes === this.rowHierarchy.visibleRootNodes))
                 return this.rowHierarchy;
 
             let columnHierarchyRootNodes = this.columnHierarchy.root.children;
-            if (columnHierarchyRootNodes && rootNodes === columnHierarchyRootNodes)
+            if (columnHierarchyRootNodes && (rootNodes === columnHierarchyRootNodes || rootNodes === this.columnHierarchy.visibleRootNodes))
                 return this.columnHierarchy;
 
             return null;
@@ -634,6 +831,10 @@ module powerbi.visuals {
         totalLabel?: string;
         onColumnHeaderClick?(queryName: string, sortDirection: SortDirection): void;
         showSortIcons?: boolean;
+        onHeaderExpandCollapse?(item: MatrixVisualNode, isRowHeader: boolean): void;
+        onExpandToLevel?(level: number, isRowHierarchy: boolean): void;
+        showExpandCollapseIcons?: boolean;
+        isRightToLeft?: boolean;
     }
 
     export class MatrixBinder implements controls.ITablixBinder {
@@ -715,6 +916,8 @@ module powerbi.visuals {
 
             cell.contentWidth = 0;
             this.bindHeader(item, cell, cell.extension.contentHost, this.getRowHeaderMetadata(item), cellStyle);
+            if (this.options.showExpandCollapseIcons && this.hierarchyNavigator && this.hierarchyNavigator.isCollapsible(item))
+                this.addExpandCollapseIcon(cell, !item.isCollapsed, () => this.options.onHeaderExpandCollapse(item, true));
             cell.contentWidth = Math.ceil(cell.contentWidth);
 
             if (this.options.onBindRowHeader)
@@ -822,12 +1025,14 @@ module powerbi.visuals {
                 }
 
                 // Overwrite only if the there are subtotal siblings (like in the multimeasure case), which means ALL siblings are subtotals.
-                if (item.isSubtotal && item.parent && item.parent.children.length > 1 && (<MatrixVisualNode>item.parent.children[0]).isSubtotal)
+                if (item.isSubtotal && item.parent && item.siblings.length > 1 && item.siblings[0].isSubtotal)
                     overwriteTotalLabel = true;
             }
 
             cell.extension.disableDragResize();
             this.bindHeader(item, cell, cellElement, this.getColumnHeaderMetadata(item), cellStyle, overwriteTotalLabel);
+            if (this.options.showExpandCollapseIcons && this.hierarchyNavigator && this.hierarchyNavigator.isCollapsible(item))
+                this.addExpandCollapseIcon(cell, !item.isCollapsed, () => this.options.onHeaderExpandCollapse(item, false));
             cell.contentWidth = Math.ceil(cell.contentWidth);
 
             this.setColumnHeaderStyle(cell, item, cellStyle);
@@ -957,10 +1162,29 @@ module powerbi.visuals {
                 value);
         }
 
+        /**
+         * Adds the icon expanding or collapsing the groups of a header in front of its content.
+         */
+        private addExpandCollapseIcon(cell: controls.ITablixCell, isExpanded: boolean, onClick: () => void): void {
+            let icon: HTMLPhraseElement = <HTMLPhraseElement>document.createElement('i');
+            icon.className = TablixUtils.CssClassMatrixExpandCollapse + (isExpanded ? " expanded" : "");
+            icon.addEventListener('click', (e: MouseEvent) => {
+                // Keeps the click from sorting the column
+                e.stopPropagation();
+                onClick();
+            });
+
+            let contentHost = cell.extension.contentHost;
+            contentHost.insertBefore(icon, contentHost.firstChild);
+
+            // Glyph font has all characters width/height same as font size
+            cell.contentWidth += this.fontSizeHeader + TablixUtils.ExpandCollapsePadding;
+        }
+
         private registerColumnHeaderClickHandler(columnMetadata: DataViewMetadataColumn, cell: controls.ITablixCell): void {
             if (this.options.onColumnHeaderClick) {
                 let handler = (e: MouseEvent) => {
-                    if (TablixUtils.isValidSortClick(e)) {
+                    if (TablixUtils.isValidSortClick(e, this.options.isRightToLeft)) {
                         let sortDirection: SortDirection = TablixUtils.reverseSort(columnMetadata.sort);
                         this.options.onColumnHeaderClick(columnMetadata.queryName ? columnMetadata.queryName : columnMetadata.displayName, sortDirection);
                     }
@@ -1009,6 +1233,10 @@ module powerbi.visuals {
                 if (textContent) {
                     TablixUtils.setCellTextAndTooltip(textContent, cell.extension.contentHost);
                     cell.contentWidth = TextMeasurementService.measureSvgTextWidth(textProps, textContent);
+
+                    let cellFormatting = TablixConditionalFormatting.getCellFormatting(this.formattingProperties.conditionalFormatting, item);
+                    if (cellFormatting)
+                        cell.contentWidth += TablixConditionalFormatting.appendToCellContent(cellFormatting, item.dataPoint, cell.extension.contentHost, this.fontSizeValue);
                 }
             }
 
@@ -1097,6 +1325,11 @@ module powerbi.visuals {
             else {
                 style.fontColor = bandingFontColor;
                 style.backColor = bandingBackColor;
+
+                // Color scales of the measure override the banding colors
+                let cellFormatting = TablixConditionalFormatting.getCellFormatting(this.formattingProperties.conditionalFormatting, item);
+                if (cellFormatting)
+                    TablixConditionalFormatting.applyColorScales(cellFormatting, item.dataPoint, style);
             }
             // #endregion
         }
@@ -1142,6 +1375,8 @@ module powerbi.visuals {
 
             TablixUtils.setCellTextAndTooltip(item.displayName, cellElement, cell.extension.contentHost);
             cell.contentWidth += TextMeasurementService.measureSvgTextWidth(this.textPropsHeader, item.displayName);
+            if (this.options.showExpandCollapseIcons)
+                this.bindCornerExpandCollapse(item, cell);
             cell.contentWidth = Math.ceil(cell.contentWidth);
 
             if (item.isRowHeaderLeaf) {
@@ -1156,6 +1391,26 @@ module powerbi.visuals {
             cell.extension.disableDragResize();
         }
 
+        /**
+         * Adds the icon expanding or collapsing all the groups of the level headed by a corner cell.
+         * Collapsing shows the groups down to the level, expanding shows the groups of the next level.
+         */
+        private bindCornerExpandCollapse(item: MatrixCornerItem, cell: controls.ITablixCell): void {
+            if (!this.hierarchyNavigator || item.level == null)
+                return;
+
+            // Corners of the column header leaves head the row levels
+            let isRowHierarchy = item.isColumnHeaderLeaf;
+            let hierarchy = isRowHierarchy ? this.hierarchyNavigator.getRowHierarchyNodes() : this.hierarchyNavigator.getColumnHierarchyNodes();
+            let nodes = hierarchy ? this.hierarchyNavigator.getCollapsibleNodes(hierarchy, item.level) : [];
+            if (_.isEmpty(nodes))
+                return;
+
+            let isExpanded = _.some(nodes, (node: MatrixVisualNode) => !node.isCollapsed);
+            let level = isExpanded ? item.level : item.level + 1;
+            this.addExpandCollapseIcon(cell, isExpanded, () => this.options.onExpandToLevel(level, isRowHierarchy));
+        }
+
         private setCornerCellsStyle(cell: controls.ITablixCell, style: TablixUtils.CellStyle): void {
             let propsGrid = this.formattingProperties.grid;
             let propsCol = this.formattingProperties.columnHeaders;
@@ -1388,8 +1643,11 @@ module powerbi.visuals {
                 dataViewMatrix.rows.dataReductionAlgorithm.window.count = 100;
             }
             let objects: DataViewObjects = dataViewMapping.metadata.objects;
-            (<data.CompiledDataViewRoleForMappingWithReduction>dataViewMatrix.rows).for.in.subtotalType = TablixObjects.shouldShowRowSubtotals(objects) ? data.CompiledSubtotalType.After : data.CompiledSubtotalType.None;
-            dataViewMatrix.columns.for.in.subtotalType = TablixObjects.shouldShowColumnSubtotals(objects) ? data.CompiledSubtotalType.After : data.CompiledSubtotalType.None;
+            // Collapsed groups show their subtotals, so subtotals are needed even when they are turned off
+            let rowSubtotals = TablixObjects.shouldShowRowSubtotals(objects) || TablixObjects.hasCollapsedRowGroups(objects);
+            let columnSubtotals = TablixObjects.shouldShowColumnSubtotals(objects) || TablixObjects.hasCollapsedColumnGroups(objects);
+            (<data.CompiledDataViewRoleForMappingWithReduction>dataViewMatrix.rows).for.in.subtotalType = rowSubtotals ? data.CompiledSubtotalType.After : data.CompiledSubtotalType.None;
+            dataViewMatrix.columns.for.in.subtotalType = columnSubtotals ? data.CompiledSubtotalType.After : data.CompiledSubtotalType.None;
         }
 
         public static getSortableRoles(): string[] {
@@ -1410,10 +1668,14 @@ module powerbi.visuals {
             this.waitingForSort = false;
         }
 
-        public static converter(dataView: DataView): TablixFormattingPropertiesMatrix {
+        public static converter(dataView: DataView, highContrastColors?: HighContrastColors): TablixFormattingPropertiesMatrix {
             debug.assertValue(dataView, 'dataView');
 
-            return TablixObjects.getMatrixObjects(dataView);
+            let formattingProperties = TablixObjects.getMatrixObjects(dataView);
+            if (highContrastColors)
+                TablixObjects.applyHighContrastColors(formattingProperties, highContrastColors);
+
+            return formattingProperties;
         }
 
         public onResizing(finalViewport: IViewport): void {
@@ -1440,16 +1702,18 @@ module powerbi.visuals {
                 // Any change to the Column Widths need to go through to update all column group instances
                 // ToDo: Consider not resetting scrollbar everytime
 
-                let formattingProperties = Matrix.converter(this.dataView);
+                let formattingProperties = Matrix.converter(this.dataView, HighContrastHelper.getColors(this.style));
                 let textSize = formattingProperties.general.textSize;
 
                 if (options.operationKind === VisualDataChangeOperationKind.Append) {
                     // If Root for Rows or Columns has changed by the DataViewTransform (e.g. when having reorders in values)
                     let rootChanged = previousDataView.matrix.rows.root !== this.dataView.matrix.rows.root;
+                    let previousRowNodes = this.hierarchyNavigator.getRowHierarchyNodes();
                     this.createOrUpdateHierarchyNavigator(rootChanged);
                     
-                    if (rootChanged)
-                        this.tablixControl.updateModels(/*resetScrollOffsets*/false, this.dataView.matrix.rows.root.children, this.dataView.matrix.columns.root.children);
+                    // Rows are filtered into a new collection when subtotals are hidden
+                    if (rootChanged || previousRowNodes !== this.hierarchyNavigator.getRowHierarchyNodes())
+                        this.tablixControl.updateModels(/*resetScrollOffsets*/false, this.hierarchyNavigator.getRowHierarchyNodes(), this.hierarchyNavigator.getColumnHierarchyNodes());
 
                     this.refreshControl(/*clear*/false);
                 } else {
@@ -1506,12 +1770,16 @@ module powerbi.visuals {
 
         private createOrUpdateHierarchyNavigator(rootChanged: boolean): void {
             let isDataComplete = !this.dataView.metadata.segment;
+            let objects = this.dataView.metadata.objects;
+            let showRowSubtotals = TablixObjects.shouldShowRowSubtotals(objects);
+            let showColumnSubtotals = TablixObjects.shouldShowColumnSubtotals(objects);
 
             if (!this.tablixControl) {
-                let matrixNavigator = createMatrixHierarchyNavigator(this.dataView.matrix, isDataComplete, this.formatter, this.hostServices.getLocalizedString('ListJoin_Separator'));
+                let matrixNavigator = createMatrixHierarchyNavigator(this.dataView.matrix, isDataComplete, this.formatter, this.hostServices.getLocalizedString('ListJoin_Separator'), showRowSubtotals, showColumnSubtotals);
                 this.hierarchyNavigator = matrixNavigator;
             }
             else {
+                this.hierarchyNavigator.setSubtotalsVisibility(showRowSubtotals, showColumnSubtotals);
                 this.hierarchyNavigator.update(this.dataView.matrix, isDataComplete, rootChanged);
             }
         }
@@ -1531,6 +1799,10 @@ module powerbi.visuals {
                 totalLabel: this.hostServices.getLocalizedString(Matrix.TotalLabel),
                 onColumnHeaderClick: (queryName: string, sortDirection: SortDirection) => this.onColumnHeaderClick(queryName, sortDirection),
                 showSortIcons: layoutKind === controls.TablixLayoutKind.Canvas,
+                onHeaderExpandCollapse: (item: MatrixVisualNode, isRowHeader: boolean) => this.toggleCollapse(item, isRowHeader),
+                onExpandToLevel: (level: number, isRowHierarchy: boolean) => this.expandToLevel(level, isRowHierarchy),
+                showExpandCollapseIcons: layoutKind === controls.TablixLayoutKind.Canvas,
+                isRightToLeft: RightToLeftHelper.isRightToLeft(this.hostServices),
             };
             let matrixBinder = new MatrixBinder(this.hierarchyNavigator, matrixBinderOptions);
 
@@ -1546,6 +1818,7 @@ module powerbi.visuals {
                 enableTouchSupport: !this.isTouchDisabled,
                 layoutKind: layoutKind,
                 fontSize: TablixObjects.getTextSizeInPx(textSize),
+                isRightToLeft: RightToLeftHelper.isRightToLeft(this.hostServices),
             };
 
             return new controls.TablixControl(matrixNavigator, layoutManager, matrixBinder, tablixContainer, tablixOptions);
@@ -1567,7 +1840,7 @@ module powerbi.visuals {
 
             // Update models before the viewport to make sure column widths are computed correctly
             // if a persisting operation is going, don't reset the scrollbar (column resize)
-            this.tablixControl.updateModels(/*resetScrollOffsets*/!this.persistingObjects, this.dataView.matrix.rows.root.children, this.dataView.matrix.columns.root.children);
+            this.tablixControl.updateModels(/*resetScrollOffsets*/!this.persistingObjects, this.hierarchyNavigator.getRowHierarchyNodes(), this.hierarchyNavigator.getColumnHierarchyNodes());
             this.tablixControl.viewport = this.currentViewport;
             let shouldClearControl = this.shouldClearControl(previousDataView, this.dataView);
 
@@ -1605,6 +1878,72 @@ module powerbi.visuals {
             this.hostServices.onCustomSort(TablixUtils.getCustomSortEventArgs(queryName, sortDirection));
         }
         
+        /**
+         * Collapses an expanded group, or expands a collapsed one.
+         */
+        public toggleCollapse(item: MatrixVisualNode, isRowHierarchy: boolean): void {
+            debug.assertValue(item, 'item');
+
+            let collapsedProperty = isRowHierarchy ? TablixObjects.PropRowsCollapsed : TablixObjects.PropColumnsCollapsed;
+            this.persistCollapsedGroups(isRowHierarchy,
+                (node: MatrixVisualNode) => node === item ? !item.isCollapsed : collapsedProperty.getValue<boolean>(node.objects));
+        }
+
+        /**
+         * Expands all the groups above a level and collapses all the groups at and below it.
+         */
+        public expandToLevel(level: number, isRowHierarchy: boolean): void {
+            this.persistCollapsedGroups(isRowHierarchy, (node: MatrixVisualNode) => node.level >= level);
+        }
+
+        /**
+         * Persists the collapsed state of the groups of a hierarchy, keyed by their identity.
+         */
+        private persistCollapsedGroups(isRowHierarchy: boolean, isCollapsed: (node: MatrixVisualNode) => boolean): void {
+            let collapsedProperty = isRowHierarchy ? TablixObjects.PropRowsCollapsed : TablixObjects.PropColumnsCollapsed;
+            let collapsedGroupsProperty = isRowHierarchy ? TablixObjects.PropRowsCollapsedGroups : TablixObjects.PropColumnsCollapsedGroups;
+            let hierarchy = isRowHierarchy ? this.hierarchyNavigator.getRowHierarchyNodes() : this.hierarchyNavigator.getColumnHierarchyNodes();
+            let nodes = this.hierarchyNavigator.getCollapsibleNodes(hierarchy);
+
+            let objectInstances: VisualObjectInstancesToPersist = { merge: [], remove: [] };
+            let hasCollapsedGroups = false;
+            for (let i = 0, ilen = nodes.length; i < ilen; i++) {
+                let node = nodes[i];
+                let collapsed = isCollapsed(node);
+                hasCollapsedGroups = hasCollapsedGroups || collapsed;
+
+                if (collapsed === collapsedProperty.getValue<boolean>(node.objects))
+                    continue;
+
+                let properties: { [propertyName: string]: DataViewPropertyValue } = {};
+                properties[collapsedProperty.propertyName] = collapsed || undefined;
+                let instance: VisualObjectInstance = {
+                    objectName: collapsedProperty.objectName,
+                    selector: { data: [node.identity] },
+                    properties: properties,
+                };
+
+                if (collapsed)
+                    objectInstances.merge.push(instance);
+                else
+                    objectInstances.remove.push(instance);
+            }
+
+            // The subtotals of the hierarchy are queried as long as any of its groups is collapsed
+            if (hasCollapsedGroups !== collapsedGroupsProperty.getValue<boolean>(this.dataView.metadata.objects)) {
+                let properties: { [propertyName: string]: DataViewPropertyValue } = {};
+                properties[collapsedGroupsProperty.propertyName] = hasCollapsedGroups;
+                objectInstances.merge.push({
+                    objectName: collapsedGroupsProperty.objectName,
+                    selector: null,
+                    properties: properties,
+                });
+            }
+
+            if (objectInstances.merge.length > 0 || objectInstances.remove.length > 0)
+                this.hostServices.persistProperties(objectInstances);
+        }
+
         /**
          * Note: Public for testability.
          */
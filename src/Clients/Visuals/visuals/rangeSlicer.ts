@@ -0,0 +1,441 @@
+/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved. 
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *   
+ *  The above copyright notice and this permission notice shall be included in 
+ *  all copies or substantial portions of the Software.
+ *   
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR 
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, 
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE 
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER 
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+/// <reference path="../_references.ts"/>
+
+module powerbi.visuals {
+    import KeyUtils = jsCommon.DOMConstants;
+    import SlicerRange = SlicerUtil.RangeFilter.SlicerRange;
+    import RangeFilter = SlicerUtil.RangeFilter;
+    import SQExpr = powerbi.data.SQExpr;
+
+    const DateStep = 24 * 3600 * 1000;
+    const LargeStepMultiplier = 10;
+    const SliderSteps = 100;
+
+    export interface RangeSlicerData {
+        expr: SQExpr;
+        type: ValueTypeDescriptor;
+        isDate: boolean;
+        mode: string;
+        formatter: IValueFormatter;
+        /** Bounds of the field values, as numbers (dates are converted to timestamps). */
+        min: number;
+        max: number;
+        /** Currently filtered range, clamped to min and max. */
+        lower: number;
+        upper: number;
+        relativeDateRange?: string;
+        step: number;
+    }
+
+    /**
+     * Renders the between, before and after slicer modes for numeric and date fields:
+     * a slider with editable bounds, plus relative date ranges for dates.
+     */
+    export class RangeSlicerRenderer implements ISlicerRenderer {
+        private element: JQuery;
+        private hostServices: IVisualHostServices;
+        private interactivityService: IInteractivityService;
+        private container: JQuery;
+        private relativeDateSelect: JQuery;
+        private lowerInput: JQuery;
+        private upperInput: JQuery;
+        private sliderElement: JQuery;
+        private slider: noUiSlider.noUiSlider;
+        private data: RangeSlicerData;
+
+        constructor(options?: SlicerConstructorOptions) {
+            if (options)
+                this.hostServices = options.hostServices;
+        }
+
+        public init(slicerInitOptions: SlicerInitOptions, element: JQuery): IInteractivityService {
+            this.element = element;
+            let hostServices = this.hostServices = slicerInitOptions.visualInitOptions.host;
+
+            // The header clear button goes through the interactivity service, so it is required even without a behavior.
+            this.interactivityService = createInteractivityService(hostServices);
+
+            let container = this.container = InJs.DomFactory.div()
+                .addClass(Selectors.Container.class)
+                .appendTo(element);
+
+            let head = InJs.DomFactory.div()
+                .addClass(Selectors.Head.class)
+                .appendTo(container);
+
+            this.relativeDateSelect = $('<select />')
+                .addClass(Selectors.RelativeDateSelect.class)
+                .appendTo(head)
+                .on('change', () => this.onRelativeDateRangeChanged());
+
+            $('<option />')
+                .attr('value', '')
+                .text(hostServices.getLocalizedString('Slicer_RelativeDate_Custom'))
+                .appendTo(this.relativeDateSelect);
+            for (let relativeDateRange of RangeFilter.relativeDateRanges) {
+                $('<option />')
+                    .attr('value', relativeDateRange.key)
+                    .text(hostServices.getLocalizedString(relativeDateRange.displayNameKey))
+                    .appendTo(this.relativeDateSelect);
+            }
+
+            let range = InJs.DomFactory.div()
+                .addClass(Selectors.Range.class)
+                .appendTo(head);
+            this.lowerInput = this.addInput(range, Selectors.LowerInput.class);
+            this.upperInput = this.addInput(range, Selectors.UpperInput.class);
+
+            this.sliderElement = InJs.DomFactory.div()
+                .addClass(Selectors.Slider.class)
+                .appendTo(container);
+
+            return this.interactivityService;
+        }
+
+        public render(options: SlicerRenderOptions): void {
+            let data = this.data = RangeSlicerRenderer.converter(options.dataView, options.mode, new Date());
+            if (!data) {
+                this.container.hide();
+                return;
+            }
+
+            this.container.show();
+            this.relativeDateSelect
+                .toggle(data.isDate)
+                .val(data.relativeDateRange || '');
+
+            let isRelative = !!data.relativeDateRange;
+            this.lowerInput
+                .prop('disabled', isRelative)
+                .parent().toggle(data.mode !== slicerMode.before);
+            this.upperInput
+                .prop('disabled', isRelative)
+                .parent().toggle(data.mode !== slicerMode.after);
+            this.updateInputs(data.lower, data.upper);
+
+            this.renderSlider(data, isRelative);
+        }
+
+        public onModeChange(mode: string): void {
+            // Doesn't require any changes, the slicer persists the mode which fires update on visual.
+        }
+
+        public enumerateObjectInstances(options: EnumerateVisualObjectInstancesOptions): VisualObjectInstance[] {
+            return [];
+        }
+
+        public static converter(dataView: DataView, mode: string, now: Date): RangeSlicerData {
+            if (!dataView || !dataView.categorical || _.isEmpty(dataView.categorical.categories))
+                return;
+
+            let category = dataView.categorical.categories[0];
+            let source = category.source;
+            let expr = <SQExpr>source.expr || _.first(<SQExpr[]>category.identityFields);
+            if (!expr || !RangeFilter.supportsRange(source.type))
+                return;
+
+            let bounds = RangeSlicerRenderer.getBounds(category);
+            if (!bounds)
+                return;
+
+            let isDate = !!source.type.dateTime;
+            let min = bounds.min;
+            let max = bounds.max;
+
+            let lower = min;
+            let upper = max;
+            let relativeDateRange: string;
+            let objects = dataView.metadata && dataView.metadata.objects;
+            let filter = objects && DataViewObjects.getValue<data.SemanticFilter>(objects, slicerProps.filterPropertyIdentifier);
+            let range = RangeFilter.parseFilter(filter);
+            if (range) {
+                if (range.relativeDateRange && isDate) {
+                    relativeDateRange = range.relativeDateRange;
+                    range = RangeFilter.getRelativeDateBounds(RangeFilter.getRelativeDateRange(relativeDateRange), now);
+                }
+                if (range.lower != null)
+                    lower = Math.max(+range.lower, min);
+                if (range.upper != null)
+                    upper = Math.min(+range.upper, max);
+            }
+
+            return {
+                expr: expr,
+                type: source.type,
+                isDate: isDate,
+                mode: mode,
+                formatter: valueFormatter.create({
+                    format: valueFormatter.getFormatString(source, slicerProps.formatString),
+                    value: isDate ? new Date(min) : min,
+                    value2: isDate ? new Date(max) : max,
+                }),
+                min: min,
+                max: max,
+                lower: lower,
+                upper: upper,
+                relativeDateRange: relativeDateRange,
+                step: RangeSlicerRenderer.getStep(source.type, min, max),
+            };
+        }
+
+        /**
+         * Takes the bounds from the min/max aggregates of the field. The category values only cover the
+         * loaded window, so they are used only when the aggregates weren't returned.
+         */
+        private static getBounds(category: DataViewCategoryColumn): { min: number; max: number } {
+            let aggregates = category.source.aggregates;
+            if (aggregates && aggregates.min != null && aggregates.max != null)
+                return { min: +aggregates.min, max: +aggregates.max };
+
+            let values = _.chain(category.values)
+                .filter((value) => value != null)
+                .map((value) => +value)
+                .filter((value) => !isNaN(value))
+                .value();
+            if (_.isEmpty(values))
+                return;
+
+            return { min: _.min(values), max: _.max(values) };
+        }
+
+        /** Dates move by a day; integers move by at least one; other numbers move by a power of ten. */
+        public static getStep(type: ValueTypeDescriptor, min: number, max: number): number {
+            if (type.dateTime)
+                return DateStep;
+
+            let span = max - min;
+            if (span <= 0)
+                return 1;
+
+            let step = Math.pow(10, Math.floor(Math.log(span / SliderSteps) / Math.LN10));
+            return type.integer ? Math.max(1, step) : step;
+        }
+
+        /**
+         * Returns the value after handling a key press on a slider handle, or undefined when the key does not move the handle.
+         * Arrow keys move by one step (ten with shift); home and end jump to the bounds.
+         */
+        public static getNudgedValue(value: number, keyCode: number, shiftKey: boolean, data: RangeSlicerData): number {
+            let step = shiftKey ? data.step * LargeStepMultiplier : data.step;
+            let nudged: number;
+            switch (keyCode) {
+                case KeyUtils.leftArrowKeyCode:
+                case KeyUtils.downArrowKeyCode:
+                    nudged = value - step;
+                    break;
+                case KeyUtils.rightArrowKeyCode:
+                case KeyUtils.upArrowKeyCode:
+                    nudged = value + step;
+                    break;
+                case KeyUtils.homeKeyCode:
+                    nudged = data.min;
+                    break;
+                case KeyUtils.endKeyCode:
+                    nudged = data.max;
+                    break;
+                default:
+                    return;
+            }
+
+            return Math.min(Math.max(nudged, data.min), data.max);
+        }
+
+        /** Parses the text typed in a bound input; returns undefined if it is not a valid value. */
+        public static parseInput(text: string, isDate: boolean): number {
+            if (_.isEmpty(text))
+                return;
+
+            let value = isDate
+                ? Date.parse(text)
+                : parseFloat(text.replace(/[^0-9.eE\-]/g, ''));
+
+            if (!isNaN(value))
+                return value;
+        }
+
+        private addInput(range: JQuery, className: string): JQuery {
+            let control = InJs.DomFactory.div()
+                .addClass(Selectors.Control.class)
+                .appendTo(range);
+
+            return $('<input />')
+                .attr('type', 'text')
+                .attr('drag-resize-disabled', 'true')
+                .addClass(Selectors.Input.class)
+                .addClass(className)
+                .appendTo(control)
+                .on('change', () => this.onInputChanged());
+        }
+
+        private renderSlider(data: RangeSlicerData, disabled: boolean): void {
+            if (this.slider)
+                this.slider.destroy();
+
+            let mode = data.mode;
+            let start: number[] = [];
+            if (mode !== slicerMode.before)
+                start.push(data.lower);
+            if (mode !== slicerMode.after)
+                start.push(data.upper);
+
+            let sliderElement = this.sliderElement.get(0);
+            noUiSlider.create(sliderElement, {
+                start: start,
+                step: data.step,
+                connect: mode === slicerMode.before ? 'lower' : mode === slicerMode.after ? 'upper' : true,
+                // noUiSlider does not allow an empty range.
+                range: {
+                    min: data.min,
+                    max: data.max > data.min ? data.max : data.min + data.step,
+                },
+            });
+            let slider = this.slider = (<noUiSlider.Instance>sliderElement).noUiSlider;
+
+            if (disabled)
+                this.sliderElement.attr('disabled', 'disabled');
+            else
+                this.sliderElement.removeAttr('disabled');
+
+            slider.on('slide', () => {
+                let range = this.getSliderRange();
+                this.updateInputs(range.lower, range.upper);
+            });
+            slider.on('change', () => {
+                let range = this.getSliderRange();
+                this.applyRange(range.lower, range.upper);
+            });
+
+            this.sliderElement.find(Selectors.Handle.selector).each((index: number, handle: Element) => {
+                $(handle)
+                    .attr('tabindex', disabled ? -1 : 0)
+                    .on('keydown', (e: JQueryKeyEventObject) => this.onHandleKeyDown(e, index));
+            });
+        }
+
+        private onHandleKeyDown(e: JQueryKeyEventObject, handleIndex: number): void {
+            let data = this.data;
+            if (!data || data.relativeDateRange)
+                return;
+
+            let range = this.getSliderRange();
+            let isLowerHandle = handleIndex === 0 && data.mode !== slicerMode.before;
+            let value = RangeSlicerRenderer.getNudgedValue(isLowerHandle ? range.lower : range.upper, e.which, e.shiftKey, data);
+            if (value === undefined)
+                return;
+
+            e.preventDefault();
+            if (isLowerHandle)
+                this.applyRange(Math.min(value, range.upper), range.upper);
+            else
+                this.applyRange(range.lower, Math.max(value, range.lower));
+        }
+
+        private onInputChanged(): void {
+            let data = this.data;
+            if (!data)
+                return;
+
+            let lower = RangeSlicerRenderer.parseInput(this.lowerInput.val(), data.isDate);
+            let upper = RangeSlicerRenderer.parseInput(this.upperInput.val(), data.isDate);
+            lower = lower === undefined ? data.lower : Math.max(lower, data.min);
+            upper = upper === undefined ? data.upper : Math.min(upper, data.max);
+            if (lower > upper) {
+                let swap = lower;
+                lower = upper;
+                upper = swap;
+            }
+
+            this.applyRange(lower, upper);
+        }
+
+        private onRelativeDateRangeChanged(): void {
+            let data = this.data;
+            if (!data)
+                return;
+
+            let relativeDateRange = RangeFilter.getRelativeDateRange(this.relativeDateSelect.val());
+            if (relativeDateRange)
+                SlicerUtil.persistFilter(this.hostServices, RangeFilter.createRelativeDateFilter(data.expr, relativeDateRange));
+            else
+                this.applyRange(data.lower, data.upper);
+        }
+
+        /** Returns the values of the slider handles; a bound without a handle stays at the end of the field range. */
+        private getSliderRange(): { lower: number; upper: number } {
+            let data = this.data;
+            let sliderValue = this.slider.get();
+            // noUiSlider returns the formatted handle values, hence the conversion.
+            let values = _.map(sliderValue instanceof Array ? sliderValue : [sliderValue], (value) => +value);
+            let lower = data.mode === slicerMode.before ? data.min : values[0];
+            let upper = data.mode === slicerMode.after ? data.max : _.last(values);
+
+            return { lower: lower, upper: upper };
+        }
+
+        private updateInputs(lower: number, upper: number): void {
+            this.lowerInput.val(this.formatValue(lower));
+            this.upperInput.val(this.formatValue(upper));
+        }
+
+        private formatValue(value: number): string {
+            let data = this.data;
+            return data.formatter.format(data.isDate ? new Date(value) : value);
+        }
+
+        private applyRange(lower: number, upper: number): void {
+            let data = this.data;
+            this.updateInputs(lower, upper);
+
+            // A range covering the whole field does not restrict it, so the filter is removed.
+            let range: SlicerRange = {
+                lower: lower > data.min ? this.toFieldValue(lower) : undefined,
+                upper: upper < data.max ? this.toFieldValue(upper) : undefined,
+            };
+            SlicerUtil.persistFilter(this.hostServices, RangeFilter.createFilter(data.expr, data.type, data.mode, range));
+        }
+
+        private toFieldValue(value: number): number | Date {
+            return this.data.isDate ? new Date(value) : value;
+        }
+    }
+
+    module Selectors {
+        import createClassAndSelector = jsCommon.CssConstants.createClassAndSelector;
+
+        export const Container = createClassAndSelector('date-slicer');
+        export const Head = createClassAndSelector('date-slicer-head');
+        export const RelativeDateSelect = createClassAndSelector('date-slicer-select');
+        export const Range = createClassAndSelector('date-slicer-range');
+        export const Control = createClassAndSelector('date-slicer-control');
+        export const Input = createClassAndSelector('date-slicer-input');
+        export const LowerInput = createClassAndSelector('lower');
+        export const UpperInput = createClassAndSelector('upper');
+        export const Slider = createClassAndSelector('date-slicer-slider');
+        export const Handle = createClassAndSelector('noUi-handle');
+    }
+}
@@ -0,0 +1,584 @@
+/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved. 
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *   
+ *  The above copyright notice and this permission notice shall be included in 
+ *  all copies or substantial portions of the Software.
+ *   
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR 
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, 
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE 
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER 
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+/// <reference path="../_references.ts"/>
+
+module powerbi.visuals {
+    import ClassAndSelector = jsCommon.CssConstants.ClassAndSelector;
+    import Color = jsCommon.Color;
+    import createClassAndSelector = jsCommon.CssConstants.createClassAndSelector;
+    import Polygon = shapes.Polygon;
+
+    export interface ShapeMapConstructionOptions {
+        behavior?: MapBehavior;
+        tooltipsEnabled?: boolean;
+    }
+
+    export interface ShapeMapDataPoint {
+        categoryValue: string;
+        value: number;
+        fill: string;
+        stroke: string;
+        identity: SelectionId;
+        tooltipInfo: TooltipDataItem[];
+        feature: GeoJsonFeature;
+    }
+
+    export interface ShapeMapData {
+        dataPoints: ShapeMapDataPoint[];
+
+        /** The features of the map without data, drawn as the background of the map. */
+        unmatchedFeatures: GeoJsonFeature[];
+        labelFormatString: string;
+    }
+
+    /** Projects the features of the map into the pixels of the viewport. */
+    export interface ShapeMapProjection {
+        path: D3.Geo.Path;
+        project(position: number[]): number[];
+    }
+
+    /**
+     * A filled map of the regions of a GeoJSON or TopoJSON file, drawn in SVG with a d3 projection.
+     * Unlike the filled map it needs neither Bing Maps nor a geocoder, so it works without network.
+     */
+    export class ShapeMap implements IVisual {
+        private static ClassName = 'shapeMap';
+        private static BackgroundShapes: ClassAndSelector = createClassAndSelector('backgroundShapes');
+        private static MapShapes: ClassAndSelector = createClassAndSelector('mapShapes');
+        private static Shape: ClassAndSelector = createClassAndSelector('shape');
+
+        public static Padding = 8;
+        public static EmptyShapeFill = '#E6E6E6';
+        public static EmptyShapeStroke = '#C8C8C8';
+        public static StrokeWidth = 1;
+
+        private element: JQuery;
+        private svg: D3.Selection;
+        private clearCatcher: D3.Selection;
+        private backgroundGraphicsContext: D3.Selection;
+        private shapeGraphicsContext: D3.Selection;
+        private labelGraphicsContext: D3.Selection;
+        private currentViewport: IViewport;
+        private colors: IDataColorPalette;
+        private tooltipsEnabled: boolean;
+        private tooltipService: ITooltipService;
+        private behavior: MapBehavior;
+        private interactivityService: IInteractivityService;
+        private labelLayout: FilledMapLabelLayout;
+
+        private dataViews: DataView[];
+        private data: ShapeMapData;
+        private mapText: string;
+        private features: GeoJsonFeature[];
+        private projectionType: string;
+        private keyProperty: string;
+        private dataLabelsSettings: PointDataLabelsSettings;
+        private defaultDataPointColor: string;
+        private showAllDataPoints: boolean;
+
+        constructor(options?: ShapeMapConstructionOptions) {
+            if (options) {
+                this.behavior = options.behavior;
+                this.tooltipsEnabled = options.tooltipsEnabled;
+            }
+        }
+
+        public init(options: VisualInitOptions): void {
+            debug.assertValue(options, 'options');
+
+            let element = this.element = options.element;
+            element.empty();
+
+            let svg = this.svg = d3.select(element.get(0))
+                .append('svg')
+                .style('position', 'absolute')
+                .classed(ShapeMap.ClassName, true);
+            this.clearCatcher = appendClearCatcher(svg);
+            this.backgroundGraphicsContext = svg
+                .append('g')
+                .classed(ShapeMap.BackgroundShapes.class, true);
+            this.shapeGraphicsContext = svg
+                .append('g')
+                .classed(ShapeMap.MapShapes.class, true);
+            this.labelGraphicsContext = svg
+                .append('g')
+                .classed(NewDataLabelUtils.labelGraphicsContextClass.class, true);
+
+            this.currentViewport = options.viewport;
+            this.colors = options.style.colorPalette.dataColors;
+            this.tooltipService = createTooltipService(options.host);
+            if (this.behavior)
+                this.interactivityService = createInteractivityService(options.host);
+            this.labelLayout = new FilledMapLabelLayout();
+            this.dataLabelsSettings = dataLabelUtils.getDefaultMapLabelSettings();
+            this.features = [];
+        }
+
+        public update(options: VisualUpdateOptions): void {
+            debug.assertValue(options, 'options');
+
+            let dataViews = this.dataViews = options.dataViews;
+            this.currentViewport = options.viewport;
+
+            let dataView = !_.isEmpty(dataViews) ? dataViews[0] : undefined;
+            let objects = dataView && dataView.metadata ? dataView.metadata.objects : undefined;
+            this.readObjects(objects);
+
+            let colorHelper = new ColorHelper(this.colors, shapeMapProps.dataPoint.fill, this.defaultDataPointColor);
+            this.data = ShapeMap.converter(dataView, colorHelper, this.features, this.keyProperty);
+
+            this.render();
+        }
+
+        // TODO: Remove this once all visuals have implemented update.
+        public onDataChanged(options: VisualDataChangedOptions): void {
+            this.update({
+                suppressAnimations: options.suppressAnimations,
+                dataViews: options.dataViews,
+                viewport: this.currentViewport,
+            });
+        }
+
+        // TODO: Remove this once all visuals have implemented update.
+        public onResizing(viewport: IViewport): void {
+            this.update({
+                suppressAnimations: true,
+                dataViews: this.dataViews,
+                viewport: viewport,
+            });
+        }
+
+        public onClearSelection(): void {
+            if (this.interactivityService)
+                this.interactivityService.clearSelection();
+        }
+
+        public static converter(dataView: DataView, colorHelper: ColorHelper, features: GeoJsonFeature[], keyProperty?: string): ShapeMapData {
+            let dataPoints: ShapeMapDataPoint[] = [];
+            let labelFormatString: string;
+            let matchedFeatures: GeoJsonFeature[] = [];
+
+            let reader = dataView ? data.createIDataViewCategoricalReader(dataView) : null;
+            if (reader && reader.hasCategoryWithRole('Category')) {
+                let featureIndex = ShapeMap.createFeatureIndex(features, keyProperty);
+                let formatStringProp = shapeMapProps.general.formatString;
+                let gradientQueryName = reader.getMeasureQueryName('Gradient') || '';
+                let hasGradient = reader.hasValues('Gradient');
+                if (hasGradient)
+                    labelFormatString = valueFormatter.getFormatString(reader.getValueMetadataColumn('Gradient'), formatStringProp);
+
+                for (let categoryIndex = 0, categoryCount = reader.getCategoryCount(); categoryIndex < categoryCount; categoryIndex++) {
+                    let feature = featureIndex[ShapeMap.getFeatureKey(reader.getCategoryValue('Category', categoryIndex))];
+                    if (!feature)
+                        continue;
+
+                    matchedFeatures.push(feature);
+
+                    let categoryValue = converterHelper.formatFromMetadataColumn(reader.getCategoryValue('Category', categoryIndex), reader.getCategoryMetadataColumn('Category'), formatStringProp);
+                    let tooltipInfo: TooltipDataItem[] = [{
+                        displayName: reader.getCategoryDisplayName('Category'),
+                        value: categoryValue,
+                    }];
+
+                    let value: number;
+                    if (hasGradient) {
+                        value = reader.getValue('Gradient', categoryIndex);
+                        tooltipInfo.push({
+                            displayName: reader.getValueDisplayName('Gradient'),
+                            value: converterHelper.formatFromMetadataColumn(value, reader.getValueMetadataColumn('Gradient'), formatStringProp),
+                        });
+                    }
+
+                    TooltipBuilder.addTooltipBucketItem(reader, tooltipInfo, categoryIndex);
+
+                    let color = colorHelper.getColorForMeasure(reader.getCategoryObjects('Category', categoryIndex), gradientQueryName);
+                    let stroke = Color.hexString(Color.darken(Color.parseColorString(color), Map.StrokeDarkenColorValue));
+
+                    dataPoints.push({
+                        categoryValue: categoryValue,
+                        value: value,
+                        fill: color,
+                        stroke: stroke,
+                        identity: new SelectionIdBuilder()
+                            .withCategory(reader.getCategoryColumn('Category'), categoryIndex)
+                            .withMeasure(gradientQueryName)
+                            .createSelectionId(),
+                        tooltipInfo: tooltipInfo,
+                        feature: feature,
+                    });
+                }
+            }
+
+            return {
+                dataPoints: dataPoints,
+                unmatchedFeatures: _.difference(features, matchedFeatures),
+                labelFormatString: labelFormatString,
+            };
+        }
+
+        /**
+         * Indexes the features by the values the Location role is matched against: the key property when one is set,
+         * otherwise the id and every property of the features.
+         */
+        public static createFeatureIndex(features: GeoJsonFeature[], keyProperty?: string): _.Dictionary<GeoJsonFeature> {
+            let index: _.Dictionary<GeoJsonFeature> = {};
+            for (let feature of features) {
+                let properties = feature.properties || {};
+                let keys = keyProperty
+                    ? [properties[keyProperty]]
+                    : [feature.id].concat(_.values(properties));
+
+                for (let key of keys) {
+                    if (key == null || _.isObject(key))
+                        continue;
+
+                    let normalizedKey = ShapeMap.getFeatureKey(key);
+                    if (!_.has(index, normalizedKey))
+                        index[normalizedKey] = feature;
+                }
+            }
+
+            return index;
+        }
+
+        private static getFeatureKey(value: PrimitiveValue): string {
+            return value == null ? '' : String(value).trim().toLowerCase();
+        }
+
+        /** Creates the projection that fits all the features of the map into the viewport, or null when there is nothing to draw. */
+        public static createProjection(projectionType: string, features: GeoJsonFeature[], viewport: IViewport): ShapeMapProjection {
+            let width = viewport.width - 2 * ShapeMap.Padding;
+            let height = viewport.height - 2 * ShapeMap.Padding;
+            if (_.isEmpty(features) || width <= 0 || height <= 0)
+                return null;
+
+            let collection = { type: 'FeatureCollection', features: features };
+
+            if (projectionType === shapeMapProjection.planar) {
+                let bounds: number[][] = d3.geo.path().projection(null).bounds(collection);
+                let scale = ShapeMap.getScale(bounds, width, height);
+                if (scale == null)
+                    return null;
+
+                // The y axis of the coordinates points up like in geographic maps
+                let translateX = (viewport.width - scale * (bounds[0][0] + bounds[1][0])) / 2;
+                let translateY = (viewport.height + scale * (bounds[0][1] + bounds[1][1])) / 2;
+                let project = (position: number[]) => [scale * position[0] + translateX, translateY - scale * position[1]];
+                let transform = {
+                    stream: (output: D3.Geo.Stream): D3.Geo.Stream => ({
+                        point: (x: number, y: number) => output.point(scale * x + translateX, translateY - scale * y),
+                        lineStart: () => output.lineStart(),
+                        lineEnd: () => output.lineEnd(),
+                        polygonStart: () => output.polygonStart(),
+                        polygonEnd: () => output.polygonEnd(),
+                        sphere: () => output.sphere(),
+                    }),
+                };
+
+                return {
+                    path: d3.geo.path().projection(<any>transform),
+                    project: project,
+                };
+            }
+
+            let projection = ShapeMap.createGeoProjection(projectionType);
+            if (projectionType === shapeMapProjection.orthographic) {
+                // Turn the globe to face the center of the map
+                let center = d3.geo.centroid(collection);
+                projection.rotate([-center[0], -center[1]]);
+            }
+
+            projection.scale(1).translate([0, 0]);
+            let path = d3.geo.path().projection(projection);
+            let bounds: number[][] = path.bounds(collection);
+            let scale = ShapeMap.getScale(bounds, width, height);
+            if (scale == null)
+                return null;
+
+            projection
+                .scale(scale)
+                .translate([(viewport.width - scale * (bounds[0][0] + bounds[1][0])) / 2, (viewport.height - scale * (bounds[0][1] + bounds[1][1])) / 2]);
+
+            return {
+                path: path,
+                project: projection,
+            };
+        }
+
+        private static createGeoProjection(projectionType: string): D3.Geo.Projection {
+            switch (projectionType) {
+                case shapeMapProjection.albersUsa:
+                    return d3.geo.albersUsa();
+                case shapeMapProjection.equirectangular:
+                    return d3.geo.equirectangular();
+                case shapeMapProjection.orthographic:
+                    return d3.geo.orthographic();
+                case shapeMapProjection.transverseMercator:
+                    return d3.geo.transverseMercator();
+                default:
+                    return d3.geo.mercator();
+            }
+        }
+
+        private static getScale(bounds: number[][], width: number, height: number): number {
+            let boundsWidth = bounds[1][0] - bounds[0][0];
+            let boundsHeight = bounds[1][1] - bounds[0][1];
+            if (!isFinite(boundsWidth) || !isFinite(boundsHeight) || (boundsWidth <= 0 && boundsHeight <= 0))
+                return null;
+
+            return Math.min(
+                boundsWidth > 0 ? width / boundsWidth : Number.MAX_VALUE,
+                boundsHeight > 0 ? height / boundsHeight : Number.MAX_VALUE);
+        }
+
+        /** Creates a shape for each polygon of the data points; only the largest polygon of a data point gets a label. */
+        public static createShapes(data: ShapeMapData, projection: ShapeMapProjection, labelSettings: PointDataLabelsSettings): MapShape[] {
+            let shapeData: MapShape[] = [];
+            let formatter = NewDataLabelUtils.createColumnFormatterCacheManager().getOrCreate(data.labelFormatString, labelSettings);
+
+            for (let dataPoint of data.dataPoints) {
+                let idKey = dataPoint.identity.getKey();
+                let dataPointShapes: MapShape[] = [];
+                let largestShape: MapShape;
+                let largestShapeArea = 0;
+
+                let polygons = GeoJsonUtil.getPolygons(dataPoint.feature.geometry);
+                for (let polygonIndex = 0, polygonCount = polygons.length; polygonIndex < polygonCount; polygonIndex++) {
+                    let polygon = polygons[polygonIndex];
+                    let path = projection.path({ type: 'Polygon', coordinates: polygon });
+                    if (!path)
+                        continue;
+
+                    let points = _.flatten<number>(_.compact(_.map(polygon[0], position => projection.project(position))));
+                    let absolutePointArray = new Float64Array(points);
+
+                    let shape: MapShape = {
+                        absolutePointArray: absolutePointArray,
+                        path: path,
+                        fill: dataPoint.fill,
+                        stroke: dataPoint.stroke,
+                        strokeWidth: ShapeMap.StrokeWidth,
+                        tooltipInfo: dataPoint.tooltipInfo,
+                        identity: dataPoint.identity,
+                        selected: false,
+                        key: JSON.stringify({ id: idKey, pIdx: polygonIndex }),
+                        displayLabel: false,
+                        labeltext: dataPoint.categoryValue,
+                        catagoryLabeltext: dataPoint.value != null ? NewDataLabelUtils.getLabelFormattedText(formatter.format(dataPoint.value)) : undefined,
+                        labelFormatString: data.labelFormatString,
+                    };
+                    dataPointShapes.push(shape);
+
+                    let area = absolutePointArray.length > 4 ? Math.abs(Polygon.calculateAbsolutePolygonArea(new Polygon(absolutePointArray).polygonPoints)) : 0;
+                    if (!largestShape || area > largestShapeArea) {
+                        largestShape = shape;
+                        largestShapeArea = area;
+                    }
+                }
+
+                if (largestShape)
+                    largestShape.displayLabel = true;
+
+                shapeData.push(...dataPointShapes);
+            }
+
+            return shapeData;
+        }
+
+        public enumerateObjectInstances(options: EnumerateVisualObjectInstancesOptions): VisualObjectInstanceEnumeration {
+            let enumeration = new ObjectEnumerationBuilder();
+            switch (options.objectName) {
+                case 'shape':
+                    enumeration.pushInstance({
+                        objectName: 'shape',
+                        selector: null,
+                        properties: {
+                            map: this.mapText,
+                            projection: this.projectionType,
+                            keyProperty: this.keyProperty,
+                        },
+                    });
+                    break;
+                case 'dataPoint':
+                    if (this.data && Map.shouldEnumerateDataPoints(this.getDataView(), false /* usesSizeForGradient */))
+                        this.enumerateDataPoints(enumeration);
+                    break;
+                case 'labels':
+                    dataLabelUtils.enumerateDataLabels({
+                        enumeration: enumeration,
+                        dataLabelsSettings: this.dataLabelsSettings,
+                        show: true,
+                        displayUnits: true,
+                        precision: true,
+                    });
+                    break;
+                case 'categoryLabels':
+                    dataLabelUtils.enumerateCategoryLabels(enumeration, this.dataLabelsSettings, true, true);
+                    break;
+            }
+
+            return enumeration.complete();
+        }
+
+        private enumerateDataPoints(enumeration: ObjectEnumerationBuilder): void {
+            enumeration.pushInstance({
+                objectName: 'dataPoint',
+                selector: null,
+                properties: {
+                    defaultColor: { solid: { color: this.defaultDataPointColor || this.colors.getColorByIndex(0).value } }
+                },
+            }).pushInstance({
+                objectName: 'dataPoint',
+                selector: null,
+                properties: {
+                    showAllDataPoints: !!this.showAllDataPoints
+                },
+            });
+
+            if (this.showAllDataPoints) {
+                for (let dataPoint of this.data.dataPoints) {
+                    enumeration.pushInstance({
+                        objectName: 'dataPoint',
+                        displayName: dataPoint.categoryValue,
+                        selector: ColorHelper.normalizeSelector(dataPoint.identity.getSelector()),
+                        properties: {
+                            fill: { solid: { color: Color.normalizeToHexString(dataPoint.fill) } }
+                        },
+                    });
+                }
+            }
+        }
+
+        private getDataView(): DataView {
+            return !_.isEmpty(this.dataViews) ? this.dataViews[0] : undefined;
+        }
+
+        private readObjects(objects: DataViewObjects): void {
+            let mapText = DataViewObjects.getValue<string>(objects, shapeMapProps.shape.map);
+            if (mapText !== this.mapText) {
+                this.mapText = mapText;
+                this.features = GeoJsonUtil.parse(mapText) || [];
+            }
+
+            this.projectionType = DataViewObjects.getValue<string>(objects, shapeMapProps.shape.projection, shapeMapProjection.mercator);
+            this.keyProperty = DataViewObjects.getValue<string>(objects, shapeMapProps.shape.keyProperty);
+            this.defaultDataPointColor = DataViewObjects.getFillColor(objects, shapeMapProps.dataPoint.defaultColor);
+            this.showAllDataPoints = DataViewObjects.getValue<boolean>(objects, shapeMapProps.dataPoint.showAllDataPoints);
+
+            let labelSettings = this.dataLabelsSettings = dataLabelUtils.getDefaultMapLabelSettings();
+            labelSettings.showCategory = DataViewObjects.getValue<boolean>(objects, shapeMapProps.categoryLabels.show, labelSettings.showCategory);
+            labelSettings.show = DataViewObjects.getValue<boolean>(objects, shapeMapProps.labels.show, labelSettings.show);
+            labelSettings.labelColor = DataViewObjects.getFillColor(objects, shapeMapProps.labels.color, labelSettings.labelColor);
+            labelSettings.displayUnits = DataViewObjects.getValue<number>(objects, shapeMapProps.labels.labelDisplayUnits, labelSettings.displayUnits);
+            let precision = DataViewObjects.getValue<number>(objects, shapeMapProps.labels.labelPrecision, labelSettings.precision);
+            labelSettings.precision = (precision !== dataLabelUtils.defaultLabelPrecision && precision < 0) ? 0 : precision;
+        }
+
+        private render(): void {
+            let viewport = this.currentViewport;
+            let data = this.data;
+            this.svg.attr({
+                width: viewport.width,
+                height: viewport.height,
+            });
+
+            let projection = ShapeMap.createProjection(this.projectionType, this.features, viewport);
+            let shapeData = projection ? ShapeMap.createShapes(data, projection, this.dataLabelsSettings) : [];
+            if (this.interactivityService)
+                this.interactivityService.applySelectionStateToData(shapeData);
+
+            let backgroundShapes = this.backgroundGraphicsContext
+                .selectAll(ShapeMap.Shape.selector)
+                .data(projection ? data.unmatchedFeatures : []);
+            backgroundShapes.enter()
+                .append('path')
+                .classed(ShapeMap.Shape.class, true);
+            backgroundShapes
+                .attr('d', (d: GeoJsonFeature) => projection.path(d))
+                .style({
+                    'fill': ShapeMap.EmptyShapeFill,
+                    'stroke': ShapeMap.EmptyShapeStroke,
+                    'stroke-width': ShapeMap.StrokeWidth,
+                });
+            backgroundShapes.exit()
+                .remove();
+
+            let hasSelection = this.interactivityService && this.interactivityService.hasSelection();
+            let shapes = this.shapeGraphicsContext
+                .selectAll(ShapeMap.Shape.selector)
+                .data(shapeData, (d: MapShape) => d.key);
+            shapes.enter()
+                .append('path')
+                .classed(ShapeMap.Shape.class, true);
+            shapes
+                .attr('d', (d: MapShape) => d.path)
+                .style({
+                    'fill': (d: MapShape) => d.fill,
+                    'fill-opacity': (d: MapShape) => ColumnUtil.getFillOpacity(d.selected, false, hasSelection, false),
+                    'stroke': (d: MapShape) => d.stroke,
+                    'stroke-width': (d: MapShape) => d.strokeWidth,
+                });
+            shapes.exit()
+                .remove();
+
+            this.renderLabels(shapeData, viewport);
+
+            if (this.tooltipsEnabled) {
+                this.tooltipService.addTooltip(
+                    this.shapeGraphicsContext,
+                    (args: TooltipEventArgs<MapShape>) => args.data.tooltipInfo,
+                    (args: TooltipEventArgs<MapShape>) => args.data.identity);
+            }
+
+            if (this.interactivityService) {
+                let behaviorOptions: MapBehaviorOptions = {
+                    shapeEventGroup: this.shapeGraphicsContext,
+                    shapes: shapes,
+                    clearCatcher: this.clearCatcher,
+                    dataPoints: shapeData,
+                };
+                this.interactivityService.bind(shapeData, this.behavior, behaviorOptions);
+            }
+        }
+
+        private renderLabels(shapeData: MapShape[], viewport: IViewport): void {
+            let labelSettings = this.dataLabelsSettings;
+            let labels: Label[] = [];
+
+            if (labelSettings.show || labelSettings.showCategory) {
+                // The shapes are projected straight into pixels, so the layout does not need to transform them
+                let labelDataPoints = MapShapeDataPointRenderer.createShapeLabelDataPoints(shapeData, labelSettings);
+                labels = this.labelLayout.layout(labelDataPoints, viewport, new Transform(), true /* redrawDataLabels */);
+            }
+
+            let visibleLabels = _.filter(labels, (label: Label) => label.isVisible);
+            NewDataLabelUtils.drawLabelLeaderLines(this.labelGraphicsContext, visibleLabels, (d: Label, index: number) => index, LeaderLineColor);
+            NewDataLabelUtils.drawLabelBackground(this.labelGraphicsContext, labels, DefaultBackgroundColor, DefaultFillOpacity);
+            NewDataLabelUtils.drawDefaultLabels(this.labelGraphicsContext, labels, false, labelSettings.show && labelSettings.showCategory);
+        }
+    }
+}
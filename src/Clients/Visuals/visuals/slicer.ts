@@ -32,6 +32,7 @@ module powerbi.visuals {
     import SlicerHeader = powerbi.visuals.controls.SlicerHeader;
     import SlicerHeaderSettings = powerbi.visuals.controls.ISlicerHeaderSettings;
     import PixelConverter = jsCommon.PixelConverter;
+    import RangeFilter = SlicerUtil.RangeFilter;
 
     const DefaultFontSizeInPt: number = 9;
     const DefaultFontFamily: string = Font.Family.regular.getCSS();
@@ -64,11 +65,21 @@ module powerbi.visuals {
         dataView: DataView;
         viewport: IViewport;
         resetScrollbarPosition?: boolean;
+        mode?: string;
     }
 
     interface VisualSlicerData {
         categorySourceName: string;
         orientation: SlicerOrientation;
+        mode: string;
+        supportsRange: boolean;
+        isHierarchy: boolean;
+    }
+
+    enum SlicerRendererKind {
+        List,
+        Range,
+        Hierarchy,
     }
 
     export interface SlicerInitOptions {
@@ -85,6 +96,7 @@ module powerbi.visuals {
         private hostServices: IVisualHostServices;
         private slicerRenderer: ISlicerRenderer;
         private slicerOrientation: SlicerOrientation;
+        private rendererKind: SlicerRendererKind;
         private waitingForData: boolean;
         private domHelper: DOMHelper;
         private initOptions: VisualInitOptions;
@@ -102,6 +114,20 @@ module powerbi.visuals {
             this.domHelper = new DOMHelper();
         }
 
+        public static customizeQuery(options: CustomizeQueryOptions): void {
+            let dataViewMapping = options.dataViewMappings[0];
+            if (!dataViewMapping || !dataViewMapping.categorical || !dataViewMapping.categorical.categories || !dataViewMapping.metadata)
+                return;
+
+            let mode = DataViewObjects.getValue<string>(dataViewMapping.metadata.objects, slicerProps.general.mode, slicerMode.basic);
+            if (!RangeFilter.isRangeMode(mode))
+                return;
+
+            // The category values are windowed, so the range bounds are requested as aggregates over the whole field.
+            let dataViewCategories = <data.CompiledDataViewRoleForMapping>dataViewMapping.categorical.categories;
+            dataViewCategories.for.in.aggregates = { min: true, max: true };
+        }
+
         public init(options: VisualInitOptions): void {
             this.initOptions = options;
             this.element = options.element;
@@ -119,7 +145,7 @@ module powerbi.visuals {
                 .appendTo(this.container)
                 .addClass(ContentWrapperClass);
 
-            this.initializeSlicerRenderer(this.slicerOrientation);
+            this.initializeSlicerRenderer(this.slicerOrientation, SlicerRendererKind.List);
         }
 
         public onDataChanged(options: VisualDataChangedOptions): void {
@@ -195,32 +221,52 @@ module powerbi.visuals {
             }
 
             let orientation: SlicerOrientation = SlicerOrientation.Vertical;
+            let mode: string = slicerMode.basic;
             let categorySourceName: string;
+            let supportsRange = false;
+            let isHierarchy = false;
             if (dataView.metadata && dataView.metadata.objects) {
                 let objects = dataView.metadata.objects;
                 orientation = DataViewObjects.getValue<slicerOrientation.Orientation>(objects, slicerProps.general.orientation, orientation);
+                mode = DataViewObjects.getValue<string>(objects, slicerProps.general.mode, mode);
             }
             if (dataView.categorical && !_.isEmpty(dataView.categorical.categories)) {
-                categorySourceName = dataView.categorical.categories[0].source.displayName;
+                let categories = dataView.categorical.categories;
+                categorySourceName = _.map(categories, (category) => category.source.displayName).join(', ');
+                isHierarchy = categories.length > 1;
+                supportsRange = !isHierarchy && RangeFilter.supportsRange(categories[0].source.type);
             }
 
-            return { orientation: orientation, categorySourceName: categorySourceName };
+            return {
+                orientation: orientation,
+                categorySourceName: categorySourceName,
+                mode: supportsRange ? mode : slicerMode.basic,
+                supportsRange: supportsRange,
+                isHierarchy: isHierarchy,
+            };
         }
 
         private render(resetScrollbarPosition: boolean, stopWaitingForData?: boolean): void {
             this.updateViewport();
             this.data = Slicer.converter(this.dataView);
             if (this.data) {
-                if (this.orientationHasChanged(this.data.orientation)) {
+                this.mode = this.data.mode;
+                let rendererKind = Slicer.getRendererKind(this.data);
+                if (this.orientationHasChanged(this.data.orientation) || this.rendererKind !== rendererKind) {
                     this.slicerOrientation = this.data.orientation;
                     // Clear the previous slicer type when rendering the new slicer type
                     this.slicerContainer.empty();
-                    this.initializeSlicerRenderer(this.data.orientation);
+                    this.initializeSlicerRenderer(this.data.orientation, rendererKind);
                 }
             }
 
-            this.renderSlicerHeader(this.interactivityService);
-            this.slicerRenderer.render({ dataView: this.dataView, viewport: this.currentViewport, resetScrollbarPosition: resetScrollbarPosition });
+            this.renderSlicerHeader();
+            this.slicerRenderer.render({
+                dataView: this.dataView,
+                viewport: this.currentViewport,
+                resetScrollbarPosition: resetScrollbarPosition,
+                mode: this.activeMode,
+            });
 
             if (stopWaitingForData)
                 this.waitingForData = false;
@@ -243,7 +289,7 @@ module powerbi.visuals {
             };
         }
 
-        private renderSlicerHeader(interactivityService: ISelectionHandler | IInteractivityService) {
+        private renderSlicerHeader(): void {
             if (!this.dataView)
                 return;
 
@@ -251,14 +297,12 @@ module powerbi.visuals {
             if (!this.slicerHeader) {
                 let settings: SlicerHeaderSettings = {
                     onClear: () => {
+                        // The renderer and its interactivity service are replaced when the mode changes.
+                        let interactivityService: ISelectionHandler | IInteractivityService = this.interactivityService;
                         (<ISelectionHandler>interactivityService).handleClearSelection();
                         (<ISelectionHandler>interactivityService).persistSelectionFilter(slicerProps.filterPropertyIdentifier);
                     },
-                    onChange: (mode: string) => {
-                        if (this.slicerRenderer) {
-                            this.slicerRenderer.onModeChange(mode);
-                        }
-                    },
+                    onChange: (mode: string) => this.onModeChange(mode),
                     host: this.headerContainer,
                     menuCss: this.getMenuFontStyles(),
                     isMenuVisible: false,
@@ -270,14 +314,71 @@ module powerbi.visuals {
                 this.slicerHeader = new SlicerHeader(settings, this.hostServices.getLocalizedString);
             }
 
-            this.slicerHeader.update(reader, { text: this.data.categorySourceName, selectedValue: this.activeMode });
+            this.slicerHeader.update(reader, {
+                text: this.data.categorySourceName,
+                selectedValue: this.activeMode,
+                isMenuVisible: this.data.supportsRange,
+            });
+        }
+
+        /**
+         * Persists the selected mode. Filters of list and range modes are not interchangeable,
+         * so the current filter is removed whenever the mode changes.
+         */
+        private onModeChange(mode: string): void {
+            if (mode === this.activeMode)
+                return;
+
+            if (this.slicerRenderer)
+                this.slicerRenderer.onModeChange(mode);
+
+            let filterPropertyIdentifier = slicerProps.filterPropertyIdentifier;
+            let filterProperties: { [propertyName: string]: DataViewPropertyValue } = {};
+            filterProperties[filterPropertyIdentifier.propertyName] = {};
+
+            let modeProperties: { [propertyName: string]: DataViewPropertyValue } = {};
+            modeProperties[slicerProps.general.mode.propertyName] = mode;
+
+            this.hostServices.persistProperties({
+                merge: [{
+                    objectName: slicerProps.general.mode.objectName,
+                    selector: undefined,
+                    properties: modeProperties
+                }],
+                remove: [{
+                    objectName: filterPropertyIdentifier.objectName,
+                    selector: undefined,
+                    properties: filterProperties
+                }]
+            });
+        }
+
+        private static getRendererKind(data: VisualSlicerData): SlicerRendererKind {
+            if (data.isHierarchy)
+                return SlicerRendererKind.Hierarchy;
+
+            if (RangeFilter.isRangeMode(data.mode))
+                return SlicerRendererKind.Range;
+
+            return SlicerRendererKind.List;
         }
 
         private orientationHasChanged(slicerOrientation: SlicerOrientation): boolean {
             return this.slicerOrientation !== slicerOrientation;
         }
 
-        private initializeSlicerRenderer(slicerOrientation: SlicerOrientation): void {
+        private initializeSlicerRenderer(slicerOrientation: SlicerOrientation, rendererKind: SlicerRendererKind): void {
+            this.rendererKind = rendererKind;
+            switch (rendererKind) {
+                case SlicerRendererKind.Range:
+                    this.initializeRangeSlicer();
+                    return;
+
+                case SlicerRendererKind.Hierarchy:
+                    this.initializeHierarchySlicer();
+                    return;
+            }
+
             switch (slicerOrientation) {
                 case SlicerOrientation.Horizontal:
                     this.initializeHorizontalSlicer();
@@ -301,6 +402,18 @@ module powerbi.visuals {
             this.interactivityService = horizontalSlicerRenderer.init(options, this.slicerContainer);
         }
 
+        private initializeRangeSlicer(): void {
+            let rangeSlicerRenderer = this.slicerRenderer = new RangeSlicerRenderer({ hostServices: this.hostServices, behavior: this.behavior });
+            let options = this.createInitOptions();
+            this.interactivityService = rangeSlicerRenderer.init(options, this.slicerContainer);
+        }
+
+        private initializeHierarchySlicer(): void {
+            let hierarchySlicerRenderer = this.slicerRenderer = new HierarchySlicerRenderer({ hostServices: this.hostServices, behavior: this.behavior });
+            let options = this.createInitOptions();
+            this.interactivityService = hierarchySlicerRenderer.init(options, this.slicerContainer);
+        }
+
         private createInitOptions(): SlicerInitOptions {
             return {
                 visualInitOptions: this.initOptions,
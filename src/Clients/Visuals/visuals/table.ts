@@ -30,6 +30,12 @@ module powerbi.visuals {
     import TablixFormattingProperties = powerbi.visuals.controls.TablixFormattingPropertiesTable;
     import TablixUtils = controls.internal.TablixUtils;
     import TablixObjects = controls.internal.TablixObjects;
+    import TablixConditionalFormatting = controls.internal.TablixConditionalFormatting;
+    import TablixColumnFilter = controls.internal.TablixColumnFilter;
+    import TablixColumnFilterConditions = controls.internal.TablixColumnFilterConditions;
+    import TablixFilterMenu = controls.internal.TablixFilterMenu;
+    import SemanticFilter = powerbi.data.SemanticFilter;
+    import SQExpr = powerbi.data.SQExpr;
     import EdgeSettings = TablixUtils.EdgeSettings;
     import EdgeType = TablixUtils.EdgeType;
 
@@ -306,8 +312,15 @@ module powerbi.visuals {
 
     export interface TableBinderOptions {
         onBindRowHeader?(item: any): void;
-        onColumnHeaderClick?(queryName: string, sortDirection: SortDirection): void;
+        /** Called when a column header is clicked; extendSort is true for a shift-click, adding the column to the current sort */
+        onColumnHeaderClick?(queryName: string, sortDirection: SortDirection, extendSort?: boolean): void;
+        /** Gets the position of a sorted column in a multi-column sort, or undefined if it is not shown */
+        getSortOrdinal?(queryName: string): number;
+        /** Called when the filter toggle of a column header is clicked */
+        onColumnFilterClick?(column: DataViewMetadataColumn, anchor: HTMLElement): void;
+        isColumnFiltered?(queryName: string): boolean;
         layoutKind?: controls.TablixLayoutKind;
+        isRightToLeft?: boolean;
     }
 
     /**
@@ -431,12 +444,19 @@ module powerbi.visuals {
             cell.contentHeight = this.textHeightHeader;
 
             let element = cell.extension.contentHost;
+            let queryName = item.queryName ? item.queryName : item.displayName;
             if (this.sortIconsEnabled()) {
-                element = TablixUtils.addSortIconToColumnHeader(item.sort, element);
+                let sortOrdinal = item.sort && this.options.getSortOrdinal ? this.options.getSortOrdinal(queryName) : undefined;
+                element = TablixUtils.addSortIconToColumnHeader(item.sort, element, sortOrdinal);
                 if (item.sort) {
                     // Glyph font has all characters width/height same as font size
                     cell.contentWidth = this.fontSizeHeader + TablixUtils.SortIconPadding;
+                    if (sortOrdinal != null)
+                        cell.contentWidth += TextMeasurementService.measureSvgTextWidth(this.textPropsHeader, sortOrdinal.toString());
                 }
+
+                if (this.options.onColumnFilterClick && TablixColumnFilter.canFilter(item))
+                    this.addFilterIcon(item, cell);
             }
 
             TablixUtils.setCellTextAndTooltip(item.displayName, element, cell.extension.contentHost);
@@ -445,9 +465,9 @@ module powerbi.visuals {
 
             if (this.options.onColumnHeaderClick) {
                 let handler = (e: MouseEvent) => {
-                    if (TablixUtils.isValidSortClick(e)) {
+                    if (TablixUtils.isValidSortClick(e, this.options.isRightToLeft)) {
                         let sortDirection: SortDirection = TablixUtils.reverseSort(item.sort);
-                        this.options.onColumnHeaderClick(item.queryName ? item.queryName : item.displayName, sortDirection);
+                        this.options.onColumnHeaderClick(queryName, sortDirection, e.shiftKey);
                     }
                 };
                 cell.extension.registerClickHandler(handler);
@@ -457,6 +477,24 @@ module powerbi.visuals {
             cell.applyStyle(cellStyle);
         }
 
+        private addFilterIcon(column: DataViewMetadataColumn, cell: controls.ITablixCell): void {
+            let isFiltered = this.options.isColumnFiltered && this.options.isColumnFiltered(TablixColumnFilter.getColumnKey(column));
+
+            let icon: HTMLPhraseElement = <HTMLPhraseElement>document.createElement('i');
+            icon.className = TablixUtils.CssClassTableFilterIcon + (isFiltered ? " " + TablixUtils.CssClassTableFilterIconActive : "");
+            icon.addEventListener('click', (e: MouseEvent) => {
+                // Keeps the click from sorting the column
+                e.stopPropagation();
+                this.options.onColumnFilterClick(column, icon);
+            });
+
+            let contentHost = cell.extension.contentHost;
+            contentHost.insertBefore(icon, contentHost.firstChild);
+
+            // Glyph font has all characters width/height same as font size
+            cell.contentWidth += this.fontSizeHeader + TablixUtils.SortIconPadding;
+        }
+
         private setColumnHeaderStyle(cell: controls.ITablixCell, style: TablixUtils.CellStyle): void {
             let propsGrid = this.formattingProperties.grid;
             let props = this.formattingProperties.columnHeaders;
@@ -593,6 +631,10 @@ module powerbi.visuals {
                     cell.contentWidth = TextMeasurementService.measureSvgTextWidth(this.textPropsTotal, text);
                 else
                     cell.contentWidth = TextMeasurementService.measureSvgTextWidth(this.textPropsValue, text);
+
+                let cellFormatting = TablixConditionalFormatting.getCellFormatting(this.formattingProperties.conditionalFormatting, item);
+                if (cellFormatting)
+                    cell.contentWidth += TablixConditionalFormatting.appendToCellContent(cellFormatting, item.dataPoint, element, this.fontSizeValue);
                 return;
             }
 
@@ -641,12 +683,16 @@ module powerbi.visuals {
             }
 
             style.fontColor = cell.position.row.index % 2 === 0 ? props.fontColorPrimary : props.fontColorSecondary;
+            style.backColor = cell.position.row.index % 2 === 0 ? props.backColorPrimary : props.backColorSecondary;
+
+            // Color scales of the column override primary/secondary colors.
+            let cellFormatting = TablixConditionalFormatting.getCellFormatting(this.formattingProperties.conditionalFormatting, item);
+            if (cellFormatting)
+                TablixConditionalFormatting.applyColorScales(cellFormatting, item.dataPoint, style);
 
             // Conditional formatting on the cell overrides primary/secondary background colors.
             if (item.backColor)
                 style.backColor = item.backColor;
-            else
-                style.backColor = cell.position.row.index % 2 === 0 ? props.backColorPrimary : props.backColorSecondary;
 
             style.paddings.top = style.paddings.bottom = propsGrid.rowPadding;
         }
@@ -761,6 +807,9 @@ module powerbi.visuals {
         private waitingForSort: boolean;
         private columnWidthManager: controls.TablixColumnWidthManager;
         private dataView: DataView;
+        private sortDescriptors: SortableFieldDescriptor[];
+        private columnFilters: TablixColumnFilterConditions;
+        private filterMenu: TablixFilterMenu;
 
         /**
         * Flag indicating that we are persisting objects, so that next onDataChanged can be safely ignored.
@@ -798,12 +847,14 @@ module powerbi.visuals {
             this.waitingForData = false;
             this.lastAllowHeaderResize = true;
             this.waitingForSort = false;
+            this.sortDescriptors = [];
+            this.columnFilters = {};
         }
 
         /**
          * Note: Public for testability.
          */
-        public static converter(dataView: DataView): DataViewVisualTable {
+        public static converter(dataView: DataView, highContrastColors?: HighContrastColors): DataViewVisualTable {
             let table = dataView.table;
             debug.assertValue(table, 'table');
             debug.assertValue(table.rows, 'table.rows');
@@ -819,6 +870,8 @@ module powerbi.visuals {
                 visualTable.visualRows.push(visualRow);
             }
             visualTable.formattingProperties = TablixObjects.getTableObjects(dataView);
+            if (highContrastColors)
+                TablixObjects.applyHighContrastColors(visualTable.formattingProperties, highContrastColors);
 
             return visualTable;
         }
@@ -851,7 +904,9 @@ module powerbi.visuals {
                     return;
                 }
 
-                let visualTable = Table.converter(this.dataView);
+                let visualTable = Table.converter(this.dataView, HighContrastHelper.getColors(this.style));
+                this.closeFilterMenu();
+                this.updateSortAndFilters(visualTable);
 
                 if (options.operationKind === VisualDataChangeOperationKind.Append) {
                     this.createOrUpdateHierarchyNavigator(visualTable);
@@ -934,8 +989,12 @@ module powerbi.visuals {
 
             let tableBinderOptions: TableBinderOptions = {
                 onBindRowHeader: (item: any) => this.onBindRowHeader(item),
-                onColumnHeaderClick: (queryName: string, sortDirection: SortDirection) => this.onColumnHeaderClick(queryName, sortDirection),
-                layoutKind: layoutKind
+                onColumnHeaderClick: (queryName: string, sortDirection: SortDirection, extendSort?: boolean) => this.onColumnHeaderClick(queryName, sortDirection, extendSort),
+                getSortOrdinal: (queryName: string) => this.getSortOrdinal(queryName),
+                onColumnFilterClick: (column: DataViewMetadataColumn, anchor: HTMLElement) => this.onColumnFilterClick(column, anchor),
+                isColumnFiltered: (queryName: string) => this.columnFilters[queryName] != null,
+                layoutKind: layoutKind,
+                isRightToLeft: RightToLeftHelper.isRightToLeft(this.hostServices),
             };
 
             let tableBinder = new TableBinder(tableBinderOptions, visualTable);
@@ -952,6 +1011,7 @@ module powerbi.visuals {
                 enableTouchSupport: !this.isTouchDisabled,
                 layoutKind: layoutKind,
                 fontSize: TablixObjects.getTextSizeInPx(textSize),
+                isRightToLeft: RightToLeftHelper.isRightToLeft(this.hostServices),
             };
 
             return new controls.TablixControl(dataNavigator, layoutManager, tableBinder, tablixContainer, tablixOptions);
@@ -965,6 +1025,7 @@ module powerbi.visuals {
             }
 
             this.tablixControl.fontSize = TablixObjects.getTextSizeInPx(textSize);
+            this.tablixControl.frozenColumnCount = visualTable.formattingProperties.general.frozenColumns;
             this.verifyHeaderResize();
 
             // Update models before the viewport to make sure column widths are computed correctly
@@ -1036,9 +1097,90 @@ module powerbi.visuals {
             }
         }
 
-        private onColumnHeaderClick(queryName: string, sortDirection: SortDirection): void {
+        private onColumnHeaderClick(queryName: string, sortDirection: SortDirection, extendSort?: boolean): void {
             this.waitingForSort = true;
-            this.hostServices.onCustomSort(TablixUtils.getCustomSortEventArgs(queryName, sortDirection));
+            this.sortDescriptors = TablixUtils.updateSortDescriptors(this.sortDescriptors, queryName, sortDirection, extendSort);
+            this.hostServices.onCustomSort({ sortDescriptors: this.sortDescriptors });
+        }
+
+        /**
+         * Gets the 1-based position of a column in the sort, shown only when sorting by more than one column.
+         */
+        private getSortOrdinal(queryName: string): number {
+            if (this.sortDescriptors.length < 2)
+                return;
+
+            let index = _.findIndex(this.sortDescriptors, (descriptor) => descriptor.queryName === queryName);
+            if (index >= 0)
+                return index + 1;
+        }
+
+        private updateSortAndFilters(visualTable: DataViewVisualTable): void {
+            this.sortDescriptors = TablixUtils.getSortDescriptors(visualTable.columns, this.sortDescriptors);
+
+            let objects = this.dataView.metadata && this.dataView.metadata.objects;
+            let filter = DataViewObjects.getValue<SemanticFilter>(objects, TablixColumnFilter.selfFilterPropertyIdentifier);
+            this.columnFilters = TablixColumnFilter.getColumnConditions(filter, visualTable.columns);
+        }
+
+        private onColumnFilterClick(column: DataViewMetadataColumn, anchor: HTMLElement): void {
+            // A second click on the toggle of the open menu closes it
+            let isOpen = this.filterMenu && this.filterMenu.column === column;
+            this.closeFilterMenu();
+            if (isOpen)
+                return;
+
+            let table = this.dataView.table;
+            let columnIndex = _.indexOf(table.columns, column);
+            let key = TablixColumnFilter.getColumnKey(column);
+            let formatString = valueFormatter.getFormatString(column, TablixObjects.PropColumnFormatString);
+
+            this.filterMenu = new TablixFilterMenu(this.element, {
+                column: column,
+                values: TablixColumnFilter.getDistinctValues(table.rows, columnIndex, this.columnFilters[key]),
+                condition: this.columnFilters[key],
+                isComplete: !this.dataView.metadata.segment,
+                format: (value: PrimitiveValue) => valueFormatter.format(value, formatString),
+                localize: this.getLocalizedString,
+                onApply: (condition: SQExpr) => this.applyColumnFilter(key, condition),
+            });
+
+            let elementOffset = this.element.offset();
+            let anchorOffset = $(anchor).offset();
+            this.filterMenu.setPosition(anchorOffset.left - elementOffset.left, anchorOffset.top - elementOffset.top + anchor.offsetHeight);
+        }
+
+        private closeFilterMenu(): void {
+            if (this.filterMenu) {
+                this.filterMenu.destroy();
+                this.filterMenu = null;
+            }
+        }
+
+        private applyColumnFilter(queryName: string, condition: SQExpr): void {
+            this.closeFilterMenu();
+
+            if (condition)
+                this.columnFilters[queryName] = condition;
+            else
+                delete this.columnFilters[queryName];
+
+            let properties: { [propertyName: string]: DataViewPropertyValue } = {};
+            let instance: VisualObjectInstance = {
+                objectName: TablixColumnFilter.selfFilterPropertyIdentifier.objectName,
+                selector: null,
+                properties: properties,
+            };
+
+            let filter = TablixColumnFilter.createFilter(this.columnFilters);
+            if (filter) {
+                properties[TablixColumnFilter.selfFilterPropertyIdentifier.propertyName] = filter;
+                this.hostServices.persistProperties({ merge: [instance] });
+            }
+            else {
+                properties[TablixColumnFilter.selfFilterPropertyIdentifier.propertyName] = {};
+                this.hostServices.persistProperties({ remove: [instance] });
+            }
         }
 
         /**
@@ -58,6 +58,8 @@ module powerbi.visuals {
         originalHighlightValue?: number;
         color: string;
         highlightedTooltipInfo?: TooltipDataItem[];
+        /** The pattern filling the node instead of its color in high contrast mode. */
+        highContrastFill?: string;
     }
 
     interface TreemapRawData {
@@ -159,6 +161,7 @@ module powerbi.visuals {
         private data: TreemapData;
         private style: IVisualStyle;
         private colors: IDataColorPalette;
+        private highContrastColors: HighContrastColors;
         private element: JQuery;
         private options: VisualInitOptions;
         private isScrollable: boolean;
@@ -251,8 +254,9 @@ module powerbi.visuals {
             if (this.behavior) {
                 this.interactivityService = createInteractivityService(options.host);
             }
-            this.legend = createLegend(element, options.interactivity && options.interactivity.isInteractiveLegend, this.interactivityService, this.isScrollable);
+            this.legend = createLegend(element, options.interactivity && options.interactivity.isInteractiveLegend, this.interactivityService, this.isScrollable, undefined, RightToLeftHelper.isRightToLeft(options.host));
             this.colors = this.style.colorPalette.dataColors;
+            this.highContrastColors = HighContrastHelper.getColors(this.style);
 
             this.hostService = options.host;
             this.tooltipService = createTooltipService(options.host);
@@ -261,7 +265,7 @@ module powerbi.visuals {
         /**
          * Note: Public for testing purposes.
          */
-        public static converter(dataView: DataView, colors: IDataColorPalette, labelSettings: VisualDataLabelsSettings, interactivityService: IInteractivityService, viewport: IViewport, legendObjectProperties?: DataViewObject, tooltipsEnabled: boolean = true): TreemapData {
+        public static converter(dataView: DataView, colors: IDataColorPalette, labelSettings: VisualDataLabelsSettings, interactivityService: IInteractivityService, viewport: IViewport, legendObjectProperties?: DataViewObject, tooltipsEnabled: boolean = true, highContrastColors?: HighContrastColors): TreemapData {
             let reader = data.createIDataViewCategoricalReader(dataView);
             let hasNegativeValues: boolean;
             let allValuesAreNegative: boolean;
@@ -281,7 +285,7 @@ module powerbi.visuals {
             let hasHighlights: boolean;
             let legendDataPoints: LegendDataPoint[] = [];
             let legendTitle = "";
-            let colorHelper = new ColorHelper(colors, treemapProps.dataPoint.fill);
+            let colorHelper = new ColorHelper(colors, treemapProps.dataPoint.fill, undefined, highContrastColors);
             let dataWasCulled = undefined;
             
             if (dataView && dataView.metadata && dataView.metadata.objects) {
@@ -294,6 +298,9 @@ module powerbi.visuals {
                 labelSettings.showCategory = DataViewObjects.getValue(objects, treemapProps.categoryLabels.show, labelSettings.showCategory);
             }
 
+            if (highContrastColors)
+                labelSettings.labelColor = highContrastColors.foreground;
+
             // If we values or a gradient, render the tree map
             if (reader.hasValues(treemapRoles.values) || reader.hasValues(treemapRoles.gradient)) {
                 
@@ -746,7 +753,7 @@ module powerbi.visuals {
                     legendObjectProperties = objects['legend'];
                 }
 
-                this.data = Treemap.converter(dataView, this.colors, labelSettings, this.interactivityService, this.currentViewport, legendObjectProperties, this.tooltipsEnabled);
+                this.data = Treemap.converter(dataView, this.colors, labelSettings, this.interactivityService, this.currentViewport, legendObjectProperties, this.tooltipsEnabled, this.highContrastColors);
             }
             else {
                 let rootNode: TreemapNode = {
@@ -1069,7 +1076,7 @@ module powerbi.visuals {
             if (Treemap.hasChildrenWithIdentity(d))
                 return CssConstants.noneValue;
 
-            return d.color;
+            return d.highContrastFill || d.color;
         }
 
         public static getFillOpacity(d: TreemapNode, hasSelection: boolean, hasHighlights: boolean, isHighlightRect: boolean): string {
@@ -1108,6 +1115,9 @@ module powerbi.visuals {
 
             this.treemap.size([viewport.width, viewport.height]);
 
+            if (this.highContrastColors && data && data.root)
+                this.setHighContrastFills(data.root);
+
             // Shapes are drawn for all nodes
             let nodes = (data && data.root) ? this.treemap.nodes(data.root) : [];
             // Highlight shapes are drawn only for nodes with non-null/undefed highlightMultipliers that have no children
@@ -1165,6 +1175,11 @@ module powerbi.visuals {
                 minorLabels = Treemap.drawDefaultMinorLabels(labelGraphicsContext, minorLabeledNodes, labelSettings, treemapLayout);
             }
 
+            if (this.highContrastColors) {
+                shapes.style('stroke', this.highContrastColors.foreground);
+                highlightShapes.style('stroke', this.highContrastColors.foreground);
+            }
+
             if (this.interactivityService) {
                 let behaviorOptions: TreemapBehaviorOptions = {
                     shapes: shapes,
@@ -1185,6 +1200,21 @@ module powerbi.visuals {
             SVGUtil.flushAllD3TransitionsIfNeeded(this.options);
         }
 
+        /**
+         * The nodes of the first level are filled with the pattern of their legend item, which their children inherit.
+         */
+        private setHighContrastFills(root: TreemapNode): void {
+            let setFill = (node: TreemapNode, fill: string) => {
+                node.highContrastFill = fill;
+                for (let child of <TreemapNode[]>(node.children || []))
+                    setFill(child, fill);
+            };
+
+            let firstLevelNodes = <TreemapNode[]>(root.children || []);
+            for (let i = 0, len = firstLevelNodes.length; i < len; i++)
+                setFill(firstLevelNodes[i], HighContrastHelper.getPatternFill(this.svg, i, this.highContrastColors));
+        }
+
         private addTooltips(shapes: D3.Selection, highlightShapes: D3.Selection): void {
             this.tooltipService.addTooltip(
                 shapes,
@@ -1202,6 +1232,7 @@ module powerbi.visuals {
             if (legendObjectProperties) {
                 let legendData = this.data.legendData;
                 LegendData.update(legendData, legendObjectProperties);
+                legendData.highContrastColors = this.highContrastColors;
                 let position = <string>legendObjectProperties[legendProps.position];
                 if (position)
                     this.legend.changeOrientation(LegendPosition[position]);
@@ -67,6 +67,13 @@ module powerbi {
         // /TODO
     }
 
+    export const enum DataExportFormat {
+        /** Comma separated values. */
+        Csv,
+        /** The XML spreadsheet format opened by Excel. */
+        SpreadsheetML,
+    }
+
     export const enum ResizeMode {
         Resizing = 1,
         Resized = 2,
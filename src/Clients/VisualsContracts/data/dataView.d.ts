@@ -90,11 +90,28 @@ declare module powerbi {
 
         /** The SQExpr this column represents. */
         expr?: data.ISQExpr;
+
+        /** The regression model that produced the values of this column, if it was computed by a regression transform. */
+        regression?: DataViewRegressionModel;
     }
 
     export interface DataViewSegmentMetadata {
     }
 
+    export interface DataViewRegressionModel {
+        /** The kind of regression model, e.g. 'linear', 'polynomial', 'exponential', 'logarithmic', 'power' or 'movingAverage'. */
+        type: string;
+
+        /** The model coefficients, or undefined for models that cannot be expressed as an equation (e.g. moving average). */
+        coefficients?: number[];
+
+        /** The coefficient of determination (R-squared) of the model, measured against the original values. */
+        rSquared?: number;
+
+        /** The model fitted to the highlight values, if any. */
+        highlights?: DataViewRegressionModel;
+    }
+
     export interface DataViewColumnAggregates {
         subtotal?: PrimitiveValue;
         max?: PrimitiveValue;
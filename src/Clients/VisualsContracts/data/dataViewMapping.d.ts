@@ -207,7 +207,9 @@ declare module powerbi {
         regression?: {
             [propertyName: string]: DataViewObjectPropertyIdentifier;
         };
-        forecast?: {};
+        forecast?: {
+            [propertyName: string]: DataViewObjectPropertyIdentifier;
+        };
     }
 
     export interface DataViewMappingRoleProjectionAggregates {
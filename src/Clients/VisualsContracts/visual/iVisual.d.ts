@@ -243,6 +243,14 @@ declare module powerbi {
         sortDescriptors: SortableFieldDescriptor[];
     }
 
+    export interface ExportDataEventArgs {
+        /** The DataView to export, as received by the visual. */
+        dataView: DataView;
+        format: DataExportFormat;
+        /** The name of the file, without its extension. */
+        fileName?: string;
+    }
+
     export interface SortableFieldDescriptor {
         queryName: string;
         sortDirection?: SortDirection;
@@ -511,6 +519,9 @@ declare module powerbi {
         /** Notification to sort on the specified column */
         onCustomSort(args: CustomSortEventArgs): void;
 
+        /** Exports the data of the visual to a file. */
+        exportData?(args: ExportDataEventArgs): void;
+
         /** Indicates which view mode the host is in. */
         getViewMode(): ViewMode;
 
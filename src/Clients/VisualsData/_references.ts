@@ -48,6 +48,7 @@
 /// <reference path="./dataView/dataViewTransformContext.ts"/>
 /// <reference path="./dataView/dataViewCategoricalProjectionOrder.ts"/>
 /// <reference path="./dataView/dataViewTransform.ts"/>
+/// <reference path="./dataView/dataViewExporter.ts"/>
 /// <reference path="./displayNameGetter.ts"/>
 /// <reference path="./dataReader/dataReader.ts"/>
 /// <reference path="./iFormattingService.ts"/>
@@ -59,6 +60,7 @@
 /// <reference path="./dataView/rules/colorAllocatorCache.ts"/>
 /// <reference path="./dataView/rules/evalContext.ts"/>
 /// <reference path="./dataView/dataViewRegression.ts"/>
+/// <reference path="./dataView/dataViewForecast.ts"/>
 /// <reference path="./dataView/dataViewSelectTransform.ts"/>
 /// <reference path="./dataView/rules/categoricalEvalContext.ts"/>
 /// <reference path="./dataView/rules/tableEvalContext.ts"/>
@@ -83,9 +85,13 @@
 /// <reference path="./semanticQuery/SQFilter.ts"/>
 /// <reference path="./semanticQuery/sqUtils.ts"/>
 /// <reference path="./dataView/dataViewBuilder.ts"/>
+/// <reference path="./dataReader/localDataTable.ts"/>
+/// <reference path="./dataReader/localQueryEngine.ts"/>
+/// <reference path="./dataReader/localDataReader.ts"/>
 /// <reference path="./dataView/rules/staticEvalContext.ts"/>
 /// <reference path="./dataView/rules/matrixEvalContext.ts"/>
 /// <reference path="./services/formattingService.ts"/>
 /// <reference path="./services/serialization/sqExprShortSerializer.ts"/>
+/// <reference path="./services/serialization/semanticQuerySerializer.ts"/>
 /// <reference path="./selection/selectionId.ts"/>
 /// <reference path="./stylePresets/visualStylePreset.ts"/>
\ No newline at end of file
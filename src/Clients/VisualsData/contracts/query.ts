@@ -90,6 +90,7 @@ module powerbi.data {
         Name?: string;
 
         SourceRef?: QuerySourceRefExpression;
+        EntityRef?: QueryEntityRefExpression;
         Column?: QueryColumnExpression;
         Measure?: QueryMeasureExpression;
         Aggregation?: QueryAggregationExpression;
@@ -163,6 +164,13 @@ module powerbi.data {
         Source: string;
     }
 
+    /** Identifies the entity when the expression is serialized outside of a query (i.e., without a From clause). */
+    export interface QueryEntityRefExpression {
+        Entity: string;
+        Schema?: string;
+        Source?: string;
+    }
+
     export interface QuerySelectRefExpression {
         ExpressionName: string;
     }
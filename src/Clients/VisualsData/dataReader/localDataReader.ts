@@ -0,0 +1,222 @@
+/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved. 
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *   
+ *  The above copyright notice and this permission notice shall be included in 
+ *  all copies or substantial portions of the Software.
+ *   
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR 
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, 
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE 
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER 
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+/// <reference path="../_references.ts"/>
+
+module powerbi.data {
+    import IStringResourceProvider = jsCommon.IStringResourceProvider;
+
+    /** Represents the in-memory tables, and the ConceptualSchema that describes them, queried by the local data reader. */
+    export interface LocalDataReaderDataSource extends DataReaderDataSource {
+        /** The name used by Semantic Queries to reference the schema. */
+        schemaName: string;
+        schema: ConceptualSchema;
+        tables: LocalDataTable[];
+        relationships?: LocalDataRelationship[];
+
+        /** Defines the expression evaluated for each measure property, keyed by entity name and then by measure name. */
+        measures?: _.Dictionary<_.Dictionary<SQExpr>>;
+    }
+
+    export interface LocalDataReaderCommand extends DataReaderCommand, DataReaderQueryCommand {
+        query: SemanticQuery;
+        highlightFilter?: SemanticFilter;
+    }
+
+    export interface LocalDataReaderData extends DataReaderData {
+        dataView: DataView;
+    }
+
+    export module LocalDataReaderPlugin {
+        export const name = 'local';
+
+        export function create(): IDataReaderPlugin {
+            return {
+                name: name,
+                reader: (hostServices: IDataReaderHostServices) => new LocalDataReader(hostServices.promiseFactory()),
+                queryGenerator: () => new LocalQueryGenerator(),
+            };
+        }
+    }
+
+    /** Passes the SemanticQuery through to the local data reader, which evaluates it directly. */
+    export class LocalQueryGenerator implements IQueryGenerator {
+        public execute(options: QueryGeneratorOptions): QueryGeneratorResult {
+            debug.assertValue(options, 'options');
+
+            let command: LocalDataReaderCommand = {
+                query: options.query,
+            };
+
+            if (options.highlightFilter)
+                command.highlightFilter = options.highlightFilter;
+
+            return { command: command };
+        }
+    }
+
+    /** Executes SemanticQuery commands against the in-memory tables of a LocalDataReaderDataSource. */
+    export class LocalDataReader implements IDataReader {
+        private promiseFactory: IPromiseFactory;
+        private communicationStopped: boolean;
+
+        constructor(promiseFactory: IPromiseFactory) {
+            debug.assertValue(promiseFactory, 'promiseFactory');
+
+            this.promiseFactory = promiseFactory;
+        }
+
+        public execute(options: DataReaderExecutionOptions): RejectablePromise2<DataReaderData, IClientError> {
+            debug.assertValue(options, 'options');
+
+            let deferred = this.promiseFactory.defer<DataReaderData, IClientError>();
+            let promise = new LocalRejectablePromise(deferred);
+
+            if (this.communicationStopped) {
+                promise.reject(new LocalDataReaderError('Communication with the local data reader has been stopped.'));
+                return promise;
+            }
+
+            let dataSource = <LocalDataReaderDataSource>options.dataSource;
+            let command = <LocalDataReaderCommand>options.command;
+            try {
+                let data: LocalDataReaderData = {
+                    dataView: LocalDataReader.createEngine(dataSource).execute(command.query, command.highlightFilter),
+                };
+                deferred.resolve(data);
+            }
+            catch (e) {
+                promise.reject(new LocalDataReaderError(e.message));
+            }
+
+            return promise;
+        }
+
+        public transform(obj: DataReaderData): DataReaderTransformResult {
+            let data = <LocalDataReaderData>obj;
+            if (!data || !data.dataView)
+                return {};
+
+            return { dataView: data.dataView };
+        }
+
+        public stopCommunication(): void {
+            this.communicationStopped = true;
+        }
+
+        public resumeCommunication(): void {
+            this.communicationStopped = false;
+        }
+
+        private static createEngine(dataSource: LocalDataReaderDataSource): LocalQueryEngine {
+            if (!dataSource)
+                throw new Error('A LocalDataReaderDataSource is required.');
+
+            let schemas: { [name: string]: ConceptualSchema } = {};
+            schemas[dataSource.schemaName] = dataSource.schema;
+
+            return new LocalQueryEngine({
+                schema: new FederatedConceptualSchema({ schemas: schemas }),
+                tables: dataSource.tables,
+                relationships: dataSource.relationships,
+                measures: dataSource.measures,
+            });
+        }
+    }
+
+    export class LocalDataReaderError implements IClientError {
+        private message: string;
+
+        constructor(message: string) {
+            this.message = message;
+        }
+
+        public get code(): string {
+            return 'LocalDataReaderError';
+        }
+
+        public get ignorable(): boolean {
+            return false;
+        }
+
+        public get debugInfo(): string {
+            return this.message;
+        }
+
+        public getDetails(resourceProvider: IStringResourceProvider): ErrorDetails {
+            return {
+                message: resourceProvider.get('ClientError_UnknownClientErrorValue'),
+                displayableErrorInfo: [{ errorInfoKey: resourceProvider.get('ClientError_UnknownClientErrorKey'), errorInfoValue: resourceProvider.get('ClientError_UnknownClientErrorValue'), }],
+                debugErrorInfo: [
+                    { errorInfoKey: ClientErrorStrings.ClientErrorCode, errorInfoValue: this.code, },
+                    { errorInfoKey: ClientErrorStrings.ErrorDetails, errorInfoValue: this.message, },
+                ],
+            };
+        }
+    }
+
+    /** Adapts an IDeferred2 to the RejectablePromise2 contract of IDataReader.execute. */
+    class LocalRejectablePromise implements RejectablePromise2<DataReaderData, IClientError> {
+        private deferred: IDeferred2<DataReaderData, IClientError>;
+        private state: PromiseResultType;
+
+        constructor(deferred: IDeferred2<DataReaderData, IClientError>) {
+            this.deferred = deferred;
+            deferred.promise.then(
+                () => this.state = PromiseResultType.Success,
+                () => this.state = PromiseResultType.Failure);
+        }
+
+        public then(successCallback: (promiseValue: DataReaderData) => any, errorCallback?: (reason: IClientError) => any): IPromise2<any, any> {
+            return this.deferred.promise.then(successCallback, errorCallback);
+        }
+
+        public catch(onRejected: (reason: any) => any): IPromise2<DataReaderData, any> {
+            return this.deferred.promise.catch(onRejected);
+        }
+
+        public finally<T, U>(finallyCallback: () => any): IPromise2<T, U> {
+            return this.deferred.promise.finally<T, U>(finallyCallback);
+        }
+
+        public reject(reason?: IClientError): void {
+            if (this.pending())
+                this.deferred.reject(reason);
+        }
+
+        public resolved(): boolean {
+            return this.state === PromiseResultType.Success;
+        }
+
+        public rejected(): boolean {
+            return this.state === PromiseResultType.Failure;
+        }
+
+        public pending(): boolean {
+            return this.state === undefined;
+        }
+    }
+}
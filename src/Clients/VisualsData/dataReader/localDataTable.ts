@@ -0,0 +1,203 @@
+/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved. 
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *   
+ *  The above copyright notice and this permission notice shall be included in 
+ *  all copies or substantial portions of the Software.
+ *   
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR 
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, 
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE 
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER 
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+/// <reference path="../_references.ts"/>
+
+module powerbi.data {
+    /** Represents the rows of a ConceptualEntity held in memory. */
+    export interface LocalDataTable {
+        /** The name of the ConceptualEntity whose rows are held by this table. */
+        entity: string;
+        rows: LocalDataRow[];
+    }
+
+    /** Represents a row of a LocalDataTable, keyed by ConceptualProperty name. */
+    export interface LocalDataRow {
+        [propertyName: string]: PrimitiveValue;
+    }
+
+    /** Describes a many-to-one relationship between two LocalDataTables. */
+    export interface LocalDataRelationship {
+        fromEntity: string;
+        fromColumn: string;
+        toEntity: string;
+        toColumn: string;
+    }
+
+    export module LocalDataTableParser {
+        const DefaultCsvDelimiter = ',';
+
+        /** Creates a LocalDataTable from JSON row objects, coercing the values to the types declared by the entity. */
+        export function fromJson(entity: ConceptualEntity, rows: _.Dictionary<any>[]): LocalDataTable {
+            debug.assertValue(entity, 'entity');
+            debug.assertValue(rows, 'rows');
+
+            let properties = getColumnProperties(entity);
+            let tableRows: LocalDataRow[] = [];
+            for (let row of rows) {
+                let tableRow: LocalDataRow = {};
+                for (let propertyName in row) {
+                    tableRow[propertyName] = coerceValue(row[propertyName], properties[propertyName]);
+                }
+                tableRows.push(tableRow);
+            }
+
+            return {
+                entity: entity.name,
+                rows: tableRows,
+            };
+        }
+
+        /** Creates a LocalDataTable from CSV text whose first record holds the property names. */
+        export function fromCsv(entity: ConceptualEntity, csv: string, delimiter: string = DefaultCsvDelimiter): LocalDataTable {
+            debug.assertValue(entity, 'entity');
+            debug.assertValue(csv, 'csv');
+
+            let records = parseCsv(csv, delimiter);
+            let header = records.shift() || [];
+            let properties = getColumnProperties(entity);
+            let tableRows: LocalDataRow[] = [];
+            for (let record of records) {
+                let tableRow: LocalDataRow = {};
+                for (let i = 0, len = header.length; i < len; i++) {
+                    let propertyName = header[i];
+                    tableRow[propertyName] = coerceValue(record[i], properties[propertyName]);
+                }
+                tableRows.push(tableRow);
+            }
+
+            return {
+                entity: entity.name,
+                rows: tableRows,
+            };
+        }
+
+        /** Splits CSV text into records of fields.  Supports quoted fields containing delimiters, escaped quotes and line breaks. */
+        export function parseCsv(csv: string, delimiter: string = DefaultCsvDelimiter): string[][] {
+            debug.assertValue(csv, 'csv');
+
+            let records: string[][] = [];
+            let record: string[] = [];
+            let field = '';
+            let inQuotes = false;
+            let fieldStarted = false;
+
+            for (let i = 0, len = csv.length; i < len; i++) {
+                let char = csv.charAt(i);
+
+                if (inQuotes) {
+                    if (char !== '"') {
+                        field += char;
+                    }
+                    else if (csv.charAt(i + 1) === '"') {
+                        field += '"';
+                        i++;
+                    }
+                    else {
+                        inQuotes = false;
+                    }
+                    continue;
+                }
+
+                if (char === '"' && !fieldStarted) {
+                    inQuotes = true;
+                    fieldStarted = true;
+                }
+                else if (char === delimiter) {
+                    record.push(field);
+                    field = '';
+                    fieldStarted = false;
+                }
+                else if (char === '\r' || char === '\n') {
+                    if (char === '\r' && csv.charAt(i + 1) === '\n')
+                        i++;
+
+                    record.push(field);
+                    if (record.length > 1 || record[0] !== '')
+                        records.push(record);
+
+                    record = [];
+                    field = '';
+                    fieldStarted = false;
+                }
+                else {
+                    field += char;
+                    fieldStarted = true;
+                }
+            }
+
+            if (fieldStarted || record.length > 0) {
+                record.push(field);
+                records.push(record);
+            }
+
+            return records;
+        }
+
+        function getColumnProperties(entity: ConceptualEntity): _.Dictionary<ConceptualProperty> {
+            let properties: _.Dictionary<ConceptualProperty> = {};
+            if (entity.properties) {
+                for (let property of entity.properties) {
+                    if (property.kind === ConceptualPropertyKind.Column)
+                        properties[property.name] = property;
+                }
+            }
+
+            return properties;
+        }
+
+        function coerceValue(value: any, property: ConceptualProperty): PrimitiveValue {
+            if (value == null || value === '')
+                return null;
+
+            if (!property || !property.type)
+                return value;
+
+            let type = property.type;
+            if (type.numeric || type.integer) {
+                let numericValue = _.isNumber(value) ? value : parseFloat(value);
+                return isNaN(numericValue) ? null : numericValue;
+            }
+
+            if (type.dateTime) {
+                let dateValue = value instanceof Date ? value : new Date(value);
+                return isNaN(dateValue.getTime()) ? null : dateValue;
+            }
+
+            if (type.bool) {
+                if (_.isBoolean(value))
+                    return value;
+
+                return String(value).toLowerCase() === 'true';
+            }
+
+            if (type.text)
+                return String(value);
+
+            return value;
+        }
+    }
+}
@@ -0,0 +1,995 @@
+/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved. 
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *   
+ *  The above copyright notice and this permission notice shall be included in 
+ *  all copies or substantial portions of the Software.
+ *   
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR 
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, 
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE 
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER 
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+/// <reference path="../_references.ts"/>
+
+module powerbi.data {
+    import ArrayExtensions = jsCommon.ArrayExtensions;
+
+    export interface LocalQueryEngineOptions {
+        schema: FederatedConceptualSchema;
+        tables: LocalDataTable[];
+        relationships?: LocalDataRelationship[];
+
+        /** Defines the expression evaluated for each measure property, keyed by entity name and then by measure name. */
+        measures?: _.Dictionary<_.Dictionary<SQExpr>>;
+    }
+
+    /** Represents a row of the base table joined with the related rows of every other table it references, keyed by entity name. */
+    interface LocalJoinedRow {
+        [entity: string]: LocalDataRow;
+    }
+
+    interface LocalGroupContext {
+        rows: LocalJoinedRow[];
+        allRows: LocalJoinedRow[];
+    }
+
+    interface LocalGroup {
+        key: string;
+        rows: LocalJoinedRow[];
+        keyValues: PrimitiveValue[];
+        values?: PrimitiveValue[];
+        highlights?: PrimitiveValue[];
+        sortValues?: PrimitiveValue[];
+        originalIndex?: number;
+    }
+
+    interface LocalSelectItem {
+        namedExpr: NamedSQExpr;
+        isMeasure: boolean;
+        groupingIndex?: number;
+    }
+
+    /** Evaluates SemanticQuery instances against in-memory tables, producing query DataViews for DataViewTransform. */
+    export class LocalQueryEngine {
+        private schema: FederatedConceptualSchema;
+        private tables: _.Dictionary<LocalDataTable>;
+        private relationships: LocalDataRelationship[];
+        private rowEvaluator: LocalRowEvaluator;
+        private groupEvaluator: LocalGroupEvaluator;
+
+        constructor(options: LocalQueryEngineOptions) {
+            debug.assertValue(options, 'options');
+            debug.assertValue(options.schema, 'options.schema');
+            debug.assertValue(options.tables, 'options.tables');
+
+            this.schema = options.schema;
+            this.tables = {};
+            for (let table of options.tables)
+                this.tables[table.entity] = table;
+            this.relationships = options.relationships || [];
+            this.rowEvaluator = new LocalRowEvaluator(options.schema);
+            this.groupEvaluator = new LocalGroupEvaluator(this.rowEvaluator, options.measures || {});
+        }
+
+        /** Executes the query, optionally computing highlight values for the rows that satisfy the highlight filter. */
+        public execute(query: SemanticQuery, highlightFilter?: SemanticFilter): DataView {
+            debug.assertValue(query, 'query');
+
+            let allRows = this.joinRows(query.from());
+            let rows = this.applyFilters(allRows, query.where());
+
+            let selectItems = this.createSelectItems(query);
+            let groupingExprs = this.getGroupingExprs(query, selectItems);
+            let groups = this.groupRows(rows, groupingExprs);
+
+            let groupContext: LocalGroupContext = { rows: null, allRows: rows };
+            let highlightConditions = highlightFilter ? highlightFilter.conditions() : null;
+            for (let group of groups) {
+                groupContext.rows = group.rows;
+                group.values = this.evaluateSelects(selectItems, group, groupContext);
+
+                if (highlightConditions) {
+                    let highlightRows = _.filter(group.rows, (row) => this.satisfiesAll(row, highlightConditions));
+                    groupContext.rows = highlightRows;
+                    group.highlights = _.isEmpty(highlightRows)
+                        ? _.map(selectItems, (select) => null)
+                        : this.evaluateSelects(selectItems, group, groupContext);
+                }
+            }
+
+            this.sortGroups(groups, query.orderBy(), selectItems, groupingExprs, rows);
+
+            let totals: PrimitiveValue[];
+            if (!_.isEmpty(groupingExprs) && _.some(selectItems, (select) => select.isMeasure)) {
+                groupContext.rows = rows;
+                totals = _.map(selectItems, (select) => select.isMeasure ? this.groupEvaluator.evaluate(select.namedExpr.expr, groupContext) : null);
+            }
+
+            return this.createDataView(selectItems, groupingExprs, groups, !!highlightConditions, totals);
+        }
+
+        private joinRows(from: SQFrom): LocalJoinedRow[] {
+            let entities: string[] = [];
+            for (let key of from.keys()) {
+                let source = from.source(key);
+                if (!isSQFromEntitySource(source))
+                    throw new Error('Subquery sources are not supported by the local query engine.');
+
+                let entity = (<SQFromEntitySource>source).entity;
+                if (!_.contains(entities, entity))
+                    entities.push(entity);
+            }
+
+            if (_.isEmpty(entities))
+                return [];
+
+            let baseEntity = this.findBaseEntity(entities);
+            if (!baseEntity)
+                throw new Error('The entities ' + entities.join(', ') + ' are not related by any relationship.');
+
+            let baseTable = this.tables[baseEntity];
+            if (!baseTable)
+                throw new Error('No table was provided for entity ' + baseEntity + '.');
+
+            let lookups = this.createLookups();
+            let joinedRows: LocalJoinedRow[] = [];
+            for (let row of baseTable.rows) {
+                let joinedRow: LocalJoinedRow = {};
+                joinedRow[baseEntity] = row;
+                this.joinRelatedRows(joinedRow, baseEntity, lookups);
+                joinedRows.push(joinedRow);
+            }
+
+            return joinedRows;
+        }
+
+        /** Finds the entity from which every other entity is reachable by following many-to-one relationships. */
+        private findBaseEntity(entities: string[]): string {
+            for (let candidate of entities) {
+                let reachable = this.getReachableEntities(candidate);
+                if (_.every(entities, (entity) => _.contains(reachable, entity)))
+                    return candidate;
+            }
+        }
+
+        private getReachableEntities(entity: string): string[] {
+            let reachable = [entity];
+            for (let i = 0; i < reachable.length; i++) {
+                for (let relationship of this.relationships) {
+                    if (relationship.fromEntity === reachable[i] && !_.contains(reachable, relationship.toEntity))
+                        reachable.push(relationship.toEntity);
+                }
+            }
+
+            return reachable;
+        }
+
+        private createLookups(): _.Dictionary<_.Dictionary<LocalDataRow>> {
+            let lookups: _.Dictionary<_.Dictionary<LocalDataRow>> = {};
+            for (let relationship of this.relationships) {
+                let lookupKey = relationship.toEntity + '.' + relationship.toColumn;
+                if (lookups[lookupKey])
+                    continue;
+
+                let table = this.tables[relationship.toEntity];
+                let lookup: _.Dictionary<LocalDataRow> = {};
+                if (table) {
+                    for (let row of table.rows)
+                        lookup[getValueKey(row[relationship.toColumn])] = row;
+                }
+                lookups[lookupKey] = lookup;
+            }
+
+            return lookups;
+        }
+
+        private joinRelatedRows(joinedRow: LocalJoinedRow, entity: string, lookups: _.Dictionary<_.Dictionary<LocalDataRow>>): void {
+            let row = joinedRow[entity];
+            for (let relationship of this.relationships) {
+                if (relationship.fromEntity !== entity || joinedRow[relationship.toEntity] !== undefined)
+                    continue;
+
+                let lookup = lookups[relationship.toEntity + '.' + relationship.toColumn];
+                joinedRow[relationship.toEntity] = (row && lookup[getValueKey(row[relationship.fromColumn])]) || null;
+                this.joinRelatedRows(joinedRow, relationship.toEntity, lookups);
+            }
+        }
+
+        private applyFilters(rows: LocalJoinedRow[], filters: SQFilter[]): LocalJoinedRow[] {
+            if (_.isEmpty(filters))
+                return rows;
+
+            let conditions = _.map(filters, (filter) => filter.condition);
+            return _.filter(rows, (row) => this.satisfiesAll(row, conditions));
+        }
+
+        private satisfiesAll(row: LocalJoinedRow, conditions: SQExpr[]): boolean {
+            for (let condition of conditions) {
+                if (condition.accept(this.rowEvaluator, row) !== true)
+                    return false;
+            }
+
+            return true;
+        }
+
+        private createSelectItems(query: SemanticQuery): LocalSelectItem[] {
+            let groupingIndex = 0;
+            return _.map(query.select(), (namedExpr) => {
+                let isMeasure = LocalAggregateDetector.run(namedExpr.expr);
+                let item: LocalSelectItem = {
+                    namedExpr: namedExpr,
+                    isMeasure: isMeasure,
+                };
+
+                if (!isMeasure)
+                    item.groupingIndex = groupingIndex++;
+
+                return item;
+            });
+        }
+
+        private getGroupingExprs(query: SemanticQuery, selectItems: LocalSelectItem[]): SQExpr[] {
+            let groupingExprs: SQExpr[] = [];
+            for (let select of selectItems) {
+                if (!select.isMeasure)
+                    groupingExprs.push(select.namedExpr.expr);
+            }
+
+            for (let groupBy of query.groupBy()) {
+                if (SQExprUtils.indexOfExpr(groupingExprs, groupBy.expr) < 0)
+                    groupingExprs.push(groupBy.expr);
+            }
+
+            return groupingExprs;
+        }
+
+        private groupRows(rows: LocalJoinedRow[], groupingExprs: SQExpr[]): LocalGroup[] {
+            if (_.isEmpty(groupingExprs)) {
+                return [{
+                    key: '',
+                    rows: rows,
+                    keyValues: [],
+                }];
+            }
+
+            let groups: LocalGroup[] = [];
+            let groupsByKey: _.Dictionary<LocalGroup> = {};
+            for (let row of rows) {
+                let keyValues = _.map(groupingExprs, (expr) => <PrimitiveValue>expr.accept(this.rowEvaluator, row));
+                let key = _.map(keyValues, getValueKey).join('\u001f');
+
+                let group = groupsByKey[key];
+                if (!group) {
+                    group = groupsByKey[key] = {
+                        key: key,
+                        rows: [],
+                        keyValues: keyValues,
+                    };
+                    groups.push(group);
+                }
+
+                group.rows.push(row);
+            }
+
+            return groups;
+        }
+
+        private evaluateSelects(selectItems: LocalSelectItem[], group: LocalGroup, groupContext: LocalGroupContext): PrimitiveValue[] {
+            return _.map(selectItems, (select) => {
+                if (!select.isMeasure)
+                    return group.keyValues[select.groupingIndex];
+
+                return this.groupEvaluator.evaluate(select.namedExpr.expr, groupContext);
+            });
+        }
+
+        private sortGroups(groups: LocalGroup[], orderBy: SQSortDefinition[], selectItems: LocalSelectItem[], groupingExprs: SQExpr[], allRows: LocalJoinedRow[]): void {
+            let sorts: SQSortDefinition[] = orderBy;
+
+            // Mirror the service behavior of ordering by the grouping columns when the query has no explicit sort.
+            if (_.isEmpty(sorts)) {
+                sorts = _.map(groupingExprs, (expr) => {
+                    return {
+                        expr: expr,
+                        direction: SortDirection.Ascending,
+                    };
+                });
+            }
+
+            if (_.isEmpty(sorts))
+                return;
+
+            let groupContext: LocalGroupContext = { rows: null, allRows: allRows };
+            let selectExprs = _.map(selectItems, (select) => select.namedExpr.expr);
+            for (let groupIndex = 0, groupCount = groups.length; groupIndex < groupCount; groupIndex++) {
+                let group = groups[groupIndex];
+                groupContext.rows = group.rows;
+                group.originalIndex = groupIndex;
+                group.sortValues = _.map(sorts, (sort) => {
+                    let selectIndex = SQExprUtils.indexOfExpr(selectExprs, sort.expr);
+                    if (selectIndex >= 0)
+                        return group.values[selectIndex];
+
+                    let groupingIndex = SQExprUtils.indexOfExpr(groupingExprs, sort.expr);
+                    if (groupingIndex >= 0)
+                        return group.keyValues[groupingIndex];
+
+                    return this.groupEvaluator.evaluate(sort.expr, groupContext);
+                });
+            }
+
+            // Array.prototype.sort is not guaranteed to be stable, so fall back to the original order to break ties.
+            groups.sort((x, y) => {
+                for (let i = 0, len = sorts.length; i < len; i++) {
+                    let result = LocalValueComparer.compare(x.sortValues[i], y.sortValues[i]);
+                    if (result !== 0)
+                        return sorts[i].direction === SortDirection.Descending ? -result : result;
+                }
+
+                return x.originalIndex - y.originalIndex;
+            });
+        }
+
+        private createDataView(selectItems: LocalSelectItem[], groupingExprs: SQExpr[], groups: LocalGroup[], hasHighlights: boolean, totals: PrimitiveValue[]): DataView {
+            let columns = _.map(selectItems, (select, index) => this.createMetadataColumn(select, index));
+
+            let identityFields = _.map(groupingExprs, (expr) => SQExprBuilder.removeEntityVariables(expr));
+            let identities: DataViewScopeIdentity[];
+            if (!_.isEmpty(identityFields)) {
+                let groupingTypes = _.map(groupingExprs, (expr) => this.getValueType(expr));
+                identities = _.map(groups, (group) => {
+                    let constants = _.map(group.keyValues, (value, index) => SQExprBuilder.typedConstant(value, groupingTypes[index]));
+                    return createDataViewScopeIdentity(SQExprUtils.getDataViewScopeIdentityComparisonExpr(identityFields, constants));
+                });
+            }
+
+            let dataView: DataView = {
+                metadata: { columns: columns },
+                table: this.createTable(columns, groups, identities, identityFields, totals),
+                categorical: this.createCategorical(selectItems, columns, groups, identities, identityFields, hasHighlights),
+            };
+
+            if (selectItems.length === 1 && selectItems[0].isMeasure && _.isEmpty(groupingExprs))
+                dataView.single = { value: groups[0].values[0] };
+
+            return dataView;
+        }
+
+        private createMetadataColumn(select: LocalSelectItem, index: number): DataViewMetadataColumn {
+            let expr = select.namedExpr.expr;
+            let column: DataViewMetadataColumn = {
+                displayName: select.namedExpr.name,
+                queryName: select.namedExpr.name,
+                index: index,
+                type: this.getValueType(expr),
+            };
+
+            let property = expr.getConceptualProperty(this.schema);
+            if (property && property.displayName)
+                column.displayName = property.displayName;
+
+            let metadata = expr.getMetadata(this.schema);
+            if (metadata && metadata.format)
+                column.format = metadata.format;
+
+            if (select.isMeasure)
+                column.isMeasure = true;
+
+            return column;
+        }
+
+        private createTable(
+            columns: DataViewMetadataColumn[],
+            groups: LocalGroup[],
+            identities: DataViewScopeIdentity[],
+            identityFields: SQExpr[],
+            totals: PrimitiveValue[]): DataViewTable {
+            let table: DataViewTable = {
+                columns: columns,
+                rows: _.map(groups, (group) => group.values),
+            };
+
+            if (identities) {
+                table.identity = identities;
+                table.identityFields = identityFields;
+            }
+
+            if (totals)
+                table.totals = totals;
+
+            return table;
+        }
+
+        private createCategorical(
+            selectItems: LocalSelectItem[],
+            columns: DataViewMetadataColumn[],
+            groups: LocalGroup[],
+            identities: DataViewScopeIdentity[],
+            identityFields: SQExpr[],
+            hasHighlights: boolean): DataViewCategorical {
+            let categories: DataViewCategoryColumn[] = [];
+            let valueColumns: DataViewValueColumn[] = [];
+
+            for (let i = 0, len = selectItems.length; i < len; i++) {
+                let select = selectItems[i];
+                let values = _.map(groups, (group) => group.values[i]);
+
+                if (select.isMeasure) {
+                    let valueColumn: DataViewValueColumn = {
+                        source: columns[i],
+                        values: values,
+                    };
+
+                    if (hasHighlights)
+                        valueColumn.highlights = _.map(groups, (group) => group.highlights[i]);
+
+                    valueColumns.push(valueColumn);
+                }
+                else {
+                    categories.push({
+                        source: columns[i],
+                        values: values,
+                        identity: identities,
+                        identityFields: [identityFields[select.groupingIndex]],
+                    });
+                }
+            }
+
+            let categorical: DataViewCategorical = {
+                values: DataViewTransform.createValueColumns(valueColumns),
+            };
+
+            if (!_.isEmpty(categories))
+                categorical.categories = categories;
+
+            return categorical;
+        }
+
+        private getValueType(expr: SQExpr): ValueType {
+            let metadata = expr.getMetadata(this.schema);
+            if (metadata && metadata.type)
+                return metadata.type;
+
+            return expr.accept(new LocalValueTypeInferrer(this.schema)) || ValueType.fromExtendedType(ExtendedType.Null);
+        }
+    }
+
+    /** Compares PrimitiveValues, ordering nulls before any other value. */
+    module LocalValueComparer {
+        export function compare(x: PrimitiveValue, y: PrimitiveValue): number {
+            if (x == null)
+                return y == null ? 0 : -1;
+            if (y == null)
+                return 1;
+
+            let left = toComparable(x),
+                right = toComparable(y);
+            if (left < right)
+                return -1;
+            if (left > right)
+                return 1;
+
+            return 0;
+        }
+
+        export function equals(x: PrimitiveValue, y: PrimitiveValue): boolean {
+            return compare(x, y) === 0;
+        }
+
+        function toComparable(value: PrimitiveValue): any {
+            if (value instanceof Date)
+                return value.getTime();
+
+            return value;
+        }
+    }
+
+    function getValueKey(value: PrimitiveValue): string {
+        if (value == null)
+            return '\u0000';
+
+        if (value instanceof Date)
+            return 'd' + value.getTime();
+
+        return typeof value + ':' + value;
+    }
+
+    /** Determines whether an expression must be evaluated over a group of rows rather than a single row. */
+    class LocalAggregateDetector extends DefaultSQExprVisitor<boolean> {
+        private static instance: LocalAggregateDetector = new LocalAggregateDetector();
+
+        public static run(expr: SQExpr): boolean {
+            return expr.accept(LocalAggregateDetector.instance);
+        }
+
+        public visitAggr(expr: SQAggregationExpr): boolean {
+            return true;
+        }
+
+        public visitPercentile(expr: SQPercentileExpr): boolean {
+            return true;
+        }
+
+        public visitMeasureRef(expr: SQMeasureRefExpr): boolean {
+            return true;
+        }
+
+        public visitScopedEval(expr: SQScopedEvalExpr): boolean {
+            return true;
+        }
+
+        public visitArithmetic(expr: SQArithmeticExpr): boolean {
+            return expr.left.accept(this) || expr.right.accept(this);
+        }
+
+        public visitDefault(expr: SQExpr): boolean {
+            return false;
+        }
+    }
+
+    class LocalValueTypeInferrer extends DefaultSQExprVisitor<ValueType> {
+        private schema: FederatedConceptualSchema;
+
+        constructor(schema: FederatedConceptualSchema) {
+            super();
+            this.schema = schema;
+        }
+
+        public visitConstant(expr: SQConstantExpr): ValueType {
+            return expr.type;
+        }
+
+        public visitAggr(expr: SQAggregationExpr): ValueType {
+            switch (expr.func) {
+                case QueryAggregateFunction.Count:
+                case QueryAggregateFunction.CountNonNull:
+                    return ValueType.fromExtendedType(ExtendedType.Integer);
+                case QueryAggregateFunction.Avg:
+                case QueryAggregateFunction.StandardDeviation:
+                case QueryAggregateFunction.Variance:
+                    return ValueType.fromExtendedType(ExtendedType.Double);
+            }
+
+            let metadata = expr.arg.getMetadata(this.schema);
+            return metadata ? metadata.type : expr.arg.accept(this);
+        }
+
+        public visitArithmetic(expr: SQArithmeticExpr): ValueType {
+            return ValueType.fromExtendedType(ExtendedType.Double);
+        }
+
+        public visitScopedEval(expr: SQScopedEvalExpr): ValueType {
+            let metadata = expr.expression.getMetadata(this.schema);
+            return metadata ? metadata.type : expr.expression.accept(this);
+        }
+
+        public visitDateAdd(expr: SQDateAddExpr): ValueType {
+            return ValueType.fromExtendedType(ExtendedType.DateTime);
+        }
+
+        public visitDateSpan(expr: SQDateSpanExpr): ValueType {
+            return ValueType.fromExtendedType(ExtendedType.DateTime);
+        }
+
+        public visitNow(expr: SQNowExpr): ValueType {
+            return ValueType.fromExtendedType(ExtendedType.DateTime);
+        }
+
+        public visitDefault(expr: SQExpr): ValueType {
+            return;
+        }
+    }
+
+    /** Evaluates an expression against a single joined row. */
+    class LocalRowEvaluator extends DefaultSQExprVisitorWithArg<any, LocalJoinedRow> {
+        private schema: FederatedConceptualSchema;
+
+        constructor(schema: FederatedConceptualSchema) {
+            super();
+            this.schema = schema;
+        }
+
+        public visitColumnRef(expr: SQColumnRefExpr, row: LocalJoinedRow): PrimitiveValue {
+            return this.getPropertyValue(expr.source, expr.ref, row);
+        }
+
+        public visitHierarchyLevel(expr: SQHierarchyLevelExpr, row: LocalJoinedRow): PrimitiveValue {
+            let hierarchyExpr = <SQHierarchyExpr>expr.arg;
+            if (SQExpr.isHierarchy(hierarchyExpr) && SQExpr.isEntity(hierarchyExpr.arg)) {
+                let entityExpr = <SQEntityExpr>hierarchyExpr.arg;
+                let conceptualSchema = this.schema.schema(entityExpr.schema);
+                let hierarchy = conceptualSchema && conceptualSchema.findHierarchy(entityExpr.entity, hierarchyExpr.hierarchy);
+                let level = hierarchy && hierarchy.levels.withName(expr.level);
+                if (level && level.column)
+                    return this.getPropertyValue(entityExpr, level.column.name, row);
+            }
+
+            return this.visitDefault(expr, row);
+        }
+
+        public visitConstant(expr: SQConstantExpr, row: LocalJoinedRow): PrimitiveValue {
+            return expr.value;
+        }
+
+        public visitNow(expr: SQNowExpr, row: LocalJoinedRow): PrimitiveValue {
+            return new Date();
+        }
+
+        public visitDateAdd(expr: SQDateAddExpr, row: LocalJoinedRow): PrimitiveValue {
+            let value = expr.arg.accept(this, row);
+            if (!(value instanceof Date))
+                return null;
+
+            let result = new Date(value.getTime());
+            let amount = expr.amount;
+            switch (expr.unit) {
+                case TimeUnit.Second:
+                    result.setSeconds(result.getSeconds() + amount);
+                    break;
+                case TimeUnit.Minute:
+                    result.setMinutes(result.getMinutes() + amount);
+                    break;
+                case TimeUnit.Hour:
+                    result.setHours(result.getHours() + amount);
+                    break;
+                case TimeUnit.Day:
+                    result.setDate(result.getDate() + amount);
+                    break;
+                case TimeUnit.Week:
+                    result.setDate(result.getDate() + amount * 7);
+                    break;
+                case TimeUnit.Month:
+                    result.setMonth(result.getMonth() + amount);
+                    break;
+                case TimeUnit.Year:
+                    result.setFullYear(result.getFullYear() + amount);
+                    break;
+                case TimeUnit.Decade:
+                    result.setFullYear(result.getFullYear() + amount * 10);
+                    break;
+            }
+
+            return result;
+        }
+
+        public visitDateSpan(expr: SQDateSpanExpr, row: LocalJoinedRow): PrimitiveValue {
+            let value = expr.arg.accept(this, row);
+            if (!(value instanceof Date))
+                return null;
+
+            let result = new Date(value.getTime());
+            switch (expr.unit) {
+                case TimeUnit.Decade:
+                    result.setFullYear(result.getFullYear() - result.getFullYear() % 10, 0, 1);
+                    result.setHours(0, 0, 0, 0);
+                    break;
+                case TimeUnit.Year:
+                    result.setMonth(0, 1);
+                    result.setHours(0, 0, 0, 0);
+                    break;
+                case TimeUnit.Month:
+                    result.setDate(1);
+                    result.setHours(0, 0, 0, 0);
+                    break;
+                case TimeUnit.Week:
+                    result.setDate(result.getDate() - result.getDay());
+                    result.setHours(0, 0, 0, 0);
+                    break;
+                case TimeUnit.Day:
+                    result.setHours(0, 0, 0, 0);
+                    break;
+                case TimeUnit.Hour:
+                    result.setMinutes(0, 0, 0);
+                    break;
+                case TimeUnit.Minute:
+                    result.setSeconds(0, 0);
+                    break;
+                case TimeUnit.Second:
+                    result.setMilliseconds(0);
+                    break;
+            }
+
+            return result;
+        }
+
+        public visitArithmetic(expr: SQArithmeticExpr, row: LocalJoinedRow): PrimitiveValue {
+            return evaluateArithmetic(expr.operator, expr.left.accept(this, row), expr.right.accept(this, row));
+        }
+
+        public visitAnd(expr: SQAndExpr, row: LocalJoinedRow): boolean {
+            return expr.left.accept(this, row) === true && expr.right.accept(this, row) === true;
+        }
+
+        public visitOr(expr: SQOrExpr, row: LocalJoinedRow): boolean {
+            return expr.left.accept(this, row) === true || expr.right.accept(this, row) === true;
+        }
+
+        public visitNot(expr: SQNotExpr, row: LocalJoinedRow): boolean {
+            return expr.arg.accept(this, row) !== true;
+        }
+
+        public visitExists(expr: SQExistsExpr, row: LocalJoinedRow): boolean {
+            return true;
+        }
+
+        public visitCompare(expr: SQCompareExpr, row: LocalJoinedRow): boolean {
+            if (isWildcard(expr.right) || isWildcard(expr.left))
+                return true;
+
+            let left = expr.left.accept(this, row),
+                right = expr.right.accept(this, row);
+
+            if (expr.comparison === QueryComparisonKind.Equal)
+                return LocalValueComparer.equals(left, right);
+
+            // Ordering comparisons against null are never satisfied, matching the service semantics.
+            if (left == null || right == null)
+                return false;
+
+            let result = LocalValueComparer.compare(left, right);
+            switch (expr.comparison) {
+                case QueryComparisonKind.GreaterThan:
+                    return result > 0;
+                case QueryComparisonKind.GreaterThanOrEqual:
+                    return result >= 0;
+                case QueryComparisonKind.LessThan:
+                    return result < 0;
+                case QueryComparisonKind.LessThanOrEqual:
+                    return result <= 0;
+            }
+
+            throw new Error('Unexpected QueryComparisonKind: ' + expr.comparison);
+        }
+
+        public visitBetween(expr: SQBetweenExpr, row: LocalJoinedRow): boolean {
+            let value = expr.arg.accept(this, row),
+                lower = expr.lower.accept(this, row),
+                upper = expr.upper.accept(this, row);
+
+            if (value == null || lower == null || upper == null)
+                return false;
+
+            return LocalValueComparer.compare(value, lower) >= 0 && LocalValueComparer.compare(value, upper) <= 0;
+        }
+
+        public visitIn(expr: SQInExpr, row: LocalJoinedRow): boolean {
+            let args = _.map(expr.args, (arg) => arg.accept(this, row));
+            return _.some(expr.values, (tuple) => {
+                for (let i = 0, len = args.length; i < len; i++) {
+                    if (!isWildcard(tuple[i]) && !LocalValueComparer.equals(args[i], tuple[i].accept(this, row)))
+                        return false;
+                }
+
+                return true;
+            });
+        }
+
+        public visitContains(expr: SQContainsExpr, row: LocalJoinedRow): boolean {
+            let left = expr.left.accept(this, row),
+                right = expr.right.accept(this, row);
+            if (left == null || right == null)
+                return false;
+
+            return String(left).toLowerCase().indexOf(String(right).toLowerCase()) >= 0;
+        }
+
+        public visitStartsWith(expr: SQStartsWithExpr, row: LocalJoinedRow): boolean {
+            let left = expr.left.accept(this, row),
+                right = expr.right.accept(this, row);
+            if (left == null || right == null)
+                return false;
+
+            return String(left).toLowerCase().indexOf(String(right).toLowerCase()) === 0;
+        }
+
+        public visitDefault(expr: SQExpr, row: LocalJoinedRow): any {
+            throw new Error('Expression of kind ' + expr.kind + ' cannot be evaluated by the local query engine.');
+        }
+
+        private getPropertyValue(source: SQExpr, propertyName: string, row: LocalJoinedRow): PrimitiveValue {
+            if (!SQExpr.isEntity(source))
+                return this.visitDefault(source, row);
+
+            let entity = (<SQEntityExpr>source).entity;
+            let entityRow = row[entity];
+            if (entityRow === undefined)
+                throw new Error('Entity ' + entity + ' is not reachable from the query sources.');
+
+            if (!entityRow)
+                return null;
+
+            let value = entityRow[propertyName];
+            return value === undefined ? null : value;
+        }
+    }
+
+    /** Evaluates an expression against a group of joined rows. */
+    class LocalGroupEvaluator extends DefaultSQExprVisitorWithArg<any, LocalGroupContext> {
+        private rowEvaluator: LocalRowEvaluator;
+        private measures: _.Dictionary<_.Dictionary<SQExpr>>;
+
+        constructor(rowEvaluator: LocalRowEvaluator, measures: _.Dictionary<_.Dictionary<SQExpr>>) {
+            super();
+            this.rowEvaluator = rowEvaluator;
+            this.measures = measures;
+        }
+
+        public evaluate(expr: SQExpr, context: LocalGroupContext): PrimitiveValue {
+            return expr.accept(this, context);
+        }
+
+        public visitAggr(expr: SQAggregationExpr, context: LocalGroupContext): PrimitiveValue {
+            let func = expr.func;
+
+            // Aggregating an entity counts its rows.
+            let arg = expr.arg;
+            if (SQExpr.isEntity(arg)) {
+                let entity = arg.entity;
+                return _.filter(context.rows, (row) => !!row[entity]).length;
+            }
+
+            let values = _.map(context.rows, (row) => <PrimitiveValue>expr.arg.accept(this.rowEvaluator, row));
+            let nonNullValues = _.filter(values, (value) => value != null);
+
+            switch (func) {
+                case QueryAggregateFunction.Count:
+                    return _.uniq(_.map(nonNullValues, getValueKey)).length;
+                case QueryAggregateFunction.CountNonNull:
+                    return nonNullValues.length;
+                case QueryAggregateFunction.Min:
+                    return extremum(nonNullValues, -1);
+                case QueryAggregateFunction.Max:
+                    return extremum(nonNullValues, 1);
+            }
+
+            let numbers = <number[]>_.filter(nonNullValues, _.isNumber);
+            if (_.isEmpty(numbers))
+                return null;
+
+            switch (func) {
+                case QueryAggregateFunction.Sum:
+                    return sum(numbers);
+                case QueryAggregateFunction.Avg:
+                    return sum(numbers) / numbers.length;
+                case QueryAggregateFunction.Median:
+                    return percentile(numbers, 0.5, /*exclusive*/ false);
+                case QueryAggregateFunction.Variance:
+                    return variance(numbers);
+                case QueryAggregateFunction.StandardDeviation: {
+                    let result = variance(numbers);
+                    return result == null ? null : Math.sqrt(result);
+                }
+            }
+
+            throw new Error('Unexpected QueryAggregateFunction: ' + func);
+        }
+
+        public visitPercentile(expr: SQPercentileExpr, context: LocalGroupContext): PrimitiveValue {
+            let numbers = <number[]>_.filter(_.map(context.rows, (row) => expr.arg.accept(this.rowEvaluator, row)), _.isNumber);
+            if (_.isEmpty(numbers))
+                return null;
+
+            return percentile(numbers, expr.k, expr.exclusive);
+        }
+
+        public visitMeasureRef(expr: SQMeasureRefExpr, context: LocalGroupContext): PrimitiveValue {
+            let source = expr.source;
+            let entityMeasures = SQExpr.isEntity(source) ? this.measures[(<SQEntityExpr>source).entity] : null;
+            let measureExpr = entityMeasures && entityMeasures[expr.ref];
+            if (!measureExpr)
+                throw new Error('No expression was provided for measure ' + expr.ref + '.');
+
+            return measureExpr.accept(this, context);
+        }
+
+        public visitScopedEval(expr: SQScopedEvalExpr, context: LocalGroupContext): PrimitiveValue {
+            let scopeRows = context.allRows;
+            let groupRow = _.first(context.rows);
+            if (!_.isEmpty(expr.scope) && groupRow) {
+                let scopeValues = _.map(expr.scope, (scopeExpr) => scopeExpr.accept(this.rowEvaluator, groupRow));
+                scopeRows = _.filter(scopeRows, (row) => _.every(expr.scope, (scopeExpr, index) =>
+                    LocalValueComparer.equals(scopeExpr.accept(this.rowEvaluator, row), scopeValues[index])));
+            }
+
+            return expr.expression.accept(this, { rows: scopeRows, allRows: context.allRows });
+        }
+
+        public visitArithmetic(expr: SQArithmeticExpr, context: LocalGroupContext): PrimitiveValue {
+            return evaluateArithmetic(expr.operator, expr.left.accept(this, context), expr.right.accept(this, context));
+        }
+
+        public visitDefault(expr: SQExpr, context: LocalGroupContext): PrimitiveValue {
+            // Non-aggregated expressions evaluate to the value they share across the rows of the group.
+            let firstRow = _.first(context.rows);
+            return firstRow ? expr.accept(this.rowEvaluator, firstRow) : null;
+        }
+    }
+
+    function isWildcard(expr: SQExpr): boolean {
+        return SQExprUtils.isAnyValue(expr) || SQExprUtils.isDefaultValue(expr);
+    }
+
+    function evaluateArithmetic(operator: ArithmeticOperatorKind, left: PrimitiveValue, right: PrimitiveValue): PrimitiveValue {
+        if (!_.isNumber(left) || !_.isNumber(right))
+            return null;
+
+        let leftNumber = <number>left,
+            rightNumber = <number>right;
+        switch (operator) {
+            case ArithmeticOperatorKind.Add:
+                return leftNumber + rightNumber;
+            case ArithmeticOperatorKind.Subtract:
+                return leftNumber - rightNumber;
+            case ArithmeticOperatorKind.Multiply:
+                return leftNumber * rightNumber;
+            case ArithmeticOperatorKind.Divide:
+                return rightNumber === 0 ? null : leftNumber / rightNumber;
+        }
+
+        throw new Error('Unexpected ArithmeticOperatorKind: ' + operator);
+    }
+
+    function sum(values: number[]): number {
+        let result = 0;
+        for (let value of values)
+            result += value;
+
+        return result;
+    }
+
+    function extremum(values: PrimitiveValue[], direction: number): PrimitiveValue {
+        let result: PrimitiveValue = null;
+        for (let value of values) {
+            if (result == null || LocalValueComparer.compare(value, result) * direction > 0)
+                result = value;
+        }
+
+        return result;
+    }
+
+    /** Computes the sample variance, which is undefined for fewer than two values. */
+    function variance(values: number[]): number {
+        let count = values.length;
+        if (count < 2)
+            return null;
+
+        let mean = sum(values) / count;
+        let squaredDeviations = 0;
+        for (let value of values)
+            squaredDeviations += (value - mean) * (value - mean);
+
+        return squaredDeviations / (count - 1);
+    }
+
+    /** Computes the k-th percentile using linear interpolation between closest ranks (PERCENTILE.INC/PERCENTILE.EXC). */
+    function percentile(values: number[], k: number, exclusive: boolean): number {
+        let sorted = ArrayExtensions.copy(values).sort((x, y) => x - y);
+        let count = sorted.length;
+
+        let rank = exclusive ? k * (count + 1) - 1 : k * (count - 1);
+        if (rank < 0 || rank > count - 1)
+            return exclusive ? null : sorted[rank < 0 ? 0 : count - 1];
+
+        let lowerIndex = Math.floor(rank);
+        let fraction = rank - lowerIndex;
+        if (fraction === 0)
+            return sorted[lowerIndex];
+
+        return sorted[lowerIndex] + fraction * (sorted[lowerIndex + 1] - sorted[lowerIndex]);
+    }
+}
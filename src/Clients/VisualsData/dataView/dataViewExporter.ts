@@ -0,0 +1,333 @@
+/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved. 
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *   
+ *  The above copyright notice and this permission notice shall be included in 
+ *  all copies or substantial portions of the Software.
+ *   
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR 
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, 
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE 
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER 
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+/// <reference path="../_references.ts"/>
+
+module powerbi.data {
+    import valueFormatter = powerbi.visuals.valueFormatter;
+
+    export interface DataViewExportOptions {
+        /** The label of the total rows and columns. Defaults to 'Total'. */
+        totalLabel?: string;
+
+        /** The name of the worksheet, for SpreadsheetML. Defaults to 'Data'. */
+        sheetName?: string;
+    }
+
+    export interface DataViewExportCell {
+        value: PrimitiveValue;
+        format?: string;
+    }
+
+    /** A DataView flattened to a grid: header rows of text, followed by rows of values. */
+    export interface DataViewExportTable {
+        headerRows: string[][];
+        rows: DataViewExportCell[][];
+    }
+
+    /**
+     * Exports the data behind a visual, flattening categorical, table and matrix DataViews into CSV or
+     * SpreadsheetML (the XML format opened by Excel).
+     */
+    export module DataViewExporter {
+        const defaultTotalLabel = 'Total';
+        const defaultSheetName = 'Data';
+        const headerStyleId = 'header';
+        const csvLineSeparator = '\r\n';
+
+        export function exportData(dataView: DataView, format: DataExportFormat, options?: DataViewExportOptions): string {
+            debug.assertValue(dataView, 'dataView');
+
+            switch (format) {
+                case DataExportFormat.Csv:
+                    return toCsv(dataView, options);
+                case DataExportFormat.SpreadsheetML:
+                    return toSpreadsheetML(dataView, options);
+            }
+
+            debug.assertFail('Unexpected export format: ' + format);
+        }
+
+        export function getMimeType(format: DataExportFormat): string {
+            return format === DataExportFormat.SpreadsheetML ? 'application/vnd.ms-excel' : 'text/csv';
+        }
+
+        export function getFileExtension(format: DataExportFormat): string {
+            return format === DataExportFormat.SpreadsheetML ? '.xml' : '.csv';
+        }
+
+        export function toCsv(dataView: DataView, options?: DataViewExportOptions): string {
+            let table = flatten(dataView, options);
+
+            let lines = _.map(table.headerRows, (row) => _.map(row, escapeCsv).join(','));
+            for (let row of table.rows)
+                lines.push(_.map(row, (cell) => escapeCsv(formatCell(cell))).join(','));
+
+            return lines.join(csvLineSeparator);
+        }
+
+        /**
+         * Numbers are written as numeric cells with the format string of their column, so that the exact values
+         * can be used in formulas; the other values are written as formatted text.
+         */
+        export function toSpreadsheetML(dataView: DataView, options?: DataViewExportOptions): string {
+            let table = flatten(dataView, options);
+            let sheetName = options && options.sheetName ? options.sheetName : defaultSheetName;
+
+            let styleIds: _.Dictionary<string> = {};
+            let styles = ['<Style ss:ID="' + headerStyleId + '"><Font ss:Bold="1"/></Style>'];
+            let getStyleId = (format: string) => {
+                if (!styleIds[format]) {
+                    styleIds[format] = 's' + styles.length;
+                    styles.push('<Style ss:ID="' + styleIds[format] + '"><NumberFormat ss:Format="' + escapeXml(format) + '"/></Style>');
+                }
+                return styleIds[format];
+            };
+
+            let rows: string[] = [];
+            for (let headerRow of table.headerRows) {
+                let cells = _.map(headerRow, (text) => createSpreadsheetCell('String', text, headerStyleId));
+                rows.push('<Row>' + cells.join('') + '</Row>');
+            }
+
+            for (let row of table.rows) {
+                let cells = _.map(row, (cell) => {
+                    let value = cell.value;
+                    if (typeof value === 'number' && isFinite(<number>value))
+                        return createSpreadsheetCell('Number', value.toString(), cell.format ? getStyleId(cell.format) : undefined);
+                    if (typeof value === 'boolean')
+                        return createSpreadsheetCell('Boolean', value ? '1' : '0');
+                    return createSpreadsheetCell('String', formatCell(cell));
+                });
+                rows.push('<Row>' + cells.join('') + '</Row>');
+            }
+
+            return '<?xml version="1.0"?>' +
+                '<?mso-application progid="Excel.Sheet"?>' +
+                '<Workbook xmlns="urn:schemas-microsoft-com:office:spreadsheet" xmlns:ss="urn:schemas-microsoft-com:office:spreadsheet">' +
+                '<Styles>' + styles.join('') + '</Styles>' +
+                '<Worksheet ss:Name="' + escapeXml(sheetName) + '">' +
+                '<Table>' + rows.join('') + '</Table>' +
+                '</Worksheet>' +
+                '</Workbook>';
+        }
+
+        /**
+         * Flattens the DataView into a grid, preferring the matrix, then the table, then the categorical shape.
+         */
+        export function flatten(dataView: DataView, options?: DataViewExportOptions): DataViewExportTable {
+            debug.assertValue(dataView, 'dataView');
+
+            let totalLabel = options && options.totalLabel ? options.totalLabel : defaultTotalLabel;
+
+            if (dataView.matrix)
+                return flattenMatrix(dataView.matrix, totalLabel);
+            if (dataView.table)
+                return flattenTable(dataView.table, totalLabel);
+            if (dataView.categorical)
+                return flattenCategorical(dataView.categorical);
+
+            return { headerRows: [], rows: [] };
+        }
+
+        function flattenCategorical(categorical: DataViewCategorical): DataViewExportTable {
+            let categories = categorical.categories || [];
+            let values = categorical.values || <DataViewValueColumns>[];
+
+            let rowCount = 0;
+            if (!_.isEmpty(categories))
+                rowCount = categories[0].values.length;
+            else if (!_.isEmpty(values))
+                rowCount = values[0].values.length;
+
+            let headerRows: string[][] = [];
+
+            // Series grouped values get a header row with the series of each column
+            if (_.any(values, (column) => column.source.groupName !== undefined)) {
+                let seriesFormat = values.source ? values.source.format : undefined;
+                headerRows.push(_.map(categories, (category) => '').concat(
+                    _.map(values, (column) => formatCell({ value: column.source.groupName, format: seriesFormat }))));
+            }
+
+            headerRows.push(_.map(categories, (category) => category.source.displayName).concat(
+                _.map(values, (column) => column.source.displayName)));
+
+            let rows: DataViewExportCell[][] = [];
+            for (let i = 0; i < rowCount; i++) {
+                let row = _.map(categories, (category) => createCell(category.values[i], category.source));
+                for (let column of values)
+                    row.push(createCell(column.values[i], column.source));
+                rows.push(row);
+            }
+
+            return { headerRows: headerRows, rows: rows };
+        }
+
+        function flattenTable(table: DataViewTable, totalLabel: string): DataViewExportTable {
+            let columns = table.columns || [];
+
+            let rows = _.map(table.rows || [], (row) => _.map(columns, (column, index) => createCell(row[index], column)));
+
+            if (table.totals) {
+                let totals = _.map(columns, (column, index) => createCell(table.totals[index], column));
+                if (!_.isEmpty(totals) && totals[0].value == null)
+                    totals[0] = { value: totalLabel };
+                rows.push(totals);
+            }
+
+            return {
+                headerRows: [_.map(columns, (column) => column.displayName)],
+                rows: rows,
+            };
+        }
+
+        /**
+         * Each row of the output is a leaf of the row hierarchy, repeating the values of its parent groups,
+         * and each value column is a leaf of the column hierarchy, with one header row per column level.
+         */
+        function flattenMatrix(matrix: DataViewMatrix, totalLabel: string): DataViewExportTable {
+            let rowLevels = matrix.rows && matrix.rows.levels ? matrix.rows.levels : [];
+            let columnLevels = matrix.columns && matrix.columns.levels ? matrix.columns.levels : [];
+            let valueSources = matrix.valueSources || [];
+
+            let rowPaths = getLeafPaths(matrix.rows);
+            let columnPaths = getLeafPaths(matrix.columns);
+
+            let headerRows: string[][] = [];
+            let headerRowCount = Math.max(columnLevels.length, 1);
+            for (let headerRowIndex = 0; headerRowIndex < headerRowCount; headerRowIndex++) {
+                let isLastHeaderRow = headerRowIndex === headerRowCount - 1;
+
+                let headerRow = _.map(rowLevels, (level) => isLastHeaderRow ? _.map(level.sources, (source) => source.displayName).join(' ') : '');
+                columnPaths.forEach((path, columnIndex) => {
+                    if (_.isEmpty(columnLevels))
+                        headerRow.push(valueSources[columnIndex] ? valueSources[columnIndex].displayName : '');
+                    else
+                        headerRow.push(formatCell(getHeaderCell(path, headerRowIndex, columnLevels, totalLabel)));
+                });
+
+                headerRows.push(headerRow);
+            }
+
+            let rows = _.map(rowPaths, (path) => {
+                let row = _.map(rowLevels, (level, levelIndex) => getHeaderCell(path, levelIndex, rowLevels, totalLabel));
+
+                let leaf = _.last(path) || matrix.rows.root;
+                columnPaths.forEach((columnPath, columnIndex) => {
+                    let value = leaf.values ? leaf.values[columnIndex] : undefined;
+                    let source = value ? valueSources[value.valueSourceIndex || 0] : undefined;
+                    row.push(createCell(value ? value.value : undefined, source));
+                });
+
+                return row;
+            });
+
+            return { headerRows: headerRows, rows: rows };
+        }
+
+        /**
+         * Gets the paths from the children of the root down to each leaf of the hierarchy; the path of a
+         * hierarchy without levels is empty.
+         */
+        function getLeafPaths(hierarchy: DataViewHierarchy): DataViewMatrixNode[][] {
+            let paths: DataViewMatrixNode[][] = [];
+            if (hierarchy && hierarchy.root) {
+                DataViewMatrixUtils.forEachLeafNode(hierarchy.root, (leaf, index, traversalPath) => {
+                    paths.push(traversalPath.slice(1));
+                });
+            }
+
+            return paths;
+        }
+
+        /**
+         * Gets the cell of a hierarchy level for the path to a leaf: the group value, the total label for
+         * a subtotal node, or an empty cell below a subtotal.  The children of a subtotal node may skip
+         * levels, so the nodes are matched to the levels by their level rather than by their depth.
+         */
+        function getHeaderCell(path: DataViewMatrixNode[], levelIndex: number, levels: DataViewHierarchyLevel[], totalLabel: string): DataViewExportCell {
+            let node = _.find(path, (node, depth) => (node.level != null ? node.level : depth) === levelIndex);
+            if (!node)
+                return { value: undefined };
+
+            if (node.isSubtotal)
+                return { value: totalLabel };
+
+            let sources = levels[levelIndex].sources;
+            if (!_.isEmpty(node.levelValues)) {
+                if (node.levelValues.length === 1)
+                    return createCell(node.levelValues[0].value, sources[node.levelValues[0].levelSourceIndex || 0]);
+
+                return {
+                    value: _.map(node.levelValues, (levelValue) => formatCell(createCell(levelValue.value, sources[levelValue.levelSourceIndex || 0]))).join(' '),
+                };
+            }
+
+            // Nodes of the level of the measures only identify their value source
+            if (node.value === undefined) {
+                let source = sources[node.levelSourceIndex || 0];
+                return { value: source ? source.displayName : undefined };
+            }
+
+            return createCell(node.value, sources[node.levelSourceIndex || 0]);
+        }
+
+        function createCell(value: PrimitiveValue, source: DataViewMetadataColumn): DataViewExportCell {
+            return {
+                value: value,
+                format: source ? source.format : undefined,
+            };
+        }
+
+        function formatCell(cell: DataViewExportCell): string {
+            if (cell.value == null)
+                return '';
+
+            return valueFormatter.format(cell.value, cell.format);
+        }
+
+        function escapeCsv(text: string): string {
+            if (/[",\r\n]/.test(text))
+                return '"' + text.replace(/"/g, '""') + '"';
+
+            return text;
+        }
+
+        function escapeXml(text: string): string {
+            return text
+                .replace(/&/g, '&amp;')
+                .replace(/</g, '&lt;')
+                .replace(/>/g, '&gt;')
+                .replace(/"/g, '&quot;')
+                .replace(/\r?\n/g, '&#10;');
+        }
+
+        function createSpreadsheetCell(type: string, data: string, styleId?: string): string {
+            let style = styleId ? ' ss:StyleID="' + styleId + '"' : '';
+            return '<Cell' + style + '><Data ss:Type="' + type + '">' + escapeXml(data) + '</Data></Cell>';
+        }
+    }
+}
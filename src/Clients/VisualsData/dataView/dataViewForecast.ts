@@ -0,0 +1,686 @@
+/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved. 
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *   
+ *  The above copyright notice and this permission notice shall be included in 
+ *  all copies or substantial portions of the Software.
+ *   
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR 
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, 
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE 
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER 
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+/// <reference path="../_references.ts"/>
+
+module powerbi.data {
+    import DataViewMapping = powerbi.DataViewMapping;
+
+    export interface DataViewForecastRunOptions {
+        visualDataViews: DataView[];
+        dataRoles: VisualDataRole[];
+        objectDescriptors: DataViewObjectDescriptors;
+        objectDefinitions: DataViewObjectDefinitions;
+        colorAllocatorFactory: IColorAllocatorFactory;
+        applicableDataViewMappings: DataViewMapping[];
+    }
+
+    export interface ForecastOptions {
+        /** The number of points to forecast past the last data point. */
+        forecastLength: number;
+
+        /** The confidence level of the forecast interval, between 0 and 1 (e.g., 0.95). */
+        confidenceLevel: number;
+
+        /** The number of points in a seasonal cycle.  Detected from the data when not specified; 1 disables seasonality. */
+        seasonality?: number;
+    }
+
+    export interface ForecastResult {
+        values: number[];
+        upperBounds: number[];
+        lowerBounds: number[];
+
+        /** The number of points in the seasonal cycle used by the model, or 1 if the model is not seasonal. */
+        seasonality: number;
+    }
+
+    export module DataViewForecast {
+        const forecastCategoryQueryName: string = 'ForecastCategory';
+        const forecastSeriesQueryName: string = 'ForecastSeries';
+        const forecastValueQueryNames: string[] = ['ForecastValue', 'ConfidenceHighBound', 'ConfidenceLowBound'];
+
+        /** The smallest number of points from which a forecast is computed. */
+        const minimumPointCount = 3;
+
+        /** The candidate values for each smoothing parameter, when fitting a model. */
+        const smoothingParameters: number[] = [0.05, 0.15, 0.25, 0.35, 0.45, 0.55, 0.65, 0.75, 0.85, 0.95];
+
+        /** The default forecast options.  The confidence level is between 0 and 1, as in ForecastOptions. */
+        export const defaults = {
+            forecastLength: 10,
+            confidenceLevel: 0.95,
+        };
+
+        /**
+         * Computes a forecast DataView for each of the visual DataViews, when the applicable mappings include a forecast
+         * mapping whose usage identifies the forecast properties.  Forecasts already computed by the data source are preserved.
+         */
+        export function run(options: DataViewForecastRunOptions): DataView[] {
+            debug.assertValue(options, 'options');
+
+            let visualDataViews = options.visualDataViews;
+            if (_.isEmpty(visualDataViews) || _.isEmpty(options.applicableDataViewMappings) || !options.objectDescriptors || !options.objectDefinitions)
+                return visualDataViews;
+
+            let forecastDataViewMapping: DataViewMapping = _.find(options.applicableDataViewMappings, (dataViewMapping) => {
+                let forecastUsage = DataViewMapping.getForecastUsage(dataViewMapping);
+                return !!(forecastUsage && forecastUsage['show']);
+            });
+            if (!forecastDataViewMapping)
+                return visualDataViews;
+
+            let forecastValueRoles = getForecastValueRoles(forecastDataViewMapping);
+            if (!forecastValueRoles || _.any(visualDataViews, (dataView) => hasRoles(dataView, forecastValueRoles)))
+                return visualDataViews;
+
+            // The trend lines appended by DataViewRegression.run carry the forecast objects too, but are not forecast.
+            let regressionDataViewMapping = _.find(options.applicableDataViewMappings, (dataViewMapping) => !!DataViewMapping.getRegressionUsage(dataViewMapping));
+            let regressionRoles = regressionDataViewMapping && getRegressionRoles(regressionDataViewMapping);
+
+            let forecastDataViews: DataView[] = [];
+            for (let visualDataView of visualDataViews) {
+                if (regressionRoles && hasRoles(visualDataView, regressionRoles))
+                    continue;
+
+                let forecastDataView = forecastTransform(
+                    visualDataView,
+                    options.dataRoles,
+                    forecastDataViewMapping,
+                    options.objectDescriptors,
+                    options.objectDefinitions,
+                    options.colorAllocatorFactory);
+
+                if (forecastDataView)
+                    forecastDataViews.push(forecastDataView);
+            }
+
+            if (!_.isEmpty(forecastDataViews))
+                visualDataViews.push(...forecastDataViews);
+
+            return visualDataViews;
+        }
+
+        /**
+         * Computes the forecast of each series in the sourceDataView and creates a new DataView with the forecast values
+         * and confidence bounds.  It works on scalar (numeric or date time) X axes only.
+         * The algorithm is as follows
+         *
+         * 1. Find the cartesian X and Y columns, and read the forecast options from the forecast object.
+         * 2. Get the data points, (X, Y) pairs, for each series, sorted by X.
+         * 3. Fit an exponential smoothing model to each series and compute the forecast.
+         * If highlights values are present, repeat steps 2 & 3 using highlight values.
+         * 4. Create the new dataView, starting at the last X value so that the forecast connects to the data.
+         */
+        export function forecastTransform(
+            sourceDataView: DataView,
+            dataRoles: VisualDataRole[],
+            forecastDataViewMapping: DataViewMapping,
+            objectDescriptors: DataViewObjectDescriptors,
+            objectDefinitions: DataViewObjectDefinitions,
+            colorAllocatorFactory: IColorAllocatorFactory): DataView {
+            debug.assertValue(sourceDataView, 'sourceDataView');
+            debug.assertValue(dataRoles, 'dataRoles');
+            debug.assertValue(forecastDataViewMapping, 'forecastDataViewMapping');
+            debug.assertValue(objectDescriptors, 'objectDescriptors');
+            debug.assertValue(objectDefinitions, 'objectDefinitions');
+            debug.assertValue(colorAllocatorFactory, 'colorAllocatorFactory');
+
+            let categorical = sourceDataView.categorical;
+            if (!categorical || _.isEmpty(categorical.categories) || !categorical.values)
+                return;
+
+            // Step 1
+            let forecastOptions = getForecastOptions(sourceDataView, DataViewMapping.getForecastUsage(forecastDataViewMapping));
+            if (!forecastOptions)
+                return;
+
+            let xColumn = categorical.categories[0];
+            let xType = xColumn.source.type;
+            if (!xType || !(xType.numeric || xType.dateTime))
+                return;
+
+            let yColumns = <DataViewValueColumn[]>_.filter(
+                DataViewRegression.getColumnsForCartesianRoleKind(CartesianRoleKind.Y, categorical, dataRoles),
+                (column) => column !== xColumn);
+            if (_.isEmpty(yColumns))
+                return;
+
+            // Step 2
+            let isDateTime = !!xType.dateTime;
+            let dataPointsBySeries = _.map(yColumns, (column) => getDataPoints(xColumn.values, column.values));
+            let xValues = getForecastCategories(dataPointsBySeries, isDateTime, forecastOptions.forecastLength);
+            if (!xValues)
+                return;
+
+            // Step 3
+            let valuesBySeries = _.map(dataPointsBySeries, (dataPoints) => computeSeriesForecast(dataPoints, xValues[0], forecastOptions));
+            if (_.all(valuesBySeries, (values) => !values))
+                return;
+
+            let highlightsBySeries: PrimitiveValue[][][];
+            if (_.any(yColumns, (column) => column.highlights != null)) {
+                highlightsBySeries = _.map(yColumns, (column) => {
+                    let highlightDataPoints = getDataPoints(xColumn.values, column.highlights || column.values);
+                    return computeSeriesForecast(highlightDataPoints, xValues[0], forecastOptions);
+                });
+            }
+
+            // Step 4
+            let groupValues: PrimitiveValue[];
+            if (categorical.values.source) {
+                // Source data view has dynamic series.
+                groupValues = _.map(categorical.values.grouped(), (group) => group.name);
+            }
+            else {
+                // Source data view has static or no series.
+                groupValues = _.map(yColumns, (column) => column.source.queryName);
+            }
+
+            let categories: PrimitiveValue[] = isDateTime ? _.map(xValues, (value) => new Date(value)) : xValues;
+
+            return createForecastDataView(
+                xColumn.source,
+                yColumns[0].source,
+                groupValues,
+                categories,
+                valuesBySeries,
+                highlightsBySeries,
+                forecastDataViewMapping,
+                objectDescriptors,
+                objectDefinitions,
+                colorAllocatorFactory);
+        }
+
+        /**
+         * Forecasts the values following an evenly spaced series, using exponential smoothing with an additive trend
+         * (Holt's linear method) and, when the series is seasonal, additive seasonality (Holt-Winters).
+         * The smoothing parameters are chosen to minimize the sum of squared one-step-ahead errors, and the bounds are the
+         * prediction intervals of the corresponding ETS(A,A,N) and ETS(A,A,A) models.
+         */
+        export function forecast(values: number[], options: ForecastOptions): ForecastResult {
+            debug.assertValue(values, 'values');
+            debug.assertValue(options, 'options');
+
+            let horizon = options.forecastLength;
+            if (values.length < minimumPointCount || !(horizon > 0))
+                return;
+
+            let seasonality = options.seasonality || detectSeasonality(values);
+            if (seasonality < 2 || values.length < seasonality * 2)
+                seasonality = 1;
+
+            let model = fitModel(values, seasonality);
+            let z = normalQuantile(0.5 + options.confidenceLevel / 2);
+
+            let result: ForecastResult = {
+                values: [],
+                upperBounds: [],
+                lowerBounds: [],
+                seasonality: seasonality,
+            };
+
+            let varianceMultiplier = 1;
+            for (let h = 1; h <= horizon; h++) {
+                if (h > 1) {
+                    let j = h - 1;
+                    let c = model.alpha * (1 + j * model.beta) + (j % seasonality === 0 && seasonality > 1 ? model.gamma : 0);
+                    varianceMultiplier += c * c;
+                }
+
+                let value = model.level + h * model.trend + model.seasonals[(values.length - 1 + h) % seasonality];
+                let error = z * model.standardError * Math.sqrt(varianceMultiplier);
+
+                result.values.push(value);
+                result.upperBounds.push(value + error);
+                result.lowerBounds.push(value - error);
+            }
+
+            return result;
+        }
+
+        /**
+         * Detects the length of the seasonal cycle, as the lag of the highest significant peak in the autocorrelation
+         * of the linearly detrended series.  Returns 1 when no seasonality is found.
+         */
+        export function detectSeasonality(values: number[]): number {
+            debug.assertValue(values, 'values');
+
+            let n = values.length;
+            let maxLag = Math.floor(n / 2);
+            if (maxLag < 2)
+                return 1;
+
+            let residuals = detrend(values);
+            let variance = 0;
+            for (let residual of residuals)
+                variance += residual * residual;
+
+            if (!variance)
+                return 1;
+
+            let correlations: number[] = [1];
+            for (let lag = 1; lag <= maxLag; lag++) {
+                let covariance = 0;
+                for (let t = lag; t < n; t++)
+                    covariance += residuals[t] * residuals[t - lag];
+                correlations.push(covariance / variance);
+            }
+
+            // Correlations below this are indistinguishable from noise at roughly 95% confidence.
+            let bestCorrelation = Math.max(0.3, 2 / Math.sqrt(n));
+            let seasonality = 1;
+            for (let lag = 2; lag <= maxLag; lag++) {
+                let correlation = correlations[lag];
+                let isPeak = correlation > correlations[lag - 1] && (lag === maxLag || correlation >= correlations[lag + 1]);
+                if (isPeak && correlation > bestCorrelation) {
+                    bestCorrelation = correlation;
+                    seasonality = lag;
+                }
+            }
+
+            return seasonality;
+        }
+
+        function getForecastValueRoles(forecastDataViewMapping: DataViewMapping): string[] {
+            let grouped = forecastDataViewMapping.categorical && (<DataViewGroupedRoleMapping>forecastDataViewMapping.categorical.values).group;
+            if (!grouped || !grouped.by || !grouped.select || grouped.select.length !== forecastValueQueryNames.length)
+                return;
+
+            return _.map(grouped.select, (select: DataViewRoleMapping) => {
+                return (<DataViewRoleForMapping>select).for ?
+                    (<DataViewRoleForMapping>select).for.in :
+                    (<DataViewRoleBindMapping>select).bind.to;
+            });
+        }
+
+        function getRegressionRoles(regressionDataViewMapping: DataViewMapping): string[] {
+            let categories = regressionDataViewMapping.categorical && <DataViewRoleForMapping>regressionDataViewMapping.categorical.categories;
+            if (!categories || !categories.for)
+                return;
+
+            return [categories.for.in];
+        }
+
+        function hasRoles(dataView: DataView, roles: string[]): boolean {
+            if (!dataView || !dataView.metadata)
+                return false;
+
+            return _.any(dataView.metadata.columns, (column) => column.roles && _.any(roles, (role) => column.roles[role]));
+        }
+
+        function getForecastOptions(dataView: DataView, forecastUsage: _.Dictionary<DataViewObjectPropertyIdentifier>): ForecastOptions {
+            let showPropertyId = forecastUsage['show'];
+            let forecastObjects = dataView.metadata && DataViewObjects.getUserDefinedObjects(dataView.metadata.objects, showPropertyId.objectName);
+            if (!forecastObjects)
+                return;
+
+            let forecastObject = _.find(_.values(forecastObjects), (object) => DataViewObject.getValue<boolean>(object, showPropertyId.propertyName, false));
+            if (!forecastObject)
+                return;
+
+            let getNumber = (propertyName: string, defaultValue: number): number => {
+                let propertyId = forecastUsage[propertyName];
+                if (!propertyId)
+                    return defaultValue;
+
+                let value = DataViewObject.getValue<number>(forecastObject, propertyId.propertyName, defaultValue);
+                return value != null && isFinite(value) ? value : defaultValue;
+            };
+
+            let forecastLength = Math.floor(getNumber('forecastLength', defaults.forecastLength));
+            let confidenceLevel = getNumber('confidenceLevel', defaults.confidenceLevel);
+            if (!(forecastLength > 0) || !(confidenceLevel > 0 && confidenceLevel < 1))
+                return;
+
+            return {
+                forecastLength: forecastLength,
+                confidenceLevel: confidenceLevel,
+                seasonality: Math.floor(getNumber('seasonality', 0)) || undefined,
+            };
+        }
+
+        function getDataPoints(xValues: PrimitiveValue[], yValues: PrimitiveValue[]): DataPoint[] {
+            let dataPoints: DataPoint[] = [];
+            for (let i = 0, len = xValues.length; i < len; i++) {
+                let x = xValues[i];
+                let y = yValues[i];
+                if (x == null || y == null)
+                    continue;
+
+                let xNumber = x instanceof Date ? x.getTime() : <number>x;
+                if (isFinite(xNumber) && isFinite(<number>y))
+                    dataPoints.push({ x: xNumber, y: <number>y });
+            }
+
+            return _.sortBy(dataPoints, (dataPoint) => dataPoint.x);
+        }
+
+        /** Returns the last X value followed by the X values of the forecast, spaced like the data points. */
+        function getForecastCategories(dataPointsBySeries: DataPoint[][], isDateTime: boolean, forecastLength: number): number[] {
+            let xValues = _.chain(dataPointsBySeries)
+                .flatten()
+                .map((dataPoint: DataPoint) => dataPoint.x)
+                .uniq()
+                .sortBy()
+                .value();
+
+            if (xValues.length < minimumPointCount)
+                return;
+
+            let lastX = _.last(xValues);
+            let monthInterval = isDateTime ? getMonthInterval(xValues) : undefined;
+            let interval = getMedianInterval(xValues);
+            if (!monthInterval && !(interval > 0))
+                return;
+
+            let lastDate = new Date(lastX);
+            let categories: number[] = [lastX];
+            for (let i = 1; i <= forecastLength; i++) {
+                if (monthInterval) {
+                    categories.push(new Date(
+                        lastDate.getFullYear(),
+                        lastDate.getMonth() + i * monthInterval,
+                        lastDate.getDate(),
+                        lastDate.getHours(),
+                        lastDate.getMinutes(),
+                        lastDate.getSeconds(),
+                        lastDate.getMilliseconds()).getTime());
+                }
+                else {
+                    categories.push(lastX + i * interval);
+                }
+            }
+
+            return categories;
+        }
+
+        /** Returns the number of months between dates, if the dates are spaced by a whole number of calendar months. */
+        function getMonthInterval(xValues: number[]): number {
+            let monthInterval: number;
+            for (let i = 1, len = xValues.length; i < len; i++) {
+                let previous = new Date(xValues[i - 1]),
+                    current = new Date(xValues[i]);
+
+                if (previous.getDate() !== current.getDate() || previous.getHours() !== current.getHours() || previous.getMinutes() !== current.getMinutes())
+                    return;
+
+                let months = (current.getFullYear() - previous.getFullYear()) * 12 + current.getMonth() - previous.getMonth();
+                if (monthInterval === undefined || months < monthInterval)
+                    monthInterval = months;
+            }
+
+            return monthInterval > 0 ? monthInterval : undefined;
+        }
+
+        function getMedianInterval(xValues: number[]): number {
+            let intervals: number[] = [];
+            for (let i = 1, len = xValues.length; i < len; i++)
+                intervals.push(xValues[i] - xValues[i - 1]);
+
+            intervals.sort((a, b) => a - b);
+            return intervals[Math.floor(intervals.length / 2)];
+        }
+
+        /** Returns the forecast, high bound and low bound values of a series at the forecast categories. */
+        function computeSeriesForecast(dataPoints: DataPoint[], firstX: number, options: ForecastOptions): PrimitiveValue[][] {
+            let result = forecast(_.map(dataPoints, (dataPoint) => dataPoint.y), options);
+            if (!result)
+                return;
+
+            // The first category is the last data point of the source, so that the forecast line connects to the series.
+            let lastDataPoint = _.last(dataPoints);
+            let anchor = lastDataPoint.x === firstX ? lastDataPoint.y : null;
+
+            return [
+                [anchor].concat(result.values),
+                [anchor].concat(result.upperBounds),
+                [anchor].concat(result.lowerBounds),
+            ];
+        }
+
+        function fitModel(values: number[], seasonality: number): SmoothingModel {
+            let gammas = seasonality > 1 ? smoothingParameters : [0];
+
+            let bestModel: SmoothingModel;
+            for (let alpha of smoothingParameters) {
+                for (let beta of smoothingParameters) {
+                    for (let gamma of gammas) {
+                        let model = runModel(values, seasonality, alpha, beta, gamma);
+                        if (!bestModel || model.sse < bestModel.sse)
+                            bestModel = model;
+                    }
+                }
+            }
+
+            return bestModel;
+        }
+
+        function runModel(values: number[], seasonality: number, alpha: number, beta: number, gamma: number): SmoothingModel {
+            let n = values.length;
+            let level: number;
+            let trend: number;
+            let seasonals: number[] = [];
+            let start: number;
+
+            if (seasonality > 1) {
+                // Initialize from the first two cycles: the level at the end of the first cycle, the average change
+                // between the cycles, and the deviation of each point of the first cycle from the trend.
+                let firstMean = _.sum(values.slice(0, seasonality)) / seasonality;
+                let secondMean = _.sum(values.slice(seasonality, seasonality * 2)) / seasonality;
+                let middle = (seasonality - 1) / 2;
+
+                trend = (secondMean - firstMean) / seasonality;
+                level = firstMean + trend * middle;
+                for (let i = 0; i < seasonality; i++)
+                    seasonals.push(values[i] - (firstMean + trend * (i - middle)));
+
+                start = seasonality;
+            }
+            else {
+                level = values[1];
+                trend = values[1] - values[0];
+                seasonals.push(0);
+                start = 2;
+            }
+
+            let sse = 0;
+            for (let t = start; t < n; t++) {
+                let seasonalIndex = t % seasonality;
+                let seasonal = seasonals[seasonalIndex];
+                let error = values[t] - (level + trend + seasonal);
+                sse += error * error;
+
+                let previousLevel = level;
+                level = alpha * (values[t] - seasonal) + (1 - alpha) * (level + trend);
+                trend = beta * (level - previousLevel) + (1 - beta) * trend;
+                if (seasonality > 1)
+                    seasonals[seasonalIndex] = gamma * (values[t] - level) + (1 - gamma) * seasonal;
+            }
+
+            let parameterCount = seasonality > 1 ? 3 : 2;
+            let degreesOfFreedom = Math.max(1, n - start - parameterCount);
+
+            return {
+                alpha: alpha,
+                beta: beta,
+                gamma: gamma,
+                level: level,
+                trend: trend,
+                seasonals: seasonals,
+                sse: sse,
+                standardError: Math.sqrt(sse / degreesOfFreedom),
+            };
+        }
+
+        /** Returns the residuals of the least squares line through the values. */
+        function detrend(values: number[]): number[] {
+            let n = values.length;
+            let xBar = (n - 1) / 2;
+            let yBar = _.sum(values) / n;
+
+            let ssXX = 0;
+            let ssXY = 0;
+            for (let i = 0; i < n; i++) {
+                ssXX += (i - xBar) * (i - xBar);
+                ssXY += (i - xBar) * (values[i] - yBar);
+            }
+
+            let slope = ssXX ? ssXY / ssXX : 0;
+            return _.map(values, (value, i) => value - (yBar + (i - xBar) * slope));
+        }
+
+        /** Computes the inverse of the standard normal cumulative distribution (Acklam's rational approximation). */
+        function normalQuantile(p: number): number {
+            debug.assert(p > 0 && p < 1, 'p should be between 0 and 1');
+
+            const a = [-3.969683028665376e+01, 2.209460984245205e+02, -2.759285104469687e+02, 1.383577518672690e+02, -3.066479806614716e+01, 2.506628277459239e+00];
+            const b = [-5.447609879822406e+01, 1.615858368580409e+02, -1.556989798598866e+02, 6.680131188771972e+01, -1.328068155288572e+01];
+            const c = [-7.784894002430293e-03, -3.223964580411365e-01, -2.400758277161838e+00, -2.549732539343734e+00, 4.374664141464968e+00, 2.938163982698783e+00];
+            const d = [7.784695709041462e-03, 3.224671290700398e-01, 2.445134137142996e+00, 3.754408661907416e+00];
+            const low = 0.02425;
+
+            if (p < low) {
+                let q = Math.sqrt(-2 * Math.log(p));
+                return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+                    ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+            }
+
+            if (p > 1 - low)
+                return -normalQuantile(1 - p);
+
+            let q = p - 0.5;
+            let r = q * q;
+            return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+                (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+        }
+
+        function createForecastDataView(
+            xColumnSource: DataViewMetadataColumn,
+            yColumnSource: DataViewMetadataColumn,
+            groupValues: PrimitiveValue[],
+            categories: PrimitiveValue[],
+            valuesBySeries: PrimitiveValue[][][],
+            highlightsBySeries: PrimitiveValue[][][],
+            forecastDataViewMapping: DataViewMapping,
+            objectDescriptors: DataViewObjectDescriptors,
+            objectDefinitions: DataViewObjectDefinitions,
+            colorAllocatorFactory: IColorAllocatorFactory): DataView {
+            debug.assertValue(categories, 'categories');
+            debug.assertValue(valuesBySeries, 'valuesBySeries');
+            debug.assert(!highlightsBySeries || highlightsBySeries.length === valuesBySeries.length, 'highlights should have the same length as values');
+
+            let xRole: string = (<DataViewRoleForMapping>forecastDataViewMapping.categorical.categories).for.in;
+            let seriesRole: string = (<DataViewGroupedRoleMapping>forecastDataViewMapping.categorical.values).group.by;
+            let valueRoles = getForecastValueRoles(forecastDataViewMapping);
+
+            let emptyValues = _.map(categories, () => null);
+            let dataBySeries: DataViewBuilderSeriesData[][] = [];
+            for (let i = 0, len = valuesBySeries.length; i < len; i++) {
+                let seriesValues = valuesBySeries[i];
+                let seriesHighlights = highlightsBySeries && highlightsBySeries[i];
+
+                dataBySeries.push(_.map(forecastValueQueryNames, (queryName, valueIndex) => {
+                    let seriesData: DataViewBuilderSeriesData = {
+                        values: seriesValues ? seriesValues[valueIndex] : emptyValues,
+                    };
+
+                    if (highlightsBySeries)
+                        seriesData.highlights = seriesHighlights ? seriesHighlights[valueIndex] : emptyValues;
+
+                    return seriesData;
+                }));
+            }
+
+            let forecastDataView: DataView = createCategoricalDataViewBuilder()
+                .withCategory({
+                    source: {
+                        displayName: xColumnSource.displayName,
+                        queryName: forecastCategoryQueryName,
+                        type: xColumnSource.type,
+                        isMeasure: false,
+                        roles: { [xRole]: true },
+                    },
+                    values: categories,
+                    identityFrom: {
+                        fields: [SQExprBuilder.columnRef(SQExprBuilder.entity('s', 'ForecastEntity'), 'ForecastCategories')],
+                    },
+                })
+                .withGroupedValues({
+                    groupColumn: {
+                        source: {
+                            displayName: yColumnSource.displayName + 'Forecast',
+                            queryName: forecastSeriesQueryName,
+                            type: yColumnSource.type,
+                            isMeasure: yColumnSource.isMeasure,
+                            roles: { [seriesRole]: true },
+                        },
+                        values: groupValues,
+                        identityFrom: {
+                            fields: [SQExprBuilder.columnRef(SQExprBuilder.entity('s', 'ForecastEntity'), 'ForecastSeries')],
+                        },
+                    },
+                    valueColumns: _.map(forecastValueQueryNames, (queryName, index): DataViewBuilderColumnOptions => {
+                        return {
+                            source: {
+                                displayName: yColumnSource.displayName,
+                                queryName: queryName,
+                                type: yColumnSource.type,
+                                isMeasure: true,
+                                roles: { [valueRoles[index]]: true },
+                            },
+                        };
+                    }),
+                    data: dataBySeries,
+                })
+                .build();
+            DataViewTransform.transformObjects(forecastDataView, data.StandardDataViewKinds.Categorical, objectDescriptors, objectDefinitions, [], colorAllocatorFactory);
+            return forecastDataView;
+        }
+    }
+
+    interface DataPoint {
+        x: number;
+        y: number;
+    }
+
+    interface SmoothingModel {
+        alpha: number;
+        beta: number;
+        gamma: number;
+        level: number;
+        trend: number;
+
+        /** The seasonal component of each point in the cycle, indexed by the position of the point modulo the seasonality. */
+        seasonals: number[];
+
+        /** The sum of squared one-step-ahead errors. */
+        sse: number;
+
+        /** The estimated standard deviation of the one-step-ahead errors. */
+        standardError: number;
+    }
+}
@@ -42,6 +42,18 @@ module powerbi {
             return regressionUsage || undefined; 
         }
 
+        /**
+         * Returns dataViewMapping.usage.forecast if defined.  Else, returns undefined.
+         */
+        export function getForecastUsage(dataViewMapping: DataViewMapping): _.Dictionary<DataViewObjectPropertyIdentifier> {
+            let forecastUsage = dataViewMapping &&
+                dataViewMapping.usage &&
+                dataViewMapping.usage.forecast;
+
+            // normalize falsy value to undefined
+            return forecastUsage || undefined;
+        }
+
         /**
          * Returns the role names returned by the specified rolesGetter if they are the same for all specified roleMappings.
          * Else, returns undefined.
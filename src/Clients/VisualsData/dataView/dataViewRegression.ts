@@ -49,6 +49,28 @@ module powerbi.data {
         const regressionSeriesQueryName: string = 'RegressionSeries';
         export const regressionYQueryName: string = 'RegressionY';
 
+        /** The kinds of regression models the transform can fit, selected through the 'regressionType' usage property. */
+        export module RegressionType {
+            export const linear: string = 'linear';
+            export const polynomial: string = 'polynomial';
+            export const exponential: string = 'exponential';
+            export const logarithmic: string = 'logarithmic';
+            export const power: string = 'power';
+            export const movingAverage: string = 'movingAverage';
+        }
+
+        export const defaults = {
+            regressionType: RegressionType.linear,
+            polynomialOrder: 2,
+            movingAveragePeriod: 2,
+        };
+
+        export const minPolynomialOrder: number = 2;
+        export const maxPolynomialOrder: number = 6;
+
+        /** The number of points used to draw the curve of a non-linear model. */
+        const curvePointCount: number = 50;
+
         export function run(options: DataViewRegressionRunOptions): DataView[] {
             debug.assertValue(options, 'options');
 
@@ -89,15 +111,16 @@ module powerbi.data {
         }
 
         /**
-         * This function will compute the linear regression algorithm on the sourceDataView and create a new dataView.
+         * This function will compute the regression algorithm on the sourceDataView and create a new dataView.
          * It works on scalar axis only.
          * The algorithm is as follows
          *
          * 1. Find the cartesian X and Y roles and the columns that correspond to those roles
-         * 2. Get the data points, (X, Y) pairs, for each series, combining if needed.
-         * 3. Compute the X and Y points for regression line using Y = Slope * X + Intercept
+         * 2. Get the data points, (X, Y) pairs, for each series, combining if needed, and fit the requested model to them.
+         * 3. Compute the X and Y points for the regression line. A linear model (Y = Slope * X + Intercept) only needs its two end points,
+         *    the other models are sampled across the X range and a moving average is evaluated at each X value of the data.
          * If highlights values are present, repeat steps 2 & 3 using highlight values.
-         * 4. Create the new dataView using the points computed above
+         * 4. Create the new dataView using the points computed above, recording the fitted model on each series' value column.
          */
         export function linearRegressionTransform(
             sourceDataView: DataView,
@@ -127,17 +150,24 @@ module powerbi.data {
             let yColumnSource = yColumns[0].source;
 
             let combineSeries = true;
+            let modelOptions: RegressionModelOptions = {
+                type: defaults.regressionType,
+                polynomialOrder: defaults.polynomialOrder,
+                movingAveragePeriod: defaults.movingAveragePeriod,
+            };
             let regressionUsage = DataViewMapping.getRegressionUsage(regressionDataViewMapping);
             if (regressionUsage && sourceDataView.metadata.objects) {
                 let combineSeriesPropertyId = regressionUsage['combineSeries'];
                 if (combineSeriesPropertyId) {
                     combineSeries = DataViewObjects.getValue<boolean>(sourceDataView.metadata.objects, combineSeriesPropertyId, true);
                 }
+
+                modelOptions = getRegressionModelOptions(sourceDataView.metadata.objects, regressionUsage);
             }
 
             // Step 2
             let dataPointsBySeries = getDataPointsBySeries(xColumns, yColumns, combineSeries, /* preferHighlights */ false);
-            let lineDefSet = calculateLineDefinitions(dataPointsBySeries);
+            let lineDefSet = calculateLineDefinitions(dataPointsBySeries, modelOptions);
             if (!lineDefSet)
                 return;
 
@@ -148,7 +178,7 @@ module powerbi.data {
             let highlightsLineDefSet: LineDefinitionSet;
             if (shouldComputeHightlights) {
                 let highlightDataPointsBySeries = getDataPointsBySeries(xColumns, yColumns, combineSeries, /* preferHighlights */ true);
-                highlightsLineDefSet = calculateLineDefinitions(highlightDataPointsBySeries);
+                highlightsLineDefSet = calculateLineDefinitions(highlightDataPointsBySeries, modelOptions);
                 if (highlightsLineDefSet) {
                     xMin = _.min([xMin, highlightsLineDefSet.xMin]);
                     xMax = _.max([xMax, highlightsLineDefSet.xMax]);
@@ -159,16 +189,23 @@ module powerbi.data {
             }
 
             // Step 3
+            let categories = getRegressionCategories(modelOptions.type, xMin, xMax, shouldComputeHightlights ? [lineDefSet, highlightsLineDefSet] : [lineDefSet]);
+
             let valuesByTrend: number[][] = [];
+            let models: DataViewRegressionModel[] = [];
             for (let trend of lineDefSet.lineDefs) {
-                valuesByTrend.push(computeLineYValues(trend, +xMin, +xMax));
+                valuesByTrend.push(computeLineYValues(trend, categories));
+                models.push(trend ? trend.model : undefined);
             }
 
             let highlightsByTrend: number[][];
             if (shouldComputeHightlights) {
                 highlightsByTrend = [];
-                for (let trend of highlightsLineDefSet.lineDefs) {
-                    highlightsByTrend.push(computeLineYValues(trend, +xMin, +xMax));
+                for (let i = 0; i < highlightsLineDefSet.lineDefs.length; i++) {
+                    let trend = highlightsLineDefSet.lineDefs[i];
+                    highlightsByTrend.push(computeLineYValues(trend, categories));
+                    if (trend && models[i])
+                        models[i].highlights = trend.model;
                 }
             }
 
@@ -196,9 +233,10 @@ module powerbi.data {
                 xColumnSource,
                 yColumnSource,
                 groupValues,
-                [xMin, xMax],
+                categories,
                 valuesByTrend,
                 highlightsByTrend,
+                models,
                 sourceDataView,
                 regressionDataViewMapping,
                 objectDescriptors,
@@ -208,45 +246,101 @@ module powerbi.data {
             return regressionDataView;
         }
 
-        function calculateLineDefinitions(dataPointsBySeries: DataPointSet[]): LineDefinitionSet {
+        function getRegressionModelOptions(objects: DataViewObjects, regressionUsage: { [propertyName: string]: DataViewObjectPropertyIdentifier }): RegressionModelOptions {
+            debug.assertValue(objects, 'objects');
+            debug.assertValue(regressionUsage, 'regressionUsage');
+
+            let getValue = <T>(propertyName: string, defaultValue: T): T => {
+                let propertyId = regressionUsage[propertyName];
+                return propertyId ? DataViewObjects.getValue<T>(objects, propertyId, defaultValue) : defaultValue;
+            };
+
+            let polynomialOrder = Math.round(getValue<number>('polynomialOrder', defaults.polynomialOrder));
+            let movingAveragePeriod = Math.round(getValue<number>('movingAveragePeriod', defaults.movingAveragePeriod));
+
+            return {
+                type: getValue<string>('regressionType', defaults.regressionType),
+                polynomialOrder: isFinite(polynomialOrder) ? Math.max(minPolynomialOrder, Math.min(maxPolynomialOrder, polynomialOrder)) : defaults.polynomialOrder,
+                movingAveragePeriod: isFinite(movingAveragePeriod) && movingAveragePeriod >= 1 ? movingAveragePeriod : defaults.movingAveragePeriod,
+            };
+        }
+
+        function calculateLineDefinitions(dataPointsBySeries: DataPointSet[], modelOptions: RegressionModelOptions): LineDefinitionSet {
             let xMin: PrimitiveValue;
             let xMax: PrimitiveValue;
             let lineDefs: LineDefinition[] = [];
+            let xValues: PrimitiveValue[] = [];
             for (let dataPointSet of dataPointsBySeries) {
-                let unsortedXValues: PrimitiveValue[] = dataPointSet.xValues;
-                let unsortedYValues: PrimitiveValue[] = dataPointSet.yValues;
-
-                if (_.isEmpty(unsortedXValues) || _.isEmpty(unsortedYValues))
-                    return;
-
-                // get the data type for each column; we will have null type when dataPoints have different type or if a value is null
-                let xDataType: string = getDataType(unsortedXValues);
-                if (!xDataType)
-                    return;
-                let yDataType: string = getDataType(unsortedYValues);
-                if (!yDataType)
-                    return;
+                // A series that can't be fit has no line, but keeps its place so that the lines still match the series.
+                let sortedDataPointSet: DataPointSet = getSortedDataPointSet(dataPointSet);
+                let lineDef: LineDefinition = sortedDataPointSet && fitRegressionModel(sortedDataPointSet.xValues, sortedDataPointSet.yValues, modelOptions);
+                lineDefs.push(lineDef);
+                if (!lineDef)
+                    continue;
 
-                let sortedDataPointSet: DataPointSet = sortValues(unsortedXValues, unsortedYValues);
                 let minCategoryValue: PrimitiveValue = sortedDataPointSet.xValues[0];
                 let maxCategoryValue: PrimitiveValue = sortedDataPointSet.xValues[sortedDataPointSet.xValues.length - 1];
 
-                let lineDef: LineDefinition = computeRegressionLine(sortedDataPointSet.xValues, sortedDataPointSet.yValues);
-
                 xMin = _.min([xMin, minCategoryValue]);
                 xMax = _.max([xMax, maxCategoryValue]);
 
-                lineDefs.push(lineDef);
+                xValues.push(...sortedDataPointSet.xValues);
             }
 
+            if (!_.any(lineDefs))
+                return;
+
             return {
                 lineDefs: lineDefs,
                 xMin: xMin,
                 xMax: xMax,
+                xValues: xValues,
             };
         }
 
-        function getColumnsForCartesianRoleKind(roleKind: CartesianRoleKind, categorical: DataViewCategorical, roles: VisualDataRole[]): DataViewCategoricalColumn[] {
+        function getSortedDataPointSet(dataPointSet: DataPointSet): DataPointSet {
+            let unsortedXValues: PrimitiveValue[] = dataPointSet.xValues;
+            let unsortedYValues: PrimitiveValue[] = dataPointSet.yValues;
+
+            if (_.isEmpty(unsortedXValues) || _.isEmpty(unsortedYValues))
+                return;
+
+            // get the data type for each column; we will have null type when dataPoints have different type or if a value is null
+            let xDataType: string = getDataType(unsortedXValues);
+            if (!xDataType)
+                return;
+            let yDataType: string = getDataType(unsortedYValues);
+            if (!yDataType)
+                return;
+
+            return sortValues(unsortedXValues, unsortedYValues);
+        }
+
+        /**
+         * Gets the X values at which the regression line is evaluated: the end points for a linear model, every distinct X value
+         * of the data for a moving average, and evenly spaced points across the X range for the other models.
+         */
+        function getRegressionCategories(regressionType: string, xMin: PrimitiveValue, xMax: PrimitiveValue, lineDefSets: LineDefinitionSet[]): PrimitiveValue[] {
+            if (regressionType === RegressionType.movingAverage) {
+                let xValues = _.sortBy(_.flatten<PrimitiveValue>(_.map(lineDefSets, (lineDefSet) => lineDefSet.xValues)), (x) => +x);
+                return _.uniq(xValues, /* isSorted */ true, (x) => +x);
+            }
+
+            if (regressionType === RegressionType.linear || +xMin === +xMax)
+                return [xMin, xMax];
+
+            let isDate = xMin instanceof Date;
+            let step = (+xMax - +xMin) / (curvePointCount - 1);
+            let categories: PrimitiveValue[] = [];
+            for (let i = 0; i < curvePointCount; i++) {
+                let x = (i === curvePointCount - 1) ? +xMax : +xMin + i * step;
+                categories.push(isDate ? new Date(x) : x);
+            }
+
+            return categories;
+        }
+
+        export function getColumnsForCartesianRoleKind(roleKind: CartesianRoleKind, categorical: DataViewCategorical, roles: VisualDataRole[]): DataViewCategoricalColumn[] {
             debug.assertValue(roleKind, 'roleKind');
             debug.assertValue(categorical, 'categorical');
 
@@ -327,7 +421,7 @@ module powerbi.data {
          *   Slope: ssXY / ssXX
          *   Intercept: yBar - xBar * slope
          */
-        function computeRegressionLine(xValues: number[], yValues: number[]): LineDefinition {
+        function computeRegressionLine(xValues: number[], yValues: number[]): LinearCoefficients {
             debug.assertValue(xValues, 'xValues');
             debug.assertValue(yValues, 'yValues');
 
@@ -355,8 +449,223 @@ module powerbi.data {
             };
         }
 
-        function computeLineYValues(lineDef: LineDefinition, x1: number, x2: number): number[] {
-            return [x1 * lineDef.slope + lineDef.intercept, x2 * lineDef.slope + lineDef.intercept];
+        function fitRegressionModel(xValues: number[], yValues: number[], modelOptions: RegressionModelOptions): LineDefinition {
+            let lineDef: LineDefinition;
+            switch (modelOptions.type) {
+                case RegressionType.polynomial:
+                    lineDef = fitPolynomial(xValues, yValues, modelOptions.polynomialOrder);
+                    break;
+                case RegressionType.exponential:
+                    lineDef = fitExponential(xValues, yValues);
+                    break;
+                case RegressionType.logarithmic:
+                    lineDef = fitLogarithmic(xValues, yValues);
+                    break;
+                case RegressionType.power:
+                    lineDef = fitPower(xValues, yValues);
+                    break;
+                case RegressionType.movingAverage:
+                    // A moving average has no equation or goodness of fit to report.
+                    return fitMovingAverage(xValues, yValues, modelOptions.movingAveragePeriod);
+                default:
+                    lineDef = fitLinear(xValues, yValues);
+                    break;
+            }
+
+            if (lineDef)
+                lineDef.model.rSquared = computeRSquared(xValues, yValues, lineDef.evaluate);
+
+            return lineDef;
+        }
+
+        /** Y = Slope * X + Intercept, with coefficients [Intercept, Slope]. */
+        function fitLinear(xValues: number[], yValues: number[]): LineDefinition {
+            let line = computeRegressionLine(xValues, yValues);
+
+            return {
+                model: { type: RegressionType.linear, coefficients: [line.intercept, line.slope] },
+                evaluate: (x) => x * line.slope + line.intercept,
+            };
+        }
+
+        /**
+         * Y = C0 + C1 * X + ... + Cn * X^n, with coefficients [C0, ..., Cn].
+         * The least squares fit is solved on X values centered and scaled to [-1, 1] to keep the normal equations well conditioned
+         * (e.g. for date values), and the coefficients are then expanded back in terms of the original X values.
+         */
+        function fitPolynomial(xValues: number[], yValues: number[], order: number): LineDefinition {
+            debug.assert(order >= minPolynomialOrder && order <= maxPolynomialOrder, 'order out of range');
+
+            if (_.uniq(xValues).length <= order)
+                return;
+
+            let xBar = _.sum(xValues) / xValues.length;
+            let scale = _.max(_.map(xValues, (x) => Math.abs(x - xBar)));
+
+            let size = order + 1;
+            let matrix: number[][] = _.map(_.range(size), () => _.map(_.range(size), () => 0));
+            let vector: number[] = _.map(_.range(size), () => 0);
+            for (let i = 0; i < xValues.length; i++) {
+                let t = (xValues[i] - xBar) / scale;
+                for (let row = 0; row < size; row++) {
+                    let tRow = t ** row;
+                    vector[row] += yValues[i] * tRow;
+                    for (let column = 0; column < size; column++)
+                        matrix[row][column] += tRow * (t ** column);
+                }
+            }
+
+            let scaledCoefficients = solveLinearSystem(matrix, vector);
+            if (!scaledCoefficients)
+                return;
+
+            // Expand Sum(Ck * ((X - xBar) / scale)^k) into powers of X.
+            let coefficients: number[] = _.map(_.range(size), () => 0);
+            for (let k = 0; k < size; k++) {
+                let ck = scaledCoefficients[k] / (scale ** k);
+                for (let j = 0; j <= k; j++)
+                    coefficients[j] += ck * binomialCoefficient(k, j) * ((-xBar) ** (k - j));
+            }
+
+            return {
+                model: { type: RegressionType.polynomial, coefficients: coefficients },
+                evaluate: (x) => {
+                    let t = (x - xBar) / scale;
+                    let y = 0;
+                    for (let k = order; k >= 0; k--)
+                        y = y * t + scaledCoefficients[k];
+                    return y;
+                },
+            };
+        }
+
+        /** Y = A * e^(B * X), with coefficients [A, B]. Requires positive Y values. */
+        function fitExponential(xValues: number[], yValues: number[]): LineDefinition {
+            if (_.any(yValues, (y) => y <= 0))
+                return;
+
+            // Fit ln(Y) against centered X so that A does not underflow for large X values; it is only expanded for reporting.
+            let xBar = _.sum(xValues) / xValues.length;
+            let line = computeRegressionLine(_.map(xValues, (x) => x - xBar), _.map(yValues, (y) => Math.log(y)));
+
+            return {
+                model: { type: RegressionType.exponential, coefficients: [Math.exp(line.intercept - line.slope * xBar), line.slope] },
+                evaluate: (x) => Math.exp(line.intercept + line.slope * (x - xBar)),
+            };
+        }
+
+        /** Y = A + B * ln(X), with coefficients [A, B]. Requires positive X values. */
+        function fitLogarithmic(xValues: number[], yValues: number[]): LineDefinition {
+            if (_.any(xValues, (x) => x <= 0))
+                return;
+
+            let line = computeRegressionLine(_.map(xValues, (x) => Math.log(x)), yValues);
+
+            return {
+                model: { type: RegressionType.logarithmic, coefficients: [line.intercept, line.slope] },
+                evaluate: (x) => x > 0 ? line.intercept + line.slope * Math.log(x) : null,
+            };
+        }
+
+        /** Y = A * X^B, with coefficients [A, B]. Requires positive X and Y values. */
+        function fitPower(xValues: number[], yValues: number[]): LineDefinition {
+            if (_.any(xValues, (x) => x <= 0) || _.any(yValues, (y) => y <= 0))
+                return;
+
+            let line = computeRegressionLine(_.map(xValues, (x) => Math.log(x)), _.map(yValues, (y) => Math.log(y)));
+            let a = Math.exp(line.intercept);
+
+            return {
+                model: { type: RegressionType.power, coefficients: [a, line.slope] },
+                evaluate: (x) => x > 0 ? a * (x ** line.slope) : null,
+            };
+        }
+
+        /**
+         * The average of the last 'period' Y values at each X value, in X order. X values that have fewer than 'period'
+         * preceding points have no value. When several points share an X value, the average ending at the last of them is used.
+         */
+        function fitMovingAverage(xValues: number[], yValues: number[], period: number): LineDefinition {
+            if (xValues.length < period)
+                return;
+
+            let averageByX: _.Dictionary<number> = {};
+            let windowSum = 0;
+            for (let i = 0; i < yValues.length; i++) {
+                windowSum += yValues[i];
+                if (i >= period)
+                    windowSum -= yValues[i - period];
+
+                if (i >= period - 1)
+                    averageByX[+xValues[i]] = windowSum / period;
+            }
+
+            return {
+                model: { type: RegressionType.movingAverage },
+                evaluate: (x) => _.has(averageByX, x.toString()) ? averageByX[x] : null,
+            };
+        }
+
+        /** Computes R^2 = 1 - SSres / SStot of the given model against the original values. */
+        function computeRSquared(xValues: number[], yValues: number[], evaluate: (x: number) => number): number {
+            let yBar = _.sum(yValues) / yValues.length;
+            let ssTot = 0;
+            let ssRes = 0;
+            for (let i = 0; i < xValues.length; i++) {
+                ssTot += (yValues[i] - yBar) ** 2;
+                ssRes += (yValues[i] - evaluate(+xValues[i])) ** 2;
+            }
+
+            if (ssTot === 0)
+                return ssRes === 0 ? 1 : 0;
+
+            return 1 - ssRes / ssTot;
+        }
+
+        /** Solves matrix * x = vector using Gaussian elimination with partial pivoting. Returns undefined if the system is singular. */
+        function solveLinearSystem(matrix: number[][], vector: number[]): number[] {
+            let size = vector.length;
+            let a = _.map(matrix, (row, i) => row.concat([vector[i]]));
+
+            for (let column = 0; column < size; column++) {
+                let pivot = column;
+                for (let row = column + 1; row < size; row++) {
+                    if (Math.abs(a[row][column]) > Math.abs(a[pivot][column]))
+                        pivot = row;
+                }
+
+                if (Math.abs(a[pivot][column]) < 1e-12)
+                    return;
+
+                [a[column], a[pivot]] = [a[pivot], a[column]];
+
+                for (let row = column + 1; row < size; row++) {
+                    let factor = a[row][column] / a[column][column];
+                    for (let k = column; k <= size; k++)
+                        a[row][k] -= factor * a[column][k];
+                }
+            }
+
+            let solution: number[] = new Array(size);
+            for (let row = size - 1; row >= 0; row--) {
+                let sum = a[row][size];
+                for (let k = row + 1; k < size; k++)
+                    sum -= a[row][k] * solution[k];
+                solution[row] = sum / a[row][row];
+            }
+
+            return solution;
+        }
+
+        function binomialCoefficient(n: number, k: number): number {
+            let result = 1;
+            for (let i = 1; i <= k; i++)
+                result = result * (n - k + i) / i;
+            return result;
+        }
+
+        function computeLineYValues(lineDef: LineDefinition, categories: PrimitiveValue[]): number[] {
+            return _.map(categories, (x) => lineDef ? lineDef.evaluate(+x) : null);
         }
 
         function getScalarKeyFromDataViewObjects(objects: DataViewObjects): PrimitiveValue {
@@ -413,6 +722,7 @@ module powerbi.data {
             categories: PrimitiveValue[],
             values: PrimitiveValue[][],
             highlights: PrimitiveValue[][],
+            models: DataViewRegressionModel[],
             sourceDataView: DataView,
             regressionDataViewMapping: DataViewMapping,
             objectDescriptors: DataViewObjectDescriptors,
@@ -428,6 +738,7 @@ module powerbi.data {
             debug.assertValue(colorAllocatorFactory, 'colorAllocatorFactory');
             debug.assertAnyValue(highlights, 'highlights');
             debug.assert(!highlights || highlights.length === values.length, 'highlights should have the same length as values');
+            debug.assert(models.length === values.length, 'models should have the same length as values');
 
             let xRole: string = (<DataViewRoleForMapping>regressionDataViewMapping.categorical.categories).for.in;
             let grouped = (<DataViewGroupedRoleMapping>regressionDataViewMapping.categorical.values).group;
@@ -498,6 +809,11 @@ module powerbi.data {
                     data: valuesBySeries
                 })
                 .build();
+
+            let valueColumns = regressionDataView.categorical.values;
+            for (let i = 0; i < valueColumns.length; i++)
+                valueColumns[i].source.regression = models[i];
+
             DataViewTransform.transformObjects(regressionDataView, data.StandardDataViewKinds.Categorical, objectDescriptors, objectDefinitions, [], colorAllocatorFactory);
             return regressionDataView;
         }
@@ -515,14 +831,26 @@ module powerbi.data {
         yValues: any[];
     }
 
-    interface LineDefinition {
+    interface LinearCoefficients {
         slope: number;
         intercept: number;
     }
 
+    interface LineDefinition {
+        model: DataViewRegressionModel;
+        evaluate: (x: number) => number;
+    }
+
     interface LineDefinitionSet {
         lineDefs: LineDefinition[];
         xMin: PrimitiveValue;
         xMax: PrimitiveValue;
+        xValues: PrimitiveValue[];
+    }
+
+    interface RegressionModelOptions {
+        type: string;
+        polynomialOrder: number;
+        movingAveragePeriod: number;
     }
 }
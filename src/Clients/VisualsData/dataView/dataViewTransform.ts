@@ -170,6 +170,15 @@ module powerbi.data {
                 queryProjectionsByRole: transformContext.queryProjectionsByRole,
             });
 
+            visualDataViews = DataViewForecast.run({
+                visualDataViews: visualDataViews,
+                dataRoles: transformContext.dataRoles,
+                objectDescriptors: objectDescriptors,
+                objectDefinitions: transforms.objects,
+                colorAllocatorFactory: colorAllocatorFactory,
+                applicableDataViewMappings: transformContext.applicableRoleMappings,
+            });
+
             return visualDataViews;
         }
 
@@ -0,0 +1,965 @@
+/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved. 
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *   
+ *  The above copyright notice and this permission notice shall be included in 
+ *  all copies or substantial portions of the Software.
+ *   
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR 
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, 
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE 
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER 
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+/// <reference path="../../_references.ts"/>
+
+module powerbi.data {
+    /**
+     * Converts SemanticQuery, SemanticFilter and SQExpr instances to and from their JSON wire
+     * contracts (QueryDefinition, FilterDefinition and QueryExpressionContainer).
+     */
+    export module SemanticQuerySerializer {
+        /**
+         * The version written by this serializer.
+         * Version 0 (or no version) named entity sources with EntitySet, and versions prior to 2 encoded
+         * constants with the typed containers (String, Integer, DateTime, ...) instead of Literal.
+         */
+        export const CurrentVersion = 2;
+
+        export function serializeQuery(query: SemanticQuery): QueryDefinition {
+            debug.assertValue(query, 'query');
+
+            let definition = serializeQueryCore(query);
+            definition.Version = CurrentVersion;
+
+            return definition;
+        }
+
+        export function deserializeQuery(definition: QueryDefinition): SemanticQuery {
+            debug.assertValue(definition, 'definition');
+
+            return deserializeQueryCore(definition, getVersion(definition.Version));
+        }
+
+        export function serializeFilter(filter: SemanticFilter): FilterDefinition {
+            debug.assertValue(filter, 'filter');
+
+            let from = filter.from();
+            let serializer = new QueryExpressionSerializer(/*standalone*/ false);
+
+            return {
+                Version: CurrentVersion,
+                From: serializeFrom(from),
+                Where: serializeWhere(filter.where(), serializer),
+            };
+        }
+
+        export function deserializeFilter(definition: FilterDefinition): SemanticFilter {
+            debug.assertValue(definition, 'definition');
+
+            let version = getVersion(definition.Version);
+
+            let from = deserializeFrom(definition.From, version);
+            let deserializer = new QueryExpressionDeserializer(from, version);
+
+            return new SemanticFilter(from, deserializeWhere(definition.Where, deserializer) || []);
+        }
+
+        /**
+         * Serializes an expression outside of any query.  Entity references carry their schema and entity
+         * names (as well as any source variable), so that the expression can be deserialized on its own.
+         */
+        export function serializeExpr(expr: SQExpr): QueryExpressionContainer {
+            debug.assertValue(expr, 'expr');
+
+            return expr.accept(QueryExpressionSerializer.standaloneInstance);
+        }
+
+        export function deserializeExpr(container: QueryExpressionContainer, version?: number): SQExpr {
+            debug.assertValue(container, 'container');
+
+            if (version == null)
+                version = CurrentVersion;
+
+            return new QueryExpressionDeserializer(/*from*/ null, getVersion(version)).deserialize(container);
+        }
+
+        /** Definitions persisted without a version predate versioning, and are read as version 0. */
+        function getVersion(version: number): number {
+            if (version == null)
+                return 0;
+
+            if (version > CurrentVersion)
+                throw new Error('Unsupported query version: ' + version);
+
+            return version;
+        }
+
+        function serializeQueryCore(query: SemanticQuery): QueryDefinition {
+            let serializer = new QueryExpressionSerializer(/*standalone*/ false);
+            let definition: QueryDefinition = {
+                From: serializeFrom(query.from()),
+                Select: serializeNamedExprs(query.select(), serializer),
+            };
+
+            let where = query.where();
+            if (!_.isEmpty(where))
+                definition.Where = serializeWhere(where, serializer);
+
+            let orderBy = query.orderBy();
+            if (!_.isEmpty(orderBy)) {
+                definition.OrderBy = _.map(orderBy, (sort: SQSortDefinition) => {
+                    return {
+                        Expression: sort.expr.accept(serializer),
+                        Direction: sort.direction,
+                    };
+                });
+            }
+
+            let groupBy = query.groupBy();
+            if (!_.isEmpty(groupBy))
+                definition.GroupBy = serializeNamedExprs(groupBy, serializer);
+
+            let transforms = query.transforms();
+            if (!_.isEmpty(transforms))
+                definition.Transform = _.map(transforms, (transform: SQTransform) => serializeTransform(transform, serializer));
+
+            return definition;
+        }
+
+        function deserializeQueryCore(definition: QueryDefinition, version: number): SemanticQuery {
+            let from = deserializeFrom(definition.From, version);
+            let deserializer = new QueryExpressionDeserializer(from, version);
+
+            let orderBy: SQSortDefinition[] = null;
+            if (definition.OrderBy) {
+                orderBy = _.map(definition.OrderBy, (sort: QuerySortClause) => {
+                    return {
+                        expr: deserializer.deserialize(sort.Expression),
+                        direction: sort.Direction,
+                    };
+                });
+            }
+
+            let transforms: SQTransform[] = null;
+            if (definition.Transform)
+                transforms = _.map(definition.Transform, (transform: QueryTransform) => deserializeTransform(transform, deserializer));
+
+            return new SemanticQuery(
+                from,
+                deserializeWhere(definition.Where, deserializer),
+                orderBy,
+                deserializeNamedExprs(definition.Select, deserializer) || [],
+                deserializeNamedExprs(definition.GroupBy, deserializer),
+                transforms);
+        }
+
+        function serializeFrom(from: SQFrom): EntitySource[] {
+            let sources: EntitySource[] = [];
+
+            for (let key of from.keys()) {
+                let source = from.source(key);
+                if (isSQFromEntitySource(source)) {
+                    let entitySource = <SQFromEntitySource>source;
+                    let serializedSource: EntitySource = {
+                        Name: key,
+                        Entity: entitySource.entity,
+                    };
+
+                    if (entitySource.schema)
+                        serializedSource.Schema = entitySource.schema;
+
+                    sources.push(serializedSource);
+                }
+                else {
+                    sources.push({
+                        Name: key,
+                        Expression: {
+                            Subquery: {
+                                Query: serializeQueryCore((<SQFromSubquerySource>source).subquery),
+                            },
+                        },
+                        Type: EntitySourceType.Expression,
+                    });
+                }
+            }
+
+            return sources;
+        }
+
+        function deserializeFrom(sources: EntitySource[], version: number): SQFrom {
+            let items: { [name: string]: SQFromSource } = {};
+
+            if (sources) {
+                for (let source of sources) {
+                    let expression = source.Expression;
+                    if (expression) {
+                        if (!expression.Subquery)
+                            throw new Error('Unsupported expression source: ' + source.Name);
+
+                        items[source.Name] = new SQFromSubquerySource(deserializeQueryCore(expression.Subquery.Query, version));
+                        continue;
+                    }
+
+                    // Sources written before version 1 only carry the EntitySet name (which is still produced by some older clients).
+                    let entity = source.Entity || source.EntitySet;
+                    items[source.Name] = new SQFromEntitySource(source.Schema, entity);
+                }
+            }
+
+            return new SQFrom(items);
+        }
+
+        function serializeWhere(where: SQFilter[], serializer: QueryExpressionSerializer): QueryFilter[] {
+            return _.map(where, (filter: SQFilter) => {
+                let serializedFilter: QueryFilter = {
+                    Condition: filter.condition.accept(serializer),
+                };
+
+                if (filter.target)
+                    serializedFilter.Target = serializer.serializeArray(filter.target);
+
+                return serializedFilter;
+            });
+        }
+
+        function deserializeWhere(where: QueryFilter[], deserializer: QueryExpressionDeserializer): SQFilter[] {
+            if (!where)
+                return null;
+
+            return _.map(where, (filter: QueryFilter) => {
+                let deserializedFilter: SQFilter = {
+                    condition: deserializer.deserialize(filter.Condition),
+                };
+
+                if (filter.Target)
+                    deserializedFilter.target = deserializer.deserializeArray(filter.Target);
+
+                return deserializedFilter;
+            });
+        }
+
+        function serializeNamedExprs(items: NamedSQExpr[], serializer: QueryExpressionSerializer): QueryExpressionContainer[] {
+            return _.map(items, (item: NamedSQExpr) => serializeNamedExpr(item, serializer));
+        }
+
+        function serializeNamedExpr(item: NamedSQExpr, serializer: QueryExpressionSerializer): QueryExpressionContainer {
+            let container = item.expr.accept(serializer);
+            if (item.name)
+                container.Name = item.name;
+
+            return container;
+        }
+
+        function deserializeNamedExprs(containers: QueryExpressionContainer[], deserializer: QueryExpressionDeserializer): NamedSQExpr[] {
+            if (!containers)
+                return null;
+
+            return _.map(containers, (container: QueryExpressionContainer) => deserializeNamedExpr(container, deserializer));
+        }
+
+        function deserializeNamedExpr(container: QueryExpressionContainer, deserializer: QueryExpressionDeserializer): NamedSQExpr {
+            return {
+                name: container.Name,
+                expr: deserializer.deserialize(container),
+            };
+        }
+
+        function serializeTransform(transform: SQTransform, serializer: QueryExpressionSerializer): QueryTransform {
+            let input: QueryTransformInput = {
+                Parameters: serializeNamedExprs(transform.input.parameters, serializer),
+            };
+
+            if (transform.input.table)
+                input.Table = serializeTransformTable(transform.input.table, serializer);
+
+            let output: QueryTransformOutput = {};
+            if (transform.output && transform.output.table)
+                output.Table = serializeTransformTable(transform.output.table, serializer);
+
+            return {
+                Name: transform.name,
+                Algorithm: transform.algorithm,
+                Input: input,
+                Output: output,
+            };
+        }
+
+        function serializeTransformTable(table: SQTransformTable, serializer: QueryExpressionSerializer): QueryTransformTable {
+            return {
+                Name: table.name,
+                Columns: _.map(table.columns, (column: SQTransformTableColumn) => {
+                    let serializedColumn: QueryTransformTableColumn = {
+                        Expression: serializeNamedExpr(column.expression, serializer),
+                    };
+
+                    if (column.role)
+                        serializedColumn.Role = column.role;
+
+                    return serializedColumn;
+                }),
+            };
+        }
+
+        function deserializeTransform(transform: QueryTransform, deserializer: QueryExpressionDeserializer): SQTransform {
+            let input: SQTransformInput = {
+                parameters: deserializeNamedExprs(transform.Input.Parameters, deserializer) || [],
+            };
+
+            if (transform.Input.Table)
+                input.table = deserializeTransformTable(transform.Input.Table, deserializer);
+
+            let output: SQTransformOutput = {};
+            if (transform.Output && transform.Output.Table)
+                output.table = deserializeTransformTable(transform.Output.Table, deserializer);
+
+            return {
+                name: transform.Name,
+                algorithm: transform.Algorithm,
+                input: input,
+                output: output,
+            };
+        }
+
+        function deserializeTransformTable(table: QueryTransformTable, deserializer: QueryExpressionDeserializer): SQTransformTable {
+            return {
+                name: table.Name,
+                columns: _.map(table.Columns, (column: QueryTransformTableColumn) => {
+                    let deserializedColumn: SQTransformTableColumn = {
+                        expression: deserializeNamedExpr(column.Expression, deserializer),
+                    };
+
+                    if (column.Role)
+                        deserializedColumn.role = column.Role;
+
+                    return deserializedColumn;
+                }),
+            };
+        }
+
+        /** Responsible for converting an SQExpr into its QueryExpressionContainer contract. */
+        class QueryExpressionSerializer implements ISQExprVisitor<QueryExpressionContainer>,
+            IFillRuleDefinitionVisitor<LinearGradient2Generic<QueryExpressionContainer, QueryExpressionContainer>, LinearGradient3Generic<QueryExpressionContainer, QueryExpressionContainer>> {
+            public static standaloneInstance: QueryExpressionSerializer = new QueryExpressionSerializer(/*standalone*/ true);
+
+            private standalone: boolean;
+
+            constructor(standalone: boolean) {
+                this.standalone = standalone;
+            }
+
+            public serializeArray(exprs: SQExpr[]): QueryExpressionContainer[] {
+                return _.map(exprs, (expr: SQExpr) => expr.accept(this));
+            }
+
+            public visitEntity(expr: SQEntityExpr): QueryExpressionContainer {
+                debug.assertValue(expr, 'expr');
+
+                // Within a query or filter, the From clause identifies the entity behind the source variable.
+                if (!this.standalone && expr.variable)
+                    return { SourceRef: { Source: expr.variable } };
+
+                let entityRef: QueryEntityRefExpression = { Entity: expr.entity };
+                if (expr.schema)
+                    entityRef.Schema = expr.schema;
+                if (expr.variable)
+                    entityRef.Source = expr.variable;
+
+                return { EntityRef: entityRef };
+            }
+
+            public visitColumnRef(expr: SQColumnRefExpr): QueryExpressionContainer {
+                return {
+                    Column: {
+                        Expression: expr.source.accept(this),
+                        Property: expr.ref,
+                    }
+                };
+            }
+
+            public visitMeasureRef(expr: SQMeasureRefExpr): QueryExpressionContainer {
+                return {
+                    Measure: {
+                        Expression: expr.source.accept(this),
+                        Property: expr.ref,
+                    }
+                };
+            }
+
+            public visitAggr(expr: SQAggregationExpr): QueryExpressionContainer {
+                return {
+                    Aggregation: {
+                        Expression: expr.arg.accept(this),
+                        Function: expr.func,
+                    }
+                };
+            }
+
+            public visitPercentile(expr: SQPercentileExpr): QueryExpressionContainer {
+                let percentile: QueryPercentileExpression = {
+                    Expression: expr.arg.accept(this),
+                    K: expr.k,
+                };
+
+                if (expr.exclusive)
+                    percentile.Exclusive = true;
+
+                return { Percentile: percentile };
+            }
+
+            public visitHierarchy(expr: SQHierarchyExpr): QueryExpressionContainer {
+                return {
+                    Hierarchy: {
+                        Expression: expr.arg.accept(this),
+                        Hierarchy: expr.hierarchy,
+                    }
+                };
+            }
+
+            public visitHierarchyLevel(expr: SQHierarchyLevelExpr): QueryExpressionContainer {
+                return {
+                    HierarchyLevel: {
+                        Expression: expr.arg.accept(this),
+                        Level: expr.level,
+                    }
+                };
+            }
+
+            public visitPropertyVariationSource(expr: SQPropertyVariationSourceExpr): QueryExpressionContainer {
+                return {
+                    PropertyVariationSource: {
+                        Expression: expr.arg.accept(this),
+                        Name: expr.name,
+                        Property: expr.property,
+                    }
+                };
+            }
+
+            public visitSelectRef(expr: SQSelectRefExpr): QueryExpressionContainer {
+                return {
+                    SelectRef: {
+                        ExpressionName: expr.expressionName,
+                    }
+                };
+            }
+
+            public visitAnd(expr: SQAndExpr): QueryExpressionContainer {
+                return {
+                    And: {
+                        Left: expr.left.accept(this),
+                        Right: expr.right.accept(this),
+                    }
+                };
+            }
+
+            public visitBetween(expr: SQBetweenExpr): QueryExpressionContainer {
+                return {
+                    Between: {
+                        Expression: expr.arg.accept(this),
+                        LowerBound: expr.lower.accept(this),
+                        UpperBound: expr.upper.accept(this),
+                    }
+                };
+            }
+
+            public visitIn(expr: SQInExpr): QueryExpressionContainer {
+                return {
+                    In: {
+                        Expressions: this.serializeArray(expr.args),
+                        Values: _.map(expr.values, (tuple: SQExpr[]) => this.serializeArray(tuple)),
+                    }
+                };
+            }
+
+            public visitOr(expr: SQOrExpr): QueryExpressionContainer {
+                return {
+                    Or: {
+                        Left: expr.left.accept(this),
+                        Right: expr.right.accept(this),
+                    }
+                };
+            }
+
+            public visitCompare(expr: SQCompareExpr): QueryExpressionContainer {
+                return {
+                    Comparison: {
+                        ComparisonKind: expr.comparison,
+                        Left: expr.left.accept(this),
+                        Right: expr.right.accept(this),
+                    }
+                };
+            }
+
+            public visitContains(expr: SQContainsExpr): QueryExpressionContainer {
+                return {
+                    Contains: {
+                        Left: expr.left.accept(this),
+                        Right: expr.right.accept(this),
+                    }
+                };
+            }
+
+            public visitExists(expr: SQExistsExpr): QueryExpressionContainer {
+                return {
+                    Exists: {
+                        Expression: expr.arg.accept(this),
+                    }
+                };
+            }
+
+            public visitNot(expr: SQNotExpr): QueryExpressionContainer {
+                return {
+                    Not: {
+                        Expression: expr.arg.accept(this),
+                    }
+                };
+            }
+
+            public visitStartsWith(expr: SQStartsWithExpr): QueryExpressionContainer {
+                return {
+                    StartsWith: {
+                        Left: expr.left.accept(this),
+                        Right: expr.right.accept(this),
+                    }
+                };
+            }
+
+            public visitConstant(expr: SQConstantExpr): QueryExpressionContainer {
+                return {
+                    Literal: {
+                        Value: expr.valueEncoded,
+                    }
+                };
+            }
+
+            public visitDateSpan(expr: SQDateSpanExpr): QueryExpressionContainer {
+                return {
+                    DateSpan: {
+                        TimeUnit: expr.unit,
+                        Expression: expr.arg.accept(this),
+                    }
+                };
+            }
+
+            public visitDateAdd(expr: SQDateAddExpr): QueryExpressionContainer {
+                return {
+                    DateAdd: {
+                        Amount: expr.amount,
+                        TimeUnit: expr.unit,
+                        Expression: expr.arg.accept(this),
+                    }
+                };
+            }
+
+            public visitNow(expr: SQNowExpr): QueryExpressionContainer {
+                return { Now: {} };
+            }
+
+            public visitDefaultValue(expr: SQDefaultValueExpr): QueryExpressionContainer {
+                return { DefaultValue: {} };
+            }
+
+            public visitAnyValue(expr: SQAnyValueExpr): QueryExpressionContainer {
+                return { AnyValue: {} };
+            }
+
+            public visitArithmetic(expr: SQArithmeticExpr): QueryExpressionContainer {
+                return {
+                    Arithmetic: {
+                        Left: expr.left.accept(this),
+                        Right: expr.right.accept(this),
+                        Operator: expr.operator,
+                    }
+                };
+            }
+
+            public visitFillRule(expr: SQFillRuleExpr): QueryExpressionContainer {
+                let rule = expr.rule,
+                    serializedRule: FillRuleGeneric<QueryExpressionContainer, QueryExpressionContainer> = {};
+
+                if (rule.linearGradient2)
+                    serializedRule.linearGradient2 = this.visitLinearGradient2(rule.linearGradient2);
+                if (rule.linearGradient3)
+                    serializedRule.linearGradient3 = this.visitLinearGradient3(rule.linearGradient3);
+
+                return {
+                    FillRule: {
+                        Input: expr.input.accept(this),
+                        FillRule: serializedRule,
+                    }
+                };
+            }
+
+            public visitLinearGradient2(gradient2: LinearGradient2Definition): LinearGradient2Generic<QueryExpressionContainer, QueryExpressionContainer> {
+                debug.assertValue(gradient2, 'gradient2');
+
+                return {
+                    min: this.visitFillRuleStop(gradient2.min),
+                    max: this.visitFillRuleStop(gradient2.max),
+                };
+            }
+
+            public visitLinearGradient3(gradient3: LinearGradient3Definition): LinearGradient3Generic<QueryExpressionContainer, QueryExpressionContainer> {
+                debug.assertValue(gradient3, 'gradient3');
+
+                return {
+                    min: this.visitFillRuleStop(gradient3.min),
+                    mid: this.visitFillRuleStop(gradient3.mid),
+                    max: this.visitFillRuleStop(gradient3.max),
+                };
+            }
+
+            private visitFillRuleStop(stop: RuleColorStopDefinition): RuleColorStopGeneric<QueryExpressionContainer, QueryExpressionContainer> {
+                debug.assertValue(stop, 'stop');
+
+                let serializedStop: RuleColorStopGeneric<QueryExpressionContainer, QueryExpressionContainer> = {
+                    color: stop.color.accept(this),
+                };
+
+                if (stop.value)
+                    serializedStop.value = stop.value.accept(this);
+
+                return serializedStop;
+            }
+
+            public visitResourcePackageItem(expr: SQResourcePackageItemExpr): QueryExpressionContainer {
+                return {
+                    ResourcePackageItem: {
+                        PackageName: expr.packageName,
+                        PackageType: expr.packageType,
+                        ItemName: expr.itemName,
+                    }
+                };
+            }
+
+            public visitScopedEval(expr: SQScopedEvalExpr): QueryExpressionContainer {
+                return {
+                    ScopedEval: {
+                        Expression: expr.expression.accept(this),
+                        Scope: this.serializeArray(expr.scope),
+                    }
+                };
+            }
+
+            public visitWithRef(expr: SQWithRefExpr): QueryExpressionContainer {
+                return {
+                    WithRef: {
+                        ExpressionName: expr.expressionName,
+                    }
+                };
+            }
+
+            public visitTransformTableRef(expr: SQTransformTableRefExpr): QueryExpressionContainer {
+                return {
+                    TransformTableRef: {
+                        Source: expr.source,
+                    }
+                };
+            }
+
+            public visitTransformOutputRoleRef(expr: SQTransformOutputRoleRefExpr): QueryExpressionContainer {
+                let ref: QueryTransformOutputRoleRefExpression = {
+                    Role: expr.role,
+                };
+
+                if (expr.transform)
+                    ref.Transform = expr.transform;
+
+                return { TransformOutputRoleRef: ref };
+            }
+        }
+
+        /** Responsible for converting a QueryExpressionContainer contract into an SQExpr. */
+        class QueryExpressionDeserializer {
+            private from: SQFrom;
+            private version: number;
+
+            constructor(from: SQFrom, version: number) {
+                this.from = from;
+                this.version = version;
+            }
+
+            public deserializeArray(containers: QueryExpressionContainer[]): SQExpr[] {
+                return _.map(containers, (container: QueryExpressionContainer) => this.deserialize(container));
+            }
+
+            public deserialize(container: QueryExpressionContainer): SQExpr {
+                debug.assertValue(container, 'container');
+
+                if (container.SourceRef)
+                    return this.deserializeSourceRef(container.SourceRef);
+
+                if (container.EntityRef) {
+                    let entityRef = container.EntityRef;
+                    return SQExprBuilder.entity(entityRef.Schema, entityRef.Entity, entityRef.Source);
+                }
+
+                if (container.Column)
+                    return SQExprBuilder.columnRef(this.deserialize(container.Column.Expression), container.Column.Property);
+
+                if (container.Measure)
+                    return SQExprBuilder.measureRef(this.deserialize(container.Measure.Expression), container.Measure.Property);
+
+                if (container.Aggregation)
+                    return SQExprBuilder.aggregate(this.deserialize(container.Aggregation.Expression), container.Aggregation.Function);
+
+                if (container.Percentile) {
+                    let percentile = container.Percentile;
+                    return SQExprBuilder.percentile(this.deserialize(percentile.Expression), percentile.K, !!percentile.Exclusive);
+                }
+
+                if (container.Hierarchy)
+                    return SQExprBuilder.hierarchy(this.deserialize(container.Hierarchy.Expression), container.Hierarchy.Hierarchy);
+
+                if (container.HierarchyLevel)
+                    return SQExprBuilder.hierarchyLevel(this.deserialize(container.HierarchyLevel.Expression), container.HierarchyLevel.Level);
+
+                if (container.PropertyVariationSource) {
+                    let variationSource = container.PropertyVariationSource;
+                    return SQExprBuilder.propertyVariationSource(this.deserialize(variationSource.Expression), variationSource.Name, variationSource.Property);
+                }
+
+                if (container.SelectRef)
+                    return SQExprBuilder.selectRef(container.SelectRef.ExpressionName);
+
+                // Logical expressions are constructed directly (rather than through SQExprBuilder) so that the structure
+                // of the contract is preserved, even when the builder would simplify it.
+                if (container.And)
+                    return new SQAndExpr(this.deserialize(container.And.Left), this.deserialize(container.And.Right));
+
+                if (container.Between) {
+                    let between = container.Between;
+                    return SQExprBuilder.between(this.deserialize(between.Expression), this.deserialize(between.LowerBound), this.deserialize(between.UpperBound));
+                }
+
+                if (container.In) {
+                    return SQExprBuilder.inExpr(
+                        this.deserializeArray(container.In.Expressions),
+                        _.map(container.In.Values, (tuple: QueryExpressionContainer[]) => this.deserializeArray(tuple)));
+                }
+
+                if (container.Or)
+                    return new SQOrExpr(this.deserialize(container.Or.Left), this.deserialize(container.Or.Right));
+
+                if (container.Comparison) {
+                    let comparison = container.Comparison;
+                    return SQExprBuilder.compare(comparison.ComparisonKind, this.deserialize(comparison.Left), this.deserialize(comparison.Right));
+                }
+
+                if (container.Contains)
+                    return SQExprBuilder.contains(this.deserialize(container.Contains.Left), this.deserialize(container.Contains.Right));
+
+                if (container.StartsWith)
+                    return SQExprBuilder.startsWith(this.deserialize(container.StartsWith.Left), this.deserialize(container.StartsWith.Right));
+
+                if (container.Exists)
+                    return SQExprBuilder.exists(this.deserialize(container.Exists.Expression));
+
+                if (container.Not)
+                    return SQExprBuilder.not(this.deserialize(container.Not.Expression));
+
+                if (container.Literal)
+                    return decodeLiteral(container.Literal.Value);
+
+                let constant = this.deserializeLegacyConstant(container);
+                if (constant)
+                    return constant;
+
+                if (container.DateSpan)
+                    return SQExprBuilder.dateSpan(container.DateSpan.TimeUnit, this.deserialize(container.DateSpan.Expression));
+
+                if (container.DateAdd) {
+                    let dateAdd = container.DateAdd;
+                    return SQExprBuilder.dateAdd(dateAdd.TimeUnit, dateAdd.Amount, this.deserialize(dateAdd.Expression));
+                }
+
+                if (container.Now)
+                    return SQExprBuilder.now();
+
+                if (container.DefaultValue)
+                    return SQExprBuilder.defaultValue();
+
+                if (container.AnyValue)
+                    return SQExprBuilder.anyValue();
+
+                if (container.Arithmetic) {
+                    let arithmetic = container.Arithmetic;
+                    return SQExprBuilder.arithmetic(this.deserialize(arithmetic.Left), this.deserialize(arithmetic.Right), arithmetic.Operator);
+                }
+
+                if (container.ScopedEval)
+                    return SQExprBuilder.scopedEval(this.deserialize(container.ScopedEval.Expression), this.deserializeArray(container.ScopedEval.Scope));
+
+                if (container.WithRef)
+                    return SQExprBuilder.withRef(container.WithRef.ExpressionName);
+
+                if (container.TransformTableRef)
+                    return SQExprBuilder.transformTableRef(container.TransformTableRef.Source);
+
+                if (container.TransformOutputRoleRef)
+                    return SQExprBuilder.transformOutputRoleRef(container.TransformOutputRoleRef.Role, container.TransformOutputRoleRef.Transform);
+
+                if (container.FillRule)
+                    return SQExprBuilder.fillRule(this.deserialize(container.FillRule.Input), this.deserializeFillRule(container.FillRule.FillRule));
+
+                if (container.ResourcePackageItem) {
+                    let item = container.ResourcePackageItem;
+                    return SQExprBuilder.resourcePackageItem(item.PackageName, item.PackageType, item.ItemName);
+                }
+
+                throw new Error('Unsupported query expression: ' + JSON.stringify(container));
+            }
+
+            private deserializeSourceRef(sourceRef: QuerySourceRefExpression): SQExpr {
+                let variable = sourceRef.Source;
+                let source = this.from && this.from.source(variable);
+                if (!source)
+                    throw new Error('Unknown source reference: ' + variable);
+
+                if (!isSQFromEntitySource(source))
+                    throw new Error('Source reference does not refer to an entity: ' + variable);
+
+                let entitySource = <SQFromEntitySource>source;
+                return SQExprBuilder.entity(entitySource.schema, entitySource.entity, variable);
+            }
+
+            /** Constants written before version 2 use a container per type rather than an encoded Literal. */
+            private deserializeLegacyConstant(container: QueryExpressionContainer): SQConstantExpr {
+                if (this.version >= 2)
+                    return;
+
+                if (container.Null)
+                    return SQExprBuilder.nullConstant();
+
+                if (container.Boolean)
+                    return SQExprBuilder.boolean(container.Boolean.Value);
+
+                if (container.String)
+                    return SQExprBuilder.text(container.String.Value);
+
+                if (container.Integer)
+                    return SQExprBuilder.integer(container.Integer.Value);
+
+                if (container.Decimal)
+                    return SQExprBuilder.decimal(container.Decimal.Value);
+
+                if (container.Number)
+                    return SQExprBuilder.double(parseFloat(container.Number.Value));
+
+                let dateTime = container.DateTime || container.Date || container.DateTimeSecond;
+                if (dateTime) {
+                    let value = dateTime.Value;
+                    if (DateTimeLiteralRegex.test(value))
+                        return decodeLiteral(value);
+
+                    return SQExprBuilder.dateTime(parseDateTime(value));
+                }
+            }
+
+            private deserializeFillRule(rule: FillRuleGeneric<QueryExpressionContainer, QueryExpressionContainer>): FillRuleDefinition {
+                let deserializedRule: FillRuleDefinition = {};
+
+                let gradient2 = rule.linearGradient2;
+                if (gradient2) {
+                    deserializedRule.linearGradient2 = {
+                        min: this.deserializeFillRuleStop(gradient2.min),
+                        max: this.deserializeFillRuleStop(gradient2.max),
+                    };
+                }
+
+                let gradient3 = rule.linearGradient3;
+                if (gradient3) {
+                    deserializedRule.linearGradient3 = {
+                        min: this.deserializeFillRuleStop(gradient3.min),
+                        mid: this.deserializeFillRuleStop(gradient3.mid),
+                        max: this.deserializeFillRuleStop(gradient3.max),
+                    };
+                }
+
+                return deserializedRule;
+            }
+
+            private deserializeFillRuleStop(stop: RuleColorStopGeneric<QueryExpressionContainer, QueryExpressionContainer>): RuleColorStopDefinition {
+                let deserializedStop: RuleColorStopDefinition = {
+                    color: this.deserialize(stop.color),
+                };
+
+                if (stop.value)
+                    deserializedStop.value = this.deserialize(stop.value);
+
+                return deserializedStop;
+            }
+        }
+
+        const NumericLiteralRegex = /^(-?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?)([LDM])$/;
+        const DateTimeLiteralRegex = /^datetime'(.*)'$/;
+        const DateTimeRegex = /^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3}))?)?)?/;
+
+        /** Reverses the encodings produced by PrimitiveValueEncoding, keeping the encoded value so that constants remain equal. */
+        function decodeLiteral(valueEncoded: string): SQConstantExpr {
+            debug.assertValue(valueEncoded, 'valueEncoded');
+
+            switch (valueEncoded) {
+                case PrimitiveValueEncoding.nullEncoding():
+                    return SQExprBuilder.nullConstant();
+                case PrimitiveValueEncoding.boolean(true):
+                    return SQExprBuilder.boolean(true);
+                case PrimitiveValueEncoding.boolean(false):
+                    return SQExprBuilder.boolean(false);
+            }
+
+            if (valueEncoded.length >= 2 && valueEncoded[0] === "'" && valueEncoded[valueEncoded.length - 1] === "'")
+                return SQExprBuilder.text(valueEncoded.substr(1, valueEncoded.length - 2).replace(/''/g, "'"), valueEncoded);
+
+            let dateTimeMatch = DateTimeLiteralRegex.exec(valueEncoded);
+            if (dateTimeMatch)
+                return SQExprBuilder.dateTime(parseDateTime(dateTimeMatch[1]), valueEncoded);
+
+            let numericMatch = NumericLiteralRegex.exec(valueEncoded);
+            if (numericMatch) {
+                let value = parseFloat(numericMatch[1]);
+                switch (numericMatch[2]) {
+                    case 'L':
+                        return SQExprBuilder.integer(value, valueEncoded);
+                    case 'D':
+                        return SQExprBuilder.double(value, valueEncoded);
+                    case 'M':
+                        return SQExprBuilder.decimal(value, valueEncoded);
+                }
+            }
+
+            throw new Error('Unsupported literal value: ' + valueEncoded);
+        }
+
+        /** Date time values are not time zone qualified, so they are read as local time (see PrimitiveValueEncoding.dateTime). */
+        function parseDateTime(value: string): Date {
+            let match = DateTimeRegex.exec(value);
+            if (!match)
+                throw new Error('Unsupported date time value: ' + value);
+
+            let milliseconds = match[7] ? parseInt((match[7] + '00').substr(0, 3), 10) : 0;
+
+            return new Date(
+                parseInt(match[1], 10),
+                parseInt(match[2], 10) - 1,
+                parseInt(match[3], 10),
+                parseInt(match[4] || '0', 10),
+                parseInt(match[5] || '0', 10),
+                parseInt(match[6] || '0', 10),
+                milliseconds);
+        }
+    }
+}